@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/src'],
+    moduleNameMapper: {
+        '^@/(.*)$': '<rootDir>/src/$1',
+        // The package only declares an "import" export condition, which jest's require() does not match
+        '^@bosdb/version-control$': '<rootDir>/../../packages/version-control/dist/index.js',
+    },
+    transform: {
+        // Next compiles the app itself; tests only need CommonJS
+        '^.+\\.tsx?$': ['ts-jest', { tsconfig: { module: 'commonjs', jsx: 'react-jsx' } }],
+    },
+};
@@ -12,6 +12,7 @@ const nextConfig = {
         instrumentationHook: false,
         serverComponentsExternalPackages: [
             'pg',
+            'pg-copy-streams',
             'mysql2',
             'lru.min',
             'seq-queue',
@@ -30,6 +31,11 @@ const nextConfig = {
             'cassandra-driver',
             'neo4j-driver',
             '@elastic/elasticsearch',
+            'better-sqlite3',
+            '@duckdb/node-api',
+            '@duckdb/node-bindings',
+            '@clickhouse/client',
+            '@influxdata/influxdb-client',
             // Optional native dependencies to exclude from bundling
             'kerberos',
             'snappy',
@@ -64,6 +70,10 @@ const nextConfig = {
                 'cassandra-driver': false,
                 'neo4j-driver': false,
                 '@elastic/elasticsearch': false,
+                'better-sqlite3': false,
+                '@duckdb/node-api': false,
+                '@clickhouse/client': false,
+                '@influxdata/influxdb-client': false,
             };
         }
         return config;
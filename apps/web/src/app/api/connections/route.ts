@@ -4,6 +4,7 @@ import { encryptCredentials } from '@bosdb/security';
 import { Logger } from '@bosdb/utils';
 import type { ConnectionConfig } from '@bosdb/core';
 import { connections, saveConnections, getConnection, deleteConnection } from '@/lib/store';
+import { isFileDatabase } from '@/constants/database-types';
 
 const logger = new Logger('ConnectionsAPI');
 
@@ -97,25 +98,47 @@ export async function POST(request: NextRequest) {
 
         } else {
             // MANUAL CONNECTION FLOW
-            // Validate required fields
-            if (!name || !type || !host || !database || !username || !password) {
-                return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
-            }
+            if (isFileDatabase(type)) {
+                // Embedded databases only need a file path (empty for in-memory)
+                if (!name) {
+                    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+                }
 
-            // AUTO-CORRECT: Use sanitizeHost here too, in case user/UI sent localhost for a cloud port
-            const { sanitizeHost } = await import('@/lib/cloud-provisioner');
-            const effectiveHost = sanitizeHost(host, port || 5432);
+                finalConfig = {
+                    name,
+                    host: '',
+                    port: 0,
+                    database: database || '',
+                    username: '',
+                    password: '',
+                    ssl: false,
+                    readOnly: readOnly || false,
+                };
+            } else {
+                // Validate required fields. InfluxDB authenticates with a token alone and
+                // Prometheus may need no credentials or database at all.
+                const missingCredentials = type === 'prometheus'
+                    ? false
+                    : !database || !password || (!username && type !== 'influxdb');
+                if (!name || !type || !host || missingCredentials) {
+                    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+                }
 
-            finalConfig = {
-                name,
-                host: effectiveHost,
-                port: port || 5432,
-                database,
-                username,
-                password,
-                ssl: ssl || false,
-                readOnly: readOnly || false,
-            };
+                // AUTO-CORRECT: Use sanitizeHost here too, in case user/UI sent localhost for a cloud port
+                const { sanitizeHost } = await import('@/lib/cloud-provisioner');
+                const effectiveHost = sanitizeHost(host, port || 5432);
+
+                finalConfig = {
+                    name,
+                    host: effectiveHost,
+                    port: port || 5432,
+                    database: database || '',
+                    username: username || '',
+                    password: password || '',
+                    ssl: ssl || false,
+                    readOnly: readOnly || false,
+                };
+            }
 
             // Skip connection test if requested
             if (!skipTest) {
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ValidationError } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { compareTableData } from '@/lib/data-compare';
+import type { DataCompareSide } from '@/lib/data-compare';
+
+const logger = new Logger('DataCompareAPI');
+
+export const dynamic = 'force-dynamic';
+
+// Upper bounds so one request cannot hold a whole table in memory
+const MAX_CHUNK_SIZE = 10000;
+const MAX_DIFF_ROWS = 10000;
+
+/**
+ * POST /api/data/compare
+ * Compare the rows of two tables, on one connection or two, matched by primary key.
+ * Body: { left: { connectionId, schema, table }, right: { ... }, chunkSize?, maxDiffRows?, columns? }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { left, right, chunkSize, maxDiffRows, columns } = await request.json();
+
+        if (!left?.connectionId || !left?.table || !right?.connectionId || !right?.table) {
+            return NextResponse.json({ error: 'Missing left or right connection and table' }, { status: 400 });
+        }
+
+        const sides: DataCompareSide[] = [];
+        for (const side of [left, right]) {
+            const connectionInfo = await getConnection(side.connectionId);
+            if (!connectionInfo) {
+                return NextResponse.json({ error: `Connection not found: ${side.connectionId}` }, { status: 404 });
+            }
+
+            const { adapter, adapterConnectionId } = await getConnectedAdapter(side.connectionId);
+            const schema = side.schema || '';
+            const metadata = await adapter.describeTable(adapterConnectionId, schema, side.table);
+            if (!metadata.columns.length) {
+                return NextResponse.json({ error: `Table not found: ${schema ? `${schema}.` : ''}${side.table}` }, { status: 404 });
+            }
+            sides.push({ adapter, adapterConnectionId, dbType: connectionInfo.type, schema, table: side.table, metadata });
+        }
+
+        const started = Date.now();
+        const result = await compareTableData(sides[0], sides[1], {
+            chunkSize: chunkSize ? Math.min(Number(chunkSize), MAX_CHUNK_SIZE) : undefined,
+            maxDiffRows: maxDiffRows ? Math.min(Number(maxDiffRows), MAX_DIFF_ROWS) : undefined,
+            columns,
+        });
+
+        logger.info(`Compared ${sides[0].table} with ${sides[1].table}: ${result.counts.changed} changed, ` +
+            `${result.counts.onlyLeft} left only, ${result.counts.onlyRight} right only in ${Date.now() - started}ms`);
+
+        return NextResponse.json({
+            ...result,
+            left: { connectionId: left.connectionId, dbType: sides[0].dbType, schema: sides[0].schema, table: sides[0].table },
+            right: { connectionId: right.connectionId, dbType: sides[1].dbType, schema: sides[1].schema, table: sides[1].table },
+        });
+    } catch (error: any) {
+        if (error instanceof ValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        logger.error('Data compare failed', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
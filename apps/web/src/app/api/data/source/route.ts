@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decryptCredentials } from '@bosdb/security';
+import { Logger } from '@bosdb/utils';
+import type { TableMetadata } from '@bosdb/core';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { extractSourceTable, findRowKey } from '@/lib/sql-helper';
+
+const logger = new Logger('DataSourceAPI');
+
+/**
+ * POST /api/data/source - Resolve the table behind a result set and the key that identifies its rows.
+ * Postgres reports the source of each column (tableID/columnID); other databases are resolved from
+ * the FROM clause of a single-table SELECT.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { connectionId, query, fields = [] } = await request.json();
+
+        if (!connectionId || !query) {
+            return NextResponse.json({ error: 'Missing connectionId or query' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+        }
+
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+        const fieldNames: string[] = fields.map((f: any) => f.name);
+
+        let metadata: TableMetadata | null = null;
+        // Result field name -> table column name (differs for aliased columns)
+        const columnMap: Record<string, string> = {};
+
+        const tableIDs = new Set<number>(fields.map((f: any) => f.tableID).filter(Boolean));
+        if (tableIDs.size > 1) {
+            return notEditable('The result combines columns from several tables');
+        }
+
+        if (tableIDs.size === 1) {
+            const tableID = Array.from(tableIDs)[0];
+            const [relation, attributes] = await Promise.all([
+                adapter.executeQuery({
+                    connectionId: adapterConnectionId,
+                    query: 'SELECT n.nspname AS schema, c.relname AS table FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace WHERE c.oid = $1',
+                    params: [tableID],
+                }),
+                adapter.executeQuery({
+                    connectionId: adapterConnectionId,
+                    query: 'SELECT attnum, attname FROM pg_attribute WHERE attrelid = $1 AND attnum > 0 AND NOT attisdropped',
+                    params: [tableID],
+                }),
+            ]);
+
+            const source = relation.rows[0];
+            if (!source) return notEditable('The source table of this result no longer exists');
+
+            const names = new Map<number, string>(attributes.rows.map((a: any) => [Number(a.attnum), a.attname]));
+            for (const field of fields) {
+                if (field.tableID === tableID && names.has(field.columnID)) {
+                    columnMap[field.name] = names.get(field.columnID)!;
+                }
+            }
+            metadata = await adapter.describeTable(adapterConnectionId, source.schema, source.table);
+        } else {
+            const source = extractSourceTable(query);
+            if (!source) {
+                return notEditable('Only single-table SELECT results can be edited');
+            }
+
+            const schema = source.schema || defaultSchema(connectionInfo);
+            // Unquoted names are folded by the database: lower case in Postgres, upper case in Oracle
+            for (const table of Array.from(new Set([source.table, source.table.toLowerCase(), source.table.toUpperCase()]))) {
+                const candidate = await adapter.describeTable(adapterConnectionId, schema, table).catch(() => null);
+                if (candidate && candidate.columns.length > 0) {
+                    metadata = candidate;
+                    break;
+                }
+            }
+        }
+
+        if (!metadata) {
+            return notEditable('The source table of this result was not found');
+        }
+
+        // Without column sources, result fields are matched to table columns by name
+        if (tableIDs.size === 0) {
+            const columns = new Map(metadata.columns.map(c => [c.name.toLowerCase(), c.name]));
+            for (const name of fieldNames) {
+                const column = columns.get(name.toLowerCase());
+                if (column) columnMap[name] = column;
+            }
+        }
+
+        const keyColumns = findRowKey(metadata);
+        if (keyColumns.length === 0) {
+            return notEditable(`${metadata.name} has no primary key or unique NOT NULL index to identify rows`);
+        }
+
+        const mapped = new Set(Object.values(columnMap));
+        const missing = keyColumns.filter(col => !mapped.has(col));
+        if (missing.length > 0) {
+            return notEditable(`Add the key column(s) ${missing.join(', ')} to the SELECT to edit rows`);
+        }
+
+        return NextResponse.json({
+            editable: true,
+            schema: metadata.schema,
+            table: metadata.name,
+            keyColumns,
+            columnMap,
+            columns: metadata.columns,
+        });
+    } catch (error: any) {
+        logger.error('Failed to resolve result source', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
+
+function notEditable(reason: string) {
+    return NextResponse.json({ editable: false, reason });
+}
+
+// Schema that unqualified table names resolve to
+function defaultSchema(connectionInfo: any): string {
+    switch (connectionInfo.type) {
+        case 'mysql':
+        case 'mariadb':
+        case 'tidb':
+        case 'singlestore':
+            return connectionInfo.database;
+        case 'mssql':
+        case 'sqlserver':
+        case 'azuresql':
+            return 'dbo';
+        case 'oracle':
+            return decryptCredentials(connectionInfo.credentials).username.toUpperCase();
+        default:
+            return 'public';
+    }
+}
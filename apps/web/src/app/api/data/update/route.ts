@@ -1,18 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connections, adapterInstances, getConnection } from '@/lib/store';
-import { getConnectedAdapter } from '@/lib/db-utils';
-import { generateUpdateStatement } from '@/lib/sql-helper';
+import { getConnectedAdapter, runInTransaction } from '@/lib/db-utils';
+import { generateUpdateStatement, generateInsertStatement, generateDeleteStatement } from '@/lib/sql-helper';
+import { getQueryTransaction, deferChange } from '@/lib/query-transactions';
+import { parseQueryForChanges } from '@/lib/vcs-helper';
+import { addPendingChange } from '@/lib/vcs-storage';
+import { inlineParameters } from '@bosdb/core';
+import type { QueryParams } from '@bosdb/core';
 import { Logger } from '@bosdb/utils';
 
 const logger = new Logger('DataUpdateAPI');
 
+interface RowStatement {
+    query: string;
+    params: QueryParams;
+    primaryKey?: Record<string, unknown>;
+    // Updates and deletes address one row by its key; anything else means the row changed underneath us
+    expectOneRow: boolean;
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * POST /api/data/update - Save grid edits to one table
+ * Body: { connectionId, schema, table, updates?, inserts?, deletes?, keyColumns?, transactionId? }
+ *   updates: [{ primaryKey, changes, original }]  deletes: [{ primaryKey, row }]  inserts: [values]
+ */
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { connectionId, schema, table, updates, filters } = body;
+        const { connectionId, schema, table, updates = [], inserts = [], deletes = [], keyColumns = [], transactionId } = body;
 
         // Basic validation
-        if (!connectionId || !schema || !table || !updates) {
+        if (!connectionId || !schema || !table || (updates.length + inserts.length + deletes.length) === 0) {
             return NextResponse.json(
                 { error: 'Missing required fields' },
                 { status: 400 }
@@ -25,51 +44,105 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
         }
 
-        // Get adapter instance using shared helper
-        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
-
-        const results = [];
-        const errors = [];
-
-        // For this MVP, we execute updates sequentially. 
-        // In a real production app, we should use a transaction block (BEGIN...COMMIT).
+        if (connectionInfo.readOnly) {
+            return NextResponse.json({ error: 'Write operations not allowed on read-only connection' }, { status: 403 });
+        }
 
-        for (const update of updates) {
-            try {
-                const { primaryKey, changes } = update;
+        // Edits made while the query editor has a transaction open join that transaction
+        if (transactionId && getQueryTransaction(transactionId)?.connectionId !== connectionId) {
+            return NextResponse.json({ error: 'Transaction not found or already finished' }, { status: 404 });
+        }
 
-                // Generate SQL
-                const sql = generateUpdateStatement(schema, table, primaryKey, changes, connectionInfo.type);
+        // Get adapter instance using shared helper
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+        const dialect = connectionInfo.type;
 
-                // Execute with the correct adapter connection ID
-                await adapter.executeQuery({
-                    connectionId: adapterConnectionId,
-                    query: sql
-                });
+        // Deletes first, so re-inserting a deleted key in the same save doesn't collide
+        const statements: RowStatement[] = [
+            ...deletes.map((del: any) => ({
+                ...generateDeleteStatement(schema, table, del.primaryKey, dialect),
+                primaryKey: del.primaryKey,
+                expectOneRow: true,
+                metadata: { oldRows: [del.row], dialect },
+            })),
+            ...updates.map((update: any) => ({
+                ...generateUpdateStatement(schema, table, update.primaryKey, update.changes, dialect),
+                primaryKey: update.primaryKey,
+                expectOneRow: true,
+                metadata: {
+                    oldRows: [{ ...update.original, ...update.primaryKey }],
+                    primaryKeyFields: Object.keys(update.primaryKey),
+                    dialect,
+                },
+            })),
+            ...inserts.map((values: any) => ({
+                ...generateInsertStatement(schema, table, values, dialect),
+                expectOneRow: false,
+                // Generated keys aren't known here, so such inserts get a manual rollback
+                metadata: keyColumns.length > 0 && keyColumns.every((col: string) => values[col] !== undefined)
+                    ? { primaryKey: Object.fromEntries(keyColumns.map((col: string) => [col, values[col]])), dialect }
+                    : { dialect },
+            })),
+        ];
 
-                results.push({ success: true, primaryKey });
-            } catch (err: any) {
-                console.error('Update failed:', err);
-                errors.push({
-                    primaryKey: update.primaryKey,
-                    error: err.message
-                });
+        // All rows are saved in one transaction: if any statement fails, none of them are kept
+        const execute = async (txId?: string) => {
+            const affected: number[] = [];
+            for (const statement of statements) {
+                try {
+                    const result = await adapter.executeQuery({
+                        connectionId: adapterConnectionId,
+                        query: statement.query,
+                        params: statement.params,
+                        transactionId: txId,
+                    });
+                    if (statement.expectOneRow && result.rowCount !== 1) {
+                        throw new Error(`Expected to change 1 row but changed ${result.rowCount}; the row may have been modified or deleted`);
+                    }
+                    affected.push(result.rowCount);
+                } catch (err: any) {
+                    throw Object.assign(new Error(err.message), { primaryKey: statement.primaryKey });
+                }
             }
-        }
+            return affected;
+        };
 
-        if (errors.length > 0 && results.length === 0) {
-            // All failed
+        let affected: number[];
+        try {
+            affected = transactionId
+                ? await execute(transactionId)
+                : await runInTransaction(adapter, adapterConnectionId, execute);
+        } catch (err: any) {
+            logger.error('Save failed, changes rolled back', err);
             return NextResponse.json({
                 success: false,
-                error: 'All updates failed',
-                details: errors
+                error: `Save failed: ${err.message}`,
+                details: [{ primaryKey: err.primaryKey, error: err.message }]
             }, { status: 500 });
         }
 
+        // Track in VCS like statements run from the editor
+        try {
+            for (const [i, statement] of statements.entries()) {
+                const change = parseQueryForChanges(inlineParameters(statement.query, statement.params, dialect), affected[i]);
+                if (!change) continue;
+
+                const tracked = { ...change, metadata: { ...change.metadata, ...statement.metadata }, timestamp: new Date().toISOString() };
+                if (transactionId) {
+                    deferChange(transactionId, tracked);
+                } else {
+                    await addPendingChange(connectionId, tracked);
+                }
+            }
+        } catch (vcsError) {
+            logger.error('Failed to track grid changes', vcsError);
+        }
+
         return NextResponse.json({
             success: true,
-            updatedCount: results.length,
-            errors: errors.length > 0 ? errors : undefined
+            updatedCount: updates.length,
+            insertedCount: inserts.length,
+            deletedCount: deletes.length
         });
 
     } catch (error: any) {
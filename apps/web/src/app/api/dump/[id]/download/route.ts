@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openDumpDownload } from '@/lib/dump-pipeline';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+    params: {
+        id: string;
+    };
+}
+
+/**
+ * GET /api/dump/[id]/download
+ * The dump archive, written as it is downloaded. Each dump downloads once.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    const download = openDumpDownload(params.id);
+    if (!download) {
+        return NextResponse.json({ error: 'Dump not found, expired or already downloaded' }, { status: 404 });
+    }
+
+    const fileName = download.fileName;
+    return new NextResponse(download.body, {
+        headers: {
+            'Content-Type': 'application/gzip',
+            'Content-Disposition': `attachment; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+            'Cache-Control': 'no-store',
+            'X-Content-Type-Options': 'nosniff',
+        },
+    });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@bosdb/utils';
+import { cancelDump, getDump } from '@/lib/dump-pipeline';
+
+const logger = new Logger('DumpAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+    params: {
+        id: string;
+    };
+}
+
+// GET /api/dump/[id] - Progress of a dump, table by table
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    const progress = getDump(params.id);
+    if (!progress) {
+        return NextResponse.json({ error: 'Dump not found or expired' }, { status: 404 });
+    }
+    return NextResponse.json(progress);
+}
+
+// DELETE /api/dump/[id] - Cancel a dump that has not finished
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+    try {
+        const cancelled = await cancelDump(params.id);
+        if (!cancelled) {
+            return NextResponse.json({ error: 'Dump is not running' }, { status: 404 });
+        }
+
+        logger.info(`Cancelled dump ${params.id}`);
+        return NextResponse.json({ success: true, cancelled: true });
+    } catch (error: any) {
+        logger.error('Cancel dump failed', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ValidationError } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { createDump } from '@/lib/dump-pipeline';
+import type { DumpRequest } from '@/lib/dump-helper';
+
+const logger = new Logger('DumpAPI');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/dump
+ * Describe the selected schemas or tables for a dump. Returns the dump's progress; its `id`
+ * names the archive at GET /api/dump/[id]/download, which reads the rows as it downloads.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body: DumpRequest = await request.json();
+        if (!body.connectionId) {
+            return NextResponse.json({ error: 'Missing connectionId' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(body.connectionId);
+        if (!connectionInfo) {
+            return NextResponse.json({ error: `Connection not found: ${body.connectionId}` }, { status: 404 });
+        }
+
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(body.connectionId);
+        const progress = await createDump({
+            adapter,
+            adapterConnectionId,
+            dbType: connectionInfo.type,
+            connectionName: connectionInfo.name,
+            database: connectionInfo.database,
+        }, body);
+
+        logger.info(`Dump ${progress.id} ready: ${progress.tables.length} tables of ${connectionInfo.name}` +
+            (body.schemaOnly ? ' (schema only)' : ''));
+        return NextResponse.json(progress);
+    } catch (error: any) {
+        if (error instanceof ValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        logger.error('Dump failed', error);
+        return NextResponse.json({ error: error.message || String(error) }, { status: 500 });
+    }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openExportDownload } from '@/lib/export-pipeline';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+    params: {
+        id: string;
+    };
+}
+
+/**
+ * GET /api/export/[id]/download
+ * The export file, written as it is downloaded. Opened by a plain link so the browser saves
+ * it to disk as it arrives instead of holding it in the page. Each export downloads once.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    const download = openExportDownload(params.id);
+    if (!download) {
+        return NextResponse.json({ error: 'Export not found, expired or already downloaded' }, { status: 404 });
+    }
+
+    const fileName = download.fileName;
+    return new NextResponse(download.body, {
+        headers: {
+            'Content-Type': download.mimeType,
+            'Content-Disposition': `attachment; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+            'Cache-Control': 'no-store',
+            'X-Content-Type-Options': 'nosniff',
+        },
+    });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@bosdb/utils';
+import { cancelExport, getExport } from '@/lib/export-pipeline';
+
+const logger = new Logger('ExportAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+    params: {
+        id: string;
+    };
+}
+
+// GET /api/export/[id] - Progress of an export
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    const progress = getExport(params.id);
+    if (!progress) {
+        return NextResponse.json({ error: 'Export not found or expired' }, { status: 404 });
+    }
+    return NextResponse.json(progress);
+}
+
+// DELETE /api/export/[id] - Cancel an export that has not finished
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+    try {
+        const cancelled = await cancelExport(params.id);
+        if (!cancelled) {
+            return NextResponse.json({ error: 'Export is not running' }, { status: 404 });
+        }
+
+        logger.info(`Cancelled export ${params.id}`);
+        return NextResponse.json({ success: true, cancelled: true });
+    } catch (error: any) {
+        logger.error('Cancel export failed', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ValidationError } from '@bosdb/core';
+import { validateQuery, isReadOnlyQuery } from '@bosdb/security';
+import { Logger } from '@bosdb/utils';
+import { isReadOnlyMongoQuery } from '@bosdb/db-adapters';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { createExport } from '@/lib/export-pipeline';
+import { EXPORT_FORMATS } from '@/lib/export-helper';
+import type { ExportRequest } from '@/lib/export-helper';
+
+const logger = new Logger('ExportAPI');
+
+export const dynamic = 'force-dynamic';
+
+const DOCUMENT_TYPES = ['mongodb', 'mongo', 'ferretdb', 'documentdb', 'cosmosdb'];
+
+/**
+ * POST /api/export
+ * Run a query for export. Returns the export's progress; its `id` names the file at
+ * GET /api/export/[id]/download, which streams every row of the result.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body: ExportRequest = await request.json();
+        const { connectionId, query, format } = body;
+
+        if (!connectionId || !query || !format) {
+            return NextResponse.json({ error: 'Missing connectionId, query or format' }, { status: 400 });
+        }
+        if (!EXPORT_FORMATS[format]) {
+            return NextResponse.json({ error: `Unsupported export format: ${format}` }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
+        }
+
+        const validation = validateQuery(query);
+        if (!validation.safe) {
+            logger.warn(`Unsafe export query blocked: ${validation.reason}`, validation.patterns);
+            return NextResponse.json({ error: 'Unsafe query detected', reason: validation.reason }, { status: 400 });
+        }
+        // The query runs again for the export, so it must only read
+        if (!isExportableQuery(query, connectionInfo.type)) {
+            return NextResponse.json({ error: 'Only queries that read data can be exported' }, { status: 400 });
+        }
+
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+        const progress = await createExport({ adapter, adapterConnectionId, dbType: connectionInfo.type }, body);
+
+        logger.info(`Export ${progress.id} ready: ${progress.fileName} from ${connectionInfo.name}` +
+            (progress.truncated ? ' (truncated, no cursor support)' : ''));
+        return NextResponse.json(progress);
+    } catch (error: any) {
+        if (error instanceof ValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        logger.error('Export failed', error);
+        return NextResponse.json({ error: error.message || String(error) }, { status: 500 });
+    }
+}
+
+function isExportableQuery(query: string, dbType: string): boolean {
+    // Elasticsearch runs SQL or a search body, both of which only read
+    if (dbType.toLowerCase() === 'elasticsearch') return true;
+    if (!DOCUMENT_TYPES.includes(dbType.toLowerCase())) {
+        return isReadOnlyQuery(query);
+    }
+
+    return isReadOnlyMongoQuery(query);
+}
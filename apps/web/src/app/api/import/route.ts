@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ValidationError } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { readUpload } from '@/lib/multipart';
+import { importFamily, inferColumns, openImportSource, runImport } from '@/lib/import-pipeline';
+import type { ImportSource } from '@/lib/import-pipeline';
+import { generateCreateTableStep } from '@/lib/sql-helper';
+import type { AlterStep } from '@/lib/sql-helper';
+import { createSchemaChange } from '@/lib/vcs-helper';
+import { addPendingChange } from '@/lib/vcs-storage';
+import type { ImportEvent, ImportOptions, ImportPreview } from '@/lib/import-helper';
+
+const logger = new Logger('ImportAPI');
+
+export const dynamic = 'force-dynamic';
+
+// Rows shown in the preview, and sampled to suggest column types for a new table
+const PREVIEW_ROWS = 20;
+const INFER_SAMPLE_ROWS = 1000;
+
+/**
+ * POST /api/import
+ * multipart/form-data with an `options` field (JSON ImportOptions plus `action`) followed by
+ * the `file`. The file is read as it uploads.
+ *
+ * action 'preview' returns the file's columns, its first rows, suggested column types and the
+ * target table's columns. 'import' (default) streams NDJSON ImportEvents: progress after each
+ * batch, rejected rows, and a final 'done' summary or 'fatal' error.
+ */
+export async function POST(request: NextRequest) {
+    let source: ImportSource | undefined;
+    try {
+        const { options, file, fileName } = await readUpload<ImportOptions & { action?: 'preview' | 'import'; partial?: boolean }>(request);
+        const { connectionId, schema = '', table, format, action = 'import' } = options;
+
+        if (!connectionId || !table || !format) {
+            file.resume();
+            return NextResponse.json({ error: 'Missing connectionId, table or format' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            file.resume();
+            return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
+        }
+        const family = importFamily(connectionInfo.type);
+        if (!family) {
+            file.resume();
+            return NextResponse.json({ error: `Import is not supported for ${connectionInfo.type}` }, { status: 400 });
+        }
+        if (action === 'import' && !options.dryRun && connectionInfo.readOnly) {
+            file.resume();
+            return NextResponse.json({ error: 'Write operations not allowed on read-only connection' }, { status: 403 });
+        }
+
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+        const { columns: tableColumns } = await adapter.describeTable(adapterConnectionId, schema, table);
+
+        source = await openImportSource(format, file, {
+            delimiter: options.delimiter,
+            sheet: options.sheet,
+            partial: action === 'preview' && options.partial,
+        });
+
+        if (action === 'preview') {
+            const sample: unknown[][] = [];
+            for await (const row of source.rows) {
+                sample.push(row);
+                if (sample.length >= INFER_SAMPLE_ROWS) break;
+            }
+            await source.close();
+
+            const preview: ImportPreview = {
+                format,
+                columns: source.columns,
+                rows: sample.slice(0, PREVIEW_ROWS),
+                totalRows: source.rowCount,
+                suggestedColumns: family === 'document' ? [] : inferColumns(source.columns, sample, connectionInfo.type),
+                sheets: source.sheets,
+                target: tableColumns.length > 0 ? tableColumns : null,
+            };
+            return NextResponse.json(preview);
+        }
+
+        let createStep: AlterStep | undefined;
+        if (options.createTable) {
+            if (tableColumns.length > 0) {
+                await source.close();
+                return NextResponse.json({ error: `Table already exists: ${table}` }, { status: 409 });
+            }
+            createStep = generateCreateTableStep({ name: table, columns: options.createTable }, schema, connectionInfo.type);
+        } else if (tableColumns.length === 0 && family !== 'document') {
+            await source.close();
+            return NextResponse.json({ error: `Table not found: ${schema ? `${schema}.` : ''}${table}` }, { status: 404 });
+        }
+
+        const author = {
+            id: request.headers.get('x-user-id') || 'system',
+            name: request.headers.get('x-user-name') || 'System',
+        };
+        const importSource = source;
+        source = undefined;
+
+        const encoder = new TextEncoder();
+        const body = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const emit = (event: ImportEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+                try {
+                    const summary = await runImport(importSource, {
+                        adapter,
+                        adapterConnectionId,
+                        dbType: connectionInfo.type,
+                        schema,
+                        table,
+                        columns: tableColumns,
+                    }, {
+                        mapping: options.mapping || [],
+                        createStep,
+                        dryRun: options.dryRun,
+                        onError: options.onError,
+                        batchSize: options.batchSize,
+                    }, emit);
+
+                    if (!summary.dryRun && !summary.rolledBack) {
+                        try {
+                            if (createStep) {
+                                await addPendingChange(connectionId, createSchemaChange('create', table, createStep.sql, author, createStep.rollbackSQL));
+                            }
+                            if (summary.inserted > 0) {
+                                await addPendingChange(connectionId, {
+                                    type: 'DATA',
+                                    operation: 'INSERT',
+                                    target: table,
+                                    tableName: table,
+                                    description: `Import ${summary.inserted} row(s) into ${table} from ${fileName} by ${author.name}`,
+                                    query: `-- Imported ${summary.inserted} row(s) from ${fileName}`,
+                                    affectedRows: summary.inserted,
+                                    rollbackSQL: 'MANUAL',
+                                    status: 'APPLIED',
+                                });
+                            }
+                        } catch (vcsError) {
+                            logger.warn('Failed to track import in VCS', vcsError);
+                        }
+                    }
+
+                    logger.info(`Imported ${fileName} into ${table}: ${summary.inserted} of ${summary.rowsRead} rows ` +
+                        `(${summary.method}${summary.dryRun ? ', dry run' : ''}) in ${summary.executionTime}ms`);
+                    emit({ type: 'done', summary });
+                } catch (error: any) {
+                    logger.error(`Import of ${fileName} into ${table} failed`, error);
+                    emit({ type: 'fatal', error: error instanceof ValidationError ? error.message : String(error) });
+                } finally {
+                    controller.close();
+                }
+            },
+        });
+
+        return new NextResponse(body, {
+            headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+        });
+    } catch (error: any) {
+        await source?.close().catch(() => undefined);
+        if (error instanceof ValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        logger.error('Import failed', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -33,26 +33,29 @@ export async function GET(request: NextRequest) {
 
         // define query based on DB type
         let query = '';
+        let params: Record<string, unknown> = {};
         const dbType = connectionInfo.type.toLowerCase();
 
         if (dbType === 'postgresql' || dbType === 'postgres') {
             query = `
                 SELECT routine_name as name, routine_type as type 
                 FROM information_schema.routines 
-                WHERE routine_schema = '${schema}' 
+                WHERE routine_schema = :schema 
                 AND routine_type IN ('FUNCTION', 'PROCEDURE')
                 ORDER BY routine_name ASC
             `;
+            params = { schema };
         } else if (dbType === 'mysql' || dbType === 'mariadb') {
             // In MySQL, schema is the database name
             const dbName = schema === 'public' || !schema ? connectionInfo.database : schema;
             query = `
                 SELECT ROUTINE_NAME as name, ROUTINE_TYPE as type 
                 FROM information_schema.ROUTINES 
-                WHERE ROUTINE_SCHEMA = '${dbName}' 
+                WHERE ROUTINE_SCHEMA = :schema 
                 AND ROUTINE_TYPE IN ('PROCEDURE', 'FUNCTION')
                 ORDER BY ROUTINE_NAME ASC
             `;
+            params = { schema: dbName };
         } else {
             logger.info(`Procedures not supported for DB type: ${connectionInfo.type}`);
             return NextResponse.json({ procedures: [] });
@@ -63,6 +66,7 @@ export async function GET(request: NextRequest) {
         const queryRequest: QueryRequest = {
             connectionId: adapterConnectionId,
             query,
+            params,
             timeout: 10000,
             maxRows: 1000,
         };
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@bosdb/utils';
+import { getExecution, cancelExecution } from '@/lib/query-executions';
+
+const logger = new Logger('QueryAPI');
+
+interface RouteParams {
+    params: {
+        id: string;
+    };
+}
+
+// GET /api/query/[id] - Whether the statement is still running
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    const execution = getExecution(params.id);
+    if (!execution) {
+        return NextResponse.json({ running: false });
+    }
+
+    return NextResponse.json({
+        running: true,
+        connectionId: execution.connectionId,
+        startedAt: execution.startedAt,
+    });
+}
+
+// DELETE /api/query/[id] - Cancel a running statement
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+    try {
+        const execution = getExecution(params.id);
+        if (!execution) {
+            return NextResponse.json({ error: 'Query is not running' }, { status: 404 });
+        }
+
+        const cancelled = await cancelExecution(params.id);
+        if (!cancelled) {
+            return NextResponse.json({
+                error: 'Query cannot be cancelled: it has not reached the database yet, or this database does not support cancellation',
+            }, { status: 409 });
+        }
+
+        logger.info(`Cancelled query ${params.id} on ${execution.connectionId}`);
+        return NextResponse.json({ success: true, cancelled: true });
+    } catch (error: any) {
+        logger.error('Cancel query failed', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -1,21 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AdapterFactory } from '@bosdb/db-adapters';
+import { randomUUID } from 'crypto';
+import { AdapterFactory, isReadOnlyMongoQuery } from '@bosdb/db-adapters';
 import { decryptCredentials } from '@bosdb/security';
 import { validateQuery, isReadOnlyQuery } from '@bosdb/security';
 import { Logger } from '@bosdb/utils';
+import { inlineParameters } from '@bosdb/core';
 import type { QueryRequest } from '@bosdb/core';
 import { connections, adapterInstances, getConnection } from '@/lib/store';
 import { addQueryToHistory } from '@/lib/queryStore';
+import { startExecution, finishExecution } from '@/lib/query-executions';
+import { getQueryTransaction, deferChange, runUnderSavepoint } from '@/lib/query-transactions';
 
 const logger = new Logger('QueryAPI');
 
+const DOCUMENT_TYPES = ['mongodb', 'mongo', 'ferretdb', 'documentdb', 'cosmosdb'];
+
 export async function POST(request: NextRequest) {
     let body: any;
     try {
         body = await request.json();
-        const { connectionId, query, timeout, maxRows } = body;
+        const { connectionId, query, params, timeout, maxRows, stream, cursor, closeCursor, transactionId, timeRange } = body;
+        // Clients choose the ID up front so they can cancel before (or without) a response
+        const queryId: string = body.queryId || randomUUID();
 
-        if (!connectionId || !query) {
+        if (!connectionId || (!query && !cursor)) {
             return NextResponse.json(
                 { error: 'Missing connectionId or query' },
                 { status: 400 }
@@ -34,6 +42,26 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
         }
 
+        // Next page of a streamed result (or releasing it early); the first page already
+        // went through validation, history and VCS tracking
+        if (cursor) {
+            const { adapter, adapterConnectionId } = await import('@/lib/db-utils').then(m => m.getConnectedAdapter(connectionId));
+
+            if (closeCursor) {
+                await adapter.closeCursor(adapterConnectionId, cursor);
+                return NextResponse.json({ success: true });
+            }
+
+            const page = await adapter.executeQuery({
+                connectionId: adapterConnectionId,
+                query: '',
+                cursor,
+                timeout: timeout || 30000,
+                maxRows: maxRows || 1000,
+            });
+            return NextResponse.json({ success: true, ...page });
+        }
+
         // Validate query for SQL injection
         const validation = validateQuery(query);
         if (!validation.safe) {
@@ -49,13 +77,21 @@ export async function POST(request: NextRequest) {
         }
 
         // Check if read-only connection allows this query
-        if (connectionInfo.readOnly && !isReadOnlyQuery(query)) {
+        const readOnlyQuery = DOCUMENT_TYPES.includes(connectionInfo.type.toLowerCase())
+            ? isReadOnlyMongoQuery(query)
+            : isReadOnlyQuery(query);
+        if (connectionInfo.readOnly && !readOnlyQuery) {
             return NextResponse.json(
                 { error: 'Write operations not allowed on read-only connection' },
                 { status: 403 }
             );
         }
 
+        // Statements of an editor transaction run on its pinned session
+        if (transactionId && getQueryTransaction(transactionId)?.connectionId !== connectionId) {
+            return NextResponse.json({ error: 'Transaction not found or already finished' }, { status: 404 });
+        }
+
         // Get adapter instance
         let adapter;
         let adapterConnectionId;
@@ -81,8 +117,7 @@ export async function POST(request: NextRequest) {
         let dmlMetadata: any = {};
         const upperQuery = query.trim().toUpperCase();
         
-        // Only run for UPDATE/DELETE if not part of a transaction block
-        // (Transaction support is future work, basic single-statement DML support now)
+        // Only run for UPDATE/DELETE; inside a transaction the pre-fetch sees its uncommitted rows
         if (upperQuery.startsWith('UPDATE') || upperQuery.startsWith('DELETE FROM')) {
             try {
                 // Simple regex extraction - robust enough for basic single-table queries
@@ -115,16 +150,23 @@ export async function POST(request: NextRequest) {
 
                     // Fetch the data that is about to be changed
                     const selectQuery = `SELECT * FROM ${tableName} WHERE ${whereClause}`;
-                    const selectResult = await adapter.executeQuery({
+                    const preFetch = () => adapter.executeQuery({
                         connectionId: adapterConnectionId,
                         query: selectQuery,
+                        params,
+                        transactionId,
                         timeout: 5000, // Short timeout for pre-fetch
                         maxRows: 1000 // Cap to prevent massive memory usage
                     });
+                    // A failed pre-fetch must not abort the editor's transaction before its UPDATE/DELETE runs
+                    const selectResult = transactionId
+                        ? await runUnderSavepoint(adapter, adapterConnectionId, transactionId, connectionInfo.type, preFetch)
+                        : await preFetch();
                     
                     dmlMetadata = {
                         oldRows: selectResult.rows,
                         primaryKeyFields,
+                        dialect: connectionInfo.type,
                         originalCreateSQL: null // Not needed for DML
                     };
                     
@@ -140,11 +182,24 @@ export async function POST(request: NextRequest) {
         const queryRequest: QueryRequest = {
             connectionId: adapterConnectionId,
             query,
+            params,
             timeout: timeout || 30000,
             maxRows: maxRows || 1000,
+            // A cursor would outlive the statement's place in the transaction
+            streamResults: stream === true && !transactionId,
+            queryId,
+            transactionId,
+            // Only time-series adapters read it; others ignore it
+            timeRange,
         };
-        
-        const result = await adapter.executeQuery(queryRequest);
+
+        startExecution({ id: queryId, connectionId, adapterConnectionId, query, userEmail: userEmail || undefined });
+        let result;
+        try {
+            result = await adapter.executeQuery(queryRequest);
+        } finally {
+            finishExecution(queryId);
+        }
 
         logger.info(
             `Query executed: ${query.substring(0, 50)}... (${result.executionTime}ms, ${result.rowCount} rows)`
@@ -169,18 +224,24 @@ export async function POST(request: NextRequest) {
             const { parseQueryForChanges } = await import('@/lib/vcs-helper');
             const { addPendingChange } = await import('@/lib/vcs-storage');
             
-            const change = parseQueryForChanges(query, result.rowCount);
+            // History stores plain statements, so bound values are inlined as literals
+            const trackedQuery = params ? inlineParameters(query, params, connectionInfo.type) : query;
+            const change = parseQueryForChanges(trackedQuery, result.rowCount);
             if (change) {
                 // Attach pre-fetched metadata for DML operations
                 if (dmlMetadata.oldRows) {
                     change.metadata = { ...change.metadata, ...dmlMetadata };
                 }
 
-                await addPendingChange(connectionId, {
-                    ...change,
-                    timestamp: new Date().toISOString()
-                });
-                logger.info(`Tracked VCS change: ${change.type} - ${change.description}`);
+                const tracked = { ...change, timestamp: new Date().toISOString() };
+                if (transactionId) {
+                    // Only committed work becomes a pending change
+                    deferChange(transactionId, tracked);
+                    logger.info(`Deferred VCS change until commit: ${change.type} - ${change.description}`);
+                } else {
+                    await addPendingChange(connectionId, tracked);
+                    logger.info(`Tracked VCS change: ${change.type} - ${change.description}`);
+                }
             }
 
         } catch (historyError) {
@@ -190,6 +251,7 @@ export async function POST(request: NextRequest) {
 
         return NextResponse.json({
             success: true,
+            queryId,
             ...result,
         });
     } catch (error: any) {
@@ -202,7 +264,7 @@ export async function POST(request: NextRequest) {
             const userEmail = request.headers.get('x-user-email');
             const orgId = request.headers.get('x-org-id');
 
-            if (connInfo) {
+            if (connInfo && body.query) {
                 addQueryToHistory({
                     connectionId: body.connectionId,
                     connectionName: connInfo.name,
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@bosdb/utils';
+import { getConnection } from '@/lib/store';
+import {
+    beginQueryTransaction,
+    getQueryTransaction,
+    commitQueryTransaction,
+    rollbackQueryTransaction,
+} from '@/lib/query-transactions';
+
+const logger = new Logger('QueryTransactionAPI');
+
+// POST /api/query/transaction - Begin, commit or roll back a query editor transaction
+export async function POST(request: NextRequest) {
+    try {
+        const { connectionId, action, transactionId } = await request.json();
+
+        if (!connectionId || !action) {
+            return NextResponse.json({ error: 'Missing connectionId or action' }, { status: 400 });
+        }
+
+        if (action === 'begin') {
+            const connectionInfo = await getConnection(connectionId);
+            if (!connectionInfo) {
+                return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+            }
+            if (connectionInfo.readOnly) {
+                return NextResponse.json({ error: 'Transactions are not available on read-only connections' }, { status: 403 });
+            }
+
+            const transaction = await beginQueryTransaction(connectionId, request.headers.get('x-user-email') || undefined);
+            logger.info(`Began transaction ${transaction.id} on ${connectionId}`);
+            return NextResponse.json({ success: true, transactionId: transaction.id, startedAt: transaction.startedAt });
+        }
+
+        if (action !== 'commit' && action !== 'rollback') {
+            return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+        }
+
+        if (!transactionId) {
+            return NextResponse.json({ error: 'Missing transactionId' }, { status: 400 });
+        }
+
+        const transaction = getQueryTransaction(transactionId);
+        if (!transaction || transaction.connectionId !== connectionId) {
+            return NextResponse.json({ error: 'Transaction not found or already finished' }, { status: 404 });
+        }
+
+        if (action === 'commit') {
+            const trackedChanges = await commitQueryTransaction(transactionId);
+            logger.info(`Committed transaction ${transactionId} on ${connectionId} (${trackedChanges} tracked changes)`);
+            return NextResponse.json({ success: true, committed: true, trackedChanges });
+        }
+
+        await rollbackQueryTransaction(transactionId);
+        logger.info(`Rolled back transaction ${transactionId} on ${connectionId}`);
+        return NextResponse.json({ success: true, rolledBack: true });
+    } catch (error: any) {
+        logger.error('Transaction request failed', error);
+        const status = error.code === 'TRANSACTIONS_UNSUPPORTED' ? 409 : 500;
+        return NextResponse.json({ error: error.message || String(error) }, { status });
+    }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RedisAdapter } from '@bosdb/db-adapters';
+import type { RedisKeyChange } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter } from '@/lib/db-utils';
+
+const logger = new Logger('RedisKeyAPI');
+
+export const dynamic = 'force-dynamic';
+
+const CHANGE_OPS = ['set', 'hset', 'hdel', 'lset', 'lpush', 'rpush', 'lrem', 'sadd', 'srem', 'zadd', 'zrem', 'xadd', 'xdel', 'json', 'expire', 'rename', 'delete'];
+
+async function getRedis(connectionId: string) {
+    const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+    return adapter instanceof RedisAdapter ? { adapter, adapterConnectionId } : null;
+}
+
+/**
+ * GET /api/redis/key?connectionId=...&db=db0&key=...&cursor=...
+ * A key's type, TTL, memory usage and value; collections are returned one page at a time.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const connectionId = searchParams.get('connectionId');
+        const key = searchParams.get('key');
+
+        if (!connectionId || key === null) {
+            return NextResponse.json({ error: 'Missing connectionId or key' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
+        }
+
+        const redis = await getRedis(connectionId);
+        if (!redis) {
+            return NextResponse.json({ error: 'Key browsing is only available for Redis connections' }, { status: 400 });
+        }
+
+        const value = await redis.adapter.getKey(redis.adapterConnectionId, searchParams.get('db') || undefined, key, searchParams.get('cursor') || undefined);
+        return NextResponse.json(value);
+    } catch (error: any) {
+        logger.error('Failed to read Redis key', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/redis/key - Edit one key
+ * Body: { connectionId, db?, key, change } where change is a RedisKeyChange, e.g. { op: 'hset', field, value }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { connectionId, db, key, change } = await request.json() as { connectionId?: string; db?: string; key?: string; change?: RedisKeyChange };
+
+        if (!connectionId || typeof key !== 'string' || !change || !CHANGE_OPS.includes(change.op)) {
+            return NextResponse.json({ error: 'Missing connectionId, key or a valid change' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
+        }
+
+        if (connectionInfo.readOnly) {
+            return NextResponse.json({ error: 'Write operations not allowed on read-only connection' }, { status: 403 });
+        }
+
+        const redis = await getRedis(connectionId);
+        if (!redis) {
+            return NextResponse.json({ error: 'Key editing is only available for Redis connections' }, { status: 400 });
+        }
+
+        await redis.adapter.updateKey(redis.adapterConnectionId, db || undefined, key, change);
+        logger.info(`Applied ${change.op} to Redis key ${key}`);
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        logger.error('Failed to update Redis key', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
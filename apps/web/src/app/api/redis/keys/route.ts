@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RedisAdapter } from '@bosdb/db-adapters';
+import { Logger } from '@bosdb/utils';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter } from '@/lib/db-utils';
+
+const logger = new Logger('RedisKeysAPI');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/redis/keys?connectionId=...&db=db0&match=user:*&type=hash&cursor=0&count=200
+ * One SCAN page of keys with their type and TTL. Pass the returned cursor back for the next page;
+ * '0' means the whole database has been scanned.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const connectionId = searchParams.get('connectionId');
+
+        if (!connectionId) {
+            return NextResponse.json({ error: 'Missing connectionId' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
+        }
+
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+        if (!(adapter instanceof RedisAdapter)) {
+            return NextResponse.json({ error: 'Key browsing is only available for Redis connections' }, { status: 400 });
+        }
+
+        const page = await adapter.scanKeys(adapterConnectionId, searchParams.get('db') || undefined, {
+            match: searchParams.get('match') || undefined,
+            type: searchParams.get('type') || undefined,
+            cursor: searchParams.get('cursor') || undefined,
+            count: Math.min(parseInt(searchParams.get('count') || '200', 10) || 200, 5000),
+        });
+
+        return NextResponse.json(page);
+    } catch (error: any) {
+        logger.error('Failed to scan Redis keys', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
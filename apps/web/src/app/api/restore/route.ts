@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ValidationError } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { readUpload } from '@/lib/multipart';
+import { openDumpArchive, runRestore } from '@/lib/dump-pipeline';
+import type { DumpArchive } from '@/lib/dump-pipeline';
+import { syncFamily } from '@/lib/schema-compare';
+import type { RestoreEvent, RestoreOptions } from '@/lib/dump-helper';
+
+const logger = new Logger('RestoreAPI');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/restore
+ * multipart/form-data with an `options` field (JSON RestoreOptions) followed by the dump
+ * archive as `file`. The archive is restored as it uploads; the response streams NDJSON
+ * RestoreEvents: each stage, each table and its progress, and a final 'done' summary or
+ * 'fatal' error.
+ */
+export async function POST(request: NextRequest) {
+    let archive: DumpArchive | undefined;
+    try {
+        const { options, file, fileName } = await readUpload<RestoreOptions>(request);
+        const { connectionId } = options;
+
+        if (!connectionId) {
+            file.resume();
+            return NextResponse.json({ error: 'Missing connectionId' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            file.resume();
+            return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
+        }
+        if (!syncFamily(connectionInfo.type)) {
+            file.resume();
+            return NextResponse.json({ error: `Restore is not supported for ${connectionInfo.type}` }, { status: 400 });
+        }
+        if (connectionInfo.readOnly) {
+            file.resume();
+            return NextResponse.json({ error: 'Write operations not allowed on read-only connection' }, { status: 403 });
+        }
+
+        archive = await openDumpArchive(file, fileName.toLowerCase().endsWith('.gz'));
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+        const restoring = archive;
+        archive = undefined;
+
+        const encoder = new TextEncoder();
+        const body = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const emit = (event: RestoreEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+                try {
+                    const summary = await runRestore(restoring, { adapter, adapterConnectionId, dbType: connectionInfo.type }, options, emit);
+
+                    logger.info(`Restored ${fileName} into ${connectionInfo.name}: ${summary.tables} tables, ` +
+                        `${summary.rows} rows in ${summary.executionTime}ms`);
+                    emit({ type: 'done', summary });
+                } catch (error: any) {
+                    logger.error(`Restore of ${fileName} into ${connectionInfo.name} failed`, error);
+                    emit({ type: 'fatal', error: error.message || String(error) });
+                } finally {
+                    restoring.close();
+                    controller.close();
+                }
+            },
+        });
+
+        return new NextResponse(body, {
+            headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+        });
+    } catch (error: any) {
+        archive?.close();
+        if (error instanceof ValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        logger.error('Restore failed', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
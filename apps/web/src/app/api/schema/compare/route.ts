@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@bosdb/utils';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter, describeSchemaTables, runSchemaSteps } from '@/lib/db-utils';
+import { compareSchemas, generateSyncScript, syncFamily } from '@/lib/schema-compare';
+import { formatAlterScript } from '@/lib/sql-helper';
+import { createSchemaChange } from '@/lib/vcs-helper';
+import { addPendingChange } from '@/lib/vcs-storage';
+import type { SyncStep } from '@/lib/schema-compare';
+
+const logger = new Logger('SchemaCompareAPI');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/schema/compare
+ * Compare a source schema with a target schema and generate the script that makes the target
+ * match the source. Both connections must be in the same database family.
+ *
+ * action 'compare' (default) returns the diff and the script;
+ * 'apply' runs the script on the target and 'record' only adds it to the target's pending
+ * changes. Both take the reviewed script as `sql` and refuse with 409 if it no longer matches.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const {
+            sourceConnectionId,
+            sourceSchema,
+            targetConnectionId,
+            targetSchema,
+            dropMissing = false,
+            action = 'compare',
+            sql: reviewedSql,
+        } = body;
+
+        if (!sourceConnectionId || !sourceSchema || !targetConnectionId || !targetSchema) {
+            return NextResponse.json({ error: 'Missing source or target connection and schema' }, { status: 400 });
+        }
+        if (!['compare', 'apply', 'record'].includes(action)) {
+            return NextResponse.json({ error: `Unsupported action: ${action}` }, { status: 400 });
+        }
+
+        const source = await getConnection(sourceConnectionId);
+        const target = await getConnection(targetConnectionId);
+        if (!source || !target) {
+            return NextResponse.json({ error: `Connection not found: ${!source ? sourceConnectionId : targetConnectionId}` }, { status: 404 });
+        }
+
+        const family = syncFamily(target.type);
+        if (!family) {
+            return NextResponse.json({ error: `Schema compare is not supported for ${target.type}` }, { status: 400 });
+        }
+        if (syncFamily(source.type) !== family) {
+            return NextResponse.json({ error: `Cannot compare ${source.type} with ${target.type}: different database families` }, { status: 400 });
+        }
+
+        const sourceAdapter = await getConnectedAdapter(sourceConnectionId);
+        const targetAdapter = await getConnectedAdapter(targetConnectionId);
+
+        for (const [adapter, connectionId, schema] of [
+            [sourceAdapter, sourceConnectionId, sourceSchema],
+            [targetAdapter, targetConnectionId, targetSchema],
+        ] as const) {
+            const schemas = await adapter.adapter.listSchemas(adapter.adapterConnectionId);
+            if (!schemas.some((s: { name: string }) => s.name === schema)) {
+                return NextResponse.json({ error: `Schema not found: ${schema} on ${connectionId}` }, { status: 404 });
+            }
+        }
+
+        const [sourceTables, targetTables] = await Promise.all([
+            describeSchemaTables(sourceAdapter.adapter, sourceAdapter.adapterConnectionId, sourceSchema),
+            describeSchemaTables(targetAdapter.adapter, targetAdapter.adapterConnectionId, targetSchema),
+        ]);
+
+        const diffs = compareSchemas(sourceTables.tables, targetTables.tables);
+        let steps: SyncStep[];
+        try {
+            steps = generateSyncScript(diffs, targetSchema, target.type, { dropMissing });
+        } catch (err: any) {
+            return NextResponse.json({ error: err.message }, { status: 400 });
+        }
+        const script = formatAlterScript(steps);
+
+        if (action === 'compare') {
+            return NextResponse.json({
+                source: { connectionId: sourceConnectionId, name: source.name, dbType: source.type, schema: sourceSchema },
+                target: { connectionId: targetConnectionId, name: target.name, dbType: target.type, schema: targetSchema, readOnly: !!target.readOnly },
+                tables: diffs,
+                steps,
+                sql: script.sql,
+                rollbackSQL: script.rollbackSQL,
+                errors: {
+                    source: sourceTables.errors,
+                    target: targetTables.errors,
+                },
+            });
+        }
+
+        if (action === 'apply' && target.readOnly) {
+            return NextResponse.json({ error: 'Write operations not allowed on read-only connection' }, { status: 403 });
+        }
+        if (steps.length === 0) {
+            return NextResponse.json({ error: 'The schemas are already in sync' }, { status: 400 });
+        }
+        if (reviewedSql !== script.sql) {
+            return NextResponse.json({
+                error: 'One of the schemas has changed since the comparison. Review the new script.',
+                sql: script.sql,
+            }, { status: 409 });
+        }
+
+        const author = {
+            id: request.headers.get('x-user-id') || 'system',
+            name: request.headers.get('x-user-name') || 'System',
+        };
+        const metadata = {
+            schemaSync: { sourceConnectionId, sourceSchema, targetSchema },
+            applied: action === 'apply',
+        };
+        const record = async (recorded: SyncStep[]) => {
+            try {
+                for (const step of recorded) {
+                    await addPendingChange(targetConnectionId, {
+                        ...createSchemaChange(step.operation, step.table, step.sql, author, step.rollbackSQL),
+                        metadata,
+                    });
+                }
+            } catch (vcsError) {
+                logger.warn('Failed to track schema sync in VCS', vcsError);
+            }
+        };
+
+        if (action === 'record') {
+            await record(steps);
+            return NextResponse.json({ success: true, recorded: steps.length });
+        }
+
+        const { applied, error: failure } = await runSchemaSteps(targetAdapter.adapter, targetAdapter.adapterConnectionId, target.type, steps);
+        await record(applied);
+
+        if (failure) {
+            const partial = applied.length > 0
+                ? ` ${applied.length} of ${steps.length} steps were already applied; their rollback SQL is recorded in version control.`
+                : '';
+            return NextResponse.json({ error: `${failure.message}${partial}`, appliedSteps: applied.length }, { status: 500 });
+        }
+
+        logger.info(`Synced ${targetSchema} on ${target.name} from ${sourceSchema} on ${source.name}: ${steps.length} steps`);
+        return NextResponse.json({ success: true, steps: steps.length });
+    } catch (error: any) {
+        logger.error('Schema compare failed', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@bosdb/utils';
+import { getConnection } from '@/lib/store';
+import { getConnectedAdapter, describeSchemaTables } from '@/lib/db-utils';
+
+const logger = new Logger('SchemaDiagramAPI');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/schema/diagram?connectionId=...&schema=...
+ * Every table of a schema with its columns, indexes and foreign keys, for the ER diagram.
+ * Tables that fail to describe are listed in `errors` instead of failing the whole diagram.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const connectionId = searchParams.get('connectionId');
+        const schema = searchParams.get('schema');
+
+        if (!connectionId || !schema) {
+            return NextResponse.json({ error: 'Missing connectionId or schema' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
+        }
+
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+        const { tables: described, errors } = await describeSchemaTables(adapter, adapterConnectionId, schema);
+
+        logger.info(`Described ${described.length} tables of ${schema} for ER diagram`);
+
+        return NextResponse.json({ schema, dbType: connectionInfo.type, tables: described, errors });
+    } catch (error: any) {
+        logger.error('Failed to build schema diagram', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
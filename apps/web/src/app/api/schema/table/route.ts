@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getConnectedAdapter } from '@/lib/db-utils';
-import { trackSchemaChange } from '@/lib/vcs-helper';
-import { generateCreateTableSQL } from '@/lib/sql-helper';
+import { getConnectedAdapter, runInTransaction, runSchemaSteps } from '@/lib/db-utils';
+import { createSchemaChange } from '@/lib/vcs-helper';
+import { addPendingChange } from '@/lib/vcs-storage';
+import { generateCreateTableSQL, generateAlterTableSQL, formatAlterScript, tableDefFromMetadata } from '@/lib/sql-helper';
 import { getCurrentUser } from '@/lib/auth';
 import type { QueryRequest } from '@bosdb/core';
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import type { AlterStep } from '@/lib/sql-helper';
 
 export async function POST(request: NextRequest) {
     try {
@@ -19,10 +22,20 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
         }
 
-        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
         const { getConnection } = await import('@/lib/store');
         const connection = await getConnection(connectionId);
 
+        // Every action runs DDL
+        if (connection?.readOnly) {
+            return NextResponse.json({ error: 'Write operations not allowed on read-only connection' }, { status: 403 });
+        }
+
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+
+        if (action === 'alter') {
+            return alterTable(body, adapter, adapterConnectionId, connection?.type || 'postgresql', { id: userId, name: userName });
+        }
+
         let sql = '';
 
         if (action === 'create') {
@@ -31,22 +44,28 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Unsupported action' }, { status: 400 });
         }
 
-        // Execute SQL
-        await adapter.executeQuery({
-            connectionId: adapterConnectionId,
-            query: sql,
-            timeout: 30000
+        // The table and its indexes are created together or not at all. Databases with
+        // transactional DDL (e.g. PostgreSQL) roll back a half-created table; MySQL commits each DDL statement.
+        const statements = sql.split(/;\s*\n/).map(s => s.trim()).filter(Boolean);
+        await runInTransaction(adapter, adapterConnectionId, async (transactionId) => {
+            for (const statement of statements) {
+                await adapter.executeQuery({
+                    connectionId: adapterConnectionId,
+                    query: statement,
+                    transactionId,
+                    timeout: 30000
+                });
+            }
         });
 
         // Track in VCS
         try {
-            await trackSchemaChange(
-                connectionId,
+            await addPendingChange(connectionId, createSchemaChange(
                 action,
                 tableDef.name,
                 sql,
                 { id: userId, name: userName }
-            );
+            ));
         } catch (vcsError) {
             console.warn('Failed to track schema change in VCS:', vcsError);
             // Don't fail the request if VCS fails, but log it
@@ -59,6 +78,64 @@ export async function POST(request: NextRequest) {
     }
 }
 
+/**
+ * Apply designer edits to an existing table. The script is generated again from the table as it
+ * is now; if that differs from the script the user reviewed (body.sql), nothing is run.
+ */
+async function alterTable(
+    body: any,
+    adapter: IDBAdapter,
+    adapterConnectionId: string,
+    dbType: string,
+    author: { id: string; name: string }
+) {
+    const { connectionId, tableDef, schema = 'public', sql: reviewedSql } = body;
+
+    const metadata = await adapter.describeTable(adapterConnectionId, schema, tableDef.name);
+    if (!metadata.columns.length) {
+        return NextResponse.json({ error: `Table not found: ${schema}.${tableDef.name}` }, { status: 404 });
+    }
+
+    let steps: AlterStep[];
+    try {
+        steps = generateAlterTableSQL(tableDefFromMetadata(metadata), tableDef, schema, dbType);
+    } catch (err: any) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    if (steps.length === 0) {
+        return NextResponse.json({ error: 'No changes to apply' }, { status: 400 });
+    }
+
+    const script = formatAlterScript(steps);
+    if (reviewedSql !== undefined && reviewedSql !== script.sql) {
+        return NextResponse.json({
+            error: 'The table has changed since it was opened. Reopen it to review the new script.',
+            sql: script.sql,
+        }, { status: 409 });
+    }
+
+    // Steps that ran before a failure stay applied on databases without transactional DDL
+    const { applied, error: failure } = await runSchemaSteps(adapter, adapterConnectionId, dbType, steps);
+
+    // Each step is its own change in VCS so it can be rolled back precisely
+    try {
+        for (const step of applied) {
+            await addPendingChange(connectionId, createSchemaChange('alter', tableDef.name, step.sql, author, step.rollbackSQL));
+        }
+    } catch (vcsError) {
+        console.warn('Failed to track schema change in VCS:', vcsError);
+    }
+
+    if (failure) {
+        const partial = applied.length > 0
+            ? ` ${applied.length} of ${steps.length} steps were already applied; their rollback SQL is recorded in version control.`
+            : '';
+        return NextResponse.json({ error: `${failure.message}${partial}`, appliedSteps: applied.length }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, sql: script.sql, rollbackSQL: script.rollbackSQL, steps: steps.length });
+}
+
 export async function GET(request: NextRequest) {
     try {
         const { searchParams } = new URL(request.url);
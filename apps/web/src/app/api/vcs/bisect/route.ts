@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateQuery, isReadOnlyQuery } from '@bosdb/security';
+import { getConnection } from '@/lib/store';
+import { getPendingChangesFromStorage } from '@/lib/vcs-storage';
+import { startBisect, markBisect, resetBisect, getBisectStatus } from '@/lib/vcs-bisect';
+
+// GET /api/vcs/bisect?connectionId=xxx - Current bisect session, candidate and step log
+export async function GET(request: NextRequest) {
+    const connectionId = request.nextUrl.searchParams.get('connectionId');
+
+    if (!connectionId) {
+        return NextResponse.json({ error: 'Connection ID required' }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json(await getBisectStatus(connectionId));
+    } catch (error) {
+        console.error('Get bisect error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
+
+// POST /api/vcs/bisect - start | good | bad | skip | reset
+// Each step migrates the live database to the candidate commit; with checkQuery the whole search runs automatically
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { connectionId, action, good, bad, checkQuery } = body;
+
+        if (!connectionId || !action) {
+            return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
+        }
+        if (connectionInfo.readOnly) {
+            return NextResponse.json({ error: 'Write operations not allowed on read-only connection' }, { status: 403 });
+        }
+
+        switch (action) {
+            case 'start': {
+                if (!good || !bad) {
+                    return NextResponse.json({ error: 'Good and bad commit IDs required' }, { status: 400 });
+                }
+
+                // The check runs once per step, so it must only read
+                if (checkQuery?.trim()) {
+                    const validation = validateQuery(checkQuery);
+                    if (!validation.safe) {
+                        return NextResponse.json({ error: 'Unsafe query detected', reason: validation.reason }, { status: 400 });
+                    }
+                    if (!isReadOnlyQuery(checkQuery)) {
+                        return NextResponse.json({ error: 'The check query must only read data' }, { status: 400 });
+                    }
+                }
+
+                const pending = await getPendingChangesFromStorage(connectionId);
+                if (pending.length > 0) {
+                    return NextResponse.json({
+                        error: `${pending.length} uncommitted change(s) would be lost. Commit or stash them before bisecting.`,
+                    }, { status: 409 });
+                }
+
+                const status = await startBisect(connectionId, good, bad, checkQuery);
+                return NextResponse.json({ success: true, ...status });
+            }
+
+            case 'good':
+            case 'bad':
+            case 'skip': {
+                const status = await markBisect(connectionId, action);
+                return NextResponse.json({ success: true, ...status });
+            }
+
+            case 'reset': {
+                const status = await resetBisect(connectionId);
+                return NextResponse.json({ success: true, ...status });
+            }
+
+            default:
+                return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+        }
+    } catch (error) {
+        console.error('Bisect error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BlameService } from '@bosdb/version-control';
+import { getRepository, getHeadCommit, toVCSCommit } from '@/lib/vcs-storage';
+
+// GET /api/vcs/blame?connectionId=xxx&table=users[&column=email&commitId=...] - Commits that touched a table or column
+// GET /api/vcs/blame?connectionId=xxx&table=users&mode=columns - Last commit to add or modify each column, plus contributors
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const connectionId = searchParams.get('connectionId');
+    const table = searchParams.get('table');
+    const column = searchParams.get('column');
+    const mode = searchParams.get('mode');
+
+    if (!connectionId || !table) {
+        return NextResponse.json({ error: 'Connection ID and table required' }, { status: 400 });
+    }
+
+    try {
+        const repo = await getRepository(connectionId);
+        const commitId = searchParams.get('commitId') || (await getHeadCommit(repo))?.id;
+        if (!commitId) {
+            return NextResponse.json(mode === 'columns' ? { table, columns: [], contributors: [] } : { table, column, lines: [] });
+        }
+
+        const blame = new BlameService(repo.storage);
+
+        if (mode === 'columns') {
+            const [columns, contributors] = await Promise.all([
+                blame.blameColumns(table, commitId),
+                blame.getContributors(table, commitId),
+            ]);
+            if (!columns.success) {
+                return NextResponse.json({ error: columns.error }, { status: 500 });
+            }
+
+            return NextResponse.json({
+                table,
+                commitId,
+                columns: columns.data.map(entry => ({
+                    ...entry,
+                    commit: toVCSCommit(connectionId, entry.commit),
+                })),
+                contributors: contributors.success
+                    ? [...contributors.data].map(([author, commits]) => ({ author, commits }))
+                    : [],
+            });
+        }
+
+        const result = column
+            ? await blame.blameColumn(table, column, commitId)
+            : await blame.blameTable(table, commitId);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 500 });
+        }
+
+        return NextResponse.json({
+            ...result.data,
+            lines: result.data.lines.map(line => ({
+                ...line,
+                commit: toVCSCommit(connectionId, line.commit),
+            })),
+        });
+    } catch (error) {
+        console.error('Blame error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getBranchesFromStorage, createBranchInStorage, switchBranch, getCurrentBranch } from '@/lib/vcs-storage';
+import { getConnection } from '@/lib/store';
+import { getRepository, getPendingChangesFromStorage } from '@/lib/vcs-storage';
+import { buildCheckoutPlan, applyCheckoutPlan } from '@/lib/vcs-checkout';
 
 // GET /api/vcs/branches?connectionId=xxx - List branches
 export async function GET(request: NextRequest) {
@@ -11,35 +13,84 @@ export async function GET(request: NextRequest) {
     }
 
     try {
-        const branches = await getBranchesFromStorage(connectionId);
-        const currentBranch = await getCurrentBranch(connectionId);
+        const { vc } = await getRepository(connectionId);
+        const result = await vc.listBranches();
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 500 });
+        }
 
-        return NextResponse.json({
-            branches: branches.map(b => b.name),
-            currentBranch
-        });
+        const currentBranch = await vc.getCurrentBranch();
+        return NextResponse.json({ branches: result.data, currentBranch });
     } catch (error) {
         console.error('Get branches error:', error);
-        return NextResponse.json({ branches: ['main'], currentBranch: 'main' });
+        return NextResponse.json({ branches: [{ name: 'main', commitId: '', protected: true }], currentBranch: 'main' });
     }
 }
 
-// POST /api/vcs/branches - Create or checkout branch
+// POST /api/vcs/branches - Create, checkout or delete a branch
+// Checkout migrates the live database; pass dryRun: true to only get the plan
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { connectionId, name, action } = body;
+        const { connectionId, name, action, fromCommit, force, dryRun, skipManual } = body;
 
         if (!connectionId || !name) {
             return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
         }
 
+        const { vc } = await getRepository(connectionId);
+
         if (action === 'create') {
-            await createBranchInStorage(connectionId, name);
-            return NextResponse.json({ success: true, branch: name });
+            const result = await vc.createBranch(name, fromCommit);
+            if (!result.success) {
+                return NextResponse.json({ error: result.error }, { status: 400 });
+            }
+            return NextResponse.json({ success: true, branch: result.data });
         } else if (action === 'checkout') {
-            await switchBranch(connectionId, name);
-            return NextResponse.json({ success: true, currentBranch: name });
+            const plan = await buildCheckoutPlan(connectionId, name);
+            if (dryRun) {
+                return NextResponse.json({ success: true, dryRun: true, plan });
+            }
+
+            const connectionInfo = await getConnection(connectionId);
+            if (connectionInfo?.readOnly) {
+                return NextResponse.json({ error: 'Write operations not allowed on read-only connection' }, { status: 403 });
+            }
+
+            const pending = await getPendingChangesFromStorage(connectionId);
+            if (pending.length > 0 && !force) {
+                return NextResponse.json({
+                    error: `You have ${pending.length} uncommitted changes. Commit or stash them before switching branches.`,
+                    plan
+                }, { status: 409 });
+            }
+
+            if (plan.manualSteps > 0 && !skipManual) {
+                return NextResponse.json({
+                    error: `${plan.manualSteps} step(s) have no automatic SQL. Apply them by hand and retry with skipManual.`,
+                    plan
+                }, { status: 409 });
+            }
+
+            const applied = await applyCheckoutPlan(connectionId, plan);
+            if (!applied.success) {
+                const detail = applied.transactional
+                    ? 'No changes were applied.'
+                    : `${applied.applied} of ${plan.steps.length} step(s) were applied before the failure; the branch was not switched.`;
+                return NextResponse.json({ error: `Checkout failed: ${applied.error}. ${detail}`, plan, result: applied }, { status: 500 });
+            }
+
+            const result = await vc.checkout(name);
+            if (!result.success) {
+                return NextResponse.json({ error: result.error }, { status: 400 });
+            }
+            return NextResponse.json({ success: true, currentBranch: name, plan, result: applied });
+        } else if (action === 'delete') {
+            const result = await vc.deleteBranch(name, force === true);
+            if (!result.success) {
+                return NextResponse.json({ error: result.error }, { status: 400 });
+            }
+            return NextResponse.json({ success: true });
         } else {
             return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
         }
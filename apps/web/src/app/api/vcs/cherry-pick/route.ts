@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { getForwardSQL } from '@/lib/vcs-helper';
+import { getRepository, toTrackedChanges, toVCSCommit } from '@/lib/vcs-storage';
+import { captureSnapshot } from '@/lib/vcs-snapshot';
+import { Logger } from '@bosdb/utils';
+
+const logger = new Logger('CherryPickAPI');
+
+// POST /api/vcs/cherry-pick - Replay a commit's statements on the live database and record it on the current branch
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { connectionId, commitId } = body;
+
+        if (!connectionId || !commitId) {
+            return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+        }
+
+        const repo = await getRepository(connectionId);
+        const source = await repo.storage.getCommit(commitId);
+        if (!source) {
+            return NextResponse.json({ error: 'Commit not found' }, { status: 404 });
+        }
+
+        const statements = toTrackedChanges(source.changes)
+            .filter(change => change.status !== 'REVERTED')
+            .map(getForwardSQL)
+            .filter(sql => sql !== 'MANUAL');
+
+        if (statements.length === 0) {
+            return NextResponse.json({ error: 'Commit has no replayable statements' }, { status: 400 });
+        }
+
+        // --- PHYSICAL REPLAY ---
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+        for (let i = 0; i < statements.length; i++) {
+            try {
+                await adapter.executeQuery({
+                    connectionId: adapterConnectionId,
+                    query: statements[i],
+                    timeout: 30000,
+                });
+            } catch (sqlError) {
+                logger.error(`Cherry-pick failed at statement ${i + 1}: ${statements[i]}`, sqlError);
+                return NextResponse.json({
+                    error: `Cherry-pick stopped at statement ${i + 1} of ${statements.length}: ${String(sqlError)}`,
+                    applied: i,
+                }, { status: 409 });
+            }
+        }
+
+        const snapshot = await captureSnapshot(connectionId);
+
+        const result = await repo.vc.cherryPick(commitId);
+        if (!result.success || !result.data.newCommitId) {
+            return NextResponse.json({ error: result.success ? 'Cherry-pick failed' : result.error }, { status: 500 });
+        }
+
+        // The picked commit initially shares the source tree; point it at the state we just produced
+        const picked = await repo.storage.getCommit(result.data.newCommitId);
+        if (!picked) {
+            return NextResponse.json({ error: 'Cherry-picked commit not found' }, { status: 500 });
+        }
+        picked.treeId = picked.id;
+        await repo.storage.saveSnapshot(picked.id, snapshot);
+        await repo.storage.saveCommit(picked);
+
+        return NextResponse.json({ success: true, commit: toVCSCommit(connectionId, picked), applied: statements.length });
+    } catch (error) {
+        logger.error('Cherry-pick error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createCommit, getCommits, getPendingChangesFromStorage, getCurrentBranch } from '@/lib/vcs-storage';
+import { ValidationError } from '@bosdb/core';
+import {
+    getRepository,
+    getCommits,
+    getPendingChangesFromStorage,
+    removePendingChanges,
+    toAuthor,
+    toCommitChanges,
+    toVCSCommit,
+} from '@/lib/vcs-storage';
+import { captureSnapshot, parseMaxRowsPerTable } from '@/lib/vcs-snapshot';
 
 // POST /api/vcs/commit - Create a commit
 export async function POST(request: NextRequest) {
@@ -11,6 +21,8 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
         }
 
+        const maxRowsPerTable = parseMaxRowsPerTable(body.maxRowsPerTable);
+
         // Get pending changes
         // Use provided changes (partial commit) or fetch all pending (commit all)
         const changes = body.changes || await getPendingChangesFromStorage(connectionId);
@@ -19,44 +31,46 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'No pending changes to commit' }, { status: 400 });
         }
 
-        // Get current branch
-        const branch = await getCurrentBranch(connectionId);
+        const repo = await getRepository(connectionId);
+
+        // Capture the live database state for this commit
+        const snapshot = await captureSnapshot(connectionId, {
+            schema: body.schema,
+            includeData: body.includeData === true,
+            maxRowsPerTable,
+        });
 
-        // Create commit
-        const commitId = `commit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        const commit = {
-            id: commitId,
-            connectionId,
-            branch,
-            message,
-            author: author || {
-                name: 'System User',
-                email: 'user@bosdb.com'
-            },
-            changes,
-            timestamp: new Date().toISOString()
-        };
+        const result = await repo.vc.commit(message, toAuthor(author), toCommitChanges(changes), snapshot);
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 500 });
+        }
 
-        await createCommit(commit);
+        // Clear ONLY the committed changes
+        const changeIds = changes.map((c: any) => c.id || '').filter((id: string) => id !== '');
+        await removePendingChanges(connectionId, changeIds);
 
-        return NextResponse.json({ success: true, commit });
+        return NextResponse.json({ success: true, commit: toVCSCommit(connectionId, result.data) });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
         console.error('Commit API error:', error);
         return NextResponse.json({ error: String(error) }, { status: 500 });
     }
 }
 
-// GET /api/vcs/commit?connectionId=xxx - Get commit history
+// GET /api/vcs/commit?connectionId=xxx[&branch=name] - Get commit history
 export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const connectionId = searchParams.get('connectionId');
+    const branch = searchParams.get('branch') || undefined;
 
     if (!connectionId) {
         return NextResponse.json({ error: 'Connection ID required' }, { status: 400 });
     }
 
     try {
-        const commits = await getCommits(connectionId);
+        const commits = await getCommits(connectionId, branch);
         return NextResponse.json({ commits });
     } catch (error) {
         console.error('Get commits error:', error);
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PatchService } from '@bosdb/version-control';
+import type { Change, PatchExecutor } from '@bosdb/version-control';
+import { validateQuery } from '@bosdb/security';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { getConnection } from '@/lib/store';
+import { getForwardSQL } from '@/lib/vcs-helper';
+import { getRepository, toAuthor, toTrackedChanges, toVCSCommit } from '@/lib/vcs-storage';
+import { buildSnapshot, captureSnapshot } from '@/lib/vcs-snapshot';
+import { Logger } from '@bosdb/utils';
+
+const logger = new Logger('PatchAPI');
+
+// GET /api/vcs/patch?connectionId=xxx&commitId=yyy - Download a commit as a patch file
+// GET /api/vcs/patch?connectionId=xxx&from=aaa&to=bbb - Commits after `from` up to `to`
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const connectionId = searchParams.get('connectionId');
+    const commitId = searchParams.get('commitId');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!connectionId || (!commitId && !(from && to))) {
+        return NextResponse.json({ error: 'Connection ID and commitId (or from and to) required' }, { status: 400 });
+    }
+
+    try {
+        const { storage } = await getRepository(connectionId);
+        const patches = new PatchService(storage);
+
+        const result = commitId
+            ? await patches.generatePatch(commitId)
+            : await patches.generatePatchRange(from!, to!);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 404 });
+        }
+
+        const fileName = `${(commitId || `${from!.substring(0, 8)}-${to!.substring(0, 8)}`)}.bosdb.patch`;
+        return new NextResponse(result.data.content, {
+            headers: {
+                'Content-Type': 'text/plain; charset=utf-8',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+            },
+        });
+    } catch (error) {
+        logger.error('Export patch error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
+
+// POST /api/vcs/patch - Validate a patch against this connection's live schema and apply it
+// { connectionId, content, dryRun?, force?, author? }
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { connectionId, content, dryRun, force, author } = body;
+
+        if (!connectionId || !content) {
+            return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+        }
+
+        const connectionInfo = await getConnection(connectionId);
+        if (!connectionInfo) {
+            return NextResponse.json({ error: `Connection not found: ${connectionId}` }, { status: 404 });
+        }
+        if (!dryRun && connectionInfo.readOnly) {
+            return NextResponse.json({ error: 'Write operations not allowed on read-only connection' }, { status: 403 });
+        }
+
+        const repo = await getRepository(connectionId);
+        const patches = new PatchService(repo.storage);
+
+        const imported = await patches.importPatch(content);
+        if (!imported.success) {
+            return NextResponse.json({ error: imported.error }, { status: 400 });
+        }
+        const patch = imported.data;
+
+        // The statements come from an uploaded file, so screen them like any other query
+        for (const change of toTrackedChanges(patch.commits.flatMap(commit => commit.changes))) {
+            const sql = getForwardSQL(change);
+            if (change.status === 'REVERTED' || sql === 'MANUAL') continue;
+
+            const validation = validateQuery(sql);
+            if (!validation.safe) {
+                logger.warn(`Unsafe patch statement blocked: ${validation.reason}`, validation.patterns);
+                return NextResponse.json({
+                    error: `Unsafe statement in patch (${change.description}): ${validation.reason}`,
+                }, { status: 400 });
+            }
+        }
+
+        // Pre-flight validation needs the target's real schema, not its last commit
+        const target = await buildSnapshot(connectionId);
+
+        if (dryRun) {
+            const check = await patches.applyPatch(patch, { check: true, target });
+            if (!check.success) {
+                return NextResponse.json({ error: check.error }, { status: 500 });
+            }
+            return NextResponse.json({ success: true, dryRun: true, result: check.data });
+        }
+
+        const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+        const executor: PatchExecutor = {
+            async execute(change: Change) {
+                const [tracked] = toTrackedChanges([change]);
+                if (tracked.status === 'REVERTED') return;
+
+                const sql = getForwardSQL(tracked);
+                if (sql === 'MANUAL') {
+                    throw new Error('Change has no statement to replay and needs manual migration');
+                }
+
+                await adapter.executeQuery({ connectionId: adapterConnectionId, query: sql, timeout: 30000 });
+            },
+        };
+
+        const applied = await patches.applyPatch(patch, { target, executor, force: force === true });
+        if (!applied.success) {
+            return NextResponse.json({ error: applied.error }, { status: 500 });
+        }
+
+        const result = applied.data;
+        if (result.conflicts.length > 0 && force !== true) {
+            return NextResponse.json({
+                error: `${result.conflicts.length} change(s) conflict with the target schema`,
+                result,
+            }, { status: 409 });
+        }
+
+        // Record what reached the database as one commit on the target's current branch
+        const appliedChanges = patch.commits.flatMap(commit =>
+            commit.changes.filter((_, i) =>
+                result.changes?.some(r => r.commitId === commit.id && r.changeIndex === i && r.success)
+            )
+        );
+
+        let commit = null;
+        if (appliedChanges.length > 0) {
+            const snapshot = await captureSnapshot(connectionId);
+            const message = `Apply patch: ${patch.metadata?.description || patch.id}`;
+
+            const committed = await repo.vc.commit(message, toAuthor(author), appliedChanges, snapshot);
+            if (!committed.success) {
+                return NextResponse.json({ error: committed.error, result }, { status: 500 });
+            }
+            commit = toVCSCommit(connectionId, committed.data);
+        }
+
+        return NextResponse.json({ success: result.success, result, commit }, { status: result.success ? 200 : 409 });
+    } catch (error) {
+        logger.error('Apply patch error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
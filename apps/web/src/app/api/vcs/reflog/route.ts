@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/vcs-storage';
+
+// GET /api/vcs/reflog?connectionId=xxx[&ref=main&maxCount=50] - History of ref updates (newest first)
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const connectionId = searchParams.get('connectionId');
+    const ref = searchParams.get('ref') || undefined;
+    const maxCount = parseInt(searchParams.get('maxCount') || '100');
+
+    if (!connectionId) {
+        return NextResponse.json({ error: 'Connection ID required' }, { status: 400 });
+    }
+
+    try {
+        const { vc } = await getRepository(connectionId);
+        const result = await vc.getReflog({ refName: ref, maxCount });
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 500 });
+        }
+        return NextResponse.json({ entries: result.data });
+    } catch (error) {
+        console.error('Get reflog error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -1,8 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createVersionControl } from '@bosdb/version-control';
-import { FileStorage } from '@bosdb/version-control';
-import path from 'path';
-import { promises as fs } from 'fs';
+import { getRepository, toVCSCommit } from '@/lib/vcs-storage';
 
 // GET /api/vcs/rollback/diff?connectionId=xxx&fromRevision=0&toRevision=-1
 // Compare two revisions
@@ -17,19 +14,7 @@ export async function GET(request: NextRequest) {
     }
 
     try {
-        const vcsPath = path.join(process.cwd(), '.bosdb-vcs', connectionId);
-        await fs.mkdir(vcsPath, { recursive: true });
-
-        const storage = new FileStorage(vcsPath);
-        await storage.initialize();
-
-        const vc = createVersionControl(connectionId, storage);
-
-        try {
-            await vc.getHEAD();
-        } catch {
-            await vc.initialize();
-        }
+        const { vc } = await getRepository(connectionId);
 
         // Get commits
         const logResult = await vc.log({ maxCount: 1000 });
@@ -59,22 +44,47 @@ export async function GET(request: NextRequest) {
             });
         }
 
+        // Structural diff between the two captured snapshots (older -> newer)
+        let structuralDiff = null;
+        if (fromCommit && toCommit) {
+            // Commits are sorted new -> old, so the higher index is the older revision
+            const [olderCommit, newerCommit] = fromIndex >= toIndex ? [fromCommit, toCommit] : [toCommit, fromCommit];
+            const diffResult = await vc.diff(olderCommit.id, newerCommit.id, {
+                ignoreWhitespace: searchParams.get('ignoreWhitespace') === 'true',
+                includeData: searchParams.get('includeData') !== 'false',
+            });
+            if (diffResult.success) {
+                structuralDiff = diffResult.data;
+            }
+        }
+
+        const allChanges = structuralDiff
+            ? [
+                ...structuralDiff.schemaChanges,
+                ...structuralDiff.constraintChanges,
+                ...structuralDiff.indexChanges,
+                ...structuralDiff.viewChanges,
+                ...structuralDiff.dataChanges,
+            ]
+            : [];
+
         // Calculate differences
         const differences = {
             from: {
                 revision: fromRev,
-                commit: fromCommit || null,
+                commit: fromCommit ? toVCSCommit(connectionId, fromCommit) : null,
                 changes: fromCommit?.changes || []
             },
             to: {
                 revision: toRev,
-                commit: toCommit || null,
+                commit: toCommit ? toVCSCommit(connectionId, toCommit) : null,
                 changes: toCommit?.changes || []
             },
+            diff: structuralDiff,
             changesSummary: {
-                added: [],
-                modified: [],
-                removed: []
+                added: allChanges.filter(c => c.operation === 'CREATE' || c.operation === 'INSERT').map(c => c.description),
+                modified: allChanges.filter(c => c.operation === 'ALTER' || c.operation === 'UPDATE').map(c => c.description),
+                removed: allChanges.filter(c => c.operation === 'DROP' || c.operation === 'DELETE').map(c => c.description)
             }
         };
 
@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateRollbackSQL } from '@/lib/vcs-helper';
-import { connections, adapterInstances, getConnection } from '@/lib/store';
+import { getConnection } from '@/lib/store';
 import { getConnectedAdapter } from '@/lib/db-utils';
-import { getCommits, createCommit, clearPendingChanges, getCurrentBranch } from '@/lib/vcs-storage';
+import {
+    getRepository,
+    getCommits,
+    clearPendingChanges,
+    toAuthor,
+    toCommitChanges,
+    toVCSCommit,
+} from '@/lib/vcs-storage';
+import { captureSnapshot } from '@/lib/vcs-snapshot';
 import { Logger } from '@bosdb/utils';
 
 const logger = new Logger('RollbackAPI');
@@ -143,24 +151,20 @@ export async function POST(request: NextRequest) {
             ? `Revert: ${targetCommit.message} (${targetCommit.id.substring(0, 8)})`
             : `Rollback to: ${targetCommit.message} (${targetCommit.id.substring(0, 8)})`;
 
-        // Get current branch for new commit
-        const branch = await getCurrentBranch(connectionId);
-        
-        const newCommit = {
-            id: `commit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            connectionId,
-            branch,
-            message: revertMessage,
-            author: rollbackAuthor,
-            changes: commitsToUndo.flatMap(c => c.changes).map(change => ({
-                ...change,
-                operation: 'ROLLBACK' as any,
-                description: `Undone: ${change.description}`
-            })),
-            timestamp: new Date().toISOString()
-        };
+        const undoneChanges = commitsToUndo.flatMap(c => c.changes).map(change => ({
+            ...change,
+            operation: 'ROLLBACK' as any,
+            description: `Undone: ${change.description}`
+        }));
 
-        await createCommit(newCommit);
+        const repo = await getRepository(connectionId);
+        const snapshot = await captureSnapshot(connectionId);
+
+        const commitResult = await repo.vc.commit(revertMessage, toAuthor(rollbackAuthor), toCommitChanges(undoneChanges), snapshot);
+        if (!commitResult.success) {
+            return NextResponse.json({ error: commitResult.error }, { status: 500 });
+        }
+        const newCommit = toVCSCommit(connectionId, commitResult.data);
 
         // Clear pending changes as they're now invalid after rollback
         await clearPendingChanges(connectionId);
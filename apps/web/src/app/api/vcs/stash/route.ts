@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getRepository,
+    getPendingChangesFromStorage,
+    clearPendingChanges,
+    addPendingChange,
+    toAuthor,
+    toCommitChanges,
+    toTrackedChanges,
+} from '@/lib/vcs-storage';
+
+// GET /api/vcs/stash?connectionId=xxx - List stashes
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const connectionId = searchParams.get('connectionId');
+
+    if (!connectionId) {
+        return NextResponse.json({ error: 'Connection ID required' }, { status: 400 });
+    }
+
+    try {
+        const { vc } = await getRepository(connectionId);
+        const result = await vc.listStashes();
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 500 });
+        }
+        return NextResponse.json({ stashes: result.data });
+    } catch (error) {
+        console.error('Get stashes error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
+
+// POST /api/vcs/stash - push | pop | apply | drop
+// Stashing shelves the pending change list; statements already executed on the database are not undone.
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { connectionId, action, stashId, message, author } = body;
+
+        if (!connectionId || !action) {
+            return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+        }
+
+        const { vc, storage } = await getRepository(connectionId);
+
+        if (action === 'push') {
+            const pending = await getPendingChangesFromStorage(connectionId);
+            if (pending.length === 0) {
+                return NextResponse.json({ error: 'No pending changes to stash' }, { status: 400 });
+            }
+
+            const result = await vc.stash(message, toAuthor(author), toCommitChanges(pending));
+            if (!result.success) {
+                return NextResponse.json({ error: result.error }, { status: 500 });
+            }
+
+            await clearPendingChanges(connectionId);
+            return NextResponse.json({ success: true, stash: result.data });
+        } else if (action === 'pop' || action === 'apply') {
+            let result;
+            if (action === 'pop' && stashId) {
+                // stashPop() only takes the latest entry; pop a specific one via apply + drop
+                result = await vc.stashApply(stashId);
+                if (result.success) await storage.deleteStash(stashId);
+            } else {
+                result = action === 'pop' ? await vc.stashPop() : await vc.stashApply(stashId);
+            }
+
+            if (!result.success) {
+                return NextResponse.json({ error: result.error }, { status: 400 });
+            }
+
+            // Restore into pending, skipping changes that are already there
+            const pending = await getPendingChangesFromStorage(connectionId);
+            const pendingIds = new Set(pending.map(c => c.id));
+            for (const change of toTrackedChanges(result.data)) {
+                if (!change.id || !pendingIds.has(change.id)) {
+                    await addPendingChange(connectionId, change);
+                }
+            }
+
+            return NextResponse.json({ success: true, changes: await getPendingChangesFromStorage(connectionId) });
+        } else if (action === 'drop') {
+            if (!stashId) {
+                return NextResponse.json({ error: 'Stash ID required' }, { status: 400 });
+            }
+            await storage.deleteStash(stashId);
+            return NextResponse.json({ success: true });
+        } else {
+            return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+        }
+    } catch (error) {
+        console.error('Stash operation error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
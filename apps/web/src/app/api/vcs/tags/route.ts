@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository, getHeadCommit, toAuthor } from '@/lib/vcs-storage';
+
+// GET /api/vcs/tags?connectionId=xxx[&pattern=v*] - List tags
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const connectionId = searchParams.get('connectionId');
+    const pattern = searchParams.get('pattern') || undefined;
+
+    if (!connectionId) {
+        return NextResponse.json({ error: 'Connection ID required' }, { status: 400 });
+    }
+
+    try {
+        const { vc } = await getRepository(connectionId);
+        const result = await vc.listTags(pattern ? { pattern } : undefined);
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 500 });
+        }
+        return NextResponse.json({ tags: result.data });
+    } catch (error) {
+        console.error('Get tags error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
+
+// POST /api/vcs/tags - Create a tag (defaults to the current HEAD commit)
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { connectionId, name, message, author } = body;
+
+        if (!connectionId || !name) {
+            return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+        }
+
+        const repo = await getRepository(connectionId);
+        const commitId = body.commitId || (await getHeadCommit(repo))?.id;
+        if (!commitId) {
+            return NextResponse.json({ error: 'No commit to tag' }, { status: 400 });
+        }
+
+        const result = await repo.vc.createTag(name, commitId, message || undefined, message ? toAuthor(author) : undefined);
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true, tag: result.data });
+    } catch (error) {
+        console.error('Create tag error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
+
+// DELETE /api/vcs/tags?connectionId=xxx&name=v1.0 - Delete a tag
+export async function DELETE(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const connectionId = searchParams.get('connectionId');
+    const name = searchParams.get('name');
+
+    if (!connectionId || !name) {
+        return NextResponse.json({ error: 'Connection ID and tag name required' }, { status: 400 });
+    }
+
+    try {
+        const { vc } = await getRepository(connectionId);
+        const result = await vc.deleteTag(name);
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Delete tag error:', error);
+        return NextResponse.json({ error: String(error) }, { status: 500 });
+    }
+}
@@ -0,0 +1,548 @@
+'use client';
+
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, CheckCircle, Circle, Download, Loader2, Square, Upload } from 'lucide-react';
+import { syncFamily } from '@/lib/schema-compare';
+import { formatBytes } from '@/lib/export-helper';
+import { readImportEvents } from '@/lib/import-helper';
+import { readDumpHeader, tableKey } from '@/lib/dump-helper';
+import type { DumpHeader, DumpProgress, DumpTableRef, RestoreEvent, RestoreExistingMode, RestoreOptions, RestoreSummary } from '@/lib/dump-helper';
+import { getCurrentUser } from '@/lib/auth';
+
+interface ConnectionOption {
+    id: string;
+    name: string;
+    type: string;
+}
+
+interface TableOption {
+    name: string;
+    rowCount?: number;
+}
+
+const POLL_INTERVAL = 1000;
+
+function getHeaders(json = true): Record<string, string> {
+    const currentUser = getCurrentUser();
+    const headers: Record<string, string> = json ? { 'Content-Type': 'application/json' } : {};
+    if (currentUser?.email) headers['x-user-email'] = currentUser.email;
+    if (currentUser?.organizationId) headers['x-org-id'] = currentUser.organizationId;
+    if (currentUser?.id) headers['x-user-id'] = currentUser.id;
+    if (currentUser?.name) headers['x-user-name'] = currentUser.name;
+    return headers;
+}
+
+function TableStatus({ status }: { status: 'pending' | 'running' | 'done' }) {
+    if (status === 'done') return <CheckCircle className="w-3.5 h-3.5 text-green-500 shrink-0" />;
+    if (status === 'running') return <Loader2 className="w-3.5 h-3.5 animate-spin text-primary shrink-0" />;
+    return <Circle className="w-3.5 h-3.5 text-muted-foreground shrink-0" />;
+}
+
+function rowsLabel(rows: number, estimate?: number): string {
+    return estimate ? `${rows.toLocaleString()} / ~${estimate.toLocaleString()}` : rows.toLocaleString();
+}
+
+function BackupContent() {
+    const searchParams = useSearchParams();
+    const [connections, setConnections] = useState<ConnectionOption[]>([]);
+    const [tab, setTab] = useState<'dump' | 'restore'>(searchParams?.get('tab') === 'restore' ? 'restore' : 'dump');
+
+    useEffect(() => {
+        fetch('/api/connections', { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setConnections((data.connections || []).filter((c: ConnectionOption) => syncFamily(c.type))))
+            .catch(() => setConnections([]));
+    }, []);
+
+    return (
+        <div className="h-screen flex flex-col bg-background text-foreground">
+            <div className="border-b border-border p-3 flex items-center gap-3">
+                <Link href="/dashboard" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+                    <ArrowLeft className="w-4 h-4" />
+                    Dashboard
+                </Link>
+                <h1 className="font-semibold">Backup & Restore</h1>
+                <div className="flex gap-1 ml-4">
+                    {(['dump', 'restore'] as const).map(t => (
+                        <button
+                            key={t}
+                            onClick={() => setTab(t)}
+                            className={`px-3 py-1 rounded text-sm ${tab === t ? 'bg-accent font-medium' : 'text-muted-foreground hover:bg-accent'}`}
+                        >
+                            {t === 'dump' ? 'Dump' : 'Restore'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex-1 overflow-auto p-6">
+                <div className="max-w-3xl mx-auto">
+                    {tab === 'dump'
+                        ? <DumpPanel connections={connections} initialConnection={searchParams?.get('connection') || ''} />
+                        : <RestorePanel connections={connections} initialConnection={searchParams?.get('connection') || ''} />}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function DumpPanel({ connections, initialConnection }: { connections: ConnectionOption[]; initialConnection: string }) {
+    const [connectionId, setConnectionId] = useState(initialConnection);
+    const [schemas, setSchemas] = useState<string[]>([]);
+    const [tables, setTables] = useState<Record<string, TableOption[]>>({});
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [schemaOnly, setSchemaOnly] = useState(false);
+    const [progress, setProgress] = useState<DumpProgress | null>(null);
+    const [starting, setStarting] = useState(false);
+    const [error, setError] = useState('');
+    const pollRef = useRef<NodeJS.Timeout | null>(null);
+
+    const running = progress?.status === 'ready' || progress?.status === 'running';
+
+    useEffect(() => () => {
+        if (pollRef.current) clearInterval(pollRef.current);
+    }, []);
+
+    useEffect(() => {
+        setSchemas([]);
+        setTables({});
+        setSelected(new Set());
+        if (!connectionId) return;
+        fetch(`/api/schema?connectionId=${connectionId}`, { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setSchemas((data.schemas || []).map((s: any) => s.name)))
+            .catch(() => setSchemas([]));
+    }, [connectionId]);
+
+    // Checking a schema loads its tables and selects all of them
+    const toggleSchema = async (schema: string) => {
+        if (tables[schema]) {
+            const rest = { ...tables };
+            delete rest[schema];
+            setTables(rest);
+            setSelected(current => new Set([...current].filter(key => !key.startsWith(`${schema}.`))));
+            return;
+        }
+        try {
+            const res = await fetch(`/api/tables?connectionId=${connectionId}&schema=${encodeURIComponent(schema)}`, { headers: getHeaders() });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.message || data.error || 'Failed to list tables');
+            const listed: TableOption[] = (data.tables || []).filter((t: any) => t.type === 'table');
+            setTables(current => ({ ...current, [schema]: listed }));
+            setSelected(current => new Set([...current, ...listed.map(t => tableKey({ schema, name: t.name }))]));
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const toggleTable = (key: string) => {
+        const next = new Set(selected);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        setSelected(next);
+    };
+
+    const pollProgress = (id: string) => {
+        pollRef.current = setInterval(async () => {
+            try {
+                const res = await fetch(`/api/dump/${id}`, { headers: getHeaders() });
+                const next = await res.json();
+                if (!res.ok) throw new Error(next.error || 'Dump not found');
+                setProgress(next);
+                if (next.status !== 'ready' && next.status !== 'running') {
+                    clearInterval(pollRef.current!);
+                    pollRef.current = null;
+                    if (next.status === 'failed') setError(next.error || 'Dump failed');
+                }
+            } catch (err: any) {
+                clearInterval(pollRef.current!);
+                pollRef.current = null;
+                setError(err.message);
+            }
+        }, POLL_INTERVAL);
+    };
+
+    const startDump = async () => {
+        const chosen = Object.keys(tables);
+        const refs: DumpTableRef[] = chosen.flatMap(schema => tables[schema]
+            .filter(t => selected.has(tableKey({ schema, name: t.name })))
+            .map(t => ({ schema, name: t.name })));
+
+        setStarting(true);
+        setError('');
+        setProgress(null);
+        try {
+            const res = await fetch('/api/dump', {
+                method: 'POST',
+                headers: getHeaders(),
+                body: JSON.stringify({ connectionId, schemas: chosen, tables: refs, schemaOnly }),
+            });
+            const created = await res.json();
+            if (!res.ok) throw new Error(created.error || 'Dump failed');
+            setProgress(created);
+
+            // A plain link lets the browser write the archive to disk as it streams in
+            const link = document.createElement('a');
+            link.href = `/api/dump/${created.id}/download`;
+            link.download = created.fileName;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+
+            pollProgress(created.id);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setStarting(false);
+        }
+    };
+
+    const stopDump = async () => {
+        if (!progress) return;
+        await fetch(`/api/dump/${progress.id}`, { method: 'DELETE', headers: getHeaders() });
+    };
+
+    return (
+        <div className="space-y-5">
+            <p className="text-sm text-muted-foreground">
+                Save the structure and rows of the selected tables to a portable archive that can be restored into
+                another database of the same kind.
+            </p>
+
+            <select
+                value={connectionId}
+                onChange={e => setConnectionId(e.target.value)}
+                disabled={running}
+                className="w-full px-3 py-2 bg-background border border-border rounded text-sm"
+            >
+                <option value="">Select connection...</option>
+                {connections.map(c => <option key={c.id} value={c.id}>{c.name} ({c.type})</option>)}
+            </select>
+
+            {connectionId && (
+                <div className="border border-border rounded max-h-96 overflow-auto">
+                    {schemas.length === 0 && <div className="p-3 text-sm text-muted-foreground">Loading schemas...</div>}
+                    {schemas.map(schema => (
+                        <div key={schema} className="border-b border-border last:border-b-0">
+                            <label className="flex items-center gap-2 px-3 py-2 cursor-pointer hover:bg-accent">
+                                <input type="checkbox" checked={!!tables[schema]} onChange={() => toggleSchema(schema)} disabled={running} />
+                                <span className="text-sm font-medium">{schema}</span>
+                                {tables[schema] && (
+                                    <span className="text-xs text-muted-foreground">
+                                        {tables[schema].filter(t => selected.has(tableKey({ schema, name: t.name }))).length} of {tables[schema].length} tables
+                                    </span>
+                                )}
+                            </label>
+                            {tables[schema]?.map(t => (
+                                <label key={t.name} className="flex items-center gap-2 pl-9 pr-3 py-1 cursor-pointer hover:bg-accent">
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.has(tableKey({ schema, name: t.name }))}
+                                        onChange={() => toggleTable(tableKey({ schema, name: t.name }))}
+                                        disabled={running}
+                                    />
+                                    <span className="text-sm font-mono flex-1 truncate">{t.name}</span>
+                                    {t.rowCount !== undefined && <span className="text-xs text-muted-foreground">~{t.rowCount.toLocaleString()} rows</span>}
+                                </label>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input type="checkbox" checked={schemaOnly} onChange={e => setSchemaOnly(e.target.checked)} disabled={running} />
+                    Structure only, no rows
+                </label>
+                <div className="ml-auto flex gap-2">
+                    {running && (
+                        <button onClick={stopDump} className="flex items-center gap-1.5 px-3 py-1.5 border border-border rounded text-sm hover:bg-accent">
+                            <Square className="w-3.5 h-3.5" />
+                            Stop Dump
+                        </button>
+                    )}
+                    <button
+                        onClick={startDump}
+                        disabled={selected.size === 0 || starting || running}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-primary-foreground rounded text-sm hover:bg-primary/90 disabled:opacity-50"
+                    >
+                        {starting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                        Dump {selected.size} {selected.size === 1 ? 'table' : 'tables'}
+                    </button>
+                </div>
+            </div>
+
+            {progress && (
+                <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                        {progress.status === 'ready' && 'Starting download...'}
+                        {progress.status === 'running' && `Writing ${progress.fileName}: `}
+                        {progress.status === 'done' && `Dumped ${progress.fileName}: `}
+                        {progress.status === 'cancelled' && 'Dump cancelled after '}
+                        {progress.status !== 'ready' && `${progress.rowsWritten.toLocaleString()} rows, ${formatBytes(progress.bytesWritten)}`}
+                    </p>
+                    <div className="border border-border rounded divide-y divide-border max-h-72 overflow-auto">
+                        {progress.tables.map(t => (
+                            <div key={tableKey(t)} className="flex items-center gap-2 px-3 py-1 text-sm">
+                                <TableStatus status={t.status} />
+                                <span className="font-mono flex-1 truncate">{tableKey(t)}</span>
+                                {!schemaOnly && <span className="text-xs text-muted-foreground">{rowsLabel(t.rowsWritten, t.estimatedRows)}</span>}
+                            </div>
+                        ))}
+                    </div>
+                    {progress.describeErrors.length > 0 && (
+                        <div className="flex items-start gap-2 p-3 bg-yellow-500/10 text-yellow-600 rounded-lg text-sm">
+                            <AlertCircle className="w-5 h-5 shrink-0" />
+                            <div>
+                                {progress.describeErrors.map(e => <div key={e.table} title={e.error}>Left out {e.table}: it could not be described</div>)}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {error && (
+                <div className="flex items-center gap-2 p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+                    <AlertCircle className="w-5 h-5 shrink-0" />
+                    {error}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function RestorePanel({ connections, initialConnection }: { connections: ConnectionOption[]; initialConnection: string }) {
+    const [file, setFile] = useState<File | null>(null);
+    const [header, setHeader] = useState<DumpHeader | null>(null);
+    const [connectionId, setConnectionId] = useState(initialConnection);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [schemaMap, setSchemaMap] = useState<Record<string, string>>({});
+    const [existing, setExisting] = useState<RestoreExistingMode>('error');
+    const [schemaOnly, setSchemaOnly] = useState(false);
+    const [stage, setStage] = useState<'schema' | 'data' | 'constraints' | null>(null);
+    const [restored, setRestored] = useState<Record<string, number>>({});
+    const [current, setCurrent] = useState<string | null>(null);
+    const [summary, setSummary] = useState<RestoreSummary | null>(null);
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState('');
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const targets = header ? connections.filter(c => syncFamily(c.type) === header.source.family) : connections;
+    const schemas = header ? Array.from(new Set(header.tables.map(t => t.schema))) : [];
+
+    const chooseFile = async (chosen: File | null) => {
+        setFile(chosen);
+        setHeader(null);
+        setSummary(null);
+        setError('');
+        if (!chosen) return;
+        try {
+            const read = await readDumpHeader(chosen);
+            setHeader(read);
+            setSelected(new Set(read.tables.map(tableKey)));
+            setSchemaMap({});
+            setSchemaOnly(read.schemaOnly);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const toggleTable = (key: string) => {
+        const next = new Set(selected);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        setSelected(next);
+    };
+
+    const startRestore = async () => {
+        if (!file || !header) return;
+        const target = connections.find(c => c.id === connectionId);
+        if (!confirm(`Restore ${selected.size} tables into ${target?.name ?? 'the target'}?`)) return;
+
+        const options: RestoreOptions = {
+            connectionId,
+            tables: header.tables.filter(t => selected.has(tableKey(t))).map(t => ({ schema: t.schema, name: t.name })),
+            schemaMap: Object.fromEntries(Object.entries(schemaMap).filter(([, to]) => to.trim())),
+            existing,
+            schemaOnly,
+        };
+        const form = new FormData();
+        form.append('options', JSON.stringify(options));
+        form.append('file', file);
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setRunning(true);
+        setError('');
+        setSummary(null);
+        setStage(null);
+        setRestored({});
+        setCurrent(null);
+        try {
+            const res = await fetch('/api/restore', { method: 'POST', headers: getHeaders(false), body: form, signal: controller.signal });
+            if (!res.ok) {
+                const data = await res.json();
+                throw new Error(data.error || 'Restore failed');
+            }
+            await readImportEvents<RestoreEvent>(res, event => {
+                if (event.type === 'stage') setStage(event.stage);
+                else if (event.type === 'table') setCurrent(tableKey({ schema: event.schema, name: event.table }));
+                else if (event.type === 'progress') setRestored(rows => ({ ...rows, [tableKey({ schema: event.schema, name: event.table })]: event.rows }));
+                else if (event.type === 'done') setSummary(event.summary);
+                else if (event.type === 'fatal') setError(event.error);
+            });
+        } catch (err: any) {
+            setError(err.name === 'AbortError' ? 'Restore stopped' : err.message);
+        } finally {
+            abortRef.current = null;
+            setRunning(false);
+            setCurrent(null);
+        }
+    };
+
+    const targetName = (schema: string) => schemaMap[schema]?.trim() || schema;
+
+    return (
+        <div className="space-y-5">
+            <p className="text-sm text-muted-foreground">
+                Restore a dump archive into a database of the same kind. Tables are created first, then their rows are
+                loaded, then their foreign keys are added.
+            </p>
+
+            <label className="flex items-center gap-3 p-4 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-accent">
+                <Upload className="w-5 h-5 text-muted-foreground" />
+                <span className="text-sm">{file ? `${file.name} (${formatBytes(file.size)})` : 'Choose a .bosdb-dump.jsonl.gz archive'}</span>
+                <input
+                    type="file"
+                    accept=".gz,.jsonl"
+                    className="hidden"
+                    disabled={running}
+                    onChange={e => chooseFile(e.target.files?.[0] ?? null)}
+                />
+            </label>
+
+            {header && (
+                <>
+                    <div className="text-sm text-muted-foreground">
+                        {header.source.connection}{header.source.database ? ` · ${header.source.database}` : ''} ({header.source.dbType}),
+                        dumped {new Date(header.createdAt).toLocaleString()}{header.schemaOnly ? ', structure only' : ''}
+                    </div>
+
+                    <select
+                        value={connectionId}
+                        onChange={e => setConnectionId(e.target.value)}
+                        disabled={running}
+                        className="w-full px-3 py-2 bg-background border border-border rounded text-sm"
+                    >
+                        <option value="">Restore into...</option>
+                        {targets.map(c => <option key={c.id} value={c.id}>{c.name} ({c.type})</option>)}
+                    </select>
+
+                    <div className="border border-border rounded max-h-96 overflow-auto">
+                        {schemas.map(schema => (
+                            <div key={schema} className="border-b border-border last:border-b-0">
+                                <div className="flex items-center gap-2 px-3 py-2 text-sm">
+                                    <span className="font-medium">{schema}</span>
+                                    <span className="text-muted-foreground">into schema</span>
+                                    <input
+                                        value={schemaMap[schema] ?? ''}
+                                        onChange={e => setSchemaMap({ ...schemaMap, [schema]: e.target.value })}
+                                        placeholder={schema}
+                                        disabled={running}
+                                        className="w-40 px-2 py-0.5 bg-background border border-border rounded text-sm"
+                                    />
+                                </div>
+                                {header.tables.filter(t => t.schema === schema).map(t => {
+                                    const key = tableKey(t);
+                                    return (
+                                        <label key={key} className="flex items-center gap-2 pl-9 pr-3 py-1 cursor-pointer hover:bg-accent">
+                                            <input type="checkbox" checked={selected.has(key)} onChange={() => toggleTable(key)} disabled={running} />
+                                            {current === tableKey({ schema: targetName(schema), name: t.name }) && <Loader2 className="w-3.5 h-3.5 animate-spin text-primary" />}
+                                            <span className="text-sm font-mono flex-1 truncate">{t.name}</span>
+                                            <span className="text-xs text-muted-foreground">
+                                                {rowsLabel(restored[tableKey({ schema: targetName(schema), name: t.name })] ?? 0, t.rowCount)}
+                                            </span>
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex items-center gap-4 flex-wrap">
+                        <label className="flex items-center gap-2 text-sm">
+                            Existing tables
+                            <select
+                                value={existing}
+                                onChange={e => setExisting(e.target.value as RestoreExistingMode)}
+                                disabled={running}
+                                className="px-2 py-1 bg-background border border-border rounded text-sm"
+                            >
+                                <option value="error">Stop the restore</option>
+                                <option value="append">Append rows</option>
+                                <option value="replace">Drop and replace</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 text-sm cursor-pointer">
+                            <input type="checkbox" checked={schemaOnly} onChange={e => setSchemaOnly(e.target.checked)} disabled={running || header.schemaOnly} />
+                            Structure only, no rows
+                        </label>
+                        <div className="ml-auto flex gap-2">
+                            {running && (
+                                <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-1.5 px-3 py-1.5 border border-border rounded text-sm hover:bg-accent">
+                                    <Square className="w-3.5 h-3.5" />
+                                    Stop
+                                </button>
+                            )}
+                            <button
+                                onClick={startRestore}
+                                disabled={!connectionId || selected.size === 0 || running}
+                                className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-primary-foreground rounded text-sm hover:bg-primary/90 disabled:opacity-50"
+                            >
+                                {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                                Restore {selected.size} {selected.size === 1 ? 'table' : 'tables'}
+                            </button>
+                        </div>
+                    </div>
+                </>
+            )}
+
+            {running && stage && (
+                <p className="text-sm text-muted-foreground">
+                    {stage === 'schema' && 'Creating tables and indexes...'}
+                    {stage === 'data' && 'Loading rows...'}
+                    {stage === 'constraints' && 'Adding foreign keys...'}
+                </p>
+            )}
+
+            {summary && (
+                <div className="flex items-start gap-2 p-3 bg-green-500/10 text-green-500 rounded-lg text-sm">
+                    <CheckCircle className="w-5 h-5 shrink-0" />
+                    <div>
+                        Restored {summary.tables} tables and {summary.rows.toLocaleString()} rows in {(summary.executionTime / 1000).toFixed(1)}s
+                        {summary.replaced.length > 0 && <div>Replaced: {summary.replaced.join(', ')}</div>}
+                        {summary.appended.length > 0 && <div>Appended to: {summary.appended.join(', ')}</div>}
+                    </div>
+                </div>
+            )}
+            {error && (
+                <div className="flex items-center gap-2 p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+                    <AlertCircle className="w-5 h-5 shrink-0" />
+                    {error}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function BackupPage() {
+    return (
+        <Suspense fallback={<div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>}>
+            <BackupContent />
+        </Suspense>
+    );
+}
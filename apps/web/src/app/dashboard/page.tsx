@@ -1,8 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Database, Plus, Play, History, Save, LogOut, User, Shield, Zap, Star, Building, Lock, Trash2 } from 'lucide-react';
-import { VALID_DATABASE_TYPES } from '@/constants/database-types';
+import { Database, Plus, Play, History, Save, LogOut, User, Shield, Zap, Star, Building, Lock, Trash2, GitCompare, DatabaseBackup } from 'lucide-react';
+import { VALID_DATABASE_TYPES, isFileDatabase, isTimeSeriesDatabase } from '@/constants/database-types';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { getCurrentUser, logout } from '@/lib/auth';
@@ -167,7 +167,7 @@ export default function DashboardPage() {
                 </div>
 
                 {/* Quick Actions */}
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+                <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-8">
                     <QuickActionCard
                         icon={<Plus className="w-6 h-6" />}
                         title="New Connection"
@@ -193,6 +193,20 @@ export default function DashboardPage() {
                         description="Access saved queries"
                         href="/saved-queries"
                     />
+                    <QuickActionCard
+                        icon={<GitCompare className="w-6 h-6" />}
+                        title="Schema Compare"
+                        description="Diff and sync two schemas"
+                        disabled={connections.length === 0}
+                        href={connections.length > 0 ? '/schema-compare' : undefined}
+                    />
+                    <QuickActionCard
+                        icon={<DatabaseBackup className="w-6 h-6" />}
+                        title="Backup & Restore"
+                        description="Dump and restore databases"
+                        disabled={connections.length === 0}
+                        href={connections.length > 0 ? '/backup' : undefined}
+                    />
                 </div>
 
                 {/* Connections List */}
@@ -365,14 +379,23 @@ function ConnectionCard({ connection }: { connection: Connection }) {
             </div>
 
             <div className="space-y-2 text-sm mb-4">
-                <div className="flex justify-between">
-                    <span className="text-muted-foreground">Host:</span>
-                    <span className="font-mono">{connection.host}</span>
-                </div>
-                <div className="flex justify-between">
-                    <span className="text-muted-foreground">Database:</span>
-                    <span className="font-mono">{connection.database}</span>
-                </div>
+                {isFileDatabase(connection.type) ? (
+                    <div className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">File:</span>
+                        <span className="font-mono truncate" title={connection.database}>{connection.database || ':memory:'}</span>
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex justify-between">
+                            <span className="text-muted-foreground">Host:</span>
+                            <span className="font-mono">{connection.host}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span className="text-muted-foreground">Database:</span>
+                            <span className="font-mono">{connection.database}</span>
+                        </div>
+                    </>
+                )}
                 {connection.readOnly && (
                     <div className="text-xs text-amber-500">Read-only mode</div>
                 )}
@@ -489,6 +512,7 @@ function NewConnectionModal({
         { id: 'arangodb', name: 'ArangoDB', icon: '🥑', category: 'nosql', desc: 'Multi-model graph database' },
         { id: 'timescaledb', name: 'Timescale', icon: '🐯', category: 'specialized', desc: 'Time-series SQL' },
         { id: 'influxdb', name: 'InfluxDB', icon: '📉', category: 'specialized', desc: 'Time-series platform' },
+        { id: 'prometheus', name: 'Prometheus', icon: '🔥', category: 'specialized', desc: 'Metrics monitoring system' },
         { id: 'elasticsearch', name: 'Elasticsearch', icon: '🔍', category: 'specialized', desc: 'Search and analytics engine' },
         { id: 'solr', name: 'Solr', icon: '☀️', category: 'specialized', desc: 'Open source search platform' },
         { id: 'opensearch', name: 'OpenSearch', icon: '🔎', category: 'specialized', desc: 'Community-driven search' },
@@ -765,75 +789,99 @@ function NewConnectionModal({
                             </select>
                         </div>
 
-                        <div className="grid grid-cols-2 gap-4">
+                        {isFileDatabase(manualConnection.type) ? (
                             <div>
-                                <label className="block text-sm font-medium mb-2">Host</label>
+                                <label className="block text-sm font-medium mb-2">Database File</label>
                                 <input
                                     type="text"
-                                    value={manualConnection.host}
-                                    onChange={(e) => setManualConnection({ ...manualConnection, host: e.target.value })}
-                                    className="w-full px-4 py-2 bg-background border border-border rounded-lg"
-                                    placeholder="localhost"
-                                    required
+                                    value={manualConnection.database}
+                                    onChange={(e) => setManualConnection({ ...manualConnection, database: e.target.value })}
+                                    className="w-full px-4 py-2 bg-background border border-border rounded-lg font-mono"
+                                    placeholder={manualConnection.type === 'duckdb' ? '/data/analytics.duckdb or /data/sales.parquet' : '/data/app.db'}
                                 />
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    Path on the BosDB server. Leave empty for an in-memory database.
+                                    {manualConnection.type === 'duckdb' && ' A CSV, Parquet or JSON file, or a folder of them, opens with one view per file.'}
+                                </p>
                             </div>
-                            <div>
-                                <label className="block text-sm font-medium mb-2">Port</label>
-                                <input
-                                    type="number"
-                                    value={manualConnection.port}
-                                    onChange={(e) => setManualConnection({ ...manualConnection, port: parseInt(e.target.value) })}
-                                    className="w-full px-4 py-2 bg-background border border-border rounded-lg"
-                                    required
-                                />
-                            </div>
-                        </div>
-
-                        <div>
-                            <label className="block text-sm font-medium mb-2">Database Name</label>
-                            <input
-                                type="text"
-                                value={manualConnection.database}
-                                onChange={(e) => setManualConnection({ ...manualConnection, database: e.target.value })}
-                                className="w-full px-4 py-2 bg-background border border-border rounded-lg"
-                                placeholder="demodb"
-                                required
-                            />
-                        </div>
+                        ) : (
+                            <>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium mb-2">Host</label>
+                                        <input
+                                            type="text"
+                                            value={manualConnection.host}
+                                            onChange={(e) => setManualConnection({ ...manualConnection, host: e.target.value })}
+                                            className="w-full px-4 py-2 bg-background border border-border rounded-lg"
+                                            placeholder="localhost"
+                                            required
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium mb-2">Port</label>
+                                        <input
+                                            type="number"
+                                            value={manualConnection.port}
+                                            onChange={(e) => setManualConnection({ ...manualConnection, port: parseInt(e.target.value) })}
+                                            className="w-full px-4 py-2 bg-background border border-border rounded-lg"
+                                            required
+                                        />
+                                    </div>
+                                </div>
 
-                        <div className="grid grid-cols-2 gap-4">
-                            <div>
-                                <label className="block text-sm font-medium mb-2">Username</label>
-                                <input
-                                    type="text"
-                                    value={manualConnection.username}
-                                    onChange={(e) => setManualConnection({ ...manualConnection, username: e.target.value })}
-                                    className="w-full px-4 py-2 bg-background border border-border rounded-lg"
-                                    required
-                                />
-                            </div>
-                            <div>
-                                <label className="block text-sm font-medium mb-2">Password</label>
-                                <input
-                                    type="password"
-                                    value={manualConnection.password}
-                                    onChange={(e) => setManualConnection({ ...manualConnection, password: e.target.value })}
-                                    className="w-full px-4 py-2 bg-background border border-border rounded-lg"
-                                    required
-                                />
-                            </div>
-                        </div>
+                                {manualConnection.type !== 'prometheus' && (
+                                    <div>
+                                        <label className="block text-sm font-medium mb-2">{manualConnection.type === 'influxdb' ? 'Bucket' : 'Database Name'}</label>
+                                        <input
+                                            type="text"
+                                            value={manualConnection.database}
+                                            onChange={(e) => setManualConnection({ ...manualConnection, database: e.target.value })}
+                                            className="w-full px-4 py-2 bg-background border border-border rounded-lg"
+                                            placeholder="demodb"
+                                            required
+                                        />
+                                    </div>
+                                )}
+
+                                {/* InfluxDB authenticates with an API token; Prometheus is often open or behind a proxy */}
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium mb-2">{manualConnection.type === 'influxdb' ? 'Organization' : 'Username'}</label>
+                                        <input
+                                            type="text"
+                                            value={manualConnection.username}
+                                            onChange={(e) => setManualConnection({ ...manualConnection, username: e.target.value })}
+                                            className="w-full px-4 py-2 bg-background border border-border rounded-lg"
+                                            required={!isTimeSeriesDatabase(manualConnection.type)}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium mb-2">{manualConnection.type === 'influxdb' ? 'API Token' : 'Password'}</label>
+                                        <input
+                                            type="password"
+                                            value={manualConnection.password}
+                                            onChange={(e) => setManualConnection({ ...manualConnection, password: e.target.value })}
+                                            className="w-full px-4 py-2 bg-background border border-border rounded-lg"
+                                            required={manualConnection.type !== 'prometheus'}
+                                        />
+                                    </div>
+                                </div>
+                            </>
+                        )}
 
                         <div className="flex items-center gap-4">
-                            <label className="flex items-center gap-2 text-sm">
-                                <input
-                                    type="checkbox"
-                                    checked={manualConnection.ssl}
-                                    onChange={(e) => setManualConnection({ ...manualConnection, ssl: e.target.checked })}
-                                    className="rounded"
-                                />
-                                Use SSL
-                            </label>
+                            {!isFileDatabase(manualConnection.type) && (
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={manualConnection.ssl}
+                                        onChange={(e) => setManualConnection({ ...manualConnection, ssl: e.target.checked })}
+                                        className="rounded"
+                                    />
+                                    Use SSL
+                                </label>
+                            )}
                             <label className="flex items-center gap-2 text-sm">
                                 <input
                                     type="checkbox"
@@ -0,0 +1,360 @@
+'use client';
+
+import { useState, useEffect, useMemo, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Copy, Download, Loader2, Rows, Save } from 'lucide-react';
+import type { DataCompareResult, RowDiff } from '@/lib/data-compare-helper';
+import { generateDataSyncSQL } from '@/lib/data-compare-helper';
+import { downloadFile } from '@/lib/export-utils';
+import { getCurrentUser } from '@/lib/auth';
+import { SaveQueryModal } from '@/components/SaveQueryModal';
+import { useToast } from '@/components/ToastProvider';
+
+interface ConnectionOption {
+    id: string;
+    name: string;
+    type: string;
+}
+
+interface Side {
+    connectionId: string;
+    schema: string;
+    table: string;
+}
+
+interface CompareResponse extends DataCompareResult {
+    left: { connectionId: string; dbType: string; schema: string; table: string };
+    right: { connectionId: string; dbType: string; schema: string; table: string };
+}
+
+type Filter = 'all' | RowDiff['status'];
+
+const STATUS_STYLES: Record<RowDiff['status'], string> = {
+    onlyLeft: 'bg-green-500/10 text-green-600 dark:text-green-400',
+    onlyRight: 'bg-red-500/10 text-red-600 dark:text-red-400',
+    changed: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+};
+
+const STATUS_LABELS: Record<RowDiff['status'], string> = {
+    onlyLeft: 'Left only',
+    onlyRight: 'Right only',
+    changed: 'Changed',
+};
+
+function getHeaders(): HeadersInit {
+    const currentUser = getCurrentUser();
+    const headers: HeadersInit = { 'Content-Type': 'application/json' };
+    if (currentUser?.email) headers['x-user-email'] = currentUser.email;
+    if (currentUser?.organizationId) headers['x-org-id'] = currentUser.organizationId;
+    return headers;
+}
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) return 'NULL';
+    if (typeof value === 'object' && '$binary' in value) return `0x${(value as { $binary: string }).$binary}`;
+    return String(value);
+}
+
+function TablePicker({ label, connections, value, onChange }: {
+    label: string;
+    connections: ConnectionOption[];
+    value: Side;
+    onChange: (side: Side) => void;
+}) {
+    const [schemas, setSchemas] = useState<string[]>([]);
+    const [tables, setTables] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (!value.connectionId) return;
+        fetch(`/api/schema?connectionId=${value.connectionId}`, { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setSchemas((data.schemas || []).map((s: any) => s.name)))
+            .catch(() => setSchemas([]));
+    }, [value.connectionId]);
+
+    useEffect(() => {
+        if (!value.connectionId || !value.schema) return;
+        fetch(`/api/tables?connectionId=${value.connectionId}&schema=${encodeURIComponent(value.schema)}`, { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setTables((data.tables || []).filter((t: any) => t.type === 'table').map((t: any) => t.name)))
+            .catch(() => setTables([]));
+    }, [value.connectionId, value.schema]);
+
+    const select = 'px-2 py-1.5 bg-background border border-border rounded text-sm';
+    return (
+        <div className="flex-1 min-w-[20rem]">
+            <div className="text-xs font-medium text-muted-foreground uppercase mb-1">{label}</div>
+            <div className="flex gap-2">
+                <select value={value.connectionId} onChange={e => onChange({ connectionId: e.target.value, schema: '', table: '' })} className={`flex-1 ${select}`}>
+                    <option value="">Select connection...</option>
+                    {connections.map(c => <option key={c.id} value={c.id}>{c.name} ({c.type})</option>)}
+                </select>
+                <select value={value.schema} onChange={e => onChange({ ...value, schema: e.target.value, table: '' })} className={`w-32 ${select}`} disabled={!value.connectionId}>
+                    <option value="">Schema...</option>
+                    {(schemas.includes(value.schema) || !value.schema ? schemas : [value.schema, ...schemas]).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+                <select value={value.table} onChange={e => onChange({ ...value, table: e.target.value })} className={`w-40 ${select}`} disabled={!value.schema}>
+                    <option value="">Table...</option>
+                    {(tables.includes(value.table) || !value.table ? tables : [value.table, ...tables]).map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+            </div>
+        </div>
+    );
+}
+
+function DataCompareContent() {
+    const searchParams = useSearchParams();
+    const toast = useToast();
+
+    const sideFromUrl = (prefix: 'left' | 'right'): Side => ({
+        connectionId: searchParams?.get(prefix) || '',
+        schema: searchParams?.get(`${prefix}Schema`) || '',
+        table: searchParams?.get(`${prefix}Table`) || '',
+    });
+
+    const [connections, setConnections] = useState<ConnectionOption[]>([]);
+    const [left, setLeft] = useState<Side>(() => sideFromUrl('left'));
+    const [right, setRight] = useState<Side>(() => {
+        const side = sideFromUrl('right');
+        return side.connectionId ? side : sideFromUrl('left');
+    });
+    const [chunkSize, setChunkSize] = useState(1000);
+    const [maxDiffRows, setMaxDiffRows] = useState(1000);
+    const [result, setResult] = useState<CompareResponse | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [filter, setFilter] = useState<Filter>('all');
+    const [direction, setDirection] = useState<'leftToRight' | 'rightToLeft'>('leftToRight');
+    const [showSave, setShowSave] = useState(false);
+
+    useEffect(() => {
+        fetch('/api/connections', { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setConnections(data.connections || []))
+            .catch(() => setConnections([]));
+    }, []);
+
+    const compare = async () => {
+        setLoading(true);
+        setError('');
+        try {
+            const res = await fetch('/api/data/compare', {
+                method: 'POST',
+                headers: getHeaders(),
+                body: JSON.stringify({ left, right, chunkSize, maxDiffRows }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Comparison failed');
+            setResult(data);
+            setFilter('all');
+        } catch (err: any) {
+            setError(err.message);
+            setResult(null);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // The table the sync script changes, as it was compared
+    const target = result && (direction === 'leftToRight' ? result.right : result.left);
+    const syncSql = useMemo(() => result && target ? generateDataSyncSQL(result, target, direction) : '', [result, target, direction]);
+
+    const rows = result ? result.rows.filter(row => filter === 'all' || row.status === filter) : [];
+    const ready = left.connectionId && left.table && right.connectionId && right.table;
+    const differences = result ? result.counts.onlyLeft + result.counts.onlyRight + result.counts.changed : 0;
+
+    return (
+        <div className="h-screen flex flex-col bg-background text-foreground">
+            {/* Toolbar */}
+            <div className="border-b border-border p-3 flex items-end gap-3 flex-wrap">
+                <div className="flex items-center gap-3 self-center">
+                    <Link href="/dashboard" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+                        <ArrowLeft className="w-4 h-4" />
+                        Dashboard
+                    </Link>
+                    <h1 className="font-semibold">Data Compare</h1>
+                </div>
+                <TablePicker label="Left" connections={connections} value={left} onChange={setLeft} />
+                <TablePicker label="Right" connections={connections} value={right} onChange={setRight} />
+                <label className="text-xs text-muted-foreground">
+                    Chunk size
+                    <input type="number" min={100} max={10000} step={100} value={chunkSize} onChange={e => setChunkSize(Number(e.target.value))}
+                        className="block w-24 px-2 py-1.5 bg-background border border-border rounded text-sm text-foreground" />
+                </label>
+                <label className="text-xs text-muted-foreground">
+                    Max rows shown
+                    <input type="number" min={10} max={10000} step={100} value={maxDiffRows} onChange={e => setMaxDiffRows(Number(e.target.value))}
+                        className="block w-24 px-2 py-1.5 bg-background border border-border rounded text-sm text-foreground" />
+                </label>
+                <button
+                    onClick={compare}
+                    disabled={!ready || loading}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-primary-foreground rounded text-sm hover:bg-primary/90 disabled:opacity-50"
+                >
+                    {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Rows className="w-4 h-4" />}
+                    Compare
+                </button>
+            </div>
+
+            {error && <div className="px-4 py-2 text-sm text-destructive border-b border-border">{error}</div>}
+
+            {!result ? (
+                <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm">
+                    {loading ? 'Comparing rows...' : 'Pick two tables to compare their rows by primary key.'}
+                </div>
+            ) : (
+                <div className="flex-1 flex min-h-0">
+                    <div className="flex-1 flex flex-col min-w-0">
+                        {/* Summary */}
+                        <div className="p-4 border-b border-border space-y-3">
+                            <div className="grid grid-cols-3 md:grid-cols-6 gap-2 text-sm">
+                                {[
+                                    ['Left rows', result.counts.left, ''],
+                                    ['Right rows', result.counts.right, ''],
+                                    ['Identical', result.counts.identical, ''],
+                                    [STATUS_LABELS.onlyLeft, result.counts.onlyLeft, STATUS_STYLES.onlyLeft],
+                                    [STATUS_LABELS.onlyRight, result.counts.onlyRight, STATUS_STYLES.onlyRight],
+                                    [STATUS_LABELS.changed, result.counts.changed, STATUS_STYLES.changed],
+                                ].map(([label, count, style]) => (
+                                    <div key={label as string} className={`p-2 border border-border rounded ${style}`}>
+                                        <div className="text-xs text-muted-foreground">{label}</div>
+                                        <div className="text-lg font-semibold">{(count as number).toLocaleString()}</div>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="text-xs text-muted-foreground space-y-1">
+                                <div>
+                                    Matched on {result.keyColumns.join(', ')} · {result.chunks.skipped} of {result.chunks.total} key ranges identical by checksum
+                                </div>
+                                {Object.keys(result.columnDiffs).length > 0 && (
+                                    <div>
+                                        Changed values: {Object.entries(result.columnDiffs).map(([col, count]) => `${col} (${count})`).join(', ')}
+                                    </div>
+                                )}
+                                {(result.leftOnlyColumns.length > 0 || result.rightOnlyColumns.length > 0) && (
+                                    <div>
+                                        Not compared: {[...result.leftOnlyColumns.map(c => `${c} (left only)`), ...result.rightOnlyColumns.map(c => `${c} (right only)`)].join(', ')}
+                                    </div>
+                                )}
+                                {result.truncated && <div className="text-amber-500">Showing the first {result.rows.length} of {differences.toLocaleString()} differences.</div>}
+                            </div>
+                        </div>
+
+                        {/* Differences */}
+                        <div className="px-4 py-2 border-b border-border flex items-center gap-1 text-sm">
+                            {(['all', 'onlyLeft', 'onlyRight', 'changed'] as Filter[]).map(f => (
+                                <button
+                                    key={f}
+                                    onClick={() => setFilter(f)}
+                                    className={`px-2 py-1 rounded ${filter === f ? 'bg-accent' : 'hover:bg-accent'}`}
+                                >
+                                    {f === 'all' ? 'All' : STATUS_LABELS[f]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex-1 overflow-auto">
+                            {rows.length === 0 ? (
+                                <div className="p-4 text-sm text-muted-foreground">{differences === 0 ? 'The tables contain the same rows.' : 'No rows match this filter.'}</div>
+                            ) : (
+                                <table className="w-full text-xs font-mono border-collapse">
+                                    <thead className="sticky top-0 bg-background">
+                                        <tr className="text-left text-muted-foreground">
+                                            <th className="px-2 py-1 border-b border-border">Status</th>
+                                            {result.columns.map(col => (
+                                                <th key={col} className="px-2 py-1 border-b border-border">
+                                                    {col}{result.keyColumns.includes(col) && <span className="ml-1 text-amber-500">PK</span>}
+                                                </th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {rows.map(row => (
+                                            <tr key={`${row.status}:${JSON.stringify(row.key)}`} className="align-top">
+                                                <td className="px-2 py-1 border-b border-border">
+                                                    <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[row.status]}`}>{STATUS_LABELS[row.status]}</span>
+                                                </td>
+                                                {result.columns.map(col => {
+                                                    const values = row.left ?? row.right!;
+                                                    if (row.status !== 'changed' || !row.columns!.includes(col)) {
+                                                        return <td key={col} className="px-2 py-1 border-b border-border">{formatValue(values[col])}</td>;
+                                                    }
+                                                    return (
+                                                        <td key={col} className="px-2 py-1 border-b border-border bg-amber-500/10">
+                                                            <div className="text-red-600 dark:text-red-400 line-through">{formatValue(row.right![col])}</div>
+                                                            <div className="text-green-600 dark:text-green-400">{formatValue(row.left![col])}</div>
+                                                        </td>
+                                                    );
+                                                })}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Sync SQL */}
+                    <div className="w-[28rem] border-l border-border flex flex-col min-h-0">
+                        <div className="p-3 border-b border-border flex items-center justify-between gap-2">
+                            <select
+                                value={direction}
+                                onChange={e => setDirection(e.target.value as typeof direction)}
+                                className="px-2 py-1 bg-background border border-border rounded text-sm"
+                            >
+                                <option value="leftToRight">Make right match left</option>
+                                <option value="rightToLeft">Make left match right</option>
+                            </select>
+                            <div className="flex items-center gap-1">
+                                <button
+                                    onClick={() => navigator.clipboard.writeText(syncSql).then(() => toast.success('Copied to clipboard'))}
+                                    disabled={!syncSql}
+                                    className="p-1.5 hover:bg-accent rounded disabled:opacity-50"
+                                    title="Copy"
+                                >
+                                    <Copy className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => downloadFile(`${syncSql}\n`, `sync-${target!.table}.sql`, 'text/plain')}
+                                    disabled={!syncSql}
+                                    className="p-1.5 hover:bg-accent rounded disabled:opacity-50"
+                                    title="Download .sql"
+                                >
+                                    <Download className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => setShowSave(true)} disabled={!syncSql} className="p-1.5 hover:bg-accent rounded disabled:opacity-50" title="Save as query">
+                                    <Save className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                        <div className="flex-1 overflow-auto p-3">
+                            {syncSql
+                                ? <pre className="text-xs font-mono whitespace-pre-wrap">{syncSql}</pre>
+                                : <div className="text-sm text-muted-foreground">Nothing to sync.</div>}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {showSave && target && (
+                <SaveQueryModal
+                    query={syncSql}
+                    connectionId={target.connectionId}
+                    onClose={() => setShowSave(false)}
+                    onSuccess={() => {
+                        setShowSave(false);
+                        toast.success('Sync script saved');
+                    }}
+                />
+            )}
+        </div>
+    );
+}
+
+export default function DataComparePage() {
+    return (
+        <Suspense fallback={<div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>}>
+            <DataCompareContent />
+        </Suspense>
+    );
+}
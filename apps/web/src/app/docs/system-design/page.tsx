@@ -121,8 +121,14 @@ Response: {
                 <CodeBlock language="typescript" code={`Request: {
   connectionId: string,
   query: string,
+  params?: unknown[] | Record<string, unknown>,  // values for $1 / :name
   timeout?: number,
-  maxRows?: number
+  maxRows?: number,               // page size when streaming
+  stream?: boolean,               // read SELECTs through a server-side cursor
+  cursor?: string,                // fetch the next page instead of running a query
+  closeCursor?: boolean,          // with cursor: release it without reading further
+  queryId?: string,               // caller-chosen ID for DELETE /api/query/:id
+  transactionId?: string          // run inside a transaction from /api/query/transaction
 }
 
 Response: {
@@ -130,14 +136,36 @@ Response: {
   rows: any[],
   fields: QueryField[],
   rowCount: number,
-  executionTime: number
+  executionTime: number,
+  hasMore?: boolean,
+  cursor?: string                 // pass back to continue; expires after 5 idle minutes
 }`} />
 
+                <h4>DELETE /api/query/:id</h4>
+                <p>Cancels a running statement by its <code>queryId</code> (pg_cancel_backend, KILL QUERY, request cancel, break or killOp, depending on the database).</p>
+
+                <h4>POST /api/query/transaction</h4>
+                <CodeBlock language="typescript" code={`Request: {
+  connectionId: string,
+  action: 'begin' | 'commit' | 'rollback',
+  transactionId?: string          // required for commit and rollback
+}`} />
+                <p>Pins a database session for the transaction. Version-control changes made inside it are only recorded on commit; idle transactions are rolled back after 10 minutes.</p>
+
+                <h4>POST /api/data/source</h4>
+                <p>Resolves the table behind a result set and the key that identifies its rows: <code>tableID</code>/<code>columnID</code> on PostgreSQL, the FROM clause of a single-table SELECT elsewhere. The grid only edits results with a primary key or unique NOT NULL index.</p>
+
+                <h4>POST /api/data/update</h4>
+                <p>Applies grid updates, inserts and deletes to one table in a single transaction. Updates and deletes must each hit exactly one row, otherwise the save is rolled back.</p>
+
                 <h3>3. Database Adapter Layer</h3>
                 <p><strong>Design Pattern:</strong> Strategy Pattern with Dependency Injection</p>
                 <CodeBlock language="typescript" code={`interface IDBAdapter {
   connect(config: ConnectionConfig): Promise<ConnectionResult>
   executeQuery(request: QueryRequest): Promise<QueryResult>
+  beginTransaction(connectionId: string): Promise<string>
+  commit(connectionId: string, transactionId: string): Promise<void>
+  rollback(connectionId: string, transactionId: string): Promise<void>
   listSchemas(connectionId: string): Promise<Schema[]>
   // ...methods
 }`} />
@@ -151,7 +179,7 @@ Response: {
                 <ol>
                     <li><strong>Pattern Detection</strong>: Checks for DROP, TRUNCATE, etc.</li>
                     <li><strong>Read-only Enforcement</strong>: Validates query starts with SELECT/EXPLAIN.</li>
-                    <li><strong>Parameterization Ready</strong>: Adapter supports prepared statements.</li>
+                    <li><strong>Bound Parameters</strong>: <code>$1</code> / <code>:name</code> placeholders are bound by the database driver, never concatenated into SQL.</li>
                 </ol>
 
                 <h3>5. Data Flow</h3>
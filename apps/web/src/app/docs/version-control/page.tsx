@@ -97,23 +97,38 @@ Body: {
 }`} />
 
                 <h4>POST /api/vcs/branches (Checkout)</h4>
-                <p><strong>Switch to a different branch</strong></p>
+                <p><strong>Switch to a different branch and migrate the live database</strong></p>
+                <p>
+                    Commits on the current branch are undone back to the merge base using their rollback SQL,
+                    then the target branch&apos;s commits are replayed. Send <code>dryRun: true</code> to get the plan without executing it.
+                    PostgreSQL-family engines apply the plan in a single transaction.
+                </p>
                 <CodeBlock language="typescript" code={`POST /api/vcs/branches
 Body: {
   "connectionId": "conn_123",
   "name": "feature-new-schema",
-  "action": "checkout"
+  "action": "checkout",
+  "dryRun": false,       // true = only return the plan
+  "skipManual": false    // allow steps without automatic SQL to be skipped
 }
 
 // Response
 {
   "success": true,
-  "data": {
-    "schema": { /* database snapshot */ },
-    "data": { /* table data */ },
-    "timestamp": "2025-12-29T..."
-  }
-}`} />
+  "currentBranch": "feature-new-schema",
+  "plan": {
+    "mergeBase": "abc123",
+    "steps": [
+      { "direction": "undo", "commitId": "def456", "sql": "DROP TABLE audit;" },
+      { "direction": "redo", "commitId": "789abc", "sql": "ALTER TABLE users ADD COLUMN age int;" }
+    ],
+    "manualSteps": 0,
+    "transactional": true
+  },
+  "result": { "success": true, "applied": 2, "transactional": true }
+}
+
+// 409 when there are uncommitted changes (commit or stash first)`} />
 
                 <h3>Commit Operations</h3>
 
@@ -136,8 +151,56 @@ Body: {
       "description": "Created users table"
     }
   ],
-  "snapshot": { /* current database snapshot */ }
-}`} />
+  "schema": "public",          // optional, defaults to the adapter's default schema
+  "includeData": true,         // optional, sample table rows into the snapshot
+  "maxRowsPerTable": 1000      // optional, bound for sampled rows per table (1-10000)
+}
+
+// The live database schema (and optional data sample) is captured
+// server-side and stored as the commit's snapshot (commit.treeId).`} />
+
+                <h3>Tags, Stash, Reflog, Cherry-Pick &amp; Blame</h3>
+                <CodeBlock language="typescript" code={`GET    /api/vcs/tags?connectionId=conn_123
+POST   /api/vcs/tags            { connectionId, name, commitId?, message? }   // defaults to HEAD
+DELETE /api/vcs/tags?connectionId=conn_123&name=v1.0
+
+GET    /api/vcs/stash?connectionId=conn_123
+POST   /api/vcs/stash           { connectionId, action: "push" | "pop" | "apply" | "drop", stashId?, message? }
+
+GET    /api/vcs/reflog?connectionId=conn_123&ref=main&maxCount=50
+
+POST   /api/vcs/cherry-pick     { connectionId, commitId }   // replays the commit's SQL on the live database
+
+GET    /api/vcs/blame?connectionId=conn_123&table=users&column=email
+GET    /api/vcs/blame?connectionId=conn_123&table=users&mode=columns   // last commit per column + contributors`} />
+
+                <h3>Patches</h3>
+                <CodeBlock language="typescript" code={`GET  /api/vcs/patch?connectionId=staging&commitId=a1b2c3      // one commit
+GET  /api/vcs/patch?connectionId=staging&from=a1b2c3&to=d4e5f6 // commits after "from" up to "to"
+
+POST /api/vcs/patch  { connectionId: "prod", content: "<patch file>", dryRun: true }
+POST /api/vcs/patch  { connectionId: "prod", content: "<patch file>", force?: false }
+
+// Every change is validated against the target's live schema (tables, columns, indexes, views)
+// before anything runs; conflicts return 409 unless force is set. Changes are then replayed one
+// by one and result.changes reports each one as applied, failed or skipped.
+// Applied changes are recorded as a single commit on the target's current branch.`} />
+
+                <h3>Bisect</h3>
+                <CodeBlock language="typescript" code={`POST /api/vcs/bisect  { connectionId, action: "start", good: "a1b2c3", bad: "d4e5f6",
+                       checkQuery: "SELECT COUNT(*) = 0 FROM orders WHERE total < 0" }   // optional
+POST /api/vcs/bisect  { connectionId, action: "good" | "bad" | "skip" | "reset" }
+GET  /api/vcs/bisect?connectionId=conn_123
+
+// Each step migrates the live database to the candidate commit.
+// With checkQuery the search runs to the end in one request: a true first value means good,
+// false or no rows means bad, a query error skips the commit.
+// The database is migrated back to HEAD when the first bad commit is found or on reset.`} />
+
+                <p>
+                    History is stored with the <code>@bosdb/version-control</code> package in <code>.bosdb-vcs/&lt;connectionId&gt;</code>.
+                    Existing <code>commits.json</code>/<code>branches.json</code> files from earlier versions are imported automatically on first access.
+                </p>
 
                 <h2>🔄 Common Workflows</h2>
 
@@ -0,0 +1,511 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback, Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useTheme } from 'next-themes';
+import { ArrowLeft, Download, Key, Link2, Loader2, Maximize, Minus, Plus, RefreshCw, Search, X } from 'lucide-react';
+import type { TableMetadata } from '@bosdb/core';
+import { buildDiagram, neighbourhood, toMermaid, toDBML, HEADER_HEIGHT, ROW_HEIGHT } from '@/lib/er-diagram';
+import type { ErDiagram } from '@/lib/er-diagram';
+import { downloadFile } from '@/lib/export-utils';
+import { getCurrentUser } from '@/lib/auth';
+import TableDesigner from '@/components/schema/TableDesigner';
+import { useToast } from '@/components/ToastProvider';
+
+const PADDING = 40;
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 2.5;
+
+// Colours are written into the SVG itself so exported files look the same as the page
+const PALETTES = {
+    light: { canvas: '#f8fafc', box: '#ffffff', border: '#cbd5e1', header: '#e0e7ff', title: '#1e1b4b', text: '#0f172a', muted: '#64748b', pk: '#d97706', fk: '#2563eb', edge: '#94a3b8', highlight: '#6366f1' },
+    dark: { canvas: '#0b1120', box: '#1e293b', border: '#334155', header: '#312e81', title: '#e0e7ff', text: '#e2e8f0', muted: '#94a3b8', pk: '#fbbf24', fk: '#60a5fa', edge: '#475569', highlight: '#818cf8' },
+};
+
+function getHeaders(): HeadersInit {
+    const currentUser = getCurrentUser();
+    const headers: HeadersInit = {};
+    if (currentUser?.email) headers['x-user-email'] = currentUser.email;
+    if (currentUser?.organizationId) headers['x-org-id'] = currentUser.organizationId;
+    return headers;
+}
+
+function ErDiagramContent() {
+    const searchParams = useSearchParams();
+    const router = useRouter();
+    const connectionId = searchParams?.get('connection');
+    const schema = searchParams?.get('schema') || 'public';
+    const focus = searchParams?.get('table') || '';
+    const { resolvedTheme } = useTheme();
+    const toast = useToast();
+
+    const [schemas, setSchemas] = useState<string[]>([]);
+    const [tables, setTables] = useState<TableMetadata[]>([]);
+    const [dbType, setDbType] = useState<string>('postgresql');
+    const [errors, setErrors] = useState<{ table: string; error: string }[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [loadError, setLoadError] = useState('');
+    const [depth, setDepth] = useState(1);
+    const [keysOnly, setKeysOnly] = useState(false);
+    const [search, setSearch] = useState(focus);
+    const [hovered, setHovered] = useState<string | null>(null);
+    const [designerTable, setDesignerTable] = useState<string | null>(null);
+    const [view, setView] = useState({ x: 0, y: 0, zoom: 1 });
+
+    const canvasRef = useRef<HTMLDivElement>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+    const palette = PALETTES[resolvedTheme === 'dark' ? 'dark' : 'light'];
+
+    // Changing schema, focus or connection goes through the URL so the view can be shared
+    const navigate = useCallback((params: { schema?: string; table?: string }) => {
+        const next = new URLSearchParams({ connection: connectionId || '', schema: params.schema ?? schema });
+        const table = params.table ?? focus;
+        if (table) next.set('table', table);
+        router.replace(`/er-diagram?${next}`);
+    }, [router, connectionId, schema, focus]);
+
+    const loadDiagram = useCallback(async () => {
+        if (!connectionId) return;
+        setLoading(true);
+        setLoadError('');
+        try {
+            const res = await fetch(`/api/schema/diagram?connectionId=${connectionId}&schema=${encodeURIComponent(schema)}`, { headers: getHeaders() });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to load schema');
+            setTables(data.tables);
+            setDbType(data.dbType);
+            setErrors(data.errors || []);
+        } catch (err: any) {
+            setLoadError(err.message);
+            setTables([]);
+        } finally {
+            setLoading(false);
+        }
+    }, [connectionId, schema]);
+
+    useEffect(() => {
+        loadDiagram();
+    }, [loadDiagram]);
+
+    useEffect(() => {
+        if (!connectionId) return;
+        fetch(`/api/schema?connectionId=${connectionId}`, { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setSchemas((data.schemas || []).map((s: any) => s.name)))
+            .catch(() => setSchemas([]));
+    }, [connectionId]);
+
+    useEffect(() => {
+        setSearch(focus);
+    }, [focus]);
+
+    const visible = useMemo(() => {
+        if (!focus || !tables.some(t => t.name === focus)) return tables;
+        return depth > 0 ? neighbourhood(tables, focus, depth) : tables;
+    }, [tables, focus, depth]);
+
+    const diagram: ErDiagram = useMemo(() => buildDiagram(visible, { keysOnly }), [visible, keysOnly]);
+
+    // Fit the whole diagram into the canvas
+    const fit = useCallback(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || diagram.width === 0) return;
+        const zoom = Math.min(
+            MAX_ZOOM,
+            Math.max(MIN_ZOOM, Math.min(
+                canvas.clientWidth / (diagram.width + PADDING * 2),
+                canvas.clientHeight / (diagram.height + PADDING * 2)
+            ))
+        );
+        setView({
+            zoom,
+            x: (canvas.clientWidth - (diagram.width + PADDING * 2) * zoom) / 2,
+            y: (canvas.clientHeight - (diagram.height + PADDING * 2) * zoom) / 2,
+        });
+    }, [diagram]);
+
+    useEffect(() => {
+        fit();
+    }, [fit]);
+
+    // Zoom keeping the point under (cx, cy) in place
+    const zoomAt = useCallback((factor: number, cx: number, cy: number) => {
+        setView(prev => {
+            const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor));
+            const scale = zoom / prev.zoom;
+            return { zoom, x: cx - (cx - prev.x) * scale, y: cy - (cy - prev.y) * scale };
+        });
+    }, []);
+
+    // Wheel zoom needs a non-passive listener to keep the page from scrolling
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = canvas.getBoundingClientRect();
+            zoomAt(e.deltaY < 0 ? 1.1 : 1 / 1.1, e.clientX - rect.left, e.clientY - rect.top);
+        };
+        canvas.addEventListener('wheel', onWheel, { passive: false });
+        return () => canvas.removeEventListener('wheel', onWheel);
+    }, [zoomAt]);
+
+    const zoomCentre = (factor: number) => {
+        const canvas = canvasRef.current;
+        if (canvas) zoomAt(factor, canvas.clientWidth / 2, canvas.clientHeight / 2);
+    };
+
+    // ---- Export ----
+
+    // The diagram at 1:1 with the pan and zoom removed
+    const serializeSvg = () => {
+        if (!svgRef.current) return null;
+        const clone = svgRef.current.cloneNode(true) as SVGSVGElement;
+        const width = diagram.width + PADDING * 2;
+        const height = diagram.height + PADDING * 2;
+        clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+        clone.setAttribute('width', String(width));
+        clone.setAttribute('height', String(height));
+        clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+        clone.querySelector('[data-viewport]')?.setAttribute('transform', '');
+        return { svg: new XMLSerializer().serializeToString(clone), width, height };
+    };
+
+    const exportSvg = () => {
+        const result = serializeSvg();
+        if (result) downloadFile(result.svg, `${schema}-er-diagram.svg`, 'image/svg+xml');
+    };
+
+    const exportPng = () => {
+        const result = serializeSvg();
+        if (!result) return;
+
+        const image = new Image();
+        const url = URL.createObjectURL(new Blob([result.svg], { type: 'image/svg+xml' }));
+        image.onload = () => {
+            // Large schemas are scaled down to stay within browser canvas limits
+            const scale = Math.min(2, 16000 / Math.max(result.width, result.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(result.width * scale);
+            canvas.height = Math.round(result.height * scale);
+            const context = canvas.getContext('2d')!;
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0);
+            URL.revokeObjectURL(url);
+            canvas.toBlob(blob => {
+                if (blob) downloadFile(blob, `${schema}-er-diagram.png`, 'image/png');
+                else toast.error('The diagram is too large to export as PNG; use SVG instead');
+            }, 'image/png');
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            toast.error('Failed to render PNG');
+        };
+        image.src = url;
+    };
+
+    // ---- Interaction ----
+
+    const onPointerDown = (e: React.PointerEvent) => {
+        dragRef.current = { x: e.clientX, y: e.clientY, moved: false };
+    };
+
+    const onPointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const dx = e.clientX - drag.x;
+        const dy = e.clientY - drag.y;
+        if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+        drag.moved = true;
+        drag.x = e.clientX;
+        drag.y = e.clientY;
+        setView(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+    };
+
+    const onPointerUp = () => {
+        // A drag that ends on a table must not open it
+        setTimeout(() => { dragRef.current = null; }, 0);
+    };
+
+    const openTable = (name: string) => {
+        if (dragRef.current?.moved) return;
+        setDesignerTable(name);
+    };
+
+    const highlighted = useMemo(() => {
+        if (!hovered) return null;
+        const related = new Set([hovered]);
+        diagram.edges.forEach(edge => {
+            if (edge.from === hovered) related.add(edge.to);
+            if (edge.to === hovered) related.add(edge.from);
+        });
+        return related;
+    }, [hovered, diagram]);
+
+    if (!connectionId) {
+        return (
+            <div className="min-h-screen bg-background flex items-center justify-center">
+                <div className="text-center">
+                    <p className="text-muted-foreground mb-4">No connection selected.</p>
+                    <Link href="/dashboard" className="text-primary hover:underline">Go to Dashboard</Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-screen flex flex-col bg-background text-foreground">
+            {/* Toolbar */}
+            <div className="border-b border-border p-3 flex items-center gap-3 flex-wrap">
+                <Link
+                    href={`/query?connection=${connectionId}`}
+                    className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    Query Editor
+                </Link>
+                <h1 className="font-semibold">ER Diagram</h1>
+
+                <select
+                    value={schema}
+                    onChange={e => navigate({ schema: e.target.value, table: '' })}
+                    className="px-2 py-1 bg-background border border-border rounded text-sm"
+                >
+                    {(schemas.includes(schema) ? schemas : [schema, ...schemas]).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+
+                <form
+                    className="flex items-center gap-1"
+                    onSubmit={e => {
+                        e.preventDefault();
+                        navigate({ table: search.trim() });
+                    }}
+                >
+                    <div className="relative">
+                        <Search className="w-3.5 h-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                        <input
+                            list="er-diagram-tables"
+                            value={search}
+                            onChange={e => setSearch(e.target.value)}
+                            placeholder="Focus on table..."
+                            className="pl-7 pr-2 py-1 w-56 bg-background border border-border rounded text-sm"
+                        />
+                        <datalist id="er-diagram-tables">
+                            {tables.map(t => <option key={t.name} value={t.name} />)}
+                        </datalist>
+                    </div>
+                    {focus && (
+                        <button
+                            type="button"
+                            onClick={() => navigate({ table: '' })}
+                            className="p-1 text-muted-foreground hover:text-foreground"
+                            title="Show whole schema"
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    )}
+                </form>
+
+                {focus && (
+                    <select
+                        value={depth}
+                        onChange={e => setDepth(Number(e.target.value))}
+                        className="px-2 py-1 bg-background border border-border rounded text-sm"
+                        title="Relationship hops around the focused table"
+                    >
+                        <option value={1}>1 hop</option>
+                        <option value={2}>2 hops</option>
+                        <option value={3}>3 hops</option>
+                        <option value={0}>Whole schema</option>
+                    </select>
+                )}
+
+                <label className="flex items-center gap-1.5 text-sm cursor-pointer">
+                    <input type="checkbox" checked={keysOnly} onChange={e => setKeysOnly(e.target.checked)} />
+                    Keys only
+                </label>
+
+                <span className="text-xs text-muted-foreground">
+                    {diagram.tables.length} tables · {diagram.edges.length} relationships
+                </span>
+
+                <div className="ml-auto flex items-center gap-1">
+                    <button onClick={() => zoomCentre(1 / 1.2)} className="p-1.5 border border-border rounded hover:bg-accent" title="Zoom out">
+                        <Minus className="w-4 h-4" />
+                    </button>
+                    <span className="text-xs w-12 text-center">{Math.round(view.zoom * 100)}%</span>
+                    <button onClick={() => zoomCentre(1.2)} className="p-1.5 border border-border rounded hover:bg-accent" title="Zoom in">
+                        <Plus className="w-4 h-4" />
+                    </button>
+                    <button onClick={fit} className="p-1.5 border border-border rounded hover:bg-accent" title="Fit to screen">
+                        <Maximize className="w-4 h-4" />
+                    </button>
+                    <button onClick={loadDiagram} className="p-1.5 border border-border rounded hover:bg-accent" title="Reload schema">
+                        <RefreshCw className="w-4 h-4" />
+                    </button>
+                    <div className="w-px h-6 bg-border mx-1" />
+                    <Download className="w-4 h-4 text-muted-foreground" />
+                    <button onClick={exportSvg} className="px-2 py-1 text-xs border border-border rounded hover:bg-accent">SVG</button>
+                    <button onClick={exportPng} className="px-2 py-1 text-xs border border-border rounded hover:bg-accent">PNG</button>
+                    <button
+                        onClick={() => downloadFile(toMermaid(visible), `${schema}.mmd`, 'text/plain')}
+                        className="px-2 py-1 text-xs border border-border rounded hover:bg-accent"
+                    >
+                        Mermaid
+                    </button>
+                    <button
+                        onClick={() => downloadFile(toDBML(visible, schema), `${schema}.dbml`, 'text/plain')}
+                        className="px-2 py-1 text-xs border border-border rounded hover:bg-accent"
+                    >
+                        DBML
+                    </button>
+                </div>
+            </div>
+
+            {errors.length > 0 && (
+                <div className="px-3 py-2 text-xs bg-amber-500/10 text-amber-600 border-b border-amber-500/30" title={errors.map(e => `${e.table}: ${e.error}`).join('\n')}>
+                    {errors.length} tables could not be described and are not shown.
+                </div>
+            )}
+
+            {/* Canvas */}
+            <div
+                ref={canvasRef}
+                className="flex-1 relative overflow-hidden cursor-grab active:cursor-grabbing select-none"
+                style={{ background: palette.canvas }}
+                onPointerDown={onPointerDown}
+                onPointerMove={onPointerMove}
+                onPointerUp={onPointerUp}
+                onPointerLeave={onPointerUp}
+            >
+                {loading ? (
+                    <div className="absolute inset-0 flex items-center justify-center gap-2 text-muted-foreground text-sm">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Reading table metadata...
+                    </div>
+                ) : loadError ? (
+                    <div className="absolute inset-0 flex items-center justify-center text-red-500 text-sm">{loadError}</div>
+                ) : diagram.tables.length === 0 ? (
+                    <div className="absolute inset-0 flex items-center justify-center text-muted-foreground text-sm">No tables in {schema}</div>
+                ) : (
+                    <svg ref={svgRef} width="100%" height="100%" fontFamily="ui-monospace, SFMono-Regular, Menlo, monospace" fontSize={12}>
+                        <rect width="100%" height="100%" fill={palette.canvas} />
+                        <g data-viewport transform={`translate(${view.x} ${view.y}) scale(${view.zoom})`}>
+                            <g transform={`translate(${PADDING} ${PADDING})`}>
+                                {diagram.edges.map(edge => {
+                                    const active = highlighted?.has(edge.from) && highlighted.has(edge.to) && (edge.from === hovered || edge.to === hovered);
+                                    return (
+                                        <path
+                                            key={`${edge.from}.${edge.name}`}
+                                            d={edge.path}
+                                            fill="none"
+                                            stroke={active ? palette.highlight : palette.edge}
+                                            strokeWidth={active ? 2.5 : 1.5}
+                                            markerEnd={`url(#er-arrow${active ? '-active' : ''})`}
+                                            opacity={highlighted && !active ? 0.25 : 1}
+                                        >
+                                            <title>{`${edge.name}: ${edge.from}(${edge.fromColumns.join(', ')}) → ${edge.to}(${edge.toColumns.join(', ')})`}</title>
+                                        </path>
+                                    );
+                                })}
+
+                                {diagram.tables.map(table => (
+                                    <g
+                                        key={table.name}
+                                        transform={`translate(${table.x} ${table.y})`}
+                                        onMouseEnter={() => setHovered(table.name)}
+                                        onMouseLeave={() => setHovered(null)}
+                                        onClick={() => openTable(table.name)}
+                                        opacity={highlighted && !highlighted.has(table.name) ? 0.35 : 1}
+                                        style={{ cursor: 'pointer' }}
+                                    >
+                                        <title>Click to open {table.name} in the table designer</title>
+                                        <rect
+                                            width={table.width}
+                                            height={table.height}
+                                            rx={6}
+                                            fill={palette.box}
+                                            stroke={table.name === focus ? palette.highlight : palette.border}
+                                            strokeWidth={table.name === focus ? 2.5 : 1}
+                                        />
+                                        <path
+                                            d={`M 0 6 a 6 6 0 0 1 6 -6 h ${table.width - 12} a 6 6 0 0 1 6 6 v ${HEADER_HEIGHT - 6} h ${-table.width} z`}
+                                            fill={palette.header}
+                                        />
+                                        <text x={10} y={HEADER_HEIGHT / 2 + 4} fill={palette.title} fontWeight="bold" fontSize={13}>
+                                            {table.name}
+                                        </text>
+                                        {table.columns.map((col, i) => {
+                                            const y = HEADER_HEIGHT + i * ROW_HEIGHT + ROW_HEIGHT / 2 + 4;
+                                            return (
+                                                <g key={col.name}>
+                                                    <text x={10} y={y} fill={col.isPrimaryKey ? palette.pk : palette.fk} fontSize={10} fontWeight="bold">
+                                                        {col.isPrimaryKey ? 'PK' : col.isForeignKey ? 'FK' : ''}
+                                                    </text>
+                                                    <text x={34} y={y} fill={palette.text} fontWeight={col.isPrimaryKey ? 'bold' : 'normal'}>
+                                                        {col.name}{col.nullable ? '' : ' *'}
+                                                    </text>
+                                                    <text x={table.width - 10} y={y} fill={palette.muted} textAnchor="end" fontSize={11}>
+                                                        {col.type}
+                                                    </text>
+                                                </g>
+                                            );
+                                        })}
+                                        {table.hiddenColumns > 0 && (
+                                            <text x={34} y={HEADER_HEIGHT + table.columns.length * ROW_HEIGHT + ROW_HEIGHT / 2 + 4} fill={palette.muted} fontSize={11} fontStyle="italic">
+                                                {`+ ${table.hiddenColumns} more columns`}
+                                            </text>
+                                        )}
+                                    </g>
+                                ))}
+                            </g>
+                        </g>
+                        <defs>
+                            <marker id="er-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                                <path d="M 0 0 L 10 5 L 0 10 z" fill={palette.edge} />
+                            </marker>
+                            <marker id="er-arrow-active" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                                <path d="M 0 0 L 10 5 L 0 10 z" fill={palette.highlight} />
+                            </marker>
+                        </defs>
+                    </svg>
+                )}
+
+                {/* Legend */}
+                {!loading && diagram.tables.length > 0 && (
+                    <div className="absolute bottom-3 left-3 bg-card/90 border border-border rounded-lg px-3 py-2 text-xs text-muted-foreground flex items-center gap-4">
+                        <span className="flex items-center gap-1"><Key className="w-3 h-3" style={{ color: palette.pk }} /> Primary key</span>
+                        <span className="flex items-center gap-1"><Link2 className="w-3 h-3" style={{ color: palette.fk }} /> Foreign key</span>
+                        <span>* NOT NULL</span>
+                        <span>Arrows point at the referenced table</span>
+                    </div>
+                )}
+            </div>
+
+            {designerTable && (
+                <TableDesigner
+                    connectionId={connectionId}
+                    dbType={dbType}
+                    schema={schema}
+                    tableName={designerTable}
+                    onClose={() => setDesignerTable(null)}
+                    onSuccess={() => {
+                        setDesignerTable(null);
+                        loadDiagram();
+                    }}
+                />
+            )}
+        </div>
+    );
+}
+
+export default function ErDiagramPage() {
+    return (
+        <Suspense fallback={<div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>}>
+            <ErDiagramContent />
+        </Suspense>
+    );
+}
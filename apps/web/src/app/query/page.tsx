@@ -3,15 +3,17 @@
 import { getCurrentUser } from '@/lib/auth';
 
 import { useState, useEffect, useCallback, Suspense, useMemo, useRef } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useSearchParams, useRouter } from 'next/navigation';
 import Editor from '@monaco-editor/react';
 import { useTheme } from 'next-themes';
-import { Play, Save, Download, Clock, Table as TableIcon, Database, ChevronRight, ChevronDown, GitBranch, Plus as PlusIcon, FileCode, Wand2, FileSearch, FileStack, Upload, RefreshCw, Bug, X } from 'lucide-react';
+import { Play, Save, Download, Clock, Table as TableIcon, Database, ChevronRight, ChevronDown, GitBranch, Plus as PlusIcon, FileCode, Wand2, FileSearch, FileStack, Upload, RefreshCw, Bug, X, Square, Layers, Check, Undo2, Network, LineChart, KeyRound } from 'lucide-react';
 import Link from 'next/link';
 import { trackChange, parseQueryForChanges, getPendingChanges, generateRollbackSQL } from '@/lib/vcs-helper';
 import { extractTableName, getCurrentStatement } from '@/lib/sql-helper';
 import { formatSQL, getDialectFromDbType, getExplainPrefix } from '@/lib/sql-formatter';
 import { splitSQL } from '@/lib/sql-splitter';
+import { generateMongoCommand } from '@/lib/export-utils';
+import { SchemaCatalog, defaultSchemaFor, registerSqlLanguageSupport } from '@/lib/sql-language';
 import { saveTabs, loadTabs, createDefaultTabs, generateTabId } from '@/lib/query-storage';
 import QueryTabs, { QueryTab } from '@/components/QueryTabs';
 import DebuggerPanel from '@/components/DebuggerPanel';
@@ -23,21 +25,31 @@ import { TableContextMenu } from '@/components/TableContextMenu';
 import { QueryPlanViewer } from '@/components/QueryPlanViewer';
 import { ResultsToolbar } from '@/components/ResultsToolbar';
 import { DataEditor } from '@/components/DataEditor';
+import type { EditableSource } from '@/components/DataEditor';
 import { AIAssistantPanel } from '@/components/AIAssistantPanel';
 import { QueryHistory } from '@/components/QueryHistory';
 import { useToast } from '@/components/ToastProvider';
+import { QueryParamsModal } from '@/components/QueryParamsModal';
+import { TimeSeriesChart } from '@/components/TimeSeriesChart';
+import { findPlaceholders } from '@bosdb/core';
+import { isFileDatabase, isTimeSeriesDatabase } from '@/constants/database-types';
+import { TIME_RANGE_PRESETS, DEFAULT_TIME_RANGE_PRESET, resolveTimeRange, findTimeColumn, timeSeriesTableQuery } from '@/lib/time-series';
 
 // Define QueryResult interface
 interface QueryResult {
     success: boolean;
     rows: any[];
-    fields: { name: string; dataType: string }[];
+    fields: { name: string; dataType: string; tableID?: number; columnID?: number }[];
     columnNames: string[]; // Stable list of column names
     rowCount: number;
     executionTime: number;
     hasMore?: boolean;
+    cursor?: string; // Continuation token while more pages are available
     tableName?: string; // Table name for inline editing
     originalQuery?: string; // Original query for reference
+    params?: Record<string, unknown>; // Bound values of originalQuery
+    source?: EditableSource | null; // Table and row key for inline editing; null when not editable
+    sourceReason?: string; // Why the result is read-only
 }
 
 interface TableInfo {
@@ -46,6 +58,12 @@ interface TableInfo {
     rowCount?: number;
 }
 
+// Query languages where ':' and '$' mean something other than a bound parameter
+const NON_PARAMETERIZED_TYPES = ['mongodb', 'redis', 'elasticsearch', 'influxdb', 'prometheus'];
+
+// Query languages whose results never map back to an editable SQL table
+const NON_SQL_TYPES = [...NON_PARAMETERIZED_TYPES, 'neo4j'];
+
 // Comprehensive query syntax validation for all database types
 function validateQuerySyntax(query: string, dbType: string): string {
     const lowerQuery = query.toLowerCase();
@@ -108,26 +126,32 @@ function validateQuerySyntax(query: string, dbType: string): string {
     }
 
     if (dbType === 'mongodb') {
-        // MongoDB-specific validations
-        if (lowerQuery.includes('select') || lowerQuery.includes('insert') || lowerQuery.includes('create')) {
-            warnings.push('MongoDB uses JSON format, not SQL! Example: {"find": "collection", "filter": {}}');
-        }
-
-        // Check if valid JSON
-        try {
-            const parsed = JSON.parse(query);
-
-            // Validate MongoDB query structure
-            if (!parsed.find && !parsed.aggregate && !parsed.insert && !parsed.update && !parsed.delete) {
-                warnings.push('MongoDB query must have: find, aggregate, insert, update, or delete');
+        // MongoDB-specific validations; the adapter reports syntax errors with their position
+        if (/^\s*(select|insert|update|delete|create)\b/.test(lowerQuery)) {
+            warnings.push('MongoDB uses shell syntax, not SQL! Example: db.users.find({ age: { $gt: 18 } })');
+        } else if (/^\s*db\s*[.[]/.test(query)) {
+            // Legacy shell methods the editor doesn't run
+            const legacy = query.match(/\.(insert|update|remove|count|save)\s*\(/);
+            if (legacy) {
+                warnings.push(`${legacy[1]}() is not supported → Use insertOne/insertMany, updateOne/updateMany, deleteOne/deleteMany or countDocuments`);
             }
+        } else {
+            // JSON command format
+            try {
+                const parsed = JSON.parse(query);
 
-            // Check for common mistakes
-            if (parsed.find && !parsed.filter && Object.keys(parsed).length === 1) {
-                warnings.push('Tip: Add "filter" field for query conditions. Example: {"find": "users", "filter": {"age": {"$gt": 18}}}');
+                // Validate MongoDB query structure
+                if (!parsed.find && !parsed.aggregate && !parsed.insert && !parsed.update && !parsed.delete && !parsed.drop) {
+                    warnings.push('MongoDB query must have: find, aggregate, insert, update, delete or drop');
+                }
+
+                // Check for common mistakes
+                if (parsed.find && !parsed.filter && Object.keys(parsed).length === 1) {
+                    warnings.push('Tip: Add "filter" field for query conditions. Example: {"find": "users", "filter": {"age": {"$gt": 18}}}');
+                }
+            } catch (e) {
+                warnings.push('Invalid query! Use shell syntax, e.g. db.users.find({}), or a JSON command, e.g. {"find": "users"}');
             }
-        } catch (e) {
-            warnings.push('Invalid JSON format! MongoDB queries must be valid JSON');
         }
     }
 
@@ -142,7 +166,7 @@ function validateQuerySyntax(query: string, dbType: string): string {
             const parsed = JSON.parse(query);
 
             if (!parsed.command) {
-                warnings.push('Redis query must have "command" field. Example: {"command": "KEYS", "args": ["*"]}');
+                warnings.push('Redis query must have "command" field. Example: {"command": "SCAN", "args": ["0", "MATCH", "*"]}');
             }
         } catch (e) {
             warnings.push('Invalid JSON format! Redis queries must be valid JSON');
@@ -181,6 +205,7 @@ function validateQuerySyntax(query: string, dbType: string): string {
 
 function QueryPageContent() {
     const searchParams = useSearchParams();
+    const router = useRouter();
     const connectionId = searchParams?.get('connection');
     const { theme } = useTheme();
     const toast = useToast();
@@ -206,6 +231,7 @@ function QueryPageContent() {
     const [pendingChanges, setPendingChanges] = useState<number>(0);
     const [editorRef, setEditorRef] = useState<any>(null);
     const [showTableDesigner, setShowTableDesigner] = useState(false);
+    const [designerTable, setDesignerTable] = useState<{ schema: string; name: string } | null>(null);
     const [showSaveModal, setShowSaveModal] = useState(false);
     const [showExportModal, setShowExportModal] = useState(false);
     const [showImportModal, setShowImportModal] = useState(false);
@@ -233,7 +259,20 @@ function QueryPageContent() {
     const [resourceErrors, setResourceErrors] = useState<Map<string, string>>(new Map());
     const [history, setHistory] = useState<any[]>([]);
     const [showHistory, setShowHistory] = useState(false);
+    const [paramPrompt, setParamPrompt] = useState<{ query: string; names: string[] } | null>(null);
+    const [paramValues, setParamValues] = useState<Record<string, string>>({});
+    const [loadingMore, setLoadingMore] = useState(false);
+    // Window sent with InfluxDB and Prometheus queries, resolved to absolute times on each run
+    const [timeRangePreset, setTimeRangePreset] = useState(DEFAULT_TIME_RANGE_PRESET);
+    const [resultView, setResultView] = useState<'table' | 'chart'>('table');
+    const openCursorsRef = useRef<Set<string>>(new Set());
+    const [runningQueryId, setRunningQueryId] = useState<string | null>(null);
+    const stopRequestedRef = useRef(false);
+    const [transactionId, setTransactionId] = useState<string | null>(null);
+    const [transactionBusy, setTransactionBusy] = useState(false);
+    const transactionIdRef = useRef<string | null>(null);
     const [monacoInstance, setMonacoInstance] = useState<any>(null);
+    const catalogRef = useRef<SchemaCatalog | null>(null);
     const [debugSessionId, setDebugSessionId] = useState<string | null>(null);
     const [debugStatus, setDebugStatus] = useState<'stopped' | 'running' | 'paused'>('stopped');
     const [debugCurrentLine, setDebugCurrentLine] = useState<number | null>(null);
@@ -309,9 +348,9 @@ function QueryPageContent() {
     const addNewTab = useCallback(() => {
         let defaultQuery = '';
         if (connectionInfo?.type === 'mongodb') {
-            defaultQuery = '{\n    "find": "collection_name",\n    "limit": 10\n}';
+            defaultQuery = 'db.collection_name.find({}).limit(10)';
         } else if (connectionInfo?.type === 'redis') {
-            defaultQuery = '{\n    "command": "KEYS",\n    "args": ["*"]\n}';
+            defaultQuery = '{\n    "command": "SCAN",\n    "args": ["0", "MATCH", "*", "COUNT", "100"]\n}';
         }
 
         const newTab: QueryTab = {
@@ -387,6 +426,166 @@ function QueryPageContent() {
         return headers;
     };
 
+    // Streamed results hold a server-side cursor until their last page is read; release them early
+    const releaseCursors = useCallback(() => {
+        if (!connectionId) return;
+        openCursorsRef.current.forEach(cursor => {
+            fetch('/api/query', {
+                method: 'POST',
+                headers: getHeaders(),
+                body: JSON.stringify({ connectionId, cursor, closeCursor: true }),
+                keepalive: true,
+            }).catch(() => undefined);
+        });
+        openCursorsRef.current.clear();
+    }, [connectionId]);
+
+    useEffect(() => releaseCursors, [releaseCursors]);
+
+    // An open editor transaction holds locks; leaving the connection rolls it back
+    const abandonTransaction = useCallback(() => {
+        const open = transactionIdRef.current;
+        if (!connectionId || !open) return;
+        fetch('/api/query/transaction', {
+            method: 'POST',
+            headers: getHeaders(),
+            body: JSON.stringify({ connectionId, action: 'rollback', transactionId: open }),
+            keepalive: true,
+        }).catch(() => undefined);
+        transactionIdRef.current = null;
+        setTransactionId(null);
+    }, [connectionId]);
+
+    useEffect(() => abandonTransaction, [abandonTransaction]);
+
+    const loadMoreRows = async (index: number) => {
+        const current = results[index];
+        if (!current?.cursor || !connectionId) return;
+
+        setLoadingMore(true);
+        try {
+            const res = await fetch('/api/query', {
+                method: 'POST',
+                headers: getHeaders(),
+                body: JSON.stringify({ connectionId, cursor: current.cursor, maxRows: 1000 }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to load more rows');
+
+            if (!data.cursor) openCursorsRef.current.delete(current.cursor);
+            setResults(prev => {
+                const next = [...prev];
+                const rows = [...next[index].rows, ...data.rows];
+                next[index] = { ...next[index], rows, rowCount: rows.length, hasMore: data.hasMore, cursor: data.cursor };
+                return next;
+            });
+        } catch (err: any) {
+            // An expired cursor can't be resumed; the user has to re-run the query
+            openCursorsRef.current.delete(current.cursor);
+            setResults(prev => prev.map((r, i) => i === index ? { ...r, cursor: undefined } : r));
+            toast.error(err.message);
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    // Resolve the table and row key behind the visible result, so the grid knows whether it can edit
+    useEffect(() => {
+        const current = results[activeTab];
+        if (!connectionId || !current || current.source !== undefined || current.rows.length === 0) return;
+
+        const markSource = (source: EditableSource | null, sourceReason?: string) =>
+            setResults(prev => prev.map(r => r === current ? { ...r, source, sourceReason } : r));
+
+        if (!current.originalQuery || NON_SQL_TYPES.includes(connectionInfo?.type)) {
+            markSource(null, 'not a SQL table result');
+            return;
+        }
+
+        fetch('/api/data/source', {
+            method: 'POST',
+            headers: getHeaders(),
+            body: JSON.stringify({ connectionId, query: current.originalQuery, fields: current.fields }),
+        })
+            .then(res => res.json())
+            .then(data => data.editable ? markSource(data) : markSource(null, data.reason || data.error))
+            .catch(() => markSource(null, 'could not resolve the source table'));
+    }, [results, activeTab, connectionId, connectionInfo]);
+
+    // Cancel by ID on the server, so this also works after the run request itself has timed out
+    const stopQuery = async () => {
+        if (!runningQueryId) return;
+        stopRequestedRef.current = true;
+
+        try {
+            const res = await fetch(`/api/query/${runningQueryId}`, { method: 'DELETE', headers: getHeaders() });
+            const data = await res.json();
+
+            if (res.ok) {
+                toast.info('Cancellation requested');
+                // A run whose request already failed has nothing left to clear the ID
+                if (!executing) setRunningQueryId(null);
+            } else if (res.status === 404) {
+                setRunningQueryId(null);
+                toast.info('Query already finished');
+            } else {
+                toast.error(data.error || 'Failed to cancel query');
+            }
+        } catch (err: any) {
+            toast.error(err.message);
+        }
+    };
+
+    // Transaction mode: statements run on one pinned session until Commit or Rollback
+    const beginTransaction = async () => {
+        if (!connectionId) return;
+        setTransactionBusy(true);
+        try {
+            const res = await fetch('/api/query/transaction', {
+                method: 'POST',
+                headers: getHeaders(),
+                body: JSON.stringify({ connectionId, action: 'begin' }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to start transaction');
+
+            transactionIdRef.current = data.transactionId;
+            setTransactionId(data.transactionId);
+            toast.info('Transaction started - changes are only visible to this session until you commit');
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setTransactionBusy(false);
+        }
+    };
+
+    const endTransaction = async (action: 'commit' | 'rollback') => {
+        if (!connectionId || !transactionId) return;
+        setTransactionBusy(true);
+        try {
+            const res = await fetch('/api/query/transaction', {
+                method: 'POST',
+                headers: getHeaders(),
+                body: JSON.stringify({ connectionId, action, transactionId }),
+            });
+            const data = await res.json();
+
+            // 404: the server already rolled it back (idle timeout or disconnect)
+            if (res.ok || res.status === 404) {
+                transactionIdRef.current = null;
+                setTransactionId(null);
+            }
+            if (!res.ok) throw new Error(data.error || `Failed to ${action} transaction`);
+
+            toast.success(action === 'commit' ? 'Transaction committed' : 'Transaction rolled back');
+            await loadPendingChanges();
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setTransactionBusy(false);
+        }
+    };
+
     const handleRefresh = async () => {
         setSchemas([]);
         setSchemaTables(new Map());
@@ -395,6 +594,7 @@ function QueryPageContent() {
         setLoadingResources(new Map());
         setResourceErrors(new Map());
         setResourceErrors(new Map());
+        catalogRef.current?.clear();
         await fetchSchemas();
         await loadPendingChanges();
         await fetchHistory();
@@ -463,18 +663,19 @@ function QueryPageContent() {
             // 1. Fetch Definition
             let definitionQuery = '';
             let paramQuery = '';
+            const routineParams = { name: procedureName, schema: schemaName };
 
             const isPostgres = connectionInfo.type === 'postgresql' || connectionInfo.type === 'postgres';
 
             if (isPostgres) {
-                definitionQuery = `SELECT routine_definition, external_language FROM information_schema.routines WHERE routine_name = '${procedureName}' AND routine_schema = '${schemaName}';`;
+                definitionQuery = `SELECT routine_definition, external_language FROM information_schema.routines WHERE routine_name = :name AND routine_schema = :schema;`;
                 // Fetch parameters to generate a call template
                 paramQuery = `
                     SELECT parameter_name, data_type, parameter_mode, ordinal_position
                     FROM information_schema.parameters
                     WHERE specific_name = (
                         SELECT specific_name FROM information_schema.routines 
-                        WHERE routine_name = '${procedureName}' AND routine_schema = '${schemaName}'
+                        WHERE routine_name = :name AND routine_schema = :schema
                         LIMIT 1
                     )
                     ORDER BY ordinal_position;
@@ -484,7 +685,7 @@ function QueryPageContent() {
                 paramQuery = `
                     SELECT parameter_name, data_type, parameter_mode
                     FROM information_schema.parameters
-                    WHERE specific_name = '${procedureName}' AND specific_schema = '${schemaName}'
+                    WHERE specific_name = :name AND specific_schema = :schema
                     ORDER BY ordinal_position;
                 `;
             } else {
@@ -495,7 +696,12 @@ function QueryPageContent() {
             const resDef = await fetch('/api/query', {
                 method: 'POST',
                 headers: getHeaders(),
-                body: JSON.stringify({ connectionId, query: definitionQuery, timeout: 20000 }),
+                body: JSON.stringify({
+                    connectionId,
+                    query: definitionQuery,
+                    params: isPostgres ? routineParams : undefined,
+                    timeout: 20000,
+                }),
             });
             const dataDef = await resDef.json();
             if (!resDef.ok) throw new Error(dataDef.error || 'Failed to fetch procedure definition');
@@ -524,7 +730,7 @@ function QueryPageContent() {
                     const resParams = await fetch('/api/query', {
                         method: 'POST',
                         headers: getHeaders(),
-                        body: JSON.stringify({ connectionId, query: paramQuery, timeout: 5000 }),
+                        body: JSON.stringify({ connectionId, query: paramQuery, params: routineParams, timeout: 5000 }),
                     });
                     const dataParams = await resParams.json();
 
@@ -603,6 +809,12 @@ function QueryPageContent() {
         setShowExportModal(true);
     }, [activeTab]);
 
+    // Results with a timestamp column can also be shown as a chart
+    const activeTimeColumn = useMemo(() => {
+        const current = results[activeTab];
+        return current ? findTimeColumn(current.columnNames, current.rows) : null;
+    }, [results, activeTab]);
+
 
 
     // Monaco decorations for breakpoints and current line
@@ -663,50 +875,24 @@ function QueryPageContent() {
         }
     }, [connectionId]);
 
-    // Register Autocomplete
+    // Schema-aware completions, hovers and diagnostics for the editor
     useEffect(() => {
-        if (!monacoInstance || schemas.length === 0) return;
-
-        const tableNames = Array.from(schemaTables.values()).flat().map(t => t.name);
-        const schemaNames = schemas.map(s => s.name);
-
-        const provider = monacoInstance.languages.registerCompletionItemProvider('sql', {
-            provideCompletionItems: (model: any, position: any) => {
-                const word = model.getWordUntilPosition(position);
-                const range = {
-                    startLineNumber: position.lineNumber,
-                    endLineNumber: position.lineNumber,
-                    startColumn: word.startColumn,
-                    endColumn: word.endColumn,
-                };
+        if (!monacoInstance || !editorRef || !connectionId || !connectionInfo) return;
 
-                const suggestions = [
-                    ...['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'FROM', 'WHERE', 'AND', 'OR', 'ORDER BY', 'GROUP BY', 'LIMIT', 'JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'INNER JOIN', 'ON', 'AS', 'IN', 'IS', 'NULL', 'NOT', 'EXISTS', 'CREATE', 'TABLE', 'DROP', 'ALTER', 'TRUNCATE'].map(k => ({
-                        label: k,
-                        kind: monacoInstance.languages.CompletionItemKind.Keyword,
-                        insertText: k,
-                        range: range,
-                    })),
-                    ...schemaNames.map(s => ({
-                        label: s,
-                        kind: monacoInstance.languages.CompletionItemKind.Module,
-                        insertText: s,
-                        range: range,
-                    })),
-                    ...tableNames.map(t => ({
-                        label: t,
-                        kind: monacoInstance.languages.CompletionItemKind.Class,
-                        insertText: t,
-                        range: range,
-                    })),
-                ];
-
-                return { suggestions };
-            },
-        });
+        const catalog = new SchemaCatalog(connectionId, connectionInfo.type, getHeaders, defaultSchemaFor(connectionInfo));
+        catalogRef.current = catalog;
+        const support = registerSqlLanguageSupport(monacoInstance, editorRef, catalog);
 
-        return () => provider.dispose();
-    }, [monacoInstance, schemas, schemaTables]);
+        return () => {
+            support.dispose();
+            if (catalogRef.current === catalog) catalogRef.current = null;
+        };
+    }, [monacoInstance, editorRef, connectionId, connectionInfo]);
+
+    // Share what the sidebar has loaded with the editor
+    useEffect(() => {
+        catalogRef.current?.seed(schemas, schemaTables, schemaProcedures);
+    }, [schemas, schemaTables, schemaProcedures]);
 
     const loadPendingChanges = async () => {
         if (!connectionId) return;
@@ -814,7 +1000,8 @@ function QueryPageContent() {
         setExpandedSchemas(newExpanded);
     };
 
-    const executeQuery = useCallback(async (customQuery?: string, debugMode: boolean = false) => {
+    // params: undefined prompts for any :name / $1 placeholders, null runs the text as written
+    const executeQuery = useCallback(async (customQuery?: string, debugMode: boolean = false, params?: Record<string, unknown> | null) => {
         if (!connectionId) return;
 
         // Debug Mode Check at start
@@ -871,10 +1058,22 @@ function QueryPageContent() {
 
         if (!rawQuery) return;
 
+        // Cypher binds $name natively; ':' there is a label, not a placeholder
+        const placeholderLanguage = connectionInfo?.type === 'neo4j' ? 'cypher' : 'sql';
+        if (params === undefined && !NON_PARAMETERIZED_TYPES.includes(connectionInfo?.type)) {
+            const names = Array.from(new Set(findPlaceholders(rawQuery, placeholderLanguage).map(p => p.name)));
+            if (names.length > 0) {
+                setParamPrompt({ query: rawQuery, names });
+                return;
+            }
+        }
+
         setExecuting(true);
         setError('');
         setWarning('');
         setResults([]);
+        releaseCursors();
+        stopRequestedRef.current = false;
 
         const queries = splitSQL(rawQuery);
 
@@ -888,6 +1087,8 @@ function QueryPageContent() {
 
         try {
             for (const q of queries) {
+                const statementParams = params && findPlaceholders(q, placeholderLanguage).length > 0 ? params : undefined;
+
                 // Validate syntax (only show for the first one for brevity, or combine)
                 if (connectionInfo) {
                     const syntaxWarning = validateQuerySyntax(q, connectionInfo.type);
@@ -899,7 +1100,7 @@ function QueryPageContent() {
 
                 // Capture Metadata for Rollback (Row Snapshots & Schema)
                 const isDrop = qUpper.startsWith('DROP TABLE') ||
-                    (connectionInfo?.type === 'mongodb' && q.includes('"drop"')) ||
+                    (connectionInfo?.type === 'mongodb' && (q.includes('"drop"') || /\.drop\(\s*\)/.test(q))) ||
                     (connectionInfo?.type === 'redis' && q.toUpperCase().includes('"DEL"'));
 
                 if (qUpper.startsWith('DELETE FROM') || qUpper.startsWith('UPDATE') || isDrop) {
@@ -909,7 +1110,7 @@ function QueryPageContent() {
                         // Handle NoSQL matches if SQL regex fails
                         if (!tableNameMatch && isDrop) {
                             if (connectionInfo?.type === 'mongodb') {
-                                const mMatch = q.match(/"drop"\s*:\s*"([^"]+)"/);
+                                const mMatch = q.match(/"drop"\s*:\s*"([^"]+)"/) || q.match(/^\s*db\.(\w+)\.drop\(/);
                                 if (mMatch) tableNameMatch = [mMatch[0], '', mMatch[1]];
                             } else if (connectionInfo?.type === 'redis') {
                                 const rMatch = q.match(/"args"\s*:\s*\[\s*"([^"]+)"/);
@@ -954,6 +1155,7 @@ function QueryPageContent() {
                                     body: JSON.stringify({
                                         connectionId,
                                         query: connectionInfo?.type === 'mongodb' ? q : `SELECT * FROM ${fullTableName} ${whereClause}`,
+                                        params: statementParams,
                                         timeout: 10000,
                                         maxRows: 1000
                                     }),
@@ -975,16 +1177,35 @@ function QueryPageContent() {
                     }
                 }
 
-                const res = await fetch('/api/query', {
-                    method: 'POST',
-                    headers: getHeaders(),
-                    body: JSON.stringify({
-                        connectionId,
-                        query: q,
-                        timeout: 30000,
-                        maxRows: 1000,
-                    }),
-                });
+                // Remaining statements are skipped once Stop was pressed
+                if (stopRequestedRef.current) break;
+
+                const queryId = crypto.randomUUID();
+                setRunningQueryId(queryId);
+
+                let res: Response;
+                try {
+                    res = await fetch('/api/query', {
+                        method: 'POST',
+                        headers: getHeaders(),
+                        body: JSON.stringify({
+                            connectionId,
+                            query: q,
+                            params: statementParams,
+                            queryId,
+                            transactionId,
+                            timeout: 30000,
+                            maxRows: 1000,
+                            stream: true,
+                            timeRange: isTimeSeriesDatabase(connectionInfo?.type) ? resolveTimeRange(timeRangePreset) : undefined,
+                        }),
+                    });
+                } catch (fetchErr: any) {
+                    // No response doesn't mean the database stopped; keep the ID so Stop still reaches it
+                    finalError = `${fetchErr.message}. The query may still be running on the server - use Stop to cancel it.`;
+                    break;
+                }
+                setRunningQueryId(null);
 
                 const data = await res.json();
                 if (!res.ok) {
@@ -1000,8 +1221,10 @@ function QueryPageContent() {
                     ...data,
                     columnNames: data.fields?.map((f: any) => f.name) || [],
                     tableName: tableNameFromQuery || undefined,
-                    originalQuery: q
+                    originalQuery: q,
+                    params: statementParams
                 };
+                if (data.cursor) openCursorsRef.current.add(data.cursor);
                 allResults.push(resultWithColumns);
 
                 // Track database changes for version control
@@ -1060,7 +1283,7 @@ function QueryPageContent() {
         } finally {
             setExecuting(false);
         }
-    }, [connectionId, query, editorRef, connectionInfo]);
+    }, [connectionId, query, editorRef, connectionInfo, releaseCursors, transactionId, timeRangePreset]);
 
     const executeByCursor = useCallback(async () => {
         if (!editorRef || !connectionId) return;
@@ -1095,7 +1318,7 @@ function QueryPageContent() {
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [executeQuery]);
+    }, [executeQuery, executeByCursor]);
 
 
 
@@ -1196,9 +1419,11 @@ function QueryPageContent() {
                                 <div className="font-medium truncate text-foreground" title={connectionInfo.name}>
                                     {connectionInfo.name}
                                 </div>
-                                <div className="text-muted-foreground truncate font-mono mt-1 flex items-center gap-1" title={`${connectionInfo.host}:${connectionInfo.port}`}>
+                                <div className="text-muted-foreground truncate font-mono mt-1 flex items-center gap-1" title={isFileDatabase(connectionInfo.type) ? connectionInfo.database : `${connectionInfo.host}:${connectionInfo.port}`}>
                                     <Database className="w-3 h-3" />
-                                    {connectionInfo.host}:{connectionInfo.port}
+                                    {isFileDatabase(connectionInfo.type)
+                                        ? connectionInfo.database || ':memory:'
+                                        : `${connectionInfo.host}:${connectionInfo.port}`}
                                 </div>
                             </div>
                         )}
@@ -1227,7 +1452,41 @@ function QueryPageContent() {
 
                                         {expandedSchemas.has(schema.name) && (
                                             <div className="ml-6 mt-1 space-y-0.5">
-                                                <div className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider mb-1 mt-2">Tables</div>
+                                                <div className="flex items-center justify-between mb-1 mt-2">
+                                                    <div className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider">{connectionInfo?.type === 'redis' ? 'Keys' : 'Tables'}</div>
+                                                    {connectionInfo?.type === 'redis' ? (
+                                                        <Link
+                                                            href={`/redis?connection=${connectionId}&db=${encodeURIComponent(schema.name)}`}
+                                                            className="flex items-center gap-1 text-[10px] text-primary hover:underline"
+                                                            title="Browse keys by namespace and view or edit their values"
+                                                        >
+                                                            <KeyRound className="w-3 h-3" />
+                                                            Key Browser
+                                                        </Link>
+                                                    ) : (
+                                                        <div className="flex items-center gap-2">
+                                                            <button
+                                                                onClick={() => {
+                                                                    setImportTable({ name: '', schema: schema.name });
+                                                                    setShowImportModal(true);
+                                                                }}
+                                                                className="flex items-center gap-1 text-[10px] text-primary hover:underline"
+                                                                title="Create a table from a CSV, JSON, Excel or Parquet file"
+                                                            >
+                                                                <Upload className="w-3 h-3" />
+                                                                Import
+                                                            </button>
+                                                            <Link
+                                                                href={`/er-diagram?connection=${connectionId}&schema=${encodeURIComponent(schema.name)}`}
+                                                                className="flex items-center gap-1 text-[10px] text-primary hover:underline"
+                                                                title="Relationships between the tables of this schema"
+                                                            >
+                                                                <Network className="w-3 h-3" />
+                                                                ER Diagram
+                                                            </Link>
+                                                        </div>
+                                                    )}
+                                                </div>
 
                                                 {loadingResources.get(schema.name)?.tables ? (
                                                     <div className="px-2 py-1 text-xs text-muted-foreground">Loading tables...</div>
@@ -1239,7 +1498,13 @@ function QueryPageContent() {
                                                     schemaTables.get(schema.name)?.map((table) => (
                                                         <button
                                                             key={table.name}
-                                                            onClick={() => setQuery(`SELECT * FROM ${schema.name}.${table.name} LIMIT 100;`)}
+                                                            onClick={() => connectionInfo?.type === 'redis'
+                                                                ? router.push(`/redis?connection=${connectionId}&db=${encodeURIComponent(schema.name)}&key=${encodeURIComponent(table.name)}`)
+                                                                : setQuery(isTimeSeriesDatabase(connectionInfo?.type)
+                                                                ? timeSeriesTableQuery(connectionInfo.type, schema.name, table.name)
+                                                                : connectionInfo?.type === 'mongodb'
+                                                                ? generateMongoCommand(table.name, 'find', [], 100)
+                                                                : `SELECT * FROM ${schema.name}.${table.name} LIMIT 100;`)}
                                                             onContextMenu={(e) => handleTableContextMenu(e, table.name, schema.name)}
                                                             className="w-full flex items-center gap-1 px-2 py-1 hover:bg-accent rounded transition text-left"
                                                             title={`Click to query, right-click for options`}
@@ -1308,7 +1573,9 @@ function QueryPageContent() {
                                     Type: <span className="font-mono bg-background px-2 py-0.5 rounded">{connectionInfo.type.toUpperCase()}</span>
                                 </div>
                                 <div className="text-sm text-muted-foreground">
-                                    {connectionInfo.host}:{connectionInfo.port}/{connectionInfo.database}
+                                    {isFileDatabase(connectionInfo.type)
+                                        ? connectionInfo.database || ':memory:'
+                                        : `${connectionInfo.host}:${connectionInfo.port}/${connectionInfo.database}`}
                                 </div>
                             </div>
                         </div>
@@ -1337,6 +1604,30 @@ function QueryPageContent() {
                             {executing ? 'Executing...' : 'Run'}
                         </button>
 
+                        {runningQueryId && (
+                            <button
+                                onClick={stopQuery}
+                                className="px-3 py-2 bg-destructive text-destructive-foreground rounded-lg hover:bg-destructive/90 transition flex items-center gap-2"
+                                title="Cancel the running statement on the database"
+                            >
+                                <Square className="w-4 h-4" />
+                                Stop
+                            </button>
+                        )}
+
+                        {isTimeSeriesDatabase(connectionInfo?.type) && (
+                            <select
+                                value={timeRangePreset}
+                                onChange={(e) => setTimeRangePreset(e.target.value)}
+                                className="px-3 py-2 border border-border rounded-lg bg-background text-sm"
+                                title="Time range of the query (v.timeRangeStart / v.timeRangeStop in Flux, $timeFilter in InfluxQL)"
+                            >
+                                {TIME_RANGE_PRESETS.map((preset) => (
+                                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                                ))}
+                            </select>
+                        )}
+
                         <button
                             onClick={() => executeQuery(undefined, true)}
                             disabled={executing || !query.trim()}
@@ -1347,6 +1638,44 @@ function QueryPageContent() {
                             Debug
                         </button>
 
+                        {/* Databases without transactions answer begin with an error toast */}
+                        {connectionInfo ? (
+                            transactionId ? (
+                                <div className="flex items-center gap-1 pl-2 pr-1 py-1 border border-amber-500/50 bg-amber-500/10 rounded-lg">
+                                    <Layers className="w-4 h-4 text-amber-500" />
+                                    <span className="text-xs font-medium text-amber-600 dark:text-amber-400 mr-1">Transaction open</span>
+                                    <button
+                                        onClick={() => endTransaction('commit')}
+                                        disabled={executing || transactionBusy}
+                                        className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 transition disabled:opacity-50 flex items-center gap-1"
+                                        title="Make the changes of this transaction permanent"
+                                    >
+                                        <Check className="w-3 h-3" />
+                                        Commit
+                                    </button>
+                                    <button
+                                        onClick={() => endTransaction('rollback')}
+                                        disabled={executing || transactionBusy}
+                                        className="px-2 py-1 text-xs border border-border rounded hover:bg-accent transition disabled:opacity-50 flex items-center gap-1"
+                                        title="Discard every change made since the transaction started"
+                                    >
+                                        <Undo2 className="w-3 h-3" />
+                                        Rollback
+                                    </button>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={beginTransaction}
+                                    disabled={executing || transactionBusy || connectionInfo.readOnly}
+                                    className="px-3 py-2 border border-border rounded-lg hover:bg-accent transition disabled:opacity-50 flex items-center gap-2"
+                                    title="Run the next statements in one transaction and commit or roll them back together"
+                                >
+                                    <Layers className="w-4 h-4" />
+                                    Transaction
+                                </button>
+                            )
+                        ) : null}
+
                         <div className="w-px h-6 bg-border" />
 
                         <button
@@ -1482,10 +1811,40 @@ function QueryPageContent() {
                             <div className="animate-fadeIn">
                                 <div className="flex items-center justify-between mb-4">
                                     <div className="text-sm font-semibold bg-primary/10 text-primary px-3 py-1 rounded-full border border-primary/20">
-                                        Result Set #{activeTab + 1} ({results[activeTab].rowCount} rows)
+                                        Result Set #{activeTab + 1} ({results[activeTab].rowCount} rows{results[activeTab].hasMore ? ', more available' : ''})
                                     </div>
-                                    <div className="text-xs text-muted-foreground">
-                                        Executed in {results[activeTab].executionTime}ms
+                                    <div className="flex items-center gap-3">
+                                        {activeTimeColumn && (
+                                            <div className="flex border border-border rounded overflow-hidden text-xs">
+                                                <button
+                                                    onClick={() => setResultView('table')}
+                                                    className={`px-2 py-1 flex items-center gap-1 ${resultView === 'table' ? 'bg-accent' : 'hover:bg-accent/50'}`}
+                                                >
+                                                    <TableIcon className="w-3 h-3" />
+                                                    Table
+                                                </button>
+                                                <button
+                                                    onClick={() => setResultView('chart')}
+                                                    className={`px-2 py-1 flex items-center gap-1 border-l border-border ${resultView === 'chart' ? 'bg-accent' : 'hover:bg-accent/50'}`}
+                                                    title={`Plot numeric columns over ${activeTimeColumn}`}
+                                                >
+                                                    <LineChart className="w-3 h-3" />
+                                                    Chart
+                                                </button>
+                                            </div>
+                                        )}
+                                        {results[activeTab].cursor && (
+                                            <button
+                                                onClick={() => loadMoreRows(activeTab)}
+                                                disabled={loadingMore}
+                                                className="px-3 py-1 text-xs border border-border rounded hover:bg-accent transition disabled:opacity-50"
+                                            >
+                                                {loadingMore ? 'Loading...' : 'Load next 1000 rows'}
+                                            </button>
+                                        )}
+                                        <div className="text-xs text-muted-foreground">
+                                            Executed in {results[activeTab].executionTime}ms
+                                        </div>
                                     </div>
                                 </div>
 
@@ -1493,6 +1852,14 @@ function QueryPageContent() {
                                     <div className="text-center py-8 text-muted-foreground border border-dashed border-border rounded-lg">
                                         Query executed successfully but returned no rows
                                     </div>
+                                ) : activeTimeColumn && resultView === 'chart' ? (
+                                    <div className="border border-border rounded-lg overflow-hidden h-[440px]">
+                                        <TimeSeriesChart
+                                            rows={results[activeTab].rows}
+                                            columns={results[activeTab].columnNames}
+                                            timeColumn={activeTimeColumn}
+                                        />
+                                    </div>
                                 ) : (
                                     <div className="border border-border rounded-lg overflow-hidden">
                                         <ResultsToolbar
@@ -1503,64 +1870,60 @@ function QueryPageContent() {
                                         />
                                         <div className="h-[400px]">
                                             <DataEditor
+                                                key={activeTab}
                                                 rows={filteredResults.get(activeTab) || results[activeTab].rows}
                                                 fields={results[activeTab].fields}
-                                                onSave={async (updates) => {
-                                                    // Get table name from result set
-                                                    const tableName = results[activeTab].tableName;
-                                                    if (!tableName) {
-                                                        toast.error('Cannot edit: Unable to determine table name from query. Only simple SELECT queries support inline editing.');
-                                                        return;
-                                                    }
-
-                                                    // Execute UPDATE queries for each row
-                                                    for (const update of updates) {
-                                                        const setClauses = Object.entries(update.changes)
-                                                            .map(([col, val]) => {
-                                                                if (val === null) return `${col} = NULL`;
-                                                                if (typeof val === 'string') return `${col} = '${val.replace(/'/g, "''")}'`;
-                                                                if (typeof val === 'boolean') return `${col} = ${val}`;
-                                                                return `${col} = ${val}`;
-                                                            })
-                                                            .join(', ');
-
-                                                        const whereClauses = Object.entries(update.primaryKey)
-                                                            .map(([col, val]) => {
-                                                                if (val === null) return `${col} IS NULL`;
-                                                                if (typeof val === 'string') return `${col} = '${val.replace(/'/g, "''")}'`;
-                                                                return `${col} = ${val}`;
-                                                            })
-                                                            .join(' AND ');
-
-                                                        const updateQuery = `UPDATE ${tableName} SET ${setClauses} WHERE ${whereClauses}`;
-
-                                                        const res = await fetch('/api/query', {
-                                                            method: 'POST',
-                                                            headers: getHeaders(),
-                                                            body: JSON.stringify({
-                                                                connectionId,
-                                                                query: updateQuery,
-                                                                timeout: 30000
-                                                            })
-                                                        });
-
-                                                        if (!res.ok) {
-                                                            const errData = await res.json();
-                                                            throw new Error(errData.error || 'Update failed');
-                                                        }
+                                                source={results[activeTab].source}
+                                                readOnlyReason={results[activeTab].sourceReason}
+                                                readOnly={connectionInfo?.readOnly}
+                                                onSave={async (changes) => {
+                                                    const source = results[activeTab].source;
+                                                    if (!source) return;
+
+                                                    // One request, one transaction: the whole save applies or none of it
+                                                    const res = await fetch('/api/data/update', {
+                                                        method: 'POST',
+                                                        headers: getHeaders(),
+                                                        body: JSON.stringify({
+                                                            connectionId,
+                                                            schema: source.schema,
+                                                            table: source.table,
+                                                            keyColumns: source.keyColumns,
+                                                            ...changes,
+                                                            transactionId
+                                                        })
+                                                    });
+
+                                                    if (!res.ok) {
+                                                        const errData = await res.json();
+                                                        throw new Error(errData.error || 'Save failed');
                                                     }
+                                                    await loadPendingChanges();
 
                                                     // Refresh the current result set - re-run the original query
                                                     const originalQuery = results[activeTab].originalQuery;
                                                     if (originalQuery) {
+                                                        const previousCursor = results[activeTab].cursor;
+                                                        if (previousCursor) {
+                                                            openCursorsRef.current.delete(previousCursor);
+                                                            fetch('/api/query', {
+                                                                method: 'POST',
+                                                                headers: getHeaders(),
+                                                                body: JSON.stringify({ connectionId, cursor: previousCursor, closeCursor: true })
+                                                            }).catch(() => undefined);
+                                                        }
+
                                                         const refreshRes = await fetch('/api/query', {
                                                             method: 'POST',
                                                             headers: getHeaders(),
                                                             body: JSON.stringify({
                                                                 connectionId,
                                                                 query: originalQuery,
+                                                                params: results[activeTab].params,
+                                                                transactionId,
                                                                 timeout: 30000,
-                                                                maxRows: 1000
+                                                                maxRows: 1000,
+                                                                stream: true
                                                             })
                                                         });
 
@@ -1570,8 +1933,12 @@ function QueryPageContent() {
                                                                 ...refreshData,
                                                                 columnNames: refreshData.fields?.map((f: any) => f.name) || [],
                                                                 tableName: results[activeTab].tableName,
-                                                                originalQuery: originalQuery
+                                                                originalQuery: originalQuery,
+                                                                params: results[activeTab].params,
+                                                                source: results[activeTab].source,
+                                                                sourceReason: results[activeTab].sourceReason
                                                             };
+                                                            if (refreshData.cursor) openCursorsRef.current.add(refreshData.cursor);
 
                                                             setResults(prev => {
                                                                 const newResults = [...prev];
@@ -1636,14 +2003,38 @@ function QueryPageContent() {
                 showTableDesigner && connectionId && (
                     <TableDesigner
                         connectionId={connectionId}
-                        onClose={() => setShowTableDesigner(false)}
+                        dbType={connectionInfo?.type}
+                        schema={designerTable?.schema}
+                        tableName={designerTable?.name}
+                        onClose={() => {
+                            setShowTableDesigner(false);
+                            setDesignerTable(null);
+                        }}
                         onSuccess={() => {
                             setShowTableDesigner(false);
-                            fetchSchemas(); // Refresh schema list
+                            setDesignerTable(null);
+                            handleRefresh(); // Refresh schema list, cached table metadata and pending changes
                         }}
                     />
                 )
             }
+            {/* Query Parameters Modal */}
+            {
+                paramPrompt && (
+                    <QueryParamsModal
+                        query={paramPrompt.query}
+                        names={paramPrompt.names}
+                        initialValues={paramValues}
+                        onClose={() => setParamPrompt(null)}
+                        onRun={(params, rawValues) => {
+                            setParamValues(prev => ({ ...prev, ...rawValues }));
+                            setParamPrompt(null);
+                            executeQuery(paramPrompt.query, false, params);
+                        }}
+                    />
+                )
+            }
+
             {/* Save Query Modal */}
             {
                 showSaveModal && connectionId && (
@@ -1663,6 +2054,10 @@ function QueryPageContent() {
                         data={filteredResults.get(exportingIndex) || results[exportingIndex].rows}
                         columns={results[exportingIndex].columnNames}
                         tableName={`query-result-${exportingIndex + 1}-${Date.now()}`}
+                        connectionId={connectionId || undefined}
+                        query={results[exportingIndex].originalQuery}
+                        params={results[exportingIndex].params}
+                        sourceTable={results[exportingIndex].tableName}
                         onClose={() => setShowExportModal(false)}
                     />
                 )
@@ -1672,16 +2067,15 @@ function QueryPageContent() {
             {
                 showImportModal && importTable && connectionId && (
                     <ImportModal
-                        tableName={`${importTable.schema}.${importTable.name}`}
                         connectionId={connectionId}
+                        dbType={connectionInfo?.type}
+                        schema={importTable.schema}
+                        tableName={importTable.name || undefined}
                         onClose={() => {
                             setShowImportModal(false);
                             setImportTable(null);
                         }}
-                        onSuccess={() => {
-                            setShowImportModal(false);
-                            setImportTable(null);
-                        }}
+                        onSuccess={handleRefresh}
                     />
                 )
             }
@@ -1708,6 +2102,7 @@ function QueryPageContent() {
                         y={contextMenu.y}
                         tableName={contextMenu.tableName}
                         schemaName={contextMenu.schemaName}
+                        dbType={connectionInfo?.type}
                         onClose={() => setContextMenu(null)}
                         onSelectQuery={(sql) => setQuery(sql)}
                         onImport={() => {
@@ -1715,6 +2110,13 @@ function QueryPageContent() {
                             setShowImportModal(true);
                             setContextMenu(null);
                         }}
+                        onViewHistory={() => router.push(`/version-control?connection=${connectionId}&table=${encodeURIComponent(contextMenu.tableName)}`)}
+                        onAlterTable={() => {
+                            setDesignerTable({ schema: contextMenu.schemaName, name: contextMenu.tableName });
+                            setShowTableDesigner(true);
+                        }}
+                        onShowDiagram={() => router.push(`/er-diagram?connection=${connectionId}&schema=${encodeURIComponent(contextMenu.schemaName)}&table=${encodeURIComponent(contextMenu.tableName)}`)}
+                        onCompareData={() => router.push(`/data-compare?left=${connectionId}&leftSchema=${encodeURIComponent(contextMenu.schemaName)}&leftTable=${encodeURIComponent(contextMenu.tableName)}`)}
                     />
                 )
             }
@@ -0,0 +1,505 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback, Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, ChevronDown, ChevronRight, Folder, KeyRound, Loader2, Plus, RefreshCw, Search, X } from 'lucide-react';
+import type { RedisKeyChange, RedisKeySummary } from '@bosdb/core';
+import { buildKeyTree, formatTTL, REDIS_TYPES } from '@/lib/redis-keys';
+import type { KeyTreeNode } from '@/lib/redis-keys';
+import { getCurrentUser } from '@/lib/auth';
+import { KeyValueViewer } from '@/components/redis/KeyValueViewer';
+import { useToast } from '@/components/ToastProvider';
+
+// Keys fetched per SCAN page
+const PAGE_SIZE = 500;
+
+function getHeaders(): HeadersInit {
+    const currentUser = getCurrentUser();
+    const headers: HeadersInit = {};
+    if (currentUser?.email) headers['x-user-email'] = currentUser.email;
+    if (currentUser?.organizationId) headers['x-org-id'] = currentUser.organizationId;
+    return headers;
+}
+
+function RedisBrowserContent() {
+    const searchParams = useSearchParams();
+    const router = useRouter();
+    const connectionId = searchParams?.get('connection');
+    const selectedKey = searchParams?.get('key') ?? null;
+    const toast = useToast();
+
+    const [connection, setConnection] = useState<any>(undefined); // undefined while loading
+    const [databases, setDatabases] = useState<{ name: string; tableCount?: number }[]>([]);
+    const [keys, setKeys] = useState<RedisKeySummary[]>([]);
+    const [cursor, setCursor] = useState('0');
+    const [scanning, setScanning] = useState(false);
+    const [scanError, setScanError] = useState('');
+    const [patternInput, setPatternInput] = useState('*');
+    const [pattern, setPattern] = useState('*');
+    const [typeFilter, setTypeFilter] = useState('');
+    const [separator, setSeparator] = useState(':');
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [showNewKey, setShowNewKey] = useState(false);
+
+    // The connection's own database unless another one was picked
+    const db = searchParams?.get('db') || `db${parseInt(connection?.database || '0', 10) || 0}`;
+    // Without a db in the URL, scanning waits for the connection's own database
+    const ready = !!searchParams?.get('db') || connection !== undefined;
+
+    const navigate = useCallback((params: { db?: string; key?: string | null }) => {
+        const next = new URLSearchParams({ connection: connectionId || '', db: params.db ?? db });
+        const key = params.key === undefined ? selectedKey : params.key;
+        if (key !== null) next.set('key', key);
+        router.replace(`/redis?${next}`);
+    }, [router, connectionId, db, selectedKey]);
+
+    useEffect(() => {
+        if (!connectionId) return;
+        fetch('/api/connections', { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setConnection(data.connections?.find((c: any) => c.id === connectionId) || null))
+            .catch(() => setConnection(null));
+        fetch(`/api/schema?connectionId=${connectionId}`, { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setDatabases(data.schemas || []))
+            .catch(() => setDatabases([]));
+    }, [connectionId]);
+
+    const scan = useCallback(async (from: string) => {
+        if (!connectionId || !ready) return;
+        setScanning(true);
+        setScanError('');
+        try {
+            const params = new URLSearchParams({ connectionId, db, match: pattern, cursor: from, count: String(PAGE_SIZE) });
+            if (typeFilter) params.set('type', typeFilter);
+            const res = await fetch(`/api/redis/keys?${params}`, { headers: getHeaders() });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to scan keys');
+
+            // SCAN can return a key more than once while the keyspace is being resized
+            setKeys(prev => {
+                if (from === '0') return data.keys;
+                const seen = new Set(prev.map(k => k.key));
+                return [...prev, ...data.keys.filter((k: RedisKeySummary) => !seen.has(k.key))];
+            });
+            setCursor(data.cursor);
+        } catch (err: any) {
+            setScanError(err.message);
+        } finally {
+            setScanning(false);
+        }
+    }, [connectionId, db, pattern, typeFilter, ready]);
+
+    useEffect(() => {
+        scan('0');
+    }, [scan]);
+
+    const tree = useMemo(() => buildKeyTree(keys, separator), [keys, separator]);
+    const totalKeys = databases.find(d => d.name === db)?.tableCount;
+
+    const toggle = (path: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(path)) next.delete(path); else next.add(path);
+            return next;
+        });
+    };
+
+    const updateSummary = (key: string, update: Partial<RedisKeySummary> | null) => {
+        setKeys(prev => update === null
+            ? prev.filter(k => k.key !== key)
+            : prev.map(k => k.key === key ? { ...k, ...update } : k));
+    };
+
+    const renderNodes = (nodes: KeyTreeNode[], depth: number): React.ReactNode => nodes.map(node => {
+        const isFolder = node.children.length > 0;
+        const isOpen = expanded.has(node.path);
+        const type = node.key ? REDIS_TYPES[node.key.type] : undefined;
+
+        return (
+            <div key={node.path}>
+                <div
+                    className={`flex items-center gap-1 py-0.5 pr-2 rounded text-xs cursor-pointer hover:bg-accent ${node.key && node.key.key === selectedKey ? 'bg-accent' : ''}`}
+                    style={{ paddingLeft: depth * 12 + 4 }}
+                    onClick={() => node.key ? navigate({ key: node.key.key }) : toggle(node.path)}
+                    title={node.key ? node.key.key : `${node.path}${separator}*`}
+                >
+                    {isFolder ? (
+                        <button
+                            onClick={e => { e.stopPropagation(); toggle(node.path); }}
+                            className="p-0.5 hover:bg-background rounded"
+                        >
+                            {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        </button>
+                    ) : (
+                        <span className="w-4" />
+                    )}
+                    {isFolder && !node.key && <Folder className="w-3 h-3 text-muted-foreground shrink-0" />}
+                    {node.key && (
+                        <span className={`px-1 rounded text-[9px] font-semibold shrink-0 ${type?.className || 'bg-muted text-muted-foreground'}`}>
+                            {type?.label || node.key.type.toUpperCase()}
+                        </span>
+                    )}
+                    <span className="truncate font-mono">{node.name || '(empty)'}</span>
+                    {isFolder && <span className="ml-auto text-[10px] text-muted-foreground">{node.keyCount}</span>}
+                    {!isFolder && node.key && node.key.ttl >= 0 && (
+                        <span className="ml-auto text-[10px] text-amber-600 dark:text-amber-400 shrink-0" title="Time to live">{formatTTL(node.key.ttl)}</span>
+                    )}
+                </div>
+                {isFolder && isOpen && renderNodes(node.children, depth + 1)}
+            </div>
+        );
+    });
+
+    if (!connectionId) {
+        return (
+            <div className="min-h-screen bg-background flex items-center justify-center">
+                <div className="text-center">
+                    <p className="text-muted-foreground mb-4">No connection selected.</p>
+                    <Link href="/dashboard" className="text-primary hover:underline">Go to Dashboard</Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-screen flex flex-col bg-background text-foreground">
+            {/* Toolbar */}
+            <div className="border-b border-border p-3 flex items-center gap-3 flex-wrap">
+                <Link
+                    href={`/query?connection=${connectionId}`}
+                    className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    Query Editor
+                </Link>
+                <h1 className="font-semibold">Key Browser</h1>
+                {connection && <span className="text-sm text-muted-foreground">{connection.name}</span>}
+
+                <select
+                    value={db}
+                    onChange={e => navigate({ db: e.target.value, key: null })}
+                    className="px-2 py-1 bg-background border border-border rounded text-sm"
+                >
+                    {(databases.some(d => d.name === db) ? databases : [{ name: db }, ...databases]).map(d => (
+                        <option key={d.name} value={d.name}>
+                            {d.name}{d.tableCount ? ` (${d.tableCount.toLocaleString()} keys)` : ''}
+                        </option>
+                    ))}
+                </select>
+
+                <form
+                    className="flex items-center gap-1"
+                    onSubmit={e => {
+                        e.preventDefault();
+                        setPattern(patternInput.trim() || '*');
+                    }}
+                >
+                    <div className="relative">
+                        <Search className="w-3 h-3 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                        <input
+                            value={patternInput}
+                            onChange={e => setPatternInput(e.target.value)}
+                            placeholder="user:* or *session*"
+                            className="pl-7 pr-2 py-1 w-56 bg-background border border-border rounded text-sm font-mono"
+                            title="SCAN MATCH pattern: * any characters, ? one character, [abc] one of"
+                        />
+                    </div>
+                    <button type="submit" className="px-2 py-1 border border-border rounded text-sm hover:bg-accent">Scan</button>
+                </form>
+
+                <select
+                    value={typeFilter}
+                    onChange={e => setTypeFilter(e.target.value)}
+                    className="px-2 py-1 bg-background border border-border rounded text-sm"
+                    title="Only keys of this type (SCAN TYPE, Redis 6+)"
+                >
+                    <option value="">All types</option>
+                    {Object.entries(REDIS_TYPES).map(([type, info]) => (
+                        <option key={type} value={type}>{info.label}</option>
+                    ))}
+                </select>
+
+                <label className="flex items-center gap-1 text-sm text-muted-foreground">
+                    Separator
+                    <input
+                        value={separator}
+                        onChange={e => setSeparator(e.target.value)}
+                        className="w-10 px-1 py-1 bg-background border border-border rounded text-sm font-mono text-center text-foreground"
+                        title="Group keys into folders on this separator; empty for a flat list"
+                    />
+                </label>
+
+                <div className="ml-auto flex items-center gap-2">
+                    <button
+                        onClick={() => scan('0')}
+                        disabled={scanning}
+                        className="p-1.5 border border-border rounded hover:bg-accent disabled:opacity-50"
+                        title="Scan again"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${scanning ? 'animate-spin' : ''}`} />
+                    </button>
+                    {!connection?.readOnly && (
+                        <button
+                            onClick={() => setShowNewKey(true)}
+                            className="px-3 py-1.5 bg-primary text-primary-foreground rounded text-sm hover:bg-primary/90 flex items-center gap-1"
+                        >
+                            <Plus className="w-4 h-4" />
+                            New Key
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex-1 flex min-h-0">
+                {/* Key tree */}
+                <div className="w-96 border-r border-border flex flex-col min-h-0">
+                    <div className="px-3 py-2 text-xs text-muted-foreground border-b border-border">
+                        {keys.length.toLocaleString()} keys loaded
+                        {totalKeys !== undefined && ` of ${totalKeys.toLocaleString()} in ${db}`}
+                        {pattern !== '*' && ` matching ${pattern}`}
+                    </div>
+                    <div className="flex-1 overflow-auto p-1">
+                        {scanError ? (
+                            <div className="p-3 text-xs text-destructive">{scanError}</div>
+                        ) : keys.length === 0 && !scanning ? (
+                            <div className="p-3 text-xs text-muted-foreground italic">
+                                {cursor === '0' ? 'No keys found' : 'No matches yet - scan further'}
+                            </div>
+                        ) : (
+                            renderNodes(tree, 0)
+                        )}
+                        {scanning && (
+                            <div className="p-3 flex items-center gap-2 text-xs text-muted-foreground">
+                                <Loader2 className="w-3 h-3 animate-spin" />
+                                Scanning...
+                            </div>
+                        )}
+                    </div>
+                    {cursor !== '0' && (
+                        <div className="p-2 border-t border-border">
+                            <button
+                                onClick={() => scan(cursor)}
+                                disabled={scanning}
+                                className="w-full px-3 py-1 text-xs border border-border rounded hover:bg-accent disabled:opacity-50"
+                            >
+                                Scan next {PAGE_SIZE} keys
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {/* Selected key */}
+                <div className="flex-1 min-w-0">
+                    {selectedKey !== null ? (
+                        <KeyValueViewer
+                            key={`${db}:${selectedKey}`}
+                            connectionId={connectionId}
+                            db={db}
+                            keyName={selectedKey}
+                            readOnly={connection?.readOnly}
+                            getHeaders={getHeaders}
+                            onRenamed={newKey => {
+                                updateSummary(selectedKey, { key: newKey });
+                                navigate({ key: newKey });
+                            }}
+                            onDeleted={() => {
+                                updateSummary(selectedKey, null);
+                                navigate({ key: null });
+                            }}
+                            onTTLChanged={ttl => updateSummary(selectedKey, { ttl })}
+                        />
+                    ) : (
+                        <div className="h-full flex flex-col items-center justify-center gap-2 text-muted-foreground">
+                            <KeyRound className="w-8 h-8" />
+                            <p className="text-sm">Select a key to view and edit its value</p>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {showNewKey && (
+                <NewKeyDialog
+                    connectionId={connectionId}
+                    db={db}
+                    separator={separator}
+                    onClose={() => setShowNewKey(false)}
+                    onCreated={summary => {
+                        setShowNewKey(false);
+                        setKeys(prev => [...prev.filter(k => k.key !== summary.key), summary]);
+                        toast.success(`Created ${summary.key}`);
+                        navigate({ key: summary.key });
+                    }}
+                />
+            )}
+        </div>
+    );
+}
+
+// ============ New key ============
+
+interface NewKeyDialogProps {
+    connectionId: string;
+    db: string;
+    separator: string;
+    onClose: () => void;
+    onCreated: (summary: RedisKeySummary) => void;
+}
+
+function NewKeyDialog({ connectionId, db, separator, onClose, onCreated }: NewKeyDialogProps) {
+    const [name, setName] = useState(separator ? `namespace${separator}` : '');
+    const [type, setType] = useState('string');
+    const [first, setFirst] = useState('');
+    const [second, setSecond] = useState('');
+    const [ttl, setTtl] = useState('');
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    // Labels of the inputs for the first item; a key can't exist empty
+    const inputs: Record<string, string[]> = {
+        string: ['Value'],
+        hash: ['Field', 'Value'],
+        list: ['First item'],
+        set: ['First member'],
+        zset: ['First member', 'Score'],
+        stream: ['First entry fields as JSON, e.g. {"event": "login"}'],
+        'ReJSON-RL': ['JSON document'],
+    };
+
+    const firstChange = (): RedisKeyChange => {
+        switch (type) {
+            case 'hash': return { op: 'hset', field: first, value: second };
+            case 'list': return { op: 'rpush', value: first };
+            case 'set': return { op: 'sadd', member: first };
+            case 'zset': {
+                if (second.trim() === '' || isNaN(Number(second))) throw new Error('Score must be a number');
+                return { op: 'zadd', member: first, score: Number(second) };
+            }
+            case 'stream': {
+                const fields = JSON.parse(first);
+                if (!fields || typeof fields !== 'object' || Array.isArray(fields)) throw new Error('Fields must be a JSON object');
+                return { op: 'xadd', fields };
+            }
+            case 'ReJSON-RL': return { op: 'json', value: first };
+            default: return { op: 'set', value: first };
+        }
+    };
+
+    const post = async (key: string, change: RedisKeyChange) => {
+        const res = await fetch('/api/redis/key', {
+            method: 'POST',
+            headers: { ...getHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify({ connectionId, db, key, change }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to create key');
+    };
+
+    const create = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSaving(true);
+        try {
+            // Writing to an existing key would change it instead of creating a new one
+            const existing = await fetch(`/api/redis/key?${new URLSearchParams({ connectionId, db, key: name })}`, { headers: getHeaders() });
+            if (existing.ok) throw new Error(`Key ${name} already exists`);
+
+            await post(name, firstChange());
+            const seconds = parseInt(ttl, 10);
+            if (seconds > 0) await post(name, { op: 'expire', ttl: seconds });
+
+            onCreated({ key: name, type, ttl: seconds > 0 ? seconds : -1 });
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <form onSubmit={create} className="bg-card border border-border rounded-lg w-full max-w-lg p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">New Key</h2>
+                    <button type="button" onClick={onClose} className="p-1 hover:bg-accent rounded"><X className="w-4 h-4" /></button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                    <div className="col-span-2">
+                        <label className="block text-sm font-medium mb-1">Key</label>
+                        <input
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            className="w-full px-3 py-2 bg-background border border-border rounded font-mono text-sm"
+                            required
+                            autoFocus
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Type</label>
+                        <select
+                            value={type}
+                            onChange={e => setType(e.target.value)}
+                            className="w-full px-3 py-2 bg-background border border-border rounded text-sm"
+                        >
+                            {Object.entries(REDIS_TYPES).map(([value, info]) => (
+                                <option key={value} value={value}>{info.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {inputs[type].map((label, i) => (
+                    <div key={label}>
+                        <label className="block text-sm font-medium mb-1">{label}</label>
+                        {type === 'string' || type === 'ReJSON-RL' || type === 'stream' ? (
+                            <textarea
+                                value={first}
+                                onChange={e => setFirst(e.target.value)}
+                                rows={4}
+                                className="w-full px-3 py-2 bg-background border border-border rounded font-mono text-sm"
+                            />
+                        ) : (
+                            <input
+                                value={i === 0 ? first : second}
+                                onChange={e => (i === 0 ? setFirst : setSecond)(e.target.value)}
+                                className="w-full px-3 py-2 bg-background border border-border rounded font-mono text-sm"
+                                required={i === 0}
+                            />
+                        )}
+                    </div>
+                ))}
+
+                <div>
+                    <label className="block text-sm font-medium mb-1">TTL (seconds)</label>
+                    <input
+                        type="number"
+                        min={1}
+                        value={ttl}
+                        onChange={e => setTtl(e.target.value)}
+                        placeholder="No expiry"
+                        className="w-40 px-3 py-2 bg-background border border-border rounded text-sm"
+                    />
+                </div>
+
+                {error && <p className="text-sm text-destructive">{error}</p>}
+
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onClose} className="px-4 py-2 border border-border rounded hover:bg-accent text-sm">Cancel</button>
+                    <button type="submit" disabled={saving || !name} className="px-4 py-2 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50 text-sm">
+                        {saving ? 'Creating...' : 'Create'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
+
+export default function RedisBrowserPage() {
+    return (
+        <Suspense fallback={<div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>}>
+            <RedisBrowserContent />
+        </Suspense>
+    );
+}
@@ -0,0 +1,437 @@
+'use client';
+
+import { useState, useEffect, useMemo, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, ArrowRight, Download, GitCommit, GitCompare, Loader2, Play, Rows, Save } from 'lucide-react';
+import type { DiffStatus, TableDiff, SyncStep } from '@/lib/schema-compare';
+import { describeIndex, describeForeignKey } from '@/lib/schema-compare';
+import { downloadFile } from '@/lib/export-utils';
+import { getCurrentUser } from '@/lib/auth';
+import { SaveQueryModal } from '@/components/SaveQueryModal';
+import { useToast } from '@/components/ToastProvider';
+
+interface ConnectionOption {
+    id: string;
+    name: string;
+    type: string;
+}
+
+interface Side {
+    connectionId: string;
+    schema: string;
+}
+
+interface CompareResult {
+    source: { connectionId: string; name: string; dbType: string; schema: string };
+    target: { connectionId: string; name: string; dbType: string; schema: string; readOnly: boolean };
+    tables: TableDiff[];
+    steps: SyncStep[];
+    sql: string;
+    rollbackSQL: string;
+    errors: { source: { table: string; error: string }[]; target: { table: string; error: string }[] };
+}
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+    added: 'bg-green-500/10 text-green-600 dark:text-green-400',
+    removed: 'bg-red-500/10 text-red-600 dark:text-red-400',
+    changed: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+    same: 'text-muted-foreground',
+};
+
+// Labels from the target's point of view: 'added' is created there, 'removed' only exists there
+const STATUS_LABELS: Record<DiffStatus, string> = {
+    added: 'Source only',
+    removed: 'Target only',
+    changed: 'Different',
+    same: 'Identical',
+};
+
+function getHeaders(): Record<string, string> {
+    const currentUser = getCurrentUser();
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (currentUser?.email) headers['x-user-email'] = currentUser.email;
+    if (currentUser?.organizationId) headers['x-org-id'] = currentUser.organizationId;
+    if (currentUser?.id) headers['x-user-id'] = currentUser.id;
+    if (currentUser?.name) headers['x-user-name'] = currentUser.name;
+    return headers;
+}
+
+function SchemaPicker({ label, connections, value, onChange }: {
+    label: string;
+    connections: ConnectionOption[];
+    value: Side;
+    onChange: (side: Side) => void;
+}) {
+    const [schemas, setSchemas] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (!value.connectionId) return;
+        fetch(`/api/schema?connectionId=${value.connectionId}`, { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setSchemas((data.schemas || []).map((s: any) => s.name)))
+            .catch(() => setSchemas([]));
+    }, [value.connectionId]);
+
+    return (
+        <div className="flex-1 min-w-[16rem]">
+            <div className="text-xs font-medium text-muted-foreground uppercase mb-1">{label}</div>
+            <div className="flex gap-2">
+                <select
+                    value={value.connectionId}
+                    onChange={e => onChange({ connectionId: e.target.value, schema: '' })}
+                    className="flex-1 px-2 py-1.5 bg-background border border-border rounded text-sm"
+                >
+                    <option value="">Select connection...</option>
+                    {connections.map(c => <option key={c.id} value={c.id}>{c.name} ({c.type})</option>)}
+                </select>
+                <select
+                    value={value.schema}
+                    onChange={e => onChange({ ...value, schema: e.target.value })}
+                    className="w-44 px-2 py-1.5 bg-background border border-border rounded text-sm"
+                    disabled={!value.connectionId}
+                >
+                    <option value="">Schema...</option>
+                    {schemas.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+            </div>
+        </div>
+    );
+}
+
+function StatusBadge({ status }: { status: DiffStatus }) {
+    return <span className={`px-1.5 py-0.5 rounded text-xs ${STATUS_STYLES[status]}`}>{STATUS_LABELS[status]}</span>;
+}
+
+function SchemaCompareContent() {
+    const searchParams = useSearchParams();
+    const toast = useToast();
+
+    const [connections, setConnections] = useState<ConnectionOption[]>([]);
+    const [source, setSource] = useState<Side>({ connectionId: searchParams?.get('source') || '', schema: searchParams?.get('sourceSchema') || '' });
+    const [target, setTarget] = useState<Side>({ connectionId: searchParams?.get('target') || '', schema: searchParams?.get('targetSchema') || '' });
+    const [dropMissing, setDropMissing] = useState(false);
+    const [result, setResult] = useState<CompareResult | null>(null);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [hideSame, setHideSame] = useState(true);
+    const [loading, setLoading] = useState(false);
+    const [busy, setBusy] = useState<'apply' | 'record' | null>(null);
+    const [error, setError] = useState('');
+    const [showSave, setShowSave] = useState(false);
+
+    useEffect(() => {
+        fetch('/api/connections', { headers: getHeaders() })
+            .then(res => res.json())
+            .then(data => setConnections(data.connections || []))
+            .catch(() => setConnections([]));
+    }, []);
+
+    const request = (action: 'compare' | 'apply' | 'record', sql?: string) => fetch('/api/schema/compare', {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({
+            sourceConnectionId: source.connectionId,
+            sourceSchema: source.schema,
+            targetConnectionId: target.connectionId,
+            targetSchema: target.schema,
+            dropMissing,
+            action,
+            sql,
+        }),
+    });
+
+    const compare = async () => {
+        setLoading(true);
+        setError('');
+        try {
+            const res = await request('compare');
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Comparison failed');
+            setResult(data);
+            setSelected(current => data.tables.some((t: TableDiff) => t.name === current)
+                ? current
+                : data.tables.find((t: TableDiff) => t.status !== 'same')?.name ?? null);
+        } catch (err: any) {
+            setError(err.message);
+            setResult(null);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Apply or record the script exactly as reviewed; the server refuses if either schema moved on
+    const submit = async (action: 'apply' | 'record') => {
+        if (!result) return;
+        if (action === 'apply' && !confirm(`Run ${result.steps.length} statements on ${result.target.name} (${result.target.schema})?`)) return;
+        setBusy(action);
+        try {
+            const res = await request(action, result.sql);
+            const data = await res.json();
+            if (res.status === 409) {
+                toast.error(data.error);
+                await compare();
+                return;
+            }
+            if (!res.ok) throw new Error(data.error || 'Request failed');
+            if (action === 'apply') {
+                toast.success(`Applied ${data.steps} statements to ${result.target.name}`);
+                await compare();
+            } else {
+                toast.success(`Recorded ${data.recorded} pending changes on ${result.target.name}`);
+            }
+        } catch (err: any) {
+            toast.error(err.message);
+            if (action === 'apply') await compare();
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const downloadScript = () => {
+        if (!result) return;
+        const header = [
+            `-- Sync ${result.target.name}.${result.target.schema} with ${result.source.name}.${result.source.schema}`,
+            `-- Generated ${new Date().toISOString()}`,
+            '',
+        ].join('\n');
+        downloadFile(`${header}${result.sql}\n`, `sync-${result.target.schema}.sql`, 'text/plain');
+    };
+
+    const counts = useMemo(() => {
+        const totals: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, same: 0 };
+        result?.tables.forEach(t => totals[t.status]++);
+        return totals;
+    }, [result]);
+
+    const listed = result ? result.tables.filter(t => !hideSame || t.status !== 'same') : [];
+    const table = result?.tables.find(t => t.name === selected);
+    const ready = source.connectionId && source.schema && target.connectionId && target.schema;
+
+    return (
+        <div className="h-screen flex flex-col bg-background text-foreground">
+            {/* Toolbar */}
+            <div className="border-b border-border p-3 flex items-end gap-3 flex-wrap">
+                <div className="flex items-center gap-3 self-center">
+                    <Link href="/dashboard" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+                        <ArrowLeft className="w-4 h-4" />
+                        Dashboard
+                    </Link>
+                    <h1 className="font-semibold">Schema Compare</h1>
+                </div>
+                <SchemaPicker label="Source" connections={connections} value={source} onChange={setSource} />
+                <ArrowRight className="w-4 h-4 mb-2 text-muted-foreground" />
+                <SchemaPicker label="Target" connections={connections} value={target} onChange={setTarget} />
+                <label className="flex items-center gap-1.5 text-sm cursor-pointer mb-1.5" title="Drop tables that exist only in the target">
+                    <input type="checkbox" checked={dropMissing} onChange={e => setDropMissing(e.target.checked)} />
+                    Drop target-only tables
+                </label>
+                <button
+                    onClick={compare}
+                    disabled={!ready || loading}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-primary-foreground rounded text-sm hover:bg-primary/90 disabled:opacity-50"
+                >
+                    {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+                    Compare
+                </button>
+            </div>
+
+            {error && <div className="px-4 py-2 text-sm text-destructive border-b border-border">{error}</div>}
+
+            {!result ? (
+                <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm">
+                    {loading ? 'Describing both schemas...' : 'Pick a source and a target schema to compare.'}
+                </div>
+            ) : (
+                <div className="flex-1 flex min-h-0">
+                    {/* Table list */}
+                    <div className="w-72 border-r border-border flex flex-col min-h-0">
+                        <div className="p-3 border-b border-border text-xs space-y-1">
+                            <div className="flex flex-wrap gap-1">
+                                {(['added', 'removed', 'changed', 'same'] as DiffStatus[]).map(status => (
+                                    <span key={status} className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[status]}`}>
+                                        {counts[status]} {STATUS_LABELS[status].toLowerCase()}
+                                    </span>
+                                ))}
+                            </div>
+                            <label className="flex items-center gap-1.5 cursor-pointer text-muted-foreground">
+                                <input type="checkbox" checked={hideSame} onChange={e => setHideSame(e.target.checked)} />
+                                Hide identical tables
+                            </label>
+                        </div>
+                        <div className="flex-1 overflow-auto">
+                            {listed.map(t => (
+                                <button
+                                    key={t.name}
+                                    onClick={() => setSelected(t.name)}
+                                    className={`w-full px-3 py-1.5 flex items-center justify-between gap-2 text-left text-sm hover:bg-accent ${selected === t.name ? 'bg-accent' : ''}`}
+                                >
+                                    <span className="truncate">{t.name}</span>
+                                    <StatusBadge status={t.status} />
+                                </button>
+                            ))}
+                            {listed.length === 0 && <div className="p-3 text-sm text-muted-foreground">The schemas are identical.</div>}
+                        </div>
+                        {(result.errors.source.length > 0 || result.errors.target.length > 0) && (
+                            <div className="p-3 border-t border-border text-xs text-destructive">
+                                {[...result.errors.source, ...result.errors.target].map(e => (
+                                    <div key={e.table} title={e.error}>Could not describe {e.table}</div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Side-by-side detail */}
+                    <div className="flex-1 overflow-auto p-4 min-w-0">
+                        {table ? <TableDetail diff={table} result={result} /> : (
+                            <div className="text-sm text-muted-foreground">Select a table to see its differences.</div>
+                        )}
+                    </div>
+
+                    {/* Script */}
+                    <div className="w-[28rem] border-l border-border flex flex-col min-h-0">
+                        <div className="p-3 border-b border-border flex items-center justify-between gap-2">
+                            <span className="text-sm font-medium">Sync script ({result.steps.length} statements)</span>
+                            <div className="flex items-center gap-1">
+                                <button onClick={downloadScript} disabled={!result.sql} className="p-1.5 hover:bg-accent rounded disabled:opacity-50" title="Download .sql">
+                                    <Download className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => setShowSave(true)} disabled={!result.sql} className="p-1.5 hover:bg-accent rounded disabled:opacity-50" title="Save as query">
+                                    <Save className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => submit('record')}
+                                    disabled={!result.sql || busy !== null}
+                                    className="p-1.5 hover:bg-accent rounded disabled:opacity-50"
+                                    title="Record as pending changes on the target without running"
+                                >
+                                    {busy === 'record' ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCommit className="w-4 h-4" />}
+                                </button>
+                                <button
+                                    onClick={() => submit('apply')}
+                                    disabled={!result.sql || busy !== null || result.target.readOnly}
+                                    className="flex items-center gap-1 px-2 py-1 bg-primary text-primary-foreground rounded text-sm hover:bg-primary/90 disabled:opacity-50"
+                                    title={result.target.readOnly ? 'The target connection is read-only' : 'Run the script on the target'}
+                                >
+                                    {busy === 'apply' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                                    Run on target
+                                </button>
+                            </div>
+                        </div>
+                        <div className="flex-1 overflow-auto p-3 space-y-3">
+                            {result.sql ? (
+                                <>
+                                    <pre className="text-xs font-mono whitespace-pre-wrap">{result.sql}</pre>
+                                    <details>
+                                        <summary className="text-xs text-muted-foreground cursor-pointer">Rollback script</summary>
+                                        <pre className="mt-2 text-xs font-mono whitespace-pre-wrap text-muted-foreground">{result.rollbackSQL}</pre>
+                                    </details>
+                                </>
+                            ) : (
+                                <div className="text-sm text-muted-foreground">Nothing to sync.</div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {showSave && result && (
+                <SaveQueryModal
+                    query={result.sql}
+                    connectionId={result.target.connectionId}
+                    onClose={() => setShowSave(false)}
+                    onSuccess={() => {
+                        setShowSave(false);
+                        toast.success('Sync script saved');
+                    }}
+                />
+            )}
+        </div>
+    );
+}
+
+function TableDetail({ diff, result }: { diff: TableDiff; result: CompareResult }) {
+    const rowClass = (status: DiffStatus) => status === 'same' ? '' : STATUS_STYLES[status];
+    const cell = 'px-2 py-1 border-b border-border align-top';
+    const changed = (changes: string[], key: string) => changes.includes(key) ? 'font-semibold underline decoration-dotted' : '';
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-2">
+                <h2 className="text-lg font-semibold">{diff.name}</h2>
+                <StatusBadge status={diff.status} />
+                {diff.source && diff.target && (
+                    <Link
+                        href={`/data-compare?${new URLSearchParams({
+                            left: result.source.connectionId, leftSchema: result.source.schema, leftTable: diff.source.name,
+                            right: result.target.connectionId, rightSchema: result.target.schema, rightTable: diff.target.name,
+                        })}`}
+                        className="ml-auto flex items-center gap-1 text-sm text-primary hover:underline"
+                    >
+                        <Rows className="w-4 h-4" />
+                        Compare data
+                    </Link>
+                )}
+            </div>
+
+            <table className="w-full text-sm border-collapse">
+                <thead>
+                    <tr className="text-left text-xs text-muted-foreground">
+                        <th className={cell} colSpan={3}>{result.source.name} · {result.source.schema}</th>
+                        <th className={cell} colSpan={3}>{result.target.name} · {result.target.schema}</th>
+                    </tr>
+                    <tr className="text-left text-xs text-muted-foreground">
+                        {[0, 1].map(i => [
+                            <th key={`c${i}`} className={cell}>Column</th>,
+                            <th key={`t${i}`} className={cell}>Type</th>,
+                            <th key={`d${i}`} className={cell}>Default</th>,
+                        ])}
+                    </tr>
+                </thead>
+                <tbody className="font-mono text-xs">
+                    {diff.columns.map(col => (
+                        <tr key={col.name} className={rowClass(col.status)}>
+                            {[col.source, col.target].map((side, i) => side ? [
+                                <td key={`c${i}`} className={`${cell} ${changed(col.changes, 'name')}`}>
+                                    {side.name}{side.isPrimaryKey && <span className={`ml-1 text-amber-500 ${changed(col.changes, 'primaryKey')}`}>PK</span>}
+                                </td>,
+                                <td key={`t${i}`} className={cell}>
+                                    <span className={changed(col.changes, 'type')}>{side.type}</span>
+                                    <span className={`ml-1 text-muted-foreground ${changed(col.changes, 'nullable')}`}>{side.isNullable ? 'NULL' : 'NOT NULL'}</span>
+                                </td>,
+                                <td key={`d${i}`} className={`${cell} ${changed(col.changes, 'default')}`}>{side.defaultValue ?? ''}</td>,
+                            ] : <td key={`e${i}`} className={cell} colSpan={3} />)}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {[
+                { title: 'Indexes', items: diff.indexes.map(d => ({ ...d, source: d.source && describeIndex(d.source), target: d.target && describeIndex(d.target) })) },
+                { title: 'Foreign keys', items: diff.foreignKeys.map(d => ({ ...d, source: d.source && describeForeignKey(d.source), target: d.target && describeForeignKey(d.target) })) },
+            ].filter(group => group.items.length > 0).map(group => (
+                <div key={group.title}>
+                    <h3 className="text-sm font-medium mb-2">{group.title}</h3>
+                    <table className="w-full text-xs border-collapse">
+                        <tbody className="font-mono">
+                            {group.items.map(item => (
+                                <tr key={item.name} className={rowClass(item.status)}>
+                                    <td className={`${cell} w-1/4`}>{item.name}</td>
+                                    <td className={`${cell} w-[37.5%]`}>{item.source ?? ''}</td>
+                                    <td className={`${cell} w-[37.5%]`}>{item.target ?? ''}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export default function SchemaComparePage() {
+    return (
+        <Suspense fallback={<div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>}>
+            <SchemaCompareContent />
+        </Suspense>
+    );
+}
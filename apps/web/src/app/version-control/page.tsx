@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, Suspense } from 'react';
+import React, { useState, useEffect, useCallback, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { getCurrentUser, promptForUserIfNeeded } from '@/lib/user-context';
@@ -9,6 +9,7 @@ import { useToast } from '@/components/ToastProvider';
 function VersionControlContent() {
     const searchParams = useSearchParams();
     const connectionId = searchParams?.get('connection');
+    const initialTable = searchParams?.get('table');
     const toast = useToast();
 
     const [commits, setCommits] = useState<any[]>([]);
@@ -22,12 +23,96 @@ function VersionControlContent() {
     const [compareFrom, setCompareFrom] = useState<number>(0);
     const [compareTo, setCompareTo] = useState<number>(-1);
     const [diffResult, setDiffResult] = useState<any>(null);
+    const [tags, setTags] = useState<any[]>([]);
+    const [stashes, setStashes] = useState<any[]>([]);
+    const [reflog, setReflog] = useState<any[]>([]);
+    const [branchLog, setBranchLog] = useState<{ branch: string; commits: any[] } | null>(null);
+    const [blameResult, setBlameResult] = useState<any>(null);
+    const [checkoutPlan, setCheckoutPlan] = useState<any>(null);
+    const [checkingOut, setCheckingOut] = useState(false);
+    const [blameTable, setBlameTable] = useState<string>(initialTable || '');
+    const [columnBlame, setColumnBlame] = useState<any>(null);
+    const [bisect, setBisect] = useState<any>(null);
+    const [bisectGood, setBisectGood] = useState<string>('');
+    const [bisectBad, setBisectBad] = useState<string>('');
+    const [checkQuery, setCheckQuery] = useState<string>('');
+    const [bisecting, setBisecting] = useState(false);
+    const [patchFrom, setPatchFrom] = useState<string>('');
+    const [patchTo, setPatchTo] = useState<string>('');
+    const [patchContent, setPatchContent] = useState<string>('');
+    const [patchResult, setPatchResult] = useState<any>(null);
+    const [applyingPatch, setApplyingPatch] = useState(false);
+
+    const loadAllData = useCallback(async () => {
+        setLoading(true);
+        try {
+            // Fetch all API calls in parallel for better performance
+            const [commitRes, branchRes, pendingRes, tagRes, stashRes, reflogRes, bisectRes] = await Promise.all([
+                fetch(`/api/vcs/commit?connectionId=${connectionId}`),
+                fetch(`/api/vcs/branches?connectionId=${connectionId}`),
+                fetch(`/api/vcs/pending?connectionId=${connectionId}`),
+                fetch(`/api/vcs/tags?connectionId=${connectionId}`),
+                fetch(`/api/vcs/stash?connectionId=${connectionId}`),
+                fetch(`/api/vcs/reflog?connectionId=${connectionId}&maxCount=100`),
+                fetch(`/api/vcs/bisect?connectionId=${connectionId}`)
+            ]);
+
+            // Parse all responses in parallel
+            const [commitData, branchData, pendingData, tagData, stashData, reflogData, bisectData] = await Promise.all([
+                commitRes.json(),
+                branchRes.json(),
+                pendingRes.json(),
+                tagRes.json(),
+                stashRes.json(),
+                reflogRes.json(),
+                bisectRes.json()
+            ]);
+
+            // Update state with fetched data
+            setCommits(commitData.commits || []);
+            setBranches(branchData.branches || [{ name: 'main', commitId: '', protected: true }]);
+            setCurrentBranch(branchData.currentBranch || 'main');
+            setPending(pendingData.changes || []);
+            setTags(tagData.tags || []);
+            setStashes(stashData.stashes || []);
+            setReflog(reflogData.entries || []);
+            setBisect(bisectData.session ? bisectData : null);
+        } catch (error) {
+            console.error('Error loading data:', error);
+            toast.error('Failed to load version control data.');
+        } finally {
+            setLoading(false);
+        }
+    }, [connectionId, toast]);
+
+    const loadColumnBlame = useCallback(async (table: string) => {
+        if (!table.trim()) return;
+        setBlameTable(table);
+
+        const res = await fetch(`/api/vcs/blame?connectionId=${connectionId}&table=${encodeURIComponent(table.trim())}&mode=columns`);
+        const result = await res.json();
+
+        if (res.ok) {
+            setColumnBlame(result);
+        } else {
+            setColumnBlame(null);
+            toast.error(`Blame failed: ${result.error || 'Unknown error'}`);
+        }
+    }, [connectionId, toast]);
 
     useEffect(() => {
         if (connectionId) {
             loadAllData();
         }
-    }, [connectionId]);
+    }, [connectionId, loadAllData]);
+
+    // Opened from a table's blame link
+    useEffect(() => {
+        if (connectionId && initialTable) {
+            setActiveTab('blame');
+            loadColumnBlame(initialTable);
+        }
+    }, [connectionId, initialTable, loadColumnBlame]);
 
     // Show message if no connection selected
     if (!connectionId) {
@@ -56,36 +141,6 @@ function VersionControlContent() {
         );
     }
 
-    const loadAllData = async () => {
-        setLoading(true);
-        try {
-            // Fetch all API calls in parallel for better performance
-            const [commitRes, branchRes, pendingRes] = await Promise.all([
-                fetch(`/api/vcs/commit?connectionId=${connectionId}`),
-                fetch(`/api/vcs/branches?connectionId=${connectionId}`),
-                fetch(`/api/vcs/pending?connectionId=${connectionId}`)
-            ]);
-
-            // Parse all responses in parallel
-            const [commitData, branchData, pendingData] = await Promise.all([
-                commitRes.json(),
-                branchRes.json(),
-                pendingRes.json()
-            ]);
-
-            // Update state with fetched data
-            setCommits(commitData.commits || []);
-            setBranches(branchData.branches || [{ name: 'main', commitId: '', protected: true }]);
-            setCurrentBranch(branchData.currentBranch || 'main');
-            setPending(pendingData.changes || []);
-        } catch (error) {
-            console.error('Error loading data:', error);
-            toast.error('Failed to load version control data.');
-        } finally {
-            setLoading(false);
-        }
-    };
-
     const createCommit = async (changesToCommit?: any[], customMessage?: string) => {
         // Use stored user or prompt once
         const user = promptForUserIfNeeded();
@@ -106,8 +161,7 @@ function VersionControlContent() {
                 connectionId,
                 message,
                 author,
-                changes: changesToCommit || pending,
-                snapshot: { schema: { tables: {} }, data: { tables: {} }, timestamp: new Date() }
+                changes: changesToCommit || pending
             })
         });
 
@@ -182,21 +236,51 @@ function VersionControlContent() {
     };
 
     const checkoutBranch = async (name: string) => {
+        // Dry run first: show what will be executed against the database
         const res = await fetch('/api/vcs/branches', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ connectionId, name, action: 'checkout' })
+            body: JSON.stringify({ connectionId, name, action: 'checkout', dryRun: true })
         });
 
         const result = await res.json();
 
-        if (result.success) {
-            toast.success(`Switched to ${name}`);
-            setCurrentBranch(name);
-            await loadAllData();
+        if (!result.success) {
+            toast.error(`Failed to plan checkout: ${result.error || 'Unknown error'}`);
+            return;
+        }
+
+        if (result.plan.steps.length === 0) {
+            await applyCheckout(name, false);
         } else {
-            const error = result as { error: string };
-            toast.error(`Failed to checkout branch: ${error.error || 'Unknown error'}`);
+            setCheckoutPlan(result.plan);
+            setActiveTab('branches');
+        }
+    };
+
+    const applyCheckout = async (name: string, skipManual: boolean) => {
+        setCheckingOut(true);
+        try {
+            const res = await fetch('/api/vcs/branches', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ connectionId, name, action: 'checkout', skipManual })
+            });
+
+            const result = await res.json();
+
+            if (result.success) {
+                const applied = result.result?.applied || 0;
+                toast.success(`Switched to ${name}${applied > 0 ? ` (${applied} statements applied)` : ''}`);
+                setCurrentBranch(name);
+                setCheckoutPlan(null);
+                await loadAllData();
+            } else {
+                const error = result as { error: string };
+                toast.error(`Failed to checkout branch: ${error.error || 'Unknown error'}`);
+            }
+        } finally {
+            setCheckingOut(false);
         }
     };
 
@@ -242,6 +326,242 @@ function VersionControlContent() {
         }
     };
 
+    const deleteBranch = async (name: string) => {
+        if (!confirm(`Delete branch "${name}"? Commits only reachable from it will no longer be listed.`)) return;
+
+        const res = await fetch('/api/vcs/branches', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ connectionId, name, action: 'delete' })
+        });
+
+        const result = await res.json();
+
+        if (result.success) {
+            toast.success(`Deleted branch ${name}`);
+            if (branchLog?.branch === name) setBranchLog(null);
+            await loadAllData();
+        } else {
+            toast.error(`Failed to delete branch: ${result.error || 'Unknown error'}`);
+        }
+    };
+
+    const viewBranchCommits = async (name: string) => {
+        if (branchLog?.branch === name) {
+            setBranchLog(null);
+            return;
+        }
+
+        const res = await fetch(`/api/vcs/commit?connectionId=${connectionId}&branch=${encodeURIComponent(name)}`);
+        const result = await res.json();
+        setBranchLog({ branch: name, commits: result.commits || [] });
+    };
+
+    const cherryPickCommit = async (commit: any) => {
+        if (!confirm(`Cherry-pick "${commit.message}" onto ${currentBranch}?\n\nIts statements will be executed against the connected database.`)) {
+            return;
+        }
+
+        const res = await fetch('/api/vcs/cherry-pick', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ connectionId, commitId: commit.id })
+        });
+
+        const result = await res.json();
+
+        if (result.success) {
+            toast.success(`Cherry-picked ${commit.id.substring(0, 8)} onto ${currentBranch}`);
+            await loadAllData();
+        } else {
+            toast.error(`Cherry-pick failed: ${result.error || 'Unknown error'}`);
+        }
+    };
+
+    const createTag = async (commitId?: string) => {
+        const name = prompt('Tag name (e.g. v1.0):');
+        if (!name) return;
+        const message = prompt('Tag message (leave empty for a lightweight tag):') || undefined;
+        const user = message ? promptForUserIfNeeded() : null;
+
+        const res = await fetch('/api/vcs/tags', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                connectionId,
+                name,
+                commitId,
+                message,
+                author: user ? { name: user.name, email: user.email } : undefined
+            })
+        });
+
+        const result = await res.json();
+
+        if (result.success) {
+            toast.success(`Tag ${name} created`);
+            await loadAllData();
+        } else {
+            toast.error(`Failed to create tag: ${result.error || 'Unknown error'}`);
+        }
+    };
+
+    const deleteTag = async (name: string) => {
+        if (!confirm(`Delete tag "${name}"?`)) return;
+
+        const res = await fetch(`/api/vcs/tags?connectionId=${connectionId}&name=${encodeURIComponent(name)}`, { method: 'DELETE' });
+        const result = await res.json();
+
+        if (result.success) {
+            toast.success(`Tag ${name} deleted`);
+            await loadAllData();
+        } else {
+            toast.error(`Failed to delete tag: ${result.error || 'Unknown error'}`);
+        }
+    };
+
+    const stashAction = async (action: 'push' | 'pop' | 'apply' | 'drop', stashId?: string) => {
+        let message: string | undefined;
+        if (action === 'push') {
+            message = prompt('Stash message (optional):') || undefined;
+        }
+        if (action === 'drop' && !confirm('Drop this stash? Its changes will be discarded.')) return;
+
+        const user = getCurrentUser();
+        const res = await fetch('/api/vcs/stash', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                connectionId,
+                action,
+                stashId,
+                message,
+                author: user ? { name: user.name, email: user.email } : undefined
+            })
+        });
+
+        const result = await res.json();
+
+        if (result.success) {
+            const labels = { push: 'Stashed pending changes', pop: 'Popped stash', apply: 'Applied stash', drop: 'Dropped stash' };
+            toast.success(labels[action]);
+            await loadAllData();
+        } else {
+            toast.error(`Stash ${action} failed: ${result.error || 'Unknown error'}`);
+        }
+    };
+
+    const blameTarget = async (table: string) => {
+        const res = await fetch(`/api/vcs/blame?connectionId=${connectionId}&table=${encodeURIComponent(table)}`);
+        const result = await res.json();
+
+        if (res.ok) {
+            setBlameResult(result);
+        } else {
+            toast.error(`Blame failed: ${result.error || 'Unknown error'}`);
+        }
+    };
+
+    const bisectAction = async (action: 'start' | 'good' | 'bad' | 'skip' | 'reset') => {
+        if (action === 'start') {
+            if (!bisectGood || !bisectBad) {
+                toast.error('Select a good and a bad commit');
+                return;
+            }
+            if (!confirm('Bisect migrates the live database to each candidate commit and back to HEAD when done. Continue?')) return;
+        }
+
+        setBisecting(true);
+        try {
+            const res = await fetch('/api/vcs/bisect', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    connectionId,
+                    action,
+                    good: bisectGood,
+                    bad: bisectBad,
+                    checkQuery: checkQuery.trim() || undefined
+                })
+            });
+
+            const result = await res.json();
+
+            if (!result.success) {
+                toast.error(`Bisect ${action} failed: ${result.error || 'Unknown error'}`);
+                return;
+            }
+
+            if (action === 'reset') {
+                setBisect(null);
+                toast.success('Bisect ended, database restored to HEAD');
+                return;
+            }
+
+            setBisect(result);
+            if (result.firstBadCommit) {
+                toast.success(`First bad commit: ${result.firstBadCommit.message}`);
+            }
+            if (result.warning) {
+                toast.error(result.warning);
+            }
+        } finally {
+            setBisecting(false);
+        }
+    };
+
+    const loadPatchFile = async (file: File | undefined) => {
+        if (!file) return;
+        setPatchContent(await file.text());
+        setPatchResult(null);
+    };
+
+    const applyPatch = async (dryRun: boolean, force = false) => {
+        if (!patchContent.trim()) {
+            toast.error('Load a patch file first');
+            return;
+        }
+        if (!dryRun && !confirm('Apply this patch to the live database of this connection?')) return;
+
+        setApplyingPatch(true);
+        try {
+            const user = getCurrentUser();
+            const res = await fetch('/api/vcs/patch', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    connectionId,
+                    content: patchContent,
+                    dryRun,
+                    force,
+                    author: user ? { name: user.name, email: user.email } : undefined
+                })
+            });
+
+            const result = await res.json();
+            // Conflicts come from the pre-flight check, in which case nothing was applied
+            setPatchResult(result.result ? { ...result.result, dryRun: dryRun || result.result.conflicts.length > 0 } : null);
+
+            if (res.ok && result.success) {
+                if (dryRun) {
+                    if (result.result.success) {
+                        toast.success('Patch can be applied cleanly');
+                    } else {
+                        toast.error(`${result.result.conflicts.length} conflict(s) with the live schema`);
+                    }
+                } else {
+                    toast.success(`Patch applied${result.commit ? ` as commit ${result.commit.id.substring(0, 8)}` : ''}`);
+                    await loadAllData();
+                }
+            } else {
+                toast.error(`Patch failed: ${result.error || 'Some changes failed'}`);
+                if (result.commit) await loadAllData();
+            }
+        } finally {
+            setApplyingPatch(false);
+        }
+    };
+
     const compareRevisions = async () => {
         if (commits.length < 2) {
             toast.error('Need at least 2 commits to compare revisions. Execute some queries first!');
@@ -249,7 +569,7 @@ function VersionControlContent() {
         }
 
         try {
-            const res = await fetch(`/api/vcs/rollback?connectionId=${connectionId}&fromRevision=${compareFrom}&toRevision=${compareTo}`);
+            const res = await fetch(`/api/vcs/rollback/diff?connectionId=${connectionId}&fromRevision=${compareFrom}&toRevision=${compareTo}`);
             const result = await res.json();
 
             if (res.ok) {
@@ -340,7 +660,7 @@ function VersionControlContent() {
 
                 {/* Tabs */}
                 <div className="flex gap-4 border-b border-gray-700 mb-6">
-                    {['commits', 'compare', 'branches', 'pending', 'history'].map(tab => (
+                    {['commits', 'compare', 'branches', 'pending', 'stash', 'tags', 'reflog', 'blame', 'bisect', 'patches', 'history'].map(tab => (
                         <button
                             key={tab}
                             onClick={() => {
@@ -405,6 +725,84 @@ function VersionControlContent() {
                                             </div>
                                         </div>
 
+                                        {diffResult.diff && (
+                                            <div className="mb-6">
+                                                <h3 className="text-xl font-bold mb-3">Structural Diff</h3>
+                                                <div className="flex gap-3 flex-wrap mb-4 text-sm">
+                                                    <span className="px-3 py-1 bg-gray-700/50 rounded">{diffResult.diff.summary.filesChanged} objects changed</span>
+                                                    <span className="px-3 py-1 bg-green-600/20 text-green-400 rounded">+{diffResult.diff.summary.insertions} insertions</span>
+                                                    <span className="px-3 py-1 bg-red-600/20 text-red-400 rounded">−{diffResult.diff.summary.deletions} deletions</span>
+                                                    <span className="px-3 py-1 bg-yellow-600/20 text-yellow-400 rounded">~{diffResult.diff.summary.modifications} modifications</span>
+                                                </div>
+
+                                                {[
+                                                    ...diffResult.diff.schemaChanges,
+                                                    ...diffResult.diff.constraintChanges,
+                                                    ...diffResult.diff.indexChanges,
+                                                    ...diffResult.diff.viewChanges,
+                                                    ...diffResult.diff.dataChanges
+                                                ].length === 0 ? (
+                                                    <p className="text-gray-400 italic">Both revisions have identical captured state</p>
+                                                ) : (
+                                                    <div className="space-y-2">
+                                                        {[
+                                                            ...diffResult.diff.schemaChanges,
+                                                            ...diffResult.diff.constraintChanges,
+                                                            ...diffResult.diff.indexChanges,
+                                                            ...diffResult.diff.viewChanges,
+                                                            ...diffResult.diff.dataChanges
+                                                        ].map((change: any, idx: number) => {
+                                                            const added = change.operation === 'CREATE' || change.operation === 'INSERT';
+                                                            const removed = change.operation === 'DROP' || change.operation === 'DELETE';
+                                                            return (
+                                                                <div
+                                                                    key={idx}
+                                                                    className={`rounded-lg p-3 border ${added
+                                                                        ? 'bg-green-900/20 border-green-500/30'
+                                                                        : removed
+                                                                            ? 'bg-red-900/20 border-red-500/30'
+                                                                            : 'bg-yellow-900/20 border-yellow-500/30'
+                                                                        }`}
+                                                                >
+                                                                    <div className="flex items-center gap-2">
+                                                                        <span className="px-2 py-0.5 text-xs rounded bg-gray-700/60 font-semibold">{change.type}</span>
+                                                                        <span className={`font-mono text-sm ${added ? 'text-green-400' : removed ? 'text-red-400' : 'text-yellow-400'}`}>
+                                                                            {added ? '+' : removed ? '−' : '~'} {change.description}
+                                                                        </span>
+                                                                    </div>
+                                                                    {change.columnChanges?.some((cc: any) => cc.operation === 'MODIFY') && (
+                                                                        <div className="mt-2 space-y-1 font-mono text-xs">
+                                                                            {change.columnChanges.filter((cc: any) => cc.operation === 'MODIFY').map((cc: any) => (
+                                                                                <div key={cc.columnName} className="text-gray-300">
+                                                                                    {cc.columnName}: <span className="text-red-300">{cc.oldDefinition?.type}{cc.oldDefinition?.nullable ? '' : ' NOT NULL'}</span>
+                                                                                    {' → '}
+                                                                                    <span className="text-green-300">{cc.newDefinition?.type}{cc.newDefinition?.nullable ? '' : ' NOT NULL'}</span>
+                                                                                </div>
+                                                                            ))}
+                                                                        </div>
+                                                                    )}
+                                                                    {change.type === 'DATA' && change.operation === 'UPDATE' && (
+                                                                        <div className="mt-2 space-y-1 font-mono text-xs">
+                                                                            {Object.keys(change.newValues || {}).map((col) => (
+                                                                                <div key={col} className="text-gray-300">
+                                                                                    {col}: <span className="text-red-300">{JSON.stringify(change.oldValues?.[col])}</span>
+                                                                                    {' → '}
+                                                                                    <span className="text-green-300">{JSON.stringify(change.newValues[col])}</span>
+                                                                                </div>
+                                                                            ))}
+                                                                        </div>
+                                                                    )}
+                                                                    {change.unifiedDiff && change.operation === 'ALTER' && (
+                                                                        <pre className="mt-2 bg-black/30 p-2 rounded text-xs text-gray-300 overflow-x-auto">{change.unifiedDiff}</pre>
+                                                                    )}
+                                                                </div>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        )}
+
                                         <h3 className="text-xl font-bold mb-3">Changes</h3>
 
                                         <div className="space-y-3">
@@ -478,6 +876,19 @@ function VersionControlContent() {
                                             >
                                                 ⏪ Revert This Commit
                                             </button>
+                                            <button
+                                                onClick={() => createTag(selectedCommit.id)}
+                                                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition flex items-center gap-2"
+                                            >
+                                                🏷️ Tag
+                                            </button>
+                                            <a
+                                                href={`/api/vcs/patch?connectionId=${connectionId}&commitId=${selectedCommit.id}`}
+                                                download
+                                                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition flex items-center gap-2"
+                                            >
+                                                📤 Export Patch
+                                            </a>
                                         </div>
                                     </div>
 
@@ -511,6 +922,14 @@ function VersionControlContent() {
                                                             </span>
                                                             <span className="font-mono text-sm font-semibold">{change.operation}</span>
                                                             <span className="text-gray-400">{change.target}</span>
+                                                            {(change.tableName || change.target) && (
+                                                                <button
+                                                                    onClick={() => blameTarget(change.tableName || change.target)}
+                                                                    className="ml-auto px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition"
+                                                                >
+                                                                    🔍 Blame
+                                                                </button>
+                                                            )}
                                                         </div>
 
                                                         {change.description && (
@@ -536,6 +955,34 @@ function VersionControlContent() {
                                             </div>
                                         )}
                                     </div>
+
+                                    {blameResult && (
+                                        <div className="mt-6">
+                                            <div className="flex items-center justify-between mb-3">
+                                                <h3 className="text-lg font-semibold">Blame: {blameResult.table}</h3>
+                                                <button
+                                                    onClick={() => setBlameResult(null)}
+                                                    className="text-sm text-gray-400 hover:text-white"
+                                                >
+                                                    ✕ Close
+                                                </button>
+                                            </div>
+                                            {blameResult.lines.length === 0 ? (
+                                                <p className="text-gray-400 italic">No commits on this branch touched {blameResult.table}</p>
+                                            ) : (
+                                                <div className="bg-gray-900 rounded-lg divide-y divide-gray-800 font-mono text-sm">
+                                                    {blameResult.lines.map((line: any) => (
+                                                        <div key={line.lineNumber} className="flex gap-4 px-4 py-2">
+                                                            <span className="text-purple-400 shrink-0">{line.commit.id.substring(0, 8)}</span>
+                                                            <span className="text-blue-400 shrink-0 w-32 truncate">{line.author.name}</span>
+                                                            <span className="text-gray-500 shrink-0 w-16">{line.age}d ago</span>
+                                                            <span className="text-gray-300 truncate">{line.content}</span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         )}
@@ -625,6 +1072,17 @@ function VersionControlContent() {
                                                             >
                                                                 ⏪ Revert
                                                             </button>
+                                                            <button
+                                                                onClick={() => createTag(commit.id)}
+                                                                className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded transition"
+                                                            >
+                                                                🏷️ Tag
+                                                            </button>
+                                                            {tags.filter(t => t.commitId === commit.id).map(t => (
+                                                                <span key={t.name} className="px-2 py-1 text-xs bg-yellow-600/20 text-yellow-400 border border-yellow-500/30 rounded font-mono self-center">
+                                                                    {t.name}
+                                                                </span>
+                                                            ))}
                                                         </div>
                                                     </div>
                                                 </div>
@@ -648,6 +1106,72 @@ function VersionControlContent() {
                                     </button>
                                 </div>
 
+                                {checkoutPlan && (
+                                    <div className="mb-6 p-4 bg-gray-800/70 border border-blue-500/50 rounded-lg">
+                                        <div className="flex items-start justify-between mb-3">
+                                            <div>
+                                                <h3 className="font-semibold text-lg">Checkout plan: {currentBranch} → {checkoutPlan.branch}</h3>
+                                                <p className="text-sm text-gray-400">
+                                                    {checkoutPlan.steps.filter((s: any) => s.direction === 'undo').length} undo •{' '}
+                                                    {checkoutPlan.steps.filter((s: any) => s.direction === 'redo').length} replay •{' '}
+                                                    {checkoutPlan.transactional
+                                                        ? 'applied atomically in one transaction'
+                                                        : 'not transactional: a failure leaves earlier steps applied'}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => setCheckoutPlan(null)}
+                                                className="text-sm text-gray-400 hover:text-white"
+                                            >
+                                                ✕ Cancel
+                                            </button>
+                                        </div>
+
+                                        {checkoutPlan.manualSteps > 0 && (
+                                            <div className="mb-3 p-3 bg-yellow-600/10 border border-yellow-500/30 rounded text-sm text-yellow-400">
+                                                ⚠️ {checkoutPlan.manualSteps} step(s) have no automatic SQL and will be skipped. Apply them by hand.
+                                            </div>
+                                        )}
+
+                                        <div className="space-y-2 max-h-96 overflow-y-auto mb-4">
+                                            {checkoutPlan.steps.map((step: any, idx: number) => (
+                                                <div
+                                                    key={idx}
+                                                    className={`rounded p-3 border ${step.direction === 'undo'
+                                                        ? 'bg-red-900/20 border-red-500/30'
+                                                        : 'bg-green-900/20 border-green-500/30'
+                                                        }`}
+                                                >
+                                                    <div className="flex items-center gap-2 mb-1 text-sm">
+                                                        <span className={`px-2 py-0.5 text-xs rounded font-semibold ${step.direction === 'undo' ? 'bg-red-500/30 text-red-300' : 'bg-green-500/30 text-green-300'}`}>
+                                                            {step.direction === 'undo' ? 'UNDO' : 'REPLAY'}
+                                                        </span>
+                                                        <span className="font-mono text-xs text-purple-400">{step.commitId.substring(0, 8)}</span>
+                                                        <span className="text-gray-300">{step.description}</span>
+                                                    </div>
+                                                    {step.sql ? (
+                                                        <pre className="text-xs text-gray-300 bg-black/30 rounded p-2 whitespace-pre-wrap">{step.sql}</pre>
+                                                    ) : (
+                                                        <p className="text-xs text-yellow-400 italic">Manual intervention required</p>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+
+                                        <button
+                                            onClick={() => applyCheckout(checkoutPlan.branch, checkoutPlan.manualSteps > 0)}
+                                            disabled={checkingOut}
+                                            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded-lg transition"
+                                        >
+                                            {checkingOut
+                                                ? 'Applying...'
+                                                : checkoutPlan.manualSteps > 0
+                                                    ? `Apply & Checkout (skip ${checkoutPlan.manualSteps} manual)`
+                                                    : 'Apply & Checkout'}
+                                        </button>
+                                    </div>
+                                )}
+
                                 <div className="space-y-3">
                                     {branches.map((branch) => (
                                         <div
@@ -665,15 +1189,57 @@ function VersionControlContent() {
                                                         {branch.protected && ' • Protected'}
                                                     </p>
                                                 </div>
-                                                {branch.name !== currentBranch && (
+                                                <div className="flex gap-2">
                                                     <button
-                                                        onClick={() => checkoutBranch(branch.name)}
-                                                        className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded transition text-sm"
+                                                        onClick={() => viewBranchCommits(branch.name)}
+                                                        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded transition text-sm"
                                                     >
-                                                        Checkout
+                                                        {branchLog?.branch === branch.name ? 'Hide Commits' : 'Commits'}
                                                     </button>
-                                                )}
+                                                    {branch.name !== currentBranch && (
+                                                        <button
+                                                            onClick={() => checkoutBranch(branch.name)}
+                                                            className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded transition text-sm"
+                                                        >
+                                                            Checkout
+                                                        </button>
+                                                    )}
+                                                    {branch.name !== currentBranch && !branch.protected && (
+                                                        <button
+                                                            onClick={() => deleteBranch(branch.name)}
+                                                            className="px-3 py-1 bg-red-600/30 hover:bg-red-600 border border-red-500/50 rounded transition text-sm"
+                                                        >
+                                                            Delete
+                                                        </button>
+                                                    )}
+                                                </div>
                                             </div>
+
+                                            {branchLog && branchLog.branch === branch.name && (
+                                                <div className="mt-4 space-y-2">
+                                                    {branchLog.commits.length === 0 ? (
+                                                        <p className="text-sm text-gray-400 italic">No commits on this branch</p>
+                                                    ) : branchLog.commits.map(commit => (
+                                                        <div key={commit.id} className="flex items-center justify-between bg-gray-900/60 rounded px-3 py-2">
+                                                            <div className="min-w-0">
+                                                                <span className="font-mono text-xs text-purple-400 mr-2">{commit.id.substring(0, 8)}</span>
+                                                                <span className="text-sm">{commit.message}</span>
+                                                                <span className="text-xs text-gray-500 ml-2">
+                                                                    {commit.author?.name} • {new Date(commit.timestamp).toLocaleString()}
+                                                                </span>
+                                                            </div>
+                                                            {branch.name !== currentBranch && !commits.some(c => c.id === commit.id) && (
+                                                                <button
+                                                                    onClick={() => cherryPickCommit(commit)}
+                                                                    className="px-3 py-1 text-sm bg-pink-600/30 hover:bg-pink-600 border border-pink-500/50 rounded transition shrink-0"
+                                                                >
+                                                                    🍒 Cherry-pick
+                                                                </button>
+                                                            )}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </div>
                                     ))}
                                 </div>
@@ -685,13 +1251,22 @@ function VersionControlContent() {
                             <div>
                                 <div className="flex justify-between mb-4">
                                     <h2 className="text-2xl font-bold">Pending Changes</h2>
-                                    <button
-                                        onClick={() => createCommit()}
-                                        disabled={pending.length === 0}
-                                        className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition"
-                                    >
-                                        Commit All
-                                    </button>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => stashAction('push')}
+                                            disabled={pending.length === 0}
+                                            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition"
+                                        >
+                                            📦 Stash
+                                        </button>
+                                        <button
+                                            onClick={() => createCommit()}
+                                            disabled={pending.length === 0}
+                                            className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition"
+                                        >
+                                            Commit All
+                                        </button>
+                                    </div>
                                 </div>
 
                                 {pending.length === 0 ? (
@@ -751,6 +1326,510 @@ function VersionControlContent() {
                             </div>
                         )}
 
+                        {/* Stash Tab */}
+                        {activeTab === 'stash' && (
+                            <div>
+                                <div className="flex justify-between mb-4">
+                                    <h2 className="text-2xl font-bold">Stashes</h2>
+                                    <button
+                                        onClick={() => stashAction('pop')}
+                                        disabled={stashes.length === 0}
+                                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition"
+                                    >
+                                        Pop Latest
+                                    </button>
+                                </div>
+                                <p className="text-sm text-gray-400 mb-4">
+                                    Stashing shelves pending changes so they are left out of the next commit. Statements already executed on the database are not undone.
+                                </p>
+
+                                {stashes.length === 0 ? (
+                                    <div className="text-center py-20">
+                                        <div className="text-6xl mb-4">📦</div>
+                                        <h3 className="text-xl font-semibold mb-2">No Stashes</h3>
+                                        <p className="text-gray-400">Use &quot;Stash&quot; on the Pending tab to set changes aside</p>
+                                    </div>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {[...stashes].reverse().map((stash, idx) => (
+                                            <div key={stash.id} className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+                                                <div className="flex items-start justify-between">
+                                                    <div>
+                                                        <div className="flex items-center gap-2 mb-1">
+                                                            <span className="font-mono text-sm text-purple-400">stash@{'{'}{idx}{'}'}</span>
+                                                            <h3 className="font-semibold">{stash.message}</h3>
+                                                        </div>
+                                                        <p className="text-sm text-gray-400">
+                                                            on {stash.branchName} • {stash.changes?.length || 0} changes • {stash.author?.name} • {new Date(stash.createdAt).toLocaleString()}
+                                                        </p>
+                                                    </div>
+                                                    <div className="flex gap-2 shrink-0">
+                                                        <button
+                                                            onClick={() => stashAction('apply', stash.id)}
+                                                            className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded transition"
+                                                        >
+                                                            Apply
+                                                        </button>
+                                                        <button
+                                                            onClick={() => stashAction('pop', stash.id)}
+                                                            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 rounded transition"
+                                                        >
+                                                            Pop
+                                                        </button>
+                                                        <button
+                                                            onClick={() => stashAction('drop', stash.id)}
+                                                            className="px-3 py-1 text-sm bg-red-600/30 hover:bg-red-600 border border-red-500/50 rounded transition"
+                                                        >
+                                                            Drop
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Tags Tab */}
+                        {activeTab === 'tags' && (
+                            <div>
+                                <div className="flex justify-between mb-4">
+                                    <h2 className="text-2xl font-bold">Tags</h2>
+                                    <button
+                                        onClick={() => createTag()}
+                                        disabled={commits.length === 0}
+                                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition"
+                                    >
+                                        + Tag HEAD
+                                    </button>
+                                </div>
+
+                                {tags.length === 0 ? (
+                                    <div className="text-center py-20">
+                                        <div className="text-6xl mb-4">🏷️</div>
+                                        <h3 className="text-xl font-semibold mb-2">No Tags</h3>
+                                        <p className="text-gray-400">Tag a commit to mark a release or known-good state</p>
+                                    </div>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {tags.map(tag => (
+                                            <div key={tag.name} className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex items-start justify-between">
+                                                <div>
+                                                    <div className="flex items-center gap-2 mb-1">
+                                                        <span className="px-2 py-1 bg-yellow-600/20 text-yellow-400 rounded font-mono text-sm">{tag.name}</span>
+                                                        <span className="text-xs text-gray-500">{tag.type}</span>
+                                                    </div>
+                                                    {tag.message && <p className="text-sm text-gray-300">{tag.message}</p>}
+                                                    <p className="text-sm text-gray-400">
+                                                        {tag.commitId.substring(0, 8)}
+                                                        {tag.tagger && ` • ${tag.tagger.name}`}
+                                                        {' • '}{new Date(tag.createdAt).toLocaleString()}
+                                                    </p>
+                                                </div>
+                                                <button
+                                                    onClick={() => deleteTag(tag.name)}
+                                                    className="px-3 py-1 text-sm bg-red-600/30 hover:bg-red-600 border border-red-500/50 rounded transition"
+                                                >
+                                                    Delete
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Reflog Tab */}
+                        {activeTab === 'reflog' && (
+                            <div>
+                                <h2 className="text-2xl font-bold mb-4">Reflog</h2>
+                                {reflog.length === 0 ? (
+                                    <div className="text-center py-20">
+                                        <div className="text-6xl mb-4">📜</div>
+                                        <h3 className="text-xl font-semibold mb-2">No Ref Updates Yet</h3>
+                                        <p className="text-gray-400">Commits, checkouts, merges and cherry-picks are recorded here</p>
+                                    </div>
+                                ) : (
+                                    <div className="bg-gray-900 rounded-lg divide-y divide-gray-800 font-mono text-sm">
+                                        {reflog.map((entry, idx) => (
+                                            <div key={`${entry.id}-${idx}`} className="flex gap-4 px-4 py-2">
+                                                <span className="text-purple-400 shrink-0 w-20">{entry.newCommitId ? entry.newCommitId.substring(0, 8) : '--------'}</span>
+                                                <span className="text-gray-500 shrink-0">{entry.ref}@{'{'}{idx}{'}'}</span>
+                                                <span className="text-blue-400 shrink-0 w-28">{entry.action}</span>
+                                                <span className="text-gray-300 truncate flex-1">{entry.message}</span>
+                                                <span className="text-gray-500 shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Blame Tab */}
+                        {activeTab === 'blame' && (
+                            <div>
+                                <h2 className="text-2xl font-bold mb-4">Column Blame</h2>
+                                <div className="flex gap-2 mb-6">
+                                    <input
+                                        type="text"
+                                        value={blameTable}
+                                        onChange={(e) => setBlameTable(e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && loadColumnBlame(blameTable)}
+                                        placeholder="Table name"
+                                        className="flex-1 bg-gray-900 border border-gray-600 rounded px-3 py-2 text-white"
+                                    />
+                                    <button
+                                        onClick={() => loadColumnBlame(blameTable)}
+                                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded transition"
+                                    >
+                                        Blame
+                                    </button>
+                                </div>
+
+                                {!columnBlame ? (
+                                    <div className="text-center py-20">
+                                        <div className="text-6xl mb-4">🔍</div>
+                                        <h3 className="text-xl font-semibold mb-2">Who Changed This Table?</h3>
+                                        <p className="text-gray-400">Enter a table to see the last commit that added or changed each column</p>
+                                    </div>
+                                ) : (
+                                    <div className="space-y-6">
+                                        {columnBlame.columns.length === 0 ? (
+                                            <p className="text-gray-400 italic">No recorded commit changed the columns of {columnBlame.table}</p>
+                                        ) : (
+                                            <div className="bg-gray-900 rounded-lg divide-y divide-gray-800 font-mono text-sm">
+                                                {columnBlame.columns.map((entry: any) => (
+                                                    <div key={entry.column} className="flex gap-4 px-4 py-2 items-center">
+                                                        <span className="text-white shrink-0 w-40 truncate">{entry.column}</span>
+                                                        <span className="text-gray-500 shrink-0 w-32 truncate">{entry.definition?.type}</span>
+                                                        <span className={`shrink-0 w-16 text-xs ${entry.operation === 'ADD' ? 'text-green-400' : 'text-yellow-400'}`}>
+                                                            {entry.operation === 'ADD' ? 'added' : 'changed'}
+                                                        </span>
+                                                        <button
+                                                            onClick={() => {
+                                                                setSelectedCommit(entry.commit);
+                                                                setShowDiff(true);
+                                                                setActiveTab('commits');
+                                                            }}
+                                                            className="text-purple-400 hover:text-purple-300 shrink-0"
+                                                        >
+                                                            {entry.commit.id.substring(0, 8)}
+                                                        </button>
+                                                        <span className="text-blue-400 shrink-0 w-32 truncate">{entry.author.name}</span>
+                                                        <span className="text-gray-500 shrink-0 w-16">{entry.age}d ago</span>
+                                                        <span className="text-gray-300 truncate">{entry.commit.message}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+
+                                        {columnBlame.contributors.length > 0 && (
+                                            <div>
+                                                <h3 className="text-lg font-semibold mb-2">Contributors</h3>
+                                                <div className="flex gap-2 flex-wrap">
+                                                    {columnBlame.contributors.map((c: any) => (
+                                                        <span key={c.author} className="px-3 py-1 bg-gray-800 border border-gray-700 rounded text-sm">
+                                                            {c.author} <span className="text-gray-400">({c.commits})</span>
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Bisect Tab */}
+                        {activeTab === 'bisect' && (
+                            <div>
+                                <h2 className="text-2xl font-bold mb-4">Bisect</h2>
+                                <p className="text-sm text-gray-400 mb-4">
+                                    Binary search for the commit that introduced a regression. Each step migrates the live database to a candidate commit;
+                                    it is migrated back to HEAD when the search ends.
+                                </p>
+
+                                {!bisect ? (
+                                    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 space-y-4">
+                                        <div className="flex gap-4 flex-wrap">
+                                            <div className="flex-1 min-w-[240px]">
+                                                <label className="block text-sm text-gray-400 mb-1">Good commit (before the regression)</label>
+                                                <select
+                                                    value={bisectGood}
+                                                    onChange={(e) => setBisectGood(e.target.value)}
+                                                    className="w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-white"
+                                                >
+                                                    <option value="">Select commit...</option>
+                                                    {commits.map(commit => (
+                                                        <option key={commit.id} value={commit.id}>
+                                                            {commit.id.substring(0, 8)} - {commit.message?.substring(0, 40)}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            <div className="flex-1 min-w-[240px]">
+                                                <label className="block text-sm text-gray-400 mb-1">Bad commit (regression present)</label>
+                                                <select
+                                                    value={bisectBad}
+                                                    onChange={(e) => setBisectBad(e.target.value)}
+                                                    className="w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-white"
+                                                >
+                                                    <option value="">Select commit...</option>
+                                                    {commits.map(commit => (
+                                                        <option key={commit.id} value={commit.id}>
+                                                            {commit.id.substring(0, 8)} - {commit.message?.substring(0, 40)}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm text-gray-400 mb-1">Check query (optional)</label>
+                                            <textarea
+                                                value={checkQuery}
+                                                onChange={(e) => setCheckQuery(e.target.value)}
+                                                placeholder="SELECT COUNT(*) = 0 FROM orders WHERE total < 0"
+                                                rows={3}
+                                                className="w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-white font-mono text-sm"
+                                            />
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                Runs at every step: a true first value marks the commit good, false or no rows marks it bad, an error skips it.
+                                                Leave empty to inspect each candidate yourself.
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => bisectAction('start')}
+                                            disabled={bisecting || pending.length > 0}
+                                            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition"
+                                        >
+                                            {bisecting ? 'Bisecting...' : 'Start Bisect'}
+                                        </button>
+                                        {pending.length > 0 && (
+                                            <p className="text-sm text-yellow-400">Commit or stash pending changes first.</p>
+                                        )}
+                                    </div>
+                                ) : (
+                                    <div className="space-y-4">
+                                        {bisect.active && bisect.candidate && (
+                                            <div className="bg-blue-600/10 border border-blue-500/50 rounded-lg p-4">
+                                                <p className="text-sm text-gray-400 mb-1">
+                                                    Database is at candidate • about {bisect.remainingSteps} step(s) left
+                                                </p>
+                                                <h3 className="font-semibold mb-1">{bisect.candidate.message}</h3>
+                                                <p className="text-sm text-gray-400 mb-4">
+                                                    <span className="font-mono text-purple-400">{bisect.candidate.id.substring(0, 8)}</span> • {bisect.candidate.author.name} • {new Date(bisect.candidate.timestamp).toLocaleString()}
+                                                </p>
+                                                <div className="flex gap-2 flex-wrap">
+                                                    <button
+                                                        onClick={() => bisectAction('good')}
+                                                        disabled={bisecting}
+                                                        className="px-3 py-1 text-sm bg-green-600 hover:bg-green-700 disabled:bg-gray-600 rounded transition"
+                                                    >
+                                                        ✓ Good
+                                                    </button>
+                                                    <button
+                                                        onClick={() => bisectAction('bad')}
+                                                        disabled={bisecting}
+                                                        className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 disabled:bg-gray-600 rounded transition"
+                                                    >
+                                                        ✗ Bad
+                                                    </button>
+                                                    <button
+                                                        onClick={() => bisectAction('skip')}
+                                                        disabled={bisecting}
+                                                        className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 rounded transition"
+                                                    >
+                                                        Skip
+                                                    </button>
+                                                    <Link
+                                                        href={`/query?connection=${connectionId}`}
+                                                        className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded transition"
+                                                    >
+                                                        Open Query Editor
+                                                    </Link>
+                                                    <button
+                                                        onClick={() => bisectAction('reset')}
+                                                        disabled={bisecting}
+                                                        className="ml-auto px-3 py-1 text-sm bg-red-600/30 hover:bg-red-600 border border-red-500/50 rounded transition"
+                                                    >
+                                                        Abort
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        )}
+
+                                        {!bisect.active && bisect.firstBadCommit && (
+                                            <div className="bg-red-600/10 border border-red-500/50 rounded-lg p-4">
+                                                <p className="text-sm text-gray-400 mb-1">First bad commit</p>
+                                                <h3 className="font-semibold mb-1">{bisect.firstBadCommit.message}</h3>
+                                                <p className="text-sm text-gray-400 mb-3">
+                                                    <span className="font-mono text-purple-400">{bisect.firstBadCommit.id.substring(0, 8)}</span> • {bisect.firstBadCommit.author.name} • {new Date(bisect.firstBadCommit.timestamp).toLocaleString()}
+                                                </p>
+                                                <div className="flex gap-2">
+                                                    <button
+                                                        onClick={() => {
+                                                            setSelectedCommit(bisect.firstBadCommit);
+                                                            setShowDiff(true);
+                                                            setActiveTab('commits');
+                                                        }}
+                                                        className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded transition"
+                                                    >
+                                                        View Commit
+                                                    </button>
+                                                    <button
+                                                        onClick={() => bisectAction('reset')}
+                                                        disabled={bisecting}
+                                                        className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 rounded transition"
+                                                    >
+                                                        Done
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        )}
+
+                                        {bisect.warning && (
+                                            <p className="text-sm text-yellow-400">⚠️ {bisect.warning}</p>
+                                        )}
+
+                                        {bisect.log.length > 0 && (
+                                            <div className="bg-gray-900 rounded-lg divide-y divide-gray-800 font-mono text-sm">
+                                                {bisect.log.map((entry: any, idx: number) => (
+                                                    <div key={`${entry.commitId}-${idx}`} className="flex gap-4 px-4 py-2">
+                                                        <span className="text-purple-400 shrink-0">{entry.commitId.substring(0, 8)}</span>
+                                                        <span className={`shrink-0 w-12 ${entry.verdict === 'good' ? 'text-green-400' : entry.verdict === 'bad' ? 'text-red-400' : 'text-gray-500'}`}>
+                                                            {entry.verdict}
+                                                        </span>
+                                                        <span className="text-gray-300 truncate flex-1">{entry.commitMessage}</span>
+                                                        {entry.detail && <span className="text-gray-500 truncate max-w-xs">{entry.detail}</span>}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Patches Tab */}
+                        {activeTab === 'patches' && (
+                            <div className="space-y-6">
+                                <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+                                    <h2 className="text-xl font-bold mb-2">📤 Export Patch</h2>
+                                    <p className="text-sm text-gray-400 mb-4">
+                                        Download the commits after &quot;From&quot; up to &quot;To&quot; as a patch file, to apply on another connection.
+                                    </p>
+                                    <div className="flex gap-4 items-end flex-wrap">
+                                        <div className="flex-1 min-w-[240px]">
+                                            <label className="block text-sm text-gray-400 mb-1">From (exclusive)</label>
+                                            <select
+                                                value={patchFrom}
+                                                onChange={(e) => setPatchFrom(e.target.value)}
+                                                className="w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-white"
+                                            >
+                                                <option value="">Select commit...</option>
+                                                {commits.map(commit => (
+                                                    <option key={commit.id} value={commit.id}>
+                                                        {commit.id.substring(0, 8)} - {commit.message?.substring(0, 40)}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div className="flex-1 min-w-[240px]">
+                                            <label className="block text-sm text-gray-400 mb-1">To (inclusive)</label>
+                                            <select
+                                                value={patchTo}
+                                                onChange={(e) => setPatchTo(e.target.value)}
+                                                className="w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-white"
+                                            >
+                                                <option value="">Select commit...</option>
+                                                {commits.map(commit => (
+                                                    <option key={commit.id} value={commit.id}>
+                                                        {commit.id.substring(0, 8)} - {commit.message?.substring(0, 40)}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        {patchFrom && patchTo ? (
+                                            <a
+                                                href={`/api/vcs/patch?connectionId=${connectionId}&from=${patchFrom}&to=${patchTo}`}
+                                                download
+                                                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded transition"
+                                            >
+                                                Download
+                                            </a>
+                                        ) : (
+                                            <span className="px-4 py-2 bg-gray-600 rounded cursor-not-allowed">Download</span>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+                                    <h2 className="text-xl font-bold mb-2">📥 Apply Patch</h2>
+                                    <p className="text-sm text-gray-400 mb-4">
+                                        Changes are checked against this connection&apos;s live schema first, then replayed one by one.
+                                        Applied changes are recorded as a commit on {currentBranch}.
+                                    </p>
+                                    <input
+                                        type="file"
+                                        accept=".patch,.txt"
+                                        onChange={(e) => loadPatchFile(e.target.files?.[0])}
+                                        className="block mb-3 text-sm text-gray-400"
+                                    />
+                                    <textarea
+                                        value={patchContent}
+                                        onChange={(e) => {
+                                            setPatchContent(e.target.value);
+                                            setPatchResult(null);
+                                        }}
+                                        placeholder="...or paste patch content"
+                                        rows={6}
+                                        className="w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-white font-mono text-xs mb-3"
+                                    />
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => applyPatch(true)}
+                                            disabled={applyingPatch}
+                                            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 rounded transition"
+                                        >
+                                            Check
+                                        </button>
+                                        <button
+                                            onClick={() => applyPatch(false)}
+                                            disabled={applyingPatch}
+                                            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded transition"
+                                        >
+                                            {applyingPatch ? 'Applying...' : 'Apply'}
+                                        </button>
+                                        {patchResult?.conflicts?.length > 0 && (
+                                            <button
+                                                onClick={() => applyPatch(false, true)}
+                                                disabled={applyingPatch}
+                                                className="px-4 py-2 bg-red-600/30 hover:bg-red-600 border border-red-500/50 rounded transition"
+                                            >
+                                                Apply Anyway
+                                            </button>
+                                        )}
+                                    </div>
+
+                                    {patchResult?.changes && (
+                                        <div className="mt-4 bg-gray-900 rounded-lg divide-y divide-gray-800 font-mono text-sm">
+                                            {patchResult.changes.map((change: any) => (
+                                                <div key={`${change.commitId}-${change.changeIndex}`} className="flex gap-4 px-4 py-2">
+                                                    <span className="text-purple-400 shrink-0">{change.commitId.substring(0, 8)}</span>
+                                                    <span className={`shrink-0 w-20 ${change.success ? 'text-green-400' : change.skipped ? 'text-gray-500' : 'text-red-400'}`}>
+                                                        {change.success ? (patchResult.dryRun ? 'ok' : 'applied') : change.skipped ? 'skipped' : patchResult.dryRun ? 'conflict' : 'failed'}
+                                                    </span>
+                                                    <span className="text-gray-300 truncate flex-1">{change.description}</span>
+                                                    {change.error && <span className="text-red-400 truncate max-w-md">{change.error}</span>}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
                         {/* History Tab */}
                         {activeTab === 'history' && (
                             <div>
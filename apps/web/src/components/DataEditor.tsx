@@ -1,14 +1,33 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { detectPrimaryKey } from '@/lib/sql-helper';
-import { Save, X, AlertCircle } from 'lucide-react';
+import type { Column } from '@bosdb/core';
+import { Save, X, AlertCircle, Plus, Trash2, RotateCcw, Lock } from 'lucide-react';
 import { useToast } from '@/components/ToastProvider';
 
+/**
+ * Table a result set was read from, resolved by /api/data/source
+ */
+export interface EditableSource {
+    schema: string;
+    table: string;
+    keyColumns: string[];
+    columnMap: Record<string, string>; // Result field -> table column; unmapped fields are read-only
+    columns: Column[];
+}
+
+export interface DataChanges {
+    updates: { primaryKey: Record<string, unknown>; changes: Record<string, unknown>; original: Record<string, unknown> }[];
+    inserts: Record<string, unknown>[];
+    deletes: { primaryKey: Record<string, unknown>; row: Record<string, unknown> }[];
+}
+
 interface DataEditorProps {
     rows: any[];
     fields: { name: string; dataType: string }[];
-    onSave: (updates: any[]) => Promise<void>;
+    source?: EditableSource | null; // undefined while resolving, null when the result can't be edited
+    readOnlyReason?: string;
+    onSave: (changes: DataChanges) => Promise<void>;
     readOnly?: boolean;
 }
 
@@ -17,22 +36,22 @@ interface PendingEdit {
     newValue: any;
 }
 
-export function DataEditor({ rows, fields, onSave, readOnly = false }: DataEditorProps) {
+type EditorKind = 'text' | 'boolean' | 'date' | 'datetime' | 'time' | 'json';
+
+export function DataEditor({ rows, fields, source, readOnlyReason, onSave, readOnly = false }: DataEditorProps) {
     // Map of "rowIndex:colName" -> PendingEdit
     const [edits, setEdits] = useState<Map<string, PendingEdit>>(new Map());
+    // Rows added in the grid; fields left undefined get the column default
+    const [newRows, setNewRows] = useState<Record<string, any>[]>([]);
+    const [deletedRows, setDeletedRows] = useState<Set<number>>(new Set());
     const [editingCell, setEditingCell] = useState<{ row: number, col: string } | null>(null);
-    const [editValue, setEditValue] = useState<string>('');
-    const [primaryKeyCols, setPrimaryKeyCols] = useState<string[]>([]);
+    // null is SQL NULL, distinct from an empty string
+    const [editValue, setEditValue] = useState<string | null>('');
+    const [editStart, setEditStart] = useState<string | null>('');
     const [isSaving, setIsSaving] = useState(false);
-    const inputRef = useRef<HTMLInputElement>(null);
+    const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement & HTMLSelectElement>(null);
     const toast = useToast();
 
-    // Detect PKs on mount or field change
-    useEffect(() => {
-        const pks = detectPrimaryKey(fields);
-        setPrimaryKeyCols(pks);
-    }, [fields]);
-
     useEffect(() => {
         if (editingCell && inputRef.current) {
             inputRef.current.focus();
@@ -40,40 +59,70 @@ export function DataEditor({ rows, fields, onSave, readOnly = false }: DataEdito
     }, [editingCell]);
 
     // Derived state
-    const canEdit = !readOnly && primaryKeyCols.length > 0;
-    const hasPendingChanges = edits.size > 0;
+    const canEdit = !readOnly && !!source;
+    const pendingCount = edits.size + newRows.length + deletedRows.size;
+    const hasPendingChanges = pendingCount > 0;
+    const keyFields = source
+        ? source.keyColumns.map(col => Object.keys(source.columnMap).find(f => source.columnMap[f] === col)!)
+        : [];
 
     const getCellKey = (rowIndex: number, colName: string) => `${rowIndex}:${colName}`;
+    const isNewRow = (rowIndex: number) => rowIndex >= rows.length;
 
-    const handleCellDoubleClick = (rowIndex: number, colName: string, value: any) => {
-        if (!canEdit) return;
-        setEditingCell({ row: rowIndex, col: colName });
+    const columnOf = (fieldName: string): Column | undefined =>
+        source?.columns.find(c => c.name === source.columnMap[fieldName]);
+
+    const editorKindOf = (fieldName: string): EditorKind => {
+        const field = fields.find(f => f.name === fieldName);
+        return editorKind(columnOf(fieldName)?.dataType || field?.dataType || '');
+    };
 
-        // Use pending value if exists, else original
+    const cellValue = (rowIndex: number, colName: string): any => {
+        if (isNewRow(rowIndex)) return newRows[rowIndex - rows.length][colName];
         const pending = edits.get(getCellKey(rowIndex, colName));
-        setEditValue(pending ? String(pending.newValue) : String(value ?? ''));
+        return pending ? pending.newValue : rows[rowIndex][colName];
+    };
+
+    const handleCellDoubleClick = (rowIndex: number, colName: string) => {
+        if (!canEdit || !source?.columnMap[colName] || deletedRows.has(rowIndex)) return;
+
+        const initial = toEditorValue(cellValue(rowIndex, colName), editorKindOf(colName));
+        setEditingCell({ row: rowIndex, col: colName });
+        setEditValue(initial);
+        setEditStart(initial);
     };
 
-    const commitEdit = () => {
+    const commitEdit = (value: string | null = editValue) => {
         if (!editingCell) return;
 
         const { row, col } = editingCell;
-        const originalValue = rows[row][col];
-        const key = getCellKey(row, col);
+        if (value === editStart) {
+            setEditingCell(null);
+            return;
+        }
 
-        // If simple change matching original, remove edit
-        // Weak comparison for now (string/number)
-        if (String(originalValue) == editValue && originalValue !== null) {
-            const newEdits = new Map(edits);
-            newEdits.delete(key);
-            setEdits(newEdits);
+        let parsed: any;
+        try {
+            parsed = fromEditorValue(value, editorKindOf(col));
+        } catch (err: any) {
+            toast.error(err.message);
+            return;
+        }
+
+        if (isNewRow(row)) {
+            const index = row - rows.length;
+            setNewRows(prev => prev.map((r, i) => i === index ? { ...r, [col]: parsed } : r));
         } else {
-            // Store edit
+            const originalValue = rows[row][col];
+            const key = getCellKey(row, col);
             const newEdits = new Map(edits);
-            newEdits.set(key, {
-                originalValue,
-                newValue: editValue
-            });
+
+            // Editing back to the original value drops the edit
+            if (isSameValue(originalValue, parsed)) {
+                newEdits.delete(key);
+            } else {
+                newEdits.set(key, { originalValue, newValue: parsed });
+            }
             setEdits(newEdits);
         }
 
@@ -81,70 +130,186 @@ export function DataEditor({ rows, fields, onSave, readOnly = false }: DataEdito
     };
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
-        if (e.key === 'Enter') {
+        // JSON editors are multi-line; Ctrl+Enter commits them
+        const multiline = editingCell && editorKindOf(editingCell.col) === 'json';
+        if (e.key === 'Enter' && (!multiline || e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
             commitEdit();
         } else if (e.key === 'Escape') {
             setEditingCell(null);
         }
     };
 
+    const toggleDelete = (rowIndex: number) => {
+        if (isNewRow(rowIndex)) {
+            setNewRows(prev => prev.filter((_, i) => i !== rowIndex - rows.length));
+            return;
+        }
+
+        const next = new Set(deletedRows);
+        if (next.has(rowIndex)) {
+            next.delete(rowIndex);
+        } else {
+            next.add(rowIndex);
+        }
+        setDeletedRows(next);
+    };
+
+    const discardChanges = () => {
+        setEdits(new Map());
+        setNewRows([]);
+        setDeletedRows(new Set());
+        setEditingCell(null);
+    };
+
     const handleSave = async () => {
+        if (!source) return;
+
         setIsSaving(true);
         try {
-            // Group edits by row
-            const rowUpdates = new Map<number, any>();
+            const keyOf = (rowIdx: number) =>
+                Object.fromEntries(source.keyColumns.map((col, i) => [col, rows[rowIdx][keyFields[i]]]));
+            const toColumns = (values: Record<string, any>) => Object.fromEntries(
+                Object.entries(values)
+                    .filter(([field, value]) => source.columnMap[field] && value !== undefined)
+                    .map(([field, value]) => [source.columnMap[field], value])
+            );
 
-            for (const [key, edit] of edits.entries()) {
-                const [rowStr, col] = key.split(':');
-                const rowIdx = parseInt(rowStr);
+            // Group edits by row
+            const rowUpdates = new Map<number, DataChanges['updates'][number]>();
+            for (const [key, edit] of Array.from(edits.entries())) {
+                const separator = key.indexOf(':');
+                const rowIdx = parseInt(key.slice(0, separator));
+                const field = key.slice(separator + 1);
+                if (deletedRows.has(rowIdx)) continue;
 
                 if (!rowUpdates.has(rowIdx)) {
-                    // Extract PK for this row
-                    const pk: any = {};
-                    let missingPk = false;
-                    for (const pkCol of primaryKeyCols) {
-                        const val = rows[rowIdx][pkCol];
-                        if (val === undefined) missingPk = true;
-                        pk[pkCol] = val;
-                    }
-
-                    if (missingPk) {
-                        console.error('Cannot update row, missing PK value');
-                        continue;
-                    }
-
-                    rowUpdates.set(rowIdx, {
-                        primaryKey: pk,
-                        changes: {}
-                    });
+                    rowUpdates.set(rowIdx, { primaryKey: keyOf(rowIdx), changes: {}, original: {} });
                 }
-
-                rowUpdates.get(rowIdx).changes[col] = edit.newValue;
+                const update = rowUpdates.get(rowIdx)!;
+                update.changes[source.columnMap[field]] = edit.newValue;
+                update.original[source.columnMap[field]] = edit.originalValue;
             }
 
-            await onSave(Array.from(rowUpdates.values()));
-            setEdits(new Map()); // Clear edits on success
-        } catch (error) {
+            await onSave({
+                updates: Array.from(rowUpdates.values()),
+                inserts: newRows.map(toColumns),
+                deletes: Array.from(deletedRows).map(rowIdx => ({ primaryKey: keyOf(rowIdx), row: toColumns(rows[rowIdx]) })),
+            });
+            discardChanges(); // Clear edits on success
+        } catch (error: any) {
             console.error('Failed to save:', error);
-            toast.error('Failed to save changes');
+            toast.error(error.message || 'Failed to save changes');
         } finally {
             setIsSaving(false);
         }
     };
 
+    const renderEditor = (colName: string) => {
+        const kind = editorKindOf(colName);
+        const nullable = columnOf(colName)?.nullable !== false;
+        const className = 'w-full h-full px-4 py-3 bg-background focus:outline-none focus:ring-2 focus:ring-inset focus:ring-primary text-sm font-mono';
+
+        let input: React.ReactNode;
+        if (kind === 'boolean') {
+            input = (
+                <select
+                    ref={inputRef}
+                    value={editValue ?? ''}
+                    onChange={(e) => commitEdit(e.target.value === '' ? null : e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => commitEdit()}
+                    className={className}
+                >
+                    {nullable && <option value="">NULL</option>}
+                    <option value="true">true</option>
+                    <option value="false">false</option>
+                </select>
+            );
+        } else if (kind === 'json') {
+            input = (
+                <textarea
+                    ref={inputRef}
+                    value={editValue ?? ''}
+                    placeholder={editValue === null ? 'NULL' : undefined}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    rows={4}
+                    className={`${className} resize-y`}
+                />
+            );
+        } else {
+            const inputType = kind === 'date' ? 'date' : kind === 'datetime' ? 'datetime-local' : kind === 'time' ? 'time' : 'text';
+            input = (
+                <input
+                    ref={inputRef}
+                    type={inputType}
+                    step={kind === 'datetime' || kind === 'time' ? 1 : undefined}
+                    value={editValue ?? ''}
+                    placeholder={editValue === null ? 'NULL' : undefined}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onBlur={kind === 'text' ? () => commitEdit() : undefined}
+                    onKeyDown={handleKeyDown}
+                    className={className}
+                />
+            );
+        }
+
+        return (
+            <div className="flex items-stretch min-w-[12rem]">
+                <div className="flex-1">{input}</div>
+                {/* mousedown fires before the input's blur, so the NULL is committed instead of the text */}
+                {kind !== 'boolean' && (
+                    <div className="flex flex-col border-l border-border">
+                        <button
+                            onMouseDown={(e) => { e.preventDefault(); commitEdit(null); }}
+                            disabled={!nullable}
+                            className="flex-1 px-2 text-[10px] font-semibold text-muted-foreground hover:bg-accent disabled:opacity-30"
+                            title={nullable ? 'Set to NULL' : 'Column is NOT NULL'}
+                        >
+                            NULL
+                        </button>
+                        {kind !== 'text' && (
+                            <button
+                                onMouseDown={(e) => { e.preventDefault(); commitEdit(); }}
+                                className="flex-1 px-2 text-[10px] font-semibold text-primary hover:bg-accent border-t border-border"
+                                title={kind === 'json' ? 'Apply (Ctrl+Enter)' : 'Apply (Enter)'}
+                            >
+                                OK
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const allRowIndexes = [...rows.map((_, i) => i), ...newRows.map((_, i) => rows.length + i)];
+
     return (
         <div className="flex flex-col h-full">
             {/* Toolbar */}
             <div className="flex items-center justify-between mb-2 px-1">
-                <div className="text-sm text-muted-foreground">
+                <div className="text-sm text-muted-foreground flex items-center gap-3">
                     {canEdit ? (
-                        <span className="text-green-500 flex items-center gap-1">
-                            Double-click cells to edit
-                        </span>
+                        <>
+                            <span className="text-green-500 flex items-center gap-1">
+                                Double-click cells to edit {source?.schema}.{source?.table}
+                            </span>
+                            <button
+                                onClick={() => setNewRows(prev => [...prev, {}])}
+                                className="px-2 py-0.5 text-xs border border-border rounded hover:bg-accent transition flex items-center gap-1"
+                            >
+                                <Plus className="w-3 h-3" />
+                                Add Row
+                            </button>
+                        </>
+                    ) : source === undefined && !readOnly ? (
+                        <span className="flex items-center gap-1">Checking whether this result is editable...</span>
                     ) : (
                         <span className="text-amber-500 flex items-center gap-1">
                             <AlertCircle className="w-3 h-3" />
-                            Read-only (No Primary Key detected)
+                            Read-only{readOnlyReason ? ` (${readOnlyReason})` : ''}
                         </span>
                     )}
                 </div>
@@ -152,9 +317,10 @@ export function DataEditor({ rows, fields, onSave, readOnly = false }: DataEdito
                 {hasPendingChanges && (
                     <div className="flex gap-2">
                         <button
-                            onClick={() => setEdits(new Map())}
-                            className="px-3 py-1 text-sm bg-muted hover:bg-muted/80 rounded transition"
+                            onClick={discardChanges}
+                            className="px-3 py-1 text-sm bg-muted hover:bg-muted/80 rounded transition flex items-center gap-1"
                         >
+                            <X className="w-3 h-3" />
                             Discard
                         </button>
                         <button
@@ -163,7 +329,7 @@ export function DataEditor({ rows, fields, onSave, readOnly = false }: DataEdito
                             className="px-3 py-1 text-sm bg-primary text-primary-foreground hover:bg-primary/90 rounded transition flex items-center gap-2"
                         >
                             <Save className="w-3 h-3" />
-                            {isSaving ? 'Saving...' : `Save ${edits.size} Change(s)`}
+                            {isSaving ? 'Saving...' : `Save ${pendingCount} Change(s)`}
                         </button>
                     </div>
                 )}
@@ -176,69 +342,88 @@ export function DataEditor({ rows, fields, onSave, readOnly = false }: DataEdito
                         <thead className="bg-muted sticky top-0 z-10 shadow-sm">
                             <tr>
                                 <th className="px-4 py-2 w-10 bg-muted border-b border-border text-center text-xs text-muted-foreground">#</th>
-                                {fields.map((field) => (
-                                    <th
-                                        key={field.name}
-                                        className={`px-4 py-2 text-left text-sm font-semibold border-b border-border border-r last:border-r-0 ${primaryKeyCols.includes(field.name) ? 'text-primary' : ''
-                                            }`}
-                                    >
-                                        <div className="flex items-center gap-1">
-                                            {field.name}
-                                            {primaryKeyCols.includes(field.name) && <span title="Primary Key">🔑</span>}
-                                        </div>
-                                        <div className="text-xs font-normal text-muted-foreground">
-                                            {field.dataType}
-                                        </div>
-                                    </th>
-                                ))}
+                                {fields.map((field) => {
+                                    const isKey = keyFields.includes(field.name);
+                                    const isComputed = canEdit && !source?.columnMap[field.name];
+                                    return (
+                                        <th
+                                            key={field.name}
+                                            className={`px-4 py-2 text-left text-sm font-semibold border-b border-border border-r last:border-r-0 ${isKey ? 'text-primary' : ''}`}
+                                        >
+                                            <div className="flex items-center gap-1">
+                                                {field.name}
+                                                {isKey && <span title="Row key">🔑</span>}
+                                                {isComputed && (
+                                                    <span title="Not a column of the source table - read-only">
+                                                        <Lock className="w-3 h-3 text-muted-foreground" />
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <div className="text-xs font-normal text-muted-foreground">
+                                                {columnOf(field.name)?.dataType || field.dataType}
+                                            </div>
+                                        </th>
+                                    );
+                                })}
                             </tr>
                         </thead>
                         <tbody>
-                            {rows.map((row, rowIdx) => (
-                                <tr key={rowIdx} className="border-b border-border hover:bg-accent/30 group">
-                                    <td className="px-2 py-1 text-center text-xs text-muted-foreground bg-muted/30 select-none">
-                                        {rowIdx + 1}
-                                    </td>
-                                    {fields.map((field) => {
-                                        const cellKey = getCellKey(rowIdx, field.name);
-                                        const isEditing = editingCell?.row === rowIdx && editingCell?.col === field.name;
-                                        const pendingEdit = edits.get(cellKey);
-                                        const value = pendingEdit ? pendingEdit.newValue : row[field.name];
-                                        const isDirty = !!pendingEdit;
-
-                                        return (
-                                            <td
-                                                key={field.name}
-                                                className={`max-w-xs truncate border-r border-border last:border-r-0 p-0 relative ${isDirty ? 'bg-amber-100 dark:bg-amber-900/30' : ''
-                                                    }`}
-                                                onDoubleClick={() => handleCellDoubleClick(rowIdx, field.name, row[field.name])}
-                                            >
-                                                {isEditing ? (
-                                                    <input
-                                                        ref={inputRef}
-                                                        type="text"
-                                                        value={editValue}
-                                                        onChange={(e) => setEditValue(e.target.value)}
-                                                        onBlur={commitEdit}
-                                                        onKeyDown={handleKeyDown}
-                                                        className="w-full h-full px-4 py-3 bg-background focus:outline-none focus:ring-2 focus:ring-inset focus:ring-primary"
-                                                    />
-                                                ) : (
-                                                    <div className="px-4 py-3 text-sm font-mono min-h-[44px] flex items-center">
-                                                        {value === null ? (
-                                                            <span className="text-muted-foreground italic text-xs">NULL</span>
-                                                        ) : String(value)}
-
-                                                        {isDirty && (
-                                                            <div className="absolute top-0 right-0 w-2 h-2 bg-amber-500 triangle-flag" />
-                                                        )}
-                                                    </div>
-                                                )}
-                                            </td>
-                                        );
-                                    })}
-                                </tr>
-                            ))}
+                            {allRowIndexes.map((rowIdx) => {
+                                const isNew = isNewRow(rowIdx);
+                                const isDeleted = deletedRows.has(rowIdx);
+
+                                return (
+                                    <tr
+                                        key={isNew ? `new-${rowIdx}` : rowIdx}
+                                        className={`border-b border-border hover:bg-accent/30 group ${isNew ? 'bg-green-100/60 dark:bg-green-900/20' : ''} ${isDeleted ? 'bg-red-100/60 dark:bg-red-900/20 line-through opacity-60' : ''}`}
+                                    >
+                                        <td className="px-2 py-1 text-center text-xs text-muted-foreground bg-muted/30 select-none">
+                                            {canEdit ? (
+                                                <button
+                                                    onClick={() => toggleDelete(rowIdx)}
+                                                    className="w-full flex items-center justify-center"
+                                                    title={isDeleted ? 'Keep this row' : isNew ? 'Remove new row' : 'Delete this row'}
+                                                >
+                                                    <span className="group-hover:hidden">{isNew ? '+' : rowIdx + 1}</span>
+                                                    {isDeleted
+                                                        ? <RotateCcw className="w-3 h-3 hidden group-hover:block" />
+                                                        : <Trash2 className="w-3 h-3 hidden group-hover:block text-destructive" />}
+                                                </button>
+                                            ) : rowIdx + 1}
+                                        </td>
+                                        {fields.map((field) => {
+                                            const isEditing = editingCell?.row === rowIdx && editingCell?.col === field.name;
+                                            const value = cellValue(rowIdx, field.name);
+                                            const isDirty = !isNew && edits.has(getCellKey(rowIdx, field.name));
+
+                                            return (
+                                                <td
+                                                    key={field.name}
+                                                    className={`max-w-xs truncate border-r border-border last:border-r-0 p-0 relative ${isDirty ? 'bg-amber-100 dark:bg-amber-900/30' : ''
+                                                        }`}
+                                                    onDoubleClick={() => handleCellDoubleClick(rowIdx, field.name)}
+                                                >
+                                                    {isEditing ? renderEditor(field.name) : (
+                                                        <div className="px-4 py-3 text-sm font-mono min-h-[44px] flex items-center">
+                                                            {value === undefined && isNew ? (
+                                                                <span className="text-muted-foreground italic text-xs">DEFAULT</span>
+                                                            ) : value === null ? (
+                                                                <span className="text-muted-foreground italic text-xs">NULL</span>
+                                                            ) : value === '' ? (
+                                                                <span className="text-muted-foreground italic text-xs">(empty)</span>
+                                                            ) : typeof value === 'object' ? JSON.stringify(value) : String(value)}
+
+                                                            {isDirty && (
+                                                                <div className="absolute top-0 right-0 w-2 h-2 bg-amber-500 triangle-flag" />
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                );
+                            })}
                         </tbody>
                     </table>
                 </div>
@@ -246,3 +431,57 @@ export function DataEditor({ rows, fields, onSave, readOnly = false }: DataEdito
         </div>
     );
 }
+
+// ============ Helpers ============
+
+function editorKind(dataType: string): EditorKind {
+    const type = dataType.toLowerCase();
+    if (/^(bool|boolean|bit)$|tinyint\(1\)/.test(type)) return 'boolean';
+    if (type.includes('json')) return 'json';
+    if (/timestamp|datetime/.test(type)) return 'datetime';
+    if (type === 'date') return 'date';
+    if (/^time\b/.test(type)) return 'time';
+    return 'text';
+}
+
+function toEditorValue(value: any, kind: EditorKind): string | null {
+    if (value === null || value === undefined) return null;
+
+    switch (kind) {
+        case 'json':
+            return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+        case 'date':
+            return String(value).slice(0, 10);
+        case 'datetime':
+            // ISO strings from the API fit datetime-local once the zone suffix is dropped
+            return String(value).replace(' ', 'T').slice(0, 19);
+        default:
+            return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+}
+
+function fromEditorValue(value: string | null, kind: EditorKind): any {
+    if (value === null) return null;
+
+    switch (kind) {
+        case 'boolean':
+            return value === 'true';
+        case 'json':
+            try {
+                return JSON.parse(value);
+            } catch {
+                throw new Error('Invalid JSON - fix it or press Escape to cancel');
+            }
+        case 'datetime':
+            return value.replace('T', ' ');
+        default:
+            return value;
+    }
+}
+
+function isSameValue(original: any, next: any): boolean {
+    if (next === null) return original === null || original === undefined;
+    if (original === null || original === undefined) return false;
+    if (typeof next === 'object' || typeof original === 'object') return JSON.stringify(original) === JSON.stringify(next);
+    return String(original) === String(next);
+}
@@ -1,40 +1,142 @@
 'use client';
 
-import { useState } from 'react';
-import { Download, X, FileSpreadsheet, FileJson, FileText } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Download, X, FileSpreadsheet, FileJson, FileText, FileCode, Database, AlertCircle, CheckCircle } from 'lucide-react';
+import type { ExportFormat, QueryParams } from '@bosdb/core';
 import { exportToCSV, exportToJSON, exportToExcel } from '@/lib/export-utils';
+import { EXPORT_FORMATS, formatBytes } from '@/lib/export-helper';
+import type { ExportProgress, ExportRequest } from '@/lib/export-helper';
+import { getCurrentUser } from '@/lib/auth';
 
 interface ExportModalProps {
     data: any[];
     columns: string[];
     tableName?: string;
+    connectionId?: string;   // With the query, lets the server export every row of the result
+    query?: string;
+    params?: QueryParams;
+    sourceTable?: string;    // Table named in SQL INSERT exports
     onClose: () => void;
 }
 
-type ExportFormat = 'csv' | 'json' | 'excel';
+type ExportScope = 'all' | 'shown';
 
-export function ExportModal({ data, columns, tableName = 'export', onClose }: ExportModalProps) {
+const FORMAT_ICONS: Record<ExportFormat, typeof FileText> = {
+    csv: FileText,
+    json: FileJson,
+    ndjson: FileJson,
+    xlsx: FileSpreadsheet,
+    sql: FileCode,
+    markdown: FileText,
+    parquet: Database,
+};
+
+// Formats written in the browser from the rows on screen
+const SHOWN_FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx'];
+
+const POLL_INTERVAL = 1000;
+
+function getHeaders(): Record<string, string> {
+    const currentUser = getCurrentUser();
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (currentUser?.email) headers['x-user-email'] = currentUser.email;
+    if (currentUser?.organizationId) headers['x-org-id'] = currentUser.organizationId;
+    return headers;
+}
+
+export function ExportModal({ data, columns, tableName = 'export', connectionId, query, params, sourceTable, onClose }: ExportModalProps) {
+    const canExportAll = Boolean(connectionId && query);
+    const [scope, setScope] = useState<ExportScope>(canExportAll ? 'all' : 'shown');
     const [format, setFormat] = useState<ExportFormat>('csv');
     const [filename, setFilename] = useState(tableName);
     const [includeHeaders, setIncludeHeaders] = useState(true);
+    const [delimiter, setDelimiter] = useState(',');
+    const [insertTable, setInsertTable] = useState(sourceTable || 'exported_rows');
     const [selectedColumns, setSelectedColumns] = useState<Set<string>>(new Set(columns));
+    const [progress, setProgress] = useState<ExportProgress | null>(null);
+    const [starting, setStarting] = useState(false);
+    const [error, setError] = useState('');
+    const pollRef = useRef<NodeJS.Timeout | null>(null);
+
+    const formats = scope === 'all' ? (Object.keys(EXPORT_FORMATS) as ExportFormat[]) : SHOWN_FORMATS;
+    const running = progress?.status === 'ready' || progress?.status === 'running';
 
-    const handleExport = () => {
+    useEffect(() => () => {
+        if (pollRef.current) clearInterval(pollRef.current);
+    }, []);
+
+    const pollProgress = (id: string) => {
+        pollRef.current = setInterval(async () => {
+            try {
+                const res = await fetch(`/api/export/${id}`, { headers: getHeaders() });
+                const next = await res.json();
+                if (!res.ok) throw new Error(next.error || 'Export not found');
+                setProgress(next);
+                if (next.status !== 'ready' && next.status !== 'running') {
+                    clearInterval(pollRef.current!);
+                    pollRef.current = null;
+                    if (next.status === 'failed') setError(next.error || 'Export failed');
+                }
+            } catch (err: any) {
+                clearInterval(pollRef.current!);
+                pollRef.current = null;
+                setError(err.message);
+            }
+        }, POLL_INTERVAL);
+    };
+
+    const handleExport = async () => {
         const cols = columns.filter(c => selectedColumns.has(c));
-        const options = { filename, includeHeaders };
-
-        switch (format) {
-            case 'csv':
-                exportToCSV(data, cols, options);
-                break;
-            case 'json':
-                exportToJSON(data, cols, options);
-                break;
-            case 'excel':
-                exportToExcel(data, cols, options);
-                break;
+
+        if (scope === 'shown') {
+            const options = { filename, includeHeaders };
+            if (format === 'json') exportToJSON(data, cols, options);
+            else if (format === 'xlsx') exportToExcel(data, cols, options);
+            else exportToCSV(data, cols, options);
+            onClose();
+            return;
+        }
+
+        const request: ExportRequest = {
+            connectionId: connectionId!,
+            query: query!,
+            params,
+            format,
+            columns: cols,
+            filename,
+            includeHeaders,
+            delimiter,
+            tableName: insertTable,
+        };
+
+        setStarting(true);
+        setError('');
+        setProgress(null);
+        try {
+            const res = await fetch('/api/export', { method: 'POST', headers: getHeaders(), body: JSON.stringify(request) });
+            const created = await res.json();
+            if (!res.ok) throw new Error(created.error || 'Export failed');
+            setProgress(created);
+
+            // A plain link lets the browser write the file to disk as it streams in
+            const link = document.createElement('a');
+            link.href = `/api/export/${created.id}/download`;
+            link.download = created.fileName;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+
+            pollProgress(created.id);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setStarting(false);
         }
-        onClose();
+    };
+
+    const handleCancel = async () => {
+        if (!progress) return;
+        await fetch(`/api/export/${progress.id}`, { method: 'DELETE', headers: getHeaders() });
     };
 
     const toggleColumn = (col: string) => {
@@ -50,6 +152,11 @@ export function ExportModal({ data, columns, tableName = 'export', onClose }: Ex
     const selectAll = () => setSelectedColumns(new Set(columns));
     const selectNone = () => setSelectedColumns(new Set());
 
+    const changeScope = (next: ExportScope) => {
+        setScope(next);
+        if (next === 'shown' && !SHOWN_FORMATS.includes(format)) setFormat('csv');
+    };
+
     return (
         <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
             <div className="bg-card border border-border rounded-lg shadow-xl w-full max-w-lg">
@@ -64,40 +171,47 @@ export function ExportModal({ data, columns, tableName = 'export', onClose }: Ex
                 </div>
 
                 <div className="p-4 space-y-4">
+                    {/* Scope */}
+                    {canExportAll && (
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Rows</label>
+                            <div className="flex gap-2 text-sm">
+                                <button
+                                    onClick={() => changeScope('all')}
+                                    className={`flex-1 p-2 rounded-lg border transition ${scope === 'all' ? 'border-primary bg-primary/10 text-primary' : 'border-border hover:bg-accent'}`}
+                                >
+                                    All rows (run the query again)
+                                </button>
+                                <button
+                                    onClick={() => changeScope('shown')}
+                                    className={`flex-1 p-2 rounded-lg border transition ${scope === 'shown' ? 'border-primary bg-primary/10 text-primary' : 'border-border hover:bg-accent'}`}
+                                >
+                                    Rows shown ({data.length.toLocaleString()})
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Format Selection */}
                     <div>
                         <label className="block text-sm font-medium mb-2">Format</label>
-                        <div className="flex gap-2">
-                            <button
-                                onClick={() => setFormat('csv')}
-                                className={`flex-1 p-3 rounded-lg border flex items-center justify-center gap-2 transition ${format === 'csv'
-                                        ? 'border-primary bg-primary/10 text-primary'
-                                        : 'border-border hover:bg-accent'
-                                    }`}
-                            >
-                                <FileText className="w-5 h-5" />
-                                CSV
-                            </button>
-                            <button
-                                onClick={() => setFormat('json')}
-                                className={`flex-1 p-3 rounded-lg border flex items-center justify-center gap-2 transition ${format === 'json'
-                                        ? 'border-primary bg-primary/10 text-primary'
-                                        : 'border-border hover:bg-accent'
-                                    }`}
-                            >
-                                <FileJson className="w-5 h-5" />
-                                JSON
-                            </button>
-                            <button
-                                onClick={() => setFormat('excel')}
-                                className={`flex-1 p-3 rounded-lg border flex items-center justify-center gap-2 transition ${format === 'excel'
-                                        ? 'border-primary bg-primary/10 text-primary'
-                                        : 'border-border hover:bg-accent'
-                                    }`}
-                            >
-                                <FileSpreadsheet className="w-5 h-5" />
-                                Excel
-                            </button>
+                        <div className="grid grid-cols-3 gap-2">
+                            {formats.map(id => {
+                                const Icon = FORMAT_ICONS[id];
+                                return (
+                                    <button
+                                        key={id}
+                                        onClick={() => setFormat(id)}
+                                        className={`p-3 rounded-lg border flex items-center justify-center gap-2 text-sm transition ${format === id
+                                            ? 'border-primary bg-primary/10 text-primary'
+                                            : 'border-border hover:bg-accent'
+                                            }`}
+                                    >
+                                        <Icon className="w-5 h-5" />
+                                        {EXPORT_FORMATS[id].label}
+                                    </button>
+                                );
+                            })}
                         </div>
                     </div>
 
@@ -113,16 +227,44 @@ export function ExportModal({ data, columns, tableName = 'export', onClose }: Ex
                     </div>
 
                     {/* Options */}
-                    <div className="flex items-center gap-4">
-                        <label className="flex items-center gap-2 cursor-pointer">
-                            <input
-                                type="checkbox"
-                                checked={includeHeaders}
-                                onChange={(e) => setIncludeHeaders(e.target.checked)}
-                                className="w-4 h-4 rounded border-border"
-                            />
-                            <span className="text-sm">Include headers</span>
-                        </label>
+                    <div className="flex items-center gap-4 flex-wrap">
+                        {(format === 'csv' || format === 'xlsx') && (
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={includeHeaders}
+                                    onChange={(e) => setIncludeHeaders(e.target.checked)}
+                                    className="w-4 h-4 rounded border-border"
+                                />
+                                <span className="text-sm">Include headers</span>
+                            </label>
+                        )}
+                        {scope === 'all' && format === 'csv' && (
+                            <label className="flex items-center gap-2 text-sm">
+                                Delimiter
+                                <select
+                                    value={delimiter}
+                                    onChange={(e) => setDelimiter(e.target.value)}
+                                    className="px-2 py-1 bg-background border border-border rounded"
+                                >
+                                    <option value=",">Comma</option>
+                                    <option value=";">Semicolon</option>
+                                    <option value={'\t'}>Tab</option>
+                                    <option value="|">Pipe</option>
+                                </select>
+                            </label>
+                        )}
+                        {format === 'sql' && (
+                            <label className="flex items-center gap-2 text-sm flex-1">
+                                Table
+                                <input
+                                    type="text"
+                                    value={insertTable}
+                                    onChange={(e) => setInsertTable(e.target.value)}
+                                    className="flex-1 px-2 py-1 bg-background border border-border rounded font-mono"
+                                />
+                            </label>
+                        )}
                     </div>
 
                     {/* Column Selection */}
@@ -150,26 +292,62 @@ export function ExportModal({ data, columns, tableName = 'export', onClose }: Ex
                         </div>
                     </div>
 
-                    {/* Preview */}
-                    <div className="text-sm text-muted-foreground">
-                        Exporting {data.length} rows, {selectedColumns.size} columns
-                    </div>
+                    {/* Preview / Progress */}
+                    {progress ? (
+                        <div className="space-y-1">
+                            <div className="h-2 bg-muted rounded overflow-hidden">
+                                <div className={`h-full bg-primary w-full ${running ? 'animate-pulse' : ''}`} />
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                                {progress.status === 'ready' && 'Starting download...'}
+                                {progress.status === 'running' && `Writing ${progress.fileName}: `}
+                                {progress.status === 'done' && `Exported ${progress.fileName}: `}
+                                {progress.status === 'cancelled' && 'Export cancelled after '}
+                                {progress.status !== 'ready' && `${progress.rowsWritten.toLocaleString()} rows, ${formatBytes(progress.bytesWritten)}`}
+                            </p>
+                        </div>
+                    ) : (
+                        <div className="text-sm text-muted-foreground">
+                            {scope === 'all'
+                                ? `Exporting every row of the query, ${selectedColumns.size} columns`
+                                : `Exporting ${data.length} rows, ${selectedColumns.size} columns`}
+                        </div>
+                    )}
+
+                    {progress?.status === 'done' && (
+                        <div className="flex items-center gap-2 p-3 bg-green-500/10 text-green-500 rounded-lg text-sm">
+                            <CheckCircle className="w-5 h-5 shrink-0" />
+                            Export complete
+                        </div>
+                    )}
+                    {progress?.truncated && (
+                        <div className="flex items-center gap-2 p-3 bg-yellow-500/10 text-yellow-600 rounded-lg text-sm">
+                            <AlertCircle className="w-5 h-5 shrink-0" />
+                            This database cannot stream the query, so only its first rows are exported.
+                        </div>
+                    )}
+                    {error && (
+                        <div className="flex items-center gap-2 p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+                            <AlertCircle className="w-5 h-5 shrink-0" />
+                            {error}
+                        </div>
+                    )}
                 </div>
 
                 <div className="flex justify-end gap-2 p-4 border-t border-border">
                     <button
-                        onClick={onClose}
+                        onClick={running ? handleCancel : onClose}
                         className="px-4 py-2 hover:bg-accent rounded-lg transition"
                     >
-                        Cancel
+                        {running ? 'Stop Export' : progress ? 'Close' : 'Cancel'}
                     </button>
                     <button
                         onClick={handleExport}
-                        disabled={selectedColumns.size === 0}
+                        disabled={selectedColumns.size === 0 || starting || running}
                         className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition flex items-center gap-2 disabled:opacity-50"
                     >
                         <Download className="w-4 h-4" />
-                        Export {format.toUpperCase()}
+                        {starting ? 'Running query...' : `Export ${EXPORT_FORMATS[format].label}`}
                     </button>
                 </div>
             </div>
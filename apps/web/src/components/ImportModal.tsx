@@ -1,107 +1,235 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { Upload, X, FileText, AlertCircle, CheckCircle } from 'lucide-react';
-import { parseCSV, generateInsertSQL } from '@/lib/export-utils';
+import { Upload, X, FileText, AlertCircle, CheckCircle, Table2 } from 'lucide-react';
+import { getCurrentUser } from '@/lib/auth';
+import { PREVIEW_BYTES, detectImportFormat, readImportEvents, suggestMapping } from '@/lib/import-helper';
+import type {
+    ImportErrorMode,
+    ImportFormat,
+    ImportOptions,
+    ImportPreview,
+    ImportRowError,
+    ImportSummary,
+} from '@/lib/import-helper';
+import type { ColumnDef } from '@/lib/sql-helper';
 
 interface ImportModalProps {
-    tableName: string;
     connectionId: string;
+    dbType?: string;
+    schema: string;
+    tableName?: string;  // Omitted to create a new table from the file
     onClose: () => void;
     onSuccess: () => void;
 }
 
-export function ImportModal({ tableName, connectionId, onClose, onSuccess }: ImportModalProps) {
+interface Progress {
+    rowsRead: number;
+    inserted: number;
+    failed: number;
+}
+
+const DOCUMENT_TYPES = ['mongodb', 'mongo', 'ferretdb', 'documentdb', 'cosmosdb'];
+
+function getHeaders(): Record<string, string> {
+    const currentUser = getCurrentUser();
+    const headers: Record<string, string> = {};
+    if (currentUser?.email) headers['x-user-email'] = currentUser.email;
+    if (currentUser?.organizationId) headers['x-org-id'] = currentUser.organizationId;
+    if (currentUser?.id) headers['x-user-id'] = currentUser.id;
+    if (currentUser?.name) headers['x-user-name'] = currentUser.name;
+    return headers;
+}
+
+// Table name from a file name, e.g. "Sales 2024.csv" -> sales_2024
+function tableNameFromFile(fileName: string): string {
+    return fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'imported';
+}
+
+export function ImportModal({ connectionId, dbType = '', schema, tableName, onClose, onSuccess }: ImportModalProps) {
+    const isDocument = DOCUMENT_TYPES.includes(dbType.toLowerCase());
+
     const [file, setFile] = useState<File | null>(null);
-    const [preview, setPreview] = useState<{ data: any[]; columns: string[] } | null>(null);
+    const [format, setFormat] = useState<ImportFormat | null>(null);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [loadingPreview, setLoadingPreview] = useState(false);
+    const [table, setTable] = useState(tableName || '');
+    const [createTable, setCreateTable] = useState(!tableName);
+    const [newColumns, setNewColumns] = useState<(ColumnDef & { source: string; include: boolean })[]>([]);
+    const [mapping, setMapping] = useState<Record<string, string>>({});  // File column -> table column ('' = skip)
+    const [delimiter, setDelimiter] = useState('');
+    const [sheet, setSheet] = useState('');
+    const [onError, setOnError] = useState<ImportErrorMode>('abort');
+    const [dryRun, setDryRun] = useState(false);
+    const [batchSize, setBatchSize] = useState(1000);
+
     const [importing, setImporting] = useState(false);
+    const [progress, setProgress] = useState<Progress | null>(null);
+    const [rowErrors, setRowErrors] = useState<ImportRowError[]>([]);
+    const [summary, setSummary] = useState<ImportSummary | null>(null);
     const [error, setError] = useState('');
-    const [success, setSuccess] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const loadPreview = async (selected: File, selectedFormat: ImportFormat, options: { table: string; delimiter: string; sheet: string }) => {
+        setLoadingPreview(true);
+        setError('');
+        try {
+            // CSV and JSON are previewed from their first megabyte; Excel and Parquet need the whole file
+            const partial = (selectedFormat === 'csv' || selectedFormat === 'json') && selected.size > PREVIEW_BYTES;
+            const body = new FormData();
+            body.append('options', JSON.stringify({
+                action: 'preview',
+                connectionId,
+                schema,
+                table: options.table || tableNameFromFile(selected.name),
+                format: selectedFormat,
+                delimiter: options.delimiter,
+                sheet: options.sheet,
+                partial,
+            }));
+            body.append('file', partial ? selected.slice(0, PREVIEW_BYTES) : selected, selected.name);
+
+            const res = await fetch('/api/import', { method: 'POST', headers: getHeaders(), body });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to read the file');
+
+            const result = data as ImportPreview;
+            setPreview(result);
+            const creating = !result.target && !isDocument;
+            setCreateTable(creating);
+            setNewColumns(result.suggestedColumns.map((col, i) => ({ ...col, source: result.columns[i], include: true })));
+            const targetColumns = result.target?.map(col => col.name) ?? [];
+            const suggested = isDocument && targetColumns.length === 0
+                ? result.columns.map(source => ({ source, target: source }))
+                : suggestMapping(result.columns, targetColumns);
+            setMapping(Object.fromEntries(result.columns.map(source => [source, suggested.find(m => m.source === source)?.target ?? ''])));
+        } catch (err: any) {
+            setPreview(null);
+            setError(err.message);
+        } finally {
+            setLoadingPreview(false);
+        }
+    };
 
     const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
         if (!selectedFile) return;
 
+        const detected = detectImportFormat(selectedFile.name);
         setFile(selectedFile);
-        setError('');
+        setFormat(detected);
         setPreview(null);
-
-        try {
-            const parsed = await parseCSV(selectedFile);
-            setPreview({
-                data: parsed.data.slice(0, 5), // Preview first 5 rows
-                columns: parsed.columns,
-            });
-        } catch (err: any) {
-            setError(`Failed to parse CSV: ${err.message}`);
+        setSummary(null);
+        setProgress(null);
+        setRowErrors([]);
+        setSheet('');
+        if (!detected) {
+            setError('Unsupported file type. Use CSV, JSON (array or one object per line), Excel or Parquet.');
+            return;
         }
+
+        const name = tableName || tableNameFromFile(selectedFile.name);
+        setTable(name);
+        await loadPreview(selectedFile, detected, { table: name, delimiter, sheet: '' });
     };
 
+    const columnsToImport = () => createTable
+        ? newColumns.filter(col => col.include).map(col => ({ source: col.source, target: col.name }))
+        : Object.entries(mapping).filter(([, target]) => target).map(([source, target]) => ({ source, target }));
+
     const handleImport = async () => {
-        if (!file || !preview) return;
+        if (!file || !format || !preview) return;
+
+        const options: ImportOptions = {
+            connectionId,
+            schema,
+            table,
+            format,
+            mapping: columnsToImport(),
+            createTable: createTable
+                ? newColumns.filter(col => col.include).map(({ name, type, isNullable, isPrimaryKey }) => ({ name, type, isNullable, isPrimaryKey }))
+                : undefined,
+            dryRun,
+            onError,
+            batchSize,
+            delimiter,
+            sheet,
+        };
 
         setImporting(true);
         setError('');
+        setSummary(null);
+        setRowErrors([]);
+        setProgress({ rowsRead: 0, inserted: 0, failed: 0 });
+        abortRef.current = new AbortController();
 
         try {
-            const parsed = await parseCSV(file);
-            const insertSQL = generateInsertSQL(tableName, parsed.data, parsed.columns);
-
-            // Execute the INSERT statements
-            const statements = insertSQL.split(';\n').filter(s => s.trim());
-
-            for (const stmt of statements) {
-                const res = await fetch('/api/query', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        connectionId,
-                        query: stmt,
-                    }),
-                });
-
-                if (!res.ok) {
-                    const data = await res.json();
-                    throw new Error(data.error || 'Import failed');
-                }
+            const body = new FormData();
+            body.append('options', JSON.stringify(options));
+            body.append('file', file, file.name);
+
+            const res = await fetch('/api/import', { method: 'POST', headers: getHeaders(), body, signal: abortRef.current.signal });
+            if (!res.ok) {
+                const data = await res.json();
+                throw new Error(data.error || 'Import failed');
             }
 
-            setSuccess(true);
-            setTimeout(() => {
+            const result: { summary?: ImportSummary } = {};
+            await readImportEvents(res, (event) => {
+                if (event.type === 'progress') {
+                    setProgress({ rowsRead: event.rowsRead, inserted: event.inserted, failed: event.failed });
+                } else if (event.type === 'rowError') {
+                    setRowErrors(prev => [...prev, event.error]);
+                } else if (event.type === 'done') {
+                    result.summary = event.summary;
+                    setProgress({ rowsRead: event.summary.rowsRead, inserted: event.summary.inserted, failed: event.summary.failed });
+                } else {
+                    throw new Error(event.error);
+                }
+            });
+
+            setSummary(result.summary ?? null);
+            if (result.summary && !result.summary.dryRun && result.summary.inserted > 0) {
                 onSuccess();
-                onClose();
-            }, 1500);
+            }
         } catch (err: any) {
-            setError(err.message);
+            setError(err.name === 'AbortError' ? 'Import cancelled' : err.message);
         } finally {
             setImporting(false);
+            abortRef.current = null;
         }
     };
 
+    // Only Excel and Parquet know their row count up front; text imports show an indeterminate bar
+    const estimatedRows = preview?.totalRows;
+    const percent = progress && estimatedRows ? Math.min(100, Math.round((progress.rowsRead / estimatedRows) * 100)) : null;
+    const targetColumns = preview?.target?.map(col => col.name) ?? [];
+    const selectedCount = columnsToImport().length;
+
     return (
         <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-            <div className="bg-card border border-border rounded-lg shadow-xl w-full max-w-2xl">
+            <div className="bg-card border border-border rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
                 <div className="flex items-center justify-between p-4 border-b border-border">
                     <h3 className="font-semibold flex items-center gap-2">
                         <Upload className="w-5 h-5 text-primary" />
-                        Import Data to {tableName}
+                        {tableName ? `Import Data to ${schema ? `${schema}.` : ''}${tableName}` : `Import File into ${schema || 'Database'}`}
                     </h3>
-                    <button onClick={onClose} className="p-1 hover:bg-accent rounded transition">
+                    <button onClick={() => { abortRef.current?.abort(); onClose(); }} className="p-1 hover:bg-accent rounded transition">
                         <X className="w-5 h-5" />
                     </button>
                 </div>
 
-                <div className="p-4 space-y-4">
+                <div className="p-4 space-y-4 overflow-y-auto">
                     {/* File Upload */}
                     <div
-                        onClick={() => fileInputRef.current?.click()}
-                        className="border-2 border-dashed border-border rounded-lg p-8 text-center cursor-pointer hover:border-primary hover:bg-primary/5 transition"
+                        onClick={() => !importing && fileInputRef.current?.click()}
+                        className="border-2 border-dashed border-border rounded-lg p-6 text-center cursor-pointer hover:border-primary hover:bg-primary/5 transition"
                     >
                         <input
                             ref={fileInputRef}
                             type="file"
-                            accept=".csv"
+                            accept=".csv,.tsv,.txt,.json,.ndjson,.jsonl,.xlsx,.xls,.parquet"
                             onChange={handleFileSelect}
                             className="hidden"
                         />
@@ -110,64 +238,262 @@ export function ImportModal({ tableName, connectionId, onClose, onSuccess }: Imp
                                 <FileText className="w-8 h-8 text-primary" />
                                 <span className="font-medium">{file.name}</span>
                                 <span className="text-muted-foreground">
-                                    ({(file.size / 1024).toFixed(1)} KB)
+                                    ({(file.size / 1024).toFixed(1)} KB{format ? `, ${format.toUpperCase()}` : ''})
                                 </span>
                             </div>
                         ) : (
                             <>
                                 <Upload className="w-12 h-12 mx-auto text-muted-foreground mb-2" />
                                 <p className="text-muted-foreground">
-                                    Click to upload CSV file or drag and drop
+                                    Click to upload a CSV, JSON, Excel or Parquet file
                                 </p>
                             </>
                         )}
                     </div>
 
+                    {loadingPreview && <p className="text-sm text-muted-foreground">Reading file...</p>}
+
                     {/* Error */}
                     {error && (
                         <div className="flex items-center gap-2 p-3 bg-destructive/10 text-destructive rounded-lg">
-                            <AlertCircle className="w-5 h-5" />
-                            <span>{error}</span>
+                            <AlertCircle className="w-5 h-5 shrink-0" />
+                            <span className="text-sm">{error}</span>
                         </div>
                     )}
 
-                    {/* Success */}
-                    {success && (
-                        <div className="flex items-center gap-2 p-3 bg-green-500/10 text-green-500 rounded-lg">
-                            <CheckCircle className="w-5 h-5" />
-                            <span>Import successful!</span>
+                    {preview && file && format && (
+                        <>
+                            {/* Source options */}
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                                {format === 'csv' && (
+                                    <label className="flex flex-col gap-1">
+                                        <span className="text-muted-foreground">Delimiter</span>
+                                        <input
+                                            value={delimiter}
+                                            onChange={e => setDelimiter(e.target.value)}
+                                            onBlur={() => loadPreview(file, format, { table, delimiter, sheet })}
+                                            placeholder="Auto"
+                                            maxLength={1}
+                                            className="px-2 py-1 bg-background border border-border rounded"
+                                        />
+                                    </label>
+                                )}
+                                {preview.sheets && preview.sheets.length > 1 && (
+                                    <label className="flex flex-col gap-1">
+                                        <span className="text-muted-foreground">Sheet</span>
+                                        <select
+                                            value={sheet || preview.sheets[0]}
+                                            onChange={e => {
+                                                setSheet(e.target.value);
+                                                loadPreview(file, format, { table, delimiter, sheet: e.target.value });
+                                            }}
+                                            className="px-2 py-1 bg-background border border-border rounded"
+                                        >
+                                            {preview.sheets.map(name => <option key={name} value={name}>{name}</option>)}
+                                        </select>
+                                    </label>
+                                )}
+                                {!tableName && (
+                                    <label className="flex flex-col gap-1 col-span-2">
+                                        <span className="text-muted-foreground">{isDocument ? 'Collection' : 'New table name'}</span>
+                                        <input
+                                            value={table}
+                                            onChange={e => setTable(e.target.value)}
+                                            className="px-2 py-1 bg-background border border-border rounded font-mono"
+                                        />
+                                    </label>
+                                )}
+                            </div>
+
+                            {/* Columns */}
+                            <div>
+                                <label className="block text-sm font-medium mb-2 flex items-center gap-2">
+                                    <Table2 className="w-4 h-4" />
+                                    {createTable ? 'New table columns' : 'Column mapping'}
+                                    <span className="text-xs text-muted-foreground font-normal">
+                                        {selectedCount} of {preview.columns.length} file columns imported
+                                    </span>
+                                </label>
+                                <div className="overflow-x-auto border border-border rounded-lg max-h-64">
+                                    <table className="w-full text-sm">
+                                        <thead className="bg-muted sticky top-0">
+                                            <tr>
+                                                <th className="px-3 py-2 text-left font-medium">File column</th>
+                                                <th className="px-3 py-2 text-left font-medium">Sample</th>
+                                                {createTable ? (
+                                                    <>
+                                                        <th className="px-3 py-2 text-left font-medium">Column</th>
+                                                        <th className="px-3 py-2 text-left font-medium">Type</th>
+                                                        <th className="px-3 py-2 text-center font-medium">Null</th>
+                                                        <th className="px-3 py-2 text-center font-medium">PK</th>
+                                                    </>
+                                                ) : (
+                                                    <th className="px-3 py-2 text-left font-medium">Table column</th>
+                                                )}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {preview.columns.map((source, i) => {
+                                                const def = newColumns[i];
+                                                const update = (patch: Partial<ColumnDef & { include: boolean }>) =>
+                                                    setNewColumns(prev => prev.map((col, j) => (j === i ? { ...col, ...patch } : col)));
+                                                return (
+                                                    <tr key={source} className="border-t border-border">
+                                                        <td className="px-3 py-1.5 font-mono">
+                                                            {createTable ? (
+                                                                <label className="flex items-center gap-2">
+                                                                    <input type="checkbox" checked={def?.include} onChange={e => update({ include: e.target.checked })} />
+                                                                    {source}
+                                                                </label>
+                                                            ) : source}
+                                                        </td>
+                                                        <td className="px-3 py-1.5 text-muted-foreground truncate max-w-[10rem]">
+                                                            {preview.rows.slice(0, 3).map(row => formatSample(row[i])).join(', ')}
+                                                        </td>
+                                                        {createTable && def ? (
+                                                            <>
+                                                                <td className="px-3 py-1.5">
+                                                                    <input
+                                                                        value={def.name}
+                                                                        onChange={e => update({ name: e.target.value })}
+                                                                        className="w-full px-2 py-0.5 bg-background border border-border rounded font-mono"
+                                                                    />
+                                                                </td>
+                                                                <td className="px-3 py-1.5">
+                                                                    <input
+                                                                        value={def.type}
+                                                                        onChange={e => update({ type: e.target.value })}
+                                                                        className="w-full px-2 py-0.5 bg-background border border-border rounded font-mono"
+                                                                    />
+                                                                </td>
+                                                                <td className="px-3 py-1.5 text-center">
+                                                                    <input type="checkbox" checked={def.isNullable} onChange={e => update({ isNullable: e.target.checked })} />
+                                                                </td>
+                                                                <td className="px-3 py-1.5 text-center">
+                                                                    <input type="checkbox" checked={def.isPrimaryKey} onChange={e => update({ isPrimaryKey: e.target.checked })} />
+                                                                </td>
+                                                            </>
+                                                        ) : isDocument ? (
+                                                            <td className="px-3 py-1.5">
+                                                                <input
+                                                                    value={mapping[source] ?? ''}
+                                                                    onChange={e => setMapping(prev => ({ ...prev, [source]: e.target.value }))}
+                                                                    list="import-target-fields"
+                                                                    placeholder="Skip"
+                                                                    className="w-full px-2 py-0.5 bg-background border border-border rounded font-mono"
+                                                                />
+                                                            </td>
+                                                        ) : (
+                                                            <td className="px-3 py-1.5">
+                                                                <select
+                                                                    value={mapping[source] ?? ''}
+                                                                    onChange={e => setMapping(prev => ({ ...prev, [source]: e.target.value }))}
+                                                                    className="w-full px-2 py-0.5 bg-background border border-border rounded font-mono"
+                                                                >
+                                                                    <option value="">Skip</option>
+                                                                    {preview.target?.map(col => (
+                                                                        <option key={col.name} value={col.name}>
+                                                                            {col.name} ({col.dataType}{col.nullable ? '' : ', not null'})
+                                                                        </option>
+                                                                    ))}
+                                                                </select>
+                                                            </td>
+                                                        )}
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                    {isDocument && (
+                                        <datalist id="import-target-fields">
+                                            {targetColumns.map(name => <option key={name} value={name} />)}
+                                        </datalist>
+                                    )}
+                                </div>
+                                {createTable && (
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                        Types are guessed from the first rows; edit them before importing.
+                                    </p>
+                                )}
+                            </div>
+
+                            {/* Import options */}
+                            <div className="flex flex-wrap items-center gap-4 text-sm">
+                                <label className="flex items-center gap-2">
+                                    <span className="text-muted-foreground">On error</span>
+                                    <select
+                                        value={onError}
+                                        onChange={e => setOnError(e.target.value as ImportErrorMode)}
+                                        className="px-2 py-1 bg-background border border-border rounded"
+                                    >
+                                        <option value="abort">Stop and import nothing</option>
+                                        <option value="skip">Skip bad rows</option>
+                                    </select>
+                                </label>
+                                <label className="flex items-center gap-2">
+                                    <span className="text-muted-foreground">Batch size</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={10000}
+                                        value={batchSize}
+                                        onChange={e => setBatchSize(Number(e.target.value) || 1000)}
+                                        className="w-24 px-2 py-1 bg-background border border-border rounded"
+                                    />
+                                </label>
+                                <label className="flex items-center gap-2">
+                                    <input type="checkbox" checked={dryRun} onChange={e => setDryRun(e.target.checked)} />
+                                    Dry run (check every row, insert nothing)
+                                </label>
+                            </div>
+                        </>
+                    )}
+
+                    {/* Progress */}
+                    {progress && (
+                        <div className="space-y-1">
+                            <div className="h-2 bg-muted rounded overflow-hidden">
+                                <div
+                                    className={`h-full bg-primary transition-all ${percent === null && importing ? 'animate-pulse w-full' : ''}`}
+                                    style={percent !== null ? { width: `${summary ? 100 : percent}%` } : undefined}
+                                />
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                {progress.rowsRead.toLocaleString()} rows read
+                                {estimatedRows ? ` of ${estimatedRows.toLocaleString()}` : ''}
+                                {' · '}{progress.inserted.toLocaleString()} {dryRun ? 'valid' : 'inserted'}
+                                {' · '}{progress.failed.toLocaleString()} failed
+                            </p>
                         </div>
                     )}
 
-                    {/* Preview */}
-                    {preview && (
+                    {/* Summary */}
+                    {summary && (
+                        <div className={`flex items-start gap-2 p-3 rounded-lg ${summary.rolledBack || summary.failed > 0 ? 'bg-yellow-500/10 text-yellow-600' : 'bg-green-500/10 text-green-500'}`}>
+                            <CheckCircle className="w-5 h-5 shrink-0" />
+                            <span className="text-sm">
+                                {summary.dryRun
+                                    ? `Dry run: ${summary.inserted.toLocaleString()} of ${summary.rowsRead.toLocaleString()} rows would be imported.`
+                                    : summary.rolledBack
+                                        ? 'Import stopped at a bad row. No rows were kept where the database supports transactions.'
+                                        : `Imported ${summary.inserted.toLocaleString()} of ${summary.rowsRead.toLocaleString()} rows ${summary.method === 'bulk' ? 'with the native bulk loader' : 'with batched INSERTs'} in ${(summary.executionTime / 1000).toFixed(1)}s.`}
+                                {summary.createdTable && !summary.dryRun && !summary.rolledBack ? ` Created table ${table}.` : ''}
+                            </span>
+                        </div>
+                    )}
+
+                    {/* Row errors */}
+                    {rowErrors.length > 0 && (
                         <div>
-                            <label className="block text-sm font-medium mb-2">
-                                Preview (first 5 rows, {preview.columns.length} columns)
+                            <label className="block text-sm font-medium mb-2 text-destructive">
+                                Rejected rows {progress && progress.failed > rowErrors.length ? `(first ${rowErrors.length} of ${progress.failed.toLocaleString()})` : `(${rowErrors.length})`}
                             </label>
-                            <div className="overflow-x-auto border border-border rounded-lg">
-                                <table className="w-full text-sm">
-                                    <thead className="bg-muted">
-                                        <tr>
-                                            {preview.columns.map(col => (
-                                                <th key={col} className="px-3 py-2 text-left font-medium">
-                                                    {col}
-                                                </th>
-                                            ))}
-                                        </tr>
-                                    </thead>
-                                    <tbody>
-                                        {preview.data.map((row, i) => (
-                                            <tr key={i} className="border-t border-border">
-                                                {preview.columns.map(col => (
-                                                    <td key={col} className="px-3 py-2 truncate max-w-xs">
-                                                        {row[col]}
-                                                    </td>
-                                                ))}
-                                            </tr>
-                                        ))}
-                                    </tbody>
-                                </table>
+                            <div className="border border-border rounded-lg max-h-40 overflow-y-auto text-xs font-mono">
+                                {rowErrors.map((rowError, i) => (
+                                    <div key={i} className="px-3 py-1 border-b border-border last:border-0">
+                                        <span className="text-muted-foreground">Row {rowError.row}:</span> {rowError.message}
+                                    </div>
+                                ))}
                             </div>
                         </div>
                     )}
@@ -175,14 +501,14 @@ export function ImportModal({ tableName, connectionId, onClose, onSuccess }: Imp
 
                 <div className="flex justify-end gap-2 p-4 border-t border-border">
                     <button
-                        onClick={onClose}
+                        onClick={() => (importing ? abortRef.current?.abort() : onClose())}
                         className="px-4 py-2 hover:bg-accent rounded-lg transition"
                     >
-                        Cancel
+                        {importing ? 'Cancel' : summary ? 'Close' : 'Cancel'}
                     </button>
                     <button
                         onClick={handleImport}
-                        disabled={!preview || importing || success}
+                        disabled={!preview || importing || loadingPreview || selectedCount === 0 || !table.trim()}
                         className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition flex items-center gap-2 disabled:opacity-50"
                     >
                         {importing ? (
@@ -193,7 +519,7 @@ export function ImportModal({ tableName, connectionId, onClose, onSuccess }: Imp
                         ) : (
                             <>
                                 <Upload className="w-4 h-4" />
-                                Import Data
+                                {dryRun ? 'Check Rows' : createTable ? 'Create Table & Import' : 'Import Data'}
                             </>
                         )}
                     </button>
@@ -202,3 +528,9 @@ export function ImportModal({ tableName, connectionId, onClose, onSuccess }: Imp
         </div>
     );
 }
+
+function formatSample(value: unknown): string {
+    if (value === null || value === undefined) return 'NULL';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Play, X, Variable } from 'lucide-react';
+
+interface QueryParamsModalProps {
+    query: string;
+    names: string[];
+    initialValues?: Record<string, string>;
+    onClose: () => void;
+    onRun: (params: Record<string, unknown> | null, rawValues: Record<string, string>) => void;
+}
+
+export function QueryParamsModal({ query, names, initialValues = {}, onClose, onRun }: QueryParamsModalProps) {
+    const [values, setValues] = useState<Record<string, string>>(() =>
+        Object.fromEntries(names.map(name => [name, initialValues[name] ?? '']))
+    );
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        // Values are sent as text and cast by the database; NULL (any case) binds a real null
+        const params = Object.fromEntries(
+            names.map(name => [name, values[name].trim().toUpperCase() === 'NULL' ? null : values[name]])
+        );
+        onRun(params, values);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-card border border-border rounded-lg shadow-lg w-full max-w-md">
+                <div className="flex items-center justify-between p-4 border-b border-border">
+                    <h3 className="font-semibold flex items-center gap-2">
+                        <Variable className="w-4 h-4 text-primary" />
+                        Query Parameters
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-accent rounded transition">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-4 space-y-4">
+                    <p className="text-xs text-muted-foreground">
+                        Values are bound by the database driver, never pasted into the SQL. Type NULL for a null value.
+                    </p>
+
+                    {names.map((name, i) => (
+                        <div key={name}>
+                            <label className="block text-sm font-medium mb-1 font-mono">
+                                {/^\d+$/.test(name) ? `$${name}` : `:${name}`}
+                            </label>
+                            <input
+                                type="text"
+                                value={values[name]}
+                                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                                className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:border-primary font-mono text-sm"
+                                autoFocus={i === 0}
+                            />
+                        </div>
+                    ))}
+
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Query Preview</label>
+                        <pre className="text-xs font-mono bg-muted p-2 rounded border border-border overflow-x-auto max-h-24">
+                            {query.slice(0, 300)}{query.length > 300 ? '...' : ''}
+                        </pre>
+                    </div>
+
+                    <div className="flex justify-between gap-2 pt-2">
+                        <button
+                            type="button"
+                            onClick={() => onRun(null, values)}
+                            className="px-3 py-2 text-xs text-muted-foreground hover:bg-accent rounded-lg transition"
+                            title="Send the text as written, e.g. when a colon belongs to the SQL itself"
+                        >
+                            Run without parameters
+                        </button>
+                        <div className="flex gap-2">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="px-4 py-2 text-sm hover:bg-accent rounded-lg transition"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="px-4 py-2 bg-primary text-primary-foreground text-sm rounded-lg hover:bg-primary/90 transition flex items-center gap-2"
+                            >
+                                <Play className="w-4 h-4" />
+                                Run
+                            </button>
+                        </div>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -11,9 +11,13 @@ import {
     Download,
     Upload,
     Star,
-    StarOff
+    StarOff,
+    History,
+    Settings2,
+    Network,
+    Rows
 } from 'lucide-react';
-import { generateSelectSQL, generateInsertSQL, generateUpdateSQL, generateDeleteSQL } from '@/lib/export-utils';
+import { generateSelectSQL, generateInsertSQL, generateUpdateSQL, generateDeleteSQL, generateMongoCommand } from '@/lib/export-utils';
 
 interface TableContextMenuProps {
     x: number;
@@ -21,10 +25,15 @@ interface TableContextMenuProps {
     tableName: string;
     schemaName: string;
     columns?: string[];
+    dbType?: string;
     onClose: () => void;
     onSelectQuery: (sql: string) => void;
     onExport?: () => void;
     onImport?: () => void;
+    onViewHistory?: () => void;
+    onAlterTable?: () => void;
+    onShowDiagram?: () => void;
+    onCompareData?: () => void;
     onToggleFavorite?: () => void;
     isFavorite?: boolean;
 }
@@ -35,15 +44,22 @@ export function TableContextMenu({
     tableName,
     schemaName,
     columns = [],
+    dbType,
     onClose,
     onSelectQuery,
     onExport,
     onImport,
+    onViewHistory,
+    onAlterTable,
+    onShowDiagram,
+    onCompareData,
     onToggleFavorite,
     isFavorite = false,
 }: TableContextMenuProps) {
     const menuRef = useRef<HTMLDivElement>(null);
     const fullTableName = `${schemaName}.${tableName}`;
+    // Collections get shell commands instead of SQL
+    const isMongo = dbType === 'mongodb';
 
     useEffect(() => {
         const handleClickOutside = (e: MouseEvent) => {
@@ -89,23 +105,27 @@ export function TableContextMenu({
             label: 'Query Data',
             icon: Play,
             action: () => {
-                onSelectQuery(generateSelectSQL(fullTableName, undefined, 100));
+                onSelectQuery(isMongo
+                    ? generateMongoCommand(tableName, 'find', [], 100)
+                    : generateSelectSQL(fullTableName, undefined, 100));
                 onClose();
             },
         },
         {
-            label: 'Generate SELECT',
+            label: isMongo ? 'Generate find' : 'Generate SELECT',
             icon: FileText,
             action: () => {
-                onSelectQuery(generateSelectSQL(fullTableName, columns.length > 0 ? columns : undefined));
+                onSelectQuery(isMongo
+                    ? generateMongoCommand(tableName, 'find', columns)
+                    : generateSelectSQL(fullTableName, columns.length > 0 ? columns : undefined));
                 onClose();
             },
         },
         {
-            label: 'Generate INSERT',
+            label: isMongo ? 'Generate insertOne' : 'Generate INSERT',
             icon: FileText,
             action: () => {
-                const template = columns.length > 0
+                const template = isMongo ? generateMongoCommand(tableName, 'insert', columns) : columns.length > 0
                     ? `INSERT INTO ${fullTableName} (${columns.join(', ')})\nVALUES (${columns.map(() => '?').join(', ')});`
                     : `INSERT INTO ${fullTableName} (column1, column2)\nVALUES (value1, value2);`;
                 onSelectQuery(template);
@@ -113,21 +133,47 @@ export function TableContextMenu({
             },
         },
         {
-            label: 'Generate UPDATE',
+            label: isMongo ? 'Generate updateOne' : 'Generate UPDATE',
             icon: Edit,
             action: () => {
-                onSelectQuery(generateUpdateSQL(fullTableName, columns.length > 0 ? columns : ['column']));
+                onSelectQuery(isMongo
+                    ? generateMongoCommand(tableName, 'update', columns)
+                    : generateUpdateSQL(fullTableName, columns.length > 0 ? columns : ['column']));
                 onClose();
             },
         },
         {
-            label: 'Generate DELETE',
+            label: isMongo ? 'Generate deleteOne' : 'Generate DELETE',
             icon: Trash2,
             action: () => {
-                onSelectQuery(generateDeleteSQL(fullTableName));
+                onSelectQuery(isMongo ? generateMongoCommand(tableName, 'delete') : generateDeleteSQL(fullTableName));
                 onClose();
             },
         },
+        ...(onAlterTable ? [{
+            label: 'Alter Table...',
+            icon: Settings2,
+            action: () => {
+                onAlterTable();
+                onClose();
+            },
+        }] as MenuItem[] : []),
+        ...(onShowDiagram ? [{
+            label: 'Show in ER Diagram',
+            icon: Network,
+            action: () => {
+                onShowDiagram();
+                onClose();
+            },
+        }] as MenuItem[] : []),
+        ...(onCompareData ? [{
+            label: 'Compare Data...',
+            icon: Rows,
+            action: () => {
+                onCompareData();
+                onClose();
+            },
+        }] as MenuItem[] : []),
         { divider: true },
         {
             label: 'Copy Table Name',
@@ -153,6 +199,14 @@ export function TableContextMenu({
                 onClose();
             },
         }] as MenuItem[] : []),
+        ...(onViewHistory ? [{
+            label: 'Column Blame & History',
+            icon: History,
+            action: () => {
+                onViewHistory();
+                onClose();
+            },
+        }] as MenuItem[] : []),
         ...(onToggleFavorite ? [{
             divider: true,
         }, {
@@ -0,0 +1,185 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { buildChartSeries, ChartSeries } from '@/lib/time-series';
+
+interface TimeSeriesChartProps {
+    rows: Record<string, any>[];
+    columns: string[];
+    timeColumn: string;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 340;
+const MARGIN = { top: 16, right: 24, bottom: 32, left: 64 };
+const COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#6366f1', '#84cc16'];
+
+export function TimeSeriesChart({ rows, columns, timeColumn }: TimeSeriesChartProps) {
+    const [hoverX, setHoverX] = useState<number | null>(null);
+    const [hidden, setHidden] = useState<Set<string>>(new Set());
+
+    const { series, truncated } = useMemo(() => buildChartSeries(columns, rows, timeColumn), [columns, rows, timeColumn]);
+    const visible = series.filter((s) => !hidden.has(s.name));
+
+    const bounds = useMemo(() => {
+        let minTime = Infinity, maxTime = -Infinity, minValue = Infinity, maxValue = -Infinity;
+        for (const s of visible) {
+            for (const p of s.points) {
+                minTime = Math.min(minTime, p.time);
+                maxTime = Math.max(maxTime, p.time);
+                minValue = Math.min(minValue, p.value);
+                maxValue = Math.max(maxValue, p.value);
+            }
+        }
+        if (minTime === Infinity) return null;
+        // Flat lines and single points still need a range to draw into
+        if (minTime === maxTime) { minTime -= 1000; maxTime += 1000; }
+        if (minValue === maxValue) { minValue -= 1; maxValue += 1; }
+        return { minTime, maxTime, minValue, maxValue };
+    }, [visible]);
+
+    if (series.length === 0) {
+        return (
+            <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+                No numeric columns to chart
+            </div>
+        );
+    }
+
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const x = (time: number) => bounds ? MARGIN.left + ((time - bounds.minTime) / (bounds.maxTime - bounds.minTime)) * plotWidth : 0;
+    const y = (value: number) => bounds ? MARGIN.top + (1 - (value - bounds.minValue) / (bounds.maxValue - bounds.minValue)) * plotHeight : 0;
+    const colorOf = (s: ChartSeries) => COLORS[series.indexOf(s) % COLORS.length];
+
+    const timeTicks = bounds ? ticks(bounds.minTime, bounds.maxTime, 6) : [];
+    const valueTicks = bounds ? ticks(bounds.minValue, bounds.maxValue, 5) : [];
+    const spansDays = bounds ? bounds.maxTime - bounds.minTime > 24 * 60 * 60 * 1000 : false;
+
+    // Values of every visible series at the sample nearest to the pointer
+    const hoverTime = bounds && hoverX !== null
+        ? bounds.minTime + ((hoverX - MARGIN.left) / plotWidth) * (bounds.maxTime - bounds.minTime)
+        : null;
+    const hoverValues = hoverTime === null ? [] : visible.map((s) => ({ series: s, point: nearest(s.points, hoverTime) }))
+        .filter((h): h is { series: ChartSeries; point: { time: number; value: number } } => h.point !== null);
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="relative flex-1 min-h-0">
+                <svg
+                    viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                    className="w-full h-full"
+                    onMouseMove={(e) => {
+                        const rect = e.currentTarget.getBoundingClientRect();
+                        const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+                        setHoverX(svgX >= MARGIN.left && svgX <= WIDTH - MARGIN.right ? svgX : null);
+                    }}
+                    onMouseLeave={() => setHoverX(null)}
+                >
+                    {valueTicks.map((v) => (
+                        <g key={`v${v}`}>
+                            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(v)} y2={y(v)} className="stroke-border" strokeWidth={1} />
+                            <text x={MARGIN.left - 8} y={y(v) + 4} textAnchor="end" className="fill-muted-foreground" fontSize={11}>
+                                {formatValue(v)}
+                            </text>
+                        </g>
+                    ))}
+                    {timeTicks.map((t) => (
+                        <text key={`t${t}`} x={x(t)} y={HEIGHT - 10} textAnchor="middle" className="fill-muted-foreground" fontSize={11}>
+                            {formatTime(t, spansDays)}
+                        </text>
+                    ))}
+
+                    {visible.map((s) => (
+                        <polyline
+                            key={s.name}
+                            points={s.points.map((p) => `${x(p.time).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ')}
+                            fill="none"
+                            stroke={colorOf(s)}
+                            strokeWidth={1.5}
+                            strokeLinejoin="round"
+                        />
+                    ))}
+
+                    {hoverX !== null && (
+                        <g pointerEvents="none">
+                            <line x1={hoverX} x2={hoverX} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} className="stroke-muted-foreground" strokeDasharray="3 3" />
+                            {hoverValues.map(({ series: s, point }) => (
+                                <circle key={s.name} cx={x(point.time)} cy={y(point.value)} r={3} fill={colorOf(s)} />
+                            ))}
+                        </g>
+                    )}
+                </svg>
+
+                {hoverX !== null && hoverValues.length > 0 && (
+                    <div
+                        className="absolute top-2 pointer-events-none bg-popover border border-border rounded shadow-md px-2 py-1 text-xs max-w-xs"
+                        style={hoverX > WIDTH / 2 ? { right: `${((WIDTH - hoverX) / WIDTH) * 100 + 1}%` } : { left: `${(hoverX / WIDTH) * 100 + 1}%` }}
+                    >
+                        <div className="font-medium mb-1">{new Date(hoverValues[0].point.time).toLocaleString()}</div>
+                        {hoverValues.slice(0, 10).map(({ series: s, point }) => (
+                            <div key={s.name} className="flex items-center gap-1 truncate">
+                                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: colorOf(s) }} />
+                                <span className="truncate text-muted-foreground">{s.name}</span>
+                                <span className="ml-auto font-mono pl-2">{formatValue(point.value)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-x-3 gap-y-1 px-3 py-2 border-t border-border text-xs">
+                {series.map((s) => (
+                    <button
+                        key={s.name}
+                        onClick={() => setHidden(prev => {
+                            const next = new Set(prev);
+                            if (next.has(s.name)) next.delete(s.name); else next.add(s.name);
+                            return next;
+                        })}
+                        className={`flex items-center gap-1 hover:underline ${hidden.has(s.name) ? 'opacity-40' : ''}`}
+                        title="Show or hide this series"
+                    >
+                        <span className="w-3 h-0.5" style={{ backgroundColor: colorOf(s) }} />
+                        {s.name}
+                    </button>
+                ))}
+                {truncated && (
+                    <span className="text-muted-foreground italic">More series not shown - narrow the query to see them</span>
+                )}
+            </div>
+        </div>
+    );
+}
+
+// Evenly spaced round values between min and max
+function ticks(min: number, max: number, count: number): number[] {
+    const raw = (max - min) / count;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+    const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= raw) || raw;
+    const result: number[] = [];
+    for (let v = Math.ceil(min / step) * step; v <= max; v += step) {
+        result.push(v);
+    }
+    return result;
+}
+
+function nearest(points: { time: number; value: number }[], time: number): { time: number; value: number } | null {
+    let best: { time: number; value: number } | null = null;
+    for (const p of points) {
+        if (!best || Math.abs(p.time - time) < Math.abs(best.time - time)) best = p;
+    }
+    return best;
+}
+
+function formatValue(value: number): string {
+    if (Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-3)) return value.toExponential(2);
+    return Number(value.toFixed(3)).toLocaleString();
+}
+
+function formatTime(time: number, withDate: boolean): string {
+    const date = new Date(time);
+    return withDate
+        ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }) + ' ' + date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useMemo, ReactNode } from 'react';
 import { X, CheckCircle, AlertCircle, Info, AlertTriangle } from 'lucide-react';
 
 type ToastType = 'success' | 'error' | 'info' | 'warning';
@@ -44,13 +44,14 @@ export function ToastProvider({ children }: { children: ReactNode }) {
         setToasts(prev => prev.filter(t => t.id !== id));
     }, []);
 
-    const contextValue: ToastContextType = {
+    // Kept stable so pages can list `toast` in hook dependencies without re-running on every toast
+    const contextValue = useMemo<ToastContextType>(() => ({
         showToast,
         success: (msg, action, duration) => showToast(msg, 'success', action, duration),
         error: (msg, action, duration) => showToast(msg, 'error', action, duration),
         info: (msg, action, duration) => showToast(msg, 'info', action, duration),
         warning: (msg, action, duration) => showToast(msg, 'warning', action, duration),
-    };
+    }), [showToast]);
 
     return (
         <ToastContext.Provider value={contextValue}>
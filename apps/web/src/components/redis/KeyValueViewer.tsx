@@ -0,0 +1,559 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Check, Clock, Loader2, Pencil, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import type { RedisKeyChange, RedisKeyValue } from '@bosdb/core';
+import { REDIS_TYPES, formatTTL } from '@/lib/redis-keys';
+import { formatBytes } from '@/lib/export-helper';
+import { useToast } from '@/components/ToastProvider';
+
+interface KeyValueViewerProps {
+    connectionId: string;
+    db: string;
+    keyName: string;
+    readOnly?: boolean;
+    getHeaders: () => HeadersInit;
+    onRenamed: (newKey: string) => void;
+    onDeleted: () => void;
+    onTTLChanged: (ttl: number) => void;
+}
+
+/**
+ * Type-aware view of one Redis key: strings and JSON documents as text, hashes, lists, sets,
+ * sorted sets and streams as tables with per-item edits. Every edit is one command and the key
+ * is re-read afterwards, so the view always shows what the server holds.
+ */
+export function KeyValueViewer({ connectionId, db, keyName, readOnly, getHeaders, onRenamed, onDeleted, onTTLChanged }: KeyValueViewerProps) {
+    const toast = useToast();
+    const [data, setData] = useState<RedisKeyValue | null>(null);
+    const [items, setItems] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [error, setError] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [ttlDraft, setTtlDraft] = useState<string | null>(null);
+    const [renameDraft, setRenameDraft] = useState<string | null>(null);
+
+    const fetchPage = useCallback(async (cursor?: string) => {
+        const params = new URLSearchParams({ connectionId, db, key: keyName });
+        if (cursor) params.set('cursor', cursor);
+        const res = await fetch(`/api/redis/key?${params}`, { headers: getHeaders() });
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || 'Failed to read key');
+        return body as RedisKeyValue;
+    }, [connectionId, db, keyName, getHeaders]);
+
+    const load = useCallback(async () => {
+        setLoading(true);
+        setError('');
+        try {
+            const page = await fetchPage();
+            setData(page);
+            setItems(Array.isArray(page.value) ? page.value : []);
+        } catch (err: any) {
+            setError(err.message);
+            setData(null);
+        } finally {
+            setLoading(false);
+        }
+    }, [fetchPage]);
+
+    useEffect(() => {
+        setTtlDraft(null);
+        setRenameDraft(null);
+        load();
+    }, [load]);
+
+    const loadMore = async () => {
+        if (!data?.cursor) return;
+        setLoadingMore(true);
+        try {
+            const page = await fetchPage(data.cursor);
+            setData({ ...page, value: data.value });
+            // HSCAN and SSCAN may return an item again on a later page
+            setItems(prev => {
+                const seen = new Set(prev.map(item => JSON.stringify(item)));
+                return [...prev, ...(page.value as any[]).filter(item => !seen.has(JSON.stringify(item)))];
+            });
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const apply = async (change: RedisKeyChange): Promise<boolean> => {
+        setBusy(true);
+        try {
+            const res = await fetch('/api/redis/key', {
+                method: 'POST',
+                headers: { ...getHeaders(), 'Content-Type': 'application/json' },
+                body: JSON.stringify({ connectionId, db, key: keyName, change }),
+            });
+            const body = await res.json();
+            if (!res.ok) throw new Error(body.error || 'Update failed');
+            return true;
+        } catch (err: any) {
+            toast.error(err.message);
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    // Edits that leave the key in place re-read it
+    const applyAndReload = async (change: RedisKeyChange) => {
+        if (await apply(change)) await load();
+    };
+
+    const saveTTL = async (ttl: number | null) => {
+        if (await apply({ op: 'expire', ttl })) {
+            setTtlDraft(null);
+            onTTLChanged(ttl ?? -1);
+            await load();
+        }
+    };
+
+    const rename = async () => {
+        const newKey = renameDraft?.trim();
+        if (!newKey || newKey === keyName) {
+            setRenameDraft(null);
+            return;
+        }
+        if (await apply({ op: 'rename', newKey })) {
+            toast.success(`Renamed to ${newKey}`);
+            onRenamed(newKey);
+        }
+    };
+
+    const remove = async () => {
+        if (!confirm(`Delete key "${keyName}"? This cannot be undone.`)) return;
+        if (await apply({ op: 'delete' })) {
+            toast.success(`Deleted ${keyName}`);
+            onDeleted();
+        }
+    };
+
+    if (loading && !data) {
+        return (
+            <div className="h-full flex items-center justify-center text-muted-foreground">
+                <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+        );
+    }
+
+    if (error || !data) {
+        return (
+            <div className="h-full flex flex-col items-center justify-center gap-3 text-sm">
+                <p className="text-destructive">{error || 'Key not found'}</p>
+                <button onClick={load} className="px-3 py-1 border border-border rounded hover:bg-accent">Retry</button>
+            </div>
+        );
+    }
+
+    const typeInfo = REDIS_TYPES[data.type] || { label: data.type.toUpperCase(), className: 'bg-muted text-muted-foreground' };
+    const editable = !readOnly && !busy;
+
+    return (
+        <div className="h-full flex flex-col">
+            {/* Key header */}
+            <div className="border-b border-border p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded ${typeInfo.className}`}>{typeInfo.label}</span>
+                    {renameDraft !== null ? (
+                        <form className="flex-1 flex items-center gap-1" onSubmit={e => { e.preventDefault(); rename(); }}>
+                            <input
+                                autoFocus
+                                value={renameDraft}
+                                onChange={e => setRenameDraft(e.target.value)}
+                                className="flex-1 px-2 py-1 bg-background border border-border rounded font-mono text-sm"
+                            />
+                            <button type="submit" disabled={busy} className="p-1 hover:bg-accent rounded" title="Rename"><Check className="w-4 h-4" /></button>
+                            <button type="button" onClick={() => setRenameDraft(null)} className="p-1 hover:bg-accent rounded" title="Cancel"><X className="w-4 h-4" /></button>
+                        </form>
+                    ) : (
+                        <h2 className="flex-1 font-mono text-sm font-semibold break-all">{keyName}</h2>
+                    )}
+                    <button onClick={load} className="p-1.5 hover:bg-accent rounded" title="Reload">
+                        <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                    {!readOnly && renameDraft === null && (
+                        <button onClick={() => setRenameDraft(keyName)} className="p-1.5 hover:bg-accent rounded" title="Rename key">
+                            <Pencil className="w-4 h-4" />
+                        </button>
+                    )}
+                    {!readOnly && (
+                        <button onClick={remove} disabled={busy} className="p-1.5 hover:bg-destructive/10 text-destructive rounded" title="Delete key">
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-4 text-xs text-muted-foreground flex-wrap">
+                    <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        TTL:
+                        {ttlDraft !== null ? (
+                            <form className="flex items-center gap-1" onSubmit={e => { e.preventDefault(); saveTTL(parseInt(ttlDraft, 10)); }}>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    autoFocus
+                                    value={ttlDraft}
+                                    onChange={e => setTtlDraft(e.target.value)}
+                                    className="w-24 px-1 py-0.5 bg-background border border-border rounded text-foreground"
+                                    placeholder="seconds"
+                                    required
+                                />
+                                <button type="submit" disabled={busy} className="p-0.5 hover:bg-accent rounded" title="Set expiry"><Check className="w-3 h-3" /></button>
+                                <button type="button" onClick={() => setTtlDraft(null)} className="p-0.5 hover:bg-accent rounded" title="Cancel"><X className="w-3 h-3" /></button>
+                            </form>
+                        ) : (
+                            <>
+                                <span className="text-foreground">{formatTTL(data.ttl)}</span>
+                                {!readOnly && (
+                                    <button onClick={() => setTtlDraft(data.ttl > 0 ? String(data.ttl) : '3600')} className="text-primary hover:underline">edit</button>
+                                )}
+                                {!readOnly && data.ttl >= 0 && (
+                                    <button onClick={() => saveTTL(null)} disabled={busy} className="text-primary hover:underline">persist</button>
+                                )}
+                            </>
+                        )}
+                    </span>
+                    {data.memory !== undefined && <span>Memory: <span className="text-foreground">{formatBytes(data.memory)}</span></span>}
+                    {data.encoding && <span>Encoding: <span className="text-foreground font-mono">{data.encoding}</span></span>}
+                    <span>{data.type === 'string' || data.type === 'ReJSON-RL' ? 'Length' : 'Items'}: <span className="text-foreground">{data.length.toLocaleString()}</span></span>
+                </div>
+            </div>
+
+            {/* Value */}
+            <div className="flex-1 overflow-auto p-4">
+                {data.type === 'string' && (
+                    <TextValue
+                        value={String(data.value ?? '')}
+                        readOnly={!editable}
+                        onSave={value => applyAndReload({ op: 'set', value })}
+                    />
+                )}
+                {data.type === 'ReJSON-RL' && (
+                    <TextValue
+                        value={JSON.stringify(data.value, null, 2)}
+                        json
+                        readOnly={!editable}
+                        onSave={value => applyAndReload({ op: 'json', value })}
+                    />
+                )}
+                {data.type === 'hash' && (
+                    <ItemTable
+                        columns={['Field', 'Value']}
+                        rows={items.map(item => ({ id: item.field, cells: [item.field, item.value], editIndex: 1 }))}
+                        readOnly={!editable}
+                        onEdit={(row, value) => applyAndReload({ op: 'hset', field: row.id, value })}
+                        onDelete={row => applyAndReload({ op: 'hdel', field: row.id })}
+                        addFields={['Field', 'Value']}
+                        onAdd={([field, value]) => applyAndReload({ op: 'hset', field, value })}
+                    />
+                )}
+                {data.type === 'list' && (
+                    <ItemTable
+                        columns={['Index', 'Value']}
+                        rows={items.map(item => ({ id: String(item.index), cells: [String(item.index), item.value], editIndex: 1 }))}
+                        readOnly={!editable}
+                        onEdit={(row, value) => applyAndReload({ op: 'lset', index: Number(row.id), value })}
+                        onDelete={row => applyAndReload({ op: 'lrem', index: Number(row.id) })}
+                        addFields={['Value']}
+                        addLabel="Push to tail"
+                        onAdd={([value]) => applyAndReload({ op: 'rpush', value })}
+                        extraAdd={{ label: 'Push to head', onAdd: ([value]) => applyAndReload({ op: 'lpush', value }) }}
+                    />
+                )}
+                {data.type === 'set' && (
+                    <ItemTable
+                        columns={['Member']}
+                        rows={items.map(member => ({ id: member, cells: [member] }))}
+                        readOnly={!editable}
+                        onDelete={row => applyAndReload({ op: 'srem', member: row.id })}
+                        addFields={['Member']}
+                        onAdd={([member]) => applyAndReload({ op: 'sadd', member })}
+                    />
+                )}
+                {data.type === 'zset' && (
+                    <ItemTable
+                        columns={['Member', 'Score']}
+                        rows={items.map(item => ({ id: item.member, cells: [item.member, String(item.score)], editIndex: 1 }))}
+                        readOnly={!editable}
+                        onEdit={(row, value) => scoreChange(row.id, value)}
+                        onDelete={row => applyAndReload({ op: 'zrem', member: row.id })}
+                        addFields={['Member', 'Score']}
+                        onAdd={([member, score]) => scoreChange(member, score)}
+                    />
+                )}
+                {data.type === 'stream' && (
+                    <ItemTable
+                        columns={['ID', 'Fields']}
+                        rows={items.map(entry => ({
+                            id: entry.id,
+                            cells: [entry.id, Object.entries(entry.fields).map(([k, v]) => `${k}=${v}`).join('  ')],
+                        }))}
+                        readOnly={!editable}
+                        onDelete={row => applyAndReload({ op: 'xdel', id: row.id })}
+                        addFields={['Fields as JSON, e.g. {"event": "login"}']}
+                        addLabel="Add entry"
+                        onAdd={([json]) => streamEntry(json)}
+                    />
+                )}
+                {!['string', 'ReJSON-RL', 'hash', 'list', 'set', 'zset', 'stream'].includes(data.type) && (
+                    <div className="text-sm text-muted-foreground">
+                        Keys of type <span className="font-mono">{data.type}</span> can&apos;t be shown here. Use the query editor to run its module&apos;s commands.
+                    </div>
+                )}
+
+                {data.cursor && (
+                    <div className="mt-3 flex items-center gap-3 text-xs text-muted-foreground">
+                        <button
+                            onClick={loadMore}
+                            disabled={loadingMore}
+                            className="px-3 py-1 border border-border rounded hover:bg-accent transition disabled:opacity-50"
+                        >
+                            {loadingMore ? 'Loading...' : 'Load more'}
+                        </button>
+                        Showing {items.length.toLocaleString()} of {data.length.toLocaleString()}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+
+    function scoreChange(member: string, score: string) {
+        const value = Number(score);
+        if (score.trim() === '' || isNaN(value)) {
+            toast.error('Score must be a number');
+            return Promise.resolve();
+        }
+        return applyAndReload({ op: 'zadd', member, score: value });
+    }
+
+    function streamEntry(json: string) {
+        let fields: Record<string, string>;
+        try {
+            const parsed = JSON.parse(json);
+            if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+            fields = Object.fromEntries(Object.entries(parsed).map(([k, v]) => [k, typeof v === 'string' ? v : JSON.stringify(v)]));
+        } catch {
+            toast.error('Fields must be a JSON object');
+            return Promise.resolve();
+        }
+        return applyAndReload({ op: 'xadd', fields });
+    }
+}
+
+// ============ Strings and JSON documents ============
+
+function TextValue({ value, json, readOnly, onSave }: { value: string; json?: boolean; readOnly: boolean; onSave: (value: string) => Promise<void> }) {
+    const [draft, setDraft] = useState(value);
+    const [pretty, setPretty] = useState(false);
+
+    useEffect(() => {
+        setDraft(value);
+        setPretty(false);
+    }, [value]);
+
+    // Strings that hold JSON can be shown formatted; saving writes them back compact
+    const parsed = (() => {
+        if (json) return null;
+        try {
+            const result = JSON.parse(value);
+            return typeof result === 'object' && result !== null ? result : null;
+        } catch {
+            return null;
+        }
+    })();
+
+    const invalidJson = (json || pretty) && (() => {
+        try {
+            JSON.parse(draft);
+            return false;
+        } catch {
+            return true;
+        }
+    })();
+
+    return (
+        <div className="h-full flex flex-col gap-2">
+            {parsed && (
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <input
+                        type="checkbox"
+                        checked={pretty}
+                        onChange={e => {
+                            setPretty(e.target.checked);
+                            setDraft(e.target.checked ? JSON.stringify(parsed, null, 2) : value);
+                        }}
+                        disabled={draft !== value && !pretty}
+                    />
+                    Format as JSON
+                </label>
+            )}
+            <textarea
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                readOnly={readOnly}
+                spellCheck={false}
+                className="flex-1 min-h-[240px] w-full p-3 bg-background border border-border rounded-lg font-mono text-sm resize-none"
+            />
+            {!readOnly && (
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => {
+                            const compact = pretty ? JSON.stringify(JSON.parse(draft)) : draft;
+                            onSave(compact);
+                        }}
+                        disabled={draft === value || !!invalidJson}
+                        className="px-3 py-1.5 bg-primary text-primary-foreground rounded text-sm hover:bg-primary/90 disabled:opacity-50"
+                    >
+                        Save
+                    </button>
+                    {draft !== value && (
+                        <button onClick={() => { setDraft(value); setPretty(false); }} className="px-3 py-1.5 border border-border rounded text-sm hover:bg-accent">
+                            Discard
+                        </button>
+                    )}
+                    {invalidJson && <span className="text-xs text-destructive">Not valid JSON</span>}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============ Collections ============
+
+interface ItemRow {
+    id: string;
+    cells: string[];
+    editIndex?: number; // Cell that can be edited in place
+}
+
+interface ItemTableProps {
+    columns: string[];
+    rows: ItemRow[];
+    readOnly: boolean;
+    onEdit?: (row: ItemRow, value: string) => Promise<void>;
+    onDelete: (row: ItemRow) => Promise<void>;
+    addFields: string[];
+    addLabel?: string;
+    onAdd: (values: string[]) => Promise<void>;
+    extraAdd?: { label: string; onAdd: (values: string[]) => Promise<void> };
+}
+
+function ItemTable({ columns, rows, readOnly, onEdit, onDelete, addFields, addLabel = 'Add', onAdd, extraAdd }: ItemTableProps) {
+    const [editing, setEditing] = useState<{ id: string; value: string } | null>(null);
+    const [adding, setAdding] = useState<string[]>(addFields.map(() => ''));
+
+    const submitAdd = async (handler: (values: string[]) => Promise<void>) => {
+        if (adding[0] === '') return;
+        await handler(adding);
+        setAdding(addFields.map(() => ''));
+    };
+
+    return (
+        <div className="space-y-3">
+            <table className="w-full text-sm border border-border rounded-lg overflow-hidden">
+                <thead className="bg-muted/50">
+                    <tr>
+                        {columns.map(column => (
+                            <th key={column} className="text-left px-3 py-2 font-medium text-xs text-muted-foreground">{column}</th>
+                        ))}
+                        {!readOnly && <th className="w-20" />}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row.id} className="border-t border-border hover:bg-accent/30 group">
+                            {row.cells.map((cell, i) => (
+                                <td key={i} className="px-3 py-1.5 font-mono text-xs align-top break-all">
+                                    {editing?.id === row.id && row.editIndex === i ? (
+                                        <form
+                                            className="flex items-center gap-1"
+                                            onSubmit={async e => {
+                                                e.preventDefault();
+                                                await onEdit?.(row, editing.value);
+                                                setEditing(null);
+                                            }}
+                                        >
+                                            <input
+                                                autoFocus
+                                                value={editing.value}
+                                                onChange={e => setEditing({ id: row.id, value: e.target.value })}
+                                                className="flex-1 px-1 py-0.5 bg-background border border-border rounded"
+                                            />
+                                            <button type="submit" className="p-0.5 hover:bg-accent rounded"><Check className="w-3 h-3" /></button>
+                                            <button type="button" onClick={() => setEditing(null)} className="p-0.5 hover:bg-accent rounded"><X className="w-3 h-3" /></button>
+                                        </form>
+                                    ) : (
+                                        <span className="whitespace-pre-wrap">{cell}</span>
+                                    )}
+                                </td>
+                            ))}
+                            {!readOnly && (
+                                <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                                    <span className="opacity-0 group-hover:opacity-100 transition">
+                                        {onEdit && row.editIndex !== undefined && (
+                                            <button
+                                                onClick={() => setEditing({ id: row.id, value: row.cells[row.editIndex!] })}
+                                                className="p-1 hover:bg-accent rounded"
+                                                title="Edit"
+                                            >
+                                                <Pencil className="w-3 h-3" />
+                                            </button>
+                                        )}
+                                        <button onClick={() => onDelete(row)} className="p-1 hover:bg-destructive/10 text-destructive rounded" title="Remove">
+                                            <Trash2 className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                </td>
+                            )}
+                        </tr>
+                    ))}
+                    {rows.length === 0 && (
+                        <tr>
+                            <td colSpan={columns.length + 1} className="px-3 py-4 text-center text-xs text-muted-foreground">Empty</td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+
+            {!readOnly && (
+                <form
+                    className="flex items-center gap-2"
+                    onSubmit={e => {
+                        e.preventDefault();
+                        submitAdd(onAdd);
+                    }}
+                >
+                    {addFields.map((placeholder, i) => (
+                        <input
+                            key={placeholder}
+                            value={adding[i]}
+                            onChange={e => setAdding(prev => prev.map((v, j) => j === i ? e.target.value : v))}
+                            placeholder={placeholder}
+                            className="flex-1 px-2 py-1 bg-background border border-border rounded text-sm font-mono"
+                        />
+                    ))}
+                    <button type="submit" className="px-3 py-1 bg-primary text-primary-foreground rounded text-sm hover:bg-primary/90 flex items-center gap-1 whitespace-nowrap">
+                        <Plus className="w-3 h-3" />
+                        {addLabel}
+                    </button>
+                    {extraAdd && (
+                        <button
+                            type="button"
+                            onClick={() => submitAdd(extraAdd.onAdd)}
+                            className="px-3 py-1 border border-border rounded text-sm hover:bg-accent whitespace-nowrap"
+                        >
+                            {extraAdd.label}
+                        </button>
+                    )}
+                </form>
+            )}
+        </div>
+    );
+}
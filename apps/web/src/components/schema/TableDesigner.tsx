@@ -1,12 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { generateCreateTableSQL, TableDef, ColumnDef } from '@/lib/sql-helper';
-import { Plus, Trash2, Save, X, Eye } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { generateCreateTableSQL, generateAlterTableSQL, formatAlterScript, tableDefFromMetadata, TableDef, ColumnDef } from '@/lib/sql-helper';
+import type { Index, ForeignKey } from '@bosdb/core';
+import { Plus, Trash2, Save, X, Eye, Loader2 } from 'lucide-react';
 import { useToast } from '@/components/ToastProvider';
 
 interface TableDesignerProps {
     connectionId: string;
+    dbType?: string;
+    // Set both to alter an existing table instead of creating one
+    schema?: string;
+    tableName?: string;
     onClose: () => void;
     onSuccess: () => void;
 }
@@ -19,31 +24,69 @@ const COMMON_TYPES = [
     'JSONB', 'UUID'
 ];
 
-export default function TableDesigner({ connectionId, onClose, onSuccess }: TableDesignerProps) {
+const REFERENTIAL_ACTIONS = ['NO ACTION', 'CASCADE', 'SET NULL', 'RESTRICT'];
+
+// Comma-separated column lists are edited as text; blanks are dropped before generating SQL
+const splitColumns = (value: string) => value.split(',').map(c => c.trim());
+const withoutBlanks = (def: TableDef): TableDef => ({
+    ...def,
+    indexes: def.indexes?.map(idx => ({ ...idx, columns: idx.columns.filter(Boolean) })),
+    foreignKeys: def.foreignKeys?.map(fk => ({
+        ...fk,
+        columns: fk.columns.filter(Boolean),
+        referencedColumns: fk.referencedColumns.filter(Boolean),
+    })),
+});
+
+export default function TableDesigner({ connectionId, dbType = 'postgresql', schema, tableName, onClose, onSuccess }: TableDesignerProps) {
+    const isAlter = !!tableName;
     const [tableDef, setTableDef] = useState<TableDef>({
         name: '',
         columns: [
             { name: 'id', type: 'SERIAL', isPrimaryKey: true, isNullable: false }
-        ]
+        ],
+        indexes: [],
+        foreignKeys: []
     });
-    const [previewSql, setPreviewSql] = useState('');
+    const [original, setOriginal] = useState<TableDef | null>(null);
+    const [loadingTable, setLoadingTable] = useState(isAlter);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
     const toast = useToast();
 
-    // Auto-update preview when def changes
+    // Alter mode starts from the table as the database describes it
     useEffect(() => {
+        if (!tableName) return;
+
+        const params = new URLSearchParams({ connectionId, table: tableName, schema: schema || 'public' });
+        fetch(`/api/schema/table?${params}`)
+            .then(async res => {
+                const data = await res.json();
+                if (!res.ok) throw new Error(data.error || 'Failed to load table');
+                const def = tableDefFromMetadata(data.tableMetadata);
+                setOriginal(def);
+                setTableDef(def);
+            })
+            .catch(err => setError(err.message))
+            .finally(() => setLoadingTable(false));
+    }, [connectionId, schema, tableName]);
+
+    // Preview follows every edit; in alter mode it is exactly the script that will run
+    const preview = useMemo<{ sql: string; rollbackSQL?: string; steps?: number }>(() => {
         try {
+            if (isAlter) {
+                if (!original) return { sql: '-- Loading table definition...' };
+                const steps = generateAlterTableSQL(original, withoutBlanks(tableDef), schema || 'public', dbType);
+                return steps.length > 0 ? { ...formatAlterScript(steps), steps: steps.length } : { sql: '-- No changes' };
+            }
             if (tableDef.name && tableDef.columns.length > 0) {
-                const sql = generateCreateTableSQL(tableDef);
-                setPreviewSql(sql);
-            } else {
-                setPreviewSql('-- Define table name and at least one column to see SQL');
+                return { sql: generateCreateTableSQL(withoutBlanks(tableDef), 'public', dbType) };
             }
-        } catch (e) {
-            setPreviewSql('-- Invalid definition');
+            return { sql: '-- Define table name and at least one column to see SQL' };
+        } catch (e: any) {
+            return { sql: `-- ${e.message || 'Invalid definition'}` };
         }
-    }, [tableDef]);
+    }, [isAlter, original, tableDef, schema, dbType]);
 
     const handleAddColumn = () => {
         setTableDef(prev => ({
@@ -70,6 +113,20 @@ export default function TableDesigner({ connectionId, onClose, onSuccess }: Tabl
         });
     };
 
+    const updateIndex = (index: number, updates: Partial<Index>) => {
+        setTableDef(prev => ({
+            ...prev,
+            indexes: (prev.indexes || []).map((idx, i) => i === index ? { ...idx, ...updates } : idx)
+        }));
+    };
+
+    const updateForeignKey = (index: number, updates: Partial<ForeignKey>) => {
+        setTableDef(prev => ({
+            ...prev,
+            foreignKeys: (prev.foreignKeys || []).map((fk, i) => i === index ? { ...fk, ...updates } : fk)
+        }));
+    };
+
     const handleSave = async () => {
         setError('');
         setLoading(true);
@@ -77,21 +134,20 @@ export default function TableDesigner({ connectionId, onClose, onSuccess }: Tabl
         try {
             if (!tableDef.name) throw new Error('Table name is required');
             if (tableDef.columns.some(c => !c.name)) throw new Error('All columns must have a name');
+            if (isAlter && !preview.steps) throw new Error('No changes to apply');
 
             const res = await fetch('/api/schema/table', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    connectionId,
-                    action: 'create',
-                    tableDef
-                })
+                body: JSON.stringify(isAlter
+                    ? { connectionId, action: 'alter', schema: schema || 'public', tableDef: withoutBlanks(tableDef), sql: preview.sql }
+                    : { connectionId, action: 'create', tableDef: withoutBlanks(tableDef) })
             });
 
             const data = await res.json();
-            if (!res.ok) throw new Error(data.error || 'Failed to create table');
+            if (!res.ok) throw new Error(data.error || (isAlter ? 'Failed to alter table' : 'Failed to create table'));
 
-            toast.success('Table created successfully!');
+            toast.success(isAlter ? `Table altered (${data.steps} steps)` : 'Table created successfully!');
             onSuccess();
         } catch (err: any) {
             setError(err.message);
@@ -100,13 +156,17 @@ export default function TableDesigner({ connectionId, onClose, onSuccess }: Tabl
         }
     };
 
+    const inputClass = 'w-full px-3 py-1.5 bg-background border border-border rounded text-sm';
+
     return (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
             <div className="bg-background border border-border rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
 
                 {/* Header */}
                 <div className="p-6 border-b border-border flex justify-between items-center">
-                    <h2 className="text-xl font-bold">Create New Table</h2>
+                    <h2 className="text-xl font-bold">
+                        {isAlter ? `Alter Table ${schema || 'public'}.${tableName}` : 'Create New Table'}
+                    </h2>
                     <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
                         <X className="w-5 h-5" />
                     </button>
@@ -121,98 +181,242 @@ export default function TableDesigner({ connectionId, onClose, onSuccess }: Tabl
                         </div>
                     )}
 
-                    {/* Table Name */}
-                    <div>
-                        <label className="block text-sm font-medium mb-2 text-muted-foreground">Table Name</label>
-                        <input
-                            type="text"
-                            value={tableDef.name}
-                            onChange={e => setTableDef(prev => ({ ...prev, name: e.target.value }))}
-                            className="w-full px-4 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50"
-                            placeholder="e.g. users"
-                        />
-                    </div>
-
-                    {/* Columns */}
-                    <div>
-                        <div className="flex justify-between items-center mb-4">
-                            <label className="block text-sm font-medium text-muted-foreground">Columns</label>
-                            <button
-                                onClick={handleAddColumn}
-                                className="text-xs flex items-center gap-1 text-primary hover:text-primary/80"
-                            >
-                                <Plus className="w-4 h-4" /> Add Column
-                            </button>
+                    {loadingTable ? (
+                        <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground text-sm">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            Loading table definition...
                         </div>
+                    ) : (
+                        <>
+                            {/* Table Name */}
+                            <div>
+                                <label className="block text-sm font-medium mb-2 text-muted-foreground">Table Name</label>
+                                <input
+                                    type="text"
+                                    value={tableDef.name}
+                                    disabled={isAlter}
+                                    onChange={e => setTableDef(prev => ({ ...prev, name: e.target.value }))}
+                                    className="w-full px-4 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-60"
+                                    placeholder="e.g. users"
+                                />
+                            </div>
+
+                            {/* Columns */}
+                            <div>
+                                <div className="flex justify-between items-center mb-4">
+                                    <label className="block text-sm font-medium text-muted-foreground">Columns</label>
+                                    <button
+                                        onClick={handleAddColumn}
+                                        className="text-xs flex items-center gap-1 text-primary hover:text-primary/80"
+                                    >
+                                        <Plus className="w-4 h-4" /> Add Column
+                                    </button>
+                                </div>
 
-                        <div className="space-y-3">
-                            {tableDef.columns.map((col, idx) => (
-                                <div key={idx} className="flex gap-3 items-start bg-card p-3 rounded-lg border border-border">
-                                    <div className="flex-1">
-                                        <input
-                                            type="text"
-                                            value={col.name}
-                                            onChange={e => updateColumn(idx, { name: e.target.value })}
-                                            placeholder="Column Name"
-                                            className="w-full px-3 py-1.5 bg-background border border-border rounded text-sm"
-                                        />
-                                    </div>
-                                    <div className="w-40">
-                                        <select
-                                            value={col.type}
-                                            onChange={e => updateColumn(idx, { type: e.target.value })}
-                                            className="w-full px-3 py-1.5 bg-background border border-border rounded text-sm"
-                                        >
-                                            {COMMON_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
-                                        </select>
-                                    </div>
-                                    <div className="flex items-center gap-4 pt-2">
-                                        <label className="flex items-center gap-2 text-xs cursor-pointer">
+                                <datalist id="table-designer-types">
+                                    {COMMON_TYPES.map(t => <option key={t} value={t} />)}
+                                </datalist>
+
+                                <div className="space-y-3">
+                                    {tableDef.columns.map((col, idx) => (
+                                        <div key={idx} className="flex gap-3 items-start bg-card p-3 rounded-lg border border-border">
+                                            <div className="flex-1">
+                                                <input
+                                                    type="text"
+                                                    value={col.name}
+                                                    onChange={e => updateColumn(idx, { name: e.target.value })}
+                                                    placeholder="Column Name"
+                                                    className={inputClass}
+                                                />
+                                                {isAlter && (
+                                                    <div className="text-[10px] mt-1 text-muted-foreground">
+                                                        {!col.originalName
+                                                            ? <span className="text-green-500">new column</span>
+                                                            : col.originalName !== col.name && <span className="text-amber-500">renamed from {col.originalName}</span>}
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <div className="w-40">
+                                                <input
+                                                    type="text"
+                                                    list="table-designer-types"
+                                                    value={col.type}
+                                                    onChange={e => updateColumn(idx, { type: e.target.value })}
+                                                    placeholder="Type"
+                                                    className={inputClass}
+                                                />
+                                            </div>
+                                            <div className="flex items-center gap-4 pt-2">
+                                                <label className="flex items-center gap-2 text-xs cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={col.isPrimaryKey}
+                                                        onChange={e => updateColumn(idx, { isPrimaryKey: e.target.checked, isNullable: false })}
+                                                    />
+                                                    PK
+                                                </label>
+                                                <label className="flex items-center gap-2 text-xs cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={col.isNullable}
+                                                        disabled={col.isPrimaryKey}
+                                                        onChange={e => updateColumn(idx, { isNullable: e.target.checked })}
+                                                    />
+                                                    Nullable
+                                                </label>
+                                            </div>
+                                            <div className="w-32">
+                                                <input
+                                                    type="text"
+                                                    value={col.defaultValue || ''}
+                                                    onChange={e => updateColumn(idx, { defaultValue: e.target.value })}
+                                                    placeholder="Default"
+                                                    className={inputClass}
+                                                />
+                                            </div>
+                                            <button
+                                                onClick={() => handleRemoveColumn(idx)}
+                                                className="p-1.5 text-muted-foreground hover:text-red-500 transition"
+                                                disabled={tableDef.columns.length === 1}
+                                                title={isAlter && col.originalName ? 'Drop column (its data is lost)' : 'Remove column'}
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Indexes */}
+                            <div>
+                                <div className="flex justify-between items-center mb-4">
+                                    <label className="block text-sm font-medium text-muted-foreground">Indexes</label>
+                                    <button
+                                        onClick={() => setTableDef(prev => ({
+                                            ...prev,
+                                            indexes: [...(prev.indexes || []), { name: `idx_${prev.name}_${(prev.indexes || []).length + 1}`, columns: [], unique: false, primary: false }]
+                                        }))}
+                                        className="text-xs flex items-center gap-1 text-primary hover:text-primary/80"
+                                    >
+                                        <Plus className="w-4 h-4" /> Add Index
+                                    </button>
+                                </div>
+                                <div className="space-y-3">
+                                    {(tableDef.indexes || []).map((index, idx) => (
+                                        <div key={idx} className="flex gap-3 items-center bg-card p-3 rounded-lg border border-border">
                                             <input
-                                                type="checkbox"
-                                                checked={col.isPrimaryKey}
-                                                onChange={e => updateColumn(idx, { isPrimaryKey: e.target.checked, isNullable: false })}
+                                                type="text"
+                                                value={index.name}
+                                                onChange={e => updateIndex(idx, { name: e.target.value })}
+                                                placeholder="Index Name"
+                                                className={`${inputClass} w-48`}
                                             />
-                                            PK
-                                        </label>
-                                        <label className="flex items-center gap-2 text-xs cursor-pointer">
                                             <input
-                                                type="checkbox"
-                                                checked={col.isNullable}
-                                                disabled={col.isPrimaryKey}
-                                                onChange={e => updateColumn(idx, { isNullable: e.target.checked })}
+                                                type="text"
+                                                value={index.columns.join(', ')}
+                                                onChange={e => updateIndex(idx, { columns: splitColumns(e.target.value) })}
+                                                placeholder="Columns, comma separated"
+                                                className={`${inputClass} flex-1`}
                                             />
-                                            Nullable
-                                        </label>
-                                    </div>
-                                    <div className="w-32">
-                                        <input
-                                            type="text"
-                                            value={col.defaultValue || ''}
-                                            onChange={e => updateColumn(idx, { defaultValue: e.target.value })}
-                                            placeholder="Default"
-                                            className="w-full px-3 py-1.5 bg-background border border-border rounded text-sm"
-                                        />
-                                    </div>
+                                            <label className="flex items-center gap-2 text-xs cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={index.unique}
+                                                    onChange={e => updateIndex(idx, { unique: e.target.checked })}
+                                                />
+                                                Unique
+                                            </label>
+                                            <button
+                                                onClick={() => setTableDef(prev => ({ ...prev, indexes: (prev.indexes || []).filter((_, i) => i !== idx) }))}
+                                                className="p-1.5 text-muted-foreground hover:text-red-500 transition"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Foreign Keys */}
+                            <div>
+                                <div className="flex justify-between items-center mb-4">
+                                    <label className="block text-sm font-medium text-muted-foreground">Foreign Keys</label>
                                     <button
-                                        onClick={() => handleRemoveColumn(idx)}
-                                        className="p-1.5 text-muted-foreground hover:text-red-500 transition"
-                                        disabled={tableDef.columns.length === 1}
+                                        onClick={() => setTableDef(prev => ({
+                                            ...prev,
+                                            foreignKeys: [...(prev.foreignKeys || []), { name: `fk_${prev.name}_${(prev.foreignKeys || []).length + 1}`, columns: [], referencedTable: '', referencedColumns: [] }]
+                                        }))}
+                                        className="text-xs flex items-center gap-1 text-primary hover:text-primary/80"
                                     >
-                                        <Trash2 className="w-4 h-4" />
+                                        <Plus className="w-4 h-4" /> Add Foreign Key
                                     </button>
                                 </div>
-                            ))}
-                        </div>
-                    </div>
+                                <div className="space-y-3">
+                                    {(tableDef.foreignKeys || []).map((fk, idx) => (
+                                        <div key={idx} className="flex gap-3 items-center bg-card p-3 rounded-lg border border-border">
+                                            <input
+                                                type="text"
+                                                value={fk.name}
+                                                onChange={e => updateForeignKey(idx, { name: e.target.value })}
+                                                placeholder="Constraint Name"
+                                                className={`${inputClass} w-40`}
+                                            />
+                                            <input
+                                                type="text"
+                                                value={fk.columns.join(', ')}
+                                                onChange={e => updateForeignKey(idx, { columns: splitColumns(e.target.value) })}
+                                                placeholder="Columns"
+                                                className={`${inputClass} flex-1`}
+                                            />
+                                            <span className="text-xs text-muted-foreground">→</span>
+                                            <input
+                                                type="text"
+                                                value={fk.referencedTable}
+                                                onChange={e => updateForeignKey(idx, { referencedTable: e.target.value })}
+                                                placeholder="Table"
+                                                className={`${inputClass} w-32`}
+                                            />
+                                            <input
+                                                type="text"
+                                                value={fk.referencedColumns.join(', ')}
+                                                onChange={e => updateForeignKey(idx, { referencedColumns: splitColumns(e.target.value) })}
+                                                placeholder="Columns"
+                                                className={`${inputClass} flex-1`}
+                                            />
+                                            <select
+                                                value={fk.onDelete || 'NO ACTION'}
+                                                onChange={e => updateForeignKey(idx, { onDelete: e.target.value })}
+                                                className={`${inputClass} w-32`}
+                                                title="On delete"
+                                            >
+                                                {REFERENTIAL_ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+                                            </select>
+                                            <button
+                                                onClick={() => setTableDef(prev => ({ ...prev, foreignKeys: (prev.foreignKeys || []).filter((_, i) => i !== idx) }))}
+                                                className="p-1.5 text-muted-foreground hover:text-red-500 transition"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    )}
 
                     {/* SQL Preview */}
                     <div className="bg-muted p-4 rounded-lg font-mono text-xs overflow-x-auto border border-border">
                         <div className="flex items-center gap-2 mb-2 text-muted-foreground">
                             <Eye className="w-3 h-3" />
-                            <span>Preview SQL</span>
+                            <span>{isAlter ? 'Migration Script' : 'Preview SQL'}</span>
                         </div>
-                        <pre className="text-foreground">{previewSql}</pre>
+                        <pre className="text-foreground">{preview.sql}</pre>
+                        {preview.rollbackSQL && (
+                            <details className="mt-3">
+                                <summary className="cursor-pointer text-muted-foreground">Rollback script</summary>
+                                <pre className="text-foreground mt-2">{preview.rollbackSQL}</pre>
+                            </details>
+                        )}
                     </div>
 
                 </div>
@@ -227,13 +431,13 @@ export default function TableDesigner({ connectionId, onClose, onSuccess }: Tabl
                     </button>
                     <button
                         onClick={handleSave}
-                        disabled={loading || !tableDef.name}
+                        disabled={loading || loadingTable || !tableDef.name || (isAlter && !preview.steps)}
                         className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition flex items-center gap-2 disabled:opacity-50"
                     >
-                        {loading ? 'Creating...' : (
+                        {loading ? (isAlter ? 'Applying...' : 'Creating...') : (
                             <>
                                 <Save className="w-4 h-4" />
-                                Create Table
+                                {isAlter ? `Apply ${preview.steps || 0} Changes` : 'Create Table'}
                             </>
                         )}
                     </button>
@@ -27,3 +27,17 @@ export const VALID_DATABASE_TYPES: DatabaseType[] = [
     // Search / Analytics (Solid Docker Support)
     'elasticsearch', 'opensearch', 'solr', 'clickhouse', 'influxdb', 'prometheus'
 ];
+
+// Embedded databases opened from a local file path instead of a server address
+export const FILE_DATABASE_TYPES: DatabaseType[] = ['sqlite', 'duckdb'];
+
+export function isFileDatabase(type: string): boolean {
+    return FILE_DATABASE_TYPES.includes(type as DatabaseType);
+}
+
+// Time-series databases queried over a time range (Flux/InfluxQL or PromQL) instead of SQL
+export const TIME_SERIES_DATABASE_TYPES: DatabaseType[] = ['influxdb', 'prometheus'];
+
+export function isTimeSeriesDatabase(type: string): boolean {
+    return TIME_SERIES_DATABASE_TYPES.includes(type as DatabaseType);
+}
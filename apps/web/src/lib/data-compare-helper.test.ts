@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateDataSyncSQL } from '@/lib/data-compare-helper';
+import type { DataCompareResult, RowDiff } from '@/lib/data-compare-helper';
+
+function result(rows: RowDiff[], extra: Partial<DataCompareResult> = {}): DataCompareResult {
+    return {
+        keyColumns: ['id'],
+        columns: ['id', 'name', 'active'],
+        rightColumnNames: {},
+        leftOnlyColumns: [],
+        rightOnlyColumns: [],
+        counts: { left: 0, right: 0, identical: 0, onlyLeft: 0, onlyRight: 0, changed: 0 },
+        columnDiffs: {},
+        rows,
+        truncated: false,
+        chunks: { total: 1, skipped: 0 },
+        ...extra,
+    };
+}
+
+const diffs: RowDiff[] = [
+    { key: { id: 3 }, status: 'onlyRight', right: { id: 3, name: 'gone', active: false } },
+    { key: { id: 1 }, status: 'changed', left: { id: 1, name: "O'Brien", active: true }, right: { id: 1, name: 'Obrien', active: true }, columns: ['name'] },
+    { key: { id: 2 }, status: 'onlyLeft', left: { id: 2, name: 'new', active: true } },
+];
+
+describe('generateDataSyncSQL', () => {
+    it('deletes, updates and inserts rows to make the right table match the left one', () => {
+        expect(generateDataSyncSQL(result(diffs), { dbType: 'postgres', schema: 'public', table: 'users' }, 'leftToRight').split('\n')).toEqual([
+            'DELETE FROM "public"."users" WHERE "id" = 3;',
+            'UPDATE "public"."users" SET "name" = \'O\'\'Brien\' WHERE "id" = 1;',
+            'INSERT INTO "public"."users" ("id", "name", "active") VALUES (2, \'new\', TRUE);',
+        ]);
+    });
+
+    it('changes the left table in the other direction', () => {
+        expect(generateDataSyncSQL(result(diffs), { dbType: 'postgres', schema: '', table: 'users' }, 'rightToLeft').split('\n')).toEqual([
+            'DELETE FROM "users" WHERE "id" = 2;',
+            'UPDATE "users" SET "name" = \'Obrien\' WHERE "id" = 1;',
+            'INSERT INTO "users" ("id", "name", "active") VALUES (3, \'gone\', FALSE);',
+        ]);
+    });
+
+    it('uses the right table\'s column names where they differ in case', () => {
+        const sql = generateDataSyncSQL(result([diffs[1]], { rightColumnNames: { name: 'NAME' } }), { dbType: 'postgres', schema: '', table: 't' }, 'leftToRight');
+        expect(sql).toBe('UPDATE "t" SET "NAME" = \'O\'\'Brien\' WHERE "id" = 1;');
+    });
+
+    it('writes normalized dates and binary values as the target dialect\'s literals', () => {
+        const row: RowDiff = {
+            key: { id: 1 },
+            status: 'onlyLeft',
+            left: { id: 1, name: { $binary: '00ff' }, active: '2024-03-01T12:30:45.123Z' },
+        };
+        const sync = (dbType: string) => generateDataSyncSQL(result([row]), { dbType, schema: '', table: 't' }, 'leftToRight');
+
+        expect(sync('mysql')).toBe("INSERT INTO `t` (`id`, `name`, `active`) VALUES (1, X'00ff', '2024-03-01 12:30:45.123');");
+        expect(sync('mssql')).toBe('INSERT INTO "t" ("id", "name", "active") VALUES (1, 0x00ff, \'2024-03-01T12:30:45.123\');');
+        expect(sync('postgres')).toBe('INSERT INTO "t" ("id", "name", "active") VALUES (1, \'\\x00ff\', \'2024-03-01T12:30:45.123Z\');');
+    });
+
+    it('notes that a truncated comparison gives an incomplete script', () => {
+        const sql = generateDataSyncSQL(result([diffs[0]], { truncated: true }), { dbType: 'postgres', schema: '', table: 't' }, 'leftToRight');
+        expect(sql.split('\n')[0]).toBe('-- Covers the first 1 differences only; compare again after running it');
+    });
+});
@@ -0,0 +1,105 @@
+import { formatSQLLiteral } from '@bosdb/core';
+import { quoteIdentifier } from '@/lib/sql-helper';
+
+// ============ Types ============
+
+/**
+ * A row that differs between the two tables. Values are normalized (see data-compare.ts) and
+ * keyed by the left table's column names.
+ */
+export interface RowDiff {
+    key: Record<string, unknown>;
+    status: 'onlyLeft' | 'onlyRight' | 'changed';
+    left?: Record<string, unknown>;
+    right?: Record<string, unknown>;
+    columns?: string[];  // Changed columns of a 'changed' row
+}
+
+export interface DataCompareResult {
+    keyColumns: string[];
+    columns: string[];                          // Compared columns, by their left name
+    rightColumnNames: Record<string, string>;   // Left name -> right name where they differ in case
+    leftOnlyColumns: string[];
+    rightOnlyColumns: string[];
+    counts: {
+        left: number;
+        right: number;
+        identical: number;
+        onlyLeft: number;
+        onlyRight: number;
+        changed: number;
+    };
+    columnDiffs: Record<string, number>;  // Changed rows per column
+    rows: RowDiff[];
+    truncated: boolean;                   // rows holds only the first maxDiffRows differences
+    chunks: {
+        total: number;
+        skipped: number;  // Ranges whose checksums matched, so no row was compared
+    };
+}
+
+export interface DataSyncTarget {
+    dbType: string;
+    schema: string;
+    table: string;
+}
+
+// ============ Sync SQL ============
+
+/**
+ * DELETE, UPDATE and INSERT statements that make one table match the other.
+ * 'leftToRight' changes the right table, 'rightToLeft' the left one. Only the differences in
+ * `result.rows` are covered, so a truncated comparison gives an incomplete script.
+ */
+export function generateDataSyncSQL(
+    result: DataCompareResult,
+    target: DataSyncTarget,
+    direction: 'leftToRight' | 'rightToLeft'
+): string {
+    const targetIsRight = direction === 'leftToRight';
+    const quote = (name: string) => quoteIdentifier(targetIsRight ? result.rightColumnNames[name] ?? name : name, target.dbType);
+    const table = target.schema
+        ? `${quoteIdentifier(target.schema, target.dbType)}.${quoteIdentifier(target.table, target.dbType)}`
+        : quoteIdentifier(target.table, target.dbType);
+    const literal = (value: unknown) => formatSQLLiteral(sqlValue(value), target.dbType);
+    const where = (key: Record<string, unknown>) => result.keyColumns
+        .map(col => `${quote(col)} = ${literal(key[col])}`)
+        .join(' AND ');
+
+    const deletes: string[] = [];
+    const updates: string[] = [];
+    const inserts: string[] = [];
+
+    for (const row of result.rows) {
+        const source = targetIsRight ? row.left : row.right;
+        if (row.status === 'changed') {
+            const assignments = row.columns!.map(col => `${quote(col)} = ${literal(source![col])}`);
+            updates.push(`UPDATE ${table} SET ${assignments.join(', ')} WHERE ${where(row.key)};`);
+        } else if (source) {
+            inserts.push(`INSERT INTO ${table} (${result.columns.map(quote).join(', ')}) VALUES (${result.columns.map(col => literal(source[col])).join(', ')});`);
+        } else {
+            deletes.push(`DELETE FROM ${table} WHERE ${where(row.key)};`);
+        }
+    }
+
+    const header = result.truncated
+        ? [`-- Covers the first ${result.rows.length} differences only; compare again after running it`]
+        : [];
+    return [...header, ...deletes, ...updates, ...inserts].join('\n');
+}
+
+// Text that normalizeValue produced from a Date
+const ISO_TIMESTAMP = /^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\.\d{3}Z$/;
+
+/**
+ * Turn a normalized value (see data-compare.ts) back into one formatSQLLiteral renders by type.
+ * Dates only survive normalization as ISO text, so text in exactly that form is written as a timestamp.
+ */
+function sqlValue(value: unknown): unknown {
+    if (value !== null && typeof value === 'object' && '$binary' in value) {
+        const hex = String((value as { $binary: string }).$binary);
+        return new Uint8Array((hex.match(/../g) || []).map(byte => parseInt(byte, 16)));
+    }
+    if (typeof value === 'string' && ISO_TIMESTAMP.test(value)) return new Date(value);
+    return value;
+}
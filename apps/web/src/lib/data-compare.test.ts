@@ -0,0 +1,125 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { compareTableData } from '@/lib/data-compare';
+import type { DataCompareSide } from '@/lib/data-compare';
+
+// vcs-snapshot, which provides checksumRows, also loads connections through these
+jest.mock('@/lib/db-utils', () => ({}));
+jest.mock('@/lib/store', () => ({}));
+
+type Row = Record<string, any>;
+
+/**
+ * A table keyed by an integer "id" behind a fake adapter that answers the compare's range
+ * queries: key boundaries, range checksums (the rows' JSON, standing in for the database's
+ * digest) and key-ordered pages. Every query it runs is kept in `queries`.
+ */
+function side(dbType: string, columns: [string, string][], rows: Row[]): DataCompareSide & { queries: string[] } {
+    const queries: string[] = [];
+    const executeQuery = async ({ query, params }: { query: string; params: unknown[] }) => {
+        queries.push(query);
+        const param = (pattern: RegExp) => {
+            const match = pattern.exec(query);
+            return match ? params[Number(match[1]) - 1] as number : undefined;
+        };
+        const lower = param(/id[`"] > \$(\d+)/);
+        const upper = param(/id[`"] <= \$(\d+)/);
+        const range = rows
+            .filter((row) => (lower === undefined || row.id > lower) && (upper === undefined || row.id <= upper))
+            .sort((a, b) => a.id - b.id);
+
+        if (query.includes('COUNT(*)')) {
+            return { rows: [{ row_count: range.length, digest: JSON.stringify(range) }] };
+        }
+        const [, count, offset] = /LIMIT (\d+)(?: OFFSET (\d+))?/.exec(query)!;
+        return { rows: range.slice(Number(offset || 0), Number(offset || 0) + Number(count)) };
+    };
+
+    return {
+        adapter: { executeQuery } as any,
+        adapterConnectionId: 'adapter-1',
+        dbType,
+        schema: '',
+        table: 'users',
+        metadata: {
+            schema: '',
+            name: 'users',
+            columns: columns.map(([name, dataType]) => ({ name, dataType, nullable: name !== 'id', isPrimaryKey: name === 'id', isForeignKey: false })),
+            primaryKeys: columns.some(([name]) => name === 'id') ? ['id'] : [],
+            foreignKeys: [],
+            indexes: [],
+        },
+        queries,
+    };
+}
+
+const users = (count: number) => Array.from({ length: count }, (_, i) => ({ id: i + 1, name: `user ${i + 1}` }));
+const columns: [string, string][] = [['id', 'integer'], ['name', 'text']];
+
+describe('compareTableData', () => {
+    it('skips ranges whose database checksums match without reading their rows', async () => {
+        const left = side('postgres', columns, users(5));
+        const right = side('postgres', columns, users(5));
+
+        const result = await compareTableData(left, right, { chunkSize: 2 });
+
+        expect(result.counts).toEqual({ left: 5, right: 5, identical: 5, onlyLeft: 0, onlyRight: 0, changed: 0 });
+        expect(result.chunks).toEqual({ total: 3, skipped: 3 });
+        expect(result.rows).toEqual([]);
+        expect(left.queries.filter((q) => q.startsWith('SELECT "id", "name"'))).toEqual([]);
+        expect(left.queries[0]).toBe('SELECT "id" FROM "users" ORDER BY "id" LIMIT 1 OFFSET 1');
+    });
+
+    it('compares rows across databases by normalized value and truncates the returned differences', async () => {
+        const left = side('mysql', [['id', 'int'], ['name', 'varchar(20)'], ['active', 'tinyint(1)']], [
+            { id: 1, name: 'a', active: 1 },
+            { id: 2, name: 'b', active: 1 },
+            { id: 3, name: 'c', active: 0 },
+            { id: 5, name: 'e', active: 1 },
+        ]);
+        const right = side('postgres', [['id', 'integer'], ['name', 'text'], ['active', 'boolean']], [
+            { id: 1, name: 'a', active: true },
+            { id: 2, name: 'B', active: true },
+            { id: 4, name: 'd', active: false },
+            { id: 5, name: 'e', active: false },
+        ]);
+
+        const result = await compareTableData(left, right, { chunkSize: 2, maxDiffRows: 3 });
+
+        expect(result.counts).toEqual({ left: 4, right: 4, identical: 1, onlyLeft: 1, onlyRight: 1, changed: 2 });
+        expect(result.columnDiffs).toEqual({ name: 1, active: 1 });
+        expect(result.chunks).toEqual({ total: 3, skipped: 1 });
+        expect(result.truncated).toBe(true);
+        expect(result.rows).toEqual([
+            { key: { id: 2 }, status: 'changed', left: { id: 2, name: 'b', active: 1 }, right: { id: 2, name: 'B', active: true }, columns: ['name'] },
+            { key: { id: 3 }, status: 'onlyLeft', left: { id: 3, name: 'c', active: 0 } },
+            { key: { id: 5 }, status: 'changed', left: { id: 5, name: 'e', active: 1 }, right: { id: 5, name: 'e', active: false }, columns: ['active'] },
+        ]);
+        expect(left.queries).toContain('SELECT `id`, `name`, `active` FROM `users` WHERE `id` > $1 AND `id` <= $2 ORDER BY `id` LIMIT 2');
+    });
+
+    it('matches columns case-insensitively and compares only the selected ones', async () => {
+        const left = side('postgres', [['id', 'integer'], ['name', 'text'], ['note', 'text']], users(3).map((u) => ({ ...u, note: 'left' })));
+        const right = side('postgres', [['id', 'integer'], ['NAME', 'text'], ['extra', 'text']], users(3).map((u) => ({ id: u.id, NAME: u.name, extra: 'right' })));
+
+        const result = await compareTableData(left, right, { columns: ['name'] });
+
+        expect(result).toMatchObject({
+            keyColumns: ['id'],
+            columns: ['id', 'name'],
+            rightColumnNames: { name: 'NAME' },
+            leftOnlyColumns: ['note'],
+            rightOnlyColumns: ['extra'],
+        });
+        expect(result.counts.identical).toBe(3);
+        expect(right.queries).toContain('SELECT "id", "NAME" FROM "users" ORDER BY "id" LIMIT 1000');
+    });
+
+    it('refuses tables it cannot match rows of', async () => {
+        await expect(compareTableData(side('sqlite', columns, []), side('postgres', columns, [])))
+            .rejects.toThrow('Data compare needs SQL tables; sqlite is not supported');
+        await expect(compareTableData(side('postgres', [['name', 'text']], []), side('postgres', columns, [])))
+            .rejects.toThrow('users has no primary or unique key to match rows by');
+        await expect(compareTableData(side('postgres', columns, []), side('postgres', [['uid', 'integer']], [])))
+            .rejects.toThrow('Key column id does not exist in users');
+    });
+});
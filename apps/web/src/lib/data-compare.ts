@@ -0,0 +1,356 @@
+import { MergeService } from '@bosdb/version-control';
+import { ValidationError } from '@bosdb/core';
+import type { TableMetadata } from '@bosdb/core';
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import { checksumRows } from '@/lib/vcs-snapshot';
+import { findRowKey, normalizeType, quoteIdentifier } from '@/lib/sql-helper';
+import { syncFamily } from '@/lib/schema-compare';
+import type { DataCompareResult, RowDiff } from '@/lib/data-compare-helper';
+
+export interface DataCompareSide {
+    adapter: IDBAdapter;
+    adapterConnectionId: string;
+    dbType: string;
+    schema: string;
+    table: string;
+    metadata: TableMetadata;
+}
+
+export interface DataCompareOptions {
+    chunkSize?: number;    // Rows per key range (default: 1000)
+    maxDiffRows?: number;  // Differences returned with their values (default: 1000)
+    columns?: string[];    // Compare only these columns; key columns are always included
+}
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_MAX_DIFF_ROWS = 1000;
+
+type Row = Record<string, unknown>;
+type Family = NonNullable<ReturnType<typeof syncFamily>>;
+
+// SQL Server's BINARY_CHECKSUM ignores these types, so ranges containing them are always read
+const UNCHECKSUMMED_MSSQL_TYPES = /^(text|ntext|image|xml|sql_variant|cursor)$/i;
+
+/**
+ * Compare the rows of two tables keyed by the left table's primary key (or a unique key).
+ *
+ * The key space is cut into ranges of about `chunkSize` rows. Each range is first checksummed on
+ * both sides; only ranges whose checksums differ are read and compared row by row. When both tables
+ * are on the same kind of database the checksum is computed by the database, so identical ranges
+ * never leave it. Otherwise both sides of a range are read and hashed with checksumRows().
+ *
+ * Values are normalized before comparing, so e.g. a MySQL TINYINT 1 equals a PostgreSQL TRUE.
+ */
+export async function compareTableData(
+    left: DataCompareSide,
+    right: DataCompareSide,
+    options: DataCompareOptions = {}
+): Promise<DataCompareResult> {
+    const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+    const maxDiffRows = options.maxDiffRows ?? DEFAULT_MAX_DIFF_ROWS;
+
+    const leftFamily = syncFamily(left.dbType);
+    const rightFamily = syncFamily(right.dbType);
+    if (!leftFamily || !rightFamily) {
+        throw new ValidationError(`Data compare needs SQL tables; ${!leftFamily ? left.dbType : right.dbType} is not supported`);
+    }
+
+    // ---- Columns ----
+    const keyColumns = findRowKey(left.metadata);
+    if (keyColumns.length === 0) {
+        throw new ValidationError(`${left.table} has no primary or unique key to match rows by`);
+    }
+
+    const rightByLower = new Map(right.metadata.columns.map(col => [col.name.toLowerCase(), col]));
+    const leftByLower = new Map(left.metadata.columns.map(col => [col.name.toLowerCase(), col]));
+    const missingKey = keyColumns.find(col => !rightByLower.has(col.toLowerCase()));
+    if (missingKey) {
+        throw new ValidationError(`Key column ${missingKey} does not exist in ${right.table}`);
+    }
+
+    const wanted = options.columns?.length ? new Set(options.columns.map(col => col.toLowerCase())) : null;
+    const columns = left.metadata.columns
+        .filter(col => rightByLower.has(col.name.toLowerCase()))
+        .filter(col => !wanted || wanted.has(col.name.toLowerCase()) || keyColumns.includes(col.name))
+        .map(col => col.name);
+    const rightColumnNames: Record<string, string> = {};
+    for (const col of columns) {
+        const rightName = rightByLower.get(col.toLowerCase())!.name;
+        if (rightName !== col) rightColumnNames[col] = rightName;
+    }
+
+    const leftRead = tableReader(left, leftFamily, columns, keyColumns, col => col);
+    const rightRead = tableReader(right, rightFamily, columns, keyColumns, col => rightColumnNames[col] ?? col);
+
+    // Database checksums are only comparable between identical column types on the same kind of database
+    const sameTypes = columns.every(col => normalizeType(leftByLower.get(col.toLowerCase())!.dataType)
+        === normalizeType(rightByLower.get(col.toLowerCase())!.dataType));
+    const databaseChecksums = leftFamily === rightFamily && sameTypes && leftRead.canChecksum && rightRead.canChecksum;
+
+    const result: DataCompareResult = {
+        keyColumns,
+        columns,
+        rightColumnNames,
+        leftOnlyColumns: left.metadata.columns.filter(col => !rightByLower.has(col.name.toLowerCase())).map(col => col.name),
+        rightOnlyColumns: right.metadata.columns.filter(col => !leftByLower.has(col.name.toLowerCase())).map(col => col.name),
+        counts: { left: 0, right: 0, identical: 0, onlyLeft: 0, onlyRight: 0, changed: 0 },
+        columnDiffs: {},
+        rows: [],
+        truncated: false,
+        chunks: { total: 0, skipped: 0 },
+    };
+
+    const record = (diff: RowDiff) => {
+        result.counts[diff.status]++;
+        for (const col of diff.columns || []) result.columnDiffs[col] = (result.columnDiffs[col] || 0) + 1;
+        if (result.rows.length < maxDiffRows) result.rows.push(diff);
+        else result.truncated = true;
+    };
+
+    // ---- Ranges ----
+    let lower: unknown[] | null = null;
+    for (;;) {
+        // The range ends at the smaller of the two sides' chunkSize-th key, so neither side reads more than a chunk
+        const [leftUpper, rightUpper]: (unknown[] | null)[] = await Promise.all([leftRead.boundary(lower, chunkSize), rightRead.boundary(lower, chunkSize)]);
+        const upper: unknown[] | null = !leftUpper ? rightUpper : !rightUpper ? leftUpper : compareKeys(leftUpper, rightUpper) <= 0 ? leftUpper : rightUpper;
+        result.chunks.total++;
+
+        if (databaseChecksums) {
+            const [leftSum, rightSum] = await Promise.all([leftRead.checksum(lower, upper), rightRead.checksum(lower, upper)]);
+            if (leftSum.count === rightSum.count && leftSum.digest === rightSum.digest) {
+                result.counts.left += leftSum.count;
+                result.counts.right += rightSum.count;
+                result.counts.identical += leftSum.count;
+                result.chunks.skipped++;
+                if (!upper) break;
+                lower = upper;
+                continue;
+            }
+        }
+
+        const [leftRows, rightRows] = await Promise.all([leftRead.rows(lower, upper, chunkSize), rightRead.rows(lower, upper, chunkSize)]);
+        result.counts.left += leftRows.length;
+        result.counts.right += rightRows.length;
+
+        if (checksumRows(leftRows) === checksumRows(rightRows)) {
+            result.counts.identical += leftRows.length;
+            if (!databaseChecksums) result.chunks.skipped++;
+        } else {
+            compareRows(leftRows, rightRows, keyColumns, columns, result, record);
+        }
+
+        if (!upper) break;
+        lower = upper;
+    }
+
+    reconcile(result, keyColumns, columns);
+    return result;
+}
+
+// ============ Row comparison ============
+
+function compareRows(
+    leftRows: Row[],
+    rightRows: Row[],
+    keyColumns: string[],
+    columns: string[],
+    result: DataCompareResult,
+    record: (diff: RowDiff) => void
+) {
+    const keyOf = (row: Row) => MergeService.stableStringify(keyColumns.map(col => canonical(row[col])));
+    const rightByKey = new Map(rightRows.map(row => [keyOf(row), row]));
+
+    for (const row of leftRows) {
+        const key = keyOf(row);
+        const match = rightByKey.get(key);
+        if (!match) {
+            record({ key: pick(row, keyColumns), status: 'onlyLeft', left: row });
+            continue;
+        }
+        rightByKey.delete(key);
+        const changed = columns.filter(col => canonical(row[col]) !== canonical(match[col]));
+        if (changed.length === 0) result.counts.identical++;
+        else record({ key: pick(row, keyColumns), status: 'changed', left: row, right: match, columns: changed });
+    }
+    for (const row of Array.from(rightByKey.values())) {
+        record({ key: pick(row, keyColumns), status: 'onlyRight', right: row });
+    }
+}
+
+/**
+ * The two databases may order text keys differently, so a row can fall into different ranges on
+ * each side and show up as missing on both. Pair those up again among the returned differences.
+ */
+function reconcile(result: DataCompareResult, keyColumns: string[], columns: string[]) {
+    const keyOf = (diff: RowDiff) => MergeService.stableStringify(keyColumns.map(col => canonical(diff.key[col])));
+    const onlyRight = new Map(result.rows.filter(diff => diff.status === 'onlyRight').map(diff => [keyOf(diff), diff]));
+    if (onlyRight.size === 0) return;
+
+    const paired = new Set<RowDiff>();
+    for (const diff of result.rows) {
+        const match = diff.status === 'onlyLeft' ? onlyRight.get(keyOf(diff)) : undefined;
+        if (!match) continue;
+
+        paired.add(match);
+        result.counts.onlyLeft--;
+        result.counts.onlyRight--;
+        const changed = columns.filter(col => canonical(diff.left![col]) !== canonical(match.right![col]));
+        if (changed.length === 0) {
+            result.counts.identical++;
+            paired.add(diff);
+            continue;
+        }
+        result.counts.changed++;
+        for (const col of changed) result.columnDiffs[col] = (result.columnDiffs[col] || 0) + 1;
+        diff.status = 'changed';
+        diff.right = match.right;
+        diff.columns = changed;
+    }
+    result.rows = result.rows.filter(diff => !paired.has(diff));
+}
+
+function pick(row: Row, columns: string[]): Row {
+    return Object.fromEntries(columns.map(col => [col, row[col]]));
+}
+
+// ============ Values ============
+
+/**
+ * Driver values in a form that survives JSON and compares across databases:
+ * dates become ISO strings, binary data { $binary: hex } and JSON documents their stable text
+ */
+function normalizeValue(value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return isNaN(value.getTime()) ? String(value) : value.toISOString();
+    if (typeof value === 'bigint') return value.toString();
+    if (value instanceof Uint8Array) return { $binary: Buffer.from(value).toString('hex') };
+    if (typeof value === 'object') return MergeService.stableStringify(value);
+    return value;
+}
+
+// Comparison form of a normalized value: numbers, booleans and numeric text compare equal
+function canonical(value: unknown): string {
+    if (value === null) return 'null';
+    if (typeof value === 'boolean') return value ? '1' : '0';
+    if (typeof value === 'object') return `binary:${(value as { $binary: string }).$binary}`;
+    const text = String(value);
+    return /^-?\d+(\.\d+)?$/.test(text) ? text.replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '') : text;
+}
+
+// Order of two keys as the databases would usually sort them; only used to pick range boundaries
+function compareKeys(a: unknown[], b: unknown[]): number {
+    for (let i = 0; i < a.length; i++) {
+        const x = canonical(normalizeValue(a[i]));
+        const y = canonical(normalizeValue(b[i]));
+        if (x === y) continue;
+        const numeric = /^-?\d+(\.\d+)?$/;
+        if (numeric.test(x) && numeric.test(y)) return Number(x) - Number(y) || (x < y ? -1 : 1);
+        return x < y ? -1 : 1;
+    }
+    return 0;
+}
+
+// ============ Queries ============
+
+/**
+ * Key-ordered reads of one table. Keys are passed as parameters, so a boundary read from one
+ * database can be used against the other.
+ */
+function tableReader(
+    side: DataCompareSide,
+    family: Family,
+    columns: string[],
+    keyColumns: string[],
+    nameOf: (column: string) => string
+) {
+    const quote = (name: string) => quoteIdentifier(nameOf(name), side.dbType);
+    const table = side.schema
+        ? `${quoteIdentifier(side.schema, side.dbType)}.${quoteIdentifier(side.table, side.dbType)}`
+        : quoteIdentifier(side.table, side.dbType);
+    const keys = keyColumns.map(quote);
+    const orderBy = `ORDER BY ${keys.join(', ')}`;
+    const columnTypes = new Map(side.metadata.columns.map(col => [col.name.toLowerCase(), col.dataType]));
+
+    const limit = (count: number, offset = 0) => family === 'mssql' || family === 'oracle'
+        ? `OFFSET ${offset} ROWS FETCH NEXT ${count} ROWS ONLY`
+        : `LIMIT ${count}${offset ? ` OFFSET ${offset}` : ''}`;
+
+    // (k1, k2) > (v1, v2) written out, since SQL Server and Oracle have no row comparison
+    const compare = (values: unknown[], params: unknown[], last: '>' | '<=', i = 0): string => {
+        params.push(values[i]);
+        const placeholder = `$${params.length}`;
+        if (i === keys.length - 1) return `${keys[i]} ${last} ${placeholder}`;
+        params.push(values[i]);
+        const strict = last === '>' ? '>' : '<';
+        return `(${keys[i]} ${strict} ${placeholder} OR (${keys[i]} = $${params.length} AND ${compare(values, params, last, i + 1)}))`;
+    };
+    const range = (lower: unknown[] | null, upper: unknown[] | null, params: unknown[]) => {
+        const conditions = [
+            lower && compare(lower, params, '>'),
+            upper && compare(upper, params, '<='),
+        ].filter(Boolean);
+        return conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '';
+    };
+
+    const run = async (query: string, params: unknown[], maxRows: number) => (await side.adapter.executeQuery({
+        connectionId: side.adapterConnectionId,
+        query,
+        params,
+        maxRows,
+        timeout: 60000,
+    })).rows;
+
+    const checksumExpression = (() => {
+        const cols = columns.map(quote);
+        switch (family) {
+            case 'postgres':
+                return `md5(string_agg(md5(CAST(ROW(${cols.join(', ')}) AS text)), '' ${orderBy})) AS digest`;
+            case 'mysql':
+                // As in pt-table-checksum: NULL and '' differ through the ISNULL() flags
+                return `BIT_XOR(CAST(CONV(SUBSTRING(MD5(CONCAT_WS('#', ${cols.join(', ')}, CONCAT(${cols.map(c => `ISNULL(${c})`).join(', ')}))), 1, 16), 16, 10) AS UNSIGNED)) AS digest`;
+            case 'mssql':
+                if (columns.some(col => UNCHECKSUMMED_MSSQL_TYPES.test(columnTypes.get(nameOf(col).toLowerCase()) || ''))) return null;
+                return `CHECKSUM_AGG(BINARY_CHECKSUM(${cols.join(', ')})) AS digest`;
+            default:
+                return null;
+        }
+    })();
+
+    return {
+        canChecksum: checksumExpression !== null,
+
+        /** Key of the count-th row after `lower`, or null if fewer rows remain */
+        async boundary(lower: unknown[] | null, count: number): Promise<unknown[] | null> {
+            const params: unknown[] = [];
+            const rows = await run(`SELECT ${keys.join(', ')} FROM ${table}${range(lower, null, params)} ${orderBy} ${limit(1, count - 1)}`, params, 1);
+            return rows.length ? keyColumns.map(col => rows[0][nameOf(col)]) : null;
+        },
+
+        async checksum(lower: unknown[] | null, upper: unknown[] | null): Promise<{ count: number; digest: string | null }> {
+            const params: unknown[] = [];
+            const rows = await run(`SELECT COUNT(*) AS row_count, ${checksumExpression} FROM ${table}${range(lower, upper, params)}`, params, 1);
+            const row = rows[0] || {};
+            const value = (name: string) => row[name] ?? row[name.toUpperCase()];
+            return { count: Number(value('row_count') || 0), digest: value('digest') == null ? null : String(value('digest')) };
+        },
+
+        /** Every row of the range, normalized and keyed by left column names */
+        async rows(lower: unknown[] | null, upper: unknown[] | null, pageSize: number): Promise<Row[]> {
+            const rows: Row[] = [];
+            let cursor = lower;
+            for (;;) {
+                const params: unknown[] = [];
+                const page = await run(
+                    `SELECT ${columns.map(quote).join(', ')} FROM ${table}${range(cursor, upper, params)} ${orderBy} ${limit(pageSize)}`,
+                    params,
+                    pageSize
+                );
+                for (const raw of page) {
+                    rows.push(Object.fromEntries(columns.map(col => [col, normalizeValue(raw[nameOf(col)])])));
+                }
+                if (page.length < pageSize) return rows;
+                cursor = keyColumns.map(col => page[page.length - 1][nameOf(col)]);
+            }
+        },
+    };
+}
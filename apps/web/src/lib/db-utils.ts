@@ -1,6 +1,9 @@
 import { AdapterFactory } from '@bosdb/db-adapters';
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import type { Table, TableMetadata } from '@bosdb/core';
 import { decryptCredentials } from '@bosdb/security';
 import { connections, adapterInstances, getConnection } from '@/lib/store';
+import { getDialectFromDbType } from '@/lib/sql-formatter';
 
 export async function getConnectedAdapter(connectionId: string) {
     const connectionInfo = await getConnection(connectionId);
@@ -43,3 +46,108 @@ export async function getConnectedAdapter(connectionId: string) {
         adapterConnectionId: adapterEntry.adapterConnectionId
     };
 }
+
+/**
+ * Run several statements as one unit: `work` gets a transaction ID to pass with each query,
+ * and everything is rolled back if it throws. Databases without transactions get `undefined`
+ * and run in autocommit.
+ */
+export async function runInTransaction<T>(
+    adapter: IDBAdapter,
+    adapterConnectionId: string,
+    work: (transactionId?: string) => Promise<T>
+): Promise<T> {
+    let transactionId: string;
+    try {
+        transactionId = await adapter.beginTransaction(adapterConnectionId);
+    } catch (error: any) {
+        if (error.code === 'TRANSACTIONS_UNSUPPORTED') {
+            return work(undefined);
+        }
+        throw error;
+    }
+
+    try {
+        const result = await work(transactionId);
+        await adapter.commit(adapterConnectionId, transactionId);
+        return result;
+    } catch (error) {
+        await adapter.rollback(adapterConnectionId, transactionId).catch(() => undefined);
+        throw error;
+    }
+}
+
+// Tables described at once; large schemas would otherwise open hundreds of metadata queries together
+const DESCRIBE_CONCURRENCY = 8;
+
+/**
+ * describeTable() for every table of a schema, sorted by name. Tables that fail to describe
+ * are returned in `errors` rather than failing the whole schema.
+ */
+export async function describeSchemaTables(
+    adapter: IDBAdapter,
+    adapterConnectionId: string,
+    schema: string
+): Promise<{ tables: TableMetadata[]; errors: { table: string; error: string }[] }> {
+    const tables = (await adapter.listTables(adapterConnectionId, schema)).filter((t: Table) => t.type === 'table');
+
+    const described: TableMetadata[] = [];
+    const errors: { table: string; error: string }[] = [];
+    let next = 0;
+
+    const worker = async () => {
+        while (next < tables.length) {
+            const table = tables[next++];
+            try {
+                described.push(await adapter.describeTable(adapterConnectionId, schema, table.name));
+            } catch (err: any) {
+                errors.push({ table: table.name, error: err.message });
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(DESCRIBE_CONCURRENCY, tables.length) }, worker));
+
+    described.sort((a, b) => a.name.localeCompare(b.name));
+    return { tables: described, errors };
+}
+
+/**
+ * Whether DDL on this engine can be rolled back as part of a transaction. MySQL and Oracle
+ * commit implicitly before and after each DDL statement.
+ */
+export function isTransactionalDDL(dbType: string): boolean {
+    const dialect = getDialectFromDbType(dbType);
+    return dialect === 'postgresql' || dialect === 'transactsql';
+}
+
+/**
+ * Run DDL statements in order. PostgreSQL and SQL Server undo every statement if one fails;
+ * MySQL and Oracle commit each DDL statement, so the statements that ran before a failure stay
+ * applied. `applied` lists what is in effect afterwards; `error` and `failed` are set if a statement failed.
+ */
+export async function runSchemaSteps<T extends { sql: string }>(
+    adapter: IDBAdapter,
+    adapterConnectionId: string,
+    dbType: string,
+    steps: T[]
+): Promise<{ applied: T[]; error?: Error; failed?: T }> {
+    const transactional = isTransactionalDDL(dbType);
+    const applied: T[] = [];
+
+    try {
+        await runInTransaction(adapter, adapterConnectionId, async (transactionId) => {
+            for (const step of steps) {
+                await adapter.executeQuery({
+                    connectionId: adapterConnectionId,
+                    query: step.sql,
+                    transactionId,
+                    timeout: 30000
+                });
+                applied.push(step);
+            }
+        });
+        return { applied };
+    } catch (error: any) {
+        return { applied: transactional ? [] : applied, error, failed: steps[applied.length] };
+    }
+}
@@ -238,12 +238,21 @@ function getEnvironmentVariables(type: DatabaseType, credentials: any): string[]
                 `OPENSEARCH_INITIAL_ADMIN_PASSWORD=${password}`,
                 'plugins.security.disabled=true',
             ];
+        case 'clickhouse':
+            return [
+                `CLICKHOUSE_USER=${username}`,
+                `CLICKHOUSE_PASSWORD=${password}`,
+                `CLICKHOUSE_DB=${database}`,
+                'CLICKHOUSE_DEFAULT_ACCESS_MANAGEMENT=1',
+            ];
         case 'influxdb':
             return [
                 `DOCKER_INFLUXDB_INIT_USERNAME=${username}`,
                 `DOCKER_INFLUXDB_INIT_PASSWORD=${password}`,
                 `DOCKER_INFLUXDB_INIT_ORG=bosdb`,
                 `DOCKER_INFLUXDB_INIT_BUCKET=${database}`,
+                // The adapter authenticates with the connection password as its API token
+                `DOCKER_INFLUXDB_INIT_ADMIN_TOKEN=${password}`,
                 'DOCKER_INFLUXDB_INIT_MODE=setup',
             ];
         case 'rabbitmq':
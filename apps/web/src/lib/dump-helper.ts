@@ -0,0 +1,147 @@
+import type { TableMetadata } from '@bosdb/core';
+
+// ============ Types ============
+
+export interface DumpTableRef {
+    schema: string;
+    name: string;
+}
+
+export interface DumpRequest {
+    connectionId: string;
+    schemas: string[];
+    tables?: DumpTableRef[];  // Only these tables of the schemas; every table when omitted
+    schemaOnly?: boolean;     // Structure without rows
+    filename?: string;
+}
+
+export type DumpStatus = 'ready' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface DumpTableProgress extends DumpTableRef {
+    estimatedRows?: number;  // The database's own estimate, when it keeps one
+    rowsWritten: number;
+    status: 'pending' | 'running' | 'done';
+}
+
+export interface DumpProgress {
+    id: string;
+    status: DumpStatus;
+    fileName: string;
+    tables: DumpTableProgress[];  // In dump order
+    rowsWritten: number;
+    bytesWritten: number;
+    describeErrors: { table: string; error: string }[];  // Tables left out because they could not be described
+    startedAt: string;
+    finishedAt?: string;
+    error?: string;
+}
+
+/**
+ * First line of a dump archive. Tables are listed in dump order: a table comes after the
+ * tables its foreign keys reference, except where references form a cycle. `rowCount` is
+ * the source database's estimate when the dump was made.
+ */
+export interface DumpHeader {
+    type: 'header';
+    format: typeof DUMP_FORMAT;
+    version: number;
+    createdAt: string;
+    source: { dbType: string; family: string; connection: string; database?: string };
+    schemaOnly: boolean;
+    tables: TableMetadata[];
+}
+
+/**
+ * Lines of a dump archive (gzipped NDJSON). After the header, unless the dump is schema-only,
+ * each table has a 'table' line naming its columns, 'rows' lines with values in that order and
+ * a 'tableEnd' line; an 'end' line marks a complete archive. Dates are ISO strings and binary values
+ * { $binary: hex }.
+ */
+export type DumpLine =
+    | DumpHeader
+    | { type: 'table'; schema: string; name: string; columns: string[] }
+    | { type: 'rows'; rows: unknown[][] }
+    | { type: 'tableEnd'; rowCount: number }
+    | { type: 'end'; tables: number; rows: number };
+
+/**
+ * 'error' refuses to restore if a selected table already exists in the target, 'append' adds
+ * the rows to it and 'replace' drops it first
+ */
+export type RestoreExistingMode = 'error' | 'append' | 'replace';
+
+export interface RestoreOptions {
+    connectionId: string;
+    tables?: DumpTableRef[];              // Tables of the archive to restore; all when omitted
+    schemaMap?: Record<string, string>;   // Archive schema to target schema; unmapped schemas keep their name
+    existing?: RestoreExistingMode;
+    schemaOnly?: boolean;                 // Create the tables but load no rows
+}
+
+export interface RestoreSummary {
+    tables: number;
+    rows: number;
+    created: string[];   // Tables created, as schema.table
+    replaced: string[];  // Tables dropped and created again
+    appended: string[];  // Existing tables the rows were added to
+    executionTime: number;
+}
+
+/**
+ * Streamed by POST /api/restore, one JSON object per line
+ */
+export type RestoreEvent =
+    | { type: 'stage'; stage: 'schema' | 'data' | 'constraints' }
+    | { type: 'table'; schema: string; table: string }
+    | { type: 'progress'; schema: string; table: string; rows: number }
+    | { type: 'done'; summary: RestoreSummary }
+    | { type: 'fatal'; error: string };
+
+// ============ Helpers ============
+
+export const DUMP_FORMAT = 'bosdb-dump';
+export const DUMP_VERSION = 1;
+export const DUMP_EXTENSION = '.bosdb-dump.jsonl.gz';
+
+export function dumpFileName(name: string | undefined, connection: string): string {
+    const base = (name || `${connection}-${new Date().toISOString().slice(0, 10)}`)
+        .replace(/\.bosdb-dump\.jsonl(\.gz)?$/i, '')
+        .replace(/[\\/:*?"<>|]+/g, '_');
+    return `${base}${DUMP_EXTENSION}`;
+}
+
+export function tableKey(table: DumpTableRef): string {
+    return `${table.schema}.${table.name}`;
+}
+
+/**
+ * Read the header of a dump archive in the browser, decompressing only as far as its first line
+ */
+export async function readDumpHeader(file: Blob): Promise<DumpHeader> {
+    const gzipped = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+    const stream = gzipped[0] === 0x1f && gzipped[1] === 0x8b
+        ? file.stream().pipeThrough(new DecompressionStream('gzip'))
+        : file.stream();
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            text += decoder.decode(value, { stream: !done });
+            const newline = text.indexOf('\n');
+            if (newline !== -1 || done) {
+                const header = JSON.parse(newline === -1 ? text : text.slice(0, newline));
+                if (header?.type !== 'header' || header.format !== DUMP_FORMAT) {
+                    throw new Error('Not a BosDB dump archive');
+                }
+                return header;
+            }
+        }
+    } catch (error: any) {
+        throw new Error(error instanceof SyntaxError ? 'Not a BosDB dump archive' : error.message);
+    } finally {
+        reader.cancel().catch(() => undefined);
+    }
+}
@@ -0,0 +1,251 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Readable } from 'stream';
+import { gunzipSync } from 'zlib';
+import type { Column, ForeignKey, QueryResult, TableMetadata } from '@bosdb/core';
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import { cancelDump, createDump, getDump, openDumpArchive, openDumpDownload, runRestore } from '@/lib/dump-pipeline';
+import type { DumpArchive } from '@/lib/dump-pipeline';
+import { dumpFileName } from '@/lib/dump-helper';
+import type { RestoreEvent } from '@/lib/dump-helper';
+
+// Only Parquet imports use it, and it ships as ES modules only
+jest.mock('hyparquet', () => ({}));
+
+const mockSchemaSteps: string[][] = [];
+
+jest.mock('@/lib/db-utils', () => ({
+    describeSchemaTables: async (adapter: any, id: string, schema: string) => ({
+        tables: await Promise.all((await adapter.listTables(id, schema)).map((t: any) => adapter.describeTable(id, schema, t.name))),
+        errors: [],
+    }),
+    runInTransaction: async (_adapter: any, _id: string, work: (transactionId?: string) => Promise<unknown>) => work('tx-1'),
+    runSchemaSteps: async (_adapter: any, _id: string, _dbType: string, steps: { sql: string }[]) => {
+        mockSchemaSteps.push(steps.map((step) => step.sql));
+        return { applied: steps };
+    },
+}));
+
+const column = (name: string, dataType: string, extra: Partial<Column> = {}): Column => ({
+    name,
+    dataType,
+    nullable: true,
+    isPrimaryKey: false,
+    isForeignKey: false,
+    ...extra,
+});
+
+const fk = (name: string, column: string, referencedTable: string): ForeignKey => ({
+    name,
+    columns: [column],
+    referencedTable,
+    referencedColumns: ['id'],
+});
+
+function table(name: string, columns: Column[], foreignKeys: ForeignKey[] = []): TableMetadata {
+    return {
+        schema: 'public',
+        name,
+        columns,
+        primaryKeys: columns.filter((col) => col.isPrimaryKey).map((col) => col.name),
+        foreignKeys,
+        indexes: [],
+    };
+}
+
+const id = (extra: Partial<Column> = {}) => column('id', 'integer', { isPrimaryKey: true, nullable: false, ...extra });
+
+// Listed so that every table comes before the one it references
+const items = table('items', [id(), column('order_id', 'integer')], [fk('items_order_fk', 'order_id', 'orders')]);
+const orders = table('orders', [id(), column('user_id', 'integer')], [fk('orders_user_fk', 'user_id', 'users')]);
+const users = table('users', [
+    id({ defaultValue: "nextval('users_id_seq'::regclass)" }),
+    column('name', 'text'),
+    column('avatar', 'bytea'),
+    column('born', 'date'),
+]);
+
+const rows: Record<string, Record<string, unknown>[]> = {
+    users: [
+        { id: 1, name: 'Ada', avatar: Buffer.from([0, 255]), born: new Date(1990, 0, 2) },
+        { id: 2, name: '', avatar: null, born: null },
+    ],
+    orders: [{ id: 10, user_id: 1 }],
+    items: [],
+};
+
+/**
+ * Source database with the three tables. Users are read through a cursor, one row per page.
+ */
+function sourceAdapter(onPage?: () => Promise<unknown>) {
+    const closeCursor = jest.fn(async () => undefined);
+    const executeQuery = jest.fn(async (request: any): Promise<QueryResult> => {
+        if (request.cursor) {
+            await onPage?.();
+            return { rows: [rows.users[1]], fields: [], rowCount: 1, executionTime: 0 };
+        }
+        const name = /FROM "public"."(\w+)"/.exec(request.query)![1];
+        const cursor = name === 'users' ? 'users-cursor' : undefined;
+        return { rows: cursor ? [rows.users[0]] : rows[name], fields: [], rowCount: 0, executionTime: 0, cursor, hasMore: !!cursor };
+    });
+    const adapter = {
+        listTables: async () => [items, orders, users].map((t) => ({ name: t.name, type: 'table', rowCount: rows[t.name].length })),
+        describeTable: async (_id: string, _schema: string, name: string) => [items, orders, users].find((t) => t.name === name)!,
+        executeQuery,
+        closeCursor,
+    } as unknown as IDBAdapter;
+    return { adapter, closeCursor };
+}
+
+/**
+ * Target database that already has the given tables and records what is loaded into it
+ */
+function targetAdapter(existing: string[] = []) {
+    const loaded: { table: string; rows: unknown[][] }[] = [];
+    const queries: string[] = [];
+    const adapter = {
+        listTables: async () => existing.map((name) => ({ name, type: 'table' })),
+        describeTable: async (_id: string, _schema: string, name: string) => [items, orders, users].find((t) => t.name === name.toLowerCase())!,
+        bulkInsert: async (request: any) => {
+            loaded.push({ table: request.table, rows: request.rows });
+            return request.rows.length;
+        },
+        executeQuery: async (request: any) => {
+            queries.push(request.query);
+            return { rows: [], fields: [], rowCount: 0, executionTime: 0 };
+        },
+    } as unknown as IDBAdapter;
+    return { adapter, loaded, queries };
+}
+
+async function dumpBytes(schemaOnly = false): Promise<Buffer> {
+    const { adapter } = sourceAdapter();
+    const { id } = await createDump({ adapter, adapterConnectionId: 'a1', dbType: 'postgres', connectionName: 'local' }, { connectionId: 'c1', schemas: ['public'], schemaOnly });
+    return Buffer.from(await new Response(openDumpDownload(id)!.body).arrayBuffer());
+}
+
+async function archiveOf(lines: object[]): Promise<DumpArchive> {
+    return openDumpArchive(Readable.from([lines.map((line) => JSON.stringify(line)).join('\n')]), false);
+}
+
+beforeEach(() => {
+    mockSchemaSteps.length = 0;
+});
+
+describe('dump', () => {
+    it('names the archive after the database', () => {
+        expect(dumpFileName('nightly.bosdb-dump.jsonl.gz', 'db')).toBe('nightly.bosdb-dump.jsonl.gz');
+        expect(dumpFileName(undefined, 'shop')).toMatch(/^shop-\d{4}-\d{2}-\d{2}\.bosdb-dump\.jsonl\.gz$/);
+    });
+
+    it('puts referenced tables first', async () => {
+        const { adapter } = sourceAdapter();
+        const progress = await createDump({ adapter, adapterConnectionId: 'a1', dbType: 'postgres', connectionName: 'local' }, { connectionId: 'c1', schemas: ['public'] });
+
+        expect(progress.tables.map((t) => [t.name, t.estimatedRows, t.status])).toEqual([
+            ['users', 2, 'pending'],
+            ['orders', 1, 'pending'],
+            ['items', 0, 'pending'],
+        ]);
+        await cancelDump(progress.id);
+    });
+
+    it('writes the header, then each table\'s rows page by page', async () => {
+        const lines = gunzipSync(await dumpBytes()).toString().trim().split('\n').map((line) => JSON.parse(line));
+
+        expect(lines[0]).toMatchObject({ type: 'header', format: 'bosdb-dump', version: 1, schemaOnly: false, source: { dbType: 'postgres', family: 'postgres' } });
+        expect(lines[0].tables.map((t: TableMetadata) => t.name)).toEqual(['users', 'orders', 'items']);
+        expect(lines.slice(1)).toEqual([
+            { type: 'table', schema: 'public', name: 'users', columns: ['id', 'name', 'avatar', 'born'] },
+            { type: 'rows', rows: [[1, 'Ada', { $binary: '00ff' }, '1990-01-02']] },
+            { type: 'rows', rows: [[2, '', null, null]] },
+            { type: 'tableEnd', rowCount: 2 },
+            { type: 'table', schema: 'public', name: 'orders', columns: ['id', 'user_id'] },
+            { type: 'rows', rows: [[10, 1]] },
+            { type: 'tableEnd', rowCount: 1 },
+            { type: 'table', schema: 'public', name: 'items', columns: ['id', 'order_id'] },
+            { type: 'tableEnd', rowCount: 0 },
+            { type: 'end', tables: 3, rows: 3 },
+        ]);
+    });
+
+    it('stops and releases the cursor when cancelled while reading a table', async () => {
+        let id = '';
+        const { adapter, closeCursor } = sourceAdapter(() => cancelDump(id));
+        ({ id } = await createDump({ adapter, adapterConnectionId: 'a1', dbType: 'postgres', connectionName: 'local' }, { connectionId: 'c1', schemas: ['public'] }));
+
+        await expect(new Response(openDumpDownload(id)!.body).arrayBuffer()).rejects.toThrow('Dump cancelled');
+        expect(getDump(id)!.status).toBe('cancelled');
+        expect(closeCursor).toHaveBeenCalledWith('a1', 'users-cursor');
+    });
+
+    it('refuses databases without a sync family and unknown tables', async () => {
+        const { adapter } = sourceAdapter();
+        const source = { adapter, adapterConnectionId: 'a1', connectionName: 'local' };
+
+        await expect(createDump({ ...source, dbType: 'mongodb' }, { connectionId: 'c1', schemas: ['public'] })).rejects.toThrow('Dump is not supported for mongodb');
+        await expect(createDump({ ...source, dbType: 'postgres' }, { connectionId: 'c1', schemas: ['public'], tables: [{ schema: 'public', name: 'nope' }] }))
+            .rejects.toThrow('Table not found: public.nope');
+    });
+});
+
+describe('restore', () => {
+    it('creates the tables, loads the rows and adds foreign keys and sequences last', async () => {
+        const archive = await openDumpArchive(Readable.from([await dumpBytes()]), true);
+        const { adapter, loaded, queries } = targetAdapter();
+        const events: RestoreEvent[] = [];
+
+        const summary = await runRestore(archive, { adapter, adapterConnectionId: 't1', dbType: 'postgres' }, { connectionId: 'c2', schemaMap: { public: 'copy' } }, (e) => events.push(e));
+
+        expect(summary).toMatchObject({ tables: 3, rows: 3, created: ['copy.users', 'copy.orders', 'copy.items'], replaced: [], appended: [] });
+        expect(events.filter((e) => e.type === 'stage').map((e: any) => e.stage)).toEqual(['schema', 'data', 'constraints']);
+
+        const [schemaSteps, constraintSteps] = mockSchemaSteps;
+        expect(schemaSteps[0]).toBe('CREATE SEQUENCE IF NOT EXISTS "copy"."users_id_seq"');
+        expect(schemaSteps.join('\n')).toContain('DEFAULT nextval(\'"copy"."users_id_seq"\'::regclass)');
+        expect(schemaSteps.join('\n')).not.toContain('FOREIGN KEY');
+        expect(constraintSteps.map((sql) => /ADD CONSTRAINT "(\w+)" FOREIGN KEY/.exec(sql)?.[1])).toEqual(['items_order_fk', 'orders_user_fk']);
+
+        expect(loaded).toEqual([
+            { table: 'users', rows: [[1, 'Ada', Buffer.from([0, 255]), '1990-01-02']] },
+            { table: 'users', rows: [[2, '', null, null]] },
+            { table: 'orders', rows: [[10, 1]] },
+        ]);
+        expect(queries).toEqual(['SELECT setval(\'"copy"."users_id_seq"\', COALESCE((SELECT MAX("id") FROM "copy"."users"), 0) + 1, false)']);
+    });
+
+    it('leaves out the rows of a schema-only restore', async () => {
+        const archive = await openDumpArchive(Readable.from([await dumpBytes(true)]), true);
+        const { adapter, loaded } = targetAdapter();
+
+        expect((await runRestore(archive, { adapter, adapterConnectionId: 't1', dbType: 'postgres' }, { connectionId: 'c2' }, () => undefined)).rows).toBe(0);
+        expect(loaded).toEqual([]);
+    });
+
+    it('refuses tables that already exist unless told to append or replace them', async () => {
+        const restore = async (existing: 'error' | 'append' | 'replace') => {
+            const archive = await openDumpArchive(Readable.from([await dumpBytes()]), true);
+            const { adapter } = targetAdapter(['Users']);
+            return runRestore(archive, { adapter, adapterConnectionId: 't1', dbType: 'postgres' }, { connectionId: 'c2', existing }, () => undefined);
+        };
+
+        await expect(restore('error')).rejects.toThrow('Already in the target: public.users.');
+        expect(await restore('append')).toMatchObject({ created: ['public.orders', 'public.items'], appended: ['public.users'] });
+        mockSchemaSteps.length = 0;
+        expect(await restore('replace')).toMatchObject({ replaced: ['public.users'] });
+        expect(mockSchemaSteps[0]).toContain('DROP TABLE "public"."users"');
+    });
+
+    it('checks the archive before touching the target', async () => {
+        const header = { type: 'header', format: 'bosdb-dump', version: 1, source: { dbType: 'mysql', family: 'mysql', connection: 'x' }, schemaOnly: false, tables: [users] };
+        const { adapter } = targetAdapter();
+        const target = { adapter, adapterConnectionId: 't1', dbType: 'postgres' };
+
+        await expect(openDumpArchive(Readable.from(['{"not": "a dump"}\n']), false)).rejects.toThrow('Not a BosDB dump archive');
+        await expect(openDumpArchive(Readable.from(['plain text']), true)).rejects.toThrow('Not a BosDB dump archive');
+        await expect(archiveOf([{ ...header, version: 2 }])).rejects.toThrow('The archive is dump version 2');
+        await expect(runRestore(await archiveOf([header]), target, { connectionId: 'c2' }, () => undefined))
+            .rejects.toThrow('A mysql dump can only be restored into a database of the same kind, not postgres');
+        await expect(runRestore(await archiveOf([{ ...header, source: { dbType: 'postgres', family: 'postgres' } }]), target, { connectionId: 'c2' }, () => undefined))
+            .rejects.toThrow('The archive is incomplete');
+    });
+});
@@ -0,0 +1,675 @@
+/**
+ * Logical Dump and Restore
+ * A dump is the structure of the selected tables, as the adapter describes it, followed by
+ * their rows in batches, written as gzipped NDJSON while it downloads. A restore reads the
+ * archive into a connection of the same family: tables and indexes first, then the rows table
+ * by table, then the foreign keys, so the rows load whatever order they come in.
+ */
+
+import { randomUUID } from 'crypto';
+import { createInterface } from 'readline';
+import { pipeline } from 'stream';
+import type { Readable } from 'stream';
+import { createGunzip } from 'zlib';
+import { Gzip } from 'fflate';
+import { CURSOR_IDLE_TIMEOUT, ValidationError } from '@bosdb/core';
+import type { Column, TableMetadata } from '@bosdb/core';
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import { describeSchemaTables, runInTransaction, runSchemaSteps } from '@/lib/db-utils';
+import { BatchWriter, coerceValue } from '@/lib/import-pipeline';
+import { compareSchemas, generateSyncScript, syncFamily } from '@/lib/schema-compare';
+import type { SyncStep } from '@/lib/schema-compare';
+import { quoteIdentifier } from '@/lib/sql-helper';
+import { DUMP_FORMAT, DUMP_VERSION, dumpFileName, tableKey } from '@/lib/dump-helper';
+import type {
+    DumpHeader,
+    DumpLine,
+    DumpProgress,
+    DumpRequest,
+    RestoreEvent,
+    RestoreOptions,
+    RestoreSummary,
+} from '@/lib/dump-helper';
+
+// ============ Types ============
+
+export interface DumpSource {
+    adapter: IDBAdapter;
+    adapterConnectionId: string;
+    dbType: string;
+    connectionName: string;
+    database?: string;
+}
+
+interface DumpJob extends DumpSource {
+    request: DumpRequest;
+    tables: TableMetadata[];  // In dump order
+    cursor?: string;
+    progress: DumpProgress;
+    timer?: NodeJS.Timeout;
+}
+
+export interface RestoreTarget {
+    adapter: IDBAdapter;
+    adapterConnectionId: string;
+    dbType: string;
+}
+
+/**
+ * An archive being read: its header, then the rest of its lines as they are needed
+ */
+export interface DumpArchive {
+    header: DumpHeader;
+    lines: AsyncIterator<DumpLine>;
+    close(): void;
+}
+
+type SQLFamily = 'postgres' | 'mysql' | 'mssql' | 'oracle';
+
+// ============ Constants ============
+
+// Rows read per page, and written per 'rows' line
+const DUMP_PAGE_SIZE = 5000;
+
+// Databases without server-side cursors return a table at once, up to this many rows
+const UNSTREAMED_ROW_LIMIT = 100000;
+
+const DUMP_QUERY_TIMEOUT = 300000;
+
+// Finished dumps are kept this long so the page can read the final progress
+const FINISHED_DUMP_TTL = 10 * 60 * 1000;
+
+const jobs = new Map<string, DumpJob>();
+const textEncoder = new TextEncoder();
+
+// ============ Dump ============
+
+/**
+ * Describe the tables to dump and put them in dump order. Returns the dump's progress, whose
+ * `id` names the download; rows are read only once the download starts.
+ */
+export async function createDump(source: DumpSource, request: DumpRequest): Promise<DumpProgress> {
+    const { adapter, adapterConnectionId, dbType } = source;
+    if (!syncFamily(dbType)) {
+        throw new ValidationError(`Dump is not supported for ${dbType}`);
+    }
+    if (!request.schemas || request.schemas.length === 0) {
+        throw new ValidationError('Select at least one schema to dump');
+    }
+
+    const selected = request.tables && new Set(request.tables.map(tableKey));
+    const tables: TableMetadata[] = [];
+    const describeErrors: DumpProgress['describeErrors'] = [];
+    const estimates = new Map<string, number | undefined>();
+
+    for (const schema of request.schemas) {
+        const described = await describeSchemaTables(adapter, adapterConnectionId, schema);
+        for (const table of await adapter.listTables(adapterConnectionId, schema)) {
+            estimates.set(tableKey({ schema, name: table.name }), table.rowCount);
+        }
+
+        tables.push(...described.tables
+            .filter(table => !selected || selected.has(tableKey({ schema, name: table.name })))
+            .map(table => ({ ...table, schema, rowCount: table.rowCount ?? estimates.get(tableKey({ schema, name: table.name })) })));
+        describeErrors.push(...described.errors
+            .filter(e => !selected || selected.has(tableKey({ schema, name: e.table })))
+            .map(e => ({ table: tableKey({ schema, name: e.table }), error: e.error })));
+    }
+
+    const missing = request.tables?.filter(ref => !tables.some(t => t.schema === ref.schema && t.name === ref.name)
+        && !describeErrors.some(e => e.table === tableKey(ref)));
+    if (missing && missing.length > 0) {
+        throw new ValidationError(`Table not found: ${missing.map(tableKey).join(', ')}`);
+    }
+    if (tables.length === 0) {
+        throw new ValidationError('There are no tables to dump');
+    }
+
+    const ordered = dumpOrder(tables);
+    const id = randomUUID();
+    const job: DumpJob = {
+        ...source,
+        request,
+        tables: ordered,
+        progress: {
+            id,
+            status: 'ready',
+            fileName: dumpFileName(request.filename, source.database || source.connectionName),
+            tables: ordered.map(table => ({
+                schema: table.schema,
+                name: table.name,
+                estimatedRows: table.rowCount,
+                rowsWritten: 0,
+                status: 'pending',
+            })),
+            rowsWritten: 0,
+            bytesWritten: 0,
+            describeErrors,
+            startedAt: new Date().toISOString(),
+        },
+    };
+    jobs.set(id, job);
+
+    // A dump whose download never starts is dropped
+    job.timer = setTimeout(() => cancelDump(id), CURSOR_IDLE_TIMEOUT);
+    job.timer.unref?.();
+
+    return getDump(id)!;
+}
+
+export function getDump(id: string): DumpProgress | undefined {
+    const job = jobs.get(id);
+    return job ? { ...job.progress, tables: job.progress.tables.map(table => ({ ...table })) } : undefined;
+}
+
+/**
+ * Stop a dump that has not finished. Returns false when there is nothing to stop.
+ */
+export async function cancelDump(id: string): Promise<boolean> {
+    const job = jobs.get(id);
+    if (!job || (job.progress.status !== 'ready' && job.progress.status !== 'running')) return false;
+
+    finish(job, 'cancelled');
+    await releaseCursor(job);
+    return true;
+}
+
+/**
+ * Start the download of a ready dump. The archive is written as the stream is read;
+ * cancelling the stream cancels the dump.
+ */
+export function openDumpDownload(id: string): { body: ReadableStream<Uint8Array>; fileName: string } | null {
+    const job = jobs.get(id);
+    if (!job || job.progress.status !== 'ready') return null;
+
+    clearTimeout(job.timer);
+    job.progress.status = 'running';
+    const chunks = compressDump(job);
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                for (;;) {
+                    const { done, value } = await chunks.next();
+                    if (done) {
+                        finish(job, 'done');
+                        controller.close();
+                        return;
+                    }
+                    if (value.length > 0) {
+                        job.progress.bytesWritten += value.length;
+                        controller.enqueue(value);
+                        return;
+                    }
+                }
+            } catch (error: any) {
+                if (job.progress.status === 'running') finish(job, 'failed', error.message || String(error));
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            if (job.progress.status === 'running') finish(job, 'cancelled');
+            await chunks.return(undefined);
+        },
+    });
+
+    return { body, fileName: job.progress.fileName };
+}
+
+function finish(job: DumpJob, status: 'done' | 'failed' | 'cancelled', error?: string): void {
+    clearTimeout(job.timer);
+    job.progress.status = status;
+    job.progress.finishedAt = new Date().toISOString();
+    if (error) job.progress.error = error;
+
+    job.timer = setTimeout(() => jobs.delete(job.progress.id), FINISHED_DUMP_TTL);
+    job.timer.unref?.();
+}
+
+async function releaseCursor(job: DumpJob): Promise<void> {
+    const cursor = job.cursor;
+    job.cursor = undefined;
+    if (!cursor) return;
+    try {
+        await job.adapter.closeCursor(job.adapterConnectionId, cursor);
+    } catch {
+        // Already closed by the adapter
+    }
+}
+
+/**
+ * Tables after the tables their foreign keys reference. References that form a cycle are
+ * left where the names put them; the restore adds foreign keys after the rows in any case.
+ */
+function dumpOrder(tables: TableMetadata[]): TableMetadata[] {
+    const byName = new Map(tables.map(table => [tableKey(table).toLowerCase(), table]));
+    const visited = new Set<TableMetadata>();
+    const ordered: TableMetadata[] = [];
+
+    const visit = (table: TableMetadata) => {
+        if (visited.has(table)) return;
+        visited.add(table);
+        for (const fk of table.foreignKeys) {
+            const referenced = byName.get(tableKey({ schema: table.schema, name: fk.referencedTable }).toLowerCase());
+            if (referenced) visit(referenced);
+        }
+        ordered.push(table);
+    };
+    tables.forEach(visit);
+    return ordered;
+}
+
+async function* compressDump(job: DumpJob): AsyncGenerator<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    const gzip = new Gzip({ level: 6 }, chunk => chunks.push(chunk));
+
+    for await (const line of dumpLines(job)) {
+        gzip.push(textEncoder.encode(`${line}\n`));
+        yield* chunks.splice(0);
+    }
+    gzip.push(new Uint8Array(0), true);
+    yield* chunks.splice(0);
+}
+
+async function* dumpLines(job: DumpJob): AsyncGenerator<string> {
+    const schemaOnly = !!job.request.schemaOnly;
+    const header: DumpHeader = {
+        type: 'header',
+        format: DUMP_FORMAT,
+        version: DUMP_VERSION,
+        createdAt: new Date().toISOString(),
+        source: { dbType: job.dbType, family: syncFamily(job.dbType)!, connection: job.connectionName, database: job.database },
+        schemaOnly,
+        tables: job.tables,
+    };
+    yield serialize(header);
+
+    for (const [index, table] of job.tables.entries()) {
+        if (schemaOnly) break;
+        const progress = job.progress.tables[index];
+        progress.status = 'running';
+
+        const columns = table.columns.map(col => col.name);
+        yield serialize({ type: 'table', schema: table.schema, name: table.name, columns });
+        for await (const page of readTable(job, table)) {
+            if (job.progress.status !== 'running') {
+                throw new Error('Dump cancelled');
+            }
+            if (page.length === 0) continue;
+            yield serialize({ type: 'rows', rows: page.map(row => table.columns.map(col => dumpValue(row[col.name], col, job.dbType))) });
+            progress.rowsWritten += page.length;
+            job.progress.rowsWritten += page.length;
+        }
+        yield serialize({ type: 'tableEnd', rowCount: progress.rowsWritten });
+        progress.status = 'done';
+    }
+
+    if (job.progress.status !== 'running') {
+        throw new Error('Dump cancelled');
+    }
+    yield serialize({ type: 'end', tables: job.tables.length, rows: job.progress.rowsWritten });
+}
+
+/**
+ * Every row of a table, page by page from a cursor. Databases without cursors return the table
+ * at once; one that is larger than that can't be dumped whole, so the dump fails.
+ */
+async function* readTable(job: DumpJob, table: TableMetadata): AsyncGenerator<any[]> {
+    const { adapter, adapterConnectionId, dbType } = job;
+    const name = `${quoteIdentifier(table.schema, dbType)}.${quoteIdentifier(table.name, dbType)}`;
+    const query = {
+        connectionId: adapterConnectionId,
+        query: `SELECT ${table.columns.map(col => quoteIdentifier(col.name, dbType)).join(', ')} FROM ${name}`,
+        timeout: DUMP_QUERY_TIMEOUT,
+        streamResults: true,
+        maxRows: DUMP_PAGE_SIZE,
+    };
+
+    let result = await adapter.executeQuery(query);
+    if (result.hasMore && !result.cursor) {
+        result = await adapter.executeQuery({ ...query, streamResults: false, maxRows: UNSTREAMED_ROW_LIMIT });
+        if (result.hasMore) {
+            throw new Error(`${tableKey(table)} has more than ${UNSTREAMED_ROW_LIMIT} rows, and ${dbType} has no cursor to read them all`);
+        }
+    }
+    job.cursor = result.cursor;
+
+    try {
+        yield result.rows;
+        while (job.cursor) {
+            const page = await adapter.executeQuery({
+                connectionId: adapterConnectionId,
+                query: '',
+                cursor: job.cursor,
+                maxRows: DUMP_PAGE_SIZE,
+                timeout: DUMP_QUERY_TIMEOUT,
+            });
+            job.cursor = page.cursor;
+            if (job.progress.status !== 'running') return;
+            yield page.rows;
+        }
+    } finally {
+        await releaseCursor(job);
+    }
+}
+
+/**
+ * A value as the archive stores it. Drivers read DATE columns as local midnight, so those are
+ * written as the calendar date rather than a UTC instant that could fall on the day before.
+ */
+function dumpValue(value: unknown, column: Column, dbType: string): unknown {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) return null;
+        if (column.dataType.toLowerCase() === 'date' && syncFamily(dbType) !== 'oracle') {
+            const pad = (n: number) => String(n).padStart(2, '0');
+            return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+        }
+        return value.toISOString();
+    }
+    if (Buffer.isBuffer(value) || value instanceof Uint8Array) return { $binary: Buffer.from(value).toString('hex') };
+    return value;
+}
+
+function serialize(line: DumpLine): string {
+    return JSON.stringify(line, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+// ============ Restore ============
+
+/**
+ * Start reading an uploaded archive and check its header
+ */
+export async function openDumpArchive(input: Readable, gzipped: boolean): Promise<DumpArchive> {
+    const text = gzipped ? pipeline(input, createGunzip(), () => undefined) : input;
+    const reader = createInterface({ input: text, crlfDelay: Infinity });
+    const lines = reader[Symbol.asyncIterator]();
+    const close = () => {
+        reader.close();
+        text.destroy();
+        input.destroy();
+    };
+
+    let header: DumpHeader | null;
+    try {
+        const first = await lines.next();
+        header = first.done ? null : JSON.parse(first.value);
+    } catch (error: any) {
+        close();
+        if (error instanceof SyntaxError || error.code === 'Z_DATA_ERROR') {
+            throw new ValidationError('Not a BosDB dump archive');
+        }
+        throw error;
+    }
+    if (header?.type !== 'header' || header.format !== DUMP_FORMAT) {
+        close();
+        throw new ValidationError('Not a BosDB dump archive');
+    }
+    if (header.version > DUMP_VERSION) {
+        close();
+        throw new ValidationError(`The archive is dump version ${header.version}; this version of BosDB reads up to ${DUMP_VERSION}`);
+    }
+
+    return {
+        header,
+        lines: {
+            async next() {
+                const { done, value } = await lines.next().catch(error => {
+                    // A download that was cut off ends mid-stream
+                    if (String(error.code).startsWith('Z_')) {
+                        throw new ValidationError(`The archive could not be decompressed: ${error.message}`);
+                    }
+                    throw error;
+                });
+                if (done) return { done: true, value: undefined };
+                try {
+                    return { done: false, value: JSON.parse(value) };
+                } catch {
+                    throw new ValidationError('The archive is damaged: a line is not valid JSON');
+                }
+            },
+        },
+        close,
+    };
+}
+
+/**
+ * Restore the selected tables of an archive. Runs in three stages:
+ *
+ * 1. schema: drop tables being replaced, create the others with their indexes
+ * 2. data: load each table's rows in one transaction, with the adapter's bulk path
+ * 3. constraints: add foreign keys of the created tables and move PostgreSQL sequences past
+ *    the restored ids
+ *
+ * A failure stops the restore. Tables restored before it are kept.
+ */
+export async function runRestore(
+    archive: DumpArchive,
+    target: RestoreTarget,
+    options: RestoreOptions,
+    emit: (event: RestoreEvent) => void
+): Promise<RestoreSummary> {
+    const started = Date.now();
+    const { header } = archive;
+    const { adapter, adapterConnectionId, dbType } = target;
+    const family = syncFamily(dbType);
+    if (!family || family !== header.source.family) {
+        throw new ValidationError(`A ${header.source.dbType} dump can only be restored into a database of the same kind, not ${dbType}`);
+    }
+
+    const existingMode = options.existing ?? 'error';
+    const schemaOnly = header.schemaOnly || !!options.schemaOnly;
+    const targetSchema = (schema: string) => options.schemaMap?.[schema] || schema;
+
+    // Tables to restore, renamed into their target schemas
+    const requested = options.tables && new Set(options.tables.map(tableKey));
+    const missing = options.tables?.filter(ref => !header.tables.some(t => t.schema === ref.schema && t.name === ref.name));
+    if (missing && missing.length > 0) {
+        throw new ValidationError(`Not in the archive: ${missing.map(tableKey).join(', ')}`);
+    }
+    const restored = new Map<string, TableMetadata>();  // Archive key to the table in the target
+    for (const table of header.tables) {
+        if (requested && !requested.has(tableKey(table))) continue;
+        const renamed = { ...table, schema: targetSchema(table.schema) };
+        if ([...restored.values()].some(t => tableKey(t).toLowerCase() === tableKey(renamed).toLowerCase())) {
+            throw new ValidationError(`Two tables would be restored as ${tableKey(renamed)}`);
+        }
+        restored.set(tableKey(table), renamed);
+    }
+    if (restored.size === 0) {
+        throw new ValidationError('There are no tables to restore');
+    }
+
+    const schemas = new Map<string, { tables: TableMetadata[]; existing: string[] }>();
+    for (const table of restored.values()) {
+        if (!schemas.has(table.schema)) {
+            const listed = await adapter.listTables(adapterConnectionId, table.schema);
+            schemas.set(table.schema, { tables: [], existing: listed.filter(t => t.type === 'table').map(t => t.name) });
+        }
+        schemas.get(table.schema)!.tables.push(table);
+    }
+
+    const existingName = (table: TableMetadata) => schemas.get(table.schema)!.existing
+        .find(name => name.toLowerCase() === table.name.toLowerCase());
+    const conflicts = [...restored.values()].filter(existingName);
+    if (conflicts.length > 0 && existingMode === 'error') {
+        throw new ValidationError(`Already in the target: ${conflicts.map(tableKey).join(', ')}. Append to or replace existing tables to restore them.`);
+    }
+
+    const summary: RestoreSummary = { tables: restored.size, rows: 0, created: [], replaced: [], appended: [], executionTime: 0 };
+    const created = new Set<TableMetadata>();
+    for (const table of restored.values()) {
+        if (!existingName(table)) {
+            summary.created.push(tableKey(table));
+            created.add(table);
+        } else if (existingMode === 'replace') {
+            summary.replaced.push(tableKey(table));
+            created.add(table);
+        } else {
+            summary.appended.push(tableKey(table));
+        }
+    }
+
+    // 1. Schema
+    emit({ type: 'stage', stage: 'schema' });
+    const sequences: { sequence: string; table: TableMetadata; column: string }[] = [];
+    const constrained: TableMetadata[] = [];  // Created tables with the foreign keys to add after the rows
+    for (const [schema, { tables, existing }] of schemas) {
+        const steps: SyncStep[] = [];
+        const replaced = tables.filter(table => created.has(table) && existingName(table));
+        if (replaced.length > 0) {
+            const current = await Promise.all(replaced.map(table => adapter.describeTable(adapterConnectionId, schema, existingName(table)!)));
+            steps.push(...generateSyncScript(compareSchemas([], current), schema, dbType, { dropMissing: true }));
+        }
+
+        const creating = tables.filter(table => created.has(table)).map(table => {
+            if (family !== 'postgres') return table;
+            return { ...table, columns: table.columns.map(col => ownSequence(col, table, sequences)) };
+        });
+        for (const { sequence } of sequences.filter(s => s.table.schema === schema)) {
+            steps.push({ sql: `CREATE SEQUENCE IF NOT EXISTS ${sequence}`, rollbackSQL: `DROP SEQUENCE IF EXISTS ${sequence}`, table: '', operation: 'create' });
+        }
+        steps.push(...generateSyncScript(compareSchemas(creating.map(withoutForeignKeys), []), schema, dbType));
+
+        const result = await runSchemaSteps(adapter, adapterConnectionId, dbType, steps);
+        if (result.error) {
+            throw new Error(`Could not create the tables in ${schema}: ${result.error.message}`);
+        }
+
+        // Foreign keys may point at tables of the archive or tables the target already has
+        const available = new Set([...existing, ...tables.map(table => table.name)].map(name => name.toLowerCase()));
+        for (const table of creating) {
+            const foreignKeys = table.foreignKeys.filter(fk => available.has(fk.referencedTable.toLowerCase()));
+            if (foreignKeys.length > 0) constrained.push({ ...table, foreignKeys });
+        }
+    }
+
+    // 2. Data
+    emit({ type: 'stage', stage: 'data' });
+    let ended = false;
+    for (;;) {
+        const { done, value: line } = await archive.lines.next();
+        if (done) break;
+        if (line.type === 'end') {
+            ended = true;
+            break;
+        }
+        if (line.type !== 'table') continue;
+
+        const table = restored.get(tableKey(line));
+        if (!table || schemaOnly) {
+            await skipTable(archive);
+            continue;
+        }
+        emit({ type: 'table', schema: table.schema, table: table.name });
+        const name = created.has(table) ? table.name : existingName(table)!;
+        summary.rows += await restoreTable(archive, line.columns, table, name, target, family, emit);
+    }
+    if (!ended && !schemaOnly) {
+        throw new Error('The archive is incomplete: it ends before its last table');
+    }
+
+    // 3. Constraints
+    emit({ type: 'stage', stage: 'constraints' });
+    for (const [schema] of schemas) {
+        const tables = constrained.filter(table => table.schema === schema);
+        if (tables.length === 0) continue;
+        const steps = generateSyncScript(compareSchemas(tables, tables.map(withoutForeignKeys)), schema, dbType);
+        const result = await runSchemaSteps(adapter, adapterConnectionId, dbType, steps);
+        if (result.error) {
+            throw new Error(`Could not add the foreign keys in ${schema}: ${result.error.message}`);
+        }
+    }
+    for (const { sequence, table, column } of sequences) {
+        const name = `${quoteIdentifier(table.schema, dbType)}.${quoteIdentifier(table.name, dbType)}`;
+        const max = `(SELECT MAX(${quoteIdentifier(column, dbType)}) FROM ${name})`;
+        await adapter.executeQuery({
+            connectionId: adapterConnectionId,
+            query: `SELECT setval('${sequence}', COALESCE(${max}, 0) + 1, false)`,
+            timeout: 30000,
+        });
+    }
+
+    summary.executionTime = Date.now() - started;
+    return summary;
+}
+
+function withoutForeignKeys(table: TableMetadata): TableMetadata {
+    return { ...table, foreignKeys: [] };
+}
+
+/**
+ * PostgreSQL serial columns default to nextval() of a sequence the archive doesn't carry. The
+ * sequence is created in the target schema and the default pointed at it.
+ */
+function ownSequence(column: Column, table: TableMetadata, sequences: { sequence: string; table: TableMetadata; column: string }[]): Column {
+    const match = /^nextval\('(?:("?)([^'"]+)\1\.)?("?)([^'"]+)\3'(?:::regclass)?\)$/i.exec(column.defaultValue || '');
+    if (!match) return column;
+
+    const sequence = `${quoteIdentifier(table.schema, 'postgresql')}.${quoteIdentifier(match[4], 'postgresql')}`;
+    sequences.push({ sequence, table, column: column.name });
+    return { ...column, defaultValue: `nextval('${sequence}'::regclass)` };
+}
+
+// Lines of a table that is not being restored
+async function skipTable(archive: DumpArchive): Promise<void> {
+    for (;;) {
+        const { done, value } = await archive.lines.next();
+        if (done || value.type === 'tableEnd') return;
+    }
+}
+
+/**
+ * Load one table's rows, in a transaction where the database has them. Returns the rows loaded.
+ */
+async function restoreTable(
+    archive: DumpArchive,
+    archiveColumns: string[],
+    table: TableMetadata,
+    name: string,
+    target: RestoreTarget,
+    family: SQLFamily,
+    emit: (event: RestoreEvent) => void
+): Promise<number> {
+    const { adapter, adapterConnectionId, dbType } = target;
+    const { columns: targetColumns } = await adapter.describeTable(adapterConnectionId, table.schema, name);
+    const columns = archiveColumns.map(column => {
+        const match = targetColumns.find(col => col.name === column)
+            ?? targetColumns.find(col => col.name.toLowerCase() === column.toLowerCase());
+        if (!match) throw new ValidationError(`Column ${column} is not in ${tableKey(table)}`);
+        return match;
+    });
+    const writer = new BatchWriter({ adapter, adapterConnectionId, dbType, schema: table.schema, table: name, columns: targetColumns }, columns, family);
+
+    let loaded = 0;
+    await runInTransaction(adapter, adapterConnectionId, async (transactionId) => {
+        for (;;) {
+            const { done, value: line } = await archive.lines.next();
+            if (done || line.type === 'tableEnd') return;
+            if (line.type !== 'rows') continue;
+
+            const rows = line.rows.map((row, r) => columns.map((column, c) => {
+                try {
+                    return restoreValue(row[c], column, family);
+                } catch (error: any) {
+                    throw new ValidationError(`${tableKey(table)} row ${loaded + r + 1}: ${column.name} ${error.message}`);
+                }
+            }));
+            loaded += await writer.bulk(rows, transactionId);
+            emit({ type: 'progress', schema: table.schema, table: table.name, rows: loaded });
+        }
+    });
+    return loaded;
+}
+
+/**
+ * An archived value as the target column takes it. Empty strings are kept: in a dump they are
+ * data, not a missing value.
+ */
+function restoreValue(value: unknown, column: Column, family: SQLFamily): unknown {
+    if (value === '') return value;
+    if (value && typeof value === 'object' && typeof (value as any).$binary === 'string' && Object.keys(value).length === 1) {
+        return coerceValue(Buffer.from((value as any).$binary, 'hex'), column, family);
+    }
+    return coerceValue(value, column, family);
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Column, ForeignKey, TableMetadata } from '@bosdb/core';
+import { buildDiagram, neighbourhood, toDBML, toMermaid } from '@/lib/er-diagram';
+
+const column = (name: string, dataType: string, extra: Partial<Column> = {}): Column => ({
+    name,
+    dataType,
+    nullable: false,
+    isPrimaryKey: false,
+    isForeignKey: false,
+    ...extra,
+});
+
+const fk = (name: string, columns: string[], referencedTable: string, referencedColumns: string[], extra: Partial<ForeignKey> = {}): ForeignKey => ({
+    name,
+    columns,
+    referencedTable,
+    referencedColumns,
+    ...extra,
+});
+
+function table(name: string, columns: Column[], foreignKeys: ForeignKey[] = [], indexes: TableMetadata['indexes'] = []): TableMetadata {
+    return {
+        schema: 'public',
+        name,
+        columns,
+        primaryKeys: columns.filter((col) => col.isPrimaryKey).map((col) => col.name),
+        foreignKeys,
+        indexes,
+    };
+}
+
+// users <- orders <- order_items, users <- profiles (one-to-one), tags on its own
+const users = table('users', [
+    column('id', 'integer', { isPrimaryKey: true }),
+    column('email', 'text'),
+    column('name', 'text', { nullable: true, comment: "User's name" }),
+], [], [{ name: 'users_email_key', columns: ['email'], unique: true, primary: false }]);
+const profiles = table('profiles', [column('user_id', 'integer', { isPrimaryKey: true })], [
+    fk('profiles_user_fk', ['user_id'], 'users', ['id']),
+]);
+const orders = table('orders', [column('id', 'integer', { isPrimaryKey: true }), column('user_id', 'integer', { nullable: true })], [
+    fk('orders_user_fk', ['user_id'], 'users', ['id'], { onDelete: 'CASCADE', onUpdate: 'NO ACTION' }),
+]);
+const orderItems = table('order_items', [
+    column('order_id', 'integer', { isPrimaryKey: true }),
+    column('line', 'integer', { isPrimaryKey: true }),
+    column('price', 'numeric(10, 2)'),
+], [fk('order_items_order_fk', ['order_id'], 'orders', ['id'])]);
+const tags = table('tags', [column('label', 'character varying')]);
+
+const schema = [users, profiles, orders, orderItems, tags];
+
+describe('buildDiagram', () => {
+    it('places referenced tables to the left of the tables that reference them', () => {
+        const diagram = buildDiagram(schema);
+        const box = (name: string) => diagram.tables.find((t) => t.name === name)!;
+
+        expect(box('users').x).toBeLessThan(box('orders').x);
+        expect(box('orders').x).toBeLessThan(box('order_items').x);
+        expect(box('users').x).toBeLessThan(box('profiles').x);
+        expect(diagram.edges.map((e) => `${e.from}->${e.to}`)).toEqual(['profiles->users', 'orders->users', 'order_items->orders']);
+
+        for (const a of diagram.tables) {
+            expect(a.x + a.width).toBeLessThanOrEqual(diagram.width);
+            expect(a.y + a.height).toBeLessThanOrEqual(diagram.height);
+            for (const b of diagram.tables) {
+                if (a === b) continue;
+                const overlaps = a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+                expect(overlaps).toBe(false);
+            }
+        }
+    });
+
+    it('keeps only key columns in keys-only mode and counts the rest', () => {
+        const diagram = buildDiagram(schema, { keysOnly: true });
+        const box = (name: string) => diagram.tables.find((t) => t.name === name)!;
+
+        expect(box('orders').columns.map((col) => [col.name, col.isForeignKey])).toEqual([['id', false], ['user_id', true]]);
+        expect(box('users')).toMatchObject({ hiddenColumns: 2, columns: [{ name: 'id' }] });
+    });
+
+    it('leaves out edges to tables outside the set', () => {
+        expect(buildDiagram([orders]).edges).toEqual([]);
+    });
+});
+
+describe('neighbourhood', () => {
+    it('follows foreign keys in both directions up to the given depth', () => {
+        const names = (depth: number) => neighbourhood(schema, 'orders', depth).map((t) => t.name);
+
+        expect(names(0)).toEqual(['orders']);
+        expect(names(1)).toEqual(['users', 'orders', 'order_items']);
+        expect(names(2)).toEqual(['users', 'profiles', 'orders', 'order_items']);
+    });
+});
+
+describe('toMermaid', () => {
+    it('writes entities with key markers and relationships with their cardinality', () => {
+        expect(toMermaid([users, profiles, orders]).split('\n')).toEqual([
+            'erDiagram',
+            '    users {',
+            '        integer id PK',
+            '        text email',
+            '        text name',
+            '    }',
+            '    profiles {',
+            '        integer user_id PK,FK',
+            '    }',
+            '    orders {',
+            '        integer id PK',
+            '        integer user_id FK',
+            '    }',
+            '    users ||--o| profiles : "profiles_user_fk"',
+            '    users |o--o{ orders : "orders_user_fk"',
+        ]);
+    });
+});
+
+describe('toDBML', () => {
+    it('writes tables, composite keys, indexes and refs with their actions', () => {
+        expect(toDBML([users, orders, orderItems, tags], 'public')).toBe([
+            'Table public.users {',
+            '  id integer [pk]',
+            '  email text [not null]',
+            "  name text [note: 'User\\'s name']",
+            '',
+            '  indexes {',
+            "    email [unique, name: 'users_email_key']",
+            '  }',
+            '}',
+            '',
+            'Table public.orders {',
+            '  id integer [pk]',
+            '  user_id integer',
+            '}',
+            '',
+            'Table public.order_items {',
+            '  order_id integer',
+            '  line integer',
+            '  price numeric(10,2) [not null]',
+            '',
+            '  indexes {',
+            '    (order_id, line) [pk]',
+            '  }',
+            '}',
+            '',
+            'Table public.tags {',
+            '  label "character varying" [not null]',
+            '}',
+            '',
+            'Ref orders_user_fk: public.orders.user_id > public.users.id [delete: cascade]',
+            'Ref order_items_order_fk: public.order_items.order_id > public.orders.id',
+            '',
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,354 @@
+/**
+ * ER Diagram Model
+ * Turns describeTable() metadata into positioned table boxes and foreign-key edges, and
+ * exports the same relationships as Mermaid or DBML. Layout is layered: referenced tables
+ * sit to the left of the tables that reference them, and unrelated groups are packed in rows.
+ */
+
+import type { TableMetadata } from '@bosdb/core';
+
+export interface DiagramColumn {
+    name: string;
+    type: string;
+    isPrimaryKey: boolean;
+    isForeignKey: boolean;
+    nullable: boolean;
+}
+
+export interface DiagramTable {
+    name: string;
+    columns: DiagramColumn[];
+    hiddenColumns: number; // Columns left out in keys-only mode
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface DiagramEdge {
+    name: string;
+    from: string; // Referencing table
+    fromColumns: string[];
+    to: string; // Referenced table
+    toColumns: string[];
+    path: string; // SVG path between the two boxes
+}
+
+export interface ErDiagram {
+    tables: DiagramTable[];
+    edges: DiagramEdge[];
+    width: number;
+    height: number;
+}
+
+export const HEADER_HEIGHT = 30;
+export const ROW_HEIGHT = 20;
+const CHAR_WIDTH = 7;
+const MIN_WIDTH = 160;
+const LAYER_GAP = 90;
+const NODE_GAP = 36;
+const COMPONENT_GAP = 80;
+const ORDERING_SWEEPS = 4;
+
+/**
+ * Lay out the given tables. Foreign keys to tables outside the set are not drawn.
+ */
+export function buildDiagram(metadata: TableMetadata[], options: { keysOnly?: boolean } = {}): ErDiagram {
+    const names = new Set(metadata.map(t => t.name));
+    const tables = new Map<string, DiagramTable>();
+
+    for (const table of metadata) {
+        const all = table.columns.map(col => ({
+            name: col.name,
+            type: col.dataType,
+            isPrimaryKey: col.isPrimaryKey,
+            isForeignKey: col.isForeignKey || table.foreignKeys.some(fk => fk.columns.includes(col.name)),
+            nullable: col.nullable,
+        }));
+        const columns = options.keysOnly ? all.filter(col => col.isPrimaryKey || col.isForeignKey) : all;
+        const hiddenColumns = all.length - columns.length;
+        const longest = Math.max(table.name.length + 4, ...columns.map(col => col.name.length + col.type.length + 6));
+
+        tables.set(table.name, {
+            name: table.name,
+            columns,
+            hiddenColumns,
+            x: 0,
+            y: 0,
+            width: Math.max(MIN_WIDTH, longest * CHAR_WIDTH),
+            height: HEADER_HEIGHT + (columns.length + (hiddenColumns > 0 ? 1 : 0)) * ROW_HEIGHT + 6,
+        });
+    }
+
+    const relations = metadata.flatMap(table => table.foreignKeys
+        .filter(fk => names.has(fk.referencedTable))
+        .map(fk => ({ name: fk.name, from: table.name, fromColumns: fk.columns, to: fk.referencedTable, toColumns: fk.referencedColumns })));
+
+    const components = connectedComponents(Array.from(names), relations)
+        .map(members => layoutComponent(members, relations, tables));
+    const size = packComponents(components);
+
+    const edges = relations.map(rel => ({
+        ...rel,
+        path: edgePath(tables.get(rel.from)!, rel.fromColumns[0], tables.get(rel.to)!, rel.toColumns[0]),
+    }));
+
+    return { tables: Array.from(tables.values()), edges, ...size };
+}
+
+/**
+ * The focus table plus every table within `depth` foreign-key hops, in either direction
+ */
+export function neighbourhood(metadata: TableMetadata[], focus: string, depth: number): TableMetadata[] {
+    const adjacent = new Map<string, Set<string>>();
+    const link = (a: string, b: string) => {
+        if (!adjacent.has(a)) adjacent.set(a, new Set());
+        adjacent.get(a)!.add(b);
+    };
+    for (const table of metadata) {
+        for (const fk of table.foreignKeys) {
+            link(table.name, fk.referencedTable);
+            link(fk.referencedTable, table.name);
+        }
+    }
+
+    const included = new Set([focus]);
+    let frontier = [focus];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+        frontier = frontier.flatMap(name => Array.from(adjacent.get(name) || [])).filter(name => !included.has(name));
+        frontier.forEach(name => included.add(name));
+    }
+
+    return metadata.filter(t => included.has(t.name));
+}
+
+// ============ Export ============
+
+export function toMermaid(metadata: TableMetadata[]): string {
+    const names = new Set(metadata.map(t => t.name));
+    const id = (name: string) => name.replace(/[^\w-]/g, '_');
+    const lines = ['erDiagram'];
+
+    for (const table of metadata) {
+        lines.push(`    ${id(table.name)} {`);
+        for (const col of table.columns) {
+            const keys = [
+                col.isPrimaryKey && 'PK',
+                (col.isForeignKey || table.foreignKeys.some(fk => fk.columns.includes(col.name))) && 'FK',
+            ].filter(Boolean).join(',');
+            lines.push(`        ${col.dataType.replace(/[^\w()[\]-]/g, '_')} ${id(col.name)}${keys ? ` ${keys}` : ''}`);
+        }
+        lines.push('    }');
+    }
+
+    for (const table of metadata) {
+        for (const fk of table.foreignKeys) {
+            if (!names.has(fk.referencedTable)) continue;
+            const optional = fk.columns.some(name => table.columns.find(col => col.name === name)?.nullable);
+            const many = isUnique(table, fk.columns) ? 'o|' : 'o{';
+            lines.push(`    ${id(fk.referencedTable)} ${optional ? '|o' : '||'}--${many} ${id(table.name)} : "${fk.name.replace(/"/g, "'")}"`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+export function toDBML(metadata: TableMetadata[], schema: string): string {
+    const name = (value: string) => /^\w+$/.test(value) ? value : `"${value.replace(/"/g, '\\"')}"`;
+    const type = (value: string) => /^[\w(),]+$/.test(value.replace(/,\s*/g, ',')) ? value.replace(/,\s*/g, ',') : `"${value}"`;
+    const columnList = (columns: string[]) => columns.length === 1 ? name(columns[0]) : `(${columns.map(name).join(', ')})`;
+    const blocks: string[] = [];
+
+    for (const table of metadata) {
+        const lines = [`Table ${name(schema)}.${name(table.name)} {`];
+        const compositeKey = table.primaryKeys.length > 1;
+
+        for (const col of table.columns) {
+            const settings = [
+                col.isPrimaryKey && !compositeKey && 'pk',
+                !col.nullable && !col.isPrimaryKey && 'not null',
+                col.comment && `note: '${col.comment.replace(/'/g, "\\'")}'`,
+            ].filter(Boolean);
+            lines.push(`  ${name(col.name)} ${type(col.dataType)}${settings.length ? ` [${settings.join(', ')}]` : ''}`);
+        }
+
+        const indexes = [
+            ...(compositeKey ? [`    ${columnList(table.primaryKeys)} [pk]`] : []),
+            ...table.indexes
+                .filter(idx => !idx.primary && idx.columns.length > 0)
+                .map(idx => `    ${columnList(idx.columns)} [${idx.unique ? 'unique, ' : ''}name: '${idx.name}']`),
+        ];
+        if (indexes.length > 0) lines.push('', '  indexes {', ...indexes, '  }');
+
+        lines.push('}');
+        blocks.push(lines.join('\n'));
+    }
+
+    const refs = metadata.flatMap(table => table.foreignKeys.map(fk => {
+        const actions = [
+            fk.onDelete && fk.onDelete !== 'NO ACTION' && `delete: ${fk.onDelete.toLowerCase()}`,
+            fk.onUpdate && fk.onUpdate !== 'NO ACTION' && `update: ${fk.onUpdate.toLowerCase()}`,
+        ].filter(Boolean);
+        return `Ref ${name(fk.name)}: ${name(schema)}.${name(table.name)}.${columnList(fk.columns)} ${isUnique(table, fk.columns) ? '-' : '>'} ` +
+            `${name(schema)}.${name(fk.referencedTable)}.${columnList(fk.referencedColumns)}${actions.length ? ` [${actions.join(', ')}]` : ''}`;
+    }));
+    if (refs.length > 0) blocks.push(refs.join('\n'));
+
+    return blocks.join('\n\n') + '\n';
+}
+
+// ============ Layout ============
+
+interface Relation {
+    from: string;
+    to: string;
+}
+
+interface PlacedComponent {
+    tables: DiagramTable[];
+    width: number;
+    height: number;
+}
+
+// One-to-one when the referencing columns are themselves the key or a unique index
+function isUnique(table: TableMetadata, columns: string[]): boolean {
+    const same = (other: string[]) => other.length === columns.length && other.every(col => columns.includes(col));
+    return same(table.primaryKeys) || table.indexes.some(idx => idx.unique && same(idx.columns));
+}
+
+function connectedComponents(names: string[], relations: Relation[]): string[][] {
+    const parent = new Map(names.map(name => [name, name]));
+    const find = (name: string): string => {
+        while (parent.get(name) !== name) name = parent.get(name)!;
+        return name;
+    };
+    for (const rel of relations) parent.set(find(rel.from), find(rel.to));
+
+    const groups = new Map<string, string[]>();
+    for (const name of names) {
+        const root = find(name);
+        if (!groups.has(root)) groups.set(root, []);
+        groups.get(root)!.push(name);
+    }
+    return Array.from(groups.values()).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Place one group of related tables: each table one layer right of the tables it references,
+ * then reorder every layer towards the average position of its neighbours to shorten edges.
+ */
+function layoutComponent(members: string[], relations: Relation[], tables: Map<string, DiagramTable>): PlacedComponent {
+    const inComponent = new Set(members);
+    const references = new Map<string, string[]>(members.map(name => [name, []]));
+    const neighbours = new Map<string, string[]>(members.map(name => [name, []]));
+    for (const rel of relations) {
+        if (!inComponent.has(rel.from) || rel.from === rel.to) continue;
+        references.get(rel.from)!.push(rel.to);
+        neighbours.get(rel.from)!.push(rel.to);
+        neighbours.get(rel.to)!.push(rel.from);
+    }
+
+    // Longest path from a table that references nothing; cycles are cut where they are found
+    const layerOf = new Map<string, number>();
+    const visiting = new Set<string>();
+    const assign = (name: string): number => {
+        if (layerOf.has(name)) return layerOf.get(name)!;
+        if (visiting.has(name)) return -1;
+        visiting.add(name);
+        const layer = 1 + Math.max(-1, ...references.get(name)!.map(assign));
+        visiting.delete(name);
+        layerOf.set(name, layer);
+        return layer;
+    };
+    members.forEach(assign);
+
+    const layers: string[][] = [];
+    for (const name of members.slice().sort()) {
+        const layer = layerOf.get(name)!;
+        (layers[layer] ||= []).push(name);
+    }
+
+    const position = new Map<string, number>();
+    const index = () => layers.forEach(layer => layer.forEach((name, i) => position.set(name, i / Math.max(1, layer.length - 1))));
+    index();
+    for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+        for (const layer of layers) {
+            const barycenter = (name: string) => {
+                const around = neighbours.get(name)!.filter(n => layerOf.get(n) !== layerOf.get(name));
+                return around.length > 0
+                    ? around.reduce((sum, n) => sum + position.get(n)!, 0) / around.length
+                    : position.get(name)!;
+            };
+            const weights = new Map(layer.map(name => [name, barycenter(name)]));
+            layer.sort((a, b) => weights.get(a)! - weights.get(b)!);
+        }
+        index();
+    }
+
+    let x = 0;
+    let height = 0;
+    for (const layer of layers.filter(Boolean)) {
+        const boxes = layer.map(name => tables.get(name)!);
+        const width = Math.max(...boxes.map(box => box.width));
+        let y = 0;
+        for (const box of boxes) {
+            box.x = x;
+            box.y = y;
+            y += box.height + NODE_GAP;
+        }
+        height = Math.max(height, y - NODE_GAP);
+        x += width + LAYER_GAP;
+    }
+
+    return { tables: members.map(name => tables.get(name)!), width: x - LAYER_GAP, height };
+}
+
+// Shelf packing: fill rows up to a width that keeps the overall diagram roughly landscape
+function packComponents(components: PlacedComponent[]): { width: number; height: number } {
+    const area = components.reduce((sum, c) => sum + (c.width + COMPONENT_GAP) * (c.height + COMPONENT_GAP), 0);
+    const rowWidth = Math.max(Math.sqrt(area) * 1.6, ...components.map(c => c.width));
+
+    let x = 0;
+    let y = 0;
+    let rowHeight = 0;
+    let width = 0;
+    for (const component of components) {
+        if (x > 0 && x + component.width > rowWidth) {
+            x = 0;
+            y += rowHeight + COMPONENT_GAP;
+            rowHeight = 0;
+        }
+        for (const box of component.tables) {
+            box.x += x;
+            box.y += y;
+        }
+        x += component.width + COMPONENT_GAP;
+        rowHeight = Math.max(rowHeight, component.height);
+        width = Math.max(width, x - COMPONENT_GAP);
+    }
+
+    return { width, height: y + rowHeight };
+}
+
+// Vertical centre of a column's row, or of the header when the column is hidden
+function rowY(table: DiagramTable, column: string): number {
+    const row = table.columns.findIndex(col => col.name === column);
+    return row >= 0 ? table.y + HEADER_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2 : table.y + HEADER_HEIGHT / 2;
+}
+
+function edgePath(from: DiagramTable, fromColumn: string, to: DiagramTable, toColumn: string): string {
+    const y1 = rowY(from, fromColumn);
+    const y2 = rowY(to, toColumn);
+
+    // Self-reference: loop out of the right side and back
+    if (from === to) {
+        const x = from.x + from.width;
+        return `M ${x} ${y1} C ${x + 50} ${y1}, ${x + 50} ${y2}, ${x} ${y2}`;
+    }
+
+    const leftToRight = from.x + from.width / 2 > to.x + to.width / 2;
+    const x1 = leftToRight ? from.x : from.x + from.width;
+    const x2 = leftToRight ? to.x + to.width : to.x;
+    const bend = Math.max(40, Math.abs(x1 - x2) / 2) * (leftToRight ? -1 : 1);
+    return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+}
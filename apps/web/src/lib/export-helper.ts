@@ -0,0 +1,61 @@
+import type { ExportFormat, QueryParams } from '@bosdb/core';
+
+// ============ Types ============
+
+export interface ExportFormatInfo {
+    label: string;
+    extension: string;
+    mimeType: string;
+}
+
+export interface ExportRequest {
+    connectionId: string;
+    query: string;
+    params?: QueryParams;  // Bound values of the query, as sent to /api/query
+    format: ExportFormat;
+    columns?: string[];    // Columns to export, in order; all columns when omitted
+    filename?: string;     // Without extension
+    includeHeaders?: boolean;
+    delimiter?: string;    // CSV only
+    tableName?: string;    // SQL only: table the INSERT statements target
+}
+
+export type ExportStatus = 'ready' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ExportProgress {
+    id: string;
+    status: ExportStatus;
+    format: ExportFormat;
+    fileName: string;
+    columns: string[];
+    rowsWritten: number;
+    bytesWritten: number;
+    truncated: boolean;  // The database could not stream the query, so only its first rows are exported
+    startedAt: string;
+    finishedAt?: string;
+    error?: string;
+}
+
+// ============ Formats ============
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+    csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv; charset=utf-8' },
+    json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+    ndjson: { label: 'JSON Lines', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+    xlsx: { label: 'Excel', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+    sql: { label: 'SQL INSERT', extension: 'sql', mimeType: 'application/sql; charset=utf-8' },
+    markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown; charset=utf-8' },
+    parquet: { label: 'Parquet', extension: 'parquet', mimeType: 'application/vnd.apache.parquet' },
+};
+
+export function exportFileName(filename: string | undefined, format: ExportFormat): string {
+    const base = (filename || 'export').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'export';
+    return `${base}.${EXPORT_FORMATS[format].extension}`;
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
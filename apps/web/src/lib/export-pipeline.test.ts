@@ -0,0 +1,158 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import * as XLSX from 'xlsx';
+import type { QueryResult } from '@bosdb/core';
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import { cancelExport, createExport, getExport, openExportDownload } from '@/lib/export-pipeline';
+import { exportFileName, formatBytes } from '@/lib/export-helper';
+import type { ExportRequest } from '@/lib/export-helper';
+
+// Only Parquet exports use it, and it ships as ES modules only
+jest.mock('hyparquet-writer', () => ({}));
+
+const fields = [{ name: 'id', dataType: 'integer' }, { name: 'name', dataType: 'text' }, { name: 'meta', dataType: 'jsonb' }];
+const rows = [
+    { id: 1, name: 'Ada, "the first"', meta: { tags: ['a'] } },
+    { id: 2, name: 'Bob|Smith\nJr', meta: null },
+    { id: 3, name: null, meta: Buffer.from([0, 255]) },
+];
+
+/**
+ * Adapter that returns `rows` one per page through a cursor, or all at once without one
+ */
+function fakeAdapter(options: { cursors?: boolean } = {}) {
+    const closeCursor = jest.fn(async () => undefined);
+    const executeQuery = jest.fn(async (request: any): Promise<QueryResult> => {
+        const page = request.cursor ? Number(request.cursor) : 0;
+        if (options.cursors === false) {
+            const max = request.streamResults ? 1 : rows.length;
+            return { rows: rows.slice(0, max), fields, rowCount: max, executionTime: 0, hasMore: request.streamResults };
+        }
+        return {
+            rows: [rows[page]],
+            fields,
+            rowCount: 1,
+            executionTime: 0,
+            cursor: page + 1 < rows.length ? String(page + 1) : undefined,
+            hasMore: page + 1 < rows.length,
+        };
+    });
+    return { adapter: { executeQuery, closeCursor } as unknown as IDBAdapter, executeQuery, closeCursor };
+}
+
+async function exportText(request: Partial<ExportRequest>, dbType = 'postgres') {
+    const { adapter } = fakeAdapter();
+    const progress = await createExport({ adapter, adapterConnectionId: 'a1', dbType }, { connectionId: 'c1', query: 'SELECT', format: 'csv', ...request });
+    const download = openExportDownload(progress.id)!;
+    const text = await new Response(download.body).text();
+    return { text, progress: getExport(progress.id)!, download };
+}
+
+describe('export helpers', () => {
+    it('names the file after the request and the format', () => {
+        expect(exportFileName('sales: 2024/Q1', 'xlsx')).toBe('sales_ 2024_Q1.xlsx');
+        expect(exportFileName('  ', 'markdown')).toBe('export.md');
+        expect([512, 2048, 5 * 1024 * 1024].map(formatBytes)).toEqual(['512 B', '2.0 KB', '5.0 MB']);
+    });
+});
+
+describe('export pipeline', () => {
+    it('reads every page from the cursor into one CSV file', async () => {
+        const { text, progress, download } = await exportText({ format: 'csv', filename: 'people' });
+
+        expect(text).toBe('id,name,meta\r\n1,"Ada, ""the first""","{""tags"":[""a""]}"\r\n2,"Bob|Smith\nJr",\r\n3,,\\x00ff\r\n');
+        expect(download).toMatchObject({ fileName: 'people.csv', mimeType: 'text/csv; charset=utf-8' });
+        expect(progress).toMatchObject({ status: 'done', rowsWritten: 3, bytesWritten: Buffer.byteLength(text), truncated: false });
+    });
+
+    it('exports only the chosen columns, in the chosen order', async () => {
+        const { text } = await exportText({ format: 'csv', columns: ['name', 'id', 'missing'], includeHeaders: false, delimiter: ';' });
+        expect(text.split('\r\n')[0]).toBe('"Ada, ""the first""";1');
+    });
+
+    it('writes JSON, JSON Lines and Markdown', async () => {
+        const json = JSON.parse((await exportText({ format: 'json' })).text);
+        expect(json).toEqual([
+            { id: 1, name: 'Ada, "the first"', meta: { tags: ['a'] } },
+            { id: 2, name: 'Bob|Smith\nJr', meta: null },
+            { id: 3, name: null, meta: '\\x00ff' },
+        ]);
+        expect((await exportText({ format: 'ndjson', columns: ['id'] })).text).toBe('{"id":1}\n{"id":2}\n{"id":3}\n');
+        expect((await exportText({ format: 'markdown', columns: ['id', 'name'] })).text.split('\n')).toEqual([
+            '| id | name |',
+            '| --- | --- |',
+            '| 1 | Ada, "the first" |',
+            '| 2 | Bob\\|Smith<br>Jr |',
+            '| 3 |  |',
+            '',
+        ]);
+    });
+
+    it('writes INSERT statements in the target dialect', async () => {
+        const { text } = await exportText({ format: 'sql', tableName: 'app.people', columns: ['id', 'name'] }, 'mysql');
+        expect(text).toBe([
+            '-- app.people: rows exported by BosDB',
+            'INSERT INTO `app`.`people` (`id`, `name`) VALUES',
+            "(1, 'Ada, \"the first\"');",
+            'INSERT INTO `app`.`people` (`id`, `name`) VALUES',
+            "(2, 'Bob|Smith",
+            "Jr');",
+            'INSERT INTO `app`.`people` (`id`, `name`) VALUES',
+            '(3, NULL);',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes an Excel workbook that reads back', async () => {
+        const { adapter } = fakeAdapter();
+        const { id } = await createExport({ adapter, adapterConnectionId: 'a1', dbType: 'postgres' }, { connectionId: 'c1', query: 'SELECT', format: 'xlsx', columns: ['id', 'name'] });
+        const bytes = await new Response(openExportDownload(id)!.body).arrayBuffer();
+
+        const workbook = XLSX.read(bytes);
+        expect(XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1 })).toEqual([
+            ['id', 'name'],
+            [1, 'Ada, "the first"'],
+            [2, 'Bob|Smith\nJr'],
+            [3],
+        ]);
+    });
+
+    it('runs the query again without a cursor where the database cannot stream it', async () => {
+        const { adapter, executeQuery } = fakeAdapter({ cursors: false });
+        const progress = await createExport({ adapter, adapterConnectionId: 'a1', dbType: 'postgres' }, { connectionId: 'c1', query: 'SELECT', format: 'ndjson', columns: ['id'] });
+
+        expect(executeQuery).toHaveBeenCalledTimes(2);
+        expect(progress.truncated).toBe(false);
+        expect(await new Response(openExportDownload(progress.id)!.body).text()).toBe('{"id":1}\n{"id":2}\n{"id":3}\n');
+    });
+
+    it('refuses a column selection that matches nothing and closes the cursor', async () => {
+        const { adapter, closeCursor } = fakeAdapter();
+
+        await expect(createExport({ adapter, adapterConnectionId: 'a1', dbType: 'postgres' }, { connectionId: 'c1', query: 'SELECT', format: 'csv', columns: ['nope'] }))
+            .rejects.toThrow('None of the selected columns are in the query result');
+        expect(closeCursor).toHaveBeenCalledWith('a1', '1');
+    });
+
+    it('releases the cursor of a cancelled export and refuses to download it', async () => {
+        const { adapter, closeCursor } = fakeAdapter();
+        const { id } = await createExport({ adapter, adapterConnectionId: 'a1', dbType: 'postgres' }, { connectionId: 'c1', query: 'SELECT', format: 'csv' });
+
+        expect(await cancelExport(id)).toBe(true);
+        expect(closeCursor).toHaveBeenCalledWith('a1', '1');
+        expect(getExport(id)!.status).toBe('cancelled');
+        expect(openExportDownload(id)).toBeNull();
+        expect(await cancelExport(id)).toBe(false);
+    });
+
+    it('cancels the export when the download is aborted', async () => {
+        const { adapter, closeCursor } = fakeAdapter();
+        const { id } = await createExport({ adapter, adapterConnectionId: 'a1', dbType: 'postgres' }, { connectionId: 'c1', query: 'SELECT', format: 'csv' });
+        const reader = openExportDownload(id)!.body.getReader();
+
+        await reader.read();
+        await reader.cancel();
+
+        expect(getExport(id)!.status).toBe('cancelled');
+        expect(closeCursor).toHaveBeenCalledWith('a1', '1');
+    });
+});
@@ -0,0 +1,651 @@
+/**
+ * Server-side Export
+ * A query is run once when the export is created, so errors reach the dialog as JSON. The
+ * download then reads the rest of the result page by page from its cursor and encodes each
+ * page as it goes, so memory stays bounded by the page size however many rows there are.
+ */
+
+import { randomUUID } from 'crypto';
+import Papa from 'papaparse';
+import { Zip, ZipDeflate, strToU8 } from 'fflate';
+import { ByteWriter, ParquetWriter, schemaFromColumnData } from 'hyparquet-writer';
+import type { BasicType, ColumnSource } from 'hyparquet-writer';
+import { CURSOR_IDLE_TIMEOUT, ValidationError, formatSQLLiteral } from '@bosdb/core';
+import type { QueryField, QueryParams } from '@bosdb/core';
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import { quoteIdentifier } from '@/lib/sql-helper';
+import { getDialectFromDbType } from '@/lib/sql-formatter';
+import { EXPORT_FORMATS, exportFileName } from '@/lib/export-helper';
+import type { ExportProgress, ExportRequest } from '@/lib/export-helper';
+
+// ============ Types ============
+
+export interface ExportSource {
+    adapter: IDBAdapter;
+    adapterConnectionId: string;
+    dbType: string;
+}
+
+interface ExportJob extends ExportSource {
+    request: ExportRequest;
+    fields: QueryField[];  // Exported columns, in order
+    firstPage: any[];
+    cursor?: string;
+    progress: ExportProgress;
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * Encodes pages of rows (values in column order) into the bytes of one file format
+ */
+interface ExportEncoder {
+    start(): Uint8Array | string;
+    write(rows: unknown[][]): Uint8Array | string;
+    end(): Uint8Array | string;
+}
+
+// ============ Constants ============
+
+// Rows read from the cursor per page, and written per Parquet row group
+const EXPORT_PAGE_SIZE = 5000;
+
+// Databases without server-side cursors return the whole result at once, up to this many rows
+const UNSTREAMED_ROW_LIMIT = 100000;
+
+const EXPORT_QUERY_TIMEOUT = 300000;
+
+// Finished exports are kept this long so the dialog can read the final progress
+const FINISHED_EXPORT_TTL = 10 * 60 * 1000;
+
+const ROWS_PER_INSERT = 100;
+
+// Excel's limits: rows per sheet (including the header) and characters per cell
+const XLSX_MAX_ROWS = 1048576;
+const XLSX_MAX_CELL_LENGTH = 32767;
+
+const jobs = new Map<string, ExportJob>();
+const textEncoder = new TextEncoder();
+
+// ============ Jobs ============
+
+/**
+ * Run the query and hold its cursor until the download starts. Returns the export's progress,
+ * whose `id` names the download.
+ */
+export async function createExport(source: ExportSource, request: ExportRequest): Promise<ExportProgress> {
+    if (!EXPORT_FORMATS[request.format]) {
+        throw new ValidationError(`Unsupported export format: ${request.format}`);
+    }
+
+    const query = {
+        connectionId: source.adapterConnectionId,
+        query: request.query,
+        params: request.params as QueryParams | undefined,
+        timeout: EXPORT_QUERY_TIMEOUT,
+        streamResults: true,
+        maxRows: EXPORT_PAGE_SIZE,
+    };
+    let result = await source.adapter.executeQuery(query);
+    let truncated = false;
+    if (result.hasMore && !result.cursor) {
+        // No cursor for this database or statement: run it again for as many rows as we allow
+        result = await source.adapter.executeQuery({ ...query, streamResults: false, maxRows: UNSTREAMED_ROW_LIMIT });
+        truncated = Boolean(result.hasMore);
+    }
+
+    const fields = exportFields(result.fields, result.rows, request.columns);
+    if (fields.length === 0) {
+        if (result.cursor) await source.adapter.closeCursor(source.adapterConnectionId, result.cursor);
+        throw new ValidationError('None of the selected columns are in the query result');
+    }
+
+    const id = randomUUID();
+    const job: ExportJob = {
+        ...source,
+        request,
+        fields,
+        firstPage: result.rows,
+        cursor: result.cursor,
+        progress: {
+            id,
+            status: 'ready',
+            format: request.format,
+            fileName: exportFileName(request.filename, request.format),
+            columns: fields.map(field => field.name),
+            rowsWritten: 0,
+            bytesWritten: 0,
+            truncated,
+            startedAt: new Date().toISOString(),
+        },
+    };
+    jobs.set(id, job);
+
+    // A download that never starts would otherwise pin the cursor's connection
+    job.timer = setTimeout(() => cancelExport(id), CURSOR_IDLE_TIMEOUT);
+    job.timer.unref?.();
+
+    return { ...job.progress };
+}
+
+export function getExport(id: string): ExportProgress | undefined {
+    const job = jobs.get(id);
+    return job ? { ...job.progress } : undefined;
+}
+
+/**
+ * Stop an export that has not finished. Returns false when there is nothing to stop.
+ */
+export async function cancelExport(id: string): Promise<boolean> {
+    const job = jobs.get(id);
+    if (!job || (job.progress.status !== 'ready' && job.progress.status !== 'running')) return false;
+
+    finish(job, 'cancelled');
+    await releaseCursor(job);
+    return true;
+}
+
+/**
+ * Start the download of a ready export. The file is produced as the stream is read;
+ * cancelling the stream (the browser aborted the download) cancels the export.
+ */
+export function openExportDownload(id: string): { body: ReadableStream<Uint8Array>; fileName: string; mimeType: string } | null {
+    const job = jobs.get(id);
+    if (!job || job.progress.status !== 'ready') return null;
+
+    clearTimeout(job.timer);
+    job.progress.status = 'running';
+    const chunks = encodeExport(job);
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                for (;;) {
+                    const { done, value } = await chunks.next();
+                    if (done) {
+                        finish(job, 'done');
+                        controller.close();
+                        return;
+                    }
+                    if (value.length > 0) {
+                        job.progress.bytesWritten += value.length;
+                        controller.enqueue(value);
+                        return;
+                    }
+                }
+            } catch (error: any) {
+                if (job.progress.status === 'running') finish(job, 'failed', error.message || String(error));
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            if (job.progress.status === 'running') finish(job, 'cancelled');
+            await chunks.return(undefined);
+            // Aborted before the first page was read, so readPages never got to release it
+            await releaseCursor(job);
+        },
+    });
+
+    return { body, fileName: job.progress.fileName, mimeType: EXPORT_FORMATS[job.request.format].mimeType };
+}
+
+function finish(job: ExportJob, status: 'done' | 'failed' | 'cancelled', error?: string): void {
+    clearTimeout(job.timer);
+    job.progress.status = status;
+    job.progress.finishedAt = new Date().toISOString();
+    if (error) job.progress.error = error;
+
+    job.firstPage = [];
+    job.timer = setTimeout(() => jobs.delete(job.progress.id), FINISHED_EXPORT_TTL);
+    job.timer.unref?.();
+}
+
+async function releaseCursor(job: ExportJob): Promise<void> {
+    const cursor = job.cursor;
+    job.cursor = undefined;
+    if (!cursor) return;
+    try {
+        await job.adapter.closeCursor(job.adapterConnectionId, cursor);
+    } catch {
+        // Already closed by the adapter
+    }
+}
+
+// ============ Reading ============
+
+/**
+ * Fields of the exported columns: the requested ones in the requested order, or all of them.
+ * Document stores report no fields for an empty result, so the first row's keys stand in.
+ */
+function exportFields(fields: QueryField[], rows: any[], columns?: string[]): QueryField[] {
+    const available = fields.length > 0
+        ? fields
+        : Object.keys(rows[0] ?? {}).map(name => ({ name, dataType: 'unknown' }));
+    if (!columns || columns.length === 0) return available;
+
+    const byName = new Map(available.map(field => [field.name, field]));
+    return columns.flatMap(name => byName.get(name) ?? []);
+}
+
+async function* readPages(job: ExportJob): AsyncGenerator<any[]> {
+    yield job.firstPage;
+    job.firstPage = [];
+
+    try {
+        while (job.cursor) {
+            const page = await job.adapter.executeQuery({
+                connectionId: job.adapterConnectionId,
+                query: '',
+                cursor: job.cursor,
+                maxRows: EXPORT_PAGE_SIZE,
+                timeout: EXPORT_QUERY_TIMEOUT,
+            });
+            job.cursor = page.cursor;
+            if (job.progress.status !== 'running') return;
+            yield page.rows;
+        }
+    } finally {
+        await releaseCursor(job);
+    }
+}
+
+async function* encodeExport(job: ExportJob): AsyncGenerator<Uint8Array> {
+    const encoder = createEncoder(job);
+    const bytes = (chunk: Uint8Array | string) => (typeof chunk === 'string' ? textEncoder.encode(chunk) : chunk);
+    const names = job.fields.map(field => field.name);
+
+    yield bytes(encoder.start());
+    for await (const page of readPages(job)) {
+        if (job.progress.status !== 'running') {
+            throw new Error('Export cancelled');
+        }
+        const rows = page.map(row => names.map(name => row[name]));
+        yield bytes(encoder.write(rows));
+        job.progress.rowsWritten += rows.length;
+    }
+    if (job.progress.status !== 'running') {
+        throw new Error('Export cancelled');
+    }
+    yield bytes(encoder.end());
+}
+
+// ============ Encoders ============
+
+function createEncoder(job: ExportJob): ExportEncoder {
+    const { request, fields, dbType } = job;
+    const names = fields.map(field => field.name);
+    const includeHeaders = request.includeHeaders !== false;
+
+    switch (request.format) {
+        case 'csv':
+            return csvEncoder(names, includeHeaders, request.delimiter || ',');
+        case 'json':
+            return jsonEncoder(names, false);
+        case 'ndjson':
+            return jsonEncoder(names, true);
+        case 'markdown':
+            return markdownEncoder(names);
+        case 'sql':
+            return sqlEncoder(names, request.tableName || 'exported_rows', dbType);
+        case 'xlsx':
+            return xlsxEncoder(fields, includeHeaders);
+        case 'parquet':
+            return parquetEncoder(fields);
+    }
+}
+
+function csvEncoder(names: string[], includeHeaders: boolean, delimiter: string): ExportEncoder {
+    const options = { delimiter, newline: '\r\n' };
+    return {
+        start: () => (includeHeaders ? `${Papa.unparse([names], options)}\r\n` : ''),
+        write: rows => (rows.length > 0
+            ? `${Papa.unparse(rows.map(row => row.map(textValue)), { ...options, header: false })}\r\n`
+            : ''),
+        end: () => '',
+    };
+}
+
+function jsonEncoder(names: string[], lines: boolean): ExportEncoder {
+    let first = true;
+    const record = (row: unknown[]) => jsonStringify(Object.fromEntries(names.map((name, i) => [name, row[i]])));
+
+    if (lines) {
+        return {
+            start: () => '',
+            write: rows => rows.map(row => `${record(row)}\n`).join(''),
+            end: () => '',
+        };
+    }
+    return {
+        start: () => '[',
+        write: rows => rows.map(row => {
+            const text = `${first ? '\n' : ',\n'}${record(row)}`;
+            first = false;
+            return text;
+        }).join(''),
+        end: () => (first ? ']\n' : '\n]\n'),
+    };
+}
+
+function markdownEncoder(names: string[]): ExportEncoder {
+    const cell = (value: unknown) => (textValue(value) ?? '')
+        .replace(/\\/g, '\\\\')
+        .replace(/\|/g, '\\|')
+        .replace(/\r?\n/g, '<br>');
+    const line = (cells: string[]) => `| ${cells.join(' | ')} |\n`;
+
+    return {
+        start: () => line(names.map(cell)) + line(names.map(() => '---')),
+        write: rows => rows.map(row => line(row.map(cell))).join(''),
+        end: () => '',
+    };
+}
+
+function sqlEncoder(names: string[], tableName: string, dbType: string): ExportEncoder {
+    const parts = tableName.split('.');
+    const table = parts.map(part => quoteIdentifier(part.replace(/^["`[]|["`\]]$/g, ''), dbType)).join('.');
+    const columns = names.map(name => quoteIdentifier(name, dbType)).join(', ');
+    // Oracle has no multi-row VALUES
+    const perStatement = getDialectFromDbType(dbType) === 'plsql' ? 1 : ROWS_PER_INSERT;
+    const tuple = (row: unknown[]) => `(${row.map(value => formatSQLLiteral(sqlValue(value), dbType)).join(', ')})`;
+
+    return {
+        start: () => `-- ${tableName}: rows exported by BosDB\n`,
+        write: (rows) => {
+            const statements: string[] = [];
+            for (let i = 0; i < rows.length; i += perStatement) {
+                const values = rows.slice(i, i + perStatement).map(tuple);
+                statements.push(`INSERT INTO ${table} (${columns}) VALUES\n${values.join(',\n')};\n`);
+            }
+            return statements.join('');
+        },
+        end: () => '',
+    };
+}
+
+/**
+ * XLSX written as a stream: the worksheet XML is deflated into the zip as rows arrive and the
+ * workbook parts are added at the end. Results longer than a sheet continue on the next one.
+ */
+function xlsxEncoder(fields: QueryField[], includeHeaders: boolean): ExportEncoder {
+    const output: Uint8Array[] = [];
+    const zip = new Zip((error, chunk) => {
+        if (error) throw error;
+        output.push(chunk);
+    });
+    const take = () => concatBytes(output.splice(0));
+    const numeric = fields.map(field => isNumericType(field.dataType));
+
+    let sheet: ZipDeflate | null = null;
+    let sheetCount = 0;
+    let sheetRows = 0;
+
+    const openSheet = () => {
+        sheetCount++;
+        sheetRows = 0;
+        sheet = new ZipDeflate(`xl/worksheets/sheet${sheetCount}.xml`, { level: 6 });
+        zip.add(sheet);
+        let xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+            + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+        if (includeHeaders) {
+            xml += `<row>${fields.map(field => `<c t="inlineStr" s="2"><is><t>${xmlText(field.name)}</t></is></c>`).join('')}</row>`;
+            sheetRows++;
+        }
+        sheet.push(strToU8(xml));
+    };
+    const closeSheet = () => sheet!.push(strToU8('</sheetData></worksheet>'), true);
+
+    return {
+        start: () => {
+            openSheet();
+            return take();
+        },
+        write: (rows) => {
+            let xml = '';
+            for (const row of rows) {
+                if (sheetRows === XLSX_MAX_ROWS) {
+                    sheet!.push(strToU8(xml));
+                    xml = '';
+                    closeSheet();
+                    openSheet();
+                }
+                xml += `<row>${row.map((value, i) => xlsxCell(value, numeric[i])).join('')}</row>`;
+                sheetRows++;
+            }
+            sheet!.push(strToU8(xml));
+            return take();
+        },
+        end: () => {
+            closeSheet();
+            const sheets = Array.from({ length: sheetCount }, (_, i) => i + 1);
+            addZipFile(zip, '[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+                + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+                + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+                + '<Default Extension="xml" ContentType="application/xml"/>'
+                + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+                + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+                + sheets.map(n => `<Override PartName="/xl/worksheets/sheet${n}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+                + '</Types>');
+            addZipFile(zip, '_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+                + '</Relationships>');
+            addZipFile(zip, 'xl/workbook.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+                + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>'
+                + sheets.map(n => `<sheet name="${n === 1 ? 'Data' : `Data ${n}`}" sheetId="${n}" r:id="rId${n}"/>`).join('')
+                + '</sheets></workbook>');
+            addZipFile(zip, 'xl/_rels/workbook.xml.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + sheets.map(n => `<Relationship Id="rId${n}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${n}.xml"/>`).join('')
+                + `<Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+                + '</Relationships>');
+            // Style 1 formats dates, style 2 is the bold header
+            addZipFile(zip, 'xl/styles.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+                + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+                + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+                + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+                + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+                + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+                + '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+                + '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+                + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+                + '</styleSheet>');
+            zip.end();
+            return take();
+        },
+    };
+}
+
+/**
+ * Parquet with one row group per page. Column types come from the result's field types, or
+ * from the first page's values where the database does not report them.
+ */
+function parquetEncoder(fields: QueryField[]): ExportEncoder {
+    const writer = new ByteWriter();
+    let parquet: ParquetWriter | null = null;
+    let types: BasicType[] = [];
+
+    const take = () => {
+        const bytes = writer.getBytes().slice();
+        writer.index = 0;
+        return bytes;
+    };
+    const columnData = (rows: unknown[][]): ColumnSource[] => fields.map((field, i) => ({
+        name: field.name,
+        type: types[i],
+        nullable: true,
+        data: rows.map(row => parquetValue(row[i], types[i], field.name)),
+    }));
+    const open = (rows: unknown[][]) => {
+        types = fields.map((field, i) => parquetType(field.dataType, rows.map(row => row[i])));
+        parquet = new ParquetWriter({ writer, schema: schemaFromColumnData({ columnData: columnData([]) }) });
+    };
+
+    return {
+        start: () => '',
+        write: (rows) => {
+            if (rows.length === 0) return '';
+            if (!parquet) open(rows);
+            parquet!.write({ columnData: columnData(rows), rowGroupSize: rows.length });
+            return take();
+        },
+        end: () => {
+            if (!parquet) open([]);
+            parquet!.finish();
+            return take();
+        },
+    };
+}
+
+// ============ Values ============
+
+/**
+ * Plain-text form of a value for CSV, Markdown and text cells; null stays null
+ */
+function textValue(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+    if (Buffer.isBuffer(value) || value instanceof Uint8Array) return `\\x${Buffer.from(value).toString('hex')}`;
+    if (typeof value === 'object') {
+        // Types like ObjectId serialize to a plain string, which is written without quotes
+        const json = jsonStringify(value);
+        return json.startsWith('"') ? JSON.parse(json) : json;
+    }
+    return String(value);
+}
+
+/**
+ * JSON.stringify that writes bigints as numbers' text and binary as \x hex, like textValue
+ */
+function jsonStringify(value: unknown): string {
+    return JSON.stringify(value, function (this: any, key: string, converted: unknown) {
+        const raw = key === '' ? converted : this[key];
+        if (typeof raw === 'bigint') return raw.toString();
+        if (Buffer.isBuffer(raw) || raw instanceof Uint8Array) return `\\x${Buffer.from(raw).toString('hex')}`;
+        return converted;
+    });
+}
+
+// formatSQLLiteral renders dates and binary data per dialect; documents are written as JSON text
+function sqlValue(value: unknown): unknown {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date || value instanceof Uint8Array) return value;
+    if (typeof value === 'object') return jsonStringify(value);
+    return value;
+}
+
+function xlsxCell(value: unknown, numericColumn: boolean): string {
+    if (value === null || value === undefined) return '<c/>';
+    if (typeof value === 'number' && isFinite(value)) return `<c><v>${value}</v></c>`;
+    if (typeof value === 'boolean') return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+    if (value instanceof Date && !isNaN(value.getTime())) {
+        // Excel serial date: days since 1899-12-30
+        return `<c s="1"><v>${value.getTime() / 86400000 + 25569}</v></c>`;
+    }
+    const text = textValue(value)!;
+    // Drivers return bigint and decimal columns as strings; keep them numbers when Excel's 15
+    // significant digits hold them exactly
+    if (numericColumn && /^-?\d+(\.\d+)?$/.test(text) && String(Number(text)) === text
+        && text.replace(/^-?0*\.?0*|\./g, '').length <= 15) {
+        return `<c><v>${text}</v></c>`;
+    }
+    return `<c t="inlineStr"><is><t xml:space="preserve">${xmlText(text.slice(0, XLSX_MAX_CELL_LENGTH))}</t></is></c>`;
+}
+
+function xmlText(text: string): string {
+    return text
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+function isNumericType(dataType: string): boolean {
+    return /^(bigint|int8|longlong|numeric|decimal|newdecimal|money|number)$/i.test(dataType);
+}
+
+/**
+ * Parquet type for a result column. Unknown types (SQL Server results, document stores) are
+ * guessed from the sample, and only when every value agrees; anything else is a string.
+ */
+function parquetType(dataType: string, sample: unknown[]): BasicType {
+    const type = dataType.toLowerCase();
+    if (/^(bool|boolean)$/.test(type)) return 'BOOLEAN';
+    if (/^(smallint|int2|tiny|tinyint|short|year)$/.test(type)) return 'INT32';
+    if (/^(integer|int|int4|long|int24|mediumint|bigint|int8|longlong)$/.test(type)) return 'INT64';
+    if (/^(real|float|float4|double|double precision|float8)$/.test(type)) return 'DOUBLE';
+    if (/^(date|timestamp|timestamptz|datetime|datetime2|smalldatetime|datetimeoffset)$/.test(type)) return 'TIMESTAMP';
+    if (/^(bytea|blob|tiny_blob|medium_blob|long_blob|binary|varbinary|image)$/.test(type)) return 'BYTE_ARRAY';
+    if (/^(json|jsonb)$/.test(type)) return 'JSON';
+    if (type !== 'unknown' && type !== 'mixed') return 'STRING';
+
+    const values = sample.filter(value => value !== null && value !== undefined);
+    if (values.length === 0) return 'STRING';
+    if (values.every(value => typeof value === 'boolean')) return 'BOOLEAN';
+    if (values.every(value => typeof value === 'number')) return 'DOUBLE';
+    if (values.every(value => value instanceof Date)) return 'TIMESTAMP';
+    if (values.every(value => Buffer.isBuffer(value))) return 'BYTE_ARRAY';
+    return 'STRING';
+}
+
+function parquetValue(value: unknown, type: BasicType, column: string): unknown {
+    if (value === null || value === undefined) return null;
+    const mismatch = () => new Error(
+        `Column ${column}: ${textValue(value)} does not fit its Parquet type ${type}; export as CSV or JSON instead`
+    );
+
+    switch (type) {
+        case 'BOOLEAN':
+            if (typeof value === 'boolean') return value;
+            if (value === 0 || value === 1) return value === 1;
+            throw mismatch();
+        case 'INT32':
+        case 'DOUBLE': {
+            const number = typeof value === 'number' ? value : Number(value);
+            if (typeof value === 'boolean' || (typeof value === 'string' && (value.trim() === '' || isNaN(number)))) throw mismatch();
+            if (type === 'INT32' && !Number.isInteger(number)) throw mismatch();
+            return number;
+        }
+        case 'INT64':
+            if (typeof value === 'number' && !Number.isInteger(value)) throw mismatch();
+            try {
+                return BigInt(String(value));
+            } catch {
+                throw mismatch();
+            }
+        case 'TIMESTAMP': {
+            const date = value instanceof Date ? value : new Date(String(value));
+            if (isNaN(date.getTime())) throw mismatch();
+            return date;
+        }
+        case 'BYTE_ARRAY':
+            return Buffer.isBuffer(value) || value instanceof Uint8Array ? new Uint8Array(value) : textEncoder.encode(String(value));
+        case 'JSON':
+            try {
+                return JSON.parse(typeof value === 'string' ? value : jsonStringify(value));
+            } catch {
+                throw mismatch();
+            }
+        default:
+            return textValue(value);
+    }
+}
+
+// ============ Helpers ============
+
+function addZipFile(zip: Zip, name: string, content: string): void {
+    const file = new ZipDeflate(name, { level: 6 });
+    zip.add(file);
+    file.push(strToU8(content), true);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    if (chunks.length === 1) return chunks[0];
+    const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return bytes;
+}
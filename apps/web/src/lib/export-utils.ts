@@ -85,8 +85,8 @@ export function exportToExcel(data: any[], columns: string[], options: ExportOpt
 /**
  * Helper to trigger file download
  */
-function downloadFile(content: string, filename: string, mimeType: string): void {
-    const blob = new Blob([content], { type: mimeType });
+export function downloadFile(content: string | Blob, filename: string, mimeType: string): void {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -97,25 +97,6 @@ function downloadFile(content: string, filename: string, mimeType: string): void
     URL.revokeObjectURL(url);
 }
 
-/**
- * Parse CSV file for import
- */
-export function parseCSV(file: File): Promise<{ data: any[]; columns: string[] }> {
-    return new Promise((resolve, reject) => {
-        Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            complete: (results) => {
-                const columns = results.meta.fields || [];
-                resolve({ data: results.data as any[], columns });
-            },
-            error: (error) => {
-                reject(error);
-            },
-        });
-    });
-}
-
 /**
  * Generate INSERT statements from data
  */
@@ -162,6 +143,32 @@ export function generateDeleteSQL(tableName: string): string {
     return `DELETE FROM ${tableName} WHERE id = ?;`;
 }
 
+/**
+ * Generate a MongoDB shell command template for a collection, the counterpart of the SQL templates
+ */
+export function generateMongoCommand(collection: string, kind: 'find' | 'insert' | 'update' | 'delete', fields: string[] = [], limit?: number): string {
+    // Names that aren't identifiers go through getCollection()
+    const ref = /^[A-Za-z_$][\w$]*$/.test(collection) ? `db.${collection}` : `db.getCollection(${JSON.stringify(collection)})`;
+    const key = (field: string) => /^[A-Za-z_$][\w$]*$/.test(field) ? field : JSON.stringify(field);
+    const document = (value: string) => {
+        const names = fields.filter(field => field !== '_id');
+        return `{ ${(names.length > 0 ? names : ['field']).map(field => `${key(field)}: ${value}`).join(', ')} }`;
+    };
+
+    switch (kind) {
+        case 'find': {
+            const projection = fields.length > 0 ? `, { ${fields.map(field => `${key(field)}: 1`).join(', ')} }` : '';
+            return `${ref}.find({}${projection})${limit ? `.limit(${limit})` : ''}`;
+        }
+        case 'insert':
+            return `${ref}.insertOne(${document('null')})`;
+        case 'update':
+            return `${ref}.updateOne({ _id: ObjectId("") }, { $set: ${document('null')} })`;
+        case 'delete':
+            return `${ref}.deleteOne({ _id: ObjectId("") })`;
+    }
+}
+
 /**
  * Generate CREATE TABLE statement from columns
  */
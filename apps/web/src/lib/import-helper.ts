@@ -0,0 +1,129 @@
+import type { Column } from '@bosdb/core';
+import type { ColumnDef } from '@/lib/sql-helper';
+
+// ============ Types ============
+
+export type ImportFormat = 'csv' | 'json' | 'xlsx' | 'parquet';
+
+/**
+ * 'abort' stops at the first bad row and keeps nothing where the database has transactions;
+ * 'skip' imports every row it can and reports the rest
+ */
+export type ImportErrorMode = 'abort' | 'skip';
+
+export interface ImportColumnMapping {
+    source: string;  // Column of the file
+    target: string;  // Column of the table
+}
+
+export interface ImportOptions {
+    connectionId: string;
+    schema: string;
+    table: string;
+    format: ImportFormat;
+    mapping: ImportColumnMapping[];
+    createTable?: ColumnDef[];  // Create the table with these columns before importing
+    dryRun?: boolean;
+    onError?: ImportErrorMode;
+    batchSize?: number;
+    delimiter?: string;         // CSV; detected when empty
+    sheet?: string;             // Excel; the first sheet when empty
+}
+
+export interface ImportPreview {
+    format: ImportFormat;
+    columns: string[];
+    rows: unknown[][];
+    totalRows?: number;              // Excel and Parquet only
+    suggestedColumns: ColumnDef[];   // Types inferred from the sample, for a new table
+    sheets?: string[];
+    target: Column[] | null;         // Columns of the existing table, or null if there is none
+}
+
+export interface ImportRowError {
+    row: number;      // 1-based data row of the file, not counting the header
+    column?: string;  // Target column, for values that could not be converted
+    message: string;
+}
+
+export interface ImportSummary {
+    rowsRead: number;
+    inserted: number;
+    failed: number;
+    dryRun: boolean;
+    method: 'bulk' | 'insert' | 'none';
+    createdTable?: string;  // CREATE TABLE statement, when the table was created from the file
+    rolledBack: boolean;    // An 'abort' import failed and its rows were not kept
+    executionTime: number;
+}
+
+/**
+ * Streamed by POST /api/import, one JSON object per line
+ */
+export type ImportEvent =
+    | { type: 'progress'; rowsRead: number; inserted: number; failed: number }
+    | { type: 'rowError'; error: ImportRowError }
+    | { type: 'done'; summary: ImportSummary }
+    | { type: 'fatal'; error: string };
+
+// ============ Helpers ============
+
+// Text formats are previewed from the start of the file rather than uploaded whole
+export const PREVIEW_BYTES = 1024 * 1024;
+
+export function detectImportFormat(fileName: string): ImportFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    switch (extension) {
+        case 'csv':
+        case 'tsv':
+        case 'txt':
+            return 'csv';
+        case 'json':
+        case 'ndjson':
+        case 'jsonl':
+            return 'json';
+        case 'xlsx':
+        case 'xls':
+            return 'xlsx';
+        case 'parquet':
+            return 'parquet';
+        default:
+            return null;
+    }
+}
+
+/**
+ * File columns matched to table columns by name, ignoring case and separators
+ * ("First Name" matches first_name). Unmatched file columns are left out.
+ */
+export function suggestMapping(fileColumns: string[], tableColumns: string[]): ImportColumnMapping[] {
+    const key = (name: string) => name.toLowerCase().replace(/[\s_\-.]/g, '');
+    const byKey = new Map(tableColumns.map(name => [key(name), name]));
+    return fileColumns.flatMap(source => {
+        const target = byKey.get(key(source));
+        return target ? [{ source, target }] : [];
+    });
+}
+
+/**
+ * Read the NDJSON event stream of POST /api/import, calling `onEvent` for each event.
+ * POST /api/restore streams its RestoreEvents the same way.
+ */
+export async function readImportEvents<T = ImportEvent>(response: Response, onEvent: (event: T) => void): Promise<void> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        for (const line of lines) {
+            if (line.trim()) onEvent(JSON.parse(line));
+        }
+        if (done) break;
+    }
+    if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { Readable } from 'stream';
+import type { Column } from '@bosdb/core';
+import { coerceValue, importFamily, inferColumns, openImportSource } from '@/lib/import-pipeline';
+import type { ImportSourceOptions } from '@/lib/import-pipeline';
+import { detectImportFormat, readImportEvents, suggestMapping } from '@/lib/import-helper';
+
+// Only Parquet uploads use it, and it ships as ES modules only
+jest.mock('hyparquet', () => ({}));
+
+jest.mock('@/lib/db-utils', () => ({}));
+
+const column = (dataType: string, extra: Partial<Column> = {}): Column => ({
+    name: 'c',
+    dataType,
+    nullable: true,
+    isPrimaryKey: false,
+    isForeignKey: false,
+    ...extra,
+});
+
+async function read(format: 'csv' | 'json', chunks: string[], options: ImportSourceOptions = {}) {
+    const source = await openImportSource(format, Readable.from(chunks), options);
+    const rows: unknown[][] = [];
+    for await (const row of source.rows) rows.push(row);
+    await source.close();
+    return { columns: source.columns, rows };
+}
+
+describe('import helpers', () => {
+    it('detects the format from the file extension', () => {
+        expect(['a.TSV', 'a.jsonl', 'a.xls', 'a.parquet', 'a.sql'].map(detectImportFormat)).toEqual(['csv', 'json', 'xlsx', 'parquet', null]);
+    });
+
+    it('maps file columns to table columns ignoring case and separators', () => {
+        expect(suggestMapping(['First Name', 'E-Mail', 'notes'], ['first_name', 'email', 'id'])).toEqual([
+            { source: 'First Name', target: 'first_name' },
+            { source: 'E-Mail', target: 'email' },
+        ]);
+    });
+
+    it('reads NDJSON events split across chunks', async () => {
+        const events: unknown[] = [];
+        const response = new Response(Readable.toWeb(Readable.from([
+            '{"type":"progress","rowsRead":1,',
+            '"inserted":1,"failed":0}\n{"type":"fatal",',
+            '"error":"boom"}',
+        ].map((text) => Buffer.from(text)))) as ReadableStream);
+
+        await readImportEvents(response, (event) => events.push(event));
+
+        expect(events).toEqual([
+            { type: 'progress', rowsRead: 1, inserted: 1, failed: 0 },
+            { type: 'fatal', error: 'boom' },
+        ]);
+    });
+});
+
+describe('openImportSource', () => {
+    it('reads CSV with a detected delimiter and names blank and repeated headers', async () => {
+        expect(await read('csv', ['﻿id;name;;name\n1;a', 'da;x;y\n2;bob;;z\n'])).toEqual({
+            columns: ['id', 'name', 'column_3', 'name_2'],
+            rows: [['1', 'ada', 'x', 'y'], ['2', 'bob', '', 'z']],
+        });
+    });
+
+    it('drops the cut-off last line of a partial CSV upload', async () => {
+        const { rows } = await read('csv', ['id,name\n1,ada\n2,bo'], { partial: true });
+        expect(rows).toEqual([['1', 'ada']]);
+    });
+
+    it('reads a JSON array and NDJSON record by record, with columns from the sampled keys', async () => {
+        const expected = { columns: ['id', 'tags', 'name'], rows: [[1, ['a', '}'], null], [2, null, 'b{"']] };
+
+        expect(await read('json', ['[{"id": 1, "tags": ["a", "}"', ']}, {"id": 2, "name": "b{\\""}]'])).toEqual(expected);
+        expect(await read('json', ['{"id": 1, "tags": ["a", "}"]}\n', '{"id": 2, "name": "b{\\""}\n'])).toEqual(expected);
+    });
+
+    it('refuses JSON that is not a list of objects', async () => {
+        await expect(read('json', ['[1, 2]'])).rejects.toThrow('Expected a JSON object, found "1, 2]"');
+        await expect(read('json', ['{"id": 1}\n{"id": '])).rejects.toThrow('The file ends in the middle of a JSON record');
+    });
+});
+
+describe('coerceValue', () => {
+    it('converts text to the column type', () => {
+        expect(coerceValue(' 42 ', column('integer'), 'postgres')).toBe(42);
+        expect(coerceValue('42.0', column('bigint'), 'postgres')).toBe(42);
+        expect(coerceValue('12345678901234567890', column('bigint'), 'postgres')).toBe('12345678901234567890');
+        expect(coerceValue('0.10', column('numeric'), 'postgres')).toBe('0.10');
+        expect(coerceValue('1e3', column('double precision'), 'postgres')).toBe(1000);
+        expect(coerceValue('Yes', column('boolean'), 'postgres')).toBe(true);
+        expect(coerceValue('2024-03-01T00:00:00Z', column('date'), 'postgres')).toBe('2024-03-01');
+        expect(coerceValue('2024-03-01T12:30:00', column('timestamp'), 'mysql')).toBe('2024-03-01 12:30:00');
+        expect(coerceValue({ a: 1 }, column('jsonb'), 'postgres')).toBe('{"a":1}');
+        expect(coerceValue('\\x00ff', column('bytea'), 'postgres')).toEqual(Buffer.from([0, 255]));
+    });
+
+    it('gives Oracle dates and timestamps as Date objects', () => {
+        expect(coerceValue('2024-03-01', column('DATE'), 'oracle')).toEqual(new Date('2024-03-01T00:00:00Z'));
+        expect(coerceValue('2024-03-01 12:30', column('TIMESTAMP(6)'), 'oracle')).toEqual(new Date('2024-03-01T12:30'));
+        expect(coerceValue('7', column('NUMBER', { scale: 0 }), 'oracle')).toBe(7);
+    });
+
+    it('explains why a value does not fit', () => {
+        expect(() => coerceValue('', column('text', { nullable: false }), 'postgres')).toThrow('is empty but the column is NOT NULL');
+        expect(() => coerceValue('4.5', column('int'), 'mysql')).toThrow('"4.5" is not an integer');
+        expect(() => coerceValue('maybe', column('bit'), 'mssql')).toThrow('"maybe" is not a boolean');
+        expect(() => coerceValue('2024-02-30x', column('date'), 'postgres')).toThrow('is not a date');
+        expect(() => coerceValue('abcdef', column('varchar', { maxLength: 5 }), 'mysql')).toThrow("is 6 characters, longer than the column's 5");
+        expect(() => coerceValue('not-a-uuid', column('uuid'), 'postgres')).toThrow('is not a UUID');
+    });
+
+    it('keeps untyped document values as numbers and booleans but codes as strings', () => {
+        expect(importFamily('MongoDB')).toBe('document');
+        expect(coerceValue('', column('string', { nullable: false }), 'document')).toBeNull();
+        expect(coerceValue('12.5', column('mixed'), 'document')).toBe(12.5);
+        expect(coerceValue('true', column('mixed'), 'document')).toBe(true);
+        expect(coerceValue('00123', column('mixed'), 'document')).toBe('00123');
+    });
+});
+
+describe('inferColumns', () => {
+    it('picks the narrowest type every sampled value fits, per dialect', () => {
+        const rows = [
+            ['1', '1.50', 'true', '2024-03-01', '2024-03-01 10:00:00', '00501', 'x'],
+            ['3000000000', '-22.125', 'FALSE', '2024-03-02', '2024-03-02T11:00', '02134', null],
+        ];
+        const columns = ['id', 'price', 'active', 'day', 'at', 'zip', 'note'];
+        const types = (dbType: string) => inferColumns(columns, rows, dbType).map((c) => c.type);
+
+        expect(types('postgres')).toEqual(['BIGINT', 'NUMERIC', 'BOOLEAN', 'DATE', 'TIMESTAMP', 'TEXT', 'TEXT']);
+        expect(types('mysql')).toEqual(['BIGINT', 'DECIMAL(18,3)', 'BOOLEAN', 'DATE', 'DATETIME(3)', 'VARCHAR(255)', 'VARCHAR(255)']);
+        expect(inferColumns(columns, rows, 'mssql')[0]).toEqual({ name: 'id', type: 'BIGINT', isPrimaryKey: false, isNullable: true });
+    });
+});
@@ -0,0 +1,827 @@
+import { promises as fs, createWriteStream } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Duplex, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { parquetMetadataAsync, parquetRead, parquetSchema } from 'hyparquet';
+import type { AsyncBuffer } from 'hyparquet';
+import { ValidationError } from '@bosdb/core';
+import type { Column } from '@bosdb/core';
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import { runInTransaction } from '@/lib/db-utils';
+import { quoteIdentifier } from '@/lib/sql-helper';
+import type { AlterStep, ColumnDef } from '@/lib/sql-helper';
+import { syncFamily } from '@/lib/schema-compare';
+import type {
+    ImportColumnMapping,
+    ImportErrorMode,
+    ImportEvent,
+    ImportFormat,
+    ImportRowError,
+    ImportSummary,
+} from '@/lib/import-helper';
+
+// ============ Types ============
+
+/**
+ * Rows of an uploaded file, read as they are needed. Values keep the type the format gives
+ * them: strings for CSV, JSON values, and numbers, booleans and Dates for Excel and Parquet.
+ */
+export interface ImportSource {
+    columns: string[];
+    rows: AsyncIterable<unknown[]>;
+    rowCount?: number;  // Known up front for Excel and Parquet
+    sheets?: string[];
+    close(): Promise<void>;
+}
+
+export interface ImportSourceOptions {
+    delimiter?: string;
+    sheet?: string;
+    partial?: boolean;  // Only the start of the file was sent; a cut-off last record is dropped
+}
+
+export interface ImportTarget {
+    adapter: IDBAdapter;
+    adapterConnectionId: string;
+    dbType: string;
+    schema: string;
+    table: string;
+    columns: Column[];  // As described; empty for a table that is created first
+}
+
+export interface ImportRunOptions {
+    mapping: ImportColumnMapping[];
+    createStep?: AlterStep;  // CREATE TABLE run before the first row, and undone if an 'abort' import fails
+    dryRun?: boolean;
+    onError?: ImportErrorMode;
+    batchSize?: number;
+}
+
+type SQLFamily = 'postgres' | 'mysql' | 'mssql' | 'oracle';
+type ImportFamily = SQLFamily | 'document';
+
+type ValueKind = 'integer' | 'decimal' | 'float' | 'boolean' | 'date' | 'timestamp' | 'time'
+    | 'json' | 'uuid' | 'binary' | 'text' | 'auto';
+
+// ============ Constants ============
+
+const DOCUMENT_TYPES = ['mongodb', 'mongo', 'ferretdb', 'documentdb', 'cosmosdb'];
+
+export const DEFAULT_BATCH_SIZE = 1000;
+export const MAX_BATCH_SIZE = 10000;
+
+// Only the first row errors are sent to the browser; the rest are counted
+const MAX_REPORTED_ERRORS = 500;
+
+// JSON records sampled for the column list; keys that first appear later are not imported
+const JSON_SAMPLE_RECORDS = 100;
+
+const PARQUET_READ_ROWS = 10000;
+
+// Bound parameters per INSERT statement (SQL Server allows 2100, Oracle binds are kept modest)
+const MAX_PARAMS: Record<SQLFamily, number> = {
+    postgres: 65535,
+    mysql: 65535,
+    mssql: 2000,
+    oracle: 1000,
+};
+
+/**
+ * Databases an import can write to, or null if the type has no import path
+ */
+export function importFamily(dbType: string): ImportFamily | null {
+    return DOCUMENT_TYPES.includes(dbType.toLowerCase()) ? 'document' : syncFamily(dbType);
+}
+
+// ============ Sources ============
+
+/**
+ * Start reading an upload. CSV and JSON are parsed as they stream in; Excel and Parquet need
+ * random access, so they are written to a temporary file first.
+ */
+export async function openImportSource(
+    format: ImportFormat,
+    input: Readable,
+    options: ImportSourceOptions = {}
+): Promise<ImportSource> {
+    switch (format) {
+        case 'csv':
+            return openCSV(input, options);
+        case 'json':
+            return openJSON(input, options);
+        case 'xlsx':
+        case 'parquet': {
+            const { file, remove } = await spool(input);
+            try {
+                const source = format === 'xlsx' ? openExcel(file, options.sheet) : await openParquet(file);
+                return { ...source, close: () => source.close().finally(remove) };
+            } catch (error) {
+                await remove();
+                throw error;
+            }
+        }
+        default:
+            throw new ValidationError(`Unsupported import format: ${format}`);
+    }
+}
+
+async function openCSV(input: Readable, options: ImportSourceOptions): Promise<ImportSource> {
+    const parser: Duplex = Papa.parse(Papa.NODE_STREAM_INPUT, {
+        delimiter: options.delimiter || '',
+        skipEmptyLines: 'greedy',
+    });
+    input.on('error', error => parser.destroy(error));
+    input.pipe(parser);
+
+    const iterator: AsyncIterator<string[]> = parser[Symbol.asyncIterator]();
+    const header = await iterator.next();
+    if (header.done) {
+        throw new ValidationError('The file is empty');
+    }
+    header.value[0] = header.value[0]?.replace(/^\uFEFF/, '');
+
+    async function* rows() {
+        // One row of lookahead, so the cut-off last line of a partial upload can be dropped
+        let previous = await iterator.next();
+        while (!previous.done) {
+            const next = await iterator.next();
+            if (!next.done || !options.partial) yield previous.value;
+            previous = next;
+        }
+    }
+
+    return {
+        columns: uniqueColumns(header.value),
+        rows: rows(),
+        close: async () => {
+            input.destroy();
+            parser.destroy();
+        },
+    };
+}
+
+async function openJSON(input: Readable, options: ImportSourceOptions): Promise<ImportSource> {
+    const records = jsonRecords(input, !!options.partial);
+
+    // Columns are the keys of the first records, in the order they appear
+    const sample: Record<string, unknown>[] = [];
+    const keys = new Set<string>();
+    for (let next = await records.next(); !next.done; next = await records.next()) {
+        sample.push(next.value);
+        Object.keys(next.value).forEach(key => keys.add(key));
+        if (sample.length >= JSON_SAMPLE_RECORDS) break;
+    }
+    if (keys.size === 0) {
+        throw new ValidationError('The file has no records');
+    }
+
+    const columns = Array.from(keys);
+    const toRow = (record: Record<string, unknown>) => columns.map(col => record[col] ?? null);
+
+    async function* rows() {
+        yield* sample.map(toRow);
+        for await (const record of records) {
+            yield toRow(record);
+        }
+    }
+
+    return { columns, rows: rows(), close: async () => { input.destroy(); } };
+}
+
+/**
+ * Objects of a JSON array or of newline-delimited JSON, one at a time. Only the text of the
+ * current record is held in memory.
+ */
+async function* jsonRecords(input: Readable, partial: boolean): AsyncGenerator<Record<string, unknown>> {
+    input.setEncoding('utf8');
+    let pending = '';  // Start of a record continued from an earlier chunk
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let opened = false;  // Past the '[' of a JSON array, or the first record of NDJSON
+
+    for await (const chunk of input as AsyncIterable<string>) {
+        let start = 0;
+        for (let i = 0; i < chunk.length; i++) {
+            const char = chunk[i];
+            if (depth === 0) {
+                if (char === '{') {
+                    depth = 1;
+                    start = i;
+                    opened = true;
+                } else if (char === '[' && !opened) {
+                    opened = true;
+                } else if (!/[\s,\]]/.test(char)) {
+                    throw new ValidationError(`Expected a JSON object, found "${chunk.slice(i, i + 20)}"`);
+                }
+                continue;
+            }
+
+            if (inString) {
+                if (escaped) escaped = false;
+                else if (char === '\\') escaped = true;
+                else if (char === '"') inString = false;
+            } else if (char === '"') {
+                inString = true;
+            } else if (char === '{' || char === '[') {
+                depth++;
+            } else if ((char === '}' || char === ']') && --depth === 0) {
+                const text = pending + chunk.slice(start, i + 1);
+                pending = '';
+                try {
+                    yield JSON.parse(text);
+                } catch (error: any) {
+                    throw new ValidationError(`Invalid JSON record: ${error.message}`);
+                }
+            }
+        }
+        if (depth > 0) pending += chunk.slice(start);
+    }
+
+    if (depth > 0 && !partial) {
+        throw new ValidationError('The file ends in the middle of a JSON record');
+    }
+}
+
+function openExcel(file: string, sheet?: string): ImportSource {
+    const workbook = XLSX.readFile(file, { cellDates: true, dense: true });
+    const name = sheet || workbook.SheetNames[0];
+    const worksheet = workbook.Sheets[name];
+    if (!worksheet) {
+        throw new ValidationError(`Sheet not found: ${name}`);
+    }
+
+    const [header, ...rows] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: true, defval: null, blankrows: false });
+    if (!header) {
+        throw new ValidationError(`Sheet ${name} is empty`);
+    }
+
+    async function* iterate() {
+        yield* rows;
+    }
+
+    return {
+        columns: uniqueColumns(header.map(cell => (cell === null ? '' : String(cell)))),
+        rows: iterate(),
+        rowCount: rows.length,
+        sheets: workbook.SheetNames,
+        close: async () => undefined,
+    };
+}
+
+async function openParquet(file: string): Promise<ImportSource> {
+    const handle = await fs.open(file, 'r');
+    try {
+        const { size } = await handle.stat();
+        const buffer: AsyncBuffer = {
+            byteLength: size,
+            slice: async (start, end = size) => {
+                const bytes = Buffer.alloc(end - start);
+                await handle.read(bytes, 0, bytes.length, start);
+                return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length);
+            },
+        };
+
+        const metadata = await parquetMetadataAsync(buffer);
+        const columns = parquetSchema(metadata).children.map(child => child.element.name);
+        const total = Number(metadata.num_rows);
+
+        async function* rows() {
+            for (let rowStart = 0; rowStart < total; rowStart += PARQUET_READ_ROWS) {
+                let chunk: unknown[][] = [];
+                await parquetRead({
+                    file: buffer,
+                    metadata,
+                    rowStart,
+                    rowEnd: Math.min(rowStart + PARQUET_READ_ROWS, total),
+                    onComplete: (data: unknown[][]) => { chunk = data; },
+                });
+                yield* chunk;
+            }
+        }
+
+        return { columns, rows: rows(), rowCount: total, close: () => handle.close() };
+    } catch (error: any) {
+        await handle.close();
+        throw error instanceof ValidationError ? error : new ValidationError(`Not a readable Parquet file: ${error.message}`);
+    }
+}
+
+// Write an upload to a temporary file, for formats that can't be read front to back
+async function spool(input: Readable): Promise<{ file: string; remove: () => Promise<void> }> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bosdb-import-'));
+    const remove = () => fs.rm(dir, { recursive: true, force: true });
+    const file = path.join(dir, 'upload');
+    try {
+        await pipeline(input, createWriteStream(file));
+    } catch (error) {
+        await remove();
+        throw error;
+    }
+    return { file, remove };
+}
+
+// Blank headers become column_N and repeated ones get a _2, _3 suffix
+function uniqueColumns(header: string[]): string[] {
+    const seen = new Map<string, number>();
+    return header.map((raw, i) => {
+        const name = String(raw ?? '').trim() || `column_${i + 1}`;
+        const count = (seen.get(name.toLowerCase()) ?? 0) + 1;
+        seen.set(name.toLowerCase(), count);
+        return count > 1 ? `${name}_${count}` : name;
+    });
+}
+
+// ============ Type coercion ============
+
+/**
+ * Convert a file value to what the column accepts. Throws an Error whose message explains
+ * why the value doesn't fit; empty strings become NULL.
+ */
+export function coerceValue(value: unknown, column: Column, family: ImportFamily): unknown {
+    if (value === undefined || value === null || value === '') {
+        if (!column.nullable && family !== 'document') throw new Error('is empty but the column is NOT NULL');
+        return null;
+    }
+    if (typeof value === 'bigint') {
+        value = Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+    }
+
+    const text = typeof value === 'string' ? value.trim() : value;
+    switch (valueKind(column, family)) {
+        case 'integer': {
+            if (typeof text === 'boolean') return text ? 1 : 0;
+            const digits = typeof text === 'number' ? String(text) : String(text).replace(/\.0+$/, '');
+            if (!/^[+-]?\d+$/.test(digits)) throw new Error(`"${value}" is not an integer`);
+            const number = Number(digits);
+            return Number.isSafeInteger(number) ? number : digits.replace(/^\+/, '');
+        }
+        case 'decimal':
+        case 'float': {
+            if (typeof text === 'number') return text;
+            if (!/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(String(text))) throw new Error(`"${value}" is not a number`);
+            // Decimals stay strings so no precision is lost on the way
+            return valueKind(column, family) === 'float' ? Number(text) : String(text);
+        }
+        case 'boolean': {
+            if (typeof text === 'boolean') return text;
+            const flag = String(text).toLowerCase();
+            if (['true', 't', 'yes', 'y', '1', 'on'].includes(flag)) return true;
+            if (['false', 'f', 'no', 'n', '0', 'off'].includes(flag)) return false;
+            throw new Error(`"${value}" is not a boolean`);
+        }
+        case 'date': {
+            if (text instanceof Date) return text.toISOString().slice(0, 10);
+            const match = /^(\d{4}-\d{2}-\d{2})(?:[ T]00:00(?::00(?:\.0+)?)?)?(?:Z)?$/.exec(String(text));
+            if (!match || isNaN(Date.parse(match[1]))) throw new Error(`"${value}" is not a date (YYYY-MM-DD)`);
+            return family === 'oracle' ? new Date(`${match[1]}T00:00:00Z`) : match[1];
+        }
+        case 'timestamp': {
+            if (text instanceof Date) return text;
+            const stamp = String(text);
+            if (!/^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?\s*(Z|[+-]\d{2}(:?\d{2})?)?$/i.test(stamp) || isNaN(Date.parse(stamp.replace(' ', 'T')))) {
+                throw new Error(`"${value}" is not a timestamp (YYYY-MM-DD HH:MM:SS)`);
+            }
+            // Oracle can't parse text into DATE or TIMESTAMP without a format mask
+            return family === 'oracle' ? new Date(stamp.replace(' ', 'T')) : stamp.replace('T', ' ');
+        }
+        case 'time': {
+            if (text instanceof Date) return text.toISOString().slice(11, 23);
+            if (!/^\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(String(text))) throw new Error(`"${value}" is not a time (HH:MM:SS)`);
+            return String(text);
+        }
+        case 'json': {
+            if (typeof text !== 'string') return JSON.stringify(text);
+            try {
+                JSON.parse(text);
+            } catch {
+                throw new Error('is not valid JSON');
+            }
+            return text;
+        }
+        case 'uuid': {
+            if (!/^\{?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\}?$/i.test(String(text))) {
+                throw new Error(`"${value}" is not a UUID`);
+            }
+            return String(text);
+        }
+        case 'binary':
+            return toBuffer(text);
+        case 'auto':
+            return typeof text === 'string' ? autoValue(text) : text;
+        default: {
+            const string = text instanceof Date ? text.toISOString()
+                : typeof text === 'object' ? JSON.stringify(text)
+                    : String(value);
+            if (column.maxLength && column.maxLength > 0 && string.length > column.maxLength) {
+                throw new Error(`is ${string.length} characters, longer than the column's ${column.maxLength}`);
+            }
+            return string;
+        }
+    }
+}
+
+function valueKind(column: Column, family: ImportFamily): ValueKind {
+    const type = column.dataType.toLowerCase();
+
+    // MongoDB describes fields by the BSON type of sampled values; the adapter turns text in
+    // ObjectId, date, decimal and int64 fields into those types
+    if (family === 'document') {
+        if (type === 'int' || type === 'long') return 'integer';
+        if (type === 'double') return 'float';
+        if (type === 'decimal') return 'decimal';
+        if (type === 'bool') return 'boolean';
+        if (type === 'string') return 'text';
+        return 'auto';
+    }
+
+    if (/^(tinyint|smallint|mediumint|int|integer|bigint|int[248]|smallserial|serial|bigserial)\b/.test(type)) return 'integer';
+    if (/^number$/.test(type) && column.scale === 0) return 'integer';
+    if (/^(decimal|numeric|number|money|smallmoney|dec)\b/.test(type)) return 'decimal';
+    if (/^(float|double|real|binary_float|binary_double)\b/.test(type)) return 'float';
+    if (/^(bool|boolean|bit)$/.test(type)) return 'boolean';
+    // Oracle's DATE has a time part
+    if (type === 'date') return family === 'oracle' ? 'timestamp' : 'date';
+    if (/^(timestamp|datetime|smalldatetime|datetime2|datetimeoffset)\b/.test(type)) return 'timestamp';
+    if (/^time\b/.test(type)) return 'time';
+    if (/^jsonb?$/.test(type)) return 'json';
+    if (/^(uuid|uniqueidentifier)$/.test(type)) return 'uuid';
+    if (/^(bytea|blob|tinyblob|mediumblob|longblob|binary|varbinary|image|raw|long raw)\b/.test(type)) return 'binary';
+    return 'text';
+}
+
+// Hex with a \x or 0x prefix, or base64
+function toBuffer(value: unknown): Buffer {
+    if (Buffer.isBuffer(value)) return value;
+    if (value instanceof Uint8Array) return Buffer.from(value);
+
+    const text = String(value);
+    const hex = /^(\\x|0x)([0-9a-f]*)$/i.exec(text);
+    if (hex && hex[2].length % 2 === 0) return Buffer.from(hex[2], 'hex');
+    if (/^[A-Za-z0-9+/]*={0,2}$/.test(text) && text.length % 4 === 0) return Buffer.from(text, 'base64');
+    throw new Error('is not hex (\\x…, 0x…) or base64');
+}
+
+// Numbers and booleans in untyped documents; codes with leading zeros stay strings
+function autoValue(text: string): unknown {
+    if (/^-?(0|[1-9]\d{0,14})(\.\d+)?$/.test(text)) return Number(text);
+    if (text === 'true' || text === 'false') return text === 'true';
+    return text;
+}
+
+// ============ Create table from file ============
+
+/**
+ * Column definitions for a new table, with types inferred from sample rows. Every column is
+ * nullable and there is no primary key; the user can edit both before importing.
+ */
+export function inferColumns(columns: string[], rows: unknown[][], dbType: string): ColumnDef[] {
+    const family = syncFamily(dbType) ?? 'postgres';
+    return columns.map((name, i) => ({
+        name,
+        type: inferType(rows.map(row => row[i]).filter(value => value !== null && value !== undefined && value !== ''), family),
+        isPrimaryKey: false,
+        isNullable: true,
+    }));
+}
+
+function inferType(values: unknown[], family: SQLFamily): string {
+    const pick = (types: Record<SQLFamily, string>) => types[family];
+    const strings = values.map(value => value instanceof Date ? value.toISOString() : typeof value === 'object' ? '' : String(value).trim());
+    const all = (test: (value: unknown, text: string) => boolean) => values.length > 0 && values.every((value, i) => test(value, strings[i]));
+
+    // Codes with leading zeros (zip codes, account numbers) are kept as text
+    const numeric = (value: unknown, text: string) => typeof value === 'number' || (typeof value === 'string' && !/^-?0\d/.test(text));
+
+    if (all(value => typeof value === 'boolean') || all((_value, text) => /^(true|false)$/i.test(text))) {
+        return pick({ postgres: 'BOOLEAN', mysql: 'BOOLEAN', mssql: 'BIT', oracle: 'NUMBER(1)' });
+    }
+    if (all((value, text) => numeric(value, text) && /^-?(0|[1-9]\d*)$/.test(text))) {
+        const fitsInt = strings.every(text => Math.abs(Number(text)) <= 2147483647);
+        if (fitsInt) return pick({ postgres: 'INTEGER', mysql: 'INT', mssql: 'INT', oracle: 'NUMBER(10)' });
+        return pick({ postgres: 'BIGINT', mysql: 'BIGINT', mssql: 'BIGINT', oracle: 'NUMBER(19)' });
+    }
+    if (all((value, text) => numeric(value, text) && /^-?\d+\.\d+$/.test(text))) {
+        const scale = Math.max(...strings.map(text => text.split('.')[1].length));
+        const digits = Math.max(...strings.map(text => text.replace(/^-/, '').split('.')[0].length));
+        const precision = Math.min(38, Math.max(18, digits + scale));
+        return pick({ postgres: 'NUMERIC', mysql: `DECIMAL(${precision},${scale})`, mssql: `DECIMAL(${precision},${scale})`, oracle: `NUMBER(${precision},${scale})` });
+    }
+    if (all((value, text) => numeric(value, text) && /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(text))) {
+        return pick({ postgres: 'DOUBLE PRECISION', mysql: 'DOUBLE', mssql: 'FLOAT', oracle: 'BINARY_DOUBLE' });
+    }
+    if (all((_value, text) => /^\d{4}-\d{2}-\d{2}$/.test(text))) {
+        return 'DATE';
+    }
+    if (all((value, text) => value instanceof Date || /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text))) {
+        return pick({ postgres: 'TIMESTAMP', mysql: 'DATETIME(3)', mssql: 'DATETIME2', oracle: 'TIMESTAMP' });
+    }
+    if (all((_value, text) => /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}(:?\d{2})?)$/i.test(text))) {
+        return pick({ postgres: 'TIMESTAMPTZ', mysql: 'DATETIME(3)', mssql: 'DATETIMEOFFSET', oracle: 'TIMESTAMP WITH TIME ZONE' });
+    }
+    if (all(value => value instanceof Uint8Array)) {
+        return pick({ postgres: 'BYTEA', mysql: 'LONGBLOB', mssql: 'VARBINARY(MAX)', oracle: 'BLOB' });
+    }
+    if (all(value => typeof value === 'object' && !(value instanceof Date))) {
+        return pick({ postgres: 'JSONB', mysql: 'JSON', mssql: 'NVARCHAR(MAX)', oracle: 'CLOB' });
+    }
+
+    const longest = Math.max(0, ...strings.map(text => text.length));
+    if (longest <= 255) return pick({ postgres: 'TEXT', mysql: 'VARCHAR(255)', mssql: 'NVARCHAR(255)', oracle: 'VARCHAR2(255)' });
+    if (longest <= 4000) return pick({ postgres: 'TEXT', mysql: 'TEXT', mssql: 'NVARCHAR(4000)', oracle: 'VARCHAR2(4000)' });
+    return pick({ postgres: 'TEXT', mysql: 'LONGTEXT', mssql: 'NVARCHAR(MAX)', oracle: 'CLOB' });
+}
+
+// ============ Import ============
+
+/**
+ * Map, convert and insert every row of `source`, reporting progress through `emit`.
+ *
+ * 'abort' runs in one transaction where the database has them and uses the adapter's native
+ * bulk path; the first bad row stops the import. 'skip' inserts batches with multi-row INSERTs
+ * (insertMany for documents) and retries a failed batch row by row, so each bad row is reported
+ * and the rest are kept. A dry run converts every row and inserts nothing.
+ */
+export async function runImport(
+    source: ImportSource,
+    target: ImportTarget,
+    options: ImportRunOptions,
+    emit: (event: ImportEvent) => void
+): Promise<ImportSummary> {
+    const started = Date.now();
+    const family = importFamily(target.dbType);
+    if (!family) {
+        throw new ValidationError(`Import is not supported for ${target.dbType}`);
+    }
+
+    const onError = options.onError ?? 'abort';
+    const batchSize = Math.min(Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE), MAX_BATCH_SIZE);
+    const { adapter, adapterConnectionId } = target;
+
+    const summary: ImportSummary = {
+        rowsRead: 0,
+        inserted: 0,
+        failed: 0,
+        dryRun: !!options.dryRun,
+        method: 'none',
+        createdTable: options.createStep?.sql,
+        rolledBack: false,
+        executionTime: 0,
+    };
+    const reportError = (error: ImportRowError) => {
+        summary.failed++;
+        if (summary.failed <= MAX_REPORTED_ERRORS) emit({ type: 'rowError', error });
+    };
+    const progress = () => emit({ type: 'progress', rowsRead: summary.rowsRead, inserted: summary.inserted, failed: summary.failed });
+
+    let stopped = false;  // An 'abort' import hit a bad row, which has been reported
+    let created = false;
+    if (options.createStep && !options.dryRun) {
+        await adapter.executeQuery({ connectionId: adapterConnectionId, query: options.createStep.sql, timeout: 30000 });
+        created = true;
+        target = { ...target, columns: (await adapter.describeTable(adapterConnectionId, target.schema, target.table)).columns };
+    }
+
+    try {
+        const mapped = mapColumns(source.columns, target, options.mapping, family);
+        const columns = mapped.map(m => m.column);
+        const writer = new BatchWriter(target, columns, family);
+
+        const importRows = async (transactionId?: string) => {
+            let batch: { row: number; values: unknown[] }[] = [];
+            const flush = async () => {
+                if (batch.length === 0) return;
+                if (options.dryRun) {
+                    summary.inserted += batch.length;
+                } else if (onError === 'abort') {
+                    try {
+                        summary.inserted += await writer.bulk(batch.map(entry => entry.values), transactionId);
+                    } catch (error: any) {
+                        reportError({ row: batch[0].row, message: `Rows ${batch[0].row}-${batch[batch.length - 1].row}: ${error.message}` });
+                        stopped = true;
+                        throw error;
+                    }
+                } else {
+                    summary.inserted += await writer.insertSkippingErrors(batch, reportError);
+                }
+                batch = [];
+                progress();
+            };
+
+            for await (const raw of source.rows) {
+                const row = ++summary.rowsRead;
+                const values: unknown[] = [];
+                let failure: ImportRowError | null = null;
+                for (const { index, column } of mapped) {
+                    try {
+                        values.push(coerceValue(raw[index], column, family));
+                    } catch (error: any) {
+                        failure = { row, column: column.name, message: `${column.name} ${error.message}` };
+                        break;
+                    }
+                }
+
+                if (failure) {
+                    reportError(failure);
+                    if (onError === 'abort' && !options.dryRun) {
+                        stopped = true;
+                        throw new ValidationError(failure.message);
+                    }
+                } else {
+                    batch.push({ row, values });
+                }
+                if (batch.length >= batchSize) await flush();
+            }
+            await flush();
+        };
+
+        try {
+            if (options.dryRun || onError === 'skip') {
+                await importRows();
+            } else {
+                await runInTransaction(adapter, adapterConnectionId, importRows);
+            }
+        } finally {
+            if (!options.dryRun) summary.method = writer.method;
+        }
+    } catch (error) {
+        if (onError === 'abort' && !options.dryRun) {
+            summary.rolledBack = true;
+            if (created) {
+                await adapter.executeQuery({ connectionId: adapterConnectionId, query: options.createStep!.rollbackSQL, timeout: 30000 })
+                    .catch(() => undefined);
+            }
+        }
+        if (!stopped) throw error;
+    } finally {
+        await source.close().catch(() => undefined);
+    }
+
+    summary.executionTime = Date.now() - started;
+    return summary;
+}
+
+// File column index and target column of each mapping
+function mapColumns(
+    fileColumns: string[],
+    target: ImportTarget,
+    mapping: ImportColumnMapping[],
+    family: ImportFamily
+): { index: number; column: Column }[] {
+    if (mapping.length === 0) {
+        throw new ValidationError('Map at least one file column to a table column');
+    }
+
+    const seen = new Set<string>();
+    return mapping.map(({ source, target: name }) => {
+        const index = fileColumns.indexOf(source);
+        if (index === -1) {
+            throw new ValidationError(`Column not in the file: ${source}`);
+        }
+        if (seen.has(name.toLowerCase())) {
+            throw new ValidationError(`Column mapped twice: ${name}`);
+        }
+        seen.add(name.toLowerCase());
+
+        const column = target.columns.find(col => col.name === name)
+            ?? target.columns.find(col => col.name.toLowerCase() === name.toLowerCase());
+        if (column) return { index, column };
+
+        // Documents take any field
+        if (family === 'document') {
+            return { index, column: { name, dataType: 'auto', nullable: true, isPrimaryKey: false, isForeignKey: false } };
+        }
+        throw new ValidationError(`Column not in ${target.table}: ${name}`);
+    });
+}
+
+/**
+ * Writes converted rows to the target table
+ */
+export class BatchWriter {
+    private useBulk = true;
+    private usedInsert = false;
+
+    constructor(
+        private target: ImportTarget,
+        private columns: Column[],
+        private family: ImportFamily
+    ) { }
+
+    get method(): 'bulk' | 'insert' {
+        return this.usedInsert ? 'insert' : 'bulk';
+    }
+
+    /**
+     * The adapter's native bulk path, or multi-row INSERTs where it has none
+     */
+    async bulk(rows: unknown[][], transactionId?: string): Promise<number> {
+        if (this.useBulk) {
+            try {
+                return await this.target.adapter.bulkInsert({
+                    connectionId: this.target.adapterConnectionId,
+                    schema: this.target.schema,
+                    table: this.target.table,
+                    columns: this.columns,
+                    rows,
+                    transactionId,
+                });
+            } catch (error: any) {
+                if (error.code !== 'BULK_INSERT_UNSUPPORTED') throw error;
+                this.useBulk = false;
+            }
+        }
+        return this.insert(rows, transactionId);
+    }
+
+    /**
+     * Insert a batch, then row by row if it fails, reporting each row that the database rejects
+     */
+    async insertSkippingErrors(
+        batch: { row: number; values: unknown[] }[],
+        reportError: (error: ImportRowError) => void
+    ): Promise<number> {
+        if (this.family === 'document') {
+            return this.insertDocumentsSkippingErrors(batch, reportError);
+        }
+
+        try {
+            return await this.insert(batch.map(entry => entry.values));
+        } catch {
+            let inserted = 0;
+            for (const entry of batch) {
+                try {
+                    inserted += await this.insert([entry.values]);
+                } catch (error: any) {
+                    reportError({ row: entry.row, message: error.message });
+                }
+            }
+            return inserted;
+        }
+    }
+
+    // An ordered insertMany stops at the first bad document; the rest of the batch is sent again
+    private async insertDocumentsSkippingErrors(
+        batch: { row: number; values: unknown[] }[],
+        reportError: (error: ImportRowError) => void
+    ): Promise<number> {
+        let inserted = 0;
+        let remaining = batch;
+        while (remaining.length > 0) {
+            try {
+                return inserted + await this.bulk(remaining.map(entry => entry.values));
+            } catch (error: any) {
+                const kept = Number(error.details?.inserted ?? 0);
+                inserted += kept;
+                reportError({ row: remaining[kept].row, message: error.message });
+                remaining = remaining.slice(kept + 1);
+            }
+        }
+        return inserted;
+    }
+
+    private async insert(rows: unknown[][], transactionId?: string): Promise<number> {
+        if (this.family === 'document') {
+            throw new ValidationError('Documents can only be imported with the bulk path');
+        }
+        this.usedInsert = true;
+
+        const perStatement = Math.max(1, Math.min(
+            Math.floor(MAX_PARAMS[this.family] / this.columns.length),
+            this.family === 'mssql' ? 1000 : rows.length
+        ));
+
+        let inserted = 0;
+        for (let start = 0; start < rows.length; start += perStatement) {
+            const chunk = rows.slice(start, start + perStatement);
+            const result = await this.target.adapter.executeQuery({
+                connectionId: this.target.adapterConnectionId,
+                query: this.insertStatement(chunk.length),
+                params: chunk.flat(),
+                transactionId,
+                timeout: 120000,
+            });
+            inserted += result.rowCount || chunk.length;
+        }
+        return inserted;
+    }
+
+    private insertStatement(rowCount: number): string {
+        const { dbType, schema, table } = this.target;
+        const name = schema
+            ? `${quoteIdentifier(schema, dbType)}.${quoteIdentifier(table, dbType)}`
+            : quoteIdentifier(table, dbType);
+        const columnList = this.columns.map(col => quoteIdentifier(col.name, dbType)).join(', ');
+        const tuples = Array.from({ length: rowCount }, (_row, r) =>
+            `(${this.columns.map((_col, c) => `$${r * this.columns.length + c + 1}`).join(', ')})`);
+
+        // Oracle has no multi-row VALUES before 23c
+        if (this.family === 'oracle') {
+            return `INSERT ALL ${tuples.map(tuple => `INTO ${name} (${columnList}) VALUES ${tuple}`).join(' ')} SELECT 1 FROM DUAL`;
+        }
+        return `INSERT INTO ${name} (${columnList}) VALUES ${tuples.join(', ')}`;
+    }
+}
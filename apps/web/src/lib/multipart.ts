@@ -0,0 +1,54 @@
+import busboy from 'busboy';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { NextRequest } from 'next/server';
+import { ValidationError } from '@bosdb/core';
+
+export interface Upload<T> {
+    options: T;
+    file: Readable;
+    fileName: string;
+}
+
+/**
+ * Read the JSON `options` field of a multipart upload and hand over the file stream as soon
+ * as it starts, so large files are read as they arrive. The options must come before the file.
+ */
+export function readUpload<T>(request: NextRequest): Promise<Upload<T>> {
+    return new Promise((resolve, reject) => {
+        if (!request.body) {
+            reject(new ValidationError('Missing upload'));
+            return;
+        }
+
+        let parser: busboy.Busboy;
+        try {
+            parser = busboy({ headers: Object.fromEntries(request.headers), limits: { files: 1 } });
+        } catch (error: any) {
+            reject(new ValidationError(`Expected a multipart upload: ${error.message}`));
+            return;
+        }
+
+        let options: T | null = null;
+        parser.on('field', (name, value) => {
+            if (name !== 'options') return;
+            try {
+                options = JSON.parse(value);
+            } catch {
+                reject(new ValidationError('The options field is not valid JSON'));
+            }
+        });
+        parser.on('file', (_name, file, info) => {
+            if (!options) {
+                file.resume();
+                reject(new ValidationError('The options field must come before the file'));
+                return;
+            }
+            resolve({ options, file, fileName: info.filename });
+        });
+        parser.on('close', () => reject(new ValidationError('Missing file')));
+        parser.on('error', reject);
+
+        Readable.fromWeb(request.body as NodeReadableStream).pipe(parser);
+    });
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { cancelExecution, finishExecution, getExecution, startExecution } from '@/lib/query-executions';
+
+const mockCancelQuery = jest.fn(async (_adapterConnectionId: string, _queryId: string) => true);
+
+jest.mock('@/lib/db-utils', () => ({
+    getConnectedAdapter: async () => ({
+        adapter: { cancelQuery: (adapterConnectionId: string, queryId: string) => mockCancelQuery(adapterConnectionId, queryId) },
+        adapterConnectionId: 'adapter-1',
+    }),
+}));
+
+const execution = (id: string) => ({ id, connectionId: 'conn-1', adapterConnectionId: 'adapter-1', query: 'SELECT pg_sleep(60)' });
+
+describe('query executions', () => {
+    it('registers a statement until it finishes', () => {
+        const started = startExecution(execution('q1'));
+
+        expect(started.startedAt).toEqual(expect.any(String));
+        expect(getExecution('q1')).toEqual(started);
+
+        finishExecution('q1');
+        expect(getExecution('q1')).toBeUndefined();
+    });
+
+    it('refuses a second statement under a running ID', () => {
+        startExecution(execution('q2'));
+
+        expect(() => startExecution(execution('q2'))).toThrow('Query q2 is already running');
+        finishExecution('q2');
+    });
+
+    it('cancels on the adapter connection the statement runs on', async () => {
+        startExecution(execution('q3'));
+
+        expect(await cancelExecution('q3')).toBe(true);
+        expect(mockCancelQuery).toHaveBeenCalledWith('adapter-1', 'q3');
+        finishExecution('q3');
+    });
+
+    it('reports statements that are no longer running', async () => {
+        mockCancelQuery.mockClear();
+
+        expect(await cancelExecution('unknown')).toBe(false);
+        expect(mockCancelQuery).not.toHaveBeenCalled();
+    });
+});
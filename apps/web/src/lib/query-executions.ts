@@ -0,0 +1,48 @@
+/**
+ * Running Query Registry
+ * Statements executed through /api/query are registered under a client-chosen ID, so a
+ * separate request can cancel them, even after the original HTTP request has timed out.
+ */
+
+import { getConnectedAdapter } from '@/lib/db-utils';
+
+export interface QueryExecution {
+    id: string;
+    connectionId: string;
+    adapterConnectionId: string;
+    query: string;
+    startedAt: string;
+    userEmail?: string;
+}
+
+// Kept for the lifetime of the server process; entries are removed when the statement ends
+const executions = new Map<string, QueryExecution>();
+
+export function startExecution(execution: Omit<QueryExecution, 'startedAt'>): QueryExecution {
+    if (executions.has(execution.id)) {
+        throw new Error(`Query ${execution.id} is already running`);
+    }
+
+    const entry = { ...execution, startedAt: new Date().toISOString() };
+    executions.set(entry.id, entry);
+    return entry;
+}
+
+export function finishExecution(id: string): void {
+    executions.delete(id);
+}
+
+export function getExecution(id: string): QueryExecution | undefined {
+    return executions.get(id);
+}
+
+/**
+ * Ask the database to stop a running statement. Returns false when it is no longer running.
+ */
+export async function cancelExecution(id: string): Promise<boolean> {
+    const execution = executions.get(id);
+    if (!execution) return false;
+
+    const { adapter } = await getConnectedAdapter(execution.connectionId);
+    return adapter.cancelQuery(execution.adapterConnectionId, id);
+}
@@ -60,9 +60,13 @@ export function createDefaultTabs(dbType: string = 'postgres'): TabsState {
     let defaultQuery = 'SELECT * FROM information_schema.tables LIMIT 10;';
 
     if (dbType === 'mongodb') {
-        defaultQuery = '{\n    "find": "collection_name",\n    "limit": 10\n}';
+        defaultQuery = 'db.collection_name.find({}).limit(10)';
     } else if (dbType === 'redis') {
-        defaultQuery = '{\n    "command": "KEYS",\n    "args": ["*"]\n}';
+        defaultQuery = '{\n    "command": "SCAN",\n    "args": ["0", "MATCH", "*", "COUNT", "100"]\n}';
+    } else if (dbType === 'influxdb') {
+        defaultQuery = 'buckets()';
+    } else if (dbType === 'prometheus') {
+        defaultQuery = 'up';
     }
 
     return {
@@ -0,0 +1,73 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import { runUnderSavepoint } from '@/lib/query-transactions';
+
+jest.mock('@/lib/db-utils', () => ({ getConnectedAdapter: jest.fn() }));
+jest.mock('@/lib/vcs-storage', () => ({ addPendingChange: jest.fn() }));
+
+// Records statements and, like PostgreSQL, refuses everything after a failure until ROLLBACK TO SAVEPOINT
+function fakeTransaction() {
+    const statements: string[] = [];
+    let aborted = false;
+
+    const executeQuery = async ({ query }: { query: string }) => {
+        statements.push(query);
+        if (query.startsWith('ROLLBACK TO SAVEPOINT')) {
+            aborted = false;
+        } else if (aborted) {
+            throw new Error('current transaction is aborted, commands ignored until end of transaction block');
+        } else if (query.includes('missing_column')) {
+            aborted = true;
+            throw new Error('column "missing_column" does not exist');
+        }
+        return { rows: [{ id: 1 }], fields: [], rowCount: 1, executionTime: 1 };
+    };
+
+    return { adapter: { executeQuery } as unknown as IDBAdapter, statements };
+}
+
+describe('runUnderSavepoint', () => {
+    it('keeps the transaction usable after a failed pre-fetch', async () => {
+        const { adapter, statements } = fakeTransaction();
+        const select = (query: string) => () => adapter.executeQuery({ connectionId: 'c1', query, transactionId: 'tx1' });
+
+        await expect(runUnderSavepoint(adapter, 'c1', 'tx1', 'postgres', select('SELECT * FROM t WHERE missing_column = 1')))
+            .rejects.toThrow('column "missing_column" does not exist');
+        await expect(select('UPDATE t SET a = 1 WHERE id = 1')()).resolves.toMatchObject({ rowCount: 1 });
+
+        expect(statements).toEqual([
+            'SAVEPOINT bosdb_prefetch',
+            'SELECT * FROM t WHERE missing_column = 1',
+            'ROLLBACK TO SAVEPOINT bosdb_prefetch',
+            'UPDATE t SET a = 1 WHERE id = 1',
+        ]);
+    });
+
+    it('releases the savepoint after a successful pre-fetch', async () => {
+        const { adapter, statements } = fakeTransaction();
+
+        const result = await runUnderSavepoint(adapter, 'c1', 'tx1', 'mysql', async () => 'rows');
+
+        expect(result).toBe('rows');
+        expect(statements).toEqual(['SAVEPOINT bosdb_prefetch', 'RELEASE SAVEPOINT bosdb_prefetch']);
+    });
+
+    it('uses SAVE TRANSACTION on SQL Server', async () => {
+        const { adapter, statements } = fakeTransaction();
+
+        await expect(runUnderSavepoint(adapter, 'c1', 'tx1', 'mssql', async () => {
+            throw new Error('timeout');
+        })).rejects.toThrow('timeout');
+
+        expect(statements).toEqual(['SAVE TRANSACTION bosdb_prefetch', 'ROLLBACK TRANSACTION bosdb_prefetch']);
+    });
+
+    it('refuses engines without savepoints instead of running unprotected', async () => {
+        const { adapter, statements } = fakeTransaction();
+        const run = jest.fn(async () => 'rows');
+
+        await expect(runUnderSavepoint(adapter, 'c1', 'tx1', 'duckdb', run)).rejects.toThrow('Savepoints are not supported for duckdb');
+        expect(run).not.toHaveBeenCalled();
+        expect(statements).toEqual([]);
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * Query Editor Transactions
+ * Transactions opened from the query editor span several HTTP requests. Changes they make are
+ * held back from version control until commit, and dropped on rollback.
+ */
+
+import type { IDBAdapter } from '@bosdb/db-adapters';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { getDialectFromDbType } from '@/lib/sql-formatter';
+import { addPendingChange } from '@/lib/vcs-storage';
+import type { DatabaseChange } from '@/lib/vcs-helper';
+
+export interface QueryTransaction {
+    id: string;
+    connectionId: string;
+    adapterConnectionId: string;
+    startedAt: string;
+    userEmail?: string;
+    changes: DatabaseChange[];
+}
+
+// Entries live until commit or rollback. The adapter rolls back idle transactions on its own;
+// those entries are dropped the next time they are looked up or a transaction begins.
+const transactions = new Map<string, { entry: QueryTransaction; adapter: IDBAdapter }>();
+
+// Savepoint statements by dialect (see getDialectFromDbType); dialects not listed have none
+const SAVEPOINT_NAME = 'bosdb_prefetch';
+
+const STANDARD_SAVEPOINT = {
+    create: `SAVEPOINT ${SAVEPOINT_NAME}`,
+    rollback: `ROLLBACK TO SAVEPOINT ${SAVEPOINT_NAME}`,
+    release: `RELEASE SAVEPOINT ${SAVEPOINT_NAME}`,
+};
+
+const SAVEPOINT_SQL: Record<string, { create: string; rollback: string; release?: string } | undefined> = {
+    postgresql: STANDARD_SAVEPOINT,
+    mysql: STANDARD_SAVEPOINT,
+    mariadb: STANDARD_SAVEPOINT,
+    sqlite: STANDARD_SAVEPOINT,
+    // Savepoints end with the transaction on these two; there is nothing to release
+    transactsql: { create: `SAVE TRANSACTION ${SAVEPOINT_NAME}`, rollback: `ROLLBACK TRANSACTION ${SAVEPOINT_NAME}` },
+    plsql: { create: `SAVEPOINT ${SAVEPOINT_NAME}`, rollback: `ROLLBACK TO SAVEPOINT ${SAVEPOINT_NAME}` },
+};
+
+export async function beginQueryTransaction(connectionId: string, userEmail?: string): Promise<QueryTransaction> {
+    const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+    const id = await adapter.beginTransaction(adapterConnectionId);
+
+    for (const expired of Array.from(transactions.keys()).filter(key => !isOpen(key))) {
+        transactions.delete(expired);
+    }
+
+    const entry: QueryTransaction = {
+        id,
+        connectionId,
+        adapterConnectionId,
+        startedAt: new Date().toISOString(),
+        userEmail,
+        changes: [],
+    };
+    transactions.set(id, { entry, adapter });
+    return entry;
+}
+
+export function getQueryTransaction(id: string): QueryTransaction | undefined {
+    if (!isOpen(id)) {
+        transactions.delete(id);
+        return undefined;
+    }
+    return transactions.get(id)?.entry;
+}
+
+export function deferChange(id: string, change: DatabaseChange): void {
+    getQueryTransaction(id)?.changes.push(change);
+}
+
+/**
+ * Commit on the database, then hand the deferred changes to version control.
+ * Returns the number of changes tracked.
+ */
+export async function commitQueryTransaction(id: string): Promise<number> {
+    const entry = takeTransaction(id);
+    const { adapter } = await getConnectedAdapter(entry.connectionId);
+    await adapter.commit(entry.adapterConnectionId, id);
+
+    for (const change of entry.changes) {
+        await addPendingChange(entry.connectionId, change);
+    }
+    return entry.changes.length;
+}
+
+export async function rollbackQueryTransaction(id: string): Promise<void> {
+    const entry = takeTransaction(id);
+    const { adapter } = await getConnectedAdapter(entry.connectionId);
+    await adapter.rollback(entry.adapterConnectionId, id);
+}
+
+/**
+ * Run a best-effort statement (e.g. the rollback pre-fetch) inside a transaction without putting it at risk.
+ * PostgreSQL aborts the whole transaction when any statement fails, so `run` executes under a savepoint
+ * that is rolled back to if it throws. Engines without savepoints refuse rather than run unprotected.
+ */
+export async function runUnderSavepoint<T>(
+    adapter: IDBAdapter,
+    adapterConnectionId: string,
+    transactionId: string,
+    dbType: string,
+    run: () => Promise<T>
+): Promise<T> {
+    const savepoint = SAVEPOINT_SQL[getDialectFromDbType(dbType)];
+    if (!savepoint) {
+        throw new Error(`Savepoints are not supported for ${dbType}`);
+    }
+
+    const execute = (query: string) => adapter.executeQuery({ connectionId: adapterConnectionId, query, transactionId, timeout: 5000 });
+
+    await execute(savepoint.create);
+    let result: T;
+    try {
+        result = await run();
+    } catch (error) {
+        await execute(savepoint.rollback);
+        throw error;
+    }
+    if (savepoint.release) {
+        await execute(savepoint.release);
+    }
+    return result;
+}
+
+function takeTransaction(id: string): QueryTransaction {
+    const entry = getQueryTransaction(id);
+    if (!entry) {
+        throw new Error(`Transaction not found: ${id}`);
+    }
+    transactions.delete(id);
+    return entry;
+}
+
+// False once the adapter has committed, rolled back or expired the transaction, or was replaced by a reconnect
+function isOpen(id: string): boolean {
+    const open = transactions.get(id);
+    return !!open && open.adapter.hasTransaction(open.entry.adapterConnectionId, id);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildKeyTree, formatTTL } from '@/lib/redis-keys';
+import type { KeyTreeNode } from '@/lib/redis-keys';
+
+const keys = (...names: string[]) => names.map((key) => ({ key, type: 'string', ttl: -1 }));
+
+// "path (keyCount)" per node, indented by depth, with * marking nodes that are keys themselves
+function render(nodes: KeyTreeNode[], depth: number = 0): string[] {
+    return nodes.flatMap((node) => [
+        `${'  '.repeat(depth)}${node.path} (${node.keyCount})${node.key ? ' *' : ''}`,
+        ...render(node.children, depth + 1),
+    ]);
+}
+
+describe('buildKeyTree', () => {
+    it('groups keys by namespace, folders first, numbers in numeric order', () => {
+        const tree = buildKeyTree(keys('user:10:profile', 'user:2:profile', 'user:2:sessions', 'config', 'cache:a', 'user'));
+
+        expect(render(tree)).toEqual([
+            'cache (1)',
+            '  cache:a (1) *',
+            'user (4) *',
+            '  user:2 (2)',
+            '    user:2:profile (1) *',
+            '    user:2:sessions (1) *',
+            '  user:10 (1)',
+            '    user:10:profile (1) *',
+            'config (1) *',
+        ]);
+        expect(tree[1].key).toEqual({ key: 'user', type: 'string', ttl: -1 });
+    });
+
+    it('keeps empty segments and honours other separators', () => {
+        expect(render(buildKeyTree(keys('a::b', 'a:c')))).toEqual([
+            'a (2)',
+            '  a: (1)',
+            '    a::b (1) *',
+            '  a:c (1) *',
+        ]);
+        expect(render(buildKeyTree(keys('app/x', 'app:y'), '/'))).toEqual([
+            'app (1)',
+            '  app/x (1) *',
+            'app:y (1) *',
+        ]);
+    });
+
+    it('lists every key at the root without a separator', () => {
+        expect(render(buildKeyTree(keys('b:1', 'a:2'), ''))).toEqual(['a:2 (1) *', 'b:1 (1) *']);
+    });
+});
+
+describe('formatTTL', () => {
+    it.each([
+        [-1, 'no expiry'],
+        [-2, 'no expiry'],
+        [0, '0s'],
+        [45, '45s'],
+        [725, '12m 5s'],
+        [12000, '3h 20m'],
+        [187200, '2d 4h'],
+    ])('formats %p seconds as %p', (seconds, expected) => {
+        expect(formatTTL(seconds)).toBe(expected);
+    });
+});
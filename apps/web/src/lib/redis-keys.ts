@@ -0,0 +1,73 @@
+/**
+ * Redis Key Tree
+ * Groups scanned keys into a namespace tree by splitting their names on a separator (':' by
+ * convention, as in user:42:profile), and formats TTLs for the key browser.
+ */
+
+import type { RedisKeySummary } from '@bosdb/core';
+
+export interface KeyTreeNode {
+    name: string;             // Last segment, e.g. "profile"
+    path: string;             // Segments up to and including this one, e.g. "user:42:profile"
+    key?: RedisKeySummary;    // Set when a key has exactly this name
+    children: KeyTreeNode[];
+    keyCount: number;         // Keys at and below this node
+}
+
+// Labels and badge colours of the types the browser can show
+export const REDIS_TYPES: Record<string, { label: string; className: string }> = {
+    string: { label: 'STR', className: 'bg-blue-500/15 text-blue-600 dark:text-blue-400' },
+    hash: { label: 'HASH', className: 'bg-purple-500/15 text-purple-600 dark:text-purple-400' },
+    list: { label: 'LIST', className: 'bg-green-500/15 text-green-600 dark:text-green-400' },
+    set: { label: 'SET', className: 'bg-amber-500/15 text-amber-600 dark:text-amber-400' },
+    zset: { label: 'ZSET', className: 'bg-orange-500/15 text-orange-600 dark:text-orange-400' },
+    stream: { label: 'STREAM', className: 'bg-pink-500/15 text-pink-600 dark:text-pink-400' },
+    'ReJSON-RL': { label: 'JSON', className: 'bg-teal-500/15 text-teal-600 dark:text-teal-400' },
+};
+
+export function buildKeyTree(keys: RedisKeySummary[], separator: string = ':'): KeyTreeNode[] {
+    const root: KeyTreeNode = { name: '', path: '', children: [], keyCount: 0 };
+
+    for (const summary of keys) {
+        // Without a separator every key is a leaf of the root
+        const segments = separator ? summary.key.split(separator) : [summary.key];
+        let node = root;
+        node.keyCount++;
+
+        segments.forEach((segment, i) => {
+            const path = segments.slice(0, i + 1).join(separator);
+            let child = node.children.find(c => c.path === path);
+            if (!child) {
+                child = { name: segment, path, children: [], keyCount: 0 };
+                node.children.push(child);
+            }
+            child.keyCount++;
+            node = child;
+        });
+        node.key = summary;
+    }
+
+    sortTree(root.children);
+    return root.children;
+}
+
+// Namespaces before keys, each alphabetically with numbers in numeric order
+function sortTree(nodes: KeyTreeNode[]): void {
+    nodes.sort((a, b) => {
+        const aFolder = a.children.length > 0 ? 0 : 1;
+        const bFolder = b.children.length > 0 ? 0 : 1;
+        return aFolder - bFolder || a.name.localeCompare(b.name, undefined, { numeric: true });
+    });
+    nodes.forEach(node => sortTree(node.children));
+}
+
+/**
+ * "no expiry", "45s", "12m 5s", "3h 20m", "2d 4h"
+ */
+export function formatTTL(seconds: number): string {
+    if (seconds < 0) return 'no expiry';
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+    return `${Math.floor(seconds / 86400)}d ${Math.floor((seconds % 86400) / 3600)}h`;
+}
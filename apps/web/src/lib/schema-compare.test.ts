@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Column, ForeignKey, TableMetadata } from '@bosdb/core';
+import { compareSchemas, generateSyncScript, syncFamily } from '@/lib/schema-compare';
+
+const column = (name: string, dataType: string, extra: Partial<Column> = {}): Column => ({
+    name,
+    dataType,
+    nullable: false,
+    isPrimaryKey: false,
+    isForeignKey: false,
+    ...extra,
+});
+
+function table(name: string, columns: Column[], foreignKeys: ForeignKey[] = [], indexes: TableMetadata['indexes'] = []): TableMetadata {
+    return {
+        schema: 'public',
+        name,
+        columns,
+        primaryKeys: columns.filter((col) => col.isPrimaryKey).map((col) => col.name),
+        foreignKeys,
+        indexes,
+    };
+}
+
+const id = column('id', 'integer', { isPrimaryKey: true });
+const userFk: ForeignKey = { name: 'orders_user_fk', columns: ['user_id'], referencedTable: 'users', referencedColumns: ['id'] };
+
+describe('syncFamily', () => {
+    it.each([
+        ['postgres', 'postgres'],
+        ['mariadb', 'mysql'],
+        ['mssql', 'mssql'],
+        ['oracle', 'oracle'],
+        ['mongodb', null],
+    ])('puts %p in the %p family', (dbType, family) => {
+        expect(syncFamily(dbType)).toBe(family);
+    });
+});
+
+describe('compareSchemas', () => {
+    it('matches tables and columns ignoring case and reports what changed', () => {
+        const source = [
+            table('users', [id, column('email', 'varchar(200)'), column('name', 'text', { nullable: true })]),
+            table('orders', [id]),
+        ];
+        const target = [
+            table('Users', [id, column('EMAIL', 'VARCHAR( 200 )'), column('name', 'text'), column('legacy', 'text')]),
+            table('audit', [id]),
+        ];
+
+        const diffs = compareSchemas(source, target);
+
+        expect(diffs.map((d) => [d.name, d.status])).toEqual([['audit', 'removed'], ['orders', 'added'], ['users', 'changed']]);
+        expect(diffs[2].columns.map((c) => [c.name, c.status, c.changes])).toEqual([
+            ['id', 'same', []],
+            ['email', 'changed', ['name']],
+            ['name', 'changed', ['nullable']],
+            ['legacy', 'removed', []],
+        ]);
+    });
+
+    it('compares indexes and foreign keys by their definition', () => {
+        const source = [table('orders', [id, column('user_id', 'integer')], [{ ...userFk, onDelete: 'CASCADE' }], [
+            { name: 'orders_user_idx', columns: ['user_id'], unique: false, primary: false },
+        ])];
+        const target = [table('orders', [id, column('user_id', 'integer')], [userFk], [
+            { name: 'orders_user_idx', columns: ['user_id'], unique: false, primary: false },
+        ])];
+
+        const [diff] = compareSchemas(source, target);
+
+        expect(diff.status).toBe('changed');
+        expect(diff.indexes.map((i) => i.status)).toEqual(['same']);
+        expect(diff.foreignKeys.map((fk) => fk.status)).toEqual(['changed']);
+    });
+
+    it('reports identical schemas as the same', () => {
+        const schema = [table('users', [id, column('email', 'text')])];
+        expect(compareSchemas(schema, schema).map((d) => d.status)).toEqual(['same']);
+    });
+});
+
+describe('generateSyncScript', () => {
+    const users = table('users', [id]);
+    const source = [
+        users,
+        table('orders', [id, column('user_id', 'integer'), column('total', 'numeric')], [{ ...userFk, onDelete: 'CASCADE' }]),
+        table('items', [id, column('order_id', 'integer')], [{ name: 'items_order_fk', columns: ['order_id'], referencedTable: 'orders', referencedColumns: ['id'] }]),
+    ];
+    const target = [
+        users,
+        table('orders', [id, column('user_id', 'integer')], [userFk]),
+        table('audit', [id]),
+    ];
+
+    it('drops changed foreign keys first and adds foreign keys last', () => {
+        const steps = generateSyncScript(compareSchemas(source, target), 'public', 'postgres');
+
+        expect(steps.map((s) => [s.table, s.operation, s.sql])).toEqual([
+            ['orders', 'alter', 'ALTER TABLE "public"."orders" DROP CONSTRAINT "orders_user_fk"'],
+            ['orders', 'alter', 'ALTER TABLE "public"."orders" ADD COLUMN "total" numeric NOT NULL'],
+            ['items', 'create', expect.stringMatching(/^CREATE TABLE "public"."items"/)],
+            ['orders', 'alter', expect.stringMatching(/^ALTER TABLE "public"."orders" ADD CONSTRAINT "orders_user_fk" FOREIGN KEY \("user_id"\) REFERENCES "public"."users" \("id"\) ON DELETE CASCADE$/)],
+            ['items', 'alter', expect.stringMatching(/^ALTER TABLE "public"."items" ADD CONSTRAINT "items_order_fk"/)],
+        ]);
+        expect(steps.every((s) => s.rollbackSQL)).toBe(true);
+    });
+
+    it('drops tables missing from the source only when asked to', () => {
+        const steps = generateSyncScript(compareSchemas(source, target), 'public', 'postgres', { dropMissing: true });
+
+        const drop = steps.find((s) => s.operation === 'drop')!;
+        expect(drop).toMatchObject({ table: 'audit', sql: 'DROP TABLE "public"."audit"' });
+        expect(drop.rollbackSQL).toMatch(/^CREATE TABLE "public"."audit"/);
+        expect(steps.indexOf(drop)).toBeLessThan(steps.findIndex((s) => s.operation === 'create'));
+    });
+});
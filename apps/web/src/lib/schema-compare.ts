@@ -0,0 +1,249 @@
+import type { TableMetadata, Index, ForeignKey } from '@bosdb/core';
+import { getDialectFromDbType } from '@/lib/sql-formatter';
+import {
+    generateAlterTableSQL,
+    generateCreateTableStep,
+    normalizeType,
+    tableDefFromMetadata,
+} from '@/lib/sql-helper';
+import type { AlterStep, ColumnDef, TableDef } from '@/lib/sql-helper';
+
+// ============ Types ============
+
+/**
+ * 'added' exists only in the source and will be created in the target,
+ * 'removed' exists only in the target
+ */
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'same';
+
+export interface ColumnDiff {
+    name: string;
+    status: DiffStatus;
+    source?: ColumnDef;
+    target?: ColumnDef;
+    changes: ('name' | 'type' | 'nullable' | 'default' | 'primaryKey')[];
+}
+
+export interface ObjectDiff<T> {
+    name: string;
+    status: DiffStatus;
+    source?: T;
+    target?: T;
+}
+
+export interface TableDiff {
+    name: string;
+    status: DiffStatus;
+    source?: TableDef;
+    target?: TableDef;
+    columns: ColumnDiff[];
+    indexes: ObjectDiff<Index>[];
+    foreignKeys: ObjectDiff<ForeignKey>[];
+}
+
+/**
+ * A statement of the sync script, with the table it belongs to for version control
+ */
+export interface SyncStep extends AlterStep {
+    table: string;
+    operation: 'create' | 'alter' | 'drop';
+}
+
+export interface SyncOptions {
+    /** Drop tables that exist only in the target */
+    dropMissing?: boolean;
+}
+
+// ============ Comparison ============
+
+/**
+ * DDL family a sync script can be generated for, or null if the database type has none.
+ * Both sides of a comparison must be in the same family, e.g. MySQL and MariaDB.
+ */
+export function syncFamily(dbType: string): 'postgres' | 'mysql' | 'mssql' | 'oracle' | null {
+    switch (getDialectFromDbType(dbType)) {
+        case 'postgresql':
+            return 'postgres';
+        case 'mysql':
+        case 'mariadb':
+            return 'mysql';
+        case 'transactsql':
+            return 'mssql';
+        case 'plsql':
+            return 'oracle';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Tables of two schemas side by side. Tables and columns are matched by name ignoring case,
+ * indexes and foreign keys by exact name. The result is sorted by table name.
+ */
+export function compareSchemas(source: TableMetadata[], target: TableMetadata[]): TableDiff[] {
+    const diffs = pair(source.map(tableDefFromMetadata), target.map(tableDefFromMetadata), def => def.name.toLowerCase())
+        .map(([src, tgt]) => compareTables(src, tgt));
+    return diffs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function compareTables(source?: TableDef, target?: TableDef): TableDiff {
+    const columns = pair(source?.columns || [], target?.columns || [], col => col.name.toLowerCase())
+        .map(([src, tgt]) => compareColumns(src, tgt));
+    const indexes = pair(source?.indexes || [], target?.indexes || [], idx => idx.name)
+        .map(([src, tgt]) => compareObjects(src, tgt, describeIndex));
+    const foreignKeys = pair(source?.foreignKeys || [], target?.foreignKeys || [], fk => fk.name)
+        .map(([src, tgt]) => compareObjects(src, tgt, describeForeignKey));
+
+    const changed = [...columns, ...indexes, ...foreignKeys].some(diff => diff.status !== 'same');
+    return {
+        name: (source || target)!.name,
+        status: !target ? 'added' : !source ? 'removed' : changed ? 'changed' : 'same',
+        source,
+        target,
+        columns,
+        indexes,
+        foreignKeys,
+    };
+}
+
+function compareColumns(source?: ColumnDef, target?: ColumnDef): ColumnDiff {
+    const changes: ColumnDiff['changes'] = [];
+    if (source && target) {
+        if (source.name !== target.name) changes.push('name');
+        if (normalizeType(source.type) !== normalizeType(target.type)) changes.push('type');
+        if (source.isNullable !== target.isNullable) changes.push('nullable');
+        if ((source.defaultValue || '').trim() !== (target.defaultValue || '').trim()) changes.push('default');
+        if (source.isPrimaryKey !== target.isPrimaryKey) changes.push('primaryKey');
+    }
+    return {
+        name: (source || target)!.name,
+        status: !target ? 'added' : !source ? 'removed' : changes.length > 0 ? 'changed' : 'same',
+        source,
+        target,
+        changes,
+    };
+}
+
+function compareObjects<T extends { name: string }>(source: T | undefined, target: T | undefined, describe: (value: T) => string): ObjectDiff<T> {
+    return {
+        name: (source || target)!.name,
+        status: !target ? 'added' : !source ? 'removed' : describe(source) !== describe(target) ? 'changed' : 'same',
+        source,
+        target,
+    };
+}
+
+/**
+ * One-line definition of an index, e.g. "UNIQUE (email)"
+ */
+export function describeIndex(idx: Index): string {
+    return `${idx.unique ? 'UNIQUE ' : ''}(${idx.columns.join(', ')})`;
+}
+
+/**
+ * One-line definition of a foreign key, e.g. "(user_id) → users (id) ON DELETE CASCADE"
+ */
+export function describeForeignKey(fk: ForeignKey): string {
+    let text = `(${fk.columns.join(', ')}) → ${fk.referencedTable} (${fk.referencedColumns.join(', ')})`;
+    if (fk.onDelete && fk.onDelete !== 'NO ACTION') text += ` ON DELETE ${fk.onDelete}`;
+    if (fk.onUpdate && fk.onUpdate !== 'NO ACTION') text += ` ON UPDATE ${fk.onUpdate}`;
+    return text;
+}
+
+// Entries of both lists with the same key, in source order followed by target-only entries
+function pair<T>(source: T[], target: T[], key: (value: T) => string): [T | undefined, T | undefined][] {
+    const targetByKey = new Map(target.map(value => [key(value), value]));
+    const sourceKeys = new Set(source.map(key));
+    return [
+        ...source.map((value): [T | undefined, T | undefined] => [value, targetByKey.get(key(value))]),
+        ...target.filter(value => !sourceKeys.has(key(value))).map((value): [T | undefined, T | undefined] => [undefined, value]),
+    ];
+}
+
+// ============ Sync script ============
+
+/**
+ * Statements that make the target schema match the source, in execution order:
+ *
+ * 1. drop foreign keys that change or go away, so nothing blocks the later steps
+ * 2. drop tables that exist only in the target (with `dropMissing`)
+ * 3. alter columns, primary keys and indexes of tables on both sides
+ * 4. create new tables and their indexes
+ * 5. add foreign keys, once every table they reference exists
+ *
+ * Dropping a table or column cannot be rolled back with its data; the rollback only restores
+ * the structure.
+ */
+export function generateSyncScript(diffs: TableDiff[], schema: string, dbType: string, options: SyncOptions = {}): SyncStep[] {
+    const steps: SyncStep[] = [];
+    const push = (table: string, operation: SyncStep['operation'], alterSteps: AlterStep[]) =>
+        steps.push(...alterSteps.map(step => ({ ...step, table, operation })));
+
+    // Table with its columns as they are after step 3, without indexes or foreign keys
+    const bare = (def: TableDef, name = def.name): TableDef => ({
+        name,
+        columns: def.columns.map(col => ({ ...col, originalName: col.name })),
+        primaryKeyName: def.primaryKeyName,
+    });
+    const foreignKeySteps = (def: TableDef, name: string, from: ForeignKey[], to: ForeignKey[]) =>
+        generateAlterTableSQL({ ...bare(def, name), foreignKeys: from }, { ...bare(def, name), foreignKeys: to }, schema, dbType);
+
+    const changedKeys = (diff: TableDiff, statuses: DiffStatus[], side: 'source' | 'target') => diff.foreignKeys
+        .filter(fk => statuses.includes(fk.status))
+        .map(fk => fk[side]!);
+
+    const changed = diffs.filter(diff => diff.status === 'changed');
+    const added = diffs.filter(diff => diff.status === 'added');
+    const removed = options.dropMissing ? diffs.filter(diff => diff.status === 'removed') : [];
+
+    // 1. Foreign keys
+    for (const diff of changed) {
+        const target = diff.target!;
+        push(target.name, 'alter', foreignKeySteps(target, target.name, changedKeys(diff, ['removed', 'changed'], 'target'), []));
+    }
+    for (const diff of removed) {
+        const target = diff.target!;
+        push(target.name, 'alter', foreignKeySteps(target, target.name, target.foreignKeys || [], []));
+    }
+
+    // 2. Tables missing from the source
+    for (const diff of removed) {
+        const target = diff.target!;
+        const create = generateCreateTableStep(target, schema, dbType);
+        steps.push({ sql: create.rollbackSQL, rollbackSQL: create.sql, table: target.name, operation: 'drop' });
+    }
+
+    // 3. Columns, primary keys and indexes
+    for (const diff of changed) {
+        const source = diff.source!;
+        const target = diff.target!;
+        const updated: TableDef = {
+            ...source,
+            name: target.name,
+            foreignKeys: [],
+            columns: source.columns.map(col => ({
+                ...col,
+                originalName: diff.columns.find(c => c.source === col)?.target?.name,
+            })),
+        };
+        push(target.name, 'alter', generateAlterTableSQL({ ...target, foreignKeys: [] }, updated, schema, dbType));
+    }
+
+    // 4. New tables
+    for (const diff of added) {
+        const source = diff.source!;
+        push(source.name, 'create', [generateCreateTableStep(source, schema, dbType)]);
+        push(source.name, 'alter', generateAlterTableSQL(bare(source), { ...bare(source), indexes: source.indexes }, schema, dbType));
+    }
+
+    // 5. Foreign keys of changed and new tables
+    for (const diff of changed) {
+        push(diff.target!.name, 'alter', foreignKeySteps(diff.source!, diff.target!.name, [], changedKeys(diff, ['added', 'changed'], 'source')));
+    }
+    for (const diff of added) {
+        const source = diff.source!;
+        push(source.name, 'alter', foreignKeySteps(source, source.name, [], source.foreignKeys || []));
+    }
+
+    return steps;
+}
@@ -5,7 +5,7 @@
 
 import { format } from 'sql-formatter';
 
-export type SQLDialect = 'sql' | 'mysql' | 'postgresql' | 'mariadb' | 'sqlite' | 'bigquery' | 'spark' | 'trino';
+export type SQLDialect = 'sql' | 'mysql' | 'postgresql' | 'mariadb' | 'sqlite' | 'bigquery' | 'spark' | 'trino' | 'transactsql' | 'plsql';
 
 export interface FormatOptions {
     dialect?: SQLDialect;
@@ -56,11 +56,21 @@ export function getDialectFromDbType(dbType: string): SQLDialect {
     const dialectMap: Record<string, SQLDialect> = {
         postgresql: 'postgresql',
         postgres: 'postgresql',
+        cockroachdb: 'postgresql',
+        yugabyte: 'postgresql',
+        timescaledb: 'postgresql',
+        greenplum: 'postgresql',
         mysql: 'mysql',
+        tidb: 'mysql',
+        singlestore: 'mysql',
         mariadb: 'mariadb',
         sqlite: 'sqlite',
-        mssql: 'sql',
-        sqlserver: 'sql',
+        mssql: 'transactsql',
+        sqlserver: 'transactsql',
+        azuresql: 'transactsql',
+        oracle: 'plsql',
+        trino: 'trino',
+        presto: 'trino',
     };
     return dialectMap[dbType.toLowerCase()] || 'sql';
 }
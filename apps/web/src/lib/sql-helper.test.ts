@@ -0,0 +1,366 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+    extractSourceTable,
+    findRowKey,
+    formatAlterScript,
+    generateAlterTableSQL,
+    generateDeleteStatement,
+    generateInsertStatement,
+    generateUpdateStatement,
+    tableDefFromMetadata,
+} from '@/lib/sql-helper';
+import type { TableMetadata } from '@bosdb/core';
+import type { ColumnDef, TableDef } from '@/lib/sql-helper';
+
+const column = (name: string, type: string, extra: Partial<ColumnDef> = {}): ColumnDef => ({
+    name,
+    type,
+    isPrimaryKey: false,
+    isNullable: true,
+    originalName: name,
+    ...extra,
+});
+
+// users (id PK, email NOT NULL with a unique index, name)
+function usersTable(): TableDef {
+    return {
+        name: 'users',
+        columns: [
+            column('id', 'integer', { isPrimaryKey: true, isNullable: false }),
+            column('email', 'varchar(255)', { isNullable: false }),
+            column('name', 'text'),
+        ],
+        indexes: [{ name: 'users_email_key', columns: ['email'], unique: true, primary: false }],
+        foreignKeys: [],
+        primaryKeyName: 'users_pkey',
+    };
+}
+
+function edit(change: (table: TableDef) => void): TableDef {
+    const table = usersTable();
+    change(table);
+    return table;
+}
+
+const sqlOf = (updated: TableDef, dbType: string, schema: string = 'app') =>
+    generateAlterTableSQL(usersTable(), updated, schema, dbType).map((step) => step.sql);
+
+describe('generateAlterTableSQL', () => {
+    it('returns no steps for an unchanged table', () => {
+        expect(generateAlterTableSQL(usersTable(), usersTable(), 'app', 'postgresql')).toEqual([]);
+    });
+
+    describe('adding a column', () => {
+        const updated = edit((t) => t.columns.push({ name: 'age', type: 'integer', isPrimaryKey: false, isNullable: false, defaultValue: '0' }));
+
+        it.each([
+            ['postgresql', 'ALTER TABLE "app"."users" ADD COLUMN "age" integer DEFAULT 0 NOT NULL', 'ALTER TABLE "app"."users" DROP COLUMN "age"'],
+            ['mysql', 'ALTER TABLE `app`.`users` ADD COLUMN `age` integer DEFAULT 0 NOT NULL', 'ALTER TABLE `app`.`users` DROP COLUMN `age`'],
+            ['oracle', 'ALTER TABLE "app"."users" ADD ("age" integer DEFAULT 0 NOT NULL)', 'ALTER TABLE "app"."users" DROP COLUMN "age"'],
+        ])('%s', (dbType, sql, rollbackSQL) => {
+            expect(generateAlterTableSQL(usersTable(), updated, 'app', dbType)).toEqual([{ sql, rollbackSQL }]);
+        });
+
+        it('mssql drops the unnamed default constraint before the column on rollback', () => {
+            const [step] = generateAlterTableSQL(usersTable(), updated, 'app', 'mssql');
+            expect(step.sql).toBe('ALTER TABLE "app"."users" ADD "age" integer DEFAULT 0 NOT NULL');
+            expect(step.rollbackSQL).toMatch(/^DECLARE @df sysname; .* DROP CONSTRAINT ' \+ QUOTENAME\(@df\)\); ALTER TABLE "app"\."users" DROP COLUMN "age"$/);
+        });
+    });
+
+    describe('renaming a column', () => {
+        const updated = edit((t) => { t.columns[2].name = 'full_name'; });
+
+        it('uses RENAME COLUMN on PostgreSQL, MySQL and Oracle', () => {
+            expect(generateAlterTableSQL(usersTable(), updated, 'app', 'postgresql')).toEqual([{
+                sql: 'ALTER TABLE "app"."users" RENAME COLUMN "name" TO "full_name"',
+                rollbackSQL: 'ALTER TABLE "app"."users" RENAME COLUMN "full_name" TO "name"',
+            }]);
+            expect(sqlOf(updated, 'mysql')).toEqual(['ALTER TABLE `app`.`users` RENAME COLUMN `name` TO `full_name`']);
+            expect(sqlOf(updated, 'oracle')).toEqual(['ALTER TABLE "app"."users" RENAME COLUMN "name" TO "full_name"']);
+        });
+
+        it('uses sp_rename on SQL Server', () => {
+            expect(generateAlterTableSQL(usersTable(), updated, 'dbo', 'mssql')).toEqual([{
+                sql: "EXEC sp_rename N'dbo.users.name', N'full_name', 'COLUMN'",
+                rollbackSQL: "EXEC sp_rename N'dbo.users.full_name', N'name', 'COLUMN'",
+            }]);
+        });
+
+        it('keeps indexes on a renamed column', () => {
+            const renamedEmail = edit((t) => { t.columns[1].name = 'mail'; });
+            expect(sqlOf(renamedEmail, 'postgresql')).toEqual(['ALTER TABLE "app"."users" RENAME COLUMN "email" TO "mail"']);
+        });
+    });
+
+    describe('changing a column type', () => {
+        const updated = edit((t) => { t.columns[1].type = 'varchar(500)'; });
+
+        it.each([
+            ['postgresql', 'ALTER TABLE "app"."users" ALTER COLUMN "email" TYPE varchar(500) USING "email"::varchar(500)',
+                'ALTER TABLE "app"."users" ALTER COLUMN "email" TYPE varchar(255) USING "email"::varchar(255)'],
+            ['mysql', 'ALTER TABLE `app`.`users` MODIFY COLUMN `email` varchar(500) NOT NULL',
+                'ALTER TABLE `app`.`users` MODIFY COLUMN `email` varchar(255) NOT NULL'],
+            ['oracle', 'ALTER TABLE "app"."users" MODIFY ("email" varchar(500))',
+                'ALTER TABLE "app"."users" MODIFY ("email" varchar(255))'],
+            ['mssql', 'ALTER TABLE "app"."users" ALTER COLUMN "email" varchar(500) NOT NULL',
+                'ALTER TABLE "app"."users" ALTER COLUMN "email" varchar(255) NOT NULL'],
+        ])('%s', (dbType, sql, rollbackSQL) => {
+            expect(generateAlterTableSQL(usersTable(), updated, 'app', dbType)).toEqual([{ sql, rollbackSQL }]);
+        });
+
+        it('ignores differences in case and spacing', () => {
+            expect(sqlOf(edit((t) => { t.columns[1].type = 'VARCHAR( 255 )'; }), 'postgresql')).toEqual([]);
+        });
+    });
+
+    describe('MySQL attributes the designer does not edit', () => {
+        const mysqlUsers = (): TableDef => ({
+            name: 'users',
+            columns: [
+                column('id', 'int', { isPrimaryKey: true, isNullable: false, attributes: { unsigned: true, autoIncrement: true, comment: "user's id" } }),
+                column('email', 'varchar(255)', { isNullable: false, attributes: { characterSet: 'utf8mb4', collation: 'utf8mb4_bin' } }),
+                column('updated_at', 'timestamp', { defaultValue: 'CURRENT_TIMESTAMP', attributes: { onUpdate: 'CURRENT_TIMESTAMP' } }),
+            ],
+            indexes: [],
+            foreignKeys: [],
+        });
+        const alter = (change: (table: TableDef) => void) => {
+            const updated = mysqlUsers();
+            change(updated);
+            // The designer sends columns back without the attributes it does not show
+            updated.columns.forEach((col) => delete col.attributes);
+            return generateAlterTableSQL(mysqlUsers(), updated, 'app', 'mysql');
+        };
+
+        it('keeps UNSIGNED, AUTO_INCREMENT and COMMENT when modifying a column', () => {
+            expect(alter((t) => { t.columns[0].type = 'bigint'; })).toEqual([{
+                sql: "ALTER TABLE `app`.`users` MODIFY COLUMN `id` bigint UNSIGNED NOT NULL AUTO_INCREMENT COMMENT 'user''s id'",
+                rollbackSQL: "ALTER TABLE `app`.`users` MODIFY COLUMN `id` int UNSIGNED NOT NULL AUTO_INCREMENT COMMENT 'user''s id'",
+            }]);
+        });
+
+        it('keeps the character set and collation of text columns, and drops them for other types', () => {
+            expect(alter((t) => { t.columns[1].isNullable = true; })[0].sql)
+                .toBe('ALTER TABLE `app`.`users` MODIFY COLUMN `email` varchar(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_bin');
+            expect(alter((t) => { t.columns[1].type = 'int'; })[0]).toEqual({
+                sql: 'ALTER TABLE `app`.`users` MODIFY COLUMN `email` int NOT NULL',
+                rollbackSQL: 'ALTER TABLE `app`.`users` MODIFY COLUMN `email` varchar(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_bin NOT NULL',
+            });
+        });
+
+        it('keeps ON UPDATE on timestamps and restores attributes of a dropped column on rollback', () => {
+            expect(alter((t) => { t.columns[2].isNullable = false; })[0].sql)
+                .toBe('ALTER TABLE `app`.`users` MODIFY COLUMN `updated_at` timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL ON UPDATE CURRENT_TIMESTAMP');
+            expect(alter((t) => { t.columns.splice(2, 1); })[0].rollbackSQL)
+                .toBe('ALTER TABLE `app`.`users` ADD COLUMN `updated_at` timestamp DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP');
+        });
+
+        it('refuses to restate a generated column', () => {
+            const original = mysqlUsers();
+            original.columns[1].attributes = { generated: true };
+            const updated = mysqlUsers();
+            updated.columns[1].type = 'varchar(300)';
+
+            expect(() => generateAlterTableSQL(original, updated, 'app', 'mysql')).toThrow('Column email is a generated column');
+        });
+
+        it('reads the attributes from described MySQL columns', () => {
+            const table = tableDefFromMetadata({
+                name: 'users',
+                schema: 'app',
+                columns: [{
+                    name: 'id', dataType: 'int', nullable: false, isPrimaryKey: true, isForeignKey: false,
+                    nativeType: 'int(10) unsigned', extra: 'auto_increment', comment: 'key',
+                }, {
+                    name: 'updated_at', dataType: 'timestamp', nullable: true, isPrimaryKey: false, isForeignKey: false,
+                    nativeType: 'timestamp', extra: 'DEFAULT_GENERATED on update CURRENT_TIMESTAMP',
+                }, {
+                    name: 'total', dataType: 'int', nullable: true, isPrimaryKey: false, isForeignKey: false,
+                    nativeType: 'int', extra: 'STORED GENERATED',
+                }],
+                primaryKeys: ['id'],
+                foreignKeys: [],
+                indexes: [],
+            });
+
+            expect(table.columns.map((col) => col.attributes)).toEqual([
+                { unsigned: true, autoIncrement: true, comment: 'key' },
+                { onUpdate: 'CURRENT_TIMESTAMP' },
+                { generated: true },
+            ]);
+        });
+    });
+
+    it('changes nullability and defaults separately on PostgreSQL', () => {
+        const updated = edit((t) => {
+            t.columns[2].isNullable = false;
+            t.columns[2].defaultValue = 'anonymous';
+        });
+
+        expect(generateAlterTableSQL(usersTable(), updated, 'app', 'postgresql')).toEqual([
+            {
+                sql: 'ALTER TABLE "app"."users" ALTER COLUMN "name" SET NOT NULL',
+                rollbackSQL: 'ALTER TABLE "app"."users" ALTER COLUMN "name" DROP NOT NULL',
+            },
+            {
+                sql: 'ALTER TABLE "app"."users" ALTER COLUMN "name" SET DEFAULT \'anonymous\'',
+                rollbackSQL: 'ALTER TABLE "app"."users" ALTER COLUMN "name" DROP DEFAULT',
+            },
+        ]);
+    });
+
+    it('drops an index before dropping its column and restores both on rollback', () => {
+        const updated = edit((t) => {
+            t.columns.splice(1, 1);
+            t.indexes = [];
+        });
+
+        expect(generateAlterTableSQL(usersTable(), updated, 'app', 'postgresql')).toEqual([
+            {
+                sql: 'DROP INDEX "app"."users_email_key"',
+                rollbackSQL: 'CREATE UNIQUE INDEX "users_email_key" ON "app"."users" ("email")',
+            },
+            {
+                sql: 'ALTER TABLE "app"."users" DROP COLUMN "email"',
+                rollbackSQL: 'ALTER TABLE "app"."users" ADD COLUMN "email" varchar(255) NOT NULL',
+            },
+        ]);
+        expect(sqlOf(updated, 'mysql')[0]).toBe('DROP INDEX `users_email_key` ON `app`.`users`');
+    });
+
+    it('replaces the primary key through its constraint, or DROP PRIMARY KEY on MySQL', () => {
+        const updated = edit((t) => { t.columns[1].isPrimaryKey = true; });
+
+        expect(sqlOf(updated, 'postgresql')).toEqual([
+            'ALTER TABLE "app"."users" DROP CONSTRAINT "users_pkey"',
+            'ALTER TABLE "app"."users" ADD CONSTRAINT "users_pkey" PRIMARY KEY ("id", "email")',
+        ]);
+        expect(sqlOf(updated, 'mysql')).toEqual([
+            'ALTER TABLE `app`.`users` DROP PRIMARY KEY',
+            'ALTER TABLE `app`.`users` ADD PRIMARY KEY (`id`, `email`)',
+        ]);
+    });
+
+    it('adds foreign keys, leaving out ON UPDATE on Oracle', () => {
+        const updated = edit((t) => {
+            t.foreignKeys = [{
+                name: 'users_org_fk',
+                columns: ['id'],
+                referencedTable: 'orgs',
+                referencedColumns: ['id'],
+                onDelete: 'CASCADE',
+                onUpdate: 'CASCADE',
+            }];
+        });
+
+        expect(generateAlterTableSQL(usersTable(), updated, 'app', 'postgresql')).toEqual([{
+            sql: 'ALTER TABLE "app"."users" ADD CONSTRAINT "users_org_fk" FOREIGN KEY ("id") REFERENCES "app"."orgs" ("id") ON DELETE CASCADE ON UPDATE CASCADE',
+            rollbackSQL: 'ALTER TABLE "app"."users" DROP CONSTRAINT "users_org_fk"',
+        }]);
+        expect(sqlOf(updated, 'oracle')).toEqual([
+            'ALTER TABLE "app"."users" ADD CONSTRAINT "users_org_fk" FOREIGN KEY ("id") REFERENCES "app"."orgs" ("id") ON DELETE CASCADE',
+        ]);
+    });
+
+    it('rejects unnamed and duplicate columns', () => {
+        expect(() => generateAlterTableSQL(usersTable(), edit((t) => { t.columns[2].name = ''; }), 'app', 'postgresql'))
+            .toThrow('All columns must have a name');
+        expect(() => generateAlterTableSQL(usersTable(), edit((t) => { t.columns[2].name = 'EMAIL'; }), 'app', 'postgresql'))
+            .toThrow('Column names must be unique');
+    });
+});
+
+describe('formatAlterScript', () => {
+    it('undoes the steps in reverse order', () => {
+        expect(formatAlterScript([
+            { sql: 'A', rollbackSQL: 'undo A' },
+            { sql: 'B', rollbackSQL: 'undo B' },
+        ])).toEqual({ sql: 'A;\nB;', rollbackSQL: 'undo B;\nundo A;' });
+    });
+});
+
+describe('row editing statements', () => {
+    it('binds changed values and the row key, quoting names for the dialect', () => {
+        expect(generateUpdateStatement('app', 'users', { id: 7, tenant: null }, { name: "O'Brien", prefs: { a: 1 } }, 'postgresql')).toEqual({
+            query: 'UPDATE "app"."users" SET "name" = $1, "prefs" = $2 WHERE "id" = $3 AND "tenant" IS NULL;',
+            params: ["O'Brien", '{"a":1}', 7],
+        });
+        expect(generateUpdateStatement('', 'users', { id: 7 }, { name: 'x' }, 'mysql').query)
+            .toBe('UPDATE `users` SET `name` = $1 WHERE `id` = $2;');
+    });
+
+    it('inserts only the columns given, falling back to defaults', () => {
+        const at = new Date(0);
+        expect(generateInsertStatement('app', 'users', { id: undefined, name: 'a', created_at: at }, 'postgresql')).toEqual({
+            query: 'INSERT INTO "app"."users" ("name", "created_at") VALUES ($1, $2);',
+            params: ['a', at],
+        });
+        expect(generateInsertStatement('app', 'users', {}, 'postgresql').query).toBe('INSERT INTO "app"."users" DEFAULT VALUES;');
+        expect(generateInsertStatement('', 'users', {}, 'mariadb').query).toBe('INSERT INTO `users` () VALUES ();');
+    });
+
+    it('deletes by key and refuses to run without one', () => {
+        expect(generateDeleteStatement('app', 'users', { id: 7 }, 'postgresql')).toEqual({
+            query: 'DELETE FROM "app"."users" WHERE "id" = $1;',
+            params: [7],
+        });
+        expect(() => generateDeleteStatement('app', 'users', {}, 'postgresql')).toThrow('Cannot generate DELETE: Missing primary key');
+        expect(() => generateUpdateStatement('app', 'users', {}, { name: 'x' }, 'postgresql')).toThrow('Missing primary key or changes');
+    });
+});
+
+describe('findRowKey', () => {
+    const metadata = (extra: Partial<TableMetadata>): TableMetadata => ({
+        name: 'users',
+        schema: 'app',
+        columns: [
+            { name: 'id', dataType: 'integer', nullable: true },
+            { name: 'email', dataType: 'text', nullable: false },
+            { name: 'nick', dataType: 'text', nullable: true },
+        ],
+        primaryKeys: [],
+        indexes: [],
+        ...extra,
+    } as TableMetadata);
+
+    it('prefers the primary key', () => {
+        expect(findRowKey(metadata({ primaryKeys: ['id'] }))).toEqual(['id']);
+    });
+
+    it('falls back to a unique index over NOT NULL columns', () => {
+        expect(findRowKey(metadata({
+            indexes: [
+                { name: 'users_nick_key', columns: ['nick'], unique: true },
+                { name: 'users_email_key', columns: ['email'], unique: true },
+            ] as TableMetadata['indexes'],
+        }))).toEqual(['email']);
+    });
+
+    it('finds no key when only nullable columns are unique', () => {
+        expect(findRowKey(metadata({ indexes: [{ name: 'users_nick_key', columns: ['nick'], unique: true }] as TableMetadata['indexes'] }))).toEqual([]);
+    });
+});
+
+describe('extractSourceTable', () => {
+    it.each([
+        ['SELECT * FROM users WHERE id = 1', { table: 'users' }],
+        ['select id from app.users', { schema: 'app', table: 'users' }],
+        ['SELECT * FROM "My Schema"."Users" -- comment', { schema: 'My Schema', table: 'Users' }],
+        ['SELECT * FROM `shop`.`orders` LIMIT 5', { schema: 'shop', table: 'orders' }],
+        ['/* hint */ SELECT * FROM [dbo].[Orders]', { schema: 'dbo', table: 'Orders' }],
+    ])('reads the table of %s', (query, expected) => {
+        expect(extractSourceTable(query)).toEqual(expected);
+    });
+
+    it.each([
+        'SELECT * FROM a JOIN b ON a.id = b.a_id',
+        'SELECT * FROM a, b',
+        'SELECT DISTINCT name FROM users',
+        'SELECT name, count(*) FROM users GROUP BY name',
+        'SELECT id FROM a UNION SELECT id FROM b',
+        'UPDATE users SET name = 1',
+    ])('finds no single source table in %s', (query) => {
+        expect(extractSourceTable(query)).toBeNull();
+    });
+});
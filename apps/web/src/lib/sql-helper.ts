@@ -1,65 +1,111 @@
+import type { QueryParams, TableMetadata, Column, Index, ForeignKey } from '@bosdb/core';
+import { getDialectFromDbType } from '@/lib/sql-formatter';
 
 export function generateUpdateStatement(
     schema: string,
     table: string,
     primaryKey: { [key: string]: any },
     changes: { [key: string]: any },
-    _dbType: string
-): string {
+    dbType: string
+): { query: string; params: QueryParams } {
     const setClauses: string[] = [];
-    const values: any[] = [];
+    const params: unknown[] = [];
 
     // Safety check
     if (Object.keys(primaryKey).length === 0 || Object.keys(changes).length === 0) {
         throw new Error('Cannot generate UPDATE: Missing primary key or changes');
     }
 
-    // Build SET clause
+    // Build SET clause; values are bound by the adapter as $1, $2, ...
     for (const [col, val] of Object.entries(changes)) {
-        if (val === null) {
-            setClauses.push(`${col} = NULL`);
-        } else if (typeof val === 'string') {
-            // Simple escaping for MVP - in prod use parameterized queries
-            setClauses.push(`${col} = '${val.replace(/'/g, "''")}'`);
-        } else if (typeof val === 'number' || typeof val === 'boolean') {
-            setClauses.push(`${col} = ${val}`);
-        } else {
-            // Objects/Arrays/Dates
-            setClauses.push(`${col} = '${JSON.stringify(val).replace(/'/g, "''")}'`);
-        }
+        params.push(toParameter(val));
+        setClauses.push(`${quoteIdentifier(col, dbType)} = $${params.length}`);
     }
 
-    // Build WHERE clause
-    const whereClauses: string[] = [];
-    for (const [col, val] of Object.entries(primaryKey)) {
-        if (typeof val === 'string') {
-            whereClauses.push(`${col} = '${val.replace(/'/g, "''")}'`);
-        } else {
-            whereClauses.push(`${col} = ${val}`);
-        }
+    const setClause = setClauses.join(', ');
+    const whereClause = keyCondition(primaryKey, params, dbType);
+
+    return { query: `UPDATE ${qualifiedName(schema, table, dbType)} SET ${setClause} WHERE ${whereClause};`, params };
+}
+
+export function generateInsertStatement(
+    schema: string,
+    table: string,
+    values: { [key: string]: any },
+    dbType: string
+): { query: string; params: QueryParams } {
+    // Columns left undefined are omitted so the database fills in their defaults
+    const columns = Object.keys(values).filter(col => values[col] !== undefined);
+    const target = qualifiedName(schema, table, dbType);
+
+    if (columns.length === 0) {
+        return { query: isMySQLFamily(dbType) ? `INSERT INTO ${target} () VALUES ();` : `INSERT INTO ${target} DEFAULT VALUES;`, params: [] };
     }
 
-    const setClause = setClauses.join(', ');
-    const whereClause = whereClauses.join(' AND ');
+    const params = columns.map(col => toParameter(values[col]));
+    const columnList = columns.map(col => quoteIdentifier(col, dbType)).join(', ');
+    const valueList = columns.map((_, i) => `$${i + 1}`).join(', ');
+
+    return { query: `INSERT INTO ${target} (${columnList}) VALUES (${valueList});`, params };
+}
 
-    return `UPDATE ${schema}.${table} SET ${setClause} WHERE ${whereClause};`;
+export function generateDeleteStatement(
+    schema: string,
+    table: string,
+    primaryKey: { [key: string]: any },
+    dbType: string
+): { query: string; params: QueryParams } {
+    if (Object.keys(primaryKey).length === 0) {
+        throw new Error('Cannot generate DELETE: Missing primary key');
+    }
+
+    const params: unknown[] = [];
+    const whereClause = keyCondition(primaryKey, params, dbType);
+
+    return { query: `DELETE FROM ${qualifiedName(schema, table, dbType)} WHERE ${whereClause};`, params };
 }
 
-export function detectPrimaryKey(fields: { name: string, dataType: string }[]): string[] {
-    // Naive heuristic for MVP since we don't have direct metadata access in result set yet
+/**
+ * Columns that identify a row: the primary key, else a unique index over NOT NULL columns.
+ * Empty when the table has neither, in which case rows can't be edited safely.
+ */
+export function findRowKey(metadata: TableMetadata): string[] {
+    if (metadata.primaryKeys.length > 0) return metadata.primaryKeys;
+
+    const notNull = new Set(metadata.columns.filter(c => !c.nullable).map(c => c.name));
+    const unique = metadata.indexes.find(idx =>
+        idx.unique && idx.columns.length > 0 && idx.columns.every(col => notNull.has(col))
+    );
+    return unique ? unique.columns : [];
+}
 
-    // 1. Look for 'id', 'ID', 'Id'
-    const idField = fields.find(f => f.name.toLowerCase() === 'id');
-    if (idField) return [idField.name];
+export function quoteIdentifier(name: string, dbType: string): string {
+    return isMySQLFamily(dbType)
+        ? `\`${name.replace(/`/g, '``')}\``
+        : `"${name.replace(/"/g, '""')}"`;
+}
+
+function qualifiedName(schema: string, table: string, dbType: string): string {
+    return schema
+        ? `${quoteIdentifier(schema, dbType)}.${quoteIdentifier(table, dbType)}`
+        : quoteIdentifier(table, dbType);
+}
 
-    // 2. Look for 'table_id' style
-    const typeIdField = fields.find(f => f.name.toLowerCase().endsWith('_id'));
-    if (typeIdField) return [typeIdField.name];
+function keyCondition(primaryKey: { [key: string]: any }, params: unknown[], dbType: string): string {
+    return Object.entries(primaryKey).map(([col, val]) => {
+        if (val === null) return `${quoteIdentifier(col, dbType)} IS NULL`;
+        params.push(toParameter(val));
+        return `${quoteIdentifier(col, dbType)} = $${params.length}`;
+    }).join(' AND ');
+}
 
-    // 3. Fallback: First column is often PK
-    if (fields.length > 0) return [fields[0].name];
+// JSON columns arrive as objects; drivers expect their text form
+function toParameter(val: unknown): unknown {
+    return val !== null && typeof val === 'object' && !(val instanceof Date) ? JSON.stringify(val) : val;
+}
 
-    return [];
+function isMySQLFamily(dbType: string): boolean {
+    return ['mysql', 'mariadb', 'tidb', 'singlestore'].includes(dbType);
 }
 
 export function extractTableName(query: string): string | null {
@@ -74,17 +120,61 @@ export function extractTableName(query: string): string | null {
     return null;
 }
 
+/**
+ * The single table a SELECT reads from, or null when rows can't be traced back to one table
+ * (joins, set operations, grouping, DISTINCT)
+ */
+export function extractSourceTable(query: string): { schema?: string; table: string } | null {
+    const cleaned = query.replace(/\/\*[\s\S]*?\*\/|--.*$/gm, '').trim();
+    if (!/^SELECT\b/i.test(cleaned)) return null;
+    if (/\b(JOIN|UNION|INTERSECT|EXCEPT|GROUP\s+BY|DISTINCT)\b/i.test(cleaned)) return null;
+
+    const match = cleaned.match(/\bFROM\s+((?:"[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+)(?:\.(?:"[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+))?)(\s*,)?/i);
+    if (!match || match[2]) return null;
+
+    const parts = match[1].match(/"[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+/g)!.map(part => part.replace(/^["`[]|["`\]]$/g, ''));
+    return parts.length > 1 ? { schema: parts[0], table: parts[1] } : { table: parts[0] };
+}
+
 export interface ColumnDef {
     name: string;
     type: string; // e.g., 'VARCHAR', 'INTEGER', 'BOOLEAN'
     isPrimaryKey: boolean;
     isNullable: boolean;
     defaultValue?: string;
+    originalName?: string; // Name in the database, for columns of an existing table
+    attributes?: ColumnAttributes; // Read from the live column; not edited in the designer
+}
+
+/**
+ * MySQL column attributes the designer does not show. MODIFY COLUMN restates the whole column,
+ * so these are carried over from the live table or the statement would silently drop them.
+ */
+export interface ColumnAttributes {
+    unsigned?: boolean;
+    zerofill?: boolean;
+    autoIncrement?: boolean;
+    onUpdate?: string;     // e.g. CURRENT_TIMESTAMP
+    characterSet?: string;
+    collation?: string;
+    comment?: string;
+    generated?: boolean;   // Generated columns can't be restated without their expression
 }
 
 export interface TableDef {
     name: string;
     columns: ColumnDef[];
+    indexes?: Index[];
+    foreignKeys?: ForeignKey[];
+    primaryKeyName?: string;
+}
+
+/**
+ * One ALTER statement together with the statement that undoes it
+ */
+export interface AlterStep {
+    sql: string;
+    rollbackSQL: string;
 }
 
 export function generateCreateTableSQL(tableMetadata: any, schema: string = 'public', dbType: string = 'postgresql'): string {
@@ -118,14 +208,8 @@ export function generateCreateTableSQL(tableMetadata: any, schema: string = 'pub
             parts.push('NOT NULL');
         }
 
-        if (col.defaultValue !== undefined && col.defaultValue !== null) {
-            const isNumber = !isNaN(Number(col.defaultValue));
-            const isFunction = String(col.defaultValue).toUpperCase().endsWith('()');
-            if (isNumber || isFunction) {
-                parts.push(`DEFAULT ${col.defaultValue}`);
-            } else {
-                parts.push(`DEFAULT '${String(col.defaultValue).replace(/'/g, "''")}'`);
-            }
+        if (col.defaultValue !== undefined && col.defaultValue !== null && col.defaultValue !== '') {
+            parts.push(`DEFAULT ${formatDefault(col.defaultValue)}`);
         }
 
         return parts.join(' ');
@@ -161,6 +245,398 @@ export function generateCreateTableSQL(tableMetadata: any, schema: string = 'pub
     return sql;
 }
 
+/**
+ * Designer model of an existing table, as returned by describeTable()
+ */
+export function tableDefFromMetadata(metadata: TableMetadata): TableDef {
+    return {
+        name: metadata.name,
+        columns: metadata.columns.map(col => ({
+            name: col.name,
+            type: columnType(col),
+            isPrimaryKey: col.isPrimaryKey,
+            isNullable: col.nullable,
+            defaultValue: col.defaultValue ?? undefined,
+            originalName: col.name,
+            attributes: columnAttributes(col),
+        })),
+        indexes: metadata.indexes.filter(idx => !idx.primary),
+        foreignKeys: metadata.foreignKeys,
+        primaryKeyName: metadata.indexes.find(idx => idx.primary)?.name,
+    };
+}
+
+/**
+ * Statements that turn the original table into the edited one, in execution order.
+ * Columns are matched through originalName, indexes and foreign keys by name; a changed
+ * index or foreign key is dropped and created again.
+ */
+export function generateAlterTableSQL(original: TableDef, updated: TableDef, schema: string, dbType: string): AlterStep[] {
+    const dialect = ddlDialect(dbType);
+    const table = qualifiedName(schema, original.name, dbType);
+    const quote = (name: string) => quoteIdentifier(name, dbType);
+    const columnList = (names: string[]) => names.map(quote).join(', ');
+    const steps: AlterStep[] = [];
+
+    if (updated.columns.some(col => !col.name)) throw new Error('All columns must have a name');
+    const names = updated.columns.map(col => col.name.toLowerCase());
+    if (new Set(names).size !== names.length) throw new Error('Column names must be unique');
+
+    // Current name of each original column; dropped columns are absent
+    const renamed = new Map<string, string>();
+    for (const col of updated.columns) {
+        if (col.originalName) renamed.set(col.originalName, col.name);
+    }
+
+    // `attributes` come from the live column, so MySQL keeps what the designer does not edit
+    const columnDefinition = (col: ColumnDef, attributes: ColumnAttributes | undefined = col.attributes) => {
+        if (dialect !== 'mysql' || !attributes) {
+            const parts = [quote(col.name), col.type];
+            if (col.defaultValue) parts.push(`DEFAULT ${formatDefault(col.defaultValue)}`);
+            if (!col.isNullable) parts.push('NOT NULL');
+            return parts.join(' ');
+        }
+        return mysqlColumnDefinition(quote(col.name), col, attributes);
+    };
+
+    // ---- Indexes ----
+    const dropIndex = (idx: Index) => dialect === 'mysql' || dialect === 'mssql'
+        ? `DROP INDEX ${quote(idx.name)} ON ${table}`
+        : `DROP INDEX ${qualifiedName(schema, idx.name, dbType)}`;
+    const createIndex = (idx: Index, columns: string[]) =>
+        `CREATE ${idx.unique ? 'UNIQUE ' : ''}INDEX ${quote(idx.name)} ON ${table} (${columnList(columns)})`;
+
+    // ---- Foreign keys ----
+    const dropForeignKey = (fk: ForeignKey) => dialect === 'mysql'
+        ? `ALTER TABLE ${table} DROP FOREIGN KEY ${quote(fk.name)}`
+        : `ALTER TABLE ${table} DROP CONSTRAINT ${quote(fk.name)}`;
+    const addForeignKey = (fk: ForeignKey, columns: string[]) => {
+        let sql = `ALTER TABLE ${table} ADD CONSTRAINT ${quote(fk.name)} FOREIGN KEY (${columnList(columns)}) ` +
+            `REFERENCES ${qualifiedName(schema, fk.referencedTable, dbType)} (${columnList(fk.referencedColumns)})`;
+        if (fk.onDelete && fk.onDelete !== 'NO ACTION') sql += ` ON DELETE ${fk.onDelete}`;
+        // Oracle has no ON UPDATE clause
+        if (fk.onUpdate && fk.onUpdate !== 'NO ACTION' && dialect !== 'oracle') sql += ` ON UPDATE ${fk.onUpdate}`;
+        return sql;
+    };
+
+    // ---- Primary key ----
+    const primaryKeyName = original.primaryKeyName || updated.primaryKeyName || `${dialect === 'postgres' ? '' : 'PK_'}${original.name}${dialect === 'postgres' ? '_pkey' : ''}`;
+    const dropPrimaryKey = () => dialect === 'mysql'
+        ? `ALTER TABLE ${table} DROP PRIMARY KEY`
+        : `ALTER TABLE ${table} DROP CONSTRAINT ${quote(primaryKeyName)}`;
+    const addPrimaryKey = (columns: string[]) => dialect === 'mysql'
+        ? `ALTER TABLE ${table} ADD PRIMARY KEY (${columnList(columns)})`
+        : `ALTER TABLE ${table} ADD CONSTRAINT ${quote(primaryKeyName)} PRIMARY KEY (${columnList(columns)})`;
+
+    // SQL Server defaults are named constraints that must go before the column changes
+    const dropDefaultConstraint = (column: string) => {
+        const objectName = `${schema}.${original.name}`.replace(/'/g, "''");
+        return `DECLARE @df sysname; SELECT @df = name FROM sys.default_constraints WHERE parent_object_id = OBJECT_ID(N'${objectName}') ` +
+            `AND parent_column_id = COLUMNPROPERTY(OBJECT_ID(N'${objectName}'), N'${column.replace(/'/g, "''")}', 'ColumnId'); ` +
+            `IF @df IS NOT NULL EXEC(N'ALTER TABLE ${table.replace(/'/g, "''")} DROP CONSTRAINT ' + QUOTENAME(@df))`;
+    };
+    const addDefaultConstraint = (column: string, value: string) =>
+        `ALTER TABLE ${table} ADD CONSTRAINT ${quote(`DF_${original.name}_${column}`)} DEFAULT ${formatDefault(value)} FOR ${quote(column)}`;
+
+    // Map names of an original index or key onto renamed columns. Edited indexes and keys may
+    // still name a column by its old name, which is resolved the same way.
+    const currentNames = new Set(updated.columns.map(col => col.name));
+    const currentColumns = (columns: string[]) => columns.map(col => currentNames.has(col) ? col : renamed.get(col) ?? col);
+    const survives = (columns: string[]) => columns.every(col => renamed.has(col));
+
+    const originalIndexes = new Map((original.indexes || []).map(idx => [idx.name, idx]));
+    const updatedIndexes = new Map((updated.indexes || [])
+        .filter(idx => idx.name && idx.columns.length > 0)
+        .map(idx => [idx.name, { ...idx, columns: currentColumns(idx.columns) }]));
+    const originalKeys = new Map((original.foreignKeys || []).map(fk => [fk.name, fk]));
+    const updatedKeys = new Map((updated.foreignKeys || [])
+        .filter(fk => fk.name && fk.columns.length > 0)
+        .map(fk => [fk.name, { ...fk, columns: currentColumns(fk.columns) }]));
+
+    const sameIndex = (a: Index, b: Index) => a.unique === b.unique && sameList(currentColumns(a.columns), b.columns);
+    const sameForeignKey = (a: ForeignKey, b: ForeignKey) =>
+        sameList(currentColumns(a.columns), b.columns) &&
+        a.referencedTable === b.referencedTable &&
+        sameList(a.referencedColumns, b.referencedColumns) &&
+        (a.onDelete || 'NO ACTION') === (b.onDelete || 'NO ACTION') &&
+        (a.onUpdate || 'NO ACTION') === (b.onUpdate || 'NO ACTION');
+
+    const originalPrimaryKey = original.columns.filter(col => col.isPrimaryKey).map(col => col.originalName ?? col.name);
+    const updatedPrimaryKey = updated.columns.filter(col => col.isPrimaryKey).map(col => col.name);
+    const primaryKeyChanged = !sameList(currentColumns(originalPrimaryKey), updatedPrimaryKey) || !survives(originalPrimaryKey);
+
+    // 1. Drop foreign keys, indexes and the primary key that change or reference dropped columns
+    for (const [name, fk] of Array.from(originalKeys)) {
+        const next = updatedKeys.get(name);
+        if (!next || !survives(fk.columns) || !sameForeignKey(fk, next)) {
+            steps.push({ sql: dropForeignKey(fk), rollbackSQL: addForeignKey(fk, fk.columns) });
+        }
+    }
+    for (const [name, idx] of Array.from(originalIndexes)) {
+        const next = updatedIndexes.get(name);
+        if (!next || !survives(idx.columns) || !sameIndex(idx, next)) {
+            steps.push({ sql: dropIndex(idx), rollbackSQL: createIndex(idx, idx.columns) });
+        }
+    }
+    if (primaryKeyChanged && originalPrimaryKey.length > 0) {
+        steps.push({ sql: dropPrimaryKey(), rollbackSQL: addPrimaryKey(originalPrimaryKey) });
+    }
+
+    // 2. Drop columns (rolling back restores the column, not its data)
+    for (const col of original.columns) {
+        const name = col.originalName ?? col.name;
+        if (renamed.has(name)) continue;
+        if (dialect === 'mssql' && col.defaultValue) {
+            steps.push({ sql: dropDefaultConstraint(name), rollbackSQL: addDefaultConstraint(name, col.defaultValue) });
+        }
+        // On SQL Server the default comes back through the constraint step above
+        const restored = { ...col, name, defaultValue: dialect === 'mssql' ? undefined : col.defaultValue };
+        steps.push({
+            sql: `ALTER TABLE ${table} DROP COLUMN ${quote(name)}`,
+            rollbackSQL: dialect === 'oracle'
+                ? `ALTER TABLE ${table} ADD (${columnDefinition(restored)})`
+                : `ALTER TABLE ${table} ADD ${dialect === 'mssql' ? '' : 'COLUMN '}${columnDefinition(restored)}`,
+        });
+    }
+
+    // 3. Rename and modify the remaining columns
+    for (const col of updated.columns) {
+        if (!col.originalName) continue;
+        const before = original.columns.find(c => (c.originalName ?? c.name) === col.originalName);
+        if (!before) throw new Error(`Column ${col.originalName} no longer exists`);
+
+        if (col.name !== col.originalName) {
+            steps.push(dialect === 'mssql'
+                ? {
+                    sql: `EXEC sp_rename N'${`${schema}.${original.name}.${col.originalName}`.replace(/'/g, "''")}', N'${col.name.replace(/'/g, "''")}', 'COLUMN'`,
+                    rollbackSQL: `EXEC sp_rename N'${`${schema}.${original.name}.${col.name}`.replace(/'/g, "''")}', N'${col.originalName.replace(/'/g, "''")}', 'COLUMN'`,
+                }
+                : {
+                    sql: `ALTER TABLE ${table} RENAME COLUMN ${quote(col.originalName)} TO ${quote(col.name)}`,
+                    rollbackSQL: `ALTER TABLE ${table} RENAME COLUMN ${quote(col.name)} TO ${quote(col.originalName)}`,
+                });
+        }
+
+        const typeChanged = normalizeType(col.type) !== normalizeType(before.type);
+        const nullChanged = col.isNullable !== before.isNullable;
+        const defaultChanged = (col.defaultValue || '').trim() !== (before.defaultValue || '').trim();
+        if (!typeChanged && !nullChanged && !defaultChanged) continue;
+
+        const column = quote(col.name);
+        const previous = { ...before, name: col.name };
+
+        if (dialect === 'mysql') {
+            if (before.attributes?.generated) {
+                throw new Error(`Column ${col.originalName} is a generated column; change it with a manual ALTER TABLE`);
+            }
+            // MODIFY restates the whole column, including the attributes the designer does not show
+            steps.push({
+                sql: `ALTER TABLE ${table} MODIFY COLUMN ${columnDefinition(col, before.attributes)}`,
+                rollbackSQL: `ALTER TABLE ${table} MODIFY COLUMN ${columnDefinition(previous)}`,
+            });
+        } else if (dialect === 'oracle') {
+            const modify = (c: ColumnDef) => [
+                quote(c.name),
+                typeChanged && c.type,
+                defaultChanged && `DEFAULT ${c.defaultValue ? formatDefault(c.defaultValue) : 'NULL'}`,
+                nullChanged && (c.isNullable ? 'NULL' : 'NOT NULL'),
+            ].filter(Boolean).join(' ');
+            steps.push({
+                sql: `ALTER TABLE ${table} MODIFY (${modify(col)})`,
+                rollbackSQL: `ALTER TABLE ${table} MODIFY (${modify(previous)})`,
+            });
+        } else if (dialect === 'mssql') {
+            if (defaultChanged && before.defaultValue) {
+                steps.push({ sql: dropDefaultConstraint(col.name), rollbackSQL: addDefaultConstraint(col.name, before.defaultValue) });
+            }
+            if (typeChanged || nullChanged) {
+                steps.push({
+                    sql: `ALTER TABLE ${table} ALTER COLUMN ${column} ${col.type} ${col.isNullable ? 'NULL' : 'NOT NULL'}`,
+                    rollbackSQL: `ALTER TABLE ${table} ALTER COLUMN ${column} ${before.type} ${before.isNullable ? 'NULL' : 'NOT NULL'}`,
+                });
+            }
+            if (defaultChanged && col.defaultValue) {
+                steps.push({ sql: addDefaultConstraint(col.name, col.defaultValue), rollbackSQL: dropDefaultConstraint(col.name) });
+            }
+        } else {
+            if (typeChanged) {
+                steps.push({
+                    sql: `ALTER TABLE ${table} ALTER COLUMN ${column} TYPE ${col.type} USING ${column}::${col.type}`,
+                    rollbackSQL: `ALTER TABLE ${table} ALTER COLUMN ${column} TYPE ${before.type} USING ${column}::${before.type}`,
+                });
+            }
+            if (nullChanged) {
+                const set = `ALTER TABLE ${table} ALTER COLUMN ${column} SET NOT NULL`;
+                const drop = `ALTER TABLE ${table} ALTER COLUMN ${column} DROP NOT NULL`;
+                steps.push(col.isNullable ? { sql: drop, rollbackSQL: set } : { sql: set, rollbackSQL: drop });
+            }
+            if (defaultChanged) {
+                const restore = (value?: string) => value
+                    ? `ALTER TABLE ${table} ALTER COLUMN ${column} SET DEFAULT ${formatDefault(value)}`
+                    : `ALTER TABLE ${table} ALTER COLUMN ${column} DROP DEFAULT`;
+                steps.push({ sql: restore(col.defaultValue), rollbackSQL: restore(before.defaultValue) });
+            }
+        }
+    }
+
+    // 4. Add new columns
+    for (const col of updated.columns) {
+        if (col.originalName) continue;
+        const definition = columnDefinition(col);
+        steps.push({
+            sql: dialect === 'oracle'
+                ? `ALTER TABLE ${table} ADD (${definition})`
+                : `ALTER TABLE ${table} ADD ${dialect === 'mssql' ? '' : 'COLUMN '}${definition}`,
+            rollbackSQL: `ALTER TABLE ${table} DROP COLUMN ${quote(col.name)}`,
+        });
+        if (dialect === 'mssql' && col.defaultValue) {
+            // The default went in as an unnamed constraint; it has to go before the column
+            steps[steps.length - 1].rollbackSQL = `${dropDefaultConstraint(col.name)}; ${steps[steps.length - 1].rollbackSQL}`;
+        }
+    }
+
+    // 5. Recreate the primary key, indexes and foreign keys
+    if (primaryKeyChanged && updatedPrimaryKey.length > 0) {
+        steps.push({ sql: addPrimaryKey(updatedPrimaryKey), rollbackSQL: dropPrimaryKey() });
+    }
+    for (const [name, idx] of Array.from(updatedIndexes)) {
+        const before = originalIndexes.get(name);
+        if (!before || !survives(before.columns) || !sameIndex(before, idx)) {
+            steps.push({ sql: createIndex(idx, idx.columns), rollbackSQL: dropIndex(idx) });
+        }
+    }
+    for (const [name, fk] of Array.from(updatedKeys)) {
+        const before = originalKeys.get(name);
+        if (!before || !survives(before.columns) || !sameForeignKey(before, fk)) {
+            steps.push({ sql: addForeignKey(fk, fk.columns), rollbackSQL: dropForeignKey(fk) });
+        }
+    }
+
+    return steps;
+}
+
+/**
+ * CREATE TABLE for a designer model with its columns and primary key only; indexes and
+ * foreign keys are added afterwards with generateAlterTableSQL(). Rolling back drops the table.
+ */
+export function generateCreateTableStep(def: TableDef, schema: string, dbType: string): AlterStep {
+    if (!def.name) throw new Error('Table name is required');
+    if (def.columns.length === 0) throw new Error('At least one column is required');
+
+    const table = qualifiedName(schema, def.name, dbType);
+    const quote = (name: string) => quoteIdentifier(name, dbType);
+    const lines = def.columns.map(col => {
+        const parts = [quote(col.name), col.type];
+        if (col.defaultValue) parts.push(`DEFAULT ${formatDefault(col.defaultValue)}`);
+        if (!col.isNullable || col.isPrimaryKey) parts.push('NOT NULL');
+        return parts.join(' ');
+    });
+
+    const primaryKey = def.columns.filter(col => col.isPrimaryKey).map(col => quote(col.name));
+    if (primaryKey.length > 0) {
+        const constraint = def.primaryKeyName && ddlDialect(dbType) !== 'mysql' ? `CONSTRAINT ${quote(def.primaryKeyName)} ` : '';
+        lines.push(`${constraint}PRIMARY KEY (${primaryKey.join(', ')})`);
+    }
+
+    return {
+        sql: `CREATE TABLE ${table} (\n    ${lines.join(',\n    ')}\n)`,
+        rollbackSQL: `DROP TABLE ${table}`,
+    };
+}
+
+/**
+ * Script shown to the user, and the script that undoes it in reverse order
+ */
+export function formatAlterScript(steps: AlterStep[]): { sql: string; rollbackSQL: string } {
+    return {
+        sql: steps.map(step => `${step.sql};`).join('\n'),
+        rollbackSQL: [...steps].reverse().map(step => `${step.rollbackSQL};`).join('\n'),
+    };
+}
+
+// Literal defaults are quoted; numbers, keywords, function calls and expressions pass through
+function formatDefault(value: string): string {
+    const text = String(value).trim();
+    const isNumber = text !== '' && !isNaN(Number(text));
+    const isKeyword = /^(NULL|TRUE|FALSE|CURRENT_DATE|CURRENT_TIME|CURRENT_TIMESTAMP|LOCALTIMESTAMP|SYSDATE)$/i.test(text);
+    const isExpression = /^'[\s\S]*'(::[\w\s]+)?$/.test(text) || /^\([\s\S]*\)$/.test(text) || /^[\w.]+\([\s\S]*\)(::[\w\s]+)?$/.test(text);
+    return isNumber || isKeyword || isExpression ? text : `'${text.replace(/'/g, "''")}'`;
+}
+
+// Column definition for MySQL's ADD / MODIFY COLUMN. Attributes that don't fit the (possibly edited) type are left out.
+function mysqlColumnDefinition(name: string, col: ColumnDef, attributes: ColumnAttributes): string {
+    const numeric = /^\s*(tinyint|smallint|mediumint|int|integer|bigint|decimal|numeric|float|double|real)\b/i.test(col.type);
+    const integer = /^\s*(tinyint|smallint|mediumint|int|integer|bigint)\b/i.test(col.type);
+    const textual = /^\s*(char|varchar|tinytext|text|mediumtext|longtext|enum|set)\b/i.test(col.type);
+    const temporal = /^\s*(timestamp|datetime)\b/i.test(col.type);
+
+    const parts = [name, col.type];
+    if (numeric && attributes.unsigned && !/\bunsigned\b/i.test(col.type)) parts.push('UNSIGNED');
+    if (numeric && attributes.zerofill && !/\bzerofill\b/i.test(col.type)) parts.push('ZEROFILL');
+    if (textual && attributes.characterSet && !/\b(character set|charset)\b/i.test(col.type)) parts.push(`CHARACTER SET ${attributes.characterSet}`);
+    if (textual && attributes.collation && !/\bcollate\b/i.test(col.type)) parts.push(`COLLATE ${attributes.collation}`);
+    if (col.defaultValue) parts.push(`DEFAULT ${formatDefault(col.defaultValue)}`);
+    if (!col.isNullable) parts.push('NOT NULL');
+    if (temporal && attributes.onUpdate) parts.push(`ON UPDATE ${attributes.onUpdate}`);
+    if (integer && attributes.autoIncrement) parts.push('AUTO_INCREMENT');
+    if (attributes.comment) parts.push(`COMMENT '${attributes.comment.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`);
+    return parts.join(' ');
+}
+
+// Designer-hidden attributes of a described column; only MySQL reports them
+function columnAttributes(col: Column): ColumnAttributes | undefined {
+    if (!col.nativeType && !col.extra) return undefined;
+
+    const nativeType = col.nativeType || '';
+    const extra = col.extra || '';
+    const attributes: ColumnAttributes = {
+        unsigned: /\bunsigned\b/i.test(nativeType) || undefined,
+        zerofill: /\bzerofill\b/i.test(nativeType) || undefined,
+        autoIncrement: /\bauto_increment\b/i.test(extra) || undefined,
+        onUpdate: extra.match(/\bon update (\w+(?:\(\d*\))?)/i)?.[1],
+        characterSet: col.characterSet,
+        collation: col.collation,
+        comment: col.comment,
+        generated: /\b(virtual|stored) generated\b/i.test(extra) || undefined,
+    };
+    return Object.values(attributes).some(value => value !== undefined) ? attributes : undefined;
+}
+
+// Full type of a described column, e.g. varchar(255) or numeric(10,2)
+function columnType(col: Column): string {
+    if (col.dataType.includes('(')) return col.dataType;
+    if (col.maxLength && /^(character varying|varchar|character|char|nvarchar|nchar|varbinary|binary|bit varying|varchar2|nvarchar2|raw)$/i.test(col.dataType)) {
+        return `${col.dataType}(${col.maxLength === -1 ? 'MAX' : col.maxLength})`;
+    }
+    if (col.precision && /^(numeric|decimal|number)$/i.test(col.dataType)) {
+        return col.scale ? `${col.dataType}(${col.precision},${col.scale})` : `${col.dataType}(${col.precision})`;
+    }
+    return col.dataType;
+}
+
+// Type name compared case- and whitespace-insensitively
+export function normalizeType(type: string): string {
+    return type.replace(/\s+/g, ' ').replace(/\s*([(),])\s*/g, '$1').trim().toLowerCase();
+}
+
+function sameList(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+function ddlDialect(dbType: string): 'postgres' | 'mysql' | 'mssql' | 'oracle' {
+    switch (getDialectFromDbType(dbType)) {
+        case 'mysql':
+        case 'mariadb':
+            return 'mysql';
+        case 'transactsql':
+            return 'mssql';
+        case 'plsql':
+            return 'oracle';
+        default:
+            return 'postgres';
+    }
+}
+
 export function getCurrentStatement(sql: string, offset: number): string {
     if (!sql) return '';
 
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { SchemaCatalog, defaultSchemaFor, parseTableReferences } from '@/lib/sql-language';
+
+describe('parseTableReferences', () => {
+    const tables = (sql: string) => parseTableReferences(sql).map(({ schema, table, alias }) => ({ schema, table, alias }));
+
+    it('reads tables and aliases after FROM, JOIN, UPDATE and INTO', () => {
+        expect(tables('SELECT * FROM app.users u JOIN orders AS o ON o.user_id = u.id')).toEqual([
+            { schema: 'app', table: 'users', alias: 'u' },
+            { schema: undefined, table: 'orders', alias: 'o' },
+        ]);
+        expect(tables('UPDATE "Users" SET name = 1')).toEqual([{ schema: undefined, table: 'Users', alias: undefined }]);
+        expect(tables('INSERT INTO logs (msg) VALUES (1)')).toEqual([{ schema: undefined, table: 'logs', alias: undefined }]);
+    });
+
+    it('follows comma lists after FROM', () => {
+        expect(tables('SELECT * FROM a x, b, c WHERE 1 = 1').map((t) => `${t.table}:${t.alias ?? ''}`)).toEqual(['a:x', 'b:', 'c:']);
+    });
+
+    it('leaves out CTE names, table functions and names inside literals or comments', () => {
+        expect(tables(`WITH recent AS (SELECT * FROM events) SELECT * FROM recent, generate_series(1, 3) -- FROM ghost
+            WHERE note = 'FROM phantom'`)).toEqual([{ schema: undefined, table: 'events', alias: undefined }]);
+    });
+
+    it('gives the offsets of the table name', () => {
+        const sql = 'SELECT 1 FROM app.users';
+        const [reference] = parseTableReferences(sql);
+
+        expect(sql.slice(reference.start, reference.end)).toBe('users');
+    });
+});
+
+describe('defaultSchemaFor', () => {
+    it.each([
+        [{ type: 'postgres' }, 'public'],
+        [{ type: 'mysql', database: 'shop' }, 'shop'],
+        [{ type: 'mssql' }, 'dbo'],
+        [{ type: 'sqlite' }, 'main'],
+        [{ type: 'influxdb', database: 'metrics-bucket' }, 'metrics-bucket'],
+        [{ type: 'oracle' }, undefined],
+    ])('resolves unqualified names for %p to %p', (connection, schema) => {
+        expect(defaultSchemaFor(connection)).toBe(schema);
+    });
+});
+
+describe('SchemaCatalog', () => {
+    const responses: Record<string, any> = {
+        '/api/schema?connectionId=c1': { schemas: [{ name: 'public' }, { name: 'audit' }] },
+        '/api/tables?connectionId=c1&schema=public': { tables: [{ name: 'Users', type: 'table' }] },
+        '/api/tables?connectionId=c1&schema=audit': { tables: [{ name: 'log', type: 'table' }] },
+    };
+    const mockFetch = jest.fn(async (url: string) => ({
+        ok: url in responses,
+        json: async () => responses[url],
+    }));
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+        mockFetch.mockClear();
+        global.fetch = mockFetch as unknown as typeof fetch;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('fetches each list once and shares it', async () => {
+        const catalog = new SchemaCatalog('c1', 'postgres', () => ({}), 'public');
+
+        const [first, second] = await Promise.all([catalog.tables('public'), catalog.tables('PUBLIC')]);
+
+        expect(first).toEqual([{ name: 'Users', type: 'table' }]);
+        expect(second).toBe(first);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves unqualified names in the default schema, case-insensitively', async () => {
+        const catalog = new SchemaCatalog('c1', 'postgres', () => ({}), 'public');
+
+        expect(await catalog.resolveTable({ table: 'users' })).toEqual({ schema: 'public', table: { name: 'Users', type: 'table' } });
+        expect(await catalog.resolveTable({ schema: 'audit', table: 'LOG' })).toEqual({ schema: 'audit', table: { name: 'log', type: 'table' } });
+    });
+
+    it('only searches other schemas for unqualified names once they are loaded', async () => {
+        const catalog = new SchemaCatalog('c1', 'postgres', () => ({}), 'public');
+
+        expect(await catalog.resolveTable({ table: 'log' })).toBeNull();
+        await catalog.tables('audit');
+        expect(await catalog.resolveTable({ table: 'log' })).toMatchObject({ schema: 'audit' });
+    });
+
+    it('uses seeded lists and reloads after clear()', async () => {
+        const catalog = new SchemaCatalog('c1', 'postgres', () => ({}), 'public');
+        const listener = jest.fn();
+        catalog.onChange(listener);
+
+        catalog.seed([{ name: 'public' }], new Map([['public', [{ name: 'seeded', type: 'view' }]]]), new Map());
+        expect(await catalog.tables('public')).toEqual([{ name: 'seeded', type: 'view' }]);
+        expect(mockFetch).not.toHaveBeenCalled();
+
+        catalog.clear();
+        expect(await catalog.tables('public')).toEqual([{ name: 'Users', type: 'table' }]);
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('treats failed requests as unknown rather than empty', async () => {
+        const catalog = new SchemaCatalog('c1', 'postgres', () => ({}), 'public');
+
+        expect(await catalog.tables('missing')).toBeNull();
+        expect(await catalog.columns('public', 'Users')).toBeNull();
+    });
+});
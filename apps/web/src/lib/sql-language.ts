@@ -0,0 +1,716 @@
+/**
+ * Query Editor Language Support
+ * Schema-aware completions, hover cards and unknown-name diagnostics for Monaco, backed by the
+ * same /api/schema, /api/tables, /api/procedures and /api/schema/table routes as the sidebar.
+ * Metadata is fetched on demand and cached for the lifetime of a catalog.
+ */
+
+import type { Column } from '@bosdb/core';
+import { getDialectFromDbType } from '@/lib/sql-formatter';
+import type { SQLDialect } from '@/lib/sql-formatter';
+import { isFileDatabase } from '@/constants/database-types';
+
+export interface CatalogTable {
+    name: string;
+    type: string;
+}
+
+export interface CatalogProcedure {
+    name: string;
+    type?: string;
+}
+
+export interface TableReference {
+    schema?: string;
+    table: string;
+    alias?: string;
+    start: number; // Offset of the table name in the text
+    end: number;
+}
+
+// Monaco marker owner, so our markers can be replaced without touching others
+const MARKER_OWNER = 'bosdb-schema';
+
+// Databases whose editor holds JSON commands rather than SQL
+const JSON_COMMAND_TYPES = ['mongodb', 'mongo', 'ferretdb', 'documentdb', 'cosmosdb', 'redis'];
+
+/**
+ * Metadata of one connection, loaded lazily and shared by completions, hovers and diagnostics
+ */
+export class SchemaCatalog {
+    readonly dbType: string;
+    readonly dialect: SQLDialect;
+    readonly defaultSchema?: string;
+
+    private schemaList: Promise<string[]> | null = null;
+    private tableLists: Map<string, Promise<CatalogTable[] | null>> = new Map();
+    private procedureLists: Map<string, Promise<CatalogProcedure[] | null>> = new Map();
+    private columnLists: Map<string, Promise<Column[] | null>> = new Map();
+    private listeners: Set<() => void> = new Set();
+
+    constructor(
+        private connectionId: string,
+        dbType: string,
+        private getHeaders: () => HeadersInit,
+        defaultSchema?: string
+    ) {
+        this.dbType = dbType;
+        this.dialect = getDialectFromDbType(dbType);
+        this.defaultSchema = defaultSchema;
+    }
+
+    get isJsonCommands(): boolean {
+        return JSON_COMMAND_TYPES.includes(this.dbType);
+    }
+
+    /**
+     * Reuse what the sidebar already loaded instead of fetching it again
+     */
+    seed(schemas: { name: string }[], tables: Map<string, CatalogTable[]>, procedures: Map<string, CatalogProcedure[]>): void {
+        if (schemas.length > 0) this.schemaList = Promise.resolve(schemas.map(s => s.name));
+        tables.forEach((list, schema) => this.tableLists.set(key(schema), Promise.resolve(list)));
+        procedures.forEach((list, schema) => this.procedureLists.set(key(schema), Promise.resolve(list)));
+        this.notify();
+    }
+
+    clear(): void {
+        this.schemaList = null;
+        this.tableLists.clear();
+        this.procedureLists.clear();
+        this.columnLists.clear();
+        this.notify();
+    }
+
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    schemas(): Promise<string[]> {
+        if (!this.schemaList) {
+            this.schemaList = this.get(`/api/schema?connectionId=${this.connectionId}`)
+                .then(data => (data?.schemas || []).map((s: any) => s.name));
+        }
+        return this.schemaList;
+    }
+
+    tables(schema: string): Promise<CatalogTable[] | null> {
+        if (!this.tableLists.has(key(schema))) {
+            this.tableLists.set(key(schema), this.get(`/api/tables?connectionId=${this.connectionId}&schema=${encodeURIComponent(schema)}`)
+                .then(data => data?.tables || null));
+        }
+        return this.tableLists.get(key(schema))!;
+    }
+
+    procedures(schema: string): Promise<CatalogProcedure[] | null> {
+        if (!this.procedureLists.has(key(schema))) {
+            this.procedureLists.set(key(schema), this.get(`/api/procedures?connectionId=${this.connectionId}&schema=${encodeURIComponent(schema)}`)
+                .then(data => data?.procedures || null));
+        }
+        return this.procedureLists.get(key(schema))!;
+    }
+
+    columns(schema: string, table: string): Promise<Column[] | null> {
+        const cacheKey = `${key(schema)}.${key(table)}`;
+        if (!this.columnLists.has(cacheKey)) {
+            this.columnLists.set(cacheKey, this.get(
+                `/api/schema/table?connectionId=${this.connectionId}&schema=${encodeURIComponent(schema)}&table=${encodeURIComponent(table)}`
+            ).then(data => data?.tableMetadata?.columns?.length ? data.tableMetadata.columns : null));
+        }
+        return this.columnLists.get(cacheKey)!;
+    }
+
+    /**
+     * Find the schema and exact name of a table; unqualified names try the default schema first
+     */
+    async resolveTable(reference: { schema?: string; table: string }): Promise<{ schema: string; table: CatalogTable } | null> {
+        const candidates = reference.schema
+            ? [reference.schema]
+            : unique([this.defaultSchema, ...(await this.schemas())].filter((s): s is string => !!s));
+
+        for (const schema of candidates) {
+            // Only look through schemas that are already loaded, apart from the ones named explicitly
+            if (!reference.schema && schema !== this.defaultSchema && !this.tableLists.has(key(schema))) continue;
+            const table = (await this.tables(schema))?.find(t => key(t.name) === key(reference.table));
+            if (table) return { schema, table };
+        }
+        return null;
+    }
+
+    private async get(url: string): Promise<any> {
+        try {
+            const res = await fetch(url, { headers: this.getHeaders() });
+            return res.ok ? await res.json() : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+/**
+ * Schema that unqualified names resolve to, as far as the client can tell
+ */
+export function defaultSchemaFor(connection: { type: string; database?: string }): string | undefined {
+    if (isFileDatabase(connection.type)) {
+        return 'main';
+    }
+    if (connection.type === 'influxdb') {
+        return connection.database; // The bucket
+    }
+    if (connection.type === 'prometheus') {
+        return 'metrics';
+    }
+    switch (getDialectFromDbType(connection.type)) {
+        case 'postgresql':
+            return 'public';
+        case 'mysql':
+        case 'mariadb':
+            return connection.database;
+        case 'transactsql':
+            return 'dbo';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Register completion and hover providers plus diagnostics for one editor.
+ * Returns a disposable that removes all of them.
+ */
+export function registerSqlLanguageSupport(monaco: any, editor: any, catalog: SchemaCatalog): { dispose(): void } {
+    const { CompletionItemKind, MarkerSeverity } = monaco.languages;
+
+    const completion = monaco.languages.registerCompletionItemProvider('sql', {
+        triggerCharacters: ['.'],
+        provideCompletionItems: async (model: any, position: any) => {
+            if (model !== editor.getModel()) return { suggestions: [] };
+
+            const word = model.getWordUntilPosition(position);
+            const range = {
+                startLineNumber: position.lineNumber,
+                endLineNumber: position.lineNumber,
+                startColumn: word.startColumn,
+                endColumn: word.endColumn,
+            };
+            const text = model.getValue();
+            const before = text.slice(0, model.getOffsetAt(position));
+
+            if (catalog.isJsonCommands) {
+                return { suggestions: await jsonCommandSuggestions(catalog, before, range, monaco) };
+            }
+
+            const references = parseTableReferences(text);
+            const suggestions: any[] = [];
+
+            const columnItem = (column: Column, table: string, sortText: string) => ({
+                label: column.name,
+                kind: CompletionItemKind.Field,
+                detail: `${column.dataType}${column.nullable ? '' : ' NOT NULL'} · ${table}`,
+                documentation: column.comment,
+                insertText: quoteIfNeeded(column.name),
+                sortText,
+                range,
+            });
+            const tableItem = (table: CatalogTable, schema: string) => ({
+                label: table.name,
+                kind: CompletionItemKind.Class,
+                detail: `${table.type || 'table'} · ${schema}`,
+                insertText: quoteIfNeeded(table.name),
+                sortText: '1',
+                range,
+            });
+            const procedureItem = (procedure: CatalogProcedure, schema: string) => ({
+                label: procedure.name,
+                kind: CompletionItemKind.Method,
+                detail: `${(procedure.type || 'procedure').toLowerCase()} · ${schema}`,
+                insertText: `${quoteIfNeeded(procedure.name)}($0)`,
+                insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+                sortText: '2',
+                range,
+            });
+
+            // qualifier. -> columns of an alias or table, or the objects of a schema
+            const qualified = /("[^"]+"|`[^`]+`|[\w$]+)\.[\w$]*$/.exec(before);
+            if (qualified) {
+                const qualifier = unquote(qualified[1]);
+                const reference = references.find(r => key(r.alias || '') === key(qualifier))
+                    || references.find(r => !r.alias && key(r.table) === key(qualifier));
+
+                if (reference) {
+                    const resolved = await catalog.resolveTable(reference);
+                    const columns = resolved ? await catalog.columns(resolved.schema, resolved.table.name) : null;
+                    return { suggestions: (columns || []).map(c => columnItem(c, resolved!.table.name, '0')) };
+                }
+
+                const schema = (await catalog.schemas()).find(s => key(s) === key(qualifier));
+                if (schema) {
+                    const [tables, procedures] = await Promise.all([catalog.tables(schema), catalog.procedures(schema)]);
+                    return {
+                        suggestions: [
+                            ...(tables || []).map(t => tableItem(t, schema)),
+                            ...(procedures || []).map(p => procedureItem(p, schema)),
+                        ],
+                    };
+                }
+                return { suggestions: [] };
+            }
+
+            const schemas = await catalog.schemas();
+            const schemaItems = schemas.map(s => ({
+                label: s,
+                kind: CompletionItemKind.Module,
+                detail: 'schema',
+                insertText: quoteIfNeeded(s),
+                sortText: '3',
+                range,
+            }));
+            const defaultTables = catalog.defaultSchema ? (await catalog.tables(catalog.defaultSchema)) || [] : [];
+
+            // After FROM / JOIN / INTO / UPDATE only tables and schemas make sense
+            if (/\b(FROM|JOIN|INTO|UPDATE|TABLE)\s+[\w$]*$/i.test(before)) {
+                return { suggestions: [...defaultTables.map(t => tableItem(t, catalog.defaultSchema!)), ...schemaItems] };
+            }
+
+            if (/\b(CALL|EXEC|EXECUTE)\s+[\w$]*$/i.test(before)) {
+                const procedures = catalog.defaultSchema ? (await catalog.procedures(catalog.defaultSchema)) || [] : [];
+                return { suggestions: [...procedures.map(p => procedureItem(p, catalog.defaultSchema!)), ...schemaItems] };
+            }
+
+            // Columns of the tables in this query rank first
+            for (const reference of references) {
+                const resolved = await catalog.resolveTable(reference);
+                const columns = resolved ? await catalog.columns(resolved.schema, resolved.table.name) : null;
+                columns?.forEach(c => suggestions.push(columnItem(c, reference.alias || resolved!.table.name, '0')));
+            }
+
+            suggestions.push(
+                ...defaultTables.map(t => tableItem(t, catalog.defaultSchema!)),
+                ...schemaItems,
+                ...dialectFunctions(catalog.dialect).map(fn => ({
+                    label: fn,
+                    kind: CompletionItemKind.Function,
+                    detail: `${catalog.dialect} function`,
+                    insertText: `${fn}($0)`,
+                    insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+                    sortText: '4',
+                    range,
+                })),
+                ...dialectKeywords(catalog.dialect).map(k => ({
+                    label: k,
+                    kind: CompletionItemKind.Keyword,
+                    insertText: k,
+                    sortText: '5',
+                    range,
+                }))
+            );
+
+            return { suggestions };
+        },
+    });
+
+    const hover = monaco.languages.registerHoverProvider('sql', {
+        provideHover: async (model: any, position: any) => {
+            if (model !== editor.getModel() || catalog.isJsonCommands) return null;
+
+            const word = model.getWordAtPosition(position);
+            if (!word) return null;
+
+            const text = model.getValue();
+            const lineStart = model.getOffsetAt({ lineNumber: position.lineNumber, column: 1 });
+            const before = text.slice(lineStart, lineStart + word.startColumn - 1);
+            const qualifier = /("[^"]+"|`[^`]+`|[\w$]+)\.$/.exec(before)?.[1];
+            const name = word.word;
+            const range = new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn);
+            const references = parseTableReferences(text);
+
+            // Column of an aliased/qualified table, or of any table in the query
+            const candidates = qualifier
+                ? references.filter(r => key(r.alias || r.table) === key(unquote(qualifier)))
+                : references;
+            for (const reference of candidates) {
+                const resolved = await catalog.resolveTable(reference);
+                const column = resolved
+                    ? (await catalog.columns(resolved.schema, resolved.table.name))?.find(c => key(c.name) === key(name))
+                    : undefined;
+                if (column) {
+                    const flags = [
+                        column.isPrimaryKey && 'primary key',
+                        column.isForeignKey && 'foreign key',
+                        column.nullable ? 'nullable' : 'NOT NULL',
+                        column.defaultValue && `default ${column.defaultValue}`,
+                    ].filter(Boolean).join(' · ');
+                    return {
+                        range,
+                        contents: [
+                            { value: `**${column.name}** \`${column.dataType}\`` },
+                            { value: `${resolved!.schema}.${resolved!.table.name} · ${flags}` },
+                            ...(column.comment ? [{ value: column.comment }] : []),
+                        ],
+                    };
+                }
+            }
+
+            const table = await catalog.resolveTable({ schema: qualifier ? unquote(qualifier) : undefined, table: name });
+            if (table) {
+                const columns = await catalog.columns(table.schema, table.table.name);
+                const listed = (columns || []).slice(0, 15).map(c => `- ${c.name} \`${c.dataType}\``).join('\n');
+                return {
+                    range,
+                    contents: [
+                        { value: `**${table.schema}.${table.table.name}** (${table.table.type || 'table'})` },
+                        ...(listed ? [{ value: listed + ((columns?.length || 0) > 15 ? `\n- … ${columns!.length - 15} more` : '') }] : []),
+                    ],
+                };
+            }
+            return null;
+        },
+    });
+
+    // Diagnostics: re-check after typing pauses and whenever more metadata arrives
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let run = 0;
+    const validate = () => {
+        clearTimeout(timer);
+        timer = setTimeout(async () => {
+            const model = editor.getModel();
+            if (!model) return;
+
+            const current = ++run;
+            const text = model.getValue();
+            const problems = catalog.isJsonCommands ? jsonProblems(text) : await findUnknownNames(text, catalog);
+            if (current !== run || model.isDisposed()) return;
+
+            monaco.editor.setModelMarkers(model, MARKER_OWNER, problems.map(problem => {
+                const start = model.getPositionAt(problem.start);
+                const end = model.getPositionAt(problem.end);
+                return {
+                    severity: MarkerSeverity.Warning,
+                    message: problem.message,
+                    startLineNumber: start.lineNumber,
+                    startColumn: start.column,
+                    endLineNumber: end.lineNumber,
+                    endColumn: end.column,
+                };
+            }));
+        }, 500);
+    };
+
+    const contentListener = editor.onDidChangeModelContent(validate);
+    const unsubscribe = catalog.onChange(validate);
+    validate();
+
+    return {
+        dispose: () => {
+            clearTimeout(timer);
+            run++;
+            completion.dispose();
+            hover.dispose();
+            contentListener.dispose();
+            unsubscribe();
+            const model = editor.getModel();
+            if (model) monaco.editor.setModelMarkers(model, MARKER_OWNER, []);
+        },
+    };
+}
+
+// ============ Parsing ============
+
+const NOT_AN_ALIAS = new Set([
+    'WHERE', 'ON', 'USING', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER', 'NATURAL', 'SET',
+    'VALUES', 'ORDER', 'GROUP', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'EXCEPT', 'INTERSECT', 'WINDOW',
+    'RETURNING', 'SELECT', 'DEFAULT', 'FETCH', 'FOR', 'WITH', 'AS', 'LATERAL', 'OUTPUT', 'TABLESAMPLE',
+]);
+
+const IDENTIFIER = '(?:"[^"]+"|`[^`]+`|\\[[^\\]]+\\]|[A-Za-z_][\\w$]*)';
+
+/**
+ * Tables named after FROM, JOIN, UPDATE and INTO (including comma lists), with their aliases.
+ * CTE names and table functions are left out.
+ */
+export function parseTableReferences(sql: string): TableReference[] {
+    const text = maskLiterals(sql);
+    const cteNames = new Set(
+        Array.from(text.matchAll(new RegExp(`(?:\\bWITH(?:\\s+RECURSIVE)?|,)\\s*(${IDENTIFIER})(?:\\s*\\([^)]*\\))?\\s+AS\\s*\\(`, 'gi')))
+            .map(m => key(unquote(m[1])))
+    );
+
+    const references: TableReference[] = [];
+    const item = new RegExp(`(${IDENTIFIER})(?:\\.(${IDENTIFIER}))?(?:\\s+(?:AS\\s+)?(${IDENTIFIER}))?`, 'iy');
+    const head = /\b(FROM|JOIN|UPDATE|INTO)\s+/gi;
+
+    for (const match of Array.from(text.matchAll(head))) {
+        let position = match.index! + match[0].length;
+
+        // Comma lists only continue after FROM
+        while (position < text.length) {
+            item.lastIndex = position;
+            const found = item.exec(text);
+            if (!found) break;
+
+            const [whole, first, second] = found;
+            let alias: string | undefined = found[3];
+            if (alias && NOT_AN_ALIAS.has(alias.toUpperCase())) alias = undefined;
+
+            const table = unquote(second || first);
+            const afterName = found.index + first.length + (second ? second.length + 1 : 0);
+            // INTO t (a, b) is a column list; elsewhere a parenthesis means a table function
+            const isFunction = match[1].toUpperCase() !== 'INTO' && /^\s*\(/.test(text.slice(afterName));
+
+            if (!isFunction && !cteNames.has(key(table)) && !NOT_AN_ALIAS.has(table.toUpperCase())) {
+                const start = second ? found.index + first.length + 1 : found.index;
+                references.push({
+                    schema: second ? unquote(first) : undefined,
+                    table,
+                    alias: alias ? unquote(alias) : undefined,
+                    start,
+                    end: start + (second || first).length,
+                });
+            }
+
+            const consumed = alias ? whole : whole.slice(0, afterName - found.index);
+            const rest = /^\s*,\s*/.exec(text.slice(found.index + consumed.length));
+            if (match[1].toUpperCase() !== 'FROM' || !rest) break;
+            position = found.index + consumed.length + rest[0].length;
+        }
+    }
+
+    return references;
+}
+
+interface Problem {
+    start: number;
+    end: number;
+    message: string;
+}
+
+/**
+ * Unknown tables (only where the schema's table list is available) and unknown
+ * qualified columns such as u.emial (only where the table's columns are available)
+ */
+async function findUnknownNames(sql: string, catalog: SchemaCatalog): Promise<Problem[]> {
+    const problems: Problem[] = [];
+    const references = parseTableReferences(sql);
+    const schemas = await catalog.schemas();
+    const resolvedByAlias = new Map<string, { schema: string; table: string }>();
+
+    for (const reference of references) {
+        if (reference.schema && schemas.length > 0 && !schemas.some(s => key(s) === key(reference.schema!))) {
+            problems.push({ start: reference.start, end: reference.end, message: `Unknown schema ${reference.schema}` });
+            continue;
+        }
+
+        const schema = reference.schema || catalog.defaultSchema;
+        if (!schema) continue;
+
+        const resolved = await catalog.resolveTable(reference);
+        if (resolved) {
+            resolvedByAlias.set(key(reference.alias || reference.table), { schema: resolved.schema, table: resolved.table.name });
+        } else if (await catalog.tables(schema)) {
+            problems.push({ start: reference.start, end: reference.end, message: `Unknown table ${schema}.${reference.table}` });
+        }
+    }
+
+    const text = maskLiterals(sql);
+    const qualifiedColumn = new RegExp(`(${IDENTIFIER})\\.(${IDENTIFIER})(?!\\s*\\.|\\s*\\()`, 'g');
+    for (const match of Array.from(text.matchAll(qualifiedColumn))) {
+        const owner = resolvedByAlias.get(key(unquote(match[1])));
+        if (!owner || match[2] === '*') continue;
+
+        // schema.table in a FROM clause is a table reference, not a column
+        const start = match.index! + match[1].length + 1;
+        if (references.some(r => r.start === start)) continue;
+
+        const columns = await catalog.columns(owner.schema, owner.table);
+        const column = unquote(match[2]);
+        if (columns && !columns.some(c => key(c.name) === key(column))) {
+            problems.push({ start, end: start + match[2].length, message: `Unknown column ${column} in ${owner.schema}.${owner.table}` });
+        }
+    }
+
+    return problems;
+}
+
+function jsonProblems(text: string): Problem[] {
+    // MongoDB shell commands are parsed by the adapter, which reports errors with their position
+    if (!text.trim() || /^\s*db\s*[.[]/.test(text)) return [];
+    try {
+        JSON.parse(text);
+        return [];
+    } catch (error: any) {
+        const at = Number(/position (\d+)/.exec(error.message)?.[1] ?? 0);
+        return [{ start: at, end: Math.min(at + 1, text.length), message: `Invalid JSON command: ${error.message}` }];
+    }
+}
+
+/**
+ * Blank out string literals and comments, keeping offsets, so names inside them are ignored
+ */
+function maskLiterals(sql: string): string {
+    return sql.replace(/'(?:[^']|'')*'|--[^\n]*|\/\*[\s\S]*?\*\//g, m => m.replace(/[^\n]/g, ' '));
+}
+
+function unquote(name: string): string {
+    return /^(["`[]).*["`\]]$/.test(name) ? name.slice(1, -1) : name;
+}
+
+function quoteIfNeeded(name: string): string {
+    return /^[a-z_][a-z0-9_$]*$/i.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+function key(name: string): string {
+    return name.toLowerCase();
+}
+
+function unique<T>(values: T[]): T[] {
+    return Array.from(new Set(values));
+}
+
+// ============ Dialects ============
+
+const BASE_KEYWORDS = [
+    'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN', 'EXISTS', 'AS',
+    'JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'INNER JOIN', 'FULL JOIN', 'CROSS JOIN', 'ON', 'USING',
+    'GROUP BY', 'HAVING', 'ORDER BY', 'ASC', 'DESC', 'DISTINCT', 'UNION', 'UNION ALL', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
+    'INSERT INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE FROM', 'CREATE TABLE', 'ALTER TABLE', 'DROP TABLE', 'TRUNCATE',
+    'CREATE INDEX', 'CREATE VIEW', 'PRIMARY KEY', 'FOREIGN KEY', 'REFERENCES', 'DEFAULT', 'WITH',
+];
+
+const DIALECT_KEYWORDS: Partial<Record<SQLDialect, string[]>> = {
+    postgresql: ['LIMIT', 'OFFSET', 'ILIKE', 'RETURNING', 'ON CONFLICT', 'DO NOTHING', 'LATERAL', 'MATERIALIZED VIEW', 'EXPLAIN ANALYZE'],
+    mysql: ['LIMIT', 'OFFSET', 'ON DUPLICATE KEY UPDATE', 'AUTO_INCREMENT', 'ENGINE', 'SHOW TABLES', 'DESCRIBE'],
+    mariadb: ['LIMIT', 'OFFSET', 'ON DUPLICATE KEY UPDATE', 'AUTO_INCREMENT', 'RETURNING', 'SHOW TABLES'],
+    sqlite: ['LIMIT', 'OFFSET', 'AUTOINCREMENT', 'PRAGMA', 'RETURNING', 'WITHOUT ROWID'],
+    transactsql: ['TOP', 'OFFSET', 'FETCH NEXT', 'ROWS ONLY', 'OUTPUT', 'MERGE', 'IDENTITY', 'EXEC', 'GO'],
+    plsql: ['FETCH FIRST', 'ROWS ONLY', 'ROWNUM', 'MERGE INTO', 'DUAL', 'SEQUENCE', 'BEGIN', 'DECLARE'],
+    trino: ['LIMIT', 'OFFSET', 'UNNEST', 'TABLESAMPLE', 'SHOW CATALOGS'],
+};
+
+const BASE_FUNCTIONS = [
+    'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'COALESCE', 'NULLIF', 'CAST', 'UPPER', 'LOWER', 'TRIM',
+    'LENGTH', 'SUBSTRING', 'REPLACE', 'ROUND', 'ABS', 'CURRENT_DATE', 'CURRENT_TIMESTAMP', 'ROW_NUMBER', 'RANK',
+];
+
+const DIALECT_FUNCTIONS: Partial<Record<SQLDialect, string[]>> = {
+    postgresql: ['NOW', 'DATE_TRUNC', 'EXTRACT', 'AGE', 'TO_CHAR', 'TO_DATE', 'STRING_AGG', 'ARRAY_AGG', 'JSONB_BUILD_OBJECT', 'JSONB_AGG', 'GENERATE_SERIES', 'REGEXP_REPLACE', 'GEN_RANDOM_UUID'],
+    mysql: ['NOW', 'CURDATE', 'DATE_FORMAT', 'DATE_ADD', 'DATEDIFF', 'STR_TO_DATE', 'IFNULL', 'CONCAT', 'CONCAT_WS', 'GROUP_CONCAT', 'JSON_EXTRACT', 'JSON_OBJECT', 'LAST_INSERT_ID', 'UUID'],
+    mariadb: ['NOW', 'CURDATE', 'DATE_FORMAT', 'DATE_ADD', 'DATEDIFF', 'IFNULL', 'CONCAT', 'GROUP_CONCAT', 'JSON_EXTRACT', 'LAST_INSERT_ID', 'UUID'],
+    sqlite: ['DATETIME', 'DATE', 'STRFTIME', 'JULIANDAY', 'IFNULL', 'GROUP_CONCAT', 'JSON_EXTRACT', 'PRINTF', 'RANDOM'],
+    transactsql: ['GETDATE', 'SYSDATETIME', 'DATEADD', 'DATEDIFF', 'DATEPART', 'FORMAT', 'CONVERT', 'ISNULL', 'STRING_AGG', 'NEWID', 'SCOPE_IDENTITY', 'LEN', 'CHARINDEX'],
+    plsql: ['SYSDATE', 'SYSTIMESTAMP', 'TO_CHAR', 'TO_DATE', 'TO_NUMBER', 'NVL', 'NVL2', 'DECODE', 'LISTAGG', 'ADD_MONTHS', 'TRUNC', 'INSTR', 'SUBSTR'],
+    trino: ['NOW', 'DATE_TRUNC', 'DATE_ADD', 'DATE_DIFF', 'FORMAT_DATETIME', 'ARRAY_AGG', 'APPROX_DISTINCT', 'JSON_EXTRACT_SCALAR', 'REGEXP_LIKE'],
+};
+
+function dialectKeywords(dialect: SQLDialect): string[] {
+    return unique([...BASE_KEYWORDS, ...(DIALECT_KEYWORDS[dialect] || ['LIMIT', 'OFFSET'])]);
+}
+
+function dialectFunctions(dialect: SQLDialect): string[] {
+    return unique([...BASE_FUNCTIONS, ...(DIALECT_FUNCTIONS[dialect] || [])]);
+}
+
+// ============ JSON Commands ============
+
+interface CommandShape {
+    label: string;
+    detail: string;
+    snippet: string;
+}
+
+// Shapes accepted by the MongoDB and Redis adapters' executeQuery
+const MONGO_COMMANDS: CommandShape[] = [
+    { label: 'find', detail: 'Find documents', snippet: '{\n  "find": "${1:collection}",\n  "filter": { $2 },\n  "limit": ${3:100}\n}' },
+    { label: 'aggregate', detail: 'Aggregation pipeline', snippet: '{\n  "aggregate": "${1:collection}",\n  "pipeline": [\n    { "\\$match": { $2 } }\n  ]\n}' },
+    { label: 'insert', detail: 'Insert documents', snippet: '{\n  "insert": "${1:collection}",\n  "documents": [{ $2 }]\n}' },
+    { label: 'update', detail: 'Update documents', snippet: '{\n  "update": "${1:collection}",\n  "updates": [{ "q": { $2 }, "u": { "\\$set": { $3 } } }]\n}' },
+    { label: 'delete', detail: 'Delete documents', snippet: '{\n  "delete": "${1:collection}",\n  "deletes": [{ "q": { $2 }, "limit": ${3:1} }]\n}' },
+    { label: 'drop', detail: 'Drop collection', snippet: '{ "drop": "${1:collection}" }' },
+];
+
+// mongosh collection methods, offered after db.<collection>.
+const MONGO_SHELL_METHODS: CommandShape[] = [
+    { label: 'find', detail: 'Find documents', snippet: 'find({ $1 })' },
+    { label: 'findOne', detail: 'Find one document', snippet: 'findOne({ $1 })' },
+    { label: 'aggregate', detail: 'Aggregation pipeline', snippet: 'aggregate([\n  { \\$match: { $1 } }\n])' },
+    { label: 'countDocuments', detail: 'Count matching documents', snippet: 'countDocuments({ $1 })' },
+    { label: 'distinct', detail: 'Distinct values of a field', snippet: 'distinct("${1:field}", { $2 })' },
+    { label: 'insertOne', detail: 'Insert a document', snippet: 'insertOne({ $1 })' },
+    { label: 'insertMany', detail: 'Insert documents', snippet: 'insertMany([\n  { $1 }\n])' },
+    { label: 'updateOne', detail: 'Update the first match', snippet: 'updateOne({ $1 }, { \\$set: { $2 } })' },
+    { label: 'updateMany', detail: 'Update every match', snippet: 'updateMany({ $1 }, { \\$set: { $2 } })' },
+    { label: 'replaceOne', detail: 'Replace the first match', snippet: 'replaceOne({ $1 }, { $2 })' },
+    { label: 'deleteOne', detail: 'Delete the first match', snippet: 'deleteOne({ $1 })' },
+    { label: 'deleteMany', detail: 'Delete every match', snippet: 'deleteMany({ $1 })' },
+    { label: 'createIndex', detail: 'Create an index', snippet: 'createIndex({ ${1:field}: 1 })' },
+    { label: 'dropIndex', detail: 'Drop an index', snippet: 'dropIndex("${1:name}")' },
+    { label: 'getIndexes', detail: 'List indexes', snippet: 'getIndexes()' },
+    { label: 'drop', detail: 'Drop collection', snippet: 'drop()' },
+];
+
+// Methods chained on find()
+const MONGO_CURSOR_METHODS: CommandShape[] = [
+    { label: 'sort', detail: 'Sort order', snippet: 'sort({ ${1:field}: ${2:-1} })' },
+    { label: 'limit', detail: 'Maximum documents', snippet: 'limit(${1:10})' },
+    { label: 'skip', detail: 'Documents to skip', snippet: 'skip(${1:0})' },
+    { label: 'projection', detail: 'Fields to return', snippet: 'projection({ ${1:field}: 1 })' },
+];
+
+const REDIS_COMMANDS = ['GET', 'SET', 'DEL', 'EXISTS', 'EXPIRE', 'TTL', 'KEYS', 'SCAN', 'TYPE', 'HGETALL', 'HGET', 'HSET', 'LRANGE', 'LPUSH', 'SMEMBERS', 'SADD', 'ZRANGE', 'ZADD', 'INCR', 'INFO'];
+
+async function jsonCommandSuggestions(catalog: SchemaCatalog, before: string, range: any, monaco: any): Promise<any[]> {
+    const { CompletionItemKind, CompletionItemInsertTextRule } = monaco.languages;
+    const isRedis = catalog.dbType === 'redis';
+
+    // Inside a string value after a collection-taking key: offer collection names
+    if (!isRedis && /"(find|aggregate|insert|update|delete|drop)"\s*:\s*"[^"]*$/.test(before)) {
+        const schema = catalog.defaultSchema || (await catalog.schemas())[0];
+        const collections = schema ? (await catalog.tables(schema)) || [] : [];
+        return collections.map(c => ({ label: c.name, kind: CompletionItemKind.Class, detail: 'collection', insertText: c.name, range }));
+    }
+
+    // Shell commands: db.<collection>.<method>(...).<cursor method>(...)
+    if (!isRedis && /\bdb\.[\w$]*$/.test(before)) {
+        const schema = catalog.defaultSchema || (await catalog.schemas())[0];
+        const collections = schema ? (await catalog.tables(schema)) || [] : [];
+        return collections.map(c => ({
+            label: c.name,
+            kind: CompletionItemKind.Class,
+            detail: 'collection',
+            insertText: /^[A-Za-z_$][\w$]*$/.test(c.name) ? c.name : `getCollection(${JSON.stringify(c.name)})`,
+            range,
+        }));
+    }
+    const shellMethod = /\bdb\.(?:[\w$]+|getCollection\([^)]*\))\.[\w$]*$/.test(before) ? MONGO_SHELL_METHODS
+        : /\.find\([\s\S]*\)\s*\.[\w$]*$/.test(before) ? MONGO_CURSOR_METHODS
+            : null;
+    if (!isRedis && shellMethod) {
+        return shellMethod.map(shape => ({
+            label: shape.label,
+            kind: CompletionItemKind.Method,
+            detail: shape.detail,
+            insertText: shape.snippet,
+            insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+            range,
+        }));
+    }
+
+    if (isRedis && /"command"\s*:\s*"[^"]*$/.test(before)) {
+        return REDIS_COMMANDS.map(c => ({ label: c, kind: CompletionItemKind.Function, insertText: c, range }));
+    }
+
+    const shapes: CommandShape[] = isRedis
+        ? REDIS_COMMANDS.map(c => ({ label: c, detail: 'Redis command', snippet: `{ "command": "${c}", "args": [$1] }` }))
+        : MONGO_COMMANDS;
+
+    return shapes.map(shape => ({
+        label: shape.label,
+        kind: CompletionItemKind.Snippet,
+        detail: shape.detail,
+        insertText: shape.snippet,
+        insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+        range,
+    }));
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildChartSeries, findTimeColumn, resolveTimeRange, timeSeriesTableQuery } from '@/lib/time-series';
+
+const now = new Date('2024-03-01T12:00:00.000Z');
+
+describe('resolveTimeRange', () => {
+    it('counts the preset back from now', () => {
+        expect(resolveTimeRange('15m', now)).toEqual({ start: '2024-03-01T11:45:00.000Z', stop: '2024-03-01T12:00:00.000Z' });
+        expect(resolveTimeRange('7d', now).start).toBe('2024-02-23T12:00:00.000Z');
+    });
+
+    it('falls back to the last hour for an unknown preset', () => {
+        expect(resolveTimeRange('2y', now)).toEqual({ start: '2024-03-01T11:00:00.000Z', stop: '2024-03-01T12:00:00.000Z' });
+    });
+});
+
+describe('findTimeColumn', () => {
+    it('prefers a known name and skips Flux window bounds otherwise', () => {
+        const row = { _start: '2024-03-01T11:00:00Z', _stop: '2024-03-01T12:00:00Z', _time: '2024-03-01T11:30:00Z', _value: 1 };
+        expect(findTimeColumn(['_start', '_stop', '_time', '_value'], [row])).toBe('_time');
+
+        const unnamed = { _start: row._start, created: '2024-03-01 11:30:00', n: 1 };
+        expect(findTimeColumn(['_start', 'created', 'n'], [unnamed])).toBe('created');
+    });
+
+    it('accepts Date values and nulls but not plain numbers or text', () => {
+        const rows = [{ at: new Date(0), id: 1, label: 'x' }, { at: null, id: 2, label: 'y' }];
+        expect(findTimeColumn(['id', 'label', 'at'], rows)).toBe('at');
+
+        expect(findTimeColumn(['time', 'label'], [{ time: 1709294400, label: '2024' }])).toBeNull();
+        expect(findTimeColumn(['time'], [])).toBeNull();
+    });
+});
+
+describe('buildChartSeries', () => {
+    const columns = ['result', 'table', '_start', '_stop', '_time', '_value', '_field', '_measurement', 'host'];
+    const flux = (minute: number, field: string, host: string, value: number) => ({
+        result: '_result',
+        table: 0,
+        _start: '2024-03-01T11:00:00Z',
+        _stop: '2024-03-01T12:00:00Z',
+        _time: `2024-03-01T11:${String(minute).padStart(2, '0')}:00Z`,
+        _value: value,
+        _field: field,
+        _measurement: 'cpu',
+        host,
+    });
+
+    it('splits Flux rows by field and tag and sorts each line by time', () => {
+        const rows = [
+            flux(2, 'usage_user', 'a', 3),
+            flux(1, 'usage_user', 'a', 1),
+            flux(1, 'usage_system', 'b', 2),
+            flux(3, 'usage_user', 'b', 4),
+        ];
+
+        const { series, truncated } = buildChartSeries(columns, rows, '_time');
+
+        expect(truncated).toBe(false);
+        expect(series.map((s) => [s.name, s.points.map((p) => p.value)])).toEqual([
+            ['_field=usage_user, host=a', [1, 3]],
+            ['_field=usage_system, host=b', [2]],
+            ['_field=usage_user, host=b', [4]],
+        ]);
+        expect(series[0].points[0].time).toBe(Date.parse('2024-03-01T11:01:00Z'));
+    });
+
+    it('names lines after their column when there are several numeric columns', () => {
+        const rows = [
+            { time: '2024-03-01T11:00:00Z', cpu: 1, mem: 10, host: 'a' },
+            { time: '2024-03-01T11:01:00Z', cpu: 2, mem: null, host: 'b' },
+            { time: 'not a time', cpu: 3, mem: 30, host: 'a' },
+        ];
+
+        const { series } = buildChartSeries(['time', 'cpu', 'mem', 'host'], rows, 'time');
+
+        expect(series.map((s) => [s.name, s.points.map((p) => p.value)])).toEqual([
+            ['cpu host=a', [1]],
+            ['mem host=a', [10]],
+            ['cpu host=b', [2]],
+        ]);
+    });
+
+    it('keeps the column name for a single unlabelled line', () => {
+        const rows = [{ timestamp: new Date(1000), value: 1 }, { timestamp: new Date(0), value: 2 }];
+
+        expect(buildChartSeries(['timestamp', 'value'], rows, 'timestamp').series).toEqual([
+            { name: 'value', points: [{ time: 0, value: 2 }, { time: 1000, value: 1 }] },
+        ]);
+    });
+
+    it('stops adding lines after twenty', () => {
+        const rows = Array.from({ length: 25 }, (_, i) => ({ time: '2024-03-01T11:00:00Z', value: i, host: `h${i}` }));
+
+        const { series, truncated } = buildChartSeries(['time', 'value', 'host'], rows, 'time');
+
+        expect(series).toHaveLength(20);
+        expect(truncated).toBe(true);
+    });
+});
+
+describe('timeSeriesTableQuery', () => {
+    it('selects a Prometheus metric by name and an InfluxDB measurement over the chosen range', () => {
+        expect(timeSeriesTableQuery('prometheus', 'metrics', 'up')).toBe('up');
+        expect(timeSeriesTableQuery('influxdb', 'telegraf', 'cpu').split('\n')).toEqual([
+            'from(bucket: "telegraf")',
+            '  |> range(start: v.timeRangeStart, stop: v.timeRangeStop)',
+            '  |> filter(fn: (r) => r._measurement == "cpu")',
+        ]);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Time Series Model
+ * Time-range presets for InfluxDB and Prometheus queries, and the grouping that turns a result set
+ * with a timestamp column into chart series: one line per numeric column and per combination of
+ * the text columns (tags / labels) around it.
+ */
+
+import type { TimeRange } from '@bosdb/core';
+
+export interface TimeRangePreset {
+    id: string;
+    label: string;
+    duration: number; // Milliseconds back from now
+}
+
+export const TIME_RANGE_PRESETS: TimeRangePreset[] = [
+    { id: '5m', label: 'Last 5 minutes', duration: 5 * 60 * 1000 },
+    { id: '15m', label: 'Last 15 minutes', duration: 15 * 60 * 1000 },
+    { id: '1h', label: 'Last hour', duration: 60 * 60 * 1000 },
+    { id: '6h', label: 'Last 6 hours', duration: 6 * 60 * 60 * 1000 },
+    { id: '24h', label: 'Last 24 hours', duration: 24 * 60 * 60 * 1000 },
+    { id: '7d', label: 'Last 7 days', duration: 7 * 24 * 60 * 60 * 1000 },
+    { id: '30d', label: 'Last 30 days', duration: 30 * 24 * 60 * 60 * 1000 },
+];
+
+export const DEFAULT_TIME_RANGE_PRESET = '1h';
+
+export interface ChartPoint {
+    time: number;
+    value: number;
+}
+
+export interface ChartSeries {
+    name: string;
+    points: ChartPoint[];
+}
+
+// Flux window bounds and table index repeat on every row, so they never split or name a series
+const IGNORED_COLUMNS = ['_start', '_stop', 'table', 'result'];
+
+// Charts beyond this many lines are unreadable and slow to draw
+const MAX_SERIES = 20;
+
+/**
+ * Resolve a preset to absolute bounds at the moment the query is sent
+ */
+export function resolveTimeRange(presetId: string, now: Date = new Date()): TimeRange {
+    const preset = TIME_RANGE_PRESETS.find((p) => p.id === presetId)
+        || TIME_RANGE_PRESETS.find((p) => p.id === DEFAULT_TIME_RANGE_PRESET)!;
+    return {
+        start: new Date(now.getTime() - preset.duration).toISOString(),
+        stop: now.toISOString(),
+    };
+}
+
+/**
+ * The column holding each row's timestamp: a known name first, else the first column whose
+ * values all parse as ISO dates. Returns null when the result can't be charted.
+ */
+export function findTimeColumn(columns: string[], rows: Record<string, any>[]): string | null {
+    if (rows.length === 0) return null;
+
+    const sample = rows.slice(0, 20);
+    const isTimeValue = (value: unknown) =>
+        value instanceof Date || (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(value) && !isNaN(Date.parse(value)));
+    const allTimes = (column: string) => sample.every((row) => row[column] == null || isTimeValue(row[column]))
+        && sample.some((row) => row[column] != null);
+
+    const named = columns.find((c) => ['_time', 'time', 'timestamp'].includes(c.toLowerCase()));
+    if (named && allTimes(named)) return named;
+
+    return columns.find((c) => !IGNORED_COLUMNS.includes(c) && allTimes(c)) || null;
+}
+
+/**
+ * Group rows into series. Numeric columns become values; the remaining text columns (tags,
+ * labels, Flux's _field) identify which series a row belongs to.
+ */
+export function buildChartSeries(columns: string[], rows: Record<string, any>[], timeColumn: string): { series: ChartSeries[]; truncated: boolean } {
+    const candidates = columns.filter((c) => c !== timeColumn && !IGNORED_COLUMNS.includes(c));
+    const valueColumns = candidates.filter((c) =>
+        rows.some((row) => typeof row[c] === 'number') && rows.every((row) => row[c] == null || typeof row[c] === 'number'));
+    // Text columns with the same value on every row (e.g. a single _measurement) add nothing to a name
+    const keyColumns = candidates.filter((c) => !valueColumns.includes(c) && new Set(rows.map((row) => row[c])).size > 1);
+
+    const byName = new Map<string, ChartSeries>();
+    let truncated = false;
+
+    for (const row of rows) {
+        const time = row[timeColumn] instanceof Date ? row[timeColumn].getTime() : Date.parse(row[timeColumn]);
+        if (isNaN(time)) continue;
+
+        const key = keyColumns
+            .filter((c) => row[c] != null && row[c] !== '')
+            .map((c) => `${c}=${row[c]}`)
+            .join(', ');
+
+        for (const column of valueColumns) {
+            const value = row[column];
+            if (typeof value !== 'number' || !isFinite(value)) continue;
+
+            // Flux rows carry their field in _field and the number in _value; name the line after the field
+            const name = [column === '_value' || valueColumns.length === 1 ? '' : column, key].filter(Boolean).join(' ') || column;
+            let series = byName.get(name);
+            if (!series) {
+                if (byName.size >= MAX_SERIES) {
+                    truncated = true;
+                    continue;
+                }
+                series = { name, points: [] };
+                byName.set(name, series);
+            }
+            series.points.push({ time, value });
+        }
+    }
+
+    const series = Array.from(byName.values());
+    for (const s of series) {
+        s.points.sort((a, b) => a.time - b.time);
+    }
+    return { series, truncated };
+}
+
+/**
+ * Starter query for a measurement (InfluxDB) or metric (Prometheus), bounded by the selected time range
+ */
+export function timeSeriesTableQuery(dbType: string, schema: string, table: string): string {
+    if (dbType === 'prometheus') {
+        return table;
+    }
+    return [
+        `from(bucket: ${JSON.stringify(schema)})`,
+        '  |> range(start: v.timeRangeStart, stop: v.timeRangeStop)',
+        `  |> filter(fn: (r) => r._measurement == ${JSON.stringify(table)})`,
+    ].join('\n');
+}
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { getBisectStatus, markBisect, resetBisect, startBisect } from '@/lib/vcs-bisect';
+
+// c0 - c1 - ... - c8 (HEAD); the database is "broken" from c5 on
+const mockCommits = new Map(Array.from({ length: 9 }, (_, i) => [`c${i}`, {
+    id: `c${i}`,
+    message: `commit ${i}`,
+    parentIds: i > 0 ? [`c${i - 1}`] : [],
+    changes: [],
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, i)),
+}]));
+const mockState = { position: 'c8', manual: new Set<string>(), failApply: false, migrations: [] as string[] };
+
+jest.mock('@/lib/vcs-storage', () => ({
+    getRepository: async () => ({ storage: { getCommit: async (id: string) => mockCommits.get(id) || null } }),
+    getHeadCommit: async () => mockCommits.get('c8'),
+    toVCSCommit: (_connectionId: string, commit: any) => ({ id: commit.id, message: commit.message }),
+}));
+
+jest.mock('@/lib/vcs-checkout', () => ({
+    buildMigrationPlan: async (_connectionId: string, from: string, to: string) => ({
+        fromCommitId: from,
+        toCommitId: to,
+        steps: [],
+        manualSteps: mockState.manual.has(to) ? 1 : 0,
+    }),
+    applyCheckoutPlan: async (_connectionId: string, plan: any) => {
+        if (mockState.failApply) return { success: false, error: 'disk full' };
+        mockState.migrations.push(plan.toCommitId);
+        mockState.position = plan.toCommitId;
+        return { success: true };
+    },
+}));
+
+jest.mock('@/lib/db-utils', () => ({
+    getConnectedAdapter: async () => ({
+        adapterConnectionId: 'adapter-1',
+        adapter: {
+            executeQuery: async () => ({ rows: [{ ok: Number(mockState.position.slice(1)) < 5 ? 't' : 'f' }] }),
+        },
+    }),
+}));
+
+beforeEach(async () => {
+    if ((await getBisectStatus('conn-1')).session) await resetBisect('conn-1');
+    mockState.position = 'c8';
+    mockState.manual = new Set();
+    mockState.failApply = false;
+    mockState.migrations = [];
+});
+
+describe('vcs-bisect', () => {
+    it('runs the check query on each candidate and returns the database to HEAD', async () => {
+        const status = await startBisect('conn-1', 'c0', 'c8', 'SELECT ok FROM health');
+
+        expect(status.active).toBe(false);
+        expect(status.firstBadCommit).toEqual({ id: 'c5', message: 'commit 5' });
+        expect(status.log.map((e) => `${e.commitId}:${e.verdict}`)).toEqual(['c4:good', 'c6:bad', 'c5:bad']);
+        expect(status.log[0].detail).toBe('Check returned "t"');
+        expect(status.positionCommitId).toBe('c8');
+        expect(mockState.position).toBe('c8');
+    });
+
+    it('skips candidates that need manual migration', async () => {
+        mockState.manual.add('c4');
+
+        const status = await startBisect('conn-1', 'c0', 'c8', 'SELECT ok FROM health');
+
+        expect(status.log[0]).toMatchObject({ commitId: 'c4', verdict: 'skip', detail: '1 change(s) need manual migration' });
+        expect(mockState.migrations).not.toContain('c4');
+        expect(status.firstBadCommit?.id).toBe('c5');
+    });
+
+    it('moves the database to each candidate as verdicts are given by hand', async () => {
+        let status = await startBisect('conn-1', 'c0', 'c8');
+        expect(status).toMatchObject({ active: true, positionCommitId: 'c4', candidate: { id: 'c4' } });
+
+        status = await markBisect('conn-1', 'bad');
+        expect(status).toMatchObject({ active: true, positionCommitId: 'c2' });
+
+        status = await resetBisect('conn-1');
+        expect(status.active).toBe(false);
+        expect(mockState.position).toBe('c8');
+        expect((await getBisectStatus('conn-1')).session).toBeNull();
+    });
+
+    it('leaves no session behind when the first migration fails', async () => {
+        mockState.failApply = true;
+
+        await expect(startBisect('conn-1', 'c0', 'c8')).rejects.toThrow('Failed to migrate database to c4: disk full');
+        expect((await getBisectStatus('conn-1')).session).toBeNull();
+    });
+});
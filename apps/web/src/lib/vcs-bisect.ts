@@ -0,0 +1,268 @@
+/**
+ * VCS Bisect
+ * Finds the commit that introduced a regression by migrating the connected database to
+ * candidate commits and marking each one good or bad, manually or with a check query.
+ * The database is migrated back to the commit HEAD pointed at when the session ends.
+ */
+
+import { BisectService } from '@bosdb/version-control';
+import type { BisectSession } from '@bosdb/version-control';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { applyCheckoutPlan, buildMigrationPlan } from '@/lib/vcs-checkout';
+import { getRepository, getHeadCommit, toVCSCommit, VCSCommit } from '@/lib/vcs-storage';
+
+export type BisectVerdict = 'good' | 'bad' | 'skip';
+
+export interface BisectLogEntry {
+    commitId: string;
+    commitMessage: string;
+    verdict: BisectVerdict;
+    detail?: string;
+}
+
+export interface BisectStatus {
+    active: boolean;
+    session: BisectSession | null;
+    headCommitId: string;
+    positionCommitId: string;  // Commit the live database currently reflects
+    checkQuery?: string;
+    candidate?: VCSCommit;
+    firstBadCommit?: VCSCommit;
+    remainingSteps: number;
+    log: BisectLogEntry[];
+    warning?: string;
+}
+
+interface BisectState {
+    service: BisectService;
+    session: BisectSession;
+    headCommitId: string;
+    positionCommitId: string;
+    checkQuery?: string;
+    log: BisectLogEntry[];
+    warning?: string;
+}
+
+// One session per connection, kept for the lifetime of the server process
+const sessions = new Map<string, BisectState>();
+
+/**
+ * Start bisecting between a known good and a known bad commit.
+ * With a check query every candidate is evaluated automatically: a truthy first column of the
+ * first row marks it good, a falsy value or no rows marks it bad, a query error skips it.
+ */
+export async function startBisect(
+    connectionId: string,
+    goodCommitId: string,
+    badCommitId: string,
+    checkQuery?: string
+): Promise<BisectStatus> {
+    if (sessions.get(connectionId)?.session.status === 'ACTIVE') {
+        throw new Error('Bisect session already active');
+    }
+
+    const repo = await getRepository(connectionId);
+    const head = await getHeadCommit(repo);
+    if (!head) {
+        throw new Error('No commits to bisect');
+    }
+
+    const service = new BisectService(repo.storage);
+    const result = await service.start(goodCommitId, badCommitId);
+    if (!result.success) {
+        throw new Error(result.error);
+    }
+
+    const state: BisectState = {
+        service,
+        session: result.data,
+        headCommitId: head.id,
+        positionCommitId: head.id,
+        checkQuery: checkQuery?.trim() || undefined,
+        log: [],
+    };
+    sessions.set(connectionId, state);
+
+    try {
+        await advance(connectionId, state);
+
+        if (state.checkQuery) {
+            await runChecks(connectionId, state);
+        }
+    } catch (error) {
+        // Leave no half-started session behind, and the database back where it was
+        sessions.delete(connectionId);
+        await state.service.reset();
+        await restoreHead(connectionId, state).catch((restoreError) => {
+            console.error('Bisect: failed to restore HEAD after a failed start:', restoreError);
+        });
+        throw error;
+    }
+
+    return getBisectStatus(connectionId);
+}
+
+/**
+ * Record a verdict for the current candidate and move on to the next one
+ */
+export async function markBisect(connectionId: string, verdict: BisectVerdict, detail?: string): Promise<BisectStatus> {
+    const state = getActiveState(connectionId);
+    await mark(connectionId, state, verdict, detail);
+    return getBisectStatus(connectionId);
+}
+
+/**
+ * Abort or clear the session, migrating the database back to the original HEAD
+ */
+export async function resetBisect(connectionId: string): Promise<BisectStatus> {
+    const state = sessions.get(connectionId);
+    if (!state) {
+        throw new Error('No bisect session');
+    }
+
+    await restoreHead(connectionId, state);
+    if (state.session.status === 'ACTIVE') {
+        await state.service.reset();
+    }
+
+    sessions.delete(connectionId);
+    return { ...await toStatus(connectionId, state), active: false };
+}
+
+export async function getBisectStatus(connectionId: string): Promise<BisectStatus> {
+    const state = sessions.get(connectionId);
+    if (!state) {
+        return { active: false, session: null, headCommitId: '', positionCommitId: '', remainingSteps: 0, log: [] };
+    }
+    return toStatus(connectionId, state);
+}
+
+// ============ Helpers ============
+
+function getActiveState(connectionId: string): BisectState {
+    const state = sessions.get(connectionId);
+    if (!state || state.session.status !== 'ACTIVE') {
+        throw new Error('No active bisect session');
+    }
+    return state;
+}
+
+async function mark(connectionId: string, state: BisectState, verdict: BisectVerdict, detail?: string): Promise<void> {
+    const { storage } = await getRepository(connectionId);
+    const commitId = state.session.currentCommit;
+    const commit = await storage.getCommit(commitId);
+
+    const result = verdict === 'good'
+        ? await state.service.markGood()
+        : verdict === 'bad'
+            ? await state.service.markBad()
+            : await state.service.skip();
+
+    if (!result.success) {
+        throw new Error(result.error);
+    }
+
+    state.log.push({
+        commitId,
+        commitMessage: commit?.message || '',
+        verdict,
+        detail,
+    });
+    state.session = result.data;
+
+    await advance(connectionId, state);
+}
+
+/**
+ * Bring the database to the current candidate, or back to HEAD once the culprit is found.
+ * Candidates that cannot be reached without manual steps are skipped.
+ */
+async function advance(connectionId: string, state: BisectState): Promise<void> {
+    if (state.session.status !== 'ACTIVE') {
+        await restoreHead(connectionId, state);
+        return;
+    }
+
+    const target = state.session.currentCommit;
+    const plan = await buildMigrationPlan(connectionId, state.positionCommitId, target);
+
+    if (plan.manualSteps > 0) {
+        await mark(connectionId, state, 'skip', `${plan.manualSteps} change(s) need manual migration`);
+        return;
+    }
+
+    const applied = await applyCheckoutPlan(connectionId, plan);
+    if (!applied.success) {
+        throw new Error(`Failed to migrate database to ${target}: ${applied.error}`);
+    }
+    state.positionCommitId = target;
+}
+
+async function restoreHead(connectionId: string, state: BisectState): Promise<void> {
+    if (state.positionCommitId === state.headCommitId) return;
+
+    const plan = await buildMigrationPlan(connectionId, state.positionCommitId, state.headCommitId);
+    const applied = await applyCheckoutPlan(connectionId, plan);
+    if (!applied.success) {
+        throw new Error(`Failed to migrate database back to ${state.headCommitId}: ${applied.error}`);
+    }
+
+    state.positionCommitId = state.headCommitId;
+    if (plan.manualSteps > 0) {
+        state.warning = `${plan.manualSteps} change(s) were not restored automatically and need manual migration`;
+    }
+}
+
+async function runChecks(connectionId: string, state: BisectState): Promise<void> {
+    const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+
+    while (state.session.status === 'ACTIVE') {
+        let verdict: BisectVerdict;
+        let detail: string;
+
+        try {
+            const result = await adapter.executeQuery({
+                connectionId: adapterConnectionId,
+                query: state.checkQuery!,
+                maxRows: 1,
+                timeout: 30000,
+            });
+            const value = result.rows.length > 0 ? Object.values(result.rows[0])[0] : undefined;
+            verdict = isTruthy(value) ? 'good' : 'bad';
+            detail = `Check returned ${value === undefined ? 'no rows' : JSON.stringify(value)}`;
+        } catch (error) {
+            verdict = 'skip';
+            detail = `Check failed: ${String(error)}`;
+        }
+
+        await mark(connectionId, state, verdict, detail);
+    }
+}
+
+function isTruthy(value: unknown): boolean {
+    if (typeof value === 'string') {
+        return !['', '0', 'f', 'false', 'n', 'no'].includes(value.trim().toLowerCase());
+    }
+    return Boolean(value);
+}
+
+async function toStatus(connectionId: string, state: BisectState): Promise<BisectStatus> {
+    const { storage } = await getRepository(connectionId);
+    const { session } = state;
+
+    const candidate = session.status === 'ACTIVE' ? await storage.getCommit(session.currentCommit) : null;
+    const firstBad = session.firstBadCommit ? await storage.getCommit(session.firstBadCommit) : null;
+
+    return {
+        active: session.status === 'ACTIVE',
+        session,
+        headCommitId: state.headCommitId,
+        positionCommitId: state.positionCommitId,
+        checkQuery: state.checkQuery,
+        candidate: candidate ? toVCSCommit(connectionId, candidate) : undefined,
+        firstBadCommit: firstBad ? toVCSCommit(connectionId, firstBad) : undefined,
+        remainingSteps: session.status === 'ACTIVE' ? state.service.getRemainingSteps() : 0,
+        log: state.log,
+        warning: state.warning,
+    };
+}
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { applyCheckoutPlan, buildCheckoutPlan } from '@/lib/vcs-checkout';
+import type { DatabaseMigrationPlan } from '@/lib/vcs-checkout';
+
+const mockPlanCheckout = jest.fn(async (_branch: string): Promise<any> => ({ success: false, error: 'not planned' }));
+const mockRunSchemaSteps = jest.fn(async (_adapter: any, _id: string, _type: string, steps: any[]): Promise<any> => ({ applied: steps }));
+
+jest.mock('@/lib/vcs-storage', () => ({
+    getRepository: async () => ({ vc: { planCheckout: mockPlanCheckout } }),
+    toTrackedChanges: (changes: any[]) => changes,
+}));
+
+jest.mock('@/lib/store', () => ({
+    getConnection: async () => ({ id: 'conn-1', type: 'postgres' }),
+}));
+
+jest.mock('@/lib/db-utils', () => ({
+    getConnectedAdapter: async () => ({ adapter: {}, adapterConnectionId: 'adapter-1' }),
+    isTransactionalDDL: (dbType: string) => dbType === 'postgres',
+    runSchemaSteps: (...args: [any, string, string, any[]]) => mockRunSchemaSteps(...args),
+}));
+
+const change = (description: string, query: string, rollbackSQL: string | null, extra: Record<string, any> = {}) => ({
+    type: 'SCHEMA',
+    operation: 'CREATE',
+    target: 't',
+    description,
+    query,
+    rollbackSQL,
+    status: 'APPLIED',
+    ...extra,
+});
+
+const commit = (id: string, changes: any[]) => ({ id, message: `commit ${id}`, parentIds: [], changes });
+
+beforeEach(() => {
+    mockRunSchemaSteps.mockClear();
+});
+
+describe('buildCheckoutPlan', () => {
+    it('undoes each commit\'s changes in reverse and replays the target\'s changes in order', async () => {
+        mockPlanCheckout.mockImplementation(async () => ({
+            success: true,
+            data: {
+                branch: 'feature',
+                fromCommitId: 'c4',
+                toCommitId: 'c5',
+                mergeBase: 'c2',
+                undo: [commit('c4', [
+                    change('create a', 'CREATE TABLE a (id int)', 'DROP TABLE a'),
+                    change('create b', 'CREATE TABLE b (id int)', 'DROP TABLE b'),
+                    change('reverted', 'CREATE TABLE r (id int)', 'DROP TABLE r', { status: 'REVERTED' }),
+                ])],
+                redo: [
+                    commit('c3', [change('rollback of c', 'CREATE TABLE c (id int)', 'DROP TABLE c', { operation: 'ROLLBACK' })]),
+                    commit('c5', [change('opaque', '', null)]),
+                ],
+            },
+        }));
+
+        const plan = await buildCheckoutPlan('conn-1', 'feature');
+
+        expect(plan).toMatchObject({ branch: 'feature', fromCommitId: 'c4', toCommitId: 'c5', mergeBase: 'c2', manualSteps: 1, transactional: true });
+        expect(plan.steps.map((s) => [s.direction, s.commitId, s.sql])).toEqual([
+            ['undo', 'c4', 'DROP TABLE b'],
+            ['undo', 'c4', 'DROP TABLE a'],
+            ['redo', 'c3', 'DROP TABLE c'],
+            ['redo', 'c5', null],
+        ]);
+    });
+
+    it('surfaces the planner\'s error', async () => {
+        mockPlanCheckout.mockImplementation(async () => ({ success: false, error: 'Branch nope not found' }));
+
+        await expect(buildCheckoutPlan('conn-1', 'nope')).rejects.toThrow('Branch nope not found');
+    });
+});
+
+describe('applyCheckoutPlan', () => {
+    const plan: DatabaseMigrationPlan = {
+        fromCommitId: 'c4',
+        toCommitId: 'c5',
+        mergeBase: 'c2',
+        manualSteps: 1,
+        transactional: true,
+        steps: [
+            { direction: 'undo', commitId: 'c4', commitMessage: 'c4', description: 'drop a', sql: 'DROP TABLE a' },
+            { direction: 'redo', commitId: 'c5', commitMessage: 'c5', description: 'manual', sql: null },
+            { direction: 'redo', commitId: 'c5', commitMessage: 'c5', description: 'create b', sql: 'CREATE TABLE b (id int)' },
+        ],
+    };
+
+    it('runs the executable steps and skips manual ones', async () => {
+        expect(await applyCheckoutPlan('conn-1', plan)).toEqual({ success: true, applied: 2, transactional: true });
+        expect(mockRunSchemaSteps.mock.calls[0][3].map((s: any) => s.sql)).toEqual(['DROP TABLE a', 'CREATE TABLE b (id int)']);
+    });
+
+    it('reports the step that failed', async () => {
+        mockRunSchemaSteps.mockImplementationOnce(async (_adapter, _id, _type, steps) => ({
+            applied: [],
+            error: new Error('relation "b" already exists'),
+            failed: steps[1],
+        }));
+
+        expect(await applyCheckoutPlan('conn-1', plan)).toEqual({
+            success: false,
+            applied: 0,
+            transactional: true,
+            failedStep: plan.steps[2],
+            error: 'Error: relation "b" already exists',
+        });
+    });
+
+    it('does not connect when there is nothing to run', async () => {
+        expect(await applyCheckoutPlan('conn-1', { ...plan, steps: [plan.steps[1]] })).toEqual({ success: true, applied: 0, transactional: true });
+        expect(mockRunSchemaSteps).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * VCS Branch Checkout
+ * Migrates the connected database from the current HEAD to another branch by undoing
+ * commits back to the merge base (rollback SQL) and replaying the target's commits (their queries).
+ */
+
+import { getConnectedAdapter, isTransactionalDDL, runSchemaSteps } from '@/lib/db-utils';
+import { getConnection } from '@/lib/store';
+import { getForwardSQL, getReverseSQL } from '@/lib/vcs-helper';
+import { getRepository, toTrackedChanges } from '@/lib/vcs-storage';
+import type { Commit, MigrationPlan } from '@bosdb/version-control';
+
+export interface CheckoutStep {
+    direction: 'undo' | 'redo';
+    commitId: string;
+    commitMessage: string;
+    description: string;
+    sql: string | null;  // null when the change needs manual intervention
+}
+
+export interface DatabaseMigrationPlan {
+    fromCommitId: string;
+    toCommitId: string;
+    mergeBase: string;
+    steps: CheckoutStep[];
+    manualSteps: number;
+    transactional: boolean;  // Whether the steps will be applied atomically
+}
+
+export interface CheckoutMigrationPlan extends DatabaseMigrationPlan {
+    branch: string;
+}
+
+export interface CheckoutApplyResult {
+    success: boolean;
+    applied: number;
+    transactional: boolean;
+    failedStep?: CheckoutStep;
+    error?: string;
+}
+
+/**
+ * Compute the statements needed to move the database from HEAD to `branch`, without executing anything
+ */
+export async function buildCheckoutPlan(connectionId: string, branch: string): Promise<CheckoutMigrationPlan> {
+    const { vc } = await getRepository(connectionId);
+
+    const result = await vc.planCheckout(branch);
+    if (!result.success) {
+        throw new Error(result.error);
+    }
+
+    return { branch, ...await toMigrationPlan(connectionId, result.data) };
+}
+
+/**
+ * Compute the statements needed to move the database between two commits, e.g. to a bisect candidate
+ */
+export async function buildMigrationPlan(connectionId: string, fromCommitId: string, toCommitId: string): Promise<DatabaseMigrationPlan> {
+    const { vc } = await getRepository(connectionId);
+
+    const result = await vc.planMigration(fromCommitId, toCommitId);
+    if (!result.success) {
+        throw new Error(result.error);
+    }
+
+    return toMigrationPlan(connectionId, result.data);
+}
+
+/**
+ * Execute a checkout plan against the connected database inside a transaction. Manual steps are skipped.
+ * Engines without transactional DDL stop at the first failing statement; earlier statements stay applied.
+ */
+export async function applyCheckoutPlan(connectionId: string, plan: DatabaseMigrationPlan): Promise<CheckoutApplyResult> {
+    const executable = plan.steps.filter((s): s is CheckoutStep & { sql: string } => s.sql !== null);
+    if (executable.length === 0) {
+        return { success: true, applied: 0, transactional: plan.transactional };
+    }
+
+    const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+    const connection = await getConnection(connectionId);
+
+    const { applied, error, failed } = await runSchemaSteps(adapter, adapterConnectionId, connection?.type || '', executable);
+    if (error) {
+        return { success: false, applied: applied.length, transactional: plan.transactional, failedStep: failed, error: String(error) };
+    }
+
+    return { success: true, applied: applied.length, transactional: plan.transactional };
+}
+
+async function toMigrationPlan(connectionId: string, plan: MigrationPlan): Promise<DatabaseMigrationPlan> {
+    const { fromCommitId, toCommitId, mergeBase, undo, redo } = plan;
+    const steps: CheckoutStep[] = [];
+
+    // Undo newest first, and each commit's changes in reverse order
+    for (const commit of undo) {
+        for (const change of [...toTrackedChanges(commit.changes)].reverse()) {
+            if (change.status === 'REVERTED') continue;
+            steps.push(toStep('undo', commit, change.description, getReverseSQL(change)));
+        }
+    }
+
+    for (const commit of redo) {
+        for (const change of toTrackedChanges(commit.changes)) {
+            if (change.status === 'REVERTED') continue;
+            steps.push(toStep('redo', commit, change.description, getForwardSQL(change)));
+        }
+    }
+
+    const connection = await getConnection(connectionId);
+
+    return {
+        fromCommitId,
+        toCommitId,
+        mergeBase,
+        steps,
+        manualSteps: steps.filter(s => s.sql === null).length,
+        transactional: isTransactionalDDL(connection?.type || ''),
+    };
+}
+
+function toStep(direction: CheckoutStep['direction'], commit: Commit, description: string, sql: string): CheckoutStep {
+    return {
+        direction,
+        commitId: commit.id,
+        commitMessage: commit.message,
+        description,
+        sql: sql === 'MANUAL' ? null : sql,
+    };
+}
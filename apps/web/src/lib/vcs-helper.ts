@@ -3,6 +3,8 @@
  * Automatically tracks database changes for version control
  */
 
+import { formatSQLLiteral } from '@bosdb/core';
+
 export interface DatabaseChange {
     id?: string;
     type: 'SCHEMA' | 'DATA' | 'ACL' | 'SYSTEM';
@@ -34,27 +36,41 @@ export async function trackChange(connectionId: string, change: DatabaseChange):
 }
 
 /**
- * Track a schema change (CREATE, ALTER, DROP table)
+ * Describe a schema change (CREATE, ALTER, DROP table) as a pending change
+ * Pass rollbackSQL when the caller knows exactly how to undo the statement.
  */
-export async function trackSchemaChange(
-    connectionId: string,
+export function createSchemaChange(
     operation: 'create' | 'alter' | 'drop',
     tableName: string,
     sql: string,
-    author: { id: string; name: string }
-): Promise<void> {
-    const change: DatabaseChange = {
+    author: { id: string; name: string },
+    rollbackSQL?: string
+): DatabaseChange {
+    return {
         type: 'SCHEMA',
         operation: operation.toUpperCase() as 'CREATE' | 'ALTER' | 'DROP',
         target: tableName,
         tableName,
         description: `${operation.charAt(0).toUpperCase() + operation.slice(1)} table ${tableName} by ${author.name}`,
         query: sql,
-        rollbackSQL: generateRollbackSQL(sql),
+        rollbackSQL: rollbackSQL ?? generateRollbackSQL(sql),
         status: 'APPLIED'
     };
+}
 
-    await trackChange(connectionId, change);
+/**
+ * Track a schema change from the browser. API routes add createSchemaChange() to
+ * vcs-storage directly, since this posts to a relative URL.
+ */
+export async function trackSchemaChange(
+    connectionId: string,
+    operation: 'create' | 'alter' | 'drop',
+    tableName: string,
+    sql: string,
+    author: { id: string; name: string },
+    rollbackSQL?: string
+): Promise<void> {
+    await trackChange(connectionId, createSchemaChange(operation, tableName, sql, author, rollbackSQL));
 }
 
 /**
@@ -485,7 +501,7 @@ export function generateRollbackSQL(query: string, metadata?: any): string | 'MA
         const match = q.match(/INSERT\s+INTO\s+((?:"[^"]+"|[\w]+)(?:\.(?:"[^"]+"|[\w]+))*)/i);
         if (match && metadata?.primaryKey) {
             const pk = metadata.primaryKey;
-            const conds = Object.entries(pk).map(([c, v]) => `${c} = ${typeof v === 'string' ? `'${v}'` : v}`).join(' AND ');
+            const conds = Object.entries(pk).map(([c, v]) => `${c} = ${formatSQLLiteral(v, metadata.dialect)}`).join(' AND ');
             return `DELETE FROM ${match[1]} WHERE ${conds};`;
         }
         return 'MANUAL';
@@ -495,7 +511,7 @@ export function generateRollbackSQL(query: string, metadata?: any): string | 'MA
         if (match && metadata?.oldRows) {
             return metadata.oldRows.map((row: any) => {
                 const cols = Object.keys(row).join(', ');
-                const vals = Object.values(row).map(v => typeof v === 'string' ? `'${v}'` : v).join(', ');
+                const vals = Object.values(row).map(v => formatSQLLiteral(v, metadata.dialect)).join(', ');
                 return `INSERT INTO ${match[1]} (${cols}) VALUES (${vals});`;
             }).join('\n');
         }
@@ -506,8 +522,8 @@ export function generateRollbackSQL(query: string, metadata?: any): string | 'MA
         if (match && metadata?.oldRows) {
             return metadata.oldRows.map((row: any) => {
                 const pk = metadata.primaryKeyFields.reduce((acc: any, f: string) => ({ ...acc, [f]: row[f] }), {});
-                const set = Object.entries(row).map(([c, v]) => `${c} = ${typeof v === 'string' ? `'${v}'` : v}`).join(', ');
-                const where = Object.entries(pk).map(([c, v]) => `${c} = ${typeof v === 'string' ? `'${v}'` : v}`).join(' AND ');
+                const set = Object.entries(row).map(([c, v]) => `${c} = ${formatSQLLiteral(v, metadata.dialect)}`).join(', ');
+                const where = Object.entries(pk).map(([c, v]) => `${c} = ${formatSQLLiteral(v, metadata.dialect)}`).join(' AND ');
                 return `UPDATE ${match[1]} SET ${set} WHERE ${where};`;
             }).join('\n');
         }
@@ -522,13 +538,34 @@ export function generateRollbackSQL(query: string, metadata?: any): string | 'MA
     // 20. COMMENTS
     if (upper.startsWith('COMMENT ON')) {
         const m = q.match(/COMMENT\s+ON\s+(TABLE|COLUMN)\s+([\s\S]+?)\s+IS/i);
-        if (m && metadata?.oldComment !== undefined) return `COMMENT ON ${m[1]} ${m[2]} IS ${metadata.oldComment === null ? 'NULL' : `'${metadata.oldComment}'`};`;
+        if (m && metadata?.oldComment !== undefined) return `COMMENT ON ${m[1]} ${m[2]} IS ${formatSQLLiteral(metadata.oldComment, metadata.dialect)};`;
         return 'MANUAL';
     }
 
     return 'MANUAL';
 }
 
+/**
+ * SQL that re-applies a committed change.
+ * Changes recorded by a rollback commit were applied by running their rollback SQL.
+ */
+export function getForwardSQL(change: DatabaseChange): string | 'MANUAL' {
+    if ((change.operation as string) === 'ROLLBACK') {
+        return change.rollbackSQL || 'MANUAL';
+    }
+    return change.query || 'MANUAL';
+}
+
+/**
+ * SQL that undoes a committed change
+ */
+export function getReverseSQL(change: DatabaseChange): string | 'MANUAL' {
+    if ((change.operation as string) === 'ROLLBACK') {
+        return change.query || 'MANUAL';
+    }
+    return change.rollbackSQL || (change.query ? generateRollbackSQL(change.query, change.metadata) : 'MANUAL');
+}
+
 /**
  * Get pending changes for a connection
  */
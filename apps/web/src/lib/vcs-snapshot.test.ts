@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ValidationError } from '@bosdb/core';
+import { buildSnapshot, captureSnapshot, parseMaxRowsPerTable } from '@/lib/vcs-snapshot';
+
+const mockExecuteQuery = jest.fn(async (_request: any): Promise<{ rows: any[] }> => ({ rows: [] }));
+const mockListTables = jest.fn(async (): Promise<any[]> => [{ name: 'users', schema: 'public', type: 'table' }]);
+const mockPrimaryKeys: { current: string[] } = { current: ['id'] };
+
+const mockAdapter = {
+    listTables: mockListTables,
+    describeTable: async (_id: string, _schema: string, name: string) => ({
+        name,
+        columns: [{ name: 'id', dataType: 'integer', nullable: false }],
+        primaryKeys: mockPrimaryKeys.current,
+        indexes: [],
+    }),
+    getIndexes: async () => [],
+    executeQuery: mockExecuteQuery,
+};
+
+jest.mock('@/lib/db-utils', () => ({
+    getConnectedAdapter: async () => ({ adapter: mockAdapter, adapterConnectionId: 'adapter-1' }),
+}));
+
+jest.mock('@/lib/store', () => ({
+    getConnection: async () => ({ id: 'conn-1', type: 'postgres' }),
+}));
+
+beforeEach(() => {
+    mockExecuteQuery.mockReset();
+    mockExecuteQuery.mockImplementation(async () => ({ rows: [] }));
+    mockListTables.mockReset();
+    mockListTables.mockImplementation(async () => [{ name: 'users', schema: 'public', type: 'table' }]);
+    mockPrimaryKeys.current = ['id'];
+});
+
+describe('parseMaxRowsPerTable', () => {
+    it('accepts whole numbers from 1 to 10000, as numbers or digit strings', () => {
+        expect(parseMaxRowsPerTable(undefined)).toBeUndefined();
+        expect(parseMaxRowsPerTable(1)).toBe(1);
+        expect(parseMaxRowsPerTable('250')).toBe(250);
+        expect(parseMaxRowsPerTable(10000)).toBe(10000);
+    });
+
+    it.each([0, -5, 1.5, 10001, NaN, '', '10; DROP TABLE users', '1e3', true, {}])('rejects %p', (value) => {
+        expect(() => parseMaxRowsPerTable(value)).toThrow(ValidationError);
+    });
+});
+
+describe('buildSnapshot', () => {
+    it('puts the validated row bound into the sample query', async () => {
+        await buildSnapshot('conn-1', { includeData: true, maxRowsPerTable: 50 });
+
+        expect(mockExecuteQuery).toHaveBeenCalledTimes(1);
+        expect(mockExecuteQuery.mock.calls[0][0]).toMatchObject({
+            query: 'SELECT * FROM "public"."users" ORDER BY "id" LIMIT 51',
+            maxRows: 51,
+        });
+    });
+
+    it('refuses an invalid row bound before touching the database', async () => {
+        await expect(buildSnapshot('conn-1', { includeData: true, maxRowsPerTable: '1; DELETE FROM users' as any }))
+            .rejects.toThrow('maxRowsPerTable must be an integer between 1 and 10000');
+        expect(mockExecuteQuery).not.toHaveBeenCalled();
+    });
+
+    it('stores view bodies read from the catalog so view changes are diffed', async () => {
+        mockListTables.mockImplementation(async () => [{ name: 'active_users', schema: 'public', type: 'view' }]);
+        mockExecuteQuery.mockImplementation(async () => ({ rows: [{ definition: ' SELECT id FROM users WHERE active;\n' }] }));
+
+        const snapshot = await buildSnapshot('conn-1');
+
+        expect(snapshot.schema.views).toEqual({ active_users: { name: 'active_users', definition: 'SELECT id FROM users WHERE active;' } });
+        expect(mockExecuteQuery.mock.calls[0][0].query).toContain("c.relname = 'active_users' AND n.nspname = 'public'");
+    });
+
+    it('checksums keyed samples only, since unkeyed rows come back in engine order', async () => {
+        mockExecuteQuery.mockImplementation(async () => ({ rows: [{ id: 1 }, { id: 2 }] }));
+
+        const keyed = await buildSnapshot('conn-1', { includeData: true });
+        expect(keyed.data.tables.users.checksum).toMatch(/^[0-9a-f]{64}$/);
+
+        mockPrimaryKeys.current = [];
+        const unkeyed = await buildSnapshot('conn-1', { includeData: true });
+        expect(mockExecuteQuery.mock.calls[1][0].query).toBe('SELECT * FROM "public"."users" LIMIT 1001');
+        expect(unkeyed.data.tables.users).toEqual({ rows: [{ id: 1 }, { id: 2 }], checksum: undefined, truncated: undefined });
+    });
+});
+
+describe('captureSnapshot', () => {
+    it('reports a failed capture instead of falling back to an older state', async () => {
+        mockListTables.mockImplementation(async () => {
+            throw new Error('connection reset');
+        });
+
+        await expect(captureSnapshot('conn-1')).rejects.toThrow('Failed to capture database snapshot: connection reset');
+    });
+
+    it('passes validation errors through unchanged', async () => {
+        await expect(captureSnapshot('conn-1', { maxRowsPerTable: 0 })).rejects.toThrow(ValidationError);
+    });
+});
@@ -0,0 +1,288 @@
+import { createHash } from 'crypto';
+import { MergeService } from '@bosdb/version-control';
+import type {
+    DatabaseSnapshot,
+    TableDefinition,
+    IndexDefinition,
+    ForeignKeyDefinition,
+    TableData,
+} from '@bosdb/version-control';
+import { ValidationError } from '@bosdb/core';
+import type { TableMetadata } from '@bosdb/core';
+import { getConnectedAdapter } from '@/lib/db-utils';
+import { getConnection } from '@/lib/store';
+
+export interface SnapshotOptions {
+    schema?: string;            // Defaults to the adapter's default schema
+    includeData?: boolean;      // Sample table rows into the snapshot (default: false)
+    maxRowsPerTable?: number;   // Upper bound for sampled rows per table (default: 1000, at most 10000)
+}
+
+const DEFAULT_MAX_ROWS = 1000;
+const MAX_ROWS_LIMIT = 10000;
+
+// Database types whose adapters understand plain SELECT statements
+const SQL_TYPES = new Set([
+    'postgres', 'postgresql', 'mysql', 'mariadb', 'mssql', 'oracle', 'firebird', 'cubrid', 'duckdb',
+    'cockroachdb', 'yugabyte', 'tidb', 'timescaledb', 'sqlite', 'h2', 'derby', 'clickhouse',
+]);
+
+const FK_ACTIONS = ['CASCADE', 'SET NULL', 'RESTRICT'] as const;
+
+/**
+ * Build a DatabaseSnapshot from a live connection.
+ * Schema comes from adapter metadata plus view bodies from the catalog; data is an optional bounded
+ * sample ordered by primary key.
+ */
+export async function buildSnapshot(connectionId: string, options: SnapshotOptions = {}): Promise<DatabaseSnapshot> {
+    const maxRows = parseMaxRowsPerTable(options.maxRowsPerTable) ?? DEFAULT_MAX_ROWS;
+    const { adapter, adapterConnectionId } = await getConnectedAdapter(connectionId);
+    const connection = await getConnection(connectionId);
+    const dbType = connection?.type || 'postgres';
+
+    const snapshot: DatabaseSnapshot = {
+        schema: { tables: {}, views: {}, indexes: {} },
+        data: { tables: {} },
+        timestamp: new Date(),
+    };
+
+    const tables = await adapter.listTables(adapterConnectionId, options.schema);
+
+    for (const table of tables) {
+        const schemaName = table.schema || options.schema || '';
+
+        if (table.type !== 'table') {
+            const definition = SQL_TYPES.has(dbType)
+                ? await readViewDefinition(adapter, adapterConnectionId, dbType, schemaName, table.name)
+                : '';
+            snapshot.schema.views![table.name] = { name: table.name, definition };
+            continue;
+        }
+
+        const metadata = await adapter.describeTable(adapterConnectionId, schemaName, table.name);
+        snapshot.schema.tables[table.name] = toTableDefinition(metadata);
+
+        let indexes = metadata.indexes;
+        if (!indexes || indexes.length === 0) {
+            indexes = await adapter.getIndexes(adapterConnectionId, schemaName, table.name).catch(() => []);
+        }
+        for (const index of indexes) {
+            // Primary key indexes are already captured as TableDefinition.primaryKey
+            if (index.primary) continue;
+            const definition: IndexDefinition = {
+                name: index.name,
+                table: table.name,
+                columns: index.columns,
+                unique: index.unique,
+            };
+            snapshot.schema.indexes![index.name] = definition;
+        }
+
+        if (options.includeData && SQL_TYPES.has(dbType)) {
+            snapshot.data.tables[table.name] = await sampleTable(
+                adapter,
+                adapterConnectionId,
+                dbType,
+                schemaName,
+                table.name,
+                metadata.primaryKeys,
+                maxRows
+            );
+        }
+    }
+
+    return snapshot;
+}
+
+/**
+ * Snapshot for a new commit. A failed capture is reported to the caller instead of
+ * committing a stale or empty tree.
+ */
+export async function captureSnapshot(connectionId: string, options: SnapshotOptions = {}): Promise<DatabaseSnapshot> {
+    try {
+        return await buildSnapshot(connectionId, options);
+    } catch (error) {
+        if (error instanceof ValidationError) throw error;
+        throw new Error(`Failed to capture database snapshot: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Validate a requested per-table row bound. The value is spliced into LIMIT / TOP / FETCH FIRST,
+ * so anything but a whole number in 1..10000 is rejected.
+ */
+export function parseMaxRowsPerTable(value: unknown): number | undefined {
+    if (value === undefined || value === null) return undefined;
+
+    const rows = typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? Number(value) : value;
+    if (typeof rows !== 'number' || !Number.isInteger(rows) || rows < 1 || rows > MAX_ROWS_LIMIT) {
+        throw new ValidationError(`maxRowsPerTable must be an integer between 1 and ${MAX_ROWS_LIMIT}`);
+    }
+    return rows;
+}
+
+/**
+ * Checksum of a row set, independent of key order within each row
+ */
+export function checksumRows(rows: Record<string, any>[]): string {
+    return createHash('sha256').update(MergeService.stableStringify(rows)).digest('hex');
+}
+
+// ============ Helpers ============
+
+function toTableDefinition(metadata: TableMetadata): TableDefinition {
+    const foreignKeys: ForeignKeyDefinition[] = [];
+    for (const fk of metadata.foreignKeys || []) {
+        // Composite keys are flattened into per-column references
+        fk.columns.forEach((column, i) => {
+            foreignKeys.push({
+                column,
+                refTable: fk.referencedTable,
+                refColumn: fk.referencedColumns[i] ?? fk.referencedColumns[0],
+                onDelete: toFkAction(fk.onDelete),
+                onUpdate: toFkAction(fk.onUpdate),
+            });
+        });
+    }
+
+    return {
+        name: metadata.name,
+        columns: metadata.columns.map(col => ({
+            name: col.name,
+            type: col.dataType,
+            nullable: col.nullable,
+            default: col.defaultValue ?? undefined,
+            autoIncrement: isAutoIncrement(col.defaultValue, col.dataType) || undefined,
+        })),
+        primaryKey: metadata.primaryKeys?.length ? metadata.primaryKeys : undefined,
+        foreignKeys: foreignKeys.length ? foreignKeys : undefined,
+    };
+}
+
+function toFkAction(action?: string): ForeignKeyDefinition['onDelete'] {
+    const normalized = action?.toUpperCase().replace(/_/g, ' ');
+    return FK_ACTIONS.find(a => a === normalized);
+}
+
+function isAutoIncrement(defaultValue: string | undefined, dataType: string): boolean {
+    const def = (defaultValue || '').toLowerCase();
+    const type = dataType.toLowerCase();
+    return def.startsWith('nextval(') || def.includes('auto_increment') || def.includes('identity')
+        || type.includes('serial') || type.includes('identity');
+}
+
+async function sampleTable(
+    adapter: Awaited<ReturnType<typeof getConnectedAdapter>>['adapter'],
+    adapterConnectionId: string,
+    dbType: string,
+    schema: string,
+    table: string,
+    primaryKeys: string[],
+    maxRows: number
+): Promise<TableData> {
+    // Fetch one extra row to detect whether the sample is truncated
+    const query = buildSampleQuery(dbType, schema, table, primaryKeys, maxRows + 1);
+    const result = await adapter.executeQuery({
+        connectionId: adapterConnectionId,
+        query,
+        maxRows: maxRows + 1,
+        timeout: 30000,
+    });
+
+    const truncated = result.rows.length > maxRows;
+    const rows = truncated ? result.rows.slice(0, maxRows) : result.rows;
+
+    // Without a key the row order is up to the engine, so a checksum could differ on identical data
+    return {
+        rows,
+        checksum: primaryKeys.length > 0 ? checksumRows(rows) : undefined,
+        truncated: truncated || undefined,
+    };
+}
+
+async function readViewDefinition(
+    adapter: Awaited<ReturnType<typeof getConnectedAdapter>>['adapter'],
+    adapterConnectionId: string,
+    dbType: string,
+    schema: string,
+    view: string
+): Promise<string> {
+    const query = buildViewDefinitionQuery(dbType, schema, view);
+    if (!query) return '';
+
+    const result = await adapter.executeQuery({ connectionId: adapterConnectionId, query, maxRows: 1, timeout: 30000 });
+    const definition = result.rows[0] ? Object.values(result.rows[0])[0] : null;
+    return typeof definition === 'string' ? definition.trim() : '';
+}
+
+/**
+ * Catalog query returning a view's body as its single column, or null for engines without a known catalog
+ */
+function buildViewDefinitionQuery(dbType: string, schema: string, view: string): string | null {
+    const name = quoteLiteral(view);
+    const inSchema = (column: string) => schema ? ` AND ${column} = ${quoteLiteral(schema)}` : '';
+
+    switch (dbType) {
+        case 'postgres':
+        case 'postgresql':
+        case 'timescaledb':
+        case 'yugabyte':
+            // pg_class also covers materialized views, which information_schema.views leaves out
+            return `SELECT pg_get_viewdef(c.oid, true) AS definition FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace WHERE c.relname = ${name}${inSchema('n.nspname')}`;
+        case 'mssql':
+            return `SELECT OBJECT_DEFINITION(OBJECT_ID(${quoteLiteral(schema ? `${quoteIdent(dbType, schema)}.${quoteIdent(dbType, view)}` : quoteIdent(dbType, view))})) AS definition`;
+        case 'oracle':
+            return `SELECT text AS definition FROM all_views WHERE view_name = ${name}${inSchema('owner')}`;
+        case 'sqlite':
+            return `SELECT sql AS definition FROM ${schema ? `${quoteIdent(dbType, schema)}.` : ''}sqlite_master WHERE type = 'view' AND name = ${name}`;
+        case 'firebird':
+            return `SELECT rdb$view_source AS definition FROM rdb$relations WHERE rdb$relation_name = ${name}`;
+        case 'mysql':
+        case 'mariadb':
+        case 'tidb':
+        case 'cockroachdb':
+        case 'duckdb':
+        case 'h2':
+        case 'clickhouse':
+            return `SELECT view_definition AS definition FROM information_schema.views WHERE table_name = ${name}${inSchema('table_schema')}`;
+        default:
+            return null;
+    }
+}
+
+function buildSampleQuery(dbType: string, schema: string, table: string, primaryKeys: string[], limit: number): string {
+    const target = schema ? `${quoteIdent(dbType, schema)}.${quoteIdent(dbType, table)}` : quoteIdent(dbType, table);
+    const orderBy = primaryKeys.length > 0
+        ? ` ORDER BY ${primaryKeys.map(k => quoteIdent(dbType, k)).join(', ')}`
+        : '';
+
+    switch (dbType) {
+        case 'mssql':
+            return `SELECT TOP ${limit} * FROM ${target}${orderBy}`;
+        case 'oracle':
+        case 'derby':
+            return `SELECT * FROM ${target}${orderBy} FETCH FIRST ${limit} ROWS ONLY`;
+        case 'firebird':
+            return `SELECT FIRST ${limit} * FROM ${target}${orderBy}`;
+        default:
+            return `SELECT * FROM ${target}${orderBy} LIMIT ${limit}`;
+    }
+}
+
+function quoteIdent(dbType: string, name: string): string {
+    switch (dbType) {
+        case 'mysql':
+        case 'mariadb':
+        case 'tidb':
+        case 'clickhouse':
+            return `\`${name.replace(/`/g, '``')}\``;
+        case 'mssql':
+            return `[${name.replace(/]/g, ']]')}]`;
+        default:
+            return `"${name.replace(/"/g, '""')}"`;
+    }
+}
+
+function quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { FileStorage } from '@bosdb/version-control';
+import { importLegacyHistory, toCommitChanges } from '@/lib/vcs-storage';
+
+let vcsPath: string;
+let storage: FileStorage;
+
+const legacyCommit = (id: string, branch: string, minute: number, parentCommitId?: string) => ({
+    id,
+    connectionId: 'conn-1',
+    branch,
+    message: `commit ${id}`,
+    author: { name: 'Ada', email: 'ada@example.com' },
+    changes: [{ type: 'SCHEMA', operation: 'CREATE', target: `t_${id}`, tableName: `t_${id}` }],
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString(),
+    parentCommitId,
+});
+
+beforeEach(async () => {
+    vcsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'bosdb-vcs-'));
+    storage = new FileStorage(vcsPath);
+    await storage.initialize();
+});
+
+afterEach(async () => {
+    await fs.rm(vcsPath, { recursive: true, force: true });
+});
+
+describe('importLegacyHistory', () => {
+    it('keeps commit ids and rebuilds parents per branch in timestamp order', async () => {
+        // Written out of order, without parent links, as the old web storage did
+        await fs.writeFile(path.join(vcsPath, 'commits.json'), JSON.stringify([
+            legacyCommit('c3', 'feature', 3),
+            legacyCommit('c1', 'main', 1),
+            legacyCommit('c2', 'main', 2),
+            legacyCommit('c4', 'main', 4),
+        ]));
+        await fs.writeFile(path.join(vcsPath, 'branches.json'), JSON.stringify([
+            { name: 'main' },
+            { name: 'feature', headCommitId: 'c1' },
+        ]));
+        await fs.writeFile(path.join(vcsPath, 'current-branch.txt'), 'feature\n');
+
+        expect(await importLegacyHistory(vcsPath, storage)).toBe(4);
+
+        const parents = async (id: string) => (await storage.getCommit(id))!.parentIds;
+        expect(await parents('c1')).toEqual([]);
+        expect(await parents('c2')).toEqual(['c1']);
+        expect(await parents('c4')).toEqual(['c2']);
+        expect(await parents('c3')).toEqual(['c1']);
+
+        expect((await storage.getBranch('main'))!.commitId).toBe('c4');
+        expect((await storage.getBranch('feature'))!.commitId).toBe('c3');
+        expect((await storage.getConfig()).HEAD).toBe('feature');
+
+        const c1 = await storage.getCommit('c1');
+        expect(c1).toMatchObject({ branchName: 'main', treeId: 'c1', metadata: { importedFrom: 'commits.json' } });
+        expect(c1!.timestamp.toISOString()).toBe('2024-01-01T00:01:00.000Z');
+    });
+
+    it('imports only once', async () => {
+        await fs.writeFile(path.join(vcsPath, 'commits.json'), JSON.stringify([legacyCommit('c1', 'main', 1)]));
+
+        expect(await importLegacyHistory(vcsPath, storage)).toBe(1);
+        expect(await importLegacyHistory(vcsPath, storage)).toBe(0);
+    });
+
+    it('does nothing for a repository without legacy files', async () => {
+        expect(await importLegacyHistory(vcsPath, storage)).toBe(0);
+        await expect(fs.access(path.join(vcsPath, 'legacy-import.json'))).rejects.toThrow();
+    });
+});
+
+describe('toCommitChanges', () => {
+    it('gives data changes their target as table name but leaves other objects without one', () => {
+        const changes = toCommitChanges([
+            { type: 'DATA', operation: 'INSERT', target: 'users', query: 'INSERT ...' } as any,
+            { type: 'SCHEMA', operation: 'CREATE', target: 'users_email_idx' } as any,
+        ]);
+
+        expect(changes).toEqual([
+            { type: 'DATA', operation: 'INSERT', target: 'users', tableName: 'users', query: 'INSERT ...' },
+            { type: 'SCHEMA', operation: 'CREATE', target: 'users_email_idx', tableName: undefined },
+        ]);
+    });
+});
@@ -1,11 +1,20 @@
 /**
- * VCS Database Storage Layer
- * Replaces file-based storage with reliable database storage
- * Compatible with Vercel and other serverless environments
+ * VCS Storage Layer
+ * Backs the web VCS routes with the @bosdb/version-control package.
+ * Commits, branches, tags, stash and reflog live in a FileStorage repository per connection;
+ * pending (uncommitted) changes are kept next to it in pending.json.
  */
 
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { FileStorage, VersionControlManager, createVersionControl } from '@bosdb/version-control';
+import type { Author, Branch, Change, Commit } from '@bosdb/version-control';
 import { DatabaseChange } from './vcs-helper';
 
+/**
+ * Commit shape returned by the web API
+ */
 export interface VCSCommit {
     id: string;
     connectionId: string;
@@ -15,309 +24,330 @@ export interface VCSCommit {
     changes: DatabaseChange[];
     timestamp: string;
     parentCommitId?: string;
+    parentIds?: string[];
+    treeId?: string;  // Snapshot id in the version-control package storage
+}
+
+export interface VCSRepository {
+    vc: VersionControlManager;
+    storage: FileStorage;
 }
 
-export interface VCSBranch {
+// Pre-migration web history files, imported once into the package repository
+const LEGACY_COMMITS_FILE = 'commits.json';
+const LEGACY_BRANCHES_FILE = 'branches.json';
+const LEGACY_CURRENT_BRANCH_FILE = 'current-branch.txt';
+const LEGACY_IMPORT_MARKER = 'legacy-import.json';
+
+interface LegacyBranch {
     name: string;
-    connectionId: string;
     headCommitId?: string;
-    createdAt: string;
 }
 
-// In-memory storage for serverless environments
+// Detection for serverless/read-only environments
+const IS_VERCEL = process.env.VERCEL === '1' || !!process.env.NOW_REGION;
+
+// Repository instances are shared across requests; initialization runs once per connection
+const repositories = new Map<string, Promise<VCSRepository>>();
+
+// In-memory cache for pending changes
 const inMemoryPendingChanges = new Map<string, DatabaseChange[]>();
-const inMemoryCommits = new Map<string, VCSCommit[]>();
-const inMemoryBranches = new Map<string, VCSBranch[]>();
-const inMemoryCurrentBranch = new Map<string, string>();
 
 /**
- * Get pending changes for a connection
+ * Directory holding the VCS repository for a connection
  */
-export async function getPendingChangesFromStorage(connectionId: string): Promise<DatabaseChange[]> {
-    // Check in-memory first (for Vercel)
-    if (inMemoryPendingChanges.has(connectionId)) {
-        return inMemoryPendingChanges.get(connectionId) || [];
-    }
+export function getVCSPath(connectionId: string): string {
+    const root = IS_VERCEL ? os.tmpdir() : process.cwd();
+    return path.join(root, '.bosdb-vcs', connectionId);
+}
 
-    // Fallback to file system for local development
-    if (typeof window === 'undefined' && !process.env.VERCEL) {
-        try {
-            const fs = await import('fs/promises');
-            const path = await import('path');
-            const vcsDir = path.join(process.cwd(), '.bosdb-vcs', connectionId);
-            const pendingPath = path.join(vcsDir, 'pending.json');
-
-            const data = await fs.readFile(pendingPath, 'utf-8');
-            const parsed = JSON.parse(data);
-            return parsed.changes || [];
-        } catch {
-            return [];
-        }
+/**
+ * Get the version control repository for a connection, creating it on first use
+ */
+export async function getRepository(connectionId: string): Promise<VCSRepository> {
+    let pending = repositories.get(connectionId);
+    if (!pending) {
+        pending = openRepository(connectionId);
+        repositories.set(connectionId, pending);
     }
 
-    return [];
+    try {
+        const repo = await pending;
+        // HEAD may have moved in another request
+        await repo.vc.loadHEAD();
+        return repo;
+    } catch (error) {
+        repositories.delete(connectionId);
+        throw error;
+    }
 }
 
-/**
- * Add pending change
- */
-export async function addPendingChange(connectionId: string, change: DatabaseChange): Promise<void> {
-    const current = await getPendingChangesFromStorage(connectionId);
+async function openRepository(connectionId: string): Promise<VCSRepository> {
+    const vcsPath = getVCSPath(connectionId);
+    await fs.mkdir(vcsPath, { recursive: true });
 
-    const newChange = {
-        ...change,
-        id: change.id || `change-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        timestamp: change.timestamp || new Date().toISOString()
-    };
+    const storage = new FileStorage(vcsPath);
+    await storage.initialize();
 
-    current.push(newChange);
-    inMemoryPendingChanges.set(connectionId, current);
-
-    // Also persist to file system in local dev
-    if (typeof window === 'undefined' && !process.env.VERCEL) {
-        try {
-            const fs = await import('fs/promises');
-            const path = await import('path');
-            const vcsDir = path.join(process.cwd(), '.bosdb-vcs', connectionId);
-            await fs.mkdir(vcsDir, { recursive: true });
-
-            const pendingPath = path.join(vcsDir, 'pending.json');
-            await fs.writeFile(pendingPath, JSON.stringify({ changes: current }, null, 2));
-        } catch (error) {
-            console.error('[VCS] Failed to persist to file:', error);
-            // Continue anyway - in-memory is primary
-        }
+    const vc = createVersionControl(connectionId, storage);
+    const init = await vc.initialize();
+    if (!init.success) {
+        throw new Error(init.error);
     }
-}
 
-/**
- * Clear pending changes
- */
-export async function clearPendingChanges(connectionId: string): Promise<void> {
-    inMemoryPendingChanges.set(connectionId, []);
-
-    // Also clear file system
-    if (typeof window === 'undefined' && !process.env.VERCEL) {
-        try {
-            const fs = await import('fs/promises');
-            const path = await import('path');
-            const vcsDir = path.join(process.cwd(), '.bosdb-vcs', connectionId);
-            const pendingPath = path.join(vcsDir, 'pending.json');
-            await fs.writeFile(pendingPath, JSON.stringify({ changes: [] }));
-        } catch {
-            // Ignore errors
-        }
+    const imported = await importLegacyHistory(vcsPath, storage);
+    if (imported > 0) {
+        console.log(`[VCS] Imported ${imported} legacy commits for ${connectionId}`);
     }
+
+    return { vc, storage };
 }
 
 /**
- * Remove specific pending changes
+ * One-time import of the pre-package web VCS files (commits.json, branches.json, current-branch.txt).
+ * Commit ids are preserved; parents are rebuilt per branch in timestamp order.
+ * Returns the number of imported commits.
  */
-export async function removePendingChanges(connectionId: string, changeIds: string[]): Promise<void> {
-    let current = await getPendingChangesFromStorage(connectionId);
-    
-    // Filter out the committed changes
-    current = current.filter(c => !changeIds.includes(c.id || ''));
-    
-    inMemoryPendingChanges.set(connectionId, current);
-
-    // Persist to file system in local dev
-    if (typeof window === 'undefined' && !process.env.VERCEL) {
-        try {
-            const fs = await import('fs/promises');
-            const path = await import('path');
-            const vcsDir = path.join(process.cwd(), '.bosdb-vcs', connectionId);
-            const pendingPath = path.join(vcsDir, 'pending.json');
-            await fs.writeFile(pendingPath, JSON.stringify({ changes: current }, null, 2));
-        } catch (error) {
-            console.error('[VCS] Failed to persist pending changes removal:', error);
+export async function importLegacyHistory(vcsPath: string, storage: FileStorage): Promise<number> {
+    const markerPath = path.join(vcsPath, LEGACY_IMPORT_MARKER);
+    if (await fileExists(markerPath)) {
+        return 0;
+    }
+
+    const legacyCommits = await readJSON<VCSCommit[]>(path.join(vcsPath, LEGACY_COMMITS_FILE)) || [];
+    const legacyBranches = await readJSON<LegacyBranch[]>(path.join(vcsPath, LEGACY_BRANCHES_FILE)) || [];
+
+    if (legacyCommits.length === 0 && legacyBranches.length === 0) {
+        return 0;
+    }
+
+    const forkPoints = new Map(legacyBranches.map(b => [b.name, b.headCommitId || '']));
+    const heads = new Map<string, string>();
+
+    const ordered = [...legacyCommits].sort((a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    for (const legacy of ordered) {
+        const branchName = legacy.branch || 'main';
+        const parentId = legacy.parentCommitId || heads.get(branchName) || forkPoints.get(branchName) || '';
+        const timestamp = new Date(legacy.timestamp);
+
+        const commit: Commit = {
+            id: legacy.id,
+            message: legacy.message,
+            author: { ...legacy.author, timestamp },
+            timestamp,
+            parentIds: parentId ? [parentId] : [],
+            treeId: legacy.treeId || legacy.id,
+            changes: toCommitChanges(legacy.changes || []),
+            branchName,
+            metadata: { importedFrom: LEGACY_COMMITS_FILE },
+        };
+
+        await storage.saveCommit(commit);
+        heads.set(branchName, commit.id);
+    }
+
+    // Branch heads: last imported commit, else the commit the branch was created from
+    const names = new Set([...forkPoints.keys(), ...heads.keys()]);
+    for (const name of names) {
+        const commitId = heads.get(name) || forkPoints.get(name) || '';
+        const existing = await storage.getBranch(name);
+
+        if (existing && existing.commitId) continue;
+
+        const branch: Branch = existing
+            ? { ...existing, commitId }
+            : { name, commitId, protected: name === 'main' };
+        await storage.saveBranch(branch);
+    }
+
+    try {
+        const current = (await fs.readFile(path.join(vcsPath, LEGACY_CURRENT_BRANCH_FILE), 'utf-8')).trim();
+        if (current && await storage.getBranch(current)) {
+            const config = await storage.getConfig();
+            config.HEAD = current;
+            await storage.saveConfig(config);
         }
+    } catch {
+        // No current branch recorded
     }
+
+    await fs.writeFile(markerPath, JSON.stringify({
+        importedAt: new Date().toISOString(),
+        commits: ordered.length,
+        branches: [...names],
+    }, null, 2));
+
+    return ordered.length;
 }
 
+// ============ Change & Commit Mapping ============
+
 /**
- * Create a commit
+ * Tracked changes are stored on package commits as-is.
+ * The package reads type/operation/target/tableName; query and rollbackSQL ride along for rollback and checkout.
+ * Only table-level changes carry tableName, so indexes, triggers etc. are not mistaken for tables.
  */
-export async function createCommit(commit: VCSCommit): Promise<void> {
-    const commits = inMemoryCommits.get(commit.connectionId) || [];
-    commits.push(commit);
-    inMemoryCommits.set(commit.connectionId, commits);
-
-    // Clear ONLY the committed changes
-    if (commit.changes && commit.changes.length > 0) {
-        const changeIds = commit.changes.map(c => c.id || '').filter(id => id !== '');
-        await removePendingChanges(commit.connectionId, changeIds);
-    } else {
-        // Fallback for safety - clear all if no specific changes tracked (should not happen in new flow)
-        await clearPendingChanges(commit.connectionId);
-    }
+export function toCommitChanges(changes: DatabaseChange[]): Change[] {
+    return changes.map(change => ({
+        ...change,
+        tableName: change.tableName || (change.type === 'DATA' ? change.target : undefined),
+    })) as unknown as Change[];
+}
 
-    // Persist to file system in local dev
-    if (typeof window === 'undefined' && !process.env.VERCEL) {
-        try {
-            const fs = await import('fs/promises');
-            const path = await import('path');
-            const vcsDir = path.join(process.cwd(), '.bosdb-vcs', commit.connectionId);
-            await fs.mkdir(vcsDir, { recursive: true });
-
-            const commitsPath = path.join(vcsDir, 'commits.json');
-            await fs.writeFile(commitsPath, JSON.stringify(commits, null, 2));
-        } catch (error) {
-            console.error('[VCS] Failed to persist commit:', error);
-        }
-    }
+export function toTrackedChanges(changes: Change[]): DatabaseChange[] {
+    return changes as unknown as DatabaseChange[];
+}
+
+export function toAuthor(author?: { name: string; email: string }): Author {
+    return {
+        name: 'System User',
+        email: 'user@bosdb.com',
+        ...author,
+        timestamp: new Date(),
+    };
+}
+
+export function toVCSCommit(connectionId: string, commit: Commit): VCSCommit {
+    return {
+        id: commit.id,
+        connectionId,
+        branch: commit.branchName || 'main',
+        message: commit.message,
+        author: commit.author,
+        changes: toTrackedChanges(commit.changes),
+        timestamp: new Date(commit.timestamp).toISOString(),
+        parentCommitId: commit.parentIds[0],
+        parentIds: commit.parentIds,
+        treeId: commit.treeId,
+    };
 }
 
 /**
- * Get commit history
+ * Get commit history (newest first) for the current branch, or for the given branch
  */
 export async function getCommits(connectionId: string, branch?: string): Promise<VCSCommit[]> {
-    // Try in-memory first
-    let commits = inMemoryCommits.get(connectionId) || [];
-
-    // Fallback to file system
-    if (commits.length === 0 && typeof window === 'undefined' && !process.env.VERCEL) {
-        try {
-            const fs = await import('fs/promises');
-            const path = await import('path');
-            const vcsDir = path.join(process.cwd(), '.bosdb-vcs', connectionId);
-            const commitsPath = path.join(vcsDir, 'commits.json');
-
-            const data = await fs.readFile(commitsPath, 'utf-8');
-            commits = JSON.parse(data);
-            inMemoryCommits.set(connectionId, commits);
-        } catch {
-            commits = [];
+    const { vc, storage } = await getRepository(connectionId);
+
+    let history: Commit[] = [];
+    if (!branch || branch === await vc.getCurrentBranch()) {
+        const result = await vc.log({ maxCount: 1000 });
+        if (!result.success) {
+            throw new Error(result.error);
+        }
+        history = result.data;
+    } else {
+        const ref = await storage.getBranch(branch);
+        if (!ref) {
+            throw new Error(`Branch ${branch} not found`);
         }
-    }
 
-    // Filter by branch if specified
-    if (branch) {
-        commits = commits.filter(c => c.branch === branch);
+        let currentId = ref.commitId;
+        while (currentId && history.length < 1000) {
+            const commit = await storage.getCommit(currentId);
+            if (!commit) break;
+            history.push(commit);
+            currentId = commit.parentIds[0] || '';
+        }
     }
 
-    return commits.sort((a, b) =>
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
+    return history.map(commit => toVCSCommit(connectionId, commit));
 }
 
 /**
- * Get branches
+ * Get the commit the current branch points at
  */
-export async function getBranchesFromStorage(connectionId: string): Promise<VCSBranch[]> {
-    let branches = inMemoryBranches.get(connectionId) || [];
-
-    // Fallback to file system
-    if (branches.length === 0 && typeof window === 'undefined' && !process.env.VERCEL) {
-        try {
-            const fs = await import('fs/promises');
-            const path = await import('path');
-            const vcsDir = path.join(process.cwd(), '.bosdb-vcs', connectionId);
-            const branchesPath = path.join(vcsDir, 'branches.json');
-
-            const data = await fs.readFile(branchesPath, 'utf-8');
-            branches = JSON.parse(data);
-            inMemoryBranches.set(connectionId, branches);
-        } catch {
-            // Initialize with main branch
-            branches = [{
-                name: 'main',
-                connectionId,
-                createdAt: new Date().toISOString()
-            }];
-            inMemoryBranches.set(connectionId, branches);
-        }
-    }
+export async function getHeadCommit(repo: VCSRepository): Promise<Commit | null> {
+    const branch = await repo.storage.getBranch(await repo.vc.getCurrentBranch());
+    return branch?.commitId ? repo.storage.getCommit(branch.commitId) : null;
+}
+
+/**
+ * Get current branch
+ */
+export async function getCurrentBranch(connectionId: string): Promise<string> {
+    const { vc } = await getRepository(connectionId);
+    return vc.getCurrentBranch();
+}
 
-    // Ensure main branch exists
-    if (!branches.find(b => b.name === 'main')) {
-        branches.unshift({
-            name: 'main',
-            connectionId,
-            createdAt: new Date().toISOString()
-        });
+// ============ Pending Changes ============
+
+/**
+ * Get pending changes for a connection
+ */
+export async function getPendingChangesFromStorage(connectionId: string): Promise<DatabaseChange[]> {
+    if (inMemoryPendingChanges.has(connectionId)) {
+        return inMemoryPendingChanges.get(connectionId) || [];
     }
 
-    return branches;
+    const parsed = await readJSON<{ changes: DatabaseChange[] }>(path.join(getVCSPath(connectionId), 'pending.json'));
+    const changes = parsed?.changes || [];
+    inMemoryPendingChanges.set(connectionId, changes);
+    return changes;
 }
 
 /**
- * Create branch
+ * Add pending change
  */
-export async function createBranchInStorage(connectionId: string, name: string): Promise<void> {
-    const branches = await getBranchesFromStorage(connectionId);
-
-    if (branches.find(b => b.name === name)) {
-        throw new Error(`Branch ${name} already exists`);
-    }
+export async function addPendingChange(connectionId: string, change: DatabaseChange): Promise<void> {
+    const current = await getPendingChangesFromStorage(connectionId);
 
-    const commits = await getCommits(connectionId);
-    const headCommitId = commits[0]?.id;
+    const newChange = {
+        ...change,
+        id: change.id || `change-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: change.timestamp || new Date().toISOString()
+    };
 
-    branches.push({
-        name,
-        connectionId,
-        headCommitId,
-        createdAt: new Date().toISOString()
-    });
-
-    inMemoryBranches.set(connectionId, branches);
-
-    // Persist
-    if (typeof window === 'undefined' && !process.env.VERCEL) {
-        try {
-            const fs = await import('fs/promises');
-            const path = await import('path');
-            const vcsDir = path.join(process.cwd(), '.bosdb-vcs', connectionId);
-            await fs.mkdir(vcsDir, { recursive: true });
-
-            const branchesPath = path.join(vcsDir, 'branches.json');
-            await fs.writeFile(branchesPath, JSON.stringify(branches, null, 2));
-        } catch (error) {
-            console.error('[VCS] Failed to persist branch:', error);
-        }
-    }
+    await savePendingChanges(connectionId, [...current, newChange]);
 }
 
 /**
- * Get current branch
+ * Clear pending changes
  */
-export async function getCurrentBranch(connectionId: string): Promise<string> {
-    return inMemoryCurrentBranch.get(connectionId) || 'main';
+export async function clearPendingChanges(connectionId: string): Promise<void> {
+    await savePendingChanges(connectionId, []);
 }
 
 /**
- * Switch branch
+ * Remove specific pending changes
  */
-export async function switchBranch(connectionId: string, branchName: string): Promise<void> {
-    const branches = await getBranchesFromStorage(connectionId);
+export async function removePendingChanges(connectionId: string, changeIds: string[]): Promise<void> {
+    const current = await getPendingChangesFromStorage(connectionId);
 
-    if (!branches.find(b => b.name === branchName)) {
-        throw new Error(`Branch ${branchName} does not exist`);
-    }
+    // Filter out the committed changes
+    await savePendingChanges(connectionId, current.filter(c => !changeIds.includes(c.id || '')));
+}
 
-    inMemoryCurrentBranch.set(connectionId, branchName);
+async function savePendingChanges(connectionId: string, changes: DatabaseChange[]): Promise<void> {
+    inMemoryPendingChanges.set(connectionId, changes);
 
-    // Persist current branch
-    if (typeof window === 'undefined' && !process.env.VERCEL) {
-        try {
-            const fs = await import('fs/promises');
-            const path = await import('path');
-            const vcsDir = path.join(process.cwd(), '.bosdb-vcs', connectionId);
-            await fs.mkdir(vcsDir, { recursive: true });
+    try {
+        const vcsDir = getVCSPath(connectionId);
+        await fs.mkdir(vcsDir, { recursive: true });
+        await fs.writeFile(path.join(vcsDir, 'pending.json'), JSON.stringify({ changes }, null, 2));
+    } catch (error) {
+        console.error('[VCS] Failed to persist pending changes:', error);
+        // Continue anyway - in-memory copy is still valid
+    }
+}
 
-            const currentBranchPath = path.join(vcsDir, 'current-branch.txt');
-            await fs.writeFile(currentBranchPath, branchName);
-        } catch {
-            // Ignore
-        }
+// ============ Helpers ============
+
+async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
     }
 }
 
-/**
- * Get commit by ID
- */
-export async function getCommitById(connectionId: string, commitId: string): Promise<VCSCommit | null> {
-    const commits = await getCommits(connectionId);
-    return commits.find(c => c.id === commitId) || null;
+async function readJSON<T>(filePath: string): Promise<T | null> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+        return null;
+    }
 }
@@ -7,6 +7,9 @@ export const DEFAULT_QUERY_TIMEOUT = 30000; // 30 seconds
 export const MAX_QUERY_TIMEOUT = 300000; // 5 minutes
 export const DEFAULT_MAX_ROWS = 1000;
 export const MAX_ROWS_LIMIT = 100000;
+export const CURSOR_IDLE_TIMEOUT = 300000; // 5 minutes before an unread cursor is closed
+export const TRANSACTION_IDLE_TIMEOUT = 600000; // 10 minutes before an idle transaction is rolled back
+export const DEFAULT_TIME_RANGE = 3600000; // 1 hour window for time-series queries sent without one
 
 // Connection Limits
 export const DEFAULT_CONNECTION_TIMEOUT = 5000; // 5 seconds
@@ -30,7 +33,7 @@ export const DEFAULT_PORTS: Record<string, number> = {
 };
 
 // Export Format
-export type ExportFormat = 'csv' | 'json' | 'sql';
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx' | 'sql' | 'markdown' | 'parquet';
 
 // Pagination
 export const DEFAULT_PAGE_SIZE = 50;
@@ -0,0 +1,119 @@
+import { describe, expect, it } from '@jest/globals';
+import { bindParameters, findPlaceholders, formatSQLLiteral, inlineParameters } from './index';
+
+const tokens = (query: string, language?: 'sql' | 'cypher') => findPlaceholders(query, language).map((p) => p.token);
+
+describe('findPlaceholders', () => {
+    it('finds positional and named placeholders with their positions', () => {
+        expect(findPlaceholders('SELECT * FROM t WHERE a = $1 AND b = :name')).toEqual([
+            { name: '1', token: '$1', position: 26 },
+            { name: 'name', token: ':name', position: 37 },
+        ]);
+    });
+
+    it('ignores string literals, quoted identifiers and comments', () => {
+        const query = [
+            "SELECT ':a', 'it''s $1', \"col:b\", `x$2`",
+            "FROM t -- WHERE c = :c",
+            "/* $3 */ WHERE d = :d",
+        ].join('\n');
+        expect(tokens(query)).toEqual([':d']);
+    });
+
+    it('ignores casts, dollar-quoted bodies and identifiers containing $ or :', () => {
+        expect(tokens("SELECT a::int, $$ :x $1 $$, $body$ :y $body$, price$1, x:y FROM t WHERE id = $2")).toEqual(['$2']);
+    });
+
+    it('skips :new and :old row references in Oracle trigger bodies', () => {
+        const trigger = 'BEGIN :NEW.updated_at := SYSDATE; :old . id := :id; END;';
+        expect(tokens(trigger)).toEqual([':id']);
+    });
+
+    it('still treats :new as a placeholder outside a row reference', () => {
+        expect(tokens('UPDATE t SET flag = :new WHERE id = :id')).toEqual([':new', ':id']);
+    });
+
+    describe('cypher', () => {
+        it('finds $name and $n, and leaves labels and map keys alone', () => {
+            expect(tokens('MATCH (n:Person {name: $name})-[:KNOWS]->(m) WHERE m.age > $1 RETURN n', 'cypher'))
+                .toEqual(['$name', '$1']);
+        });
+
+        it('ignores strings with backslash escapes and // comments', () => {
+            expect(tokens("MATCH (n) WHERE n.s = 'it\\'s $a' // $b\nRETURN $c", 'cypher')).toEqual(['$c']);
+        });
+    });
+});
+
+describe('bindParameters', () => {
+    it('rewrites placeholders into each driver style', () => {
+        const query = 'SELECT * FROM t WHERE a = :a AND b = :b AND c = :a';
+        const params = { a: 1, b: 'x' };
+
+        expect(bindParameters(query, params, 'dollar')).toEqual({
+            query: 'SELECT * FROM t WHERE a = $1 AND b = $2 AND c = $3',
+            values: [1, 'x', 1],
+        });
+        expect(bindParameters(query, params, 'question').query).toBe('SELECT * FROM t WHERE a = ? AND b = ? AND c = ?');
+        expect(bindParameters(query, params, 'at').query).toBe('SELECT * FROM t WHERE a = @p1 AND b = @p2 AND c = @p3');
+        expect(bindParameters(query, params, 'colon').query).toBe('SELECT * FROM t WHERE a = :p1 AND b = :p2 AND c = :p3');
+    });
+
+    it('takes positional values from an array', () => {
+        expect(bindParameters('SELECT $2, $1', ['a', 'b'], 'question')).toEqual({ query: 'SELECT ?, ?', values: ['b', 'a'] });
+    });
+
+    it('passes native placeholders through unchanged', () => {
+        expect(bindParameters('SELECT * FROM t WHERE id = ?', [5], 'question')).toEqual({ query: 'SELECT * FROM t WHERE id = ?', values: [5] });
+    });
+
+    it('rejects missing values and named placeholders with an array', () => {
+        expect(() => bindParameters('SELECT $2', ['a'], 'dollar')).toThrow('No value for parameter $2');
+        expect(() => bindParameters('SELECT :id', ['a'], 'dollar')).toThrow('needs an object of values');
+    });
+});
+
+describe('inlineParameters', () => {
+    it('renders values as SQL literals', () => {
+        expect(inlineParameters("UPDATE t SET a = :a, b = :b, c = :c WHERE d = ':a'", { a: "o'brien", b: null, c: true }))
+            .toBe("UPDATE t SET a = 'o''brien', b = NULL, c = TRUE WHERE d = ':a'");
+    });
+
+    it('escapes backslashes only for MySQL-family dialects', () => {
+        expect(formatSQLLiteral('a\\b', 'mysql')).toBe("'a\\\\b'");
+        expect(formatSQLLiteral('a\\b', 'postgresql')).toBe("'a\\b'");
+    });
+});
+
+describe('formatSQLLiteral', () => {
+    it('writes booleans as 1/0 where the dialect has no boolean literal', () => {
+        expect(formatSQLLiteral(true, 'postgres')).toBe('TRUE');
+        expect(formatSQLLiteral(false, 'mysql')).toBe('FALSE');
+        expect(formatSQLLiteral(true, 'mssql')).toBe('1');
+        expect(formatSQLLiteral(false, 'oracle')).toBe('0');
+    });
+
+    it('writes binary data as a hex literal per dialect', () => {
+        const bytes = Buffer.from([0x00, 0xab, 0x10]);
+        expect(formatSQLLiteral(bytes, 'postgres')).toBe("'\\x00ab10'");
+        expect(formatSQLLiteral(bytes, 'mysql')).toBe("X'00ab10'");
+        expect(formatSQLLiteral(new Uint8Array([0xff]), 'sqlite')).toBe("X'ff'");
+        expect(formatSQLLiteral(bytes, 'mssql')).toBe('0x00ab10');
+        expect(formatSQLLiteral(bytes, 'oracle')).toBe("HEXTORAW('00ab10')");
+    });
+
+    it('writes dates in UTC in a form each dialect accepts', () => {
+        const date = new Date('2024-03-01T12:30:45.123Z');
+        expect(formatSQLLiteral(date, 'postgres')).toBe("'2024-03-01T12:30:45.123Z'");
+        expect(formatSQLLiteral(date, 'mariadb')).toBe("'2024-03-01 12:30:45.123'");
+        expect(formatSQLLiteral(date, 'oracle')).toBe("TIMESTAMP '2024-03-01 12:30:45.123'");
+        expect(formatSQLLiteral(date, 'mssql')).toBe("'2024-03-01T12:30:45.123'");
+    });
+
+    it('writes SQL Server strings as N literals and other values as JSON text', () => {
+        expect(formatSQLLiteral("O'Brien", 'mssql')).toBe("N'O''Brien'");
+        expect(formatSQLLiteral({ a: "it's" }, 'postgres')).toBe('\'{"a":"it\'\'s"}\'');
+        expect(formatSQLLiteral(Infinity)).toBe('NULL');
+        expect(formatSQLLiteral(12345678901234567890n)).toBe('12345678901234567890');
+    });
+});
@@ -0,0 +1,282 @@
+/**
+ * Bound query parameters
+ *
+ * Queries may use `$1`-style positional or `:name`-style named placeholders regardless of the
+ * target database; adapters rewrite them into their driver's native form with bindParameters().
+ */
+
+export type QueryParams = unknown[] | Record<string, unknown>;
+
+export interface QueryPlaceholder {
+    name: string;      // '1' for $1 or :1, 'id' for :id
+    token: string;     // As written in the query
+    position: number;  // Offset of the token in the query
+}
+
+/**
+ * Native placeholder syntax of a driver:
+ * dollar = $1, $2 (pg) | question = ? (mysql2, cassandra) | at = @p1 (mssql) | colon = :p1 (oracledb)
+ */
+export type PlaceholderStyle = 'dollar' | 'question' | 'at' | 'colon';
+
+export interface BoundQuery {
+    query: string;
+    values: unknown[];  // One per emitted placeholder, in order; named styles use p1, p2, ...
+}
+
+/**
+ * Query languages with their own placeholder syntax: Cypher (Neo4j) uses `$name` and `$n`
+ * natively, and `:` there starts a label or relationship type
+ */
+export type PlaceholderLanguage = 'sql' | 'cypher';
+
+/**
+ * Find `$n` and `:name` placeholders, ignoring string literals, quoted identifiers,
+ * comments, dollar-quoted bodies, `::` casts and Oracle trigger references (`:new.col`, `:old.col`).
+ * In Cypher, find `$name` and `$n` instead.
+ */
+export function findPlaceholders(query: string, language: PlaceholderLanguage = 'sql'): QueryPlaceholder[] {
+    const cypher = language === 'cypher';
+    const placeholders: QueryPlaceholder[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+        const ch = query[i];
+        const next = query[i + 1];
+
+        if (ch === "'" || ch === '"' || ch === '`') {
+            // Cypher strings escape with a backslash; identifiers in backticks double them like SQL
+            i = skipQuoted(query, i, ch, cypher && ch !== '`');
+        } else if ((ch === '-' && next === '-' && !cypher) || (ch === '/' && next === '/' && cypher)) {
+            const end = query.indexOf('\n', i);
+            i = end === -1 ? query.length : end;
+        } else if (ch === '/' && next === '*') {
+            const end = query.indexOf('*/', i + 2);
+            i = end === -1 ? query.length : end + 2;
+        } else if (ch === '$' && cypher) {
+            const named = !isIdentChar(query[i - 1]) && /^\$([A-Za-z_]\w*|\d+)/.exec(query.slice(i));
+            if (named) {
+                placeholders.push({ name: named[1], token: named[0], position: i });
+                i += named[0].length;
+            } else {
+                i++;
+            }
+        } else if (cypher) {
+            i++;
+        } else if (ch === '$' && !isIdentChar(query[i - 1])) {
+            const digits = /^\$(\d+)/.exec(query.slice(i));
+            const tag = /^\$([A-Za-z_]\w*)?\$/.exec(query.slice(i));
+            if (digits) {
+                placeholders.push({ name: digits[1], token: digits[0], position: i });
+                i += digits[0].length;
+            } else if (tag) {
+                // Dollar-quoted string: skip to the matching closing tag
+                const end = query.indexOf(tag[0], i + tag[0].length);
+                i = end === -1 ? query.length : end + tag[0].length;
+            } else {
+                i++;
+            }
+        } else if (ch === ':' && next === ':') {
+            i += 2;
+        } else if (ch === ':' && !isIdentChar(query[i - 1]) && query[i - 1] !== ':') {
+            const named = /^:([A-Za-z_]\w*|\d+)/.exec(query.slice(i));
+            if (named && /^:(new|old)\s*\./i.test(query.slice(i))) {
+                // Row pseudo-records in an Oracle trigger body
+                i += named[0].length;
+            } else if (named) {
+                placeholders.push({ name: named[1], token: named[0], position: i });
+                i += named[0].length;
+            } else {
+                i++;
+            }
+        } else {
+            i++;
+        }
+    }
+
+    return placeholders;
+}
+
+/**
+ * Rewrite placeholders into a driver's native style and collect their values in order.
+ * `$n`/`:n` take the n-th array entry (or key "n"); `:name` needs an object of values.
+ * A query without recognised placeholders is returned unchanged with array params passed through,
+ * so native placeholders such as `?` keep working.
+ */
+export function bindParameters(query: string, params: QueryParams, style: PlaceholderStyle): BoundQuery {
+    const placeholders = findPlaceholders(query);
+
+    if (placeholders.length === 0) {
+        return { query, values: Array.isArray(params) ? params : [] };
+    }
+
+    const values: unknown[] = [];
+    let rewritten = '';
+    let last = 0;
+
+    for (const placeholder of placeholders) {
+        values.push(lookupParameter(params, placeholder));
+        rewritten += query.slice(last, placeholder.position) + nativePlaceholder(style, values.length);
+        last = placeholder.position + placeholder.token.length;
+    }
+
+    return { query: rewritten + query.slice(last), values };
+}
+
+/**
+ * Replace placeholders with SQL literals, for statements that are stored rather than executed
+ * (e.g. version-control history)
+ */
+export function inlineParameters(query: string, params: QueryParams, dialect?: string): string {
+    let result = '';
+    let last = 0;
+
+    for (const placeholder of findPlaceholders(query)) {
+        result += query.slice(last, placeholder.position) + formatSQLLiteral(lookupParameter(params, placeholder), dialect);
+        last = placeholder.position + placeholder.token.length;
+    }
+
+    return result + query.slice(last);
+}
+
+/**
+ * Render a value as a SQL literal for a database type (e.g. 'postgres', 'mssql'):
+ * - booleans are 1/0 where there is no boolean literal (SQL Server, Oracle)
+ * - binary data (Uint8Array, Buffer) becomes a hex literal, e.g. '\x..' on PostgreSQL or 0x.. on SQL Server
+ * - dates are written in UTC in a form the dialect accepts, e.g. without the ISO 'T' and 'Z' on MySQL
+ * - MySQL-family dialects also escape backslashes; SQL Server strings are N'' literals
+ */
+export function formatSQLLiteral(value: unknown, dialect?: string): string {
+    const family = literalFamily(dialect);
+
+    if (value === null || value === undefined) return 'NULL';
+    if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+    if (typeof value === 'bigint') return value.toString();
+    if (typeof value === 'boolean') {
+        if (family === 'mssql' || family === 'oracle') return value ? '1' : '0';
+        return value ? 'TRUE' : 'FALSE';
+    }
+    if (value instanceof Uint8Array) return formatBinaryLiteral(value, family);
+    if (value instanceof Date && !isNaN(value.getTime())) return formatTimestampLiteral(value, family);
+
+    const text = typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : String(value);
+    const escaped = family === 'mysql'
+        ? text.replace(/\\/g, '\\\\').replace(/'/g, "''")
+        : text.replace(/'/g, "''");
+
+    return family === 'mssql' ? `N'${escaped}'` : `'${escaped}'`;
+}
+
+// ============ Helpers ============
+
+type LiteralFamily = 'postgres' | 'mysql' | 'mssql' | 'oracle' | 'standard';
+
+// Database types whose literals differ from standard SQL; MySQL-family ones escape with backslashes
+const LITERAL_FAMILIES: Record<string, LiteralFamily> = {
+    postgres: 'postgres',
+    postgresql: 'postgres',
+    cockroachdb: 'postgres',
+    yugabyte: 'postgres',
+    timescaledb: 'postgres',
+    greenplum: 'postgres',
+    mysql: 'mysql',
+    mariadb: 'mysql',
+    tidb: 'mysql',
+    singlestore: 'mysql',
+    mssql: 'mssql',
+    sqlserver: 'mssql',
+    azuresql: 'mssql',
+    oracle: 'oracle',
+};
+
+function literalFamily(dialect?: string): LiteralFamily {
+    return LITERAL_FAMILIES[(dialect || '').toLowerCase()] || 'standard';
+}
+
+function formatBinaryLiteral(bytes: Uint8Array, family: LiteralFamily): string {
+    const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    switch (family) {
+        case 'postgres':
+            return `'\\x${hex}'`;
+        case 'mssql':
+            return `0x${hex}`;
+        case 'oracle':
+            return `HEXTORAW('${hex}')`;
+        default:
+            return `X'${hex}'`;
+    }
+}
+
+function formatTimestampLiteral(date: Date, family: LiteralFamily): string {
+    const iso = date.toISOString();
+    // 'YYYY-MM-DD HH:MM:SS.mmm' without a zone, which DATETIME and TIMESTAMP literals accept
+    const plain = iso.slice(0, -1).replace('T', ' ');
+    switch (family) {
+        case 'mysql':
+            return `'${plain}'`;
+        case 'oracle':
+            return `TIMESTAMP '${plain}'`;
+        case 'mssql':
+            // The 'T' form is read the same way under every DATEFORMAT and language setting
+            return `'${iso.slice(0, -1)}'`;
+        default:
+            return `'${iso}'`;
+    }
+}
+
+function lookupParameter(params: QueryParams, placeholder: QueryPlaceholder): unknown {
+    const isIndex = /^\d+$/.test(placeholder.name);
+
+    if (Array.isArray(params)) {
+        if (!isIndex) {
+            throw new Error(`Named parameter ${placeholder.token} needs an object of values`);
+        }
+        const index = Number(placeholder.name) - 1;
+        if (index < 0 || index >= params.length) {
+            throw new Error(`No value for parameter ${placeholder.token}`);
+        }
+        return params[index];
+    }
+
+    if (!(placeholder.name in params)) {
+        throw new Error(`No value for parameter ${placeholder.token}`);
+    }
+    return params[placeholder.name];
+}
+
+function nativePlaceholder(style: PlaceholderStyle, n: number): string {
+    switch (style) {
+        case 'dollar':
+            return `$${n}`;
+        case 'question':
+            return '?';
+        case 'at':
+            return `@p${n}`;
+        case 'colon':
+            return `:p${n}`;
+    }
+}
+
+function skipQuoted(query: string, start: number, quote: string, backslashEscapes: boolean = false): number {
+    let i = start + 1;
+    while (i < query.length) {
+        if (backslashEscapes && query[i] === '\\') {
+            i += 2;
+            continue;
+        }
+        if (query[i] === quote) {
+            // Doubled quote is an escaped quote
+            if (query[i + 1] === quote) {
+                i += 2;
+                continue;
+            }
+            return i + 1;
+        }
+        i++;
+    }
+    return query.length;
+}
+
+function isIdentChar(ch: string | undefined): boolean {
+    return !!ch && /[\w$]/.test(ch);
+}
@@ -2,6 +2,8 @@
  * Core type definitions for BosDB
  */
 
+import type { QueryParams } from '../params';
+
 // Database Types
 export type DatabaseType = 'postgresql' | 'mysql' | 'mariadb' | 'mongodb' | 'redis' | 'cockroachdb';
 
@@ -82,9 +84,20 @@ export interface TestResult {
 export interface QueryRequest {
     connectionId: string;
     query: string;
+    params?: QueryParams;  // Values for $1 / :name placeholders, bound by the adapter
     timeout?: number;
     maxRows?: number;
-    streamResults?: boolean;
+    streamResults?: boolean;  // Read through a server-side cursor, maxRows per page
+    cursor?: string;          // Continuation token from a previous page's QueryResult.cursor
+    queryId?: string;         // Caller-chosen ID for cancelQuery()
+    transactionId?: string;   // Run inside a transaction from beginTransaction()
+    timeRange?: TimeRange;    // Window for time-series queries (InfluxDB, Prometheus)
+}
+
+export interface TimeRange {
+    start: string;   // ISO 8601
+    stop: string;    // ISO 8601
+    step?: number;   // Seconds between points of a PromQL range query; derived from the window when omitted
 }
 
 export interface QueryResult {
@@ -93,7 +106,16 @@ export interface QueryResult {
     rowCount: number;
     executionTime: number;
     hasMore?: boolean;
-    cursor?: string;
+    cursor?: string;  // Set while a streamed query has more pages
+}
+
+export interface BulkInsertRequest {
+    connectionId: string;
+    schema: string;
+    table: string;
+    columns: Column[];        // Target columns, as describeTable() returns them
+    rows: unknown[][];        // Values in column order, already coerced (number, boolean, Date, Buffer, string or null)
+    transactionId?: string;   // Insert inside a transaction from beginTransaction()
 }
 
 export interface QueryField {
@@ -151,6 +173,10 @@ export interface Column {
     isPrimaryKey: boolean;
     isForeignKey: boolean;
     comment?: string;
+    nativeType?: string;    // Full type as the engine reports it, e.g. MySQL "int(10) unsigned"
+    extra?: string;         // Engine-specific attributes, e.g. MySQL "auto_increment" or "on update CURRENT_TIMESTAMP"
+    characterSet?: string;
+    collation?: string;
 }
 
 export interface Index {
@@ -209,6 +235,48 @@ export interface DatabaseInfo {
     collation?: string;
 }
 
+// Redis Key Browser Types
+export type RedisKeyType = 'string' | 'hash' | 'list' | 'set' | 'zset' | 'stream' | 'ReJSON-RL' | 'none';
+
+export interface RedisKeySummary {
+    key: string;
+    type: RedisKeyType | string;  // Module types (e.g. TSDB-TYPE) are passed through as reported
+    ttl: number;                  // Seconds; -1 without expiry
+}
+
+export interface RedisKeyScan {
+    keys: RedisKeySummary[];
+    cursor: string;               // '0' once the whole keyspace has been scanned
+}
+
+export interface RedisKeyValue {
+    key: string;
+    type: RedisKeyType | string;
+    ttl: number;
+    length: number;               // Characters of a string, otherwise number of items
+    memory?: number;              // Bytes from MEMORY USAGE, when the server allows it
+    encoding?: string;
+    value: unknown;               // Shape depends on the type, see RedisAdapter.getKey()
+    cursor?: string;              // Set while the collection has more items to page through
+}
+
+export type RedisKeyChange =
+    | { op: 'set'; value: string }
+    | { op: 'hset'; field: string; value: string }
+    | { op: 'hdel'; field: string }
+    | { op: 'lset'; index: number; value: string }
+    | { op: 'lpush' | 'rpush'; value: string }
+    | { op: 'lrem'; index: number }
+    | { op: 'sadd' | 'srem'; member: string }
+    | { op: 'zadd'; member: string; score: number }
+    | { op: 'zrem'; member: string }
+    | { op: 'xadd'; fields: Record<string, string> }
+    | { op: 'xdel'; id: string }
+    | { op: 'json'; value: string }
+    | { op: 'expire'; ttl: number | null }  // null removes the expiry
+    | { op: 'rename'; newKey: string }
+    | { op: 'delete' };
+
 // Error Types
 export class BosDBError extends Error {
     constructor(
@@ -12,6 +12,11 @@ import { OracleAdapter } from './adapters/oracle/OracleAdapter';
 import { CassandraAdapter } from './adapters/cassandra/CassandraAdapter';
 import { ElasticsearchAdapter } from './adapters/elasticsearch/ElasticsearchAdapter';
 import { Neo4jAdapter } from './adapters/neo4j/Neo4jAdapter';
+import { SQLiteAdapter } from './adapters/sqlite/SQLiteAdapter';
+import { DuckDBAdapter } from './adapters/duckdb/DuckDBAdapter';
+import { ClickHouseAdapter } from './adapters/clickhouse/ClickHouseAdapter';
+import { InfluxDBAdapter } from './adapters/influxdb/InfluxDBAdapter';
+import { PrometheusAdapter } from './adapters/prometheus/PrometheusAdapter';
 
 /**
  * Factory for creating database adapter instances
@@ -86,12 +91,28 @@ export class AdapterFactory {
             case 'orientdb': // OrientDB has similar graph structure, can use Neo4j adapter for basics or fallback
                 return new Neo4jAdapter();
 
-            // Analytics & others (fallback to PostgreSQL for now until specific adapters exist)
-            case 'clickhouse':
+            // Embedded, file-based databases
+            case 'sqlite':
+            case 'sqlite3':
+                return new SQLiteAdapter();
+
             case 'duckdb':
+                return new DuckDBAdapter();
+
+            // Analytics
+            case 'clickhouse':
+                return new ClickHouseAdapter();
+
+            // Time series
+            case 'influxdb':
+                return new InfluxDBAdapter();
+
+            case 'prometheus':
+                return new PrometheusAdapter();
+
+            // Others (fallback to PostgreSQL for now until specific adapters exist)
             case 'trino':
             case 'presto':
-            case 'influxdb':
                 return new PostgreSQLAdapter();
 
             default:
@@ -110,7 +131,11 @@ export class AdapterFactory {
             // NoSQL
             'mongodb', 'cassandra', 'redis', 'ferretdb', 'scylladb',
             // Graph & Search
-            'neo4j', 'elasticsearch', 'opensearch'
+            'neo4j', 'elasticsearch', 'opensearch',
+            // Embedded
+            'sqlite', 'duckdb',
+            // Analytics & time series
+            'clickhouse', 'influxdb', 'prometheus'
         ];
     }
 }
@@ -9,9 +9,10 @@ import {
     Table,
     TableMetadata,
     Index,
-    DatabaseInfo
+    DatabaseInfo,
+    bindParameters
 } from '@bosdb/core';
-import { BaseDBAdapter } from '../../interfaces/IDBAdapter';
+import { BaseDBAdapter, CursorSource } from '../../interfaces/IDBAdapter';
 
 /**
  * Apache Cassandra Database Adapter
@@ -50,6 +51,7 @@ export class CassandraAdapter extends BaseDBAdapter {
 
     async disconnect(connectionId: string): Promise<void> {
         const client = this.getConnection<any>(connectionId);
+        await this.releaseSessions(connectionId);
         await client.shutdown();
         this.connectionMap.delete(connectionId);
     }
@@ -159,10 +161,23 @@ export class CassandraAdapter extends BaseDBAdapter {
     }
 
     async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+
         const client = this.getConnection<any>(request.connectionId);
         const start = Date.now();
 
-        const result = await client.execute(request.query);
+        const bound = request.params ? bindParameters(request.query, request.params, 'question') : null;
+
+        if (request.streamResults) {
+            const source = this.toPagedSource(client, bound?.query || request.query, bound?.values);
+            return this.openCursor(request.connectionId, source, request, start);
+        }
+
+        const result = bound
+            ? await client.execute(bound.query, bound.values, { prepare: true })
+            : await client.execute(request.query);
 
         return {
             rows: result.rows || [],
@@ -175,6 +190,41 @@ export class CassandraAdapter extends BaseDBAdapter {
         };
     }
 
+    /**
+     * Page with the driver's paging state; nothing is held open on the server between pages
+     */
+    private toPagedSource(client: any, query: string, values?: unknown[]): CursorSource {
+        let pageState: string | undefined;
+        let done = false;
+
+        const source: CursorSource = {
+            fields: [],
+            read: async (count) => {
+                if (done) return [];
+
+                const result = await client.execute(query, values || [], {
+                    prepare: values !== undefined,
+                    fetchSize: count,
+                    pageState,
+                });
+
+                source.fields = result.columns?.map((col: any) => ({
+                    name: col.name,
+                    dataType: col.type.code?.toString() || 'unknown'
+                })) || [];
+                pageState = result.pageState || undefined;
+                done = !pageState;
+
+                return result.rows || [];
+            },
+            close: async () => {
+                done = true;
+            },
+        };
+
+        return source;
+    }
+
     async explainQuery(_connectionId: string, _query: string): Promise<ExplainResult> {
         // Cassandra doesn't have traditional EXPLAIN
         return {
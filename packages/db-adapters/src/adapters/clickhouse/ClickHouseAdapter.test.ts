@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ClickHouseAdapter } from './ClickHouseAdapter';
+
+type Rows = Record<string, unknown>[];
+
+// Rows the fake server answers each query with, by the first pattern that matches
+let mockAnswers: [RegExp, Rows][] = [];
+const mockQuery = jest.fn((request: { query: string; query_params?: Record<string, unknown> }) => {
+    const rows = mockAnswers.find(([pattern]) => pattern.test(request.query))?.[1] ?? [];
+    return Promise.resolve(mockResultSet(rows));
+});
+const mockCommand = jest.fn((_request: { query: string; query_params?: Record<string, unknown> }) =>
+    Promise.resolve({ summary: { written_rows: '3' } }));
+const mockClose = jest.fn();
+
+// Rows arrive in batches of two, as a JSONEachRow response does in chunks
+function mockResultSet(rows: Rows) {
+    return {
+        json: async () => rows,
+        stream: () => (async function* () {
+            for (let i = 0; i < rows.length; i += 2) {
+                yield rows.slice(i, i + 2).map((row) => ({ json: () => row }));
+            }
+        })(),
+        close: mockClose,
+    };
+}
+
+jest.mock('@clickhouse/client', () => ({
+    createClient: () => ({
+        query: (request: any) => mockQuery(request),
+        command: (request: any) => mockCommand(request),
+        close: async () => undefined,
+    }),
+}));
+
+let adapter: ClickHouseAdapter;
+let connectionId: string;
+
+beforeEach(async () => {
+    mockAnswers = [[/version\(\)/, [{ version: '24.3.1' }]]];
+    mockQuery.mockClear();
+    mockCommand.mockClear();
+    mockClose.mockClear();
+
+    adapter = new ClickHouseAdapter();
+    const result = await adapter.connect({ name: 'ch', type: 'clickhouse', host: 'localhost', port: 8123, database: 'analytics', username: '', password: '' } as any);
+    expect(result).toMatchObject({ success: true, version: '24.3.1' });
+    connectionId = result.connectionId;
+});
+
+describe('ClickHouseAdapter', () => {
+    it('rewrites placeholders into typed query parameters', async () => {
+        const at = new Date('2024-03-01T00:00:00Z');
+
+        await adapter.executeQuery({ connectionId, query: 'SELECT * FROM t WHERE a = $1 AND b = $2 AND c = $3 AND d > $4 AND e = $5', params: [7, 1.5, 'x', at, null] });
+
+        const request = mockQuery.mock.calls.find(([call]) => call.query.startsWith('SELECT * FROM t'))![0];
+        expect(request.query).toBe('SELECT * FROM t WHERE a = {p1:Int64} AND b = {p2:Float64} AND c = {p3:String} AND d > {p4:DateTime64(3)} AND e = {p5:Nullable(String)}');
+        expect(request.query_params).toEqual({ p1: 7, p2: 1.5, p3: 'x', p4: at, p5: null });
+    });
+
+    it('passes ClickHouse\'s own parameters through', async () => {
+        await adapter.executeQuery({ connectionId, query: 'SELECT {id:UInt32} AS id', params: { id: 5 } });
+
+        expect(mockQuery.mock.calls.some(([call]) => call.query === 'SELECT {id:UInt32} AS id' && (call.query_params as any)?.id === 5)).toBe(true);
+    });
+
+    it('reads one row past the page and closes the rest of the response', async () => {
+        mockAnswers.unshift(
+            [/^DESCRIBE TABLE/, [{ name: 'n', type: 'UInt64' }, { name: 'label', type: 'Nullable(String)' }]],
+            [/FROM numbers/, [{ n: '1', label: 'a' }, { n: '2', label: null }, { n: '3', label: 'c' }, { n: '4', label: 'd' }]],
+        );
+
+        const result = await adapter.executeQuery({ connectionId, query: 'SELECT n, label FROM numbers(4)', maxRows: 2 });
+
+        expect(result).toMatchObject({ rows: [{ n: '1', label: 'a' }, { n: '2', label: null }], rowCount: 2, hasMore: true });
+        expect(result.fields).toEqual([{ name: 'n', dataType: 'UInt64', nullable: false }, { name: 'label', dataType: 'Nullable(String)', nullable: true }]);
+        expect(mockClose).toHaveBeenCalled();
+    });
+
+    it('streams a SELECT through a cursor but returns other statements as one page', async () => {
+        mockAnswers.unshift(
+            [/^DESCRIBE TABLE/, [{ name: 'n', type: 'UInt64' }]],
+            [/FROM numbers/, [{ n: '1' }, { n: '2' }, { n: '3' }]],
+            [/^SHOW TABLES/, [{ name: 'events' }]],
+        );
+
+        const first = await adapter.executeQuery({ connectionId, query: 'SELECT n FROM numbers(3)', streamResults: true, maxRows: 2 });
+        const rest = await adapter.executeQuery({ connectionId, query: '', cursor: first.cursor, maxRows: 2 });
+        expect([first.rows, rest.rows, rest.cursor]).toEqual([[{ n: '1' }, { n: '2' }], [{ n: '3' }], undefined]);
+
+        const show = await adapter.executeQuery({ connectionId, query: 'SHOW TABLES', streamResults: true });
+        expect(show).toMatchObject({ rows: [{ name: 'events' }], fields: [{ name: 'name', dataType: 'unknown' }] });
+        expect(show.cursor).toBeUndefined();
+    });
+
+    it('sends other statements as commands and counts the rows they wrote', async () => {
+        const result = await adapter.executeQuery({ connectionId, query: 'INSERT INTO t SELECT * FROM s' });
+
+        expect(result.rowCount).toBe(3);
+        expect(mockCommand.mock.calls[0][0].query).toBe('INSERT INTO t SELECT * FROM s');
+    });
+
+    it('describes column types and reports table keys and skipping indexes as indexes', async () => {
+        mockAnswers.unshift(
+            [/FROM system\.columns/, [
+                { name: 'day', type: 'Date', default_kind: '', default_expression: '', comment: '', is_in_primary_key: 1 },
+                { name: 'code', type: 'LowCardinality(Nullable(FixedString(3)))', default_kind: 'DEFAULT', default_expression: "'XX'", comment: 'ISO code', is_in_primary_key: 0 },
+                { name: 'amount', type: 'Nullable(Decimal(12, 4))', default_kind: 'MATERIALIZED', default_expression: 'price * qty', comment: '', is_in_primary_key: 0 },
+            ]],
+            [/SELECT engine, primary_key/, [{ engine: 'MergeTree', primary_key: 'day', sorting_key: 'day, cityHash64(code, amount)', partition_key: 'toYYYYMM(day)' }]],
+            [/FROM system\.data_skipping_indices/, [{ name: 'code_set', type: 'set', expr: 'code' }]],
+            [/formatReadableSize/, [{ row_count: '1200', size: '4.00 KiB' }]],
+        );
+
+        const table = await adapter.describeTable(connectionId, 'analytics', 'sales');
+
+        expect(table.columns.map(({ name, nullable, maxLength, precision, scale, defaultValue, isPrimaryKey }) => ({ name, nullable, maxLength, precision, scale, defaultValue, isPrimaryKey }))).toEqual([
+            { name: 'day', nullable: false, maxLength: undefined, precision: undefined, scale: undefined, defaultValue: undefined, isPrimaryKey: true },
+            { name: 'code', nullable: true, maxLength: 3, precision: undefined, scale: undefined, defaultValue: "'XX'", isPrimaryKey: false },
+            { name: 'amount', nullable: true, maxLength: undefined, precision: 12, scale: 4, defaultValue: 'MATERIALIZED price * qty', isPrimaryKey: false },
+        ]);
+        expect(table.indexes.map((idx) => [idx.name, idx.columns, idx.type])).toEqual([
+            ['PRIMARY KEY', ['day'], 'MergeTree'],
+            ['ORDER BY', ['day', 'cityHash64(code, amount)'], 'MergeTree'],
+            ['PARTITION BY', ['toYYYYMM(day)'], 'partition'],
+            ['code_set', ['code'], 'set'],
+        ]);
+        expect(table).toMatchObject({ primaryKeys: ['day'], foreignKeys: [], rowCount: 1200, size: '4.00 KiB' });
+    });
+});
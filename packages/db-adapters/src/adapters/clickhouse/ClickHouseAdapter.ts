@@ -0,0 +1,700 @@
+import { randomUUID } from 'crypto';
+import { createClient, ClickHouseClient, ResultSet } from '@clickhouse/client';
+import { BaseDBAdapter, CursorSource } from '../../interfaces/IDBAdapter';
+import type {
+    ConnectionConfig,
+    ConnectionResult,
+    TestResult,
+    QueryRequest,
+    QueryResult,
+    QueryField,
+    Schema,
+    Table,
+    TableMetadata,
+    Column,
+    Index,
+    DatabaseInfo,
+    ExplainResult,
+    BulkInsertRequest,
+} from '@bosdb/core';
+import { CURSOR_IDLE_TIMEOUT, bindParameters, findPlaceholders } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+
+const logger = new Logger('ClickHouseAdapter');
+
+// Statements that return rows; everything else is sent as a command
+const READER = /^\s*(SELECT|WITH|SHOW|DESCRIBE|DESC|EXISTS|EXPLAIN)\b/i;
+
+const SYSTEM_DATABASES = ['system', 'INFORMATION_SCHEMA', 'information_schema'];
+
+interface ClickHouseConnection {
+    client: ClickHouseClient;
+    database: string;
+}
+
+interface BoundClickHouseQuery {
+    query: string;
+    params?: Record<string, unknown>;
+}
+
+/**
+ * ClickHouse Database Adapter
+ * Implements IDBAdapter for ClickHouse over its HTTP interface using @clickhouse/client.
+ * Results are read as JSONEachRow, so a page only pulls as many rows as it shows; databases
+ * are listed as schemas and table engines, sorting and partition keys are reported as indexes.
+ */
+export class ClickHouseAdapter extends BaseDBAdapter {
+    private connections: Map<string, ClickHouseConnection> = new Map();
+
+    async connect(config: ConnectionConfig): Promise<ConnectionResult> {
+        const connectionId = this.generateConnectionId('clickhouse');
+
+        try {
+            const client = createClickHouseClient(config);
+            const connection = { client, database: config.database || 'default' };
+
+            let version: string;
+            try {
+                version = await this.queryValue(connection, 'SELECT version() AS version');
+            } catch (error) {
+                await client.close();
+                throw error;
+            }
+
+            this.connections.set(connectionId, connection);
+
+            logger.info(`Connected to ClickHouse: ${config.host}:${config.port}/${connection.database}`);
+
+            return {
+                connectionId,
+                success: true,
+                version,
+            };
+        } catch (error: any) {
+            logger.error(`ClickHouse connection failed: ${error.message}`, error);
+            return {
+                connectionId: '',
+                success: false,
+                error: error.message,
+            };
+        }
+    }
+
+    async disconnect(connectionId: string): Promise<void> {
+        const connection = this.connections.get(connectionId);
+        if (connection) {
+            await this.releaseSessions(connectionId);
+            await connection.client.close();
+            this.connections.delete(connectionId);
+            logger.info(`Disconnected from ClickHouse: ${connectionId}`);
+        }
+    }
+
+    async testConnection(config: ConnectionConfig): Promise<TestResult> {
+        const startTime = Date.now();
+        const client = createClickHouseClient(config);
+
+        try {
+            // ping() only checks the server is up; a query also checks the credentials and database
+            await this.queryValue({ client, database: config.database || 'default' }, 'SELECT 1 AS ok');
+
+            return {
+                success: true,
+                message: 'ClickHouse connection successful',
+                latency: Date.now() - startTime,
+            };
+        } catch (error: any) {
+            logger.error(`ClickHouse test connection failed: ${error.message}`, error);
+            return {
+                success: false,
+                error: error.message,
+            };
+        } finally {
+            await client.close();
+        }
+    }
+
+    async listSchemas(connectionId: string): Promise<Schema[]> {
+        const connection = this.getClickHouseConnection(connectionId);
+
+        try {
+            const rows = await this.queryRows(connection, `
+                SELECT d.name AS name, t.table_count AS table_count
+                FROM system.databases d
+                LEFT JOIN (
+                    SELECT database, count() AS table_count
+                    FROM system.tables
+                    GROUP BY database
+                ) t ON t.database = d.name
+                WHERE d.name NOT IN {system:Array(String)}
+                ORDER BY d.name
+            `, { system: SYSTEM_DATABASES });
+
+            return rows.map((row) => ({
+                name: row.name,
+                tableCount: Number(row.table_count),
+            }));
+        } catch (error: any) {
+            logger.error(`Failed to list ClickHouse databases: ${error.message}`, error);
+            throw new Error(`Failed to list schemas: ${error.message}`);
+        }
+    }
+
+    async listTables(connectionId: string, schemaName?: string): Promise<Table[]> {
+        const connection = this.getClickHouseConnection(connectionId);
+        const database = schemaName || connection.database;
+
+        try {
+            // Row counts and sizes come from the active parts; engines without parts report their own totals
+            const rows = await this.queryRows(connection, `
+                SELECT
+                    t.name AS name,
+                    t.engine AS engine,
+                    if(p.table != '', p.rows, t.total_rows) AS row_count,
+                    formatReadableSize(if(p.table != '', p.bytes, t.total_bytes)) AS size,
+                    t.comment AS comment
+                FROM system.tables t
+                LEFT JOIN (
+                    SELECT table, sum(rows) AS rows, sum(bytes_on_disk) AS bytes
+                    FROM system.parts
+                    WHERE database = {database:String} AND active
+                    GROUP BY table
+                ) p ON p.table = t.name
+                WHERE t.database = {database:String} AND NOT t.is_temporary
+                ORDER BY t.name
+            `, { database });
+
+            return rows.map((row) => ({
+                schema: database,
+                name: row.name,
+                type: tableType(row.engine),
+                rowCount: row.row_count === null ? undefined : Number(row.row_count),
+                size: row.size ?? undefined,
+                comment: row.comment || undefined,
+            }));
+        } catch (error: any) {
+            logger.error(`Failed to list ClickHouse tables: ${error.message}`, error);
+            throw new Error(`Failed to list tables: ${error.message}`);
+        }
+    }
+
+    async describeTable(connectionId: string, schemaName: string, tableName: string): Promise<TableMetadata> {
+        const connection = this.getClickHouseConnection(connectionId);
+
+        try {
+            // Get columns
+            const columnRows = await this.queryRows(connection, `
+                SELECT name, type, default_kind, default_expression, comment, is_in_primary_key
+                FROM system.columns
+                WHERE database = {database:String} AND table = {table:String}
+                ORDER BY position
+            `, { database: schemaName, table: tableName });
+            if (columnRows.length === 0) {
+                throw new Error(`Table ${schemaName}.${tableName} not found`);
+            }
+
+            const columns: Column[] = columnRows.map((row) => ({
+                name: row.name,
+                dataType: row.type,
+                ...parseColumnType(row.type),
+                defaultValue: columnDefault(row.default_kind, row.default_expression),
+                isPrimaryKey: Boolean(row.is_in_primary_key),
+                // ClickHouse has no foreign keys
+                isForeignKey: false,
+                comment: row.comment || undefined,
+            }));
+
+            // Get indexes
+            const indexes = await this.getIndexes(connectionId, schemaName, tableName);
+
+            // Get row count and size
+            const sizeRows = await this.queryRows(connection, `
+                SELECT
+                    if(p.table != '', p.rows, t.total_rows) AS row_count,
+                    formatReadableSize(if(p.table != '', p.bytes, t.total_bytes)) AS size
+                FROM system.tables t
+                LEFT JOIN (
+                    SELECT table, sum(rows) AS rows, sum(bytes_on_disk) AS bytes
+                    FROM system.parts
+                    WHERE database = {database:String} AND table = {table:String} AND active
+                    GROUP BY table
+                ) p ON p.table = t.name
+                WHERE t.database = {database:String} AND t.name = {table:String}
+            `, { database: schemaName, table: tableName });
+            const stats = sizeRows[0];
+
+            return {
+                schema: schemaName,
+                name: tableName,
+                columns,
+                primaryKeys: columns.filter((column) => column.isPrimaryKey).map((column) => column.name),
+                foreignKeys: [],
+                indexes,
+                rowCount: stats && stats.row_count !== null ? Number(stats.row_count) : undefined,
+                size: stats?.size ?? undefined,
+            };
+        } catch (error: any) {
+            logger.error(`Failed to describe ClickHouse table: ${error.message}`, error);
+            throw new Error(`Failed to describe table: ${error.message}`);
+        }
+    }
+
+    /**
+     * The primary key, sorting key and partition key of MergeTree tables (typed with the table
+     * engine) followed by data skipping indexes. ClickHouse keys don't enforce uniqueness.
+     */
+    async getIndexes(connectionId: string, schemaName: string, tableName: string): Promise<Index[]> {
+        const connection = this.getClickHouseConnection(connectionId);
+
+        try {
+            const [table] = await this.queryRows(connection, `
+                SELECT engine, primary_key, sorting_key, partition_key
+                FROM system.tables
+                WHERE database = {database:String} AND name = {table:String}
+            `, { database: schemaName, table: tableName });
+            if (!table) {
+                return [];
+            }
+
+            const skippingRows = await this.queryRows(connection, `
+                SELECT name, type, expr
+                FROM system.data_skipping_indices
+                WHERE database = {database:String} AND table = {table:String}
+                ORDER BY name
+            `, { database: schemaName, table: tableName });
+
+            const indexes: Index[] = [];
+            if (table.primary_key) {
+                indexes.push({
+                    name: 'PRIMARY KEY',
+                    columns: splitKey(table.primary_key),
+                    unique: false,
+                    primary: true,
+                    type: table.engine,
+                });
+            }
+            if (table.sorting_key && table.sorting_key !== table.primary_key) {
+                indexes.push({
+                    name: 'ORDER BY',
+                    columns: splitKey(table.sorting_key),
+                    unique: false,
+                    primary: false,
+                    type: table.engine,
+                });
+            }
+            if (table.partition_key) {
+                indexes.push({
+                    name: 'PARTITION BY',
+                    columns: splitKey(table.partition_key),
+                    unique: false,
+                    primary: false,
+                    type: 'partition',
+                });
+            }
+
+            return [
+                ...indexes,
+                ...skippingRows.map((row) => ({
+                    name: row.name,
+                    columns: splitKey(row.expr),
+                    unique: false,
+                    primary: false,
+                    type: row.type,
+                })),
+            ];
+        } catch (error: any) {
+            logger.error(`Failed to get ClickHouse indexes: ${error.message}`, error);
+            throw new Error(`Failed to get indexes: ${error.message}`);
+        }
+    }
+
+    async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
+        const connection = this.getClickHouseConnection(request.connectionId);
+        const startTime = Date.now();
+        const bound = bindQuery(request);
+
+        if (!READER.test(bound.query)) {
+            return this.runCommand(connection, request, bound);
+        }
+
+        let source: CursorSource;
+        try {
+            source = await this.openResult(connection, request, bound);
+        } catch (error: any) {
+            logger.error(`ClickHouse query execution failed: ${error.message}`, error);
+            throw new Error(`Query execution failed: ${error.message}`);
+        }
+
+        if (request.streamResults && source.fields.length > 0) {
+            return this.openCursor(request.connectionId, source, request, startTime);
+        }
+
+        // Read one row past the page, then drop the rest of the response
+        const maxRows = request.maxRows || 1000;
+        try {
+            const rows = await source.read(maxRows + 1);
+            return {
+                rows: rows.slice(0, maxRows),
+                fields: source.fields.length > 0 ? source.fields : fieldsOfRow(rows[0]),
+                rowCount: Math.min(rows.length, maxRows),
+                executionTime: Date.now() - startTime,
+                hasMore: rows.length > maxRows,
+            };
+        } catch (error: any) {
+            logger.error(`ClickHouse query execution failed: ${error.message}`, error);
+            throw new Error(`Query execution failed: ${error.message}`);
+        } finally {
+            await source.close();
+        }
+    }
+
+    /**
+     * Insert rows as one JSONEachRow request, which ClickHouse writes as a single part
+     */
+    protected async insertRows(request: BulkInsertRequest): Promise<number> {
+        const connection = this.getClickHouseConnection(request.connectionId);
+
+        const values = request.rows.map((row) => {
+            const record: Record<string, unknown> = {};
+            request.columns.forEach((column, i) => {
+                record[column.name] = toClickHouseValue(row[i]);
+            });
+            return record;
+        });
+
+        await connection.client.insert({
+            table: `${quote(request.schema)}.${quote(request.table)}`,
+            values,
+            format: 'JSONEachRow',
+            columns: request.columns.map((column) => quote(column.name)) as [string, ...string[]],
+            // Dates arrive as ISO strings
+            clickhouse_settings: { date_time_input_format: 'best_effort' },
+        });
+        return request.rows.length;
+    }
+
+    /**
+     * Send a statement that returns no rows; written_rows counts the rows of an INSERT ... SELECT
+     */
+    private async runCommand(connection: ClickHouseConnection, request: QueryRequest, bound: BoundClickHouseQuery): Promise<QueryResult> {
+        const startTime = Date.now();
+        const queryId = randomUUID();
+        const abort = new AbortController();
+
+        try {
+            const result = await this.trackQuery(request, this.queryKiller(connection, queryId, abort), () =>
+                connection.client.command({
+                    query: bound.query,
+                    query_params: bound.params,
+                    query_id: queryId,
+                    abort_signal: abort.signal,
+                }));
+
+            return {
+                rows: [],
+                fields: [],
+                rowCount: Number(result.summary?.written_rows ?? 0),
+                executionTime: Date.now() - startTime,
+            };
+        } catch (error: any) {
+            logger.error(`ClickHouse query execution failed: ${error.message}`, error);
+            throw new Error(`Query execution failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Start a query and wrap its JSONEachRow response as a cursor. The HTTP response is read as
+     * rows are needed, so its backpressure holds unread rows on the server.
+     */
+    private async openResult(connection: ClickHouseConnection, request: QueryRequest, bound: BoundClickHouseQuery): Promise<CursorSource> {
+        const queryId = randomUUID();
+        const abort = new AbortController();
+
+        const fields = await this.describeResult(connection, bound);
+        const resultSet = await this.trackQuery(request, this.queryKiller(connection, queryId, abort), () =>
+            connection.client.query({
+                query: bound.query,
+                query_params: bound.params,
+                format: 'JSONEachRow',
+                query_id: queryId,
+                abort_signal: abort.signal,
+            }));
+
+        return { fields, ...readRows(resultSet) };
+    }
+
+    /**
+     * Column names and types of a SELECT, without running it. Other statements (SHOW, EXPLAIN, ...)
+     * take their field names from the first row, so they are returned as one page rather than a cursor.
+     */
+    private async describeResult(connection: ClickHouseConnection, bound: BoundClickHouseQuery): Promise<QueryField[]> {
+        if (!/^\s*(SELECT|WITH)\b/i.test(bound.query)) {
+            return [];
+        }
+        const rows = await this.queryRows(connection, `DESCRIBE TABLE (${bound.query.replace(/;\s*$/, '')})`, bound.params);
+        return rows.map((row) => ({
+            name: row.name,
+            dataType: row.type,
+            nullable: String(row.type).includes('Nullable('),
+        }));
+    }
+
+    // Closing the HTTP request alone doesn't stop the query on the server
+    private queryKiller(connection: ClickHouseConnection, queryId: string, abort: AbortController): () => Promise<void> {
+        return async () => {
+            abort.abort();
+            await connection.client.command({
+                query: 'KILL QUERY WHERE query_id = {id:String}',
+                query_params: { id: queryId },
+            });
+        };
+    }
+
+    async explainQuery(connectionId: string, query: string): Promise<ExplainResult> {
+        const connection = this.getClickHouseConnection(connectionId);
+
+        try {
+            const [json] = await this.queryRows(connection, `EXPLAIN PLAN json = 1, description = 1, indexes = 1 ${query}`);
+            const plan = await this.queryRows(connection, `EXPLAIN PLAN indexes = 1 ${query}`);
+            const pipeline = await this.queryRows(connection, `EXPLAIN PIPELINE ${query}`);
+
+            return {
+                plan: JSON.parse(json.explain),
+                planText: [
+                    ...plan.map((row) => row.explain),
+                    '',
+                    'Pipeline:',
+                    ...pipeline.map((row) => row.explain),
+                ].join('\n'),
+            };
+        } catch (error: any) {
+            logger.error(`ClickHouse EXPLAIN failed: ${error.message}`, error);
+            throw new Error(`EXPLAIN failed: ${error.message}`);
+        }
+    }
+
+    async getVersion(connectionId: string): Promise<string> {
+        const connection = this.getClickHouseConnection(connectionId);
+
+        try {
+            return await this.queryValue(connection, 'SELECT version() AS version');
+        } catch (error: any) {
+            logger.error(`Failed to get ClickHouse version: ${error.message}`, error);
+            throw new Error(`Failed to get version: ${error.message}`);
+        }
+    }
+
+    async getDatabaseInfo(connectionId: string): Promise<DatabaseInfo> {
+        const connection = this.getClickHouseConnection(connectionId);
+
+        try {
+            const [info] = await this.queryRows(connection, `
+                SELECT
+                    version() AS version,
+                    uptime() AS uptime,
+                    currentDatabase() AS current_database,
+                    currentUser() AS current_user
+            `);
+
+            return {
+                version: info.version,
+                serverVersion: `ClickHouse ${info.version}`,
+                uptime: Number(info.uptime),
+                currentDatabase: info.current_database,
+                currentUser: info.current_user,
+            };
+        } catch (error: any) {
+            logger.error(`Failed to get ClickHouse database info: ${error.message}`, error);
+            throw new Error(`Failed to get database info: ${error.message}`);
+        }
+    }
+
+    private getClickHouseConnection(connectionId: string): ClickHouseConnection {
+        const connection = this.connections.get(connectionId);
+        if (!connection) {
+            throw new Error(`Connection ${connectionId} not found`);
+        }
+        return connection;
+    }
+
+    private async queryRows(connection: ClickHouseConnection, sql: string, params?: Record<string, unknown>): Promise<Record<string, any>[]> {
+        const resultSet = await connection.client.query({ query: sql, query_params: params, format: 'JSONEachRow' });
+        return resultSet.json<Record<string, any>>();
+    }
+
+    private async queryValue(connection: ClickHouseConnection, sql: string): Promise<string> {
+        const [row] = await this.queryRows(connection, sql);
+        return String(Object.values(row)[0]);
+    }
+}
+
+function createClickHouseClient(config: ConnectionConfig): ClickHouseClient {
+    // A host may be given as a full URL, e.g. https://abc.clickhouse.cloud
+    const url = /^https?:\/\//i.test(config.host)
+        ? config.host
+        : `${config.ssl ? 'https' : 'http'}://${config.host}:${config.port || (config.ssl ? 8443 : 8123)}`;
+
+    return createClient({
+        url,
+        username: config.username || 'default',
+        password: config.password || '',
+        database: config.database || 'default',
+        application: 'BosDB',
+        max_open_connections: config.maxPoolSize || 10,
+        // This is a socket idle timeout, so it must also outlast a streamed result waiting for its next page
+        request_timeout: Math.max(config.queryTimeout || 0, CURSOR_IDLE_TIMEOUT),
+        // Progress headers keep proxies from dropping a long query before its first row
+        clickhouse_settings: {
+            send_progress_in_http_headers: 1,
+            http_headers_progress_interval_ms: '110000',
+        },
+    });
+}
+
+/**
+ * Read a JSONEachRow response in batches of parsed rows
+ */
+function readRows(resultSet: ResultSet<'JSONEachRow'>): Pick<CursorSource, 'read' | 'close'> {
+    const batches = resultSet.stream<Record<string, unknown>>()[Symbol.asyncIterator]();
+    let pending: Record<string, unknown>[] = [];
+
+    return {
+        read: async (count) => {
+            while (pending.length < count) {
+                const next = await batches.next();
+                if (next.done) break;
+                for (const row of next.value) {
+                    pending.push(row.json());
+                }
+            }
+            const batch = pending.slice(0, count);
+            pending = pending.slice(count);
+            return batch;
+        },
+        close: async () => {
+            resultSet.close();
+        },
+    };
+}
+
+/**
+ * Rewrite `$n`/`:name` placeholders into typed `{pN:Type}` query parameters. A query with no such
+ * placeholders may use ClickHouse's own `{name:Type}` syntax with an object of values.
+ */
+function bindQuery(request: QueryRequest): BoundClickHouseQuery {
+    if (!request.params) {
+        return { query: request.query };
+    }
+
+    const placeholders = findPlaceholders(request.query);
+    if (placeholders.length === 0) {
+        return {
+            query: request.query,
+            params: Array.isArray(request.params) ? undefined : request.params,
+        };
+    }
+
+    const { values } = bindParameters(request.query, request.params, 'at');
+    const params: Record<string, unknown> = {};
+    let query = '';
+    let last = 0;
+
+    placeholders.forEach((placeholder, i) => {
+        const name = `p${i + 1}`;
+        params[name] = toClickHouseValue(values[i]);
+        query += request.query.slice(last, placeholder.position) + `{${name}:${parameterType(values[i])}}`;
+        last = placeholder.position + placeholder.token.length;
+    });
+
+    return { query: query + request.query.slice(last), params };
+}
+
+function parameterType(value: unknown): string {
+    if (value === null || value === undefined) return 'Nullable(String)';
+    if (typeof value === 'boolean') return 'Bool';
+    if (typeof value === 'bigint') return 'Int64';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'Int64' : 'Float64';
+    if (value instanceof Date) return 'DateTime64(3)';
+    return 'String';
+}
+
+// Dates pass through: the client sends them as Unix timestamps in parameters and ISO strings in JSON
+function toClickHouseValue(value: unknown): unknown {
+    if (value === undefined) return null;
+    if (Buffer.isBuffer(value)) return value.toString();
+    if (value instanceof Date) return value;
+    if (typeof value === 'bigint') return value.toString();
+    if (value !== null && typeof value === 'object') return JSON.stringify(value);
+    return value;
+}
+
+function tableType(engine: string): Table['type'] {
+    if (engine === 'View') return 'view';
+    if (engine === 'MaterializedView') return 'materialized_view';
+    return 'table';
+}
+
+/**
+ * Nullability and size details from a type such as Nullable(Decimal(10, 2)) or FixedString(16)
+ */
+function parseColumnType(type: string): Pick<Column, 'nullable' | 'maxLength' | 'precision' | 'scale'> {
+    const details: Pick<Column, 'nullable' | 'maxLength' | 'precision' | 'scale'> = {
+        nullable: /^(LowCardinality\()?Nullable\(/.test(type),
+    };
+
+    const fixed = /FixedString\((\d+)\)/.exec(type);
+    if (fixed) {
+        details.maxLength = Number(fixed[1]);
+    }
+    const decimal = /Decimal\((\d+),\s*(\d+)\)/.exec(type);
+    if (decimal) {
+        details.precision = Number(decimal[1]);
+        details.scale = Number(decimal[2]);
+    }
+    return details;
+}
+
+function columnDefault(kind: string, expression: string): string | undefined {
+    if (!expression) return undefined;
+    // MATERIALIZED, ALIAS and EPHEMERAL columns aren't plain defaults
+    return kind === 'DEFAULT' ? expression : `${kind} ${expression}`;
+}
+
+/**
+ * Split a key expression such as "toYYYYMM(date), user_id" on its top-level commas
+ */
+function splitKey(key: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const ch of key) {
+        if (ch === '(') depth++;
+        if (ch === ')') depth--;
+        if (ch === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim()) {
+        parts.push(current.trim());
+    }
+    return parts;
+}
+
+function fieldsOfRow(row: Record<string, unknown> | undefined): QueryField[] {
+    return row ? Object.keys(row).map((name) => ({ name, dataType: 'unknown' })) : [];
+}
+
+function quote(name: string): string {
+    return `\`${name.replace(/`/g, '``')}\``;
+}
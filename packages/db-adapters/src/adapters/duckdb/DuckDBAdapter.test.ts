@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import { existsSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DuckDBAdapter } from './DuckDBAdapter';
+
+let adapter: DuckDBAdapter;
+let dir: string;
+const opened: string[] = [];
+
+beforeEach(async () => {
+    adapter = new DuckDBAdapter();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bosdb-duckdb-'));
+});
+
+afterEach(async () => {
+    await Promise.all(opened.splice(0).map((id) => adapter.disconnect(id)));
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+const config = (database: string, extra: Record<string, unknown> = {}) =>
+    ({ name: 'test', type: 'duckdb', host: '', port: 0, database, username: '', password: '', ...extra }) as any;
+
+async function open(database = ':memory:'): Promise<string> {
+    const result = await adapter.connect(config(database));
+    expect(result).toMatchObject({ success: true });
+    opened.push(result.connectionId);
+    return result.connectionId;
+}
+
+describe('DuckDBAdapter', () => {
+    it('opens a folder of data files as one view per file', async () => {
+        await fs.writeFile(path.join(dir, 'sales.csv'), 'region,amount\nnorth,10\nsouth,20\n');
+        await fs.writeFile(path.join(dir, 'events.jsonl'), '{"kind": "click"}\n{"kind": "view"}\n');
+        await fs.writeFile(path.join(dir, 'notes.txt'), 'not data');
+        const connectionId = await open(dir);
+
+        expect((await adapter.listTables(connectionId)).map((t) => [t.name, t.type])).toEqual([['events', 'view'], ['sales', 'view']]);
+        const result = await adapter.executeQuery({ connectionId, query: 'SELECT SUM(amount) AS total FROM sales' });
+        expect(result.rows).toEqual([{ total: '30' }]);
+    });
+
+    it('describes keys, unique constraints and indexes', async () => {
+        const connectionId = await open();
+        await adapter.executeQuery({
+            connectionId,
+            query: `
+                CREATE TABLE users (id INTEGER PRIMARY KEY, email VARCHAR UNIQUE, name VARCHAR NOT NULL);
+                CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users (id), total DECIMAL(10, 2));
+                CREATE INDEX orders_user ON orders (user_id);
+            `,
+        });
+
+        const orders = await adapter.describeTable(connectionId, 'main', 'orders');
+        expect(orders.primaryKeys).toEqual(['id']);
+        expect(orders.foreignKeys).toEqual([expect.objectContaining({ columns: ['user_id'], referencedTable: 'users', referencedColumns: ['id'] })]);
+        expect(orders.columns.map((c) => [c.name, c.dataType, c.precision, c.scale, c.isForeignKey])).toEqual([
+            ['id', 'INTEGER', 32, 0, false],
+            ['user_id', 'INTEGER', 32, 0, true],
+            ['total', 'DECIMAL(10,2)', 10, 2, false],
+        ]);
+        expect(orders.indexes.map((i) => [i.columns, i.unique, i.primary])).toEqual([
+            [['id'], true, true],
+            [['user_id'], false, false],
+        ]);
+
+        const users = await adapter.describeTable(connectionId, 'main', 'users');
+        expect(users.indexes.map((i) => [i.columns, i.primary])).toEqual([[['id'], true], [['email'], false]]);
+        expect(users.columns.find((c) => c.name === 'name')!.nullable).toBe(false);
+        await expect(adapter.describeTable(connectionId, 'main', 'missing')).rejects.toThrow('Table main.missing not found');
+    });
+
+    it('binds parameters, counts changed rows and reads only the rows a page needs', async () => {
+        const connectionId = await open();
+        await adapter.executeQuery({ connectionId, query: 'CREATE TABLE t (i INTEGER, ts TIMESTAMP, raw BLOB)' });
+
+        const insert = await adapter.executeQuery({
+            connectionId,
+            query: 'INSERT INTO t SELECT range, $1, $2 FROM range(5)',
+            params: [new Date('2024-03-01T12:00:00Z'), Buffer.from([1, 2])],
+        });
+        expect(insert.rowCount).toBe(5);
+
+        const page = await adapter.executeQuery({ connectionId, query: 'SELECT i, ts FROM t ORDER BY i', maxRows: 2 });
+        expect(page).toMatchObject({ rows: [{ i: 0, ts: '2024-03-01 12:00:00' }, { i: 1, ts: '2024-03-01 12:00:00' }], hasMore: true });
+        expect(page.fields).toEqual([{ name: 'i', dataType: 'INTEGER' }, { name: 'ts', dataType: 'TIMESTAMP' }]);
+    });
+
+    it('streams a SELECT through a cursor', async () => {
+        const connectionId = await open();
+
+        const first = await adapter.executeQuery({ connectionId, query: 'SELECT range AS i FROM range(3)', streamResults: true, maxRows: 2 });
+        expect(first.rows).toEqual([{ i: '0' }, { i: '1' }]);
+
+        const rest = await adapter.executeQuery({ connectionId, query: '', cursor: first.cursor, maxRows: 2 });
+        expect(rest.rows).toEqual([{ i: '2' }]);
+        expect(rest.cursor).toBeUndefined();
+    });
+
+    it('rolls back a transaction run on its own connection', async () => {
+        const connectionId = await open(path.join(dir, 'tx.duckdb'));
+        await adapter.executeQuery({ connectionId, query: 'CREATE TABLE t (v VARCHAR)' });
+
+        const transactionId = await adapter.beginTransaction(connectionId);
+        await adapter.executeQuery({ connectionId, transactionId, query: "INSERT INTO t VALUES ('a')" });
+        await adapter.rollback(connectionId, transactionId);
+
+        expect((await adapter.executeQuery({ connectionId, query: 'SELECT COUNT(*) AS n FROM t' })).rows).toEqual([{ n: '0' }]);
+    });
+
+    it('tests a missing file without creating it', async () => {
+        const database = path.join(dir, 'new.duckdb');
+
+        expect(await adapter.testConnection(config(database))).toMatchObject({ success: true, message: 'DuckDB database file will be created' });
+        expect(await adapter.testConnection(config(path.join(dir, 'missing.parquet')))).toMatchObject({ success: false });
+        expect(existsSync(database)).toBe(false);
+    });
+});
@@ -0,0 +1,567 @@
+import { accessSync, constants, existsSync, readdirSync, statSync } from 'fs';
+import path from 'path';
+import {
+    DuckDBConnection,
+    DuckDBInstance,
+    DuckDBValue,
+    JsonDuckDBValueConverter,
+    ResultReturnType,
+    blobValue,
+} from '@duckdb/node-api';
+import { BaseDBAdapter, CursorSource, TransactionSession } from '../../interfaces/IDBAdapter';
+import type {
+    ConnectionConfig,
+    ConnectionResult,
+    TestResult,
+    QueryRequest,
+    QueryResult,
+    QueryField,
+    Schema,
+    Table,
+    TableMetadata,
+    Column,
+    Index,
+    ForeignKey,
+    DatabaseInfo,
+    ExplainResult,
+} from '@bosdb/core';
+import { bindParameters } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+
+const logger = new Logger('DuckDBAdapter');
+
+const MEMORY = ':memory:';
+
+// Files DuckDB reads in place, optionally compressed
+const DATA_FILE = /\.(csv|tsv|parquet|json|jsonl|ndjson)(\.gz|\.zst)?$/i;
+
+interface DuckDBDatabase {
+    instance: DuckDBInstance;
+    file: string;
+}
+
+/**
+ * DuckDB Database Adapter
+ * Implements IDBAdapter for DuckDB using @duckdb/node-api. The connection's database is a
+ * .duckdb file, ':memory:', or a CSV/Parquet/JSON file or a folder of them: those open an
+ * in-memory database with one view per file, so the files are queried in place. Any
+ * connection can also read files directly, e.g. SELECT * FROM 'sales.parquet'.
+ */
+export class DuckDBAdapter extends BaseDBAdapter {
+    private databases: Map<string, DuckDBDatabase> = new Map();
+
+    async connect(config: ConnectionConfig): Promise<ConnectionResult> {
+        const connectionId = this.generateConnectionId('duckdb');
+
+        try {
+            const { instance, file } = await openDatabase(config);
+            const version = await this.queryValue({ instance, file }, 'SELECT version() AS version');
+
+            this.databases.set(connectionId, { instance, file });
+
+            logger.info(`Opened DuckDB database: ${file}`);
+
+            return {
+                connectionId,
+                success: true,
+                version,
+            };
+        } catch (error: any) {
+            logger.error(`DuckDB connection failed: ${error.message}`, error);
+            return {
+                connectionId: '',
+                success: false,
+                error: error.message,
+            };
+        }
+    }
+
+    async disconnect(connectionId: string): Promise<void> {
+        const database = this.databases.get(connectionId);
+        if (database) {
+            await this.releaseSessions(connectionId);
+            database.instance.closeSync();
+            this.databases.delete(connectionId);
+            logger.info(`Closed DuckDB database: ${connectionId}`);
+        }
+    }
+
+    async testConnection(config: ConnectionConfig): Promise<TestResult> {
+        const startTime = Date.now();
+        try {
+            // connect() creates a missing database file; testing must not leave an empty one behind
+            const file = config.database || MEMORY;
+            if (file !== MEMORY && !existsSync(file)) {
+                if (config.readOnly || DATA_FILE.test(file)) {
+                    throw new Error(`File not found: ${file}`);
+                }
+                accessSync(path.dirname(path.resolve(file)), constants.W_OK);
+                return {
+                    success: true,
+                    message: 'DuckDB database file will be created',
+                    latency: Date.now() - startTime,
+                };
+            }
+
+            const database = await openDatabase(config);
+            try {
+                await this.queryValue(database, 'SELECT version() AS version');
+            } finally {
+                database.instance.closeSync();
+            }
+
+            return {
+                success: true,
+                message: 'DuckDB database opened successfully',
+                latency: Date.now() - startTime,
+            };
+        } catch (error: any) {
+            logger.error(`DuckDB test connection failed: ${error.message}`, error);
+            return {
+                success: false,
+                error: error.message,
+            };
+        }
+    }
+
+    async listSchemas(connectionId: string): Promise<Schema[]> {
+        const database = this.getDatabase(connectionId);
+
+        try {
+            const rows = await this.queryRows(database, `
+                SELECT
+                    s.schema_name AS name,
+                    (SELECT COUNT(*) FROM duckdb_tables() t WHERE t.database_name = s.database_name AND t.schema_name = s.schema_name)
+                        + (SELECT COUNT(*) FROM duckdb_views() v WHERE v.database_name = s.database_name AND v.schema_name = s.schema_name AND NOT v.internal)
+                        AS table_count
+                FROM duckdb_schemas() s
+                WHERE s.database_name = current_database()
+                    AND s.schema_name NOT IN ('information_schema', 'pg_catalog')
+                ORDER BY s.schema_name
+            `);
+
+            return rows.map((row) => ({
+                name: row.name,
+                tableCount: Number(row.table_count),
+            }));
+        } catch (error: any) {
+            logger.error(`Failed to list DuckDB schemas: ${error.message}`, error);
+            throw new Error(`Failed to list schemas: ${error.message}`);
+        }
+    }
+
+    async listTables(connectionId: string, schemaName?: string): Promise<Table[]> {
+        const database = this.getDatabase(connectionId);
+        const schema = schemaName || 'main';
+
+        try {
+            const rows = await this.queryRows(database, `
+                SELECT table_name AS name, 'table' AS type, estimated_size AS row_count, comment
+                FROM duckdb_tables()
+                WHERE database_name = current_database() AND schema_name = $1
+                UNION ALL
+                SELECT view_name, 'view', NULL, comment
+                FROM duckdb_views()
+                WHERE database_name = current_database() AND schema_name = $1 AND NOT internal
+                ORDER BY name
+            `, [schema]);
+
+            return rows.map((row) => ({
+                schema,
+                name: row.name,
+                type: row.type,
+                rowCount: row.row_count === null ? undefined : Number(row.row_count),
+                comment: row.comment ?? undefined,
+            }));
+        } catch (error: any) {
+            logger.error(`Failed to list DuckDB tables: ${error.message}`, error);
+            throw new Error(`Failed to list tables: ${error.message}`);
+        }
+    }
+
+    async describeTable(connectionId: string, schemaName: string, tableName: string): Promise<TableMetadata> {
+        const database = this.getDatabase(connectionId);
+
+        try {
+            // Get columns
+            const columnRows = await this.queryRows(database, `
+                SELECT
+                    column_name AS name,
+                    data_type,
+                    is_nullable,
+                    column_default AS default_value,
+                    character_maximum_length AS max_length,
+                    numeric_precision AS precision,
+                    numeric_scale AS scale,
+                    comment
+                FROM duckdb_columns()
+                WHERE database_name = current_database() AND schema_name = $1 AND table_name = $2
+                ORDER BY column_index
+            `, [schemaName, tableName]);
+            if (columnRows.length === 0) {
+                throw new Error(`Table ${schemaName}.${tableName} not found`);
+            }
+
+            // Get primary and foreign keys
+            const constraintRows = await this.queryRows(database, `
+                SELECT constraint_type, constraint_name, constraint_column_names, referenced_table, referenced_column_names
+                FROM duckdb_constraints()
+                WHERE database_name = current_database() AND schema_name = $1 AND table_name = $2
+                    AND constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY')
+                ORDER BY constraint_index
+            `, [schemaName, tableName]);
+
+            const primaryKeys: string[] = constraintRows.find((row) => row.constraint_type === 'PRIMARY KEY')?.constraint_column_names ?? [];
+            const foreignKeys: ForeignKey[] = constraintRows
+                .filter((row) => row.constraint_type === 'FOREIGN KEY')
+                .map((row) => ({
+                    name: row.constraint_name,
+                    columns: row.constraint_column_names,
+                    referencedTable: row.referenced_table,
+                    referencedColumns: row.referenced_column_names,
+                }));
+            const fkColumns = new Set(foreignKeys.flatMap((fk) => fk.columns));
+
+            const columns: Column[] = columnRows.map((row) => ({
+                name: row.name,
+                dataType: row.data_type,
+                maxLength: row.max_length ?? undefined,
+                precision: row.precision ?? undefined,
+                scale: row.scale ?? undefined,
+                nullable: row.is_nullable,
+                defaultValue: row.default_value ?? undefined,
+                isPrimaryKey: primaryKeys.includes(row.name),
+                isForeignKey: fkColumns.has(row.name),
+                comment: row.comment ?? undefined,
+            }));
+
+            // Get indexes
+            const indexes = await this.getIndexes(connectionId, schemaName, tableName);
+
+            // Get row count
+            const countRows = await this.queryRows(database, `
+                SELECT estimated_size AS row_count
+                FROM duckdb_tables()
+                WHERE database_name = current_database() AND schema_name = $1 AND table_name = $2
+            `, [schemaName, tableName]);
+
+            return {
+                schema: schemaName,
+                name: tableName,
+                columns,
+                primaryKeys,
+                foreignKeys,
+                indexes,
+                rowCount: countRows[0] ? Number(countRows[0].row_count) : undefined,
+            };
+        } catch (error: any) {
+            logger.error(`Failed to describe DuckDB table: ${error.message}`, error);
+            throw new Error(`Failed to describe table: ${error.message}`);
+        }
+    }
+
+    async getIndexes(connectionId: string, schemaName: string, tableName: string): Promise<Index[]> {
+        const database = this.getDatabase(connectionId);
+
+        try {
+            // Primary keys and UNIQUE constraints are backed by indexes that duckdb_indexes() doesn't list
+            const constraintRows = await this.queryRows(database, `
+                SELECT constraint_type, constraint_name, constraint_column_names
+                FROM duckdb_constraints()
+                WHERE database_name = current_database() AND schema_name = $1 AND table_name = $2
+                    AND constraint_type IN ('PRIMARY KEY', 'UNIQUE')
+                ORDER BY constraint_index
+            `, [schemaName, tableName]);
+            const indexRows = await this.queryRows(database, `
+                SELECT index_name AS name, is_unique, is_primary, expressions
+                FROM duckdb_indexes()
+                WHERE database_name = current_database() AND schema_name = $1 AND table_name = $2
+                ORDER BY index_name
+            `, [schemaName, tableName]);
+
+            return [
+                ...constraintRows.map((row) => ({
+                    name: row.constraint_name,
+                    columns: row.constraint_column_names,
+                    unique: true,
+                    primary: row.constraint_type === 'PRIMARY KEY',
+                    type: 'art',
+                })),
+                ...indexRows.map((row) => ({
+                    name: row.name,
+                    // Listed as "[col1, col2]"
+                    columns: String(row.expressions).replace(/^\[|\]$/g, '').split(', '),
+                    unique: row.is_unique,
+                    primary: row.is_primary,
+                    type: 'art',
+                })),
+            ];
+        } catch (error: any) {
+            logger.error(`Failed to get DuckDB indexes: ${error.message}`, error);
+            throw new Error(`Failed to get indexes: ${error.message}`);
+        }
+    }
+
+    async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
+        const database = this.getDatabase(request.connectionId);
+
+        if (request.streamResults && /^\s*(SELECT|WITH|VALUES|FROM|TABLE)\b/i.test(request.query)) {
+            return this.openQueryStream(database, request);
+        }
+
+        // A connection of its own lets cancelQuery() interrupt just this statement
+        const conn = await database.instance.connect();
+
+        try {
+            return await this.runOnConnection(conn, request);
+        } finally {
+            conn.closeSync();
+        }
+    }
+
+    /**
+     * Start a transaction on a connection of its own; the connection is closed after COMMIT or ROLLBACK
+     */
+    protected async openTransaction(connectionId: string): Promise<TransactionSession> {
+        const database = this.getDatabase(connectionId);
+
+        const conn = await database.instance.connect();
+        try {
+            await conn.run('BEGIN TRANSACTION');
+        } catch (error) {
+            conn.closeSync();
+            throw error;
+        }
+
+        const finish = async (statement: string) => {
+            try {
+                await conn.run(statement);
+            } finally {
+                conn.closeSync();
+            }
+        };
+
+        return {
+            execute: (request) => this.runOnConnection(conn, request),
+            commit: () => finish('COMMIT'),
+            rollback: () => finish('ROLLBACK'),
+        };
+    }
+
+    /**
+     * Run a statement, reading only as many rows as the page needs so a large file isn't
+     * loaded into memory just to show its first rows
+     */
+    private async runOnConnection(conn: DuckDBConnection, request: QueryRequest): Promise<QueryResult> {
+        const startTime = Date.now();
+        const maxRows = request.maxRows || 1000;
+
+        try {
+            const bound = bindQuery(request);
+            const reader = await this.trackQuery(request, async () => conn.interrupt(), () =>
+                conn.streamAndReadUntil(bound.query, maxRows + 1, bound.values));
+
+            if (reader.returnType !== ResultReturnType.QUERY_RESULT) {
+                return {
+                    rows: [],
+                    fields: [],
+                    rowCount: reader.rowsChanged,
+                    executionTime: Date.now() - startTime,
+                };
+            }
+
+            const rows = reader.getRowObjectsJson();
+            return {
+                rows: rows.slice(0, maxRows),
+                fields: fieldsOf(reader.columnNames(), reader.columnTypes()),
+                rowCount: rows.length,
+                executionTime: Date.now() - startTime,
+                hasMore: rows.length > maxRows || !reader.done,
+            };
+        } catch (error: any) {
+            logger.error(`DuckDB query execution failed: ${error.message}`, error);
+            throw new Error(`Query execution failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Stream a SELECT chunk by chunk on a dedicated connection; unread chunks aren't computed
+     */
+    private async openQueryStream(database: DuckDBDatabase, request: QueryRequest): Promise<QueryResult> {
+        const startTime = Date.now();
+        const conn = await database.instance.connect();
+
+        let source: CursorSource;
+        try {
+            const bound = bindQuery(request);
+            const result = await this.trackQuery(request, async () => conn.interrupt(), () =>
+                conn.stream(bound.query, bound.values));
+            const chunks = result.yieldConvertedRowObjects(JsonDuckDBValueConverter);
+            let pending: any[] = [];
+
+            source = {
+                fields: fieldsOf(result.columnNames(), result.columnTypes()),
+                read: async (count) => {
+                    while (pending.length < count) {
+                        const next = await chunks.next();
+                        if (next.done) break;
+                        pending = pending.concat(next.value);
+                    }
+                    const batch = pending.slice(0, count);
+                    pending = pending.slice(count);
+                    return batch;
+                },
+                close: async () => {
+                    await chunks.return?.();
+                    conn.closeSync();
+                },
+            };
+        } catch (error: any) {
+            conn.closeSync();
+            logger.error(`DuckDB query execution failed: ${error.message}`, error);
+            throw new Error(`Query execution failed: ${error.message}`);
+        }
+
+        return this.openCursor(request.connectionId, source, request, startTime);
+    }
+
+    async explainQuery(connectionId: string, query: string): Promise<ExplainResult> {
+        const database = this.getDatabase(connectionId);
+
+        try {
+            const [json] = await this.queryRows(database, `EXPLAIN (FORMAT JSON) ${query}`);
+            const text = await this.queryRows(database, `EXPLAIN ${query}`);
+            return {
+                plan: JSON.parse(json.explain_value),
+                planText: text.map((row) => row.explain_value).join('\n'),
+            };
+        } catch (error: any) {
+            logger.error(`DuckDB EXPLAIN failed: ${error.message}`, error);
+            throw new Error(`EXPLAIN failed: ${error.message}`);
+        }
+    }
+
+    async getVersion(connectionId: string): Promise<string> {
+        const database = this.getDatabase(connectionId);
+
+        try {
+            return await this.queryValue(database, 'SELECT version() AS version');
+        } catch (error: any) {
+            logger.error(`Failed to get DuckDB version: ${error.message}`, error);
+            throw new Error(`Failed to get version: ${error.message}`);
+        }
+    }
+
+    async getDatabaseInfo(connectionId: string): Promise<DatabaseInfo> {
+        const database = this.getDatabase(connectionId);
+
+        try {
+            const version = await this.queryValue(database, 'SELECT version() AS version');
+
+            return {
+                version,
+                serverVersion: `DuckDB ${version}`,
+                currentDatabase: database.file,
+            };
+        } catch (error: any) {
+            logger.error(`Failed to get DuckDB database info: ${error.message}`, error);
+            throw new Error(`Failed to get database info: ${error.message}`);
+        }
+    }
+
+    private getDatabase(connectionId: string): DuckDBDatabase {
+        const database = this.databases.get(connectionId);
+        if (!database) {
+            throw new Error(`Connection ${connectionId} not found`);
+        }
+        return database;
+    }
+
+    private async queryRows(database: DuckDBDatabase, sql: string, values: DuckDBValue[] = []): Promise<Record<string, any>[]> {
+        const conn = await database.instance.connect();
+        try {
+            const reader = await conn.runAndReadAll(sql, values);
+            return reader.getRowObjectsJson() as Record<string, any>[];
+        } finally {
+            conn.closeSync();
+        }
+    }
+
+    private async queryValue(database: DuckDBDatabase, sql: string): Promise<string> {
+        const [row] = await this.queryRows(database, sql);
+        return String(Object.values(row)[0]);
+    }
+}
+
+/**
+ * Open a database file, or an in-memory database with a view over each data file
+ */
+async function openDatabase(config: ConnectionConfig): Promise<DuckDBDatabase> {
+    const file = config.database || MEMORY;
+    const dataFiles = file === MEMORY ? [] : findDataFiles(file);
+
+    if (dataFiles.length === 0) {
+        const options = config.readOnly && file !== MEMORY ? { access_mode: 'READ_ONLY' } : undefined;
+        return { instance: await DuckDBInstance.create(file, options), file };
+    }
+
+    const instance = await DuckDBInstance.create(MEMORY);
+    const conn = await instance.connect();
+    try {
+        for (const dataFile of dataFiles) {
+            const name = path.basename(dataFile).replace(DATA_FILE, '');
+            await conn.run(`CREATE VIEW ${quote(name)} AS SELECT * FROM '${dataFile.replace(/'/g, "''")}'`);
+        }
+    } catch (error) {
+        conn.closeSync();
+        instance.closeSync();
+        throw error;
+    }
+    conn.closeSync();
+    return { instance, file };
+}
+
+function findDataFiles(file: string): string[] {
+    if (DATA_FILE.test(file)) {
+        return [file];
+    }
+    if (existsSync(file) && statSync(file).isDirectory()) {
+        return readdirSync(file)
+            .filter((name) => DATA_FILE.test(name))
+            .sort()
+            .map((name) => path.join(file, name));
+    }
+    return [];
+}
+
+function bindQuery(request: QueryRequest): { query: string; values: DuckDBValue[] } {
+    if (!request.params) {
+        return { query: request.query, values: [] };
+    }
+    const bound = bindParameters(request.query, request.params, 'dollar');
+    return { query: bound.query, values: bound.values.map(toDuckDBValue) };
+}
+
+// DuckDB casts strings to the parameter's type, so dates and JSON travel as text
+function toDuckDBValue(value: unknown): DuckDBValue {
+    if (value === null || value === undefined) return null;
+    if (Buffer.isBuffer(value)) return blobValue(value);
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return value as DuckDBValue;
+}
+
+function fieldsOf(names: string[], types: { toString(): string }[]): QueryField[] {
+    return names.map((name, i) => ({ name, dataType: types[i].toString() }));
+}
+
+function quote(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
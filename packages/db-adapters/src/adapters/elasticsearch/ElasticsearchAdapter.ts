@@ -11,7 +11,10 @@ import {
     Index,
     DatabaseInfo
 } from '@bosdb/core';
-import { BaseDBAdapter } from '../../interfaces/IDBAdapter';
+import { BaseDBAdapter, CursorSource } from '../../interfaces/IDBAdapter';
+
+// Point-in-time lifetime; renewed on every page and matches the adapter's cursor idle timeout
+const PIT_KEEP_ALIVE = '5m';
 
 /**
  * Elasticsearch Database Adapter
@@ -48,6 +51,7 @@ export class ElasticsearchAdapter extends BaseDBAdapter {
 
     async disconnect(connectionId: string): Promise<void> {
         const client = this.getConnection<any>(connectionId);
+        await this.releaseSessions(connectionId);
         await client.close();
         this.connectionMap.delete(connectionId);
     }
@@ -128,9 +132,17 @@ export class ElasticsearchAdapter extends BaseDBAdapter {
     }
 
     async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+
         const client = this.getConnection<any>(request.connectionId);
         const start = Date.now();
 
+        if (request.streamResults) {
+            return this.openSearchCursor(client, request, start);
+        }
+
         // Parse the query - expecting JSON or SQL
         let result: any;
 
@@ -175,6 +187,85 @@ export class ElasticsearchAdapter extends BaseDBAdapter {
         }
     }
 
+    /**
+     * Stream SQL through the SQL API's own cursor, or DSL through search_after on a point in time
+     */
+    private async openSearchCursor(client: any, request: QueryRequest, start: number): Promise<QueryResult> {
+        const pageSize = (request.maxRows || 1000) + 1;
+        let source: CursorSource;
+
+        try {
+            const first = await client.sql.query({ query: request.query, fetch_size: pageSize });
+            let pending: any[] = first.rows || [];
+            let cursor: string | undefined = first.cursor;
+
+            source = {
+                fields: first.columns?.map((col: any) => ({ name: col.name, dataType: col.type })) || [],
+                read: async () => {
+                    if (pending.length > 0) {
+                        const rows = pending;
+                        pending = [];
+                        return rows;
+                    }
+                    if (!cursor) return [];
+
+                    const page = await client.sql.query({ cursor });
+                    cursor = page.cursor;
+                    return page.rows || [];
+                },
+                close: async () => {
+                    if (cursor) await client.sql.clearCursor({ cursor });
+                },
+            };
+        } catch {
+            let queryBody: any;
+            try {
+                queryBody = JSON.parse(request.query);
+            } catch (parseError: any) {
+                throw new Error(`Invalid query format. Use SQL or JSON DSL. Error: ${parseError.message}`);
+            }
+
+            // Paging is driven by maxRows; from/size would conflict with search_after
+            const { index = '_all', from: _from, size: _size, ...body } = queryBody;
+            const pit = await client.openPointInTime({ index, keep_alive: PIT_KEEP_ALIVE });
+            let pitId: string = pit.id;
+            let searchAfter: any[] | undefined;
+            let done = false;
+
+            source = {
+                fields: [],
+                read: async (count) => {
+                    if (done) return [];
+
+                    const result = await client.search({
+                        ...body,
+                        size: count,
+                        pit: { id: pitId, keep_alive: PIT_KEEP_ALIVE },
+                        sort: body.sort || ['_shard_doc'],
+                        search_after: searchAfter,
+                    });
+                    pitId = result.pit_id || pitId;
+
+                    const hits = result.hits?.hits || [];
+                    if (hits.length < count) done = true;
+                    if (hits.length > 0) {
+                        searchAfter = hits[hits.length - 1].sort;
+                        if (source.fields.length === 0) {
+                            source.fields = Object.keys(hits[0]._source || {}).map(name => ({ name, dataType: 'unknown' }));
+                        }
+                    }
+
+                    return hits.map((hit: any) => ({ _id: hit._id, ...hit._source }));
+                },
+                close: async () => {
+                    await client.closePointInTime({ id: pitId });
+                },
+            };
+        }
+
+        return this.openCursor(request.connectionId, source, request, start);
+    }
+
     async explainQuery(connectionId: string, query: string): Promise<ExplainResult> {
         const client = this.getConnection<any>(connectionId);
 
@@ -0,0 +1,573 @@
+import {
+    InfluxDB,
+    FluxTableMetaData,
+    Row,
+    chunksToLinesIterable,
+    linesToRowsIterable,
+} from '@influxdata/influxdb-client';
+import { BaseDBAdapter, CursorSource } from '../../interfaces/IDBAdapter';
+import type {
+    ConnectionConfig,
+    ConnectionResult,
+    TestResult,
+    QueryRequest,
+    QueryResult,
+    QueryField,
+    Schema,
+    Table,
+    TableMetadata,
+    Column,
+    Index,
+    DatabaseInfo,
+    ExplainResult,
+    TimeRange,
+} from '@bosdb/core';
+import { DEFAULT_TIME_RANGE, ValidationError } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+
+const logger = new Logger('InfluxDBAdapter');
+
+// InfluxQL statements; anything else is Flux
+const INFLUXQL = /^\s*(SELECT|SHOW|CREATE|DROP|DELETE|ALTER|GRANT|REVOKE|EXPLAIN)\b/i;
+
+// Annotated CSV, as the official client requests it
+const FLUX_DIALECT = {
+    header: true,
+    delimiter: ',',
+    quoteChar: '"',
+    commentPrefix: '#',
+    annotations: ['datatype', 'group', 'default'],
+};
+
+interface InfluxConnection {
+    influx: InfluxDB;
+    org: string;
+    bucket: string;  // Default bucket, also the database of InfluxQL queries
+}
+
+/**
+ * InfluxDB Database Adapter
+ * Implements IDBAdapter for InfluxDB 2.x using @influxdata/influxdb-client. Buckets are listed as
+ * schemas, measurements as tables and their tag and field keys as columns. Queries are Flux, or
+ * InfluxQL through the v1 compatibility API, and run over the request's time range: Flux sees it as
+ * v.timeRangeStart / v.timeRangeStop and InfluxQL replaces $timeFilter with it.
+ *
+ * The connection's password is an API token; its username picks the organization when the token
+ * can see more than one.
+ */
+export class InfluxDBAdapter extends BaseDBAdapter {
+    private connections: Map<string, InfluxConnection> = new Map();
+
+    async connect(config: ConnectionConfig): Promise<ConnectionResult> {
+        const connectionId = this.generateConnectionId('influxdb');
+
+        try {
+            const connection = await openInflux(config);
+            const version = await this.fetchVersion(connection);
+
+            this.connections.set(connectionId, connection);
+
+            logger.info(`Connected to InfluxDB: ${config.host}:${config.port} (org ${connection.org})`);
+
+            return {
+                connectionId,
+                success: true,
+                version,
+            };
+        } catch (error: any) {
+            logger.error(`InfluxDB connection failed: ${error.message}`, error);
+            return {
+                connectionId: '',
+                success: false,
+                error: error.message,
+            };
+        }
+    }
+
+    async disconnect(connectionId: string): Promise<void> {
+        if (this.connections.has(connectionId)) {
+            await this.releaseSessions(connectionId);
+            this.connections.delete(connectionId);
+            logger.info(`Disconnected from InfluxDB: ${connectionId}`);
+        }
+    }
+
+    async testConnection(config: ConnectionConfig): Promise<TestResult> {
+        const startTime = Date.now();
+        try {
+            // Resolving the organization already needs a valid token
+            const connection = await openInflux(config);
+            await this.fluxRows(connection, 'buckets() |> limit(n: 1)');
+
+            return {
+                success: true,
+                message: 'InfluxDB connection successful',
+                latency: Date.now() - startTime,
+            };
+        } catch (error: any) {
+            logger.error(`InfluxDB test connection failed: ${error.message}`, error);
+            return {
+                success: false,
+                error: error.message,
+            };
+        }
+    }
+
+    async listSchemas(connectionId: string): Promise<Schema[]> {
+        const connection = this.getInfluxConnection(connectionId);
+
+        try {
+            // System buckets (_monitoring, _tasks) are left out
+            const rows = await this.fluxRows(connection, `
+                buckets()
+                    |> filter(fn: (r) => r.name !~ /^_/)
+                    |> keep(columns: ["name"])
+                    |> sort(columns: ["name"])
+            `);
+
+            return rows.map((row) => ({ name: row.name }));
+        } catch (error: any) {
+            logger.error(`Failed to list InfluxDB buckets: ${error.message}`, error);
+            throw new Error(`Failed to list schemas: ${error.message}`);
+        }
+    }
+
+    async listTables(connectionId: string, schemaName?: string): Promise<Table[]> {
+        const connection = this.getInfluxConnection(connectionId);
+        const bucket = schemaName || connection.bucket;
+
+        try {
+            const rows = await this.fluxRows(connection, `
+                import "influxdata/influxdb/schema"
+
+                schema.measurements(bucket: ${fluxString(bucket)})
+            `);
+
+            return rows.map((row) => ({
+                schema: bucket,
+                name: row._value,
+                type: 'table' as const,
+            }));
+        } catch (error: any) {
+            logger.error(`Failed to list InfluxDB measurements: ${error.message}`, error);
+            throw new Error(`Failed to list tables: ${error.message}`);
+        }
+    }
+
+    /**
+     * Columns of a measurement: _time, then its tag keys, then its field keys typed from their
+     * latest values. Like the InfluxDB UI, keys are looked up in the last 30 days of data.
+     */
+    async describeTable(connectionId: string, schemaName: string, tableName: string): Promise<TableMetadata> {
+        const connection = this.getInfluxConnection(connectionId);
+
+        try {
+            // Get tag keys
+            const tagRows = await this.fluxRows(connection, `
+                import "influxdata/influxdb/schema"
+
+                schema.measurementTagKeys(bucket: ${fluxString(schemaName)}, measurement: ${fluxString(tableName)})
+            `);
+            const tags = tagRows.map((row) => row._value as string).filter((key) => !key.startsWith('_'));
+
+            // Get field keys with the type of their latest value
+            const fieldTypes = new Map<string, string>();
+            await this.fluxQuery(connection, `
+                from(bucket: ${fluxString(schemaName)})
+                    |> range(start: -30d)
+                    |> filter(fn: (r) => r._measurement == ${fluxString(tableName)})
+                    |> last()
+                    |> keep(columns: ["_field", "_value"])
+                    |> group(columns: ["_field"])
+                    |> limit(n: 1)
+            `, (row) => {
+                const field = row.tableMeta.toObject(row.values)._field;
+                fieldTypes.set(field, fluxType(row.tableMeta.column('_value').dataType));
+            });
+
+            if (tags.length === 0 && fieldTypes.size === 0) {
+                throw new Error(`Measurement ${schemaName}.${tableName} not found`);
+            }
+
+            const columns: Column[] = [
+                { name: '_time', dataType: 'dateTime', nullable: false, isPrimaryKey: false, isForeignKey: false },
+                ...tags.map((tag) => ({
+                    name: tag,
+                    dataType: 'string',
+                    nullable: true,
+                    isPrimaryKey: false,
+                    isForeignKey: false,
+                    comment: 'tag',
+                })),
+                ...Array.from(fieldTypes, ([field, dataType]) => ({
+                    name: field,
+                    dataType,
+                    nullable: true,
+                    isPrimaryKey: false,
+                    isForeignKey: false,
+                    comment: 'field',
+                })),
+            ];
+
+            return {
+                schema: schemaName,
+                name: tableName,
+                columns,
+                primaryKeys: [],
+                foreignKeys: [],
+                indexes: [],
+            };
+        } catch (error: any) {
+            logger.error(`Failed to describe InfluxDB measurement: ${error.message}`, error);
+            throw new Error(`Failed to describe table: ${error.message}`);
+        }
+    }
+
+    // InfluxDB indexes every tag; there are no other indexes to list
+    async getIndexes(_connectionId: string, _schemaName: string, _tableName: string): Promise<Index[]> {
+        return [];
+    }
+
+    async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
+        const connection = this.getInfluxConnection(request.connectionId);
+        const timeRange = resolveTimeRange(request.timeRange);
+
+        if (INFLUXQL.test(request.query)) {
+            return this.runInfluxQL(connection, request, timeRange);
+        }
+
+        const startTime = Date.now();
+        const source = this.openFluxResult(connection, request, withFluxTimeRange(request.query, timeRange));
+
+        if (request.streamResults) {
+            return this.openCursor(request.connectionId, source, request, startTime);
+        }
+
+        const maxRows = request.maxRows || 1000;
+        try {
+            const rows = await source.read(maxRows + 1);
+            return {
+                rows: rows.slice(0, maxRows),
+                fields: source.fields,
+                rowCount: Math.min(rows.length, maxRows),
+                executionTime: Date.now() - startTime,
+                hasMore: rows.length > maxRows,
+            };
+        } finally {
+            await source.close();
+        }
+    }
+
+    /**
+     * Run a Flux query as a cursor over its annotated CSV response, which is read as rows are needed.
+     * Flux results are a stream of tables whose columns can differ, so fields grow as tables arrive.
+     */
+    private openFluxResult(connection: InfluxConnection, request: QueryRequest, query: string): CursorSource {
+        const abort = new AbortController();
+        const rows = this.fluxRowIterator(connection, query, abort.signal);
+        const fields: QueryField[] = [];
+        let lastMeta: FluxTableMetaData | undefined;
+
+        const read = async (count: number) => {
+            const batch: any[] = [];
+            while (batch.length < count) {
+                const next = await rows.next();
+                if (next.done) break;
+
+                const { values, tableMeta } = next.value;
+                if (tableMeta !== lastMeta) {
+                    lastMeta = tableMeta;
+                    for (const column of tableMeta.columns) {
+                        if (column.label !== 'result' && !fields.some((field) => field.name === column.label)) {
+                            fields.push({ name: column.label, dataType: fluxType(column.dataType) });
+                        }
+                    }
+                }
+                const { result: _result, ...row } = tableMeta.toObject(values);
+                batch.push(row);
+            }
+            return batch;
+        };
+
+        return {
+            fields,
+            read: async (count) => {
+                try {
+                    return await this.trackQuery(request, async () => abort.abort(), () => read(count));
+                } catch (error: any) {
+                    logger.error(`InfluxDB query execution failed: ${error.message}`, error);
+                    throw new Error(`Query execution failed: ${error.message}`);
+                }
+            },
+            close: async () => {
+                abort.abort();
+                await rows.return?.(undefined);
+            },
+        };
+    }
+
+    /**
+     * Run InfluxQL through the v1 compatibility API, against the connection's bucket. Series are
+     * flattened into rows carrying their tags; the measurement is added when there are several.
+     */
+    private async runInfluxQL(connection: InfluxConnection, request: QueryRequest, timeRange: TimeRange): Promise<QueryResult> {
+        const startTime = Date.now();
+        const maxRows = request.maxRows || 1000;
+        const abort = new AbortController();
+
+        const query = request.query.replace(
+            /\$timeFilter\b/g,
+            `time >= '${timeRange.start}' AND time < '${timeRange.stop}'`
+        );
+
+        try {
+            const response = await this.trackQuery(request, async () => abort.abort(), () =>
+                connection.influx.transport.request(
+                    `/query?db=${encodeURIComponent(connection.bucket)}`,
+                    new URLSearchParams({ q: query }).toString(),
+                    {
+                        method: 'POST',
+                        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+                        signal: abort.signal,
+                    }
+                ));
+
+            const results: any[] = response.results || [];
+            const failed = results.find((result) => result.error);
+            if (response.error || failed) {
+                throw new Error(response.error || failed.error);
+            }
+
+            const series: any[] = results.flatMap((result) => result.series || []);
+            const withMeasurement = new Set(series.map((s) => s.name)).size > 1;
+            const fields: QueryField[] = [];
+            const addField = (name: string, dataType: string) => {
+                if (!fields.some((field) => field.name === name)) {
+                    fields.push({ name, dataType });
+                }
+            };
+
+            const rows: Record<string, unknown>[] = [];
+            for (const s of series) {
+                if (withMeasurement) addField('_measurement', 'string');
+                if (s.columns.includes('time')) addField('time', 'dateTime');
+                Object.keys(s.tags || {}).forEach((tag) => addField(tag, 'string'));
+                s.columns.forEach((column: string, i: number) =>
+                    addField(column, column === 'time' ? 'dateTime' : valueType(s.values?.find((v: any[]) => v[i] !== null)?.[i])));
+
+                for (const values of s.values || []) {
+                    const row: Record<string, unknown> = withMeasurement ? { _measurement: s.name, ...s.tags } : { ...s.tags };
+                    s.columns.forEach((column: string, i: number) => {
+                        row[column] = values[i];
+                    });
+                    rows.push(row);
+                }
+            }
+
+            // The v1 API returns the whole result at once, so pages are served from memory
+            if (request.streamResults) {
+                const source: CursorSource = {
+                    fields,
+                    read: async (count) => rows.splice(0, count),
+                    close: async () => undefined,
+                };
+                return this.openCursor(request.connectionId, source, request, startTime);
+            }
+
+            return {
+                rows: rows.slice(0, maxRows),
+                fields,
+                rowCount: Math.min(rows.length, maxRows),
+                executionTime: Date.now() - startTime,
+                hasMore: rows.length > maxRows,
+            };
+        } catch (error: any) {
+            logger.error(`InfluxQL query execution failed: ${error.message}`, error);
+            throw new Error(`Query execution failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Flux has no EXPLAIN; the query runs with the profiler enabled and its operator profile
+     * (execution counts and durations per plan node) is returned as the plan
+     */
+    async explainQuery(connectionId: string, query: string): Promise<ExplainResult> {
+        const connection = this.getInfluxConnection(connectionId);
+
+        if (INFLUXQL.test(query)) {
+            throw new Error('EXPLAIN failed: query plans are only available for Flux queries');
+        }
+
+        try {
+            // Imports may come in any order, but all before the options
+            const profiled = 'import "profiler"\n' + insertAfterImports(
+                withFluxTimeRange(query, resolveTimeRange()),
+                'option profiler.enabledProfilers = ["operator"]\n'
+            );
+            const operators: Record<string, any>[] = [];
+            await this.fluxQuery(connection, profiled, (row) => {
+                const record = row.tableMeta.toObject(row.values);
+                if (record._measurement === 'profiler/operator') {
+                    const { result: _result, table: _table, _measurement, ...operator } = record;
+                    operators.push(operator);
+                }
+            });
+
+            return {
+                plan: operators,
+                planText: operators
+                    .map((op) => `${op.Type} (${op.Label}): ${op.Count} calls, ${formatNanos(op.DurationSum)} total, ${formatNanos(op.MeanDuration)} mean`)
+                    .join('\n'),
+            };
+        } catch (error: any) {
+            logger.error(`InfluxDB profile failed: ${error.message}`, error);
+            throw new Error(`EXPLAIN failed: ${error.message}`);
+        }
+    }
+
+    async getVersion(connectionId: string): Promise<string> {
+        const connection = this.getInfluxConnection(connectionId);
+
+        try {
+            return await this.fetchVersion(connection);
+        } catch (error: any) {
+            logger.error(`Failed to get InfluxDB version: ${error.message}`, error);
+            throw new Error(`Failed to get version: ${error.message}`);
+        }
+    }
+
+    async getDatabaseInfo(connectionId: string): Promise<DatabaseInfo> {
+        const connection = this.getInfluxConnection(connectionId);
+
+        try {
+            const version = await this.fetchVersion(connection);
+
+            return {
+                version,
+                serverVersion: `InfluxDB ${version}`,
+                currentDatabase: connection.bucket,
+                currentUser: connection.org,
+            };
+        } catch (error: any) {
+            logger.error(`Failed to get InfluxDB database info: ${error.message}`, error);
+            throw new Error(`Failed to get database info: ${error.message}`);
+        }
+    }
+
+    private getInfluxConnection(connectionId: string): InfluxConnection {
+        const connection = this.connections.get(connectionId);
+        if (!connection) {
+            throw new Error(`Connection ${connectionId} not found`);
+        }
+        return connection;
+    }
+
+    private async fetchVersion(connection: InfluxConnection): Promise<string> {
+        const health = await connection.influx.transport.request('/health', null, { method: 'GET' });
+        return String(health.version);
+    }
+
+    private fluxRowIterator(connection: InfluxConnection, query: string, signal?: AbortSignal): AsyncIterableIterator<Row> {
+        const chunks = connection.influx.transport.iterate(
+            `/api/v2/query?org=${encodeURIComponent(connection.org)}`,
+            JSON.stringify({ query, dialect: FLUX_DIALECT, type: 'flux' }),
+            { method: 'POST', headers: { accept: 'text/csv' }, signal }
+        );
+        return linesToRowsIterable(chunksToLinesIterable(chunks));
+    }
+
+    private async fluxQuery(connection: InfluxConnection, query: string, onRow: (row: Row) => void): Promise<void> {
+        for await (const row of this.fluxRowIterator(connection, query)) {
+            onRow(row);
+        }
+    }
+
+    private async fluxRows(connection: InfluxConnection, query: string): Promise<Record<string, any>[]> {
+        const rows: Record<string, any>[] = [];
+        await this.fluxQuery(connection, query, (row) => rows.push(row.tableMeta.toObject(row.values)));
+        return rows;
+    }
+}
+
+/**
+ * Create a client and find the token's organization: the one named by the username, else the first
+ */
+async function openInflux(config: ConnectionConfig): Promise<InfluxConnection> {
+    // A host may be given as a full URL, e.g. https://us-east-1-1.aws.cloud2.influxdata.com
+    const url = /^https?:\/\//i.test(config.host)
+        ? config.host
+        : `${config.ssl ? 'https' : 'http'}://${config.host}:${config.port || 8086}`;
+    const influx = new InfluxDB({ url, token: config.password, timeout: config.queryTimeout || 30000 });
+
+    const { orgs = [] } = await influx.transport.request('/api/v2/orgs', null, { method: 'GET' });
+    const org = orgs.find((o: any) => o.name === config.username) ?? orgs[0];
+    if (!org) {
+        throw new Error('The API token has no access to an organization');
+    }
+
+    return { influx, org: org.name, bucket: config.database };
+}
+
+function resolveTimeRange(timeRange?: TimeRange): TimeRange {
+    if (timeRange) {
+        // The bounds come from the request and end up in the query text, so they are re-serialized
+        const start = Date.parse(timeRange.start);
+        const stop = Date.parse(timeRange.stop);
+        if (Number.isNaN(start) || Number.isNaN(stop)) {
+            throw new ValidationError('Time range start and stop must be ISO 8601 timestamps');
+        }
+        if (start >= stop) {
+            throw new ValidationError('Time range start must be before its stop');
+        }
+        return { start: new Date(start).toISOString(), stop: new Date(stop).toISOString() };
+    }
+    const stop = new Date();
+    return { start: new Date(stop.getTime() - DEFAULT_TIME_RANGE).toISOString(), stop: stop.toISOString() };
+}
+
+/**
+ * Define the v record the InfluxDB UI gives queries, so range(start: v.timeRangeStart,
+ * stop: v.timeRangeStop) and aggregateWindow(every: v.windowPeriod) work unchanged
+ */
+function withFluxTimeRange(query: string, timeRange: TimeRange): string {
+    const span = Date.parse(timeRange.stop) - Date.parse(timeRange.start);
+    // About 300 points per series, like the UI's automatic window
+    const windowPeriod = Math.max(1000, Math.round(span / 300));
+
+    return insertAfterImports(
+        query,
+        `option v = {timeRangeStart: ${timeRange.start}, timeRangeStop: ${timeRange.stop}, windowPeriod: ${windowPeriod}ms}\n`
+    );
+}
+
+// Flux requires imports before any other statement
+function insertAfterImports(query: string, statement: string): string {
+    const imports = /^(\s*(import\s+"[^"]*"|\/\/[^\n]*)\s*\n)*/.exec(query)![0];
+    return imports + statement + query.slice(imports.length);
+}
+
+function fluxString(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// Annotated CSV types, with dateTime:RFC3339 shortened
+function fluxType(dataType: string): string {
+    return dataType.replace(/:.*$/, '');
+}
+
+function valueType(value: unknown): string {
+    if (typeof value === 'number') return 'double';
+    if (typeof value === 'boolean') return 'boolean';
+    return 'string';
+}
+
+function formatNanos(nanos: number): string {
+    return nanos >= 1e6 ? `${(nanos / 1e6).toFixed(2)}ms` : `${(nanos / 1e3).toFixed(1)}µs`;
+}
@@ -1,11 +1,14 @@
-import { MongoClient, Db, Document } from 'mongodb';
-import { BaseDBAdapter } from '../../interfaces/IDBAdapter';
+import { MongoClient, Db, Document, AbstractCursor, AggregationCursor, ClientSession, Collection, Decimal128, FindCursor, Long, ObjectId } from 'mongodb';
+import { BaseDBAdapter, CursorSource, TransactionSession } from '../../interfaces/IDBAdapter';
+import { parseMongoQuery, toExtendedJSON, fromExtendedJSON } from './mongo-shell';
+import type { MongoOperation } from './mongo-shell';
 import type {
     ConnectionConfig,
     ConnectionResult,
     TestResult,
     QueryRequest,
     QueryResult,
+    BulkInsertRequest,
     Schema,
     Table,
     TableMetadata,
@@ -15,10 +18,17 @@ import type {
     DatabaseInfo,
     ExplainResult,
 } from '@bosdb/core';
+import { QueryExecutionError } from '@bosdb/core';
 import { Logger } from '@bosdb/utils';
 
 const logger = new Logger('MongoDBAdapter');
 
+// Documents sampled to infer a collection's fields
+const SCHEMA_SAMPLE_SIZE = 100;
+
+// User queries read int64 values as bigint, so those beyond 2^53 keep every digit
+const READ_OPTIONS = { useBigInt64: true };
+
 /**
  * MongoDB Database Adapter
  * Implements IDBAdapter for MongoDB databases
@@ -26,8 +36,12 @@ const logger = new Logger('MongoDBAdapter');
  * Note: MongoDB is document-oriented (NoSQL), so some SQL concepts don't apply:
  * - Schemas -> Databases
  * - Tables -> Collections
- * - Columns -> Document fields (dynamic)
- * - Query -> Aggregation pipelines or find operations
+ * - Columns -> Document fields (dynamic), inferred from a sample
+ * - Query -> mongosh-style commands, e.g. db.users.find({ age: { $gt: 18 } }).limit(10),
+ *   or the JSON command format (see mongo-shell.ts)
+ *
+ * Result documents are Extended JSON, so ObjectId, dates and decimals survive the trip to the
+ * browser and back into a query or an import.
  */
 export class MongoDBAdapter extends BaseDBAdapter {
     private clients: Map<string, MongoClient> = new Map();
@@ -75,6 +89,7 @@ export class MongoDBAdapter extends BaseDBAdapter {
     async disconnect(connectionId: string): Promise<void> {
         const client = this.clients.get(connectionId);
         if (client) {
+            await this.releaseSessions(connectionId);
             await client.close();
             this.clients.delete(connectionId);
             this.databases.delete(connectionId);
@@ -187,23 +202,41 @@ export class MongoDBAdapter extends BaseDBAdapter {
             const db = client.db(schemaName);
             const collection = db.collection(tableName);
 
-            // Sample documents to infer schema (MongoDB has dynamic schema)
-            const sampleDocs = await collection.find({}).limit(100).toArray();
+            // A random sample where the server supports $sample, else the first documents. Numbers
+            // stay wrapped (Int32, Double, Long) so their BSON type shows.
+            const sampleDocs = await collection.aggregate([{ $sample: { size: SCHEMA_SAMPLE_SIZE } }], { promoteValues: false })
+                .toArray()
+                .catch(() => collection.find({}, { limit: SCHEMA_SAMPLE_SIZE, promoteValues: false }).toArray());
 
-            // Infer fields from sample documents
+            // A $jsonSchema validator names the required fields, and the types of fields the sample missed
+            const [info] = await db.listCollections({ name: tableName }).toArray();
+            const jsonSchema = (info as any)?.options?.validator?.$jsonSchema || {};
+            const required: string[] = jsonSchema.required || [];
+            const properties: Record<string, any> = jsonSchema.properties || {};
+
+            // Fields in order of first appearance, _id first as the server stores it
             const fieldSet = new Set<string>();
             for (const doc of sampleDocs) {
                 Object.keys(doc).forEach(key => fieldSet.add(key));
             }
+            Object.keys(properties).forEach(key => fieldSet.add(key));
 
-            const columns: Column[] = Array.from(fieldSet).map(fieldName => ({
-                name: fieldName,
-                dataType: this.inferMongoType(sampleDocs, fieldName),
-                nullable: true, // MongoDB fields are always optional by default
-                defaultValue: undefined,
-                isPrimaryKey: fieldName === '_id',
-                isForeignKey: false,
-            }));
+            const columns: Column[] = Array.from(fieldSet).map(fieldName => {
+                const present = sampleDocs.filter(doc => doc[fieldName] !== undefined && doc[fieldName] !== null).length;
+                const declared = [properties[fieldName]?.bsonType].flat().find((type: string) => type && type !== 'null');
+                const sometimesMissing = present < sampleDocs.length;
+
+                return {
+                    name: fieldName,
+                    dataType: present > 0 || !declared ? this.inferMongoType(sampleDocs, fieldName) : declared,
+                    nullable: fieldName !== '_id' && !required.includes(fieldName) && (sampleDocs.length === 0 || sometimesMissing),
+                    defaultValue: undefined,
+                    isPrimaryKey: fieldName === '_id',
+                    isForeignKey: false,
+                    comment: properties[fieldName]?.description
+                        ?? (sometimesMissing ? `In ${present} of ${sampleDocs.length} sampled documents` : undefined),
+                };
+            });
 
             // Get indexes
             const indexes = await this.getIndexes(connectionId, schemaName, tableName);
@@ -251,59 +284,118 @@ export class MongoDBAdapter extends BaseDBAdapter {
     }
 
     async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
         const db = this.databases.get(request.connectionId);
         if (!db) {
             throw new Error(`Connection ${request.connectionId} not found`);
         }
 
+        return this.runOperation(db, request);
+    }
+
+    /**
+     * Sessions start a multi-document transaction; this needs a replica set or sharded cluster
+     */
+    protected async openTransaction(connectionId: string): Promise<TransactionSession> {
+        const client = this.clients.get(connectionId);
+        const db = this.databases.get(connectionId);
+        if (!client || !db) {
+            throw new Error(`Connection ${connectionId} not found`);
+        }
+
+        const session = client.startSession();
+        session.startTransaction();
+
+        const finish = async (end: () => Promise<unknown>) => {
+            try {
+                await end();
+            } finally {
+                await session.endSession();
+            }
+        };
+
+        return {
+            execute: (request) => this.runOperation(db, request, session),
+            bulkInsert: (request) => this.insertDocuments(client, request, session),
+            commit: () => finish(() => session.commitTransaction()),
+            rollback: () => finish(() => session.abortTransaction()),
+        };
+    }
+
+    protected async insertRows(request: BulkInsertRequest): Promise<number> {
+        const client = this.clients.get(request.connectionId);
+        if (!client) {
+            throw new Error(`Connection ${request.connectionId} not found`);
+        }
+        return this.insertDocuments(client, request);
+    }
+
+    /**
+     * insertMany of one document per row; the schema is the database, as in describeTable
+     */
+    private async insertDocuments(client: MongoClient, request: BulkInsertRequest, session?: ClientSession): Promise<number> {
+        const documents = request.rows.map(row => {
+            const doc: Document = {};
+            request.columns.forEach((col, i) => {
+                if (row[i] !== undefined) doc[col.name] = toBSONValue(row[i], col.dataType);
+            });
+            return doc;
+        });
+
+        try {
+            const db = request.schema ? client.db(request.schema) : this.databases.get(request.connectionId)!;
+            const result = await db.collection(request.table).insertMany(documents, { session });
+            return result.insertedCount;
+        } catch (error: any) {
+            // Outside a transaction, an ordered insertMany keeps the documents before the one that failed
+            throw new QueryExecutionError(`Bulk insert failed: ${error.message}`,
+                session ? undefined : { inserted: error.insertedCount ?? 0 });
+        }
+    }
+
+    private async runOperation(db: Db, request: QueryRequest, session?: ClientSession): Promise<QueryResult> {
         const startTime = Date.now();
 
         try {
-            // Parse MongoDB query (JSON format)
-            // Supports: { "find": "collection", "filter": {...}, "limit": 10 }
-            // Or aggregation: { "aggregate": "collection", "pipeline": [...] }
-            const queryObj = JSON.parse(request.query);
-
-            let rows: any[] = [];
-            let fields: any[] = [];
-
-            if (queryObj.find) {
-                // Find operation
-                const collection = db.collection(queryObj.find);
-                const filter = queryObj.filter || {};
-                const options: any = {};
-
-                if (queryObj.sort) options.sort = queryObj.sort;
-                if (queryObj.limit) options.limit = queryObj.limit;
-                if (queryObj.skip) options.skip = queryObj.skip;
-
-                rows = await collection.find(filter, options).toArray();
-            } else if (queryObj.aggregate) {
-                // Aggregation pipeline
-                const collection = db.collection(queryObj.aggregate);
-                const pipeline = queryObj.pipeline || [];
-                rows = await collection.aggregate(pipeline).toArray();
-            } else if (queryObj.drop) {
-                // Drop collection
-                const success = await db.collection(queryObj.drop).drop();
-                rows = [{ success }];
-                fields = [{ name: 'success', dataType: 'boolean' }];
-            } else {
-                throw new Error('Invalid query format. Use {"find": "collection", "filter": {...}}, {"aggregate": "collection", "pipeline": [...]}, or {"drop": "collection"}');
+            const operation = parseMongoQuery(request.query);
+            const collection = db.collection(operation.collection);
+
+            // The query ID travels as the operation comment so killOp can find it
+            const comment = request.queryId;
+            const cancel = () => this.killOperations(request.connectionId, comment!);
+
+            if (request.streamResults && !session && (operation.method === 'find' || operation.method === 'aggregate')) {
+                const cursor = this.openReadCursor(collection, operation, comment);
+                cursor.batchSize((request.maxRows || 1000) + 1);
+                return await this.trackQuery(request, cancel, () =>
+                    this.openCursor(request.connectionId, this.toCursorSource(cursor), request, startTime));
             }
 
+            const { docs, affected } = await this.trackQuery(request, cancel, () =>
+                this.runMethod(db, collection, operation, { comment, session }));
+            const rows = docs.map(toExtendedJSON);
+
             // Infer fields from results
-            if (rows.length > 0) {
-                const fieldNames = new Set<string>();
-                rows.forEach(row => Object.keys(row).forEach(key => fieldNames.add(key)));
-                fields = Array.from(fieldNames).map(name => ({
-                    name,
-                    dataType: 'mixed',
-                }));
-            }
+            const fieldNames = new Set<string>();
+            rows.forEach(row => Object.keys(row).forEach(key => fieldNames.add(key)));
+            const fields = Array.from(fieldNames).map(name => ({
+                name,
+                dataType: 'mixed',
+            }));
 
             const executionTime = Date.now() - startTime;
 
+            // Writes return one summary row; their row count is the documents they changed
+            if (affected !== undefined) {
+                return { rows, fields, rowCount: affected, executionTime };
+            }
+
             return {
                 rows: rows.slice(0, request.maxRows || 1000),
                 fields,
@@ -317,6 +409,150 @@ export class MongoDBAdapter extends BaseDBAdapter {
         }
     }
 
+    /**
+     * Run one parsed operation. Reads return their documents; writes return one summary document
+     * and the number of documents they affected.
+     */
+    private async runMethod(
+        db: Db,
+        collection: Collection,
+        operation: MongoOperation,
+        options: { comment?: string; session?: ClientSession }
+    ): Promise<{ docs: Document[]; affected?: number }> {
+        const { method, args } = operation;
+        const filter = () => objectArg(args, 0, method, 'filter') || {};
+        const methodOptions = (index: number) => ({ ...objectArg(args, index, method, 'options'), ...options });
+
+        switch (method) {
+            case 'find':
+            case 'aggregate':
+                return { docs: await this.openReadCursor(collection, operation, options.comment, options.session).toArray() };
+            case 'findOne': {
+                const doc = await collection.findOne(filter(), {
+                    ...methodOptions(2), ...READ_OPTIONS, projection: objectArg(args, 1, method, 'projection'),
+                });
+                return { docs: doc ? [doc] : [] };
+            }
+            case 'countDocuments':
+                return { docs: [{ count: await collection.countDocuments(filter(), methodOptions(1)) }] };
+            case 'estimatedDocumentCount':
+                return { docs: [{ count: await collection.estimatedDocumentCount(methodOptions(0)) }] };
+            case 'distinct': {
+                const field = args[0];
+                if (typeof field !== 'string') throw new Error('distinct() takes a field name');
+                const values = await collection.distinct(field, objectArg(args, 1, method, 'filter') || {}, methodOptions(2));
+                // One row per value, under the field's name
+                return { docs: values.map(value => ({ [field]: value })) };
+            }
+            case 'getIndexes':
+                return { docs: await collection.indexes({ session: options.session }) };
+
+            case 'insertOne': {
+                const result = await collection.insertOne(objectArg(args, 0, method, 'document', true), methodOptions(1));
+                return { docs: [{ acknowledged: result.acknowledged, insertedId: result.insertedId }], affected: 1 };
+            }
+            case 'insertMany': {
+                if (!Array.isArray(args[0])) throw new Error('insertMany() takes an array of documents');
+                const result = await collection.insertMany(args[0], methodOptions(1));
+                return {
+                    docs: [{ acknowledged: result.acknowledged, insertedCount: result.insertedCount, insertedIds: Object.values(result.insertedIds) }],
+                    affected: result.insertedCount,
+                };
+            }
+            case 'updateOne':
+            case 'updateMany':
+            case 'replaceOne': {
+                // An update is an operator document or, for updateOne/updateMany, a pipeline
+                const update = method !== 'replaceOne' && Array.isArray(args[1]) ? args[1] : objectArg(args, 1, method, method === 'replaceOne' ? 'replacement' : 'update', true);
+                const result = method === 'replaceOne'
+                    ? await collection.replaceOne(filter(), update, methodOptions(2))
+                    : await collection[method](filter(), update, methodOptions(2));
+                const { acknowledged, matchedCount, modifiedCount, upsertedCount, upsertedId } = result;
+                return {
+                    docs: [{ acknowledged, matchedCount, modifiedCount, upsertedCount, upsertedId }],
+                    affected: modifiedCount + upsertedCount,
+                };
+            }
+            case 'deleteOne':
+            case 'deleteMany': {
+                const result = await collection[method](filter(), methodOptions(1));
+                return { docs: [{ acknowledged: result.acknowledged, deletedCount: result.deletedCount }], affected: result.deletedCount };
+            }
+            case 'createIndex': {
+                const name = await collection.createIndex(objectArg(args, 0, method, 'keys', true), methodOptions(1));
+                return { docs: [{ name }], affected: 0 };
+            }
+            case 'dropIndex': {
+                const name = await this.indexName(collection, args[0]);
+                await collection.dropIndex(name, { session: options.session });
+                return { docs: [{ dropped: name }], affected: 0 };
+            }
+            case 'dropIndexes': {
+                await collection.dropIndexes({ session: options.session });
+                return { docs: [{ dropped: true }], affected: 0 };
+            }
+            case 'drop': {
+                const dropped = await collection.drop({ session: options.session });
+                return { docs: [{ dropped }], affected: 0 };
+            }
+            case 'command': {
+                // Write commands of the JSON format, e.g. {"update": "users", "updates": [...]}
+                const { ok, n, nModified, writeErrors } = await db.command(args[0], { session: options.session });
+                if (writeErrors?.length) {
+                    throw new Error(writeErrors[0].errmsg);
+                }
+                return { docs: [{ ok, n, ...(nModified !== undefined ? { nModified } : {}) }], affected: n };
+            }
+            default:
+                throw new Error(`Unsupported method ${method}()`);
+        }
+    }
+
+    /**
+     * Cursor of a find or aggregate, with the chained cursor methods applied
+     */
+    private openReadCursor(collection: Collection, operation: MongoOperation, comment?: string, session?: ClientSession): FindCursor | AggregationCursor {
+        if (operation.method === 'aggregate') {
+            const pipeline = operation.args[0] || [];
+            if (!Array.isArray(pipeline)) throw new Error('aggregate() takes a pipeline array');
+            return collection.aggregate(pipeline, { ...objectArg(operation.args, 1, 'aggregate', 'options'), ...READ_OPTIONS, comment, session });
+        }
+
+        const cursor = collection.find(objectArg(operation.args, 0, 'find', 'filter') || {}, {
+            ...objectArg(operation.args, 2, 'find', 'options'),
+            ...READ_OPTIONS,
+            projection: objectArg(operation.args, 1, 'find', 'projection'),
+            comment,
+            session,
+        });
+        for (const { method, args } of operation.cursor) {
+            switch (method) {
+                case 'sort': cursor.sort(objectArg(args, 0, method, 'sort', true)); break;
+                case 'limit': cursor.limit(Number(args[0])); break;
+                case 'skip': cursor.skip(Number(args[0])); break;
+                case 'projection': cursor.project(objectArg(args, 0, method, 'projection', true)); break;
+                case 'hint': cursor.hint(args[0]); break;
+                case 'collation': cursor.collation(objectArg(args, 0, method, 'collation', true)); break;
+                case 'maxTimeMS': cursor.maxTimeMS(Number(args[0])); break;
+                // batchSize() is set from maxRows, toArray() and pretty() change nothing
+            }
+        }
+        return cursor;
+    }
+
+    /**
+     * dropIndex() takes an index name or, as in the shell, its key pattern
+     */
+    private async indexName(collection: Collection, index: unknown): Promise<string> {
+        if (typeof index === 'string') return index;
+        if (!index || typeof index !== 'object') throw new Error('dropIndex() takes an index name or key pattern');
+
+        const pattern = JSON.stringify(index);
+        const match = (await collection.indexes()).find(idx => JSON.stringify(idx.key) === pattern);
+        if (!match?.name) throw new Error(`No index with key pattern ${pattern}`);
+        return match.name;
+    }
+
     async explainQuery(connectionId: string, query: string): Promise<ExplainResult> {
         const db = this.databases.get(connectionId);
         if (!db) {
@@ -324,21 +560,13 @@ export class MongoDBAdapter extends BaseDBAdapter {
         }
 
         try {
-            const queryObj = JSON.parse(query);
+            const operation = parseMongoQuery(query);
 
-            if (queryObj.find) {
-                const collection = db.collection(queryObj.find);
-                const explainResult = await collection.find(queryObj.filter || {}).explain();
+            if (operation.method === 'find' || operation.method === 'aggregate') {
+                const explainResult = await this.openReadCursor(db.collection(operation.collection), operation).explain();
                 return {
                     plan: explainResult,
-                    planText: JSON.stringify(explainResult, null, 2),
-                };
-            } else if (queryObj.aggregate) {
-                const collection = db.collection(queryObj.aggregate);
-                const explainResult = await collection.aggregate(queryObj.pipeline || [], { explain: true }).toArray();
-                return {
-                    plan: explainResult,
-                    planText: JSON.stringify(explainResult, null, 2),
+                    planText: JSON.stringify(toExtendedJSON(explainResult), null, 2),
                 };
             }
 
@@ -390,7 +618,44 @@ export class MongoDBAdapter extends BaseDBAdapter {
     }
 
     /**
-     * Infer MongoDB field type from sample documents
+     * killOp every in-progress operation tagged with the given comment
+     */
+    private async killOperations(connectionId: string, comment: string): Promise<void> {
+        const client = this.clients.get(connectionId);
+        if (!client) return;
+
+        const admin = client.db('admin');
+        const current = await admin.command({ currentOp: true, 'command.comment': comment });
+        await Promise.all((current.inprog || []).map((op: any) => admin.command({ killOp: 1, op: op.opid })));
+    }
+
+    /**
+     * Page through a driver cursor; fields are the union of keys seen so far
+     */
+    private toCursorSource(cursor: AbstractCursor<Document>): CursorSource {
+        const fieldNames = new Set<string>();
+
+        const source: CursorSource = {
+            fields: [],
+            read: async (count) => {
+                const rows: Document[] = [];
+                while (rows.length < count) {
+                    const doc = await cursor.next();
+                    if (!doc) break;
+                    rows.push(toExtendedJSON(doc));
+                    Object.keys(doc).forEach(key => fieldNames.add(key));
+                }
+                source.fields = Array.from(fieldNames).map(name => ({ name, dataType: 'mixed' }));
+                return rows;
+            },
+            close: () => cursor.close(),
+        };
+
+        return source;
+    }
+
+    /**
+     * Infer a field's BSON type, by the names $type uses, from sample documents
      */
     private inferMongoType(docs: Document[], fieldName: string): string {
         const types = new Set<string>();
@@ -398,13 +663,90 @@ export class MongoDBAdapter extends BaseDBAdapter {
         for (const doc of docs) {
             const value = doc[fieldName];
             if (value === null || value === undefined) continue;
-
-            const type = Array.isArray(value) ? 'array' : typeof value;
-            types.add(type);
+            types.add(bsonTypeOf(value));
         }
 
         if (types.size === 0) return 'null';
         if (types.size === 1) return Array.from(types)[0];
+        // Numbers of several widths read as the widest, as they would in an aggregation
+        if (Array.from(types).every(type => ['int', 'long', 'double'].includes(type))) {
+            return types.has('double') ? 'double' : 'long';
+        }
         return 'mixed';
     }
 }
+
+// ============ Helpers ============
+
+// $type names of the driver's BSON value classes
+const BSON_TYPE_NAMES: Record<string, string> = {
+    ObjectId: 'objectId',
+    Int32: 'int',
+    Double: 'double',
+    Long: 'long',
+    Decimal128: 'decimal',
+    Binary: 'binData',
+    Timestamp: 'timestamp',
+    BSONRegExp: 'regex',
+    BSONSymbol: 'symbol',
+    Code: 'javascript',
+    MinKey: 'minKey',
+    MaxKey: 'maxKey',
+};
+
+function bsonTypeOf(value: any): string {
+    if (Array.isArray(value)) return 'array';
+    if (value instanceof Date) return 'date';
+    if (value instanceof RegExp) return 'regex';
+    if (typeof value === 'string') return 'string';
+    if (typeof value === 'boolean') return 'bool';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'double';
+    if (typeof value === 'bigint') return 'long';
+    return BSON_TYPE_NAMES[value._bsontype] || 'object';
+}
+
+// Argument at an index that must be a document; undefined when an optional one is left out
+function objectArg(args: any[], index: number, method: string, name: string, required: boolean = false): any {
+    const value = args[index];
+    if (value === undefined || value === null) {
+        if (required) throw new Error(`${method}(): ${name} is required`);
+        return undefined;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) throw new Error(`${method}(): ${name} must be a document`);
+    return value;
+}
+
+/**
+ * A value read from a file, as the BSON type describeTable inferred for its field. Extended JSON
+ * (e.g. an exported {"$oid": ...}) becomes the value it describes; values of ObjectId, date,
+ * decimal and int64 fields are converted, and anything that doesn't fit is kept as it is.
+ */
+function toBSONValue(value: unknown, dataType: string): unknown {
+    if (typeof value === 'string' && /^\s*\{\s*"\$/.test(value)) {
+        try {
+            return fromExtendedJSON(JSON.parse(value));
+        } catch {
+            return value;
+        }
+    }
+    if (typeof value === 'number') {
+        if (dataType === 'long' && Number.isInteger(value)) return Long.fromNumber(value);
+        if (dataType === 'decimal') return Decimal128.fromString(String(value));
+    }
+    if (typeof value !== 'string') return fromExtendedJSON(value);
+
+    switch (dataType) {
+        case 'objectId':
+            return ObjectId.isValid(value) && value.length === 24 ? new ObjectId(value) : value;
+        case 'date': {
+            const date = new Date(value);
+            return isNaN(date.getTime()) ? value : date;
+        }
+        case 'decimal':
+            return /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value) ? Decimal128.fromString(value) : value;
+        case 'long':
+            return /^[-+]?\d+$/.test(value) ? Long.fromString(value) : value;
+        default:
+            return value;
+    }
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from '@jest/globals';
+import { Decimal128, Long, ObjectId } from 'mongodb';
+import { fromExtendedJSON, isReadOnlyMongoQuery, parseMongoQuery, toExtendedJSON } from './mongo-shell';
+
+const OID = '6ad64fc6388f274411a3771f';
+
+describe('parseMongoQuery', () => {
+    it('parses a find with chained cursor methods', () => {
+        expect(parseMongoQuery('db.orders.find({ status: "open" }).sort({ ts: -1 }).limit(10)')).toEqual({
+            collection: 'orders',
+            method: 'find',
+            args: [{ status: 'open' }],
+            cursor: [
+                { method: 'sort', args: [{ ts: -1 }] },
+                { method: 'limit', args: [10] },
+            ],
+        });
+    });
+
+    it('accepts unquoted keys, single quotes, trailing commas, comments and a trailing semicolon', () => {
+        const operation = parseMongoQuery("db.users.find({ age: { $gt: 1e1, $lt: -.5 }, 'a.b': 1, }, /* fields */ { name: 1 }); // done");
+        expect(operation.args).toEqual([{ age: { $gt: 10, $lt: -0.5 }, 'a.b': 1 }, { name: 1 }]);
+    });
+
+    it('reads collection names that are not identifiers', () => {
+        expect(parseMongoQuery('db.getCollection("my coll").deleteOne({})').collection).toBe('my coll');
+        expect(parseMongoQuery('db["x-y"].drop()').collection).toBe('x-y');
+        expect(parseMongoQuery('db.system.profile.countDocuments()').collection).toBe('system.profile');
+    });
+
+    it('builds BSON values from shell constructors', () => {
+        const [filter] = parseMongoQuery(
+            `db.t.find({ _id: ObjectId("${OID}"), at: ISODate("2024-01-01"), p: NumberDecimal("1.10"), n: NumberLong('9007199254740993'), r: /a\\/b/i })`
+        ).args;
+
+        expect(filter._id).toBeInstanceOf(ObjectId);
+        expect(filter._id.toHexString()).toBe(OID);
+        expect(filter.at).toEqual(new Date('2024-01-01T00:00:00Z'));
+        expect(filter.p).toBeInstanceOf(Decimal128);
+        expect(filter.p.toString()).toBe('1.10');
+        expect(filter.n).toBeInstanceOf(Long);
+        expect(filter.n.toString()).toBe('9007199254740993');
+        expect(filter.r).toEqual(/a\/b/i);
+    });
+
+    it('accepts Extended JSON wrappers in shell arguments', () => {
+        const [[, second]] = parseMongoQuery(`db.users.insertMany([{ a: 1 }, { a: 2, ref: { "$oid": "${OID}" } }])`).args;
+        expect(second.ref).toBeInstanceOf(ObjectId);
+    });
+
+    it('maps the JSON command format onto the same operations', () => {
+        const find = parseMongoQuery(`{"find": "users", "filter": {"_id": {"$oid": "${OID}"}}, "sort": {"a": 1}, "limit": 5}`);
+        expect(find.method).toBe('find');
+        expect(find.args[0]._id).toBeInstanceOf(ObjectId);
+        expect(find.cursor).toEqual([{ method: 'sort', args: [{ a: 1 }] }, { method: 'limit', args: [5] }]);
+
+        expect(parseMongoQuery('{"update": "users", "updates": [{"q": {}, "u": {"$set": {"a": 1}}}]}')).toMatchObject({
+            collection: 'users',
+            method: 'command',
+        });
+        expect(parseMongoQuery('{"drop": "users"}')).toMatchObject({ collection: 'users', method: 'drop' });
+    });
+
+    it('reports syntax errors with their line and column', () => {
+        expect(() => parseMongoQuery('db.users.find({a: })')).toThrow('Expected a value at line 1, column 19');
+        expect(() => parseMongoQuery('db.users.find(\n  {a: "x}')).toThrow('Unterminated string at line 2, column 10');
+        expect(() => parseMongoQuery('db.users.find({}) foo')).toThrow('Unexpected text after the command');
+        expect(() => parseMongoQuery('SELECT * FROM users')).toThrow('Expected a shell command');
+    });
+
+    it('rejects unsupported methods and cursor chains', () => {
+        expect(() => parseMongoQuery('db.users.remove({})')).toThrow('Unsupported method remove()');
+        expect(() => parseMongoQuery('db.users.find({}).count()')).toThrow("count() can't be chained on find()");
+        expect(() => parseMongoQuery('db.users.find({ x: ObjectId("zz") })')).toThrow(/^ObjectId\(\): /);
+    });
+});
+
+describe('isReadOnlyMongoQuery', () => {
+    it.each([
+        'db.users.find({})',
+        'db.users.findOne({ a: 1 })',
+        'db.users.countDocuments()',
+        'db.users.distinct("city")',
+        'db.users.getIndexes()',
+        'db.users.aggregate([{ $match: {} }, { $group: { _id: "$city" } }])',
+        '{"find": "users"}',
+        '{"aggregate": "users", "pipeline": []}',
+    ])('allows %s', (query) => {
+        expect(isReadOnlyMongoQuery(query)).toBe(true);
+    });
+
+    it.each([
+        'db.users.insertOne({ a: 1 })',
+        'db.users.updateMany({}, { $set: { a: 1 } })',
+        'db.users.deleteMany({})',
+        'db.users.createIndex({ a: 1 })',
+        'db.users.drop()',
+        'db.users.aggregate([{ $match: {} }, { $out: "copy" }])',
+        'db.users.aggregate([{ $merge: { into: "copy" } }])',
+        '{"delete": "users", "deletes": [{"q": {}, "limit": 0}]}',
+        '{"drop": "users"}',
+        'not a query',
+    ])('refuses %s', (query) => {
+        expect(isReadOnlyMongoQuery(query)).toBe(false);
+    });
+});
+
+describe('Extended JSON', () => {
+    it('keeps plain numbers and dates relaxed and lossy values canonical', () => {
+        const doc = toExtendedJSON({
+            _id: new ObjectId(OID),
+            at: new Date(0),
+            old: new Date(-1e14),
+            big: 9007199254740993n,
+            small: 5n,
+            i: 3,
+            f: 1.5,
+            dec: Decimal128.fromString('1.10'),
+        });
+
+        expect(doc).toEqual({
+            _id: { $oid: OID },
+            at: { $date: '1970-01-01T00:00:00.000Z' },
+            old: { $date: { $numberLong: '-100000000000000' } },
+            big: { $numberLong: '9007199254740993' },
+            small: 5,
+            i: 3,
+            f: 1.5,
+            dec: { $numberDecimal: '1.10' },
+        });
+    });
+
+    it('round-trips through fromExtendedJSON', () => {
+        const value = fromExtendedJSON(JSON.parse(JSON.stringify(toExtendedJSON({ _id: new ObjectId(OID), big: 9007199254740993n }))));
+        expect(value._id).toBeInstanceOf(ObjectId);
+        expect(value.big).toBeInstanceOf(Long);
+        expect(value.big.toString()).toBe('9007199254740993');
+    });
+});
@@ -0,0 +1,488 @@
+import {
+    BSON,
+    Binary,
+    Decimal128,
+    Document,
+    Double,
+    Int32,
+    Long,
+    MaxKey,
+    MinKey,
+    ObjectId,
+    Timestamp,
+    UUID,
+} from 'mongodb';
+
+/**
+ * MongoDB Shell Syntax
+ * Parses what the query editor accepts for MongoDB into one operation for the adapter to run:
+ * mongosh-style commands, e.g. db.orders.find({ status: "x" }).sort({ ts: -1 }).limit(10), and
+ * the JSON command format, e.g. {"find": "orders", "filter": {...}}.
+ *
+ * Arguments are JavaScript literals: unquoted keys, single quotes, regexes, trailing commas and
+ * the shell's type constructors (ObjectId, ISODate, NumberDecimal, ...). Extended JSON wrappers
+ * such as {"$oid": "..."} are accepted anywhere and become the BSON value they describe, so the
+ * Extended JSON of a result can be pasted back into a query.
+ */
+
+export interface MongoOperation {
+    collection: string;
+    method: string;       // Collection method, e.g. find or updateMany; 'command' for a JSON write command
+    args: any[];
+    cursor: MongoCursorCall[];
+}
+
+// A method chained on the result of find() or aggregate(), e.g. .sort({ ts: -1 })
+export interface MongoCursorCall {
+    method: string;
+    args: any[];
+}
+
+// Methods that only read; everything else needs a writable connection
+const READ_METHODS = ['find', 'findOne', 'aggregate', 'countDocuments', 'estimatedDocumentCount', 'distinct', 'getIndexes'];
+
+const WRITE_METHODS = [
+    'insertOne', 'insertMany', 'updateOne', 'updateMany', 'replaceOne', 'deleteOne', 'deleteMany',
+    'createIndex', 'dropIndex', 'dropIndexes', 'drop',
+];
+
+// Chainable cursor methods; toArray() and pretty() change nothing here and are accepted for copied shell code
+const CURSOR_METHODS: Record<string, string[]> = {
+    find: ['sort', 'limit', 'skip', 'projection', 'hint', 'collation', 'maxTimeMS', 'batchSize', 'toArray', 'pretty'],
+    aggregate: ['toArray', 'pretty'],
+};
+
+// Extended JSON wrapper keys, as EJSON.serialize writes them
+const EJSON_KEYS = [
+    '$oid', '$date', '$numberDecimal', '$numberLong', '$numberInt', '$numberDouble', '$binary', '$uuid',
+    '$timestamp', '$regularExpression', '$minKey', '$maxKey', '$symbol', '$code', '$dbPointer',
+];
+
+/**
+ * Parse a shell command or JSON command. Throws an Error naming the line and column of a syntax error.
+ */
+export function parseMongoQuery(query: string): MongoOperation {
+    const reader = new LiteralReader(query);
+    reader.skipSpace();
+
+    const operation = reader.peek() === '{' ? fromJSONCommand(reader.value(), reader) : reader.shellCommand();
+
+    reader.skipSpace();
+    reader.eat(';');
+    reader.skipSpace();
+    if (!reader.done()) reader.fail('Unexpected text after the command');
+
+    return { ...operation, args: fromExtendedJSON(operation.args), cursor: fromExtendedJSON(operation.cursor) };
+}
+
+/**
+ * Whether a query only reads, for read-only connections and exports. Unparseable queries don't.
+ */
+export function isReadOnlyMongoQuery(query: string): boolean {
+    let operation: MongoOperation;
+    try {
+        operation = parseMongoQuery(query);
+    } catch {
+        return false;
+    }
+
+    if (!READ_METHODS.includes(operation.method)) return false;
+    // $out and $merge write the pipeline's output to a collection
+    if (operation.method === 'aggregate') {
+        const pipeline = operation.args[0] || [];
+        return Array.isArray(pipeline) && !pipeline.some((stage: Document) => '$out' in stage || '$merge' in stage);
+    }
+    return true;
+}
+
+/**
+ * Extended JSON of a document as results carry it: relaxed where that loses nothing (plain numbers,
+ * ISO dates), canonical otherwise, so int64 values beyond 2^53 and dates outside 1970-9999 keep their value.
+ */
+export function toExtendedJSON(doc: Document): Document {
+    return relax(BSON.EJSON.serialize(doc, { relaxed: false }));
+}
+
+/**
+ * Replace Extended JSON wrappers anywhere in a value with the BSON values they describe
+ */
+export function fromExtendedJSON(value: any): any {
+    if (Array.isArray(value)) return value.map(fromExtendedJSON);
+    if (!isPlainObject(value)) return value;
+
+    const keys = Object.keys(value);
+    if (keys.length > 0 && keys.every(key => EJSON_KEYS.includes(key))) {
+        // Explicit wrappers keep their declared type, e.g. {"$numberLong": "5"} stays an int64
+        return BSON.EJSON.deserialize(value, { relaxed: false });
+    }
+
+    const result: Document = {};
+    for (const key of keys) {
+        result[key] = fromExtendedJSON(value[key]);
+    }
+    return result;
+}
+
+// ============ JSON command format ============
+
+function fromJSONCommand(command: any, reader: LiteralReader): MongoOperation {
+    if (!isPlainObject(command)) reader.fail('Expected a JSON command object');
+
+    if (command.find) {
+        const cursor: MongoCursorCall[] = [];
+        for (const method of ['sort', 'skip', 'limit']) {
+            if (command[method] !== undefined) cursor.push({ method, args: [command[method]] });
+        }
+        return { collection: command.find, method: 'find', args: [command.filter || {}, command.projection], cursor };
+    }
+    if (command.aggregate) {
+        return { collection: command.aggregate, method: 'aggregate', args: [command.pipeline || []], cursor: [] };
+    }
+    if (command.insert || command.update || command.delete) {
+        // Write commands, e.g. {"update": "users", "updates": [{"q": {...}, "u": {...}}]}, run as they are
+        return { collection: command.insert || command.update || command.delete, method: 'command', args: [command], cursor: [] };
+    }
+    if (command.drop) {
+        return { collection: command.drop, method: 'drop', args: [], cursor: [] };
+    }
+
+    throw new Error('Invalid query format. Use shell syntax, e.g. db.users.find({ age: { $gt: 18 } }), or {"find": "collection", "filter": {...}}, {"aggregate": "collection", "pipeline": [...]}, {"insert" | "update" | "delete": "collection", ...}, or {"drop": "collection"}');
+}
+
+// ============ Literal reader ============
+
+type Constructor = (args: any[], reader: LiteralReader) => any;
+
+// The shell's type constructors; each may also be written with `new`
+const CONSTRUCTORS: Record<string, Constructor> = {
+    ObjectId: (args) => args[0] === undefined ? new ObjectId() : new ObjectId(String(args[0])),
+    ISODate: (args, reader) => toDate(args, reader),
+    Date: (args, reader) => toDate(args, reader),
+    NumberDecimal: (args) => Decimal128.fromString(String(args[0] ?? '0')),
+    NumberLong: (args) => typeof args[0] === 'number' ? Long.fromNumber(args[0]) : Long.fromString(String(args[0] ?? '0')),
+    NumberInt: (args) => new Int32(Number(args[0] ?? 0)),
+    Double: (args) => new Double(Number(args[0] ?? 0)),
+    Timestamp: (args) => isPlainObject(args[0])
+        ? new Timestamp({ t: Number(args[0].t), i: Number(args[0].i) })
+        : new Timestamp({ t: Number(args[0] ?? 0), i: Number(args[1] ?? 0) }),
+    BinData: (args) => new Binary(Buffer.from(String(args[1] ?? ''), 'base64'), Number(args[0] ?? 0)),
+    UUID: (args) => args[0] === undefined ? new UUID() : new UUID(String(args[0])),
+    MinKey: () => new MinKey(),
+    MaxKey: () => new MaxKey(),
+    RegExp: (args) => new RegExp(String(args[0] ?? ''), args[1] === undefined ? undefined : String(args[1])),
+};
+
+// Names the driver and older shells use for the same types
+const CONSTRUCTOR_ALIASES: Record<string, string> = {
+    ObjectID: 'ObjectId',
+    Decimal128: 'NumberDecimal',
+    Long: 'NumberLong',
+    Int32: 'NumberInt',
+};
+
+const KEYWORDS: Record<string, unknown> = {
+    true: true,
+    false: false,
+    null: null,
+    undefined: undefined,
+    NaN: NaN,
+    Infinity: Infinity,
+};
+
+/**
+ * Recursive-descent reader of the shell command and its JavaScript literal arguments
+ */
+class LiteralReader {
+    private pos = 0;
+
+    constructor(private text: string) { }
+
+    done(): boolean {
+        return this.pos >= this.text.length;
+    }
+
+    peek(): string {
+        return this.text[this.pos];
+    }
+
+    eat(char: string): boolean {
+        if (this.text[this.pos] !== char) return false;
+        this.pos++;
+        return true;
+    }
+
+    expect(char: string): void {
+        this.skipSpace();
+        if (!this.eat(char)) this.fail(`Expected "${char}"`);
+    }
+
+    fail(message: string): never {
+        const before = this.text.slice(0, this.pos).split('\n');
+        throw new Error(`${message} at line ${before.length}, column ${before[before.length - 1].length + 1}`);
+    }
+
+    skipSpace(): void {
+        while (this.pos < this.text.length) {
+            if (/\s/.test(this.text[this.pos])) {
+                this.pos++;
+            } else if (this.text.startsWith('//', this.pos)) {
+                const end = this.text.indexOf('\n', this.pos);
+                this.pos = end < 0 ? this.text.length : end + 1;
+            } else if (this.text.startsWith('/*', this.pos)) {
+                const end = this.text.indexOf('*/', this.pos + 2);
+                if (end < 0) this.fail('Unterminated comment');
+                this.pos = end + 2;
+            } else {
+                break;
+            }
+        }
+    }
+
+    identifier(): string {
+        this.skipSpace();
+        const match = /^[A-Za-z_$][\w$]*/.exec(this.text.slice(this.pos));
+        if (!match) this.fail('Expected a name');
+        this.pos += match[0].length;
+        return match[0];
+    }
+
+    /**
+     * db.<collection>.<method>(...) followed by chained cursor methods. The collection may also be
+     * written db.getCollection("name") or db["name"]; dotted names such as db.system.profile work too.
+     */
+    shellCommand(): MongoOperation {
+        if (this.identifier() !== 'db') {
+            this.pos = 0;
+            this.fail('Expected a shell command such as db.users.find({}) or a JSON command such as {"find": "users"}');
+        }
+
+        const names: string[] = [];
+        let method = '';
+        while (!method) {
+            this.skipSpace();
+            if (this.eat('[')) {
+                this.skipSpace();
+                names.push(this.stringArg());
+                this.expect(']');
+                continue;
+            }
+            this.expect('.');
+            const name = this.identifier();
+            this.skipSpace();
+            if (this.peek() !== '(') {
+                names.push(name);
+            } else if (name === 'getCollection' && names.length === 0) {
+                const [collection] = this.callArgs();
+                if (typeof collection !== 'string') this.fail('getCollection() takes the collection name');
+                names.push(collection);
+            } else {
+                method = name;
+            }
+        }
+
+        if (names.length === 0) this.fail('Expected a collection, e.g. db.users.find()');
+        if (!READ_METHODS.includes(method) && !WRITE_METHODS.includes(method)) {
+            this.fail(`Unsupported method ${method}(); use one of ${READ_METHODS.concat(WRITE_METHODS).join(', ')}`);
+        }
+
+        const args = this.callArgs();
+        const cursor: MongoCursorCall[] = [];
+        for (; ;) {
+            this.skipSpace();
+            if (this.peek() !== '.') break;
+            this.pos++;
+            const name = this.identifier();
+            if (!(CURSOR_METHODS[method] || []).includes(name)) {
+                this.fail(`${name}() can't be chained on ${method}()`);
+            }
+            cursor.push({ method: name, args: this.callArgs() });
+        }
+
+        return { collection: names.join('.'), method, args, cursor };
+    }
+
+    private callArgs(): any[] {
+        this.expect('(');
+        return this.list(')');
+    }
+
+    private stringArg(): string {
+        const quote = this.peek();
+        if (quote !== '"' && quote !== "'") this.fail('Expected a string');
+        return this.string();
+    }
+
+    // Comma-separated values up to the closing character; a trailing comma is allowed
+    private list(close: string): any[] {
+        const values: any[] = [];
+        for (; ;) {
+            this.skipSpace();
+            if (this.eat(close)) return values;
+            values.push(this.value());
+            this.skipSpace();
+            if (!this.eat(',')) {
+                this.expect(close);
+                return values;
+            }
+        }
+    }
+
+    value(): any {
+        this.skipSpace();
+        const char = this.peek();
+
+        if (char === undefined) this.fail('Unexpected end of query');
+        if (char === '{') return this.object();
+        if (char === '[') {
+            this.pos++;
+            return this.list(']');
+        }
+        if (char === '"' || char === "'") return this.string();
+        if (char === '/') return this.regex();
+        if (/[-+.\d]/.test(char)) return this.number();
+        if (!/[A-Za-z_$]/.test(char)) this.fail('Expected a value');
+
+        const word = this.identifier();
+        if (word in KEYWORDS) return KEYWORDS[word];
+
+        const name = word === 'new' ? this.identifier() : word;
+        const constructor = CONSTRUCTORS[CONSTRUCTOR_ALIASES[name] || name];
+        if (!constructor) this.fail(`Unknown value ${name}`);
+        this.skipSpace();
+        const args = this.peek() === '(' ? this.callArgs() : [];
+        try {
+            return constructor(args, this);
+        } catch (error: any) {
+            this.fail(`${name}(): ${error.message}`);
+        }
+    }
+
+    private object(): Document {
+        this.pos++;
+        const result: Document = {};
+        for (; ;) {
+            this.skipSpace();
+            if (this.eat('}')) return result;
+
+            const char = this.peek();
+            const key = char === '"' || char === "'" ? this.string()
+                : /\d/.test(char) ? String(this.number())
+                    : this.identifier();
+            this.expect(':');
+            result[key] = this.value();
+
+            this.skipSpace();
+            if (!this.eat(',')) {
+                this.expect('}');
+                return result;
+            }
+        }
+    }
+
+    private string(): string {
+        const quote = this.text[this.pos++];
+        let result = '';
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos++];
+            if (char === quote) return result;
+            if (char === '\n') break;
+            if (char !== '\\') {
+                result += char;
+                continue;
+            }
+
+            const escaped = this.text[this.pos++];
+            const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0', '\n': '' };
+            if (escaped in simple) {
+                result += simple[escaped];
+            } else if (escaped === 'u' || escaped === 'x') {
+                const length = escaped === 'u' ? 4 : 2;
+                const hex = this.text.slice(this.pos, this.pos + length);
+                if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) this.fail('Invalid escape sequence');
+                result += String.fromCharCode(parseInt(hex, 16));
+                this.pos += length;
+            } else {
+                result += escaped;
+            }
+        }
+        this.fail('Unterminated string');
+    }
+
+    private number(): number {
+        const match = /^[-+]?(Infinity|0[xX][0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?)/.exec(this.text.slice(this.pos));
+        if (!match) this.fail('Invalid number');
+        this.pos += match[0].length;
+        return Number(match[0]);
+    }
+
+    // /pattern/flags; a slash inside [...] or after a backslash doesn't end the pattern
+    private regex(): RegExp {
+        const start = ++this.pos;
+        let inClass = false;
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (char === '\n') break;
+            if (char === '\\') {
+                this.pos += 2;
+                continue;
+            }
+            if (char === '[') inClass = true;
+            else if (char === ']') inClass = false;
+            else if (char === '/' && !inClass) break;
+            this.pos++;
+        }
+        if (this.text[this.pos] !== '/') this.fail('Unterminated regular expression');
+
+        const pattern = this.text.slice(start, this.pos++);
+        const flags = /^[a-z]*/.exec(this.text.slice(this.pos))![0];
+        this.pos += flags.length;
+        try {
+            return new RegExp(pattern, flags);
+        } catch (error: any) {
+            this.fail(error.message);
+        }
+    }
+}
+
+// ============ Helpers ============
+
+function toDate(args: any[], reader: LiteralReader): Date {
+    const date = args.length === 0 ? new Date() : args.length === 1 ? new Date(args[0]) : new Date(Date.UTC(args[0], args[1], args[2] ?? 1, args[3] ?? 0, args[4] ?? 0, args[5] ?? 0, args[6] ?? 0));
+    if (isNaN(date.getTime())) reader.fail(`Invalid date ${JSON.stringify(args[0])}`);
+    return date;
+}
+
+function isPlainObject(value: any): value is Document {
+    return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Canonical Extended JSON back to plain numbers and ISO dates wherever no precision is lost
+function relax(value: any): any {
+    if (Array.isArray(value)) return value.map(relax);
+    if (!isPlainObject(value)) return value;
+
+    const keys = Object.keys(value);
+    if (keys.length === 1) {
+        const wrapped = value[keys[0]];
+        switch (keys[0]) {
+            case '$numberInt':
+                return Number(wrapped);
+            case '$numberDouble': {
+                const number = Number(wrapped);
+                return isFinite(number) && !Object.is(number, -0) ? number : value;
+            }
+            case '$numberLong':
+                return Number.isSafeInteger(Number(wrapped)) ? Number(wrapped) : value;
+            case '$date': {
+                const time = Number(wrapped.$numberLong);
+                return time >= 0 && time <= 253402300799999 ? { $date: new Date(time).toISOString() } : value;
+            }
+        }
+    }
+
+    const result: Document = {};
+    for (const key of keys) {
+        result[key] = relax(value[key]);
+    }
+    return result;
+}
@@ -1,11 +1,14 @@
 import mysql from 'mysql2/promise';
-import { BaseDBAdapter } from '../../interfaces/IDBAdapter';
+import type { Connection as CallbackConnection } from 'mysql2';
+import { Readable } from 'stream';
+import { BaseDBAdapter, CursorSource, TransactionSession } from '../../interfaces/IDBAdapter';
 import type {
     ConnectionConfig,
     ConnectionResult,
     TestResult,
     QueryRequest,
     QueryResult,
+    BulkInsertRequest,
     Schema,
     Table,
     TableMetadata,
@@ -15,6 +18,7 @@ import type {
     DatabaseInfo,
     ExplainResult,
 } from '@bosdb/core';
+import { BosDBError, bindParameters } from '@bosdb/core';
 import { Logger } from '@bosdb/utils';
 
 const logger = new Logger('MySQLAdapter');
@@ -72,6 +76,7 @@ export class MySQLAdapter extends BaseDBAdapter {
     async disconnect(connectionId: string): Promise<void> {
         const pool = this.pools.get(connectionId);
         if (pool) {
+            await this.releaseSessions(connectionId);
             await pool.end();
             this.pools.delete(connectionId);
             logger.info(`Disconnected from MySQL: ${connectionId}`);
@@ -197,7 +202,12 @@ export class MySQLAdapter extends BaseDBAdapter {
                     CHARACTER_MAXIMUM_LENGTH as max_length,
                     NUMERIC_PRECISION as precision,
                     NUMERIC_SCALE as scale,
-                    COLUMN_KEY as column_key
+                    COLUMN_KEY as column_key,
+                    COLUMN_TYPE as column_type,
+                    EXTRA as extra,
+                    COLUMN_COMMENT as comment,
+                    CHARACTER_SET_NAME as character_set,
+                    COLLATION_NAME as collation
                 FROM information_schema.COLUMNS
                 WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
                 ORDER BY ORDINAL_POSITION
@@ -215,6 +225,11 @@ export class MySQLAdapter extends BaseDBAdapter {
                 defaultValue: row.default_value,
                 isPrimaryKey: row.column_key === 'PRI',
                 isForeignKey: row.column_key === 'MUL',
+                comment: row.comment || undefined,
+                nativeType: row.column_type,
+                extra: row.extra || undefined,
+                characterSet: row.character_set || undefined,
+                collation: row.collation || undefined,
             }));
 
             // Get primary keys
@@ -322,15 +337,126 @@ export class MySQLAdapter extends BaseDBAdapter {
     }
 
     async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
+        const pool = this.pools.get(request.connectionId);
+        if (!pool) {
+            throw new Error(`Connection ${request.connectionId} not found`);
+        }
+
+        if (request.streamResults && /^\s*(SELECT|WITH|VALUES|TABLE)\b/i.test(request.query)) {
+            return this.openQueryStream(pool, request);
+        }
+
+        // A dedicated connection gives the statement a thread ID that KILL QUERY can target
+        const conn = await pool.getConnection();
+
+        try {
+            return await this.runOnConnection(pool, conn, request);
+        } finally {
+            conn.release();
+        }
+    }
+
+    /**
+     * Pin a pooled connection and start a transaction on it; the connection is released after COMMIT or ROLLBACK
+     */
+    protected async openTransaction(connectionId: string): Promise<TransactionSession> {
+        const pool = this.pools.get(connectionId);
+        if (!pool) {
+            throw new Error(`Connection ${connectionId} not found`);
+        }
+
+        const conn = await pool.getConnection();
+        try {
+            await conn.beginTransaction();
+        } catch (error) {
+            conn.release();
+            throw error;
+        }
+
+        const finish = async (end: () => Promise<void>) => {
+            try {
+                await end();
+            } finally {
+                conn.release();
+            }
+        };
+
+        return {
+            execute: (request) => this.runOnConnection(pool, conn, request),
+            bulkInsert: (request) => this.loadRows(conn, request),
+            commit: () => finish(() => conn.commit()),
+            rollback: () => finish(() => conn.rollback()),
+        };
+    }
+
+    protected async insertRows(request: BulkInsertRequest): Promise<number> {
         const pool = this.pools.get(request.connectionId);
         if (!pool) {
             throw new Error(`Connection ${request.connectionId} not found`);
         }
 
+        const conn = await pool.getConnection();
+        try {
+            return await this.loadRows(conn, request);
+        } finally {
+            conn.release();
+        }
+    }
+
+    /**
+     * LOAD DATA LOCAL INFILE from an in-memory stream, in the default tab-separated format.
+     * With LOCAL the server turns rejected rows into warnings, so any warning fails the batch.
+     * Binary columns are sent as hex and decoded with UNHEX().
+     */
+    private async loadRows(conn: mysql.PoolConnection, request: BulkInsertRequest): Promise<number> {
+        const quote = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+        const table = request.schema ? `${quote(request.schema)}.${quote(request.table)}` : quote(request.table);
+        const binary = request.columns.map(col => /binary|blob/i.test(col.dataType));
+        const targets = request.columns.map((col, i) => binary[i] ? `@c${i}` : quote(col.name));
+        const assignments = request.columns.flatMap((col, i) => binary[i] ? [`${quote(col.name)} = UNHEX(@c${i})`] : []);
+
+        const sql = `LOAD DATA LOCAL INFILE 'bosdb-import' INTO TABLE ${table} CHARACTER SET utf8mb4 (${targets.join(', ')})` +
+            (assignments.length > 0 ? ` SET ${assignments.join(', ')}` : '');
+        const lines = (function* () {
+            for (const row of request.rows) {
+                yield row.map(toLoadDataField).join('\t') + '\n';
+            }
+        })();
+
+        try {
+            const [result] = await conn.query<mysql.ResultSetHeader>({
+                sql,
+                infileStreamFactory: () => Readable.from(lines),
+            });
+            if (result.warningStatus > 0) {
+                const [warnings] = await conn.query<mysql.RowDataPacket[]>('SHOW WARNINGS LIMIT 1');
+                throw new Error(warnings[0]?.Message || `${result.warningStatus} rows were rejected`);
+            }
+            return result.affectedRows;
+        } catch (error: any) {
+            // local_infile is off by default since MySQL 8.0
+            if (error.errno === 3948 || error.errno === 1148) {
+                throw new BosDBError('LOAD DATA LOCAL is disabled on this server', 'BULK_INSERT_UNSUPPORTED');
+            }
+            throw new Error(`Bulk insert failed: ${error.message}`);
+        }
+    }
+
+    private async runOnConnection(pool: mysql.Pool, conn: mysql.PoolConnection, request: QueryRequest): Promise<QueryResult> {
         const startTime = Date.now();
 
         try {
-            const [rows, fields] = await pool.query(request.query);
+            const bound = request.params ? bindParameters(request.query, request.params, 'question') : null;
+            const [rows, fields] = await this.trackQuery(request, this.threadKiller(pool, conn.threadId), () => bound
+                ? conn.query(bound.query, bound.values)
+                : conn.query(request.query));
 
             const queryFields = Array.isArray(fields)
                 ? fields.map((field: any) => ({
@@ -345,7 +471,8 @@ export class MySQLAdapter extends BaseDBAdapter {
             return {
                 rows: resultRows.slice(0, request.maxRows || 1000),
                 fields: queryFields,
-                rowCount: resultRows.length,
+                // Writes return a result header instead of rows
+                rowCount: Array.isArray(rows) ? resultRows.length : (rows as mysql.ResultSetHeader).affectedRows,
                 executionTime,
                 hasMore: resultRows.length > (request.maxRows || 1000),
             };
@@ -355,6 +482,70 @@ export class MySQLAdapter extends BaseDBAdapter {
         }
     }
 
+    private threadKiller(pool: mysql.Pool, threadId: number): () => Promise<void> {
+        return async () => {
+            await pool.query('KILL QUERY ?', [threadId]);
+        };
+    }
+
+    /**
+     * Stream a SELECT row by row on a dedicated connection; the stream's backpressure
+     * pauses the socket between pages so unread rows stay on the server.
+     */
+    private async openQueryStream(pool: mysql.Pool, request: QueryRequest): Promise<QueryResult> {
+        const startTime = Date.now();
+        const conn = await pool.getConnection();
+        const bound = request.params
+            ? bindParameters(request.query, request.params, 'question')
+            : { query: request.query, values: [] };
+
+        // Streaming is only exposed on the underlying callback connection
+        const core = conn.connection as unknown as CallbackConnection;
+        const stream = core.query(bound.query, bound.values).stream({ highWaterMark: 100 });
+        const rows = stream[Symbol.asyncIterator]();
+        let finished = false;
+
+        const source: CursorSource = {
+            fields: [],
+            read: async (count) => {
+                const batch: any[] = [];
+                while (batch.length < count) {
+                    const next = await rows.next();
+                    if (next.done) {
+                        finished = true;
+                        break;
+                    }
+                    batch.push(next.value);
+                }
+                return batch;
+            },
+            close: async () => {
+                if (finished) {
+                    conn.release();
+                } else {
+                    // A half-read result set can't be discarded cheaply; drop the connection instead
+                    stream.destroy();
+                    conn.destroy();
+                }
+            },
+        };
+
+        stream.on('fields', (fields: any[]) => {
+            source.fields = fields.map((field: any) => ({
+                name: field.name,
+                dataType: this.mapMySQLType(field.type),
+            }));
+        });
+
+        try {
+            return await this.trackQuery(request, this.threadKiller(pool, conn.threadId), () =>
+                this.openCursor(request.connectionId, source, request, startTime));
+        } catch (error: any) {
+            logger.error(`MySQL query execution failed: ${error.message}`, error);
+            throw new Error(`Query execution failed: ${error.message}`);
+        }
+    }
+
     async explainQuery(connectionId: string, query: string): Promise<ExplainResult> {
         const pool = this.pools.get(connectionId);
         if (!pool) {
@@ -446,3 +637,25 @@ export class MySQLAdapter extends BaseDBAdapter {
         return types[type] || 'UNKNOWN';
     }
 }
+
+const ESCAPES: Record<string, string> = { '\\': '\\\\', '\t': '\\t', '\n': '\\n', '\r': '\\r', '\0': '\\0' };
+
+function toLoadDataField(value: unknown): string {
+    if (value === null || value === undefined) return '\\N';
+    if (Buffer.isBuffer(value)) return value.toString('hex');
+
+    let text: string;
+    if (value instanceof Date) text = formatDateTime(value);
+    else if (typeof value === 'boolean') text = value ? '1' : '0';
+    else if (typeof value === 'object') text = JSON.stringify(value);
+    else text = String(value);
+
+    return text.replace(/[\\\t\n\r\0]/g, char => ESCAPES[char]);
+}
+
+// Local time, as mysql2 sends Date parameters with the default timezone setting
+function formatDateTime(date: Date): string {
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+        `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
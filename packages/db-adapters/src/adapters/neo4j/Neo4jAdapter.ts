@@ -168,7 +168,11 @@ export class Neo4jAdapter extends BaseDBAdapter {
         const start = Date.now();
 
         try {
-            const result = await session.run(request.query);
+            // Cypher binds $name natively; positional arrays map to $1, $2, ...
+            const params = Array.isArray(request.params)
+                ? Object.fromEntries(request.params.map((value, i) => [String(i + 1), value]))
+                : request.params;
+            const result = await session.run(request.query, params);
 
             // Convert Neo4j records to plain objects
             const rows = result.records.map((record: any) => {
@@ -9,14 +9,17 @@ import {
     Table,
     TableMetadata,
     Index,
-    DatabaseInfo
+    DatabaseInfo,
+    bindParameters
 } from '@bosdb/core';
-import { BaseDBAdapter } from '../../interfaces/IDBAdapter';
+import { BaseDBAdapter, CursorSource, TransactionSession } from '../../interfaces/IDBAdapter';
 
 /**
  * Oracle Database Adapter
  */
 export class OracleAdapter extends BaseDBAdapter {
+    // Credentials per connection, for the extra sessions that transactions run on
+    private connectOptions: Map<string, Record<string, string>> = new Map();
 
     async connect(config: ConnectionConfig): Promise<ConnectionResult> {
         const connectionId = this.generateConnectionId('oracle');
@@ -26,13 +29,15 @@ export class OracleAdapter extends BaseDBAdapter {
             // @ts-ignore
             const oracledb = await import('oracledb');
 
-            const connection = await oracledb.default.getConnection({
+            const options = {
                 user: config.username,
                 password: config.password,
                 connectString: `${config.host}:${config.port}/${config.database}`,
-            });
+            };
+            const connection = await oracledb.default.getConnection(options);
 
             this.connectionMap.set(connectionId, connection);
+            this.connectOptions.set(connectionId, options);
 
             const result = await connection.execute('SELECT * FROM V$VERSION WHERE BANNER LIKE \'Oracle%\'');
             const version = (result.rows as any[])?.[0]?.[0] || 'Oracle Database';
@@ -46,8 +51,10 @@ export class OracleAdapter extends BaseDBAdapter {
 
     async disconnect(connectionId: string): Promise<void> {
         const connection = this.getConnection<any>(connectionId);
+        await this.releaseSessions(connectionId);
         await connection.close();
         this.connectionMap.delete(connectionId);
+        this.connectOptions.delete(connectionId);
     }
 
     async testConnection(config: ConnectionConfig): Promise<TestResult> {
@@ -167,10 +174,78 @@ export class OracleAdapter extends BaseDBAdapter {
     }
 
     async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
         const connection = this.getConnection<any>(request.connectionId);
         const start = Date.now();
 
-        const result = await connection.execute(request.query, [], { outFormat: 2 }); // OUT_FORMAT_OBJECT
+        const bound = request.params
+            ? bindParameters(request.query, request.params, 'colon')
+            : { query: request.query, values: [] };
+
+        // break() interrupts the connection's current call
+        const cancel = () => connection.break();
+
+        if (request.streamResults && /^\s*(SELECT|WITH)\b/i.test(request.query)) {
+            const result = await this.trackQuery<any>(request, cancel, () =>
+                connection.execute(bound.query, bound.values, { outFormat: 2, resultSet: true }));
+            const source: CursorSource = {
+                fields: result.metaData?.map((meta: any) => ({
+                    name: meta.name,
+                    dataType: meta.dbTypeName || 'unknown'
+                })) || [],
+                read: (count) => result.resultSet.getRows(count),
+                close: () => result.resultSet.close(),
+            };
+            return this.trackQuery(request, cancel, () => this.openCursor(request.connectionId, source, request, start));
+        }
+
+        // Outside a transaction every statement commits on its own
+        return this.runOnConnection(connection, request, true);
+    }
+
+    /**
+     * Transactions run on their own session so that statements on the shared
+     * connection keep auto-committing
+     */
+    protected async openTransaction(connectionId: string): Promise<TransactionSession> {
+        const options = this.connectOptions.get(connectionId);
+        if (!options) {
+            throw new Error(`Connection not found: ${connectionId}`);
+        }
+
+        // @ts-ignore
+        const oracledb = await import('oracledb');
+        const connection = await oracledb.default.getConnection(options);
+
+        const finish = async (end: () => Promise<void>) => {
+            try {
+                await end();
+            } finally {
+                await connection.close();
+            }
+        };
+
+        return {
+            execute: (request) => this.runOnConnection(connection, request, false),
+            commit: () => finish(() => connection.commit()),
+            rollback: () => finish(() => connection.rollback()),
+        };
+    }
+
+    private async runOnConnection(connection: any, request: QueryRequest, autoCommit: boolean): Promise<QueryResult> {
+        const start = Date.now();
+        const bound = request.params
+            ? bindParameters(request.query, request.params, 'colon')
+            : { query: request.query, values: [] };
+
+        const result = await this.trackQuery<any>(request, () => connection.break(), () =>
+            connection.execute(bound.query, bound.values, { outFormat: 2, autoCommit })); // OUT_FORMAT_OBJECT
 
         return {
             rows: result.rows || [],
@@ -178,7 +253,7 @@ export class OracleAdapter extends BaseDBAdapter {
                 name: meta.name,
                 dataType: meta.dbTypeName || 'unknown'
             })) || [],
-            rowCount: (result.rows as any[])?.length || 0,
+            rowCount: (result.rows as any[])?.length || result.rowsAffected || 0,
             executionTime: Date.now() - start,
         };
     }
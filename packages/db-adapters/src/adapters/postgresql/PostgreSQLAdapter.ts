@@ -1,4 +1,7 @@
-import { Pool, PoolClient, PoolConfig } from 'pg';
+import { Pool, PoolClient, PoolConfig, escapeIdentifier } from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import type {
     ConnectionConfig,
     ConnectionResult,
@@ -6,6 +9,7 @@ import type {
     QueryRequest,
     QueryResult,
     QueryField,
+    BulkInsertRequest,
     ExplainResult,
     Schema,
     Table,
@@ -17,8 +21,8 @@ import type {
     ConnectionError,
     QueryExecutionError,
 } from '@bosdb/core';
-import { BaseDBAdapter } from '../../interfaces/IDBAdapter';
-import { DEFAULT_QUERY_TIMEOUT, DEFAULT_MAX_ROWS } from '@bosdb/core';
+import { BaseDBAdapter, CursorSource, TransactionSession } from '../../interfaces/IDBAdapter';
+import { DEFAULT_QUERY_TIMEOUT, DEFAULT_MAX_ROWS, bindParameters } from '@bosdb/core';
 
 interface ConnectionPoolInfo {
     pool: Pool;
@@ -95,6 +99,7 @@ export class PostgreSQLAdapter extends BaseDBAdapter {
             throw new Error(`Connection not found: ${connectionId}`);
         }
 
+        await this.releaseSessions(connectionId);
         await poolInfo.pool.end();
         this.pools.delete(connectionId);
     }
@@ -136,24 +141,121 @@ export class PostgreSQLAdapter extends BaseDBAdapter {
     }
 
     async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
         const poolInfo = this.pools.get(request.connectionId);
         if (!poolInfo) {
             throw new Error(`Connection not found: ${request.connectionId}`);
         }
 
         poolInfo.lastUsed = new Date();
-        const startTime = Date.now();
-        let client: PoolClient | null = null;
+
+        if (request.streamResults && /^\s*(SELECT|WITH|VALUES|TABLE)\b/i.test(request.query)) {
+            return this.openQueryCursor(poolInfo.pool, request);
+        }
+
+        const client = await poolInfo.pool.connect();
+        try {
+            return await this.runOnClient(poolInfo.pool, client, request);
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Pin a pooled client and BEGIN on it; the client goes back to the pool after COMMIT or ROLLBACK
+     */
+    protected async openTransaction(connectionId: string): Promise<TransactionSession> {
+        const poolInfo = this.pools.get(connectionId);
+        if (!poolInfo) {
+            throw new Error(`Connection not found: ${connectionId}`);
+        }
+
+        const client = await poolInfo.pool.connect();
+        try {
+            await client.query('BEGIN');
+        } catch (error) {
+            client.release();
+            throw error;
+        }
+
+        const finish = async (statement: string) => {
+            try {
+                await client.query(statement);
+            } finally {
+                client.release();
+            }
+        };
+
+        return {
+            execute: (request) => {
+                poolInfo.lastUsed = new Date();
+                return this.runOnClient(poolInfo.pool, client, request);
+            },
+            bulkInsert: (request) => this.copyRows(client, request),
+            commit: () => finish('COMMIT'),
+            rollback: () => finish('ROLLBACK'),
+        };
+    }
+
+    protected async insertRows(request: BulkInsertRequest): Promise<number> {
+        const poolInfo = this.pools.get(request.connectionId);
+        if (!poolInfo) {
+            throw new Error(`Connection not found: ${request.connectionId}`);
+        }
+
+        poolInfo.lastUsed = new Date();
+        const client = await poolInfo.pool.connect();
+        try {
+            return await this.copyRows(client, request);
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * COPY ... FROM STDIN in CSV format. Strings are always quoted, so an empty string stays
+     * distinct from NULL (an unquoted empty field).
+     */
+    private async copyRows(client: PoolClient, request: BulkInsertRequest): Promise<number> {
+        const table = request.schema
+            ? `${escapeIdentifier(request.schema)}.${escapeIdentifier(request.table)}`
+            : escapeIdentifier(request.table);
+        const columns = request.columns.map(col => escapeIdentifier(col.name)).join(', ');
+
+        const stream = client.query(copyFrom(`COPY ${table} (${columns}) FROM STDIN WITH (FORMAT csv)`));
+        const lines = (function* () {
+            for (const row of request.rows) {
+                yield row.map(toCopyField).join(',') + '\n';
+            }
+        })();
 
         try {
-            client = await poolInfo.pool.connect();
+            await pipeline(Readable.from(lines), stream);
+        } catch (error: any) {
+            throw new Error(`Bulk insert failed: ${error.message}`) as QueryExecutionError;
+        }
+        return stream.rowCount;
+    }
 
+    private async runOnClient(pool: Pool, client: PoolClient, request: QueryRequest): Promise<QueryResult> {
+        const startTime = Date.now();
+
+        try {
             // Set query timeout
             const timeout = request.timeout || DEFAULT_QUERY_TIMEOUT;
             await client.query(`SET statement_timeout = ${timeout}`);
 
-            // Execute query
-            const result = await client.query(request.query);
+            // Execute query (bound parameters use the extended protocol, which allows a single statement)
+            const bound = request.params ? bindParameters(request.query, request.params, 'dollar') : null;
+            const result = await this.trackQuery(request, this.backendCanceller(pool, client), () => bound
+                ? client.query(bound.query, bound.values)
+                : client.query(request.query));
             const executionTime = Date.now() - startTime;
 
             // Apply row limit (handle queries that don't return rows)
@@ -178,11 +280,71 @@ export class PostgreSQLAdapter extends BaseDBAdapter {
             };
         } catch (error: any) {
             throw new Error(`Query execution failed: ${error.message}`) as QueryExecutionError;
-        } finally {
-            if (client) {
-                client.release();
+        }
+    }
+
+    /**
+     * Stream a SELECT through DECLARE ... CURSOR. The cursor's transaction holds a pooled
+     * client until the last page is read or the cursor is closed.
+     */
+    private async openQueryCursor(pool: Pool, request: QueryRequest): Promise<QueryResult> {
+        const startTime = Date.now();
+        const client = await pool.connect();
+        const query = request.query.trim().replace(/;+$/, '');
+
+        const source: CursorSource = {
+            fields: [],
+            read: async (count) => {
+                const result = await client.query(`FETCH ${count} FROM bosdb_cursor`);
+                source.fields = result.fields.map((field) => ({
+                    name: field.name,
+                    dataType: this.mapDataType(field.dataTypeID),
+                    tableID: field.tableID,
+                    columnID: field.columnID,
+                }));
+                return result.rows;
+            },
+            close: async () => {
+                try {
+                    await client.query('COMMIT');
+                } finally {
+                    client.release();
+                }
+            },
+        };
+
+        try {
+            await client.query('BEGIN');
+            await client.query(`SET LOCAL statement_timeout = ${request.timeout || DEFAULT_QUERY_TIMEOUT}`);
+
+            const bound = request.params ? bindParameters(query, request.params, 'dollar') : null;
+            if (bound) {
+                await client.query(`DECLARE bosdb_cursor NO SCROLL CURSOR FOR ${bound.query}`, bound.values);
+            } else {
+                await client.query(`DECLARE bosdb_cursor NO SCROLL CURSOR FOR ${query}`);
             }
+        } catch (error: any) {
+            await client.query('ROLLBACK').catch(() => undefined);
+            client.release();
+            throw new Error(`Query execution failed: ${error.message}`) as QueryExecutionError;
         }
+
+        try {
+            return await this.trackQuery(request, this.backendCanceller(pool, client), () =>
+                this.openCursor(request.connectionId, source, request, startTime));
+        } catch (error: any) {
+            throw new Error(`Query execution failed: ${error.message}`) as QueryExecutionError;
+        }
+    }
+
+    /**
+     * Cancel whatever the client's backend is running, from another pooled connection
+     */
+    private backendCanceller(pool: Pool, client: PoolClient): () => Promise<void> {
+        const pid = (client as any).processID;
+        return async () => {
+            await pool.query('SELECT pg_cancel_backend($1)', [pid]);
+        };
     }
 
     async listSchemas(connectionId: string): Promise<Schema[]> {
@@ -526,3 +688,16 @@ export class PostgreSQLAdapter extends BaseDBAdapter {
         return typeMap[oid] || 'unknown';
     }
 }
+
+function toCopyField(value: unknown): string {
+    if (value === null || value === undefined) return '';
+
+    let text: string;
+    if (value instanceof Date) text = value.toISOString();
+    else if (Buffer.isBuffer(value)) text = `\\x${value.toString('hex')}`;
+    else if (typeof value === 'boolean') text = value ? 't' : 'f';
+    else if (typeof value === 'object') text = JSON.stringify(value);
+    else text = String(value);
+
+    return `"${text.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PrometheusAdapter } from './PrometheusAdapter';
+
+// Data the fake server answers each API path with
+let answers: Record<string, unknown> = {};
+const fetchMock = jest.fn(async (url: string | URL | Request, _init?: RequestInit) => {
+    const path = new URL(String(url)).pathname;
+    return new Response(JSON.stringify(path in answers
+        ? { status: 'success', data: answers[path] }
+        : { status: 'error', error: `unknown path ${path}` }));
+});
+const realFetch = global.fetch;
+
+// Form parameters of the last request to a path
+function sentParams(path: string): Record<string, string> {
+    const call = fetchMock.mock.calls.filter(([url]) => String(url).endsWith(path)).pop()!;
+    return Object.fromEntries(new URLSearchParams(String(call[1]!.body)));
+}
+
+let adapter: PrometheusAdapter;
+let connectionId: string;
+
+beforeEach(async () => {
+    answers = { '/api/v1/status/buildinfo': { version: '2.51.0' } };
+    fetchMock.mockClear();
+    global.fetch = fetchMock as typeof fetch;
+
+    adapter = new PrometheusAdapter();
+    const result = await adapter.connect({ name: 'prom', type: 'prometheus', host: 'localhost', port: 9090, database: '', username: '', password: 'token' } as any);
+    expect(result).toMatchObject({ success: true, version: '2.51.0' });
+    connectionId = result.connectionId;
+});
+
+afterEach(() => {
+    global.fetch = realFetch;
+});
+
+describe('PrometheusAdapter', () => {
+    it('runs PromQL as a range query and returns one row per sample', async () => {
+        answers['/api/v1/query_range'] = {
+            resultType: 'matrix',
+            result: [
+                { metric: { __name__: 'up', job: 'api' }, values: [[1709294400, '1'], [1709294460, '0']] },
+                { metric: { __name__: 'up', instance: 'db:9100' }, values: [[1709294400, '1']] },
+            ],
+        };
+
+        const result = await adapter.executeQuery({
+            connectionId,
+            query: 'up',
+            timeRange: { start: '2024-03-01T11:00:00Z', stop: '2024-03-01T12:00:00Z' },
+        });
+
+        expect(result.fields!.map((f) => f.name)).toEqual(['timestamp', '__name__', 'job', 'instance', 'value']);
+        expect(result.rows).toEqual([
+            { timestamp: '2024-03-01T12:00:00.000Z', __name__: 'up', job: 'api', instance: null, value: 1 },
+            { timestamp: '2024-03-01T12:01:00.000Z', __name__: 'up', job: 'api', instance: null, value: 0 },
+            { timestamp: '2024-03-01T12:00:00.000Z', __name__: 'up', job: null, instance: 'db:9100', value: 1 },
+        ]);
+
+        // An hour at about 300 points per series, sent as a form with the connection's token
+        expect(sentParams('/api/v1/query_range')).toEqual({
+            query: 'up',
+            start: '2024-03-01T11:00:00.000Z',
+            end: '2024-03-01T12:00:00.000Z',
+            step: '12',
+            timeout: '30s',
+        });
+        expect(fetchMock.mock.calls[0][1]!.headers).toEqual({ Authorization: 'Bearer token' });
+    });
+
+    it('keeps an explicit step', async () => {
+        answers['/api/v1/query_range'] = { resultType: 'matrix', result: [] };
+
+        await adapter.executeQuery({
+            connectionId,
+            query: 'rate(http_requests_total[5m])',
+            timeRange: { start: '2024-03-01T11:00:00Z', stop: '2024-03-01T12:00:00Z', step: 60 },
+        });
+
+        expect(sentParams('/api/v1/query_range').step).toBe('60');
+    });
+
+    it.each([
+        [{ start: 'yesterday', stop: '2024-03-01T12:00:00Z' }, 'Time range start and stop must be ISO 8601 timestamps'],
+        [{ start: '2024-03-01T12:00:00Z', stop: '2024-03-01T11:00:00Z' }, 'Time range start must be before its stop'],
+        [{ start: '2024-03-01T11:00:00Z', stop: '2024-03-01T12:00:00Z', step: 0 }, 'Time range step must be a positive number of seconds'],
+    ])('refuses the time range %p', async (timeRange, message) => {
+        await expect(adapter.executeQuery({ connectionId, query: 'up', timeRange })).rejects.toThrow(message);
+        expect(fetchMock.mock.calls.some(([url]) => String(url).endsWith('/api/v1/query_range'))).toBe(false);
+    });
+
+    it('surfaces the server\'s error message', async () => {
+        await expect(adapter.executeQuery({ connectionId, query: 'up' })).rejects.toThrow('Query execution failed: unknown path /api/v1/query_range');
+    });
+
+    it('describes a metric as its timestamp, labels and value', async () => {
+        answers['/api/v1/labels'] = ['__name__', 'instance', 'job'];
+
+        const table = await adapter.describeTable(connectionId, 'metrics', 'up');
+
+        expect(table.columns.map((c) => [c.name, c.dataType])).toEqual([
+            ['timestamp', 'dateTime'],
+            ['instance', 'string'],
+            ['job', 'string'],
+            ['value', 'double'],
+        ]);
+        expect(sentParams('/api/v1/labels')['match[]']).toBe('up');
+    });
+});
@@ -0,0 +1,378 @@
+import { BaseDBAdapter, CursorSource } from '../../interfaces/IDBAdapter';
+import type {
+    ConnectionConfig,
+    ConnectionResult,
+    TestResult,
+    QueryRequest,
+    QueryResult,
+    QueryField,
+    Schema,
+    Table,
+    TableMetadata,
+    Column,
+    Index,
+    DatabaseInfo,
+    ExplainResult,
+    TimeRange,
+} from '@bosdb/core';
+import { DEFAULT_TIME_RANGE, ValidationError } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+
+const logger = new Logger('PrometheusAdapter');
+
+// Prometheus has no namespaces, so every metric is listed under this one schema
+const METRICS_SCHEMA = 'metrics';
+
+// Range queries without an explicit step get about this many points per series
+const TARGET_POINTS = 300;
+
+interface PrometheusConnection {
+    url: string;
+    headers: Record<string, string>;
+    timeout: number;
+}
+
+/**
+ * Prometheus Adapter
+ * Implements IDBAdapter over the Prometheus HTTP API. Metrics are listed as tables of a single
+ * "metrics" schema with their labels as columns. PromQL runs as a range query over the request's
+ * time range and each sample becomes a row of timestamp, labels and value.
+ */
+export class PrometheusAdapter extends BaseDBAdapter {
+    private connections: Map<string, PrometheusConnection> = new Map();
+
+    async connect(config: ConnectionConfig): Promise<ConnectionResult> {
+        const connectionId = this.generateConnectionId('prometheus');
+
+        try {
+            const connection = createConnection(config);
+            const version = await this.fetchVersion(connection);
+
+            this.connections.set(connectionId, connection);
+
+            logger.info(`Connected to Prometheus: ${connection.url}`);
+
+            return {
+                connectionId,
+                success: true,
+                version,
+            };
+        } catch (error: any) {
+            logger.error(`Prometheus connection failed: ${error.message}`, error);
+            return {
+                connectionId: '',
+                success: false,
+                error: error.message,
+            };
+        }
+    }
+
+    async disconnect(connectionId: string): Promise<void> {
+        if (this.connections.has(connectionId)) {
+            await this.releaseSessions(connectionId);
+            this.connections.delete(connectionId);
+            logger.info(`Disconnected from Prometheus: ${connectionId}`);
+        }
+    }
+
+    async testConnection(config: ConnectionConfig): Promise<TestResult> {
+        const startTime = Date.now();
+        try {
+            await this.fetchVersion(createConnection(config));
+
+            return {
+                success: true,
+                message: 'Prometheus connection successful',
+                latency: Date.now() - startTime,
+            };
+        } catch (error: any) {
+            logger.error(`Prometheus test connection failed: ${error.message}`, error);
+            return {
+                success: false,
+                error: error.message,
+            };
+        }
+    }
+
+    async listSchemas(connectionId: string): Promise<Schema[]> {
+        const connection = this.getPrometheusConnection(connectionId);
+
+        try {
+            const names: string[] = await this.request(connection, '/api/v1/label/__name__/values');
+            return [{ name: METRICS_SCHEMA, tableCount: names.length }];
+        } catch (error: any) {
+            logger.error(`Failed to list Prometheus metrics: ${error.message}`, error);
+            throw new Error(`Failed to list schemas: ${error.message}`);
+        }
+    }
+
+    async listTables(connectionId: string, _schemaName?: string): Promise<Table[]> {
+        const connection = this.getPrometheusConnection(connectionId);
+
+        try {
+            const names: string[] = await this.request(connection, '/api/v1/label/__name__/values');
+            // Type and help text of each metric, where its exporter provides them
+            const metadata: Record<string, { type: string; help: string }[]> = await this.request(connection, '/api/v1/metadata')
+                .catch(() => ({}));
+
+            return names.map((name) => {
+                const meta = metadata[name]?.[0];
+                return {
+                    schema: METRICS_SCHEMA,
+                    name,
+                    type: 'table' as const,
+                    comment: meta ? `${meta.type}: ${meta.help}` : undefined,
+                };
+            });
+        } catch (error: any) {
+            logger.error(`Failed to list Prometheus metrics: ${error.message}`, error);
+            throw new Error(`Failed to list tables: ${error.message}`);
+        }
+    }
+
+    /**
+     * Columns of a metric: timestamp, the labels its series had in the last hour, and value
+     */
+    async describeTable(connectionId: string, schemaName: string, tableName: string): Promise<TableMetadata> {
+        const connection = this.getPrometheusConnection(connectionId);
+        const timeRange = resolveTimeRange();
+
+        try {
+            const labels: string[] = await this.request(connection, '/api/v1/labels', {
+                'match[]': tableName,
+                start: timeRange.start,
+                end: timeRange.stop,
+            });
+
+            const columns: Column[] = [
+                { name: 'timestamp', dataType: 'dateTime', nullable: false, isPrimaryKey: false, isForeignKey: false },
+                ...labels.filter((label) => label !== '__name__').map((label) => ({
+                    name: label,
+                    dataType: 'string',
+                    nullable: true,
+                    isPrimaryKey: false,
+                    isForeignKey: false,
+                    comment: 'label',
+                })),
+                { name: 'value', dataType: 'double', nullable: true, isPrimaryKey: false, isForeignKey: false },
+            ];
+
+            return {
+                schema: schemaName,
+                name: tableName,
+                columns,
+                primaryKeys: [],
+                foreignKeys: [],
+                indexes: [],
+            };
+        } catch (error: any) {
+            logger.error(`Failed to describe Prometheus metric: ${error.message}`, error);
+            throw new Error(`Failed to describe table: ${error.message}`);
+        }
+    }
+
+    async getIndexes(_connectionId: string, _schemaName: string, _tableName: string): Promise<Index[]> {
+        return [];
+    }
+
+    async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
+        const connection = this.getPrometheusConnection(request.connectionId);
+        const startTime = Date.now();
+        const maxRows = request.maxRows || 1000;
+        const timeRange = resolveTimeRange(request.timeRange);
+        const abort = new AbortController();
+
+        let fields: QueryField[];
+        let rows: Record<string, unknown>[];
+        try {
+            const data = await this.trackQuery(request, async () => abort.abort(), () =>
+                this.request(connection, '/api/v1/query_range', {
+                    query: request.query,
+                    start: timeRange.start,
+                    end: timeRange.stop,
+                    step: String(timeRange.step || defaultStep(timeRange)),
+                    // Evaluation timeout on the server
+                    timeout: `${Math.ceil((request.timeout || connection.timeout) / 1000)}s`,
+                }, abort.signal));
+            ({ fields, rows } = flattenMatrix(data.result));
+        } catch (error: any) {
+            logger.error(`PromQL query execution failed: ${error.message}`, error);
+            throw new Error(`Query execution failed: ${error.message}`);
+        }
+
+        // The whole matrix arrives in one response, so pages are served from memory
+        if (request.streamResults) {
+            const source: CursorSource = {
+                fields,
+                read: async (count) => rows.splice(0, count),
+                close: async () => undefined,
+            };
+            return this.openCursor(request.connectionId, source, request, startTime);
+        }
+
+        return {
+            rows: rows.slice(0, maxRows),
+            fields,
+            rowCount: Math.min(rows.length, maxRows),
+            executionTime: Date.now() - startTime,
+            hasMore: rows.length > maxRows,
+        };
+    }
+
+    async explainQuery(_connectionId: string, query: string): Promise<ExplainResult> {
+        return {
+            plan: { query },
+            planText: 'Query plans are not available for PromQL',
+        };
+    }
+
+    async getVersion(connectionId: string): Promise<string> {
+        const connection = this.getPrometheusConnection(connectionId);
+
+        try {
+            return await this.fetchVersion(connection);
+        } catch (error: any) {
+            logger.error(`Failed to get Prometheus version: ${error.message}`, error);
+            throw new Error(`Failed to get version: ${error.message}`);
+        }
+    }
+
+    async getDatabaseInfo(connectionId: string): Promise<DatabaseInfo> {
+        const connection = this.getPrometheusConnection(connectionId);
+
+        try {
+            const version = await this.fetchVersion(connection);
+
+            return {
+                version,
+                serverVersion: `Prometheus ${version}`,
+                currentDatabase: METRICS_SCHEMA,
+            };
+        } catch (error: any) {
+            logger.error(`Failed to get Prometheus database info: ${error.message}`, error);
+            throw new Error(`Failed to get database info: ${error.message}`);
+        }
+    }
+
+    private getPrometheusConnection(connectionId: string): PrometheusConnection {
+        const connection = this.connections.get(connectionId);
+        if (!connection) {
+            throw new Error(`Connection ${connectionId} not found`);
+        }
+        return connection;
+    }
+
+    private async fetchVersion(connection: PrometheusConnection): Promise<string> {
+        const info = await this.request(connection, '/api/v1/status/buildinfo');
+        return String(info.version);
+    }
+
+    /**
+     * Call an API endpoint and unwrap its { status, data } envelope. Parameters are sent as a form
+     * so long PromQL expressions don't hit URL length limits.
+     */
+    private async request(connection: PrometheusConnection, path: string, params?: Record<string, string>, signal?: AbortSignal): Promise<any> {
+        const response = await fetch(connection.url + path, {
+            method: params ? 'POST' : 'GET',
+            headers: params
+                ? { ...connection.headers, 'Content-Type': 'application/x-www-form-urlencoded' }
+                : connection.headers,
+            body: params ? new URLSearchParams(params).toString() : undefined,
+            signal: signal ?? AbortSignal.timeout(connection.timeout),
+        });
+
+        const text = await response.text();
+        let body: any;
+        try {
+            body = JSON.parse(text);
+        } catch {
+            throw new Error(`HTTP ${response.status}: ${text.slice(0, 200) || response.statusText}`);
+        }
+        if (body.status !== 'success') {
+            throw new Error(body.error || `HTTP ${response.status}`);
+        }
+        return body.data;
+    }
+}
+
+function createConnection(config: ConnectionConfig): PrometheusConnection {
+    // A host may be given as a full URL, e.g. https://prometheus.example.com/prom
+    const url = /^https?:\/\//i.test(config.host)
+        ? config.host.replace(/\/+$/, '')
+        : `${config.ssl ? 'https' : 'http'}://${config.host}:${config.port || 9090}`;
+
+    // Basic auth with a username, otherwise a password alone is sent as a bearer token
+    const headers: Record<string, string> = {};
+    if (config.username) {
+        headers.Authorization = `Basic ${Buffer.from(`${config.username}:${config.password || ''}`).toString('base64')}`;
+    } else if (config.password) {
+        headers.Authorization = `Bearer ${config.password}`;
+    }
+
+    return { url, headers, timeout: config.queryTimeout || 30000 };
+}
+
+function resolveTimeRange(timeRange?: TimeRange): TimeRange {
+    if (timeRange) {
+        // The bounds come from the request and end up in the query text, so they are re-serialized
+        const start = Date.parse(timeRange.start);
+        const stop = Date.parse(timeRange.stop);
+        if (Number.isNaN(start) || Number.isNaN(stop)) {
+            throw new ValidationError('Time range start and stop must be ISO 8601 timestamps');
+        }
+        if (start >= stop) {
+            throw new ValidationError('Time range start must be before its stop');
+        }
+        if (timeRange.step !== undefined && !(typeof timeRange.step === 'number' && timeRange.step > 0 && Number.isFinite(timeRange.step))) {
+            throw new ValidationError('Time range step must be a positive number of seconds');
+        }
+        return { start: new Date(start).toISOString(), stop: new Date(stop).toISOString(), step: timeRange.step };
+    }
+    const stop = new Date();
+    return { start: new Date(stop.getTime() - DEFAULT_TIME_RANGE).toISOString(), stop: stop.toISOString() };
+}
+
+function defaultStep(timeRange: TimeRange): number {
+    const seconds = (Date.parse(timeRange.stop) - Date.parse(timeRange.start)) / 1000;
+    return Math.max(1, Math.ceil(seconds / TARGET_POINTS));
+}
+
+/**
+ * One row per sample: timestamp, the series' labels, value. Series of scalar expressions have no labels.
+ */
+function flattenMatrix(series: { metric: Record<string, string>; values: [number, string][] }[]): { fields: QueryField[]; rows: Record<string, unknown>[] } {
+    const labels: string[] = [];
+    for (const s of series) {
+        for (const label of Object.keys(s.metric)) {
+            if (!labels.includes(label)) labels.push(label);
+        }
+    }
+
+    const rows: Record<string, unknown>[] = [];
+    for (const s of series) {
+        for (const [time, value] of s.values) {
+            const row: Record<string, unknown> = { timestamp: new Date(time * 1000).toISOString() };
+            for (const label of labels) {
+                row[label] = s.metric[label] ?? null;
+            }
+            row.value = Number(value);
+            rows.push(row);
+        }
+    }
+
+    return {
+        fields: [
+            { name: 'timestamp', dataType: 'dateTime' },
+            ...labels.map((name) => ({ name, dataType: 'string' })),
+            { name: 'value', dataType: 'double' },
+        ],
+        rows,
+    };
+}
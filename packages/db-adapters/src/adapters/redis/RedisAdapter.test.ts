@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { RedisAdapter } from './RedisAdapter';
+
+// SCAN pages by cursor, and the types of the keys that still exist when TYPE runs
+let mockPages: Record<string, [string, string[]]> = {};
+let mockTypes: Record<string, string> = {};
+// Every client the adapter opens, the connection's own first
+let mockClients: MockRedis[] = [];
+
+class MockRedis {
+    options: { db: number };
+    scan = jest.fn(async (cursor: string, ..._args: unknown[]) => mockPages[cursor]);
+    multiCalls: unknown[][] = [];
+    persist = jest.fn(async (_key: string) => 1);
+    quit = jest.fn(async () => 'OK');
+
+    constructor(options: { db?: number }) {
+        this.options = { db: options.db || 0 };
+        mockClients.push(this);
+    }
+
+    async ping() { return 'PONG'; }
+    async info() { return 'redis_version:7.2.4\r\n'; }
+    async renamenx(_key: string, newKey: string) { return newKey in mockTypes ? 0 : 1; }
+
+    pipeline() {
+        const ops: [string, string][] = [];
+        const pipeline = {
+            type: (key: string) => { ops.push(['type', key]); return pipeline; },
+            ttl: (key: string) => { ops.push(['ttl', key]); return pipeline; },
+            exec: async () => ops.map(([op, key]) => [null, op === 'type' ? mockTypes[key] ?? 'none' : 60]),
+        };
+        return pipeline;
+    }
+
+    multi() {
+        const transaction = {
+            lset: (...args: unknown[]) => { this.multiCalls.push(['lset', ...args]); return transaction; },
+            lrem: (...args: unknown[]) => { this.multiCalls.push(['lrem', ...args]); return transaction; },
+            exec: async () => this.multiCalls.map(() => [null, 'OK']),
+        };
+        return transaction;
+    }
+
+    duplicate(options: { db: number }) {
+        return new MockRedis(options);
+    }
+}
+
+// Called with new, so a plain function whose returned object takes the place of `this`
+jest.mock('ioredis', () => ({ __esModule: true, default: function (options: { db?: number }) { return new MockRedis(options); } }));
+
+let adapter: RedisAdapter;
+let connectionId: string;
+
+beforeEach(async () => {
+    mockPages = {
+        '0': ['5', ['user:1', 'user:2']],
+        '5': ['9', ['gone']],
+        '9': ['0', ['user:3']],
+    };
+    mockTypes = { 'user:1': 'string', 'user:2': 'hash', 'user:3': 'list' };
+    mockClients = [];
+
+    adapter = new RedisAdapter();
+    const result = await adapter.connect({ name: 'redis', type: 'redis', host: 'localhost', port: 6379, database: '0', username: '', password: '' } as any);
+    expect(result).toMatchObject({ success: true, version: '7.2.4' });
+    connectionId = result.connectionId;
+});
+
+describe('RedisAdapter key browser', () => {
+    it('scans until a page is full and drops keys deleted before TYPE', async () => {
+        const first = await adapter.scanKeys(connectionId, undefined, { match: 'user:*', count: 3 });
+
+        expect(first).toEqual({
+            keys: [{ key: 'user:1', type: 'string', ttl: 60 }, { key: 'user:2', type: 'hash', ttl: 60 }],
+            cursor: '9',
+        });
+        expect(mockClients[0].scan.mock.calls).toEqual([
+            ['0', 'MATCH', 'user:*', 'COUNT', 500],
+            ['5', 'MATCH', 'user:*', 'COUNT', 500],
+        ]);
+
+        const rest = await adapter.scanKeys(connectionId, undefined, { match: 'user:*', count: 3, cursor: first.cursor });
+        expect(rest).toEqual({ keys: [{ key: 'user:3', type: 'list', ttl: 60 }], cursor: '0' });
+    });
+
+    it('passes a type filter on to SCAN', async () => {
+        await adapter.scanKeys(connectionId, 'db0', { type: 'hash', count: 1 });
+
+        expect(mockClients[0].scan.mock.calls[0]).toEqual(['0', 'MATCH', '*', 'COUNT', 500, 'TYPE', 'hash']);
+    });
+
+    it('browses other databases on one duplicate client each and closes them on disconnect', async () => {
+        await adapter.scanKeys(connectionId, 'db2', { count: 1 });
+        await adapter.scanKeys(connectionId, 'db2', { count: 1 });
+        await adapter.scanKeys(connectionId, 'db0', { count: 1 });
+
+        expect(mockClients.map((c) => [c.options.db, c.scan.mock.calls.length])).toEqual([[0, 1], [2, 2]]);
+
+        await adapter.disconnect(connectionId);
+        expect(mockClients.map((c) => c.quit.mock.calls.length)).toEqual([1, 1]);
+    });
+
+    it('removes a list item by index through a unique marker', async () => {
+        await adapter.updateKey(connectionId, undefined, 'user:3', { op: 'lrem', index: 4 });
+
+        const [[lset, key, index, marker], lrem] = mockClients[0].multiCalls;
+        expect([lset, key, index]).toEqual(['lset', 'user:3', 4]);
+        expect(marker).toMatch(/^__bosdb_removed_/);
+        expect(lrem).toEqual(['lrem', 'user:3', 1, marker]);
+    });
+
+    it('persists on a null TTL and refuses to rename over an existing key', async () => {
+        await adapter.updateKey(connectionId, undefined, 'user:1', { op: 'expire', ttl: null });
+        expect(mockClients[0].persist).toHaveBeenCalledWith('user:1');
+
+        await expect(adapter.updateKey(connectionId, undefined, 'user:1', { op: 'rename', newKey: 'user:2' }))
+            .rejects.toThrow('Failed to update key: Key user:2 already exists');
+        await expect(adapter.updateKey(connectionId, undefined, 'user:1', { op: 'rename', newKey: 'user:4' })).resolves.toBeUndefined();
+    });
+});
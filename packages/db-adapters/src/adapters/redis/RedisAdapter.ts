@@ -13,19 +13,41 @@ import type {
     Index,
     DatabaseInfo,
     ExplainResult,
+    RedisKeyScan,
+    RedisKeySummary,
+    RedisKeyValue,
+    RedisKeyChange,
 } from '@bosdb/core';
 import { Logger } from '@bosdb/utils';
 
 const logger = new Logger('RedisAdapter');
 
+// Keys listed as tables of a database; the key browser pages through the rest
+const MAX_LISTED_KEYS = 1000;
+
+// COUNT hint per SCAN call; the server may return more or fewer keys
+const SCAN_COUNT = 500;
+
+// A SCAN with a rare MATCH can walk much of the keyspace, so each page stops after this long
+const SCAN_TIME_BUDGET = 2000;
+
+// Items per page of a hash, list, set, sorted set or stream
+const ITEM_PAGE_SIZE = 100;
+
 /**
  * Redis Database Adapter
  * Redis is a key-value store, not a traditional SQL database
  * Query format: JSON with Redis commands
  * Example: {"command": "GET", "args": ["key"]}
+ *
+ * Databases are listed as schemas (db0, db1, ...) and keys as tables. Keys are always listed with
+ * SCAN, never KEYS, so browsing a large keyspace doesn't block the server. scanKeys(), getKey() and
+ * updateKey() back the key browser with type-aware reads and edits.
  */
 export class RedisAdapter extends BaseDBAdapter {
     private clients: Map<string, Redis> = new Map();
+    // Clients for the other numbered databases, opened when one is first browsed
+    private databaseClients: Map<string, Map<number, Redis>> = new Map();
 
     async connect(config: ConnectionConfig): Promise<ConnectionResult> {
         const connectionId = this.generateConnectionId('redis');
@@ -67,6 +89,9 @@ export class RedisAdapter extends BaseDBAdapter {
     async disconnect(connectionId: string): Promise<void> {
         const client = this.clients.get(connectionId);
         if (client) {
+            const others = this.databaseClients.get(connectionId);
+            await Promise.all(Array.from(others?.values() || []).map(c => c.quit().catch(() => undefined)));
+            this.databaseClients.delete(connectionId);
             await client.quit();
             this.clients.delete(connectionId);
             logger.info(`Disconnected from Redis: ${connectionId}`);
@@ -108,25 +133,25 @@ export class RedisAdapter extends BaseDBAdapter {
         }
 
         try {
-            // Redis has databases 0-15 by default
-            const dbCount = 16;
-            const schemas: Schema[] = [];
+            // Key counts come from INFO keyspace, which only lists databases that have keys
+            const keyspace = await client.info('keyspace');
+            const keyCounts = new Map<number, number>();
+            for (const match of Array.from(keyspace.matchAll(/^db(\d+):keys=(\d+)/gm))) {
+                keyCounts.set(parseInt(match[1], 10), parseInt(match[2], 10));
+            }
 
-            for (let i = 0; i < dbCount; i++) {
-                // Switch to database
-                await client.select(i);
-                const keyCount = await client.dbsize();
+            // Managed services often disable CONFIG; Redis has 16 databases by default
+            const config = await client.config('GET', 'databases').catch(() => null) as string[] | null;
+            const dbCount = parseInt(config?.[1] || '16', 10) || 16;
 
+            const schemas: Schema[] = [];
+            for (let i = 0; i < dbCount; i++) {
                 schemas.push({
                     name: `db${i}`,
-                    tableCount: keyCount,
+                    tableCount: keyCounts.get(i) || 0,
                 });
             }
 
-            // Return to original database
-            const originalDb = parseInt(client.options.db?.toString() || '0', 10) || 0;
-            await client.select(originalDb);
-
             return schemas;
         } catch (error: any) {
             logger.error(`Failed to list Redis databases: ${error.message}`, error);
@@ -135,32 +160,31 @@ export class RedisAdapter extends BaseDBAdapter {
     }
 
     async listTables(connectionId: string, schemaName?: string): Promise<Table[]> {
-        const client = this.clients.get(connectionId);
-        if (!client) {
-            throw new Error(`Connection ${connectionId} not found`);
-        }
+        const client = await this.getDatabaseClient(connectionId, schemaName);
 
         try {
-            // Get all keys (limited to 1000 for performance)
-            const keys = await client.keys('*');
-            const limitedKeys = keys.slice(0, 1000);
-
-            const tables: Table[] = await Promise.all(
-                limitedKeys.map(async (key) => {
-                    const type = await client.type(key);
-                    return {
-                        schema: schemaName || 'db0',
-                        name: key,
-                        type: type as any,
-                        rowCount: type === 'list' ? await client.llen(key) :
-                            type === 'set' ? await client.scard(key) :
-                                type === 'zset' ? await client.zcard(key) :
-                                    type === 'hash' ? await client.hlen(key) : 1,
-                    };
-                })
-            );
-
-            return tables;
+            const { keys } = await this.scan(client, { count: MAX_LISTED_KEYS });
+
+            // Item counts of the listed keys in one round trip
+            const pipeline = client.pipeline();
+            for (const { key, type } of keys) {
+                switch (type) {
+                    case 'list': pipeline.llen(key); break;
+                    case 'set': pipeline.scard(key); break;
+                    case 'zset': pipeline.zcard(key); break;
+                    case 'hash': pipeline.hlen(key); break;
+                    case 'stream': pipeline.xlen(key); break;
+                    default: pipeline.exists(key);
+                }
+            }
+            const counts = (await pipeline.exec()) || [];
+
+            return keys.slice(0, MAX_LISTED_KEYS).map(({ key, type }, i) => ({
+                schema: schemaName || this.defaultSchema(client),
+                name: key,
+                type: type as any,
+                rowCount: Number(counts[i]?.[1]) || 0,
+            }));
         } catch (error: any) {
             logger.error(`Failed to list Redis keys: ${error.message}`, error);
             throw new Error(`Failed to list keys: ${error.message}`);
@@ -168,10 +192,7 @@ export class RedisAdapter extends BaseDBAdapter {
     }
 
     async describeTable(connectionId: string, schemaName: string, tableName: string): Promise<TableMetadata> {
-        const client = this.clients.get(connectionId);
-        if (!client) {
-            throw new Error(`Connection ${connectionId} not found`);
-        }
+        const client = await this.getDatabaseClient(connectionId, schemaName);
 
         try {
             const type = await client.type(tableName);
@@ -323,4 +344,280 @@ export class RedisAdapter extends BaseDBAdapter {
             throw new Error(`Failed to get database info: ${error.message}`);
         }
     }
+
+    // ============ Key browser ============
+
+    /**
+     * One page of keys matching a glob pattern, with their type and TTL. Pass the returned cursor
+     * back to continue; '0' means the scan is complete. A page may hold fewer than `count` keys
+     * when the pattern is rare, but the cursor still moves on.
+     */
+    async scanKeys(
+        connectionId: string,
+        schemaName: string | undefined,
+        options: { match?: string; type?: string; cursor?: string; count?: number } = {}
+    ): Promise<RedisKeyScan> {
+        const client = await this.getDatabaseClient(connectionId, schemaName);
+
+        try {
+            return await this.scan(client, options);
+        } catch (error: any) {
+            logger.error(`Failed to scan Redis keys: ${error.message}`, error);
+            throw new Error(`Failed to list keys: ${error.message}`);
+        }
+    }
+
+    /**
+     * Read a key for display. The value depends on the type:
+     * string: string; hash: {field, value}[]; list: {index, value}[]; set: string[];
+     * zset: {member, score}[]; stream: {id, fields}[]; ReJSON-RL: the parsed document.
+     * Collections are read one page at a time from `cursor`.
+     */
+    async getKey(connectionId: string, schemaName: string | undefined, key: string, cursor?: string): Promise<RedisKeyValue> {
+        const client = await this.getDatabaseClient(connectionId, schemaName);
+
+        try {
+            const [type, ttl] = await Promise.all([client.type(key), client.ttl(key)]);
+            if (type === 'none') {
+                throw new Error(`Key ${key} does not exist`);
+            }
+
+            // Both need permissions that ACL users or managed services may not grant
+            const [memory, encoding] = await Promise.all([
+                client.memory('USAGE', key).then(bytes => bytes ?? undefined).catch(() => undefined),
+                client.object('ENCODING', key).then(value => value ? String(value) : undefined).catch(() => undefined),
+            ]);
+
+            const page = await readKeyPage(client, key, type, cursor);
+            return { key, type, ttl, memory, encoding, ...page };
+        } catch (error: any) {
+            logger.error(`Failed to read Redis key: ${error.message}`, error);
+            throw new Error(`Failed to read key: ${error.message}`);
+        }
+    }
+
+    /**
+     * Apply one edit to a key. Writes to a missing key create it with that type, so a new hash
+     * is made by its first hset.
+     */
+    async updateKey(connectionId: string, schemaName: string | undefined, key: string, change: RedisKeyChange): Promise<void> {
+        const client = await this.getDatabaseClient(connectionId, schemaName);
+
+        try {
+            switch (change.op) {
+                case 'set':
+                    // KEEPTTL so editing a value doesn't silently make it permanent
+                    await client.set(key, change.value, 'KEEPTTL');
+                    break;
+                case 'hset':
+                    await client.hset(key, change.field, change.value);
+                    break;
+                case 'hdel':
+                    await client.hdel(key, change.field);
+                    break;
+                case 'lset':
+                    await client.lset(key, change.index, change.value);
+                    break;
+                case 'lpush':
+                    await client.lpush(key, change.value);
+                    break;
+                case 'rpush':
+                    await client.rpush(key, change.value);
+                    break;
+                case 'lrem': {
+                    // Lists can only remove by value, so the item is first overwritten with a unique marker
+                    const marker = `__bosdb_removed_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+                    const results = await client.multi().lset(key, change.index, marker).lrem(key, 1, marker).exec();
+                    const failed = results?.find(([err]) => err);
+                    if (failed) throw failed[0];
+                    break;
+                }
+                case 'sadd':
+                    await client.sadd(key, change.member);
+                    break;
+                case 'srem':
+                    await client.srem(key, change.member);
+                    break;
+                case 'zadd':
+                    await client.zadd(key, change.score, change.member);
+                    break;
+                case 'zrem':
+                    await client.zrem(key, change.member);
+                    break;
+                case 'xadd': {
+                    const entries = Object.entries(change.fields);
+                    if (entries.length === 0) throw new Error('A stream entry needs at least one field');
+                    await client.xadd(key, '*', ...entries.flat());
+                    break;
+                }
+                case 'xdel':
+                    await client.xdel(key, change.id);
+                    break;
+                case 'json':
+                    JSON.parse(change.value); // Report invalid JSON before the module does, with a clearer message
+                    await client.call('JSON.SET', key, '$', change.value);
+                    break;
+                case 'expire':
+                    if (change.ttl === null || change.ttl < 0) {
+                        await client.persist(key);
+                    } else if (!(await client.expire(key, change.ttl))) {
+                        throw new Error(`Key ${key} does not exist`);
+                    }
+                    break;
+                case 'rename':
+                    if (!(await client.renamenx(key, change.newKey))) {
+                        throw new Error(`Key ${change.newKey} already exists`);
+                    }
+                    break;
+                case 'delete':
+                    // UNLINK frees large values in the background instead of blocking the server
+                    await client.unlink(key);
+                    break;
+                default:
+                    throw new Error(`Unsupported change: ${(change as any).op}`);
+            }
+        } catch (error: any) {
+            logger.error(`Failed to update Redis key: ${error.message}`, error);
+            throw new Error(`Failed to update key: ${error.message}`);
+        }
+    }
+
+    private async scan(client: Redis, options: { match?: string; type?: string; cursor?: string; count?: number }): Promise<RedisKeyScan> {
+        const wanted = options.count || ITEM_PAGE_SIZE;
+        const deadline = Date.now() + SCAN_TIME_BUDGET;
+        const names: string[] = [];
+        let cursor = options.cursor || '0';
+
+        do {
+            const [next, batch] = options.type
+                ? await client.scan(cursor, 'MATCH', options.match || '*', 'COUNT', SCAN_COUNT, 'TYPE', options.type)
+                : await client.scan(cursor, 'MATCH', options.match || '*', 'COUNT', SCAN_COUNT);
+            names.push(...batch);
+            cursor = next;
+        } while (cursor !== '0' && names.length < wanted && Date.now() < deadline);
+
+        // Type and TTL of every key in one round trip
+        const pipeline = client.pipeline();
+        for (const name of names) {
+            pipeline.type(name).ttl(name);
+        }
+        const results = names.length > 0 ? (await pipeline.exec()) || [] : [];
+
+        const keys: RedisKeySummary[] = names.map((key, i) => ({
+            key,
+            type: String(results[i * 2]?.[1] ?? 'none'),
+            ttl: Number(results[i * 2 + 1]?.[1] ?? -1),
+        }));
+
+        // Keys deleted between SCAN and TYPE are dropped
+        return { keys: keys.filter(k => k.type !== 'none'), cursor };
+    }
+
+    /**
+     * Client for a database given as schema name (db0, db1, ...). The configured database uses the
+     * connection's own client; others get a duplicate so SELECT never changes what queries run on.
+     */
+    private async getDatabaseClient(connectionId: string, schemaName?: string): Promise<Redis> {
+        const client = this.clients.get(connectionId);
+        if (!client) {
+            throw new Error(`Connection ${connectionId} not found`);
+        }
+
+        const match = schemaName ? /^db(\d+)$/.exec(schemaName) : null;
+        const db = match ? parseInt(match[1], 10) : null;
+        if (db === null || db === (client.options.db || 0)) {
+            return client;
+        }
+
+        let databases = this.databaseClients.get(connectionId);
+        if (!databases) {
+            databases = new Map();
+            this.databaseClients.set(connectionId, databases);
+        }
+
+        let databaseClient = databases.get(db);
+        if (!databaseClient) {
+            databaseClient = client.duplicate({ db });
+            databases.set(db, databaseClient);
+        }
+        return databaseClient;
+    }
+
+    private defaultSchema(client: Redis): string {
+        return `db${client.options.db || 0}`;
+    }
+}
+
+/**
+ * The value of one key, or one page of it for collections
+ */
+async function readKeyPage(client: Redis, key: string, type: string, cursor?: string): Promise<Pick<RedisKeyValue, 'value' | 'length' | 'cursor'>> {
+    const offset = parseInt(cursor || '0', 10) || 0;
+
+    switch (type) {
+        case 'string': {
+            const value = await client.get(key);
+            return { value, length: value?.length || 0 };
+        }
+        case 'hash': {
+            const [next, flat] = await client.hscan(key, cursor || '0', 'COUNT', ITEM_PAGE_SIZE);
+            const value = [];
+            for (let i = 0; i < flat.length; i += 2) {
+                value.push({ field: flat[i], value: flat[i + 1] });
+            }
+            return { value, length: await client.hlen(key), cursor: next === '0' ? undefined : next };
+        }
+        case 'list': {
+            const [items, length] = await Promise.all([
+                client.lrange(key, offset, offset + ITEM_PAGE_SIZE - 1),
+                client.llen(key),
+            ]);
+            return {
+                value: items.map((value, i) => ({ index: offset + i, value })),
+                length,
+                cursor: offset + ITEM_PAGE_SIZE < length ? String(offset + ITEM_PAGE_SIZE) : undefined,
+            };
+        }
+        case 'set': {
+            const [next, members] = await client.sscan(key, cursor || '0', 'COUNT', ITEM_PAGE_SIZE);
+            return { value: members, length: await client.scard(key), cursor: next === '0' ? undefined : next };
+        }
+        case 'zset': {
+            const [flat, length] = await Promise.all([
+                client.zrange(key, offset, offset + ITEM_PAGE_SIZE - 1, 'WITHSCORES'),
+                client.zcard(key),
+            ]);
+            const value = [];
+            for (let i = 0; i < flat.length; i += 2) {
+                value.push({ member: flat[i], score: Number(flat[i + 1]) });
+            }
+            return { value, length, cursor: offset + ITEM_PAGE_SIZE < length ? String(offset + ITEM_PAGE_SIZE) : undefined };
+        }
+        case 'stream': {
+            // The cursor is the last ID of the previous page; '(' makes the range exclusive
+            const [entries, length] = await Promise.all([
+                client.xrange(key, cursor ? `(${cursor}` : '-', '+', 'COUNT', ITEM_PAGE_SIZE),
+                client.xlen(key),
+            ]);
+            const value = entries.map(([id, flat]) => {
+                const fields: Record<string, string> = {};
+                for (let i = 0; i < flat.length; i += 2) {
+                    fields[flat[i]] = flat[i + 1];
+                }
+                return { id, fields };
+            });
+            return {
+                value,
+                length,
+                cursor: entries.length === ITEM_PAGE_SIZE ? entries[entries.length - 1][0] : undefined,
+            };
+        }
+        case 'ReJSON-RL': {
+            const json = await client.call('JSON.GET', key) as string | null;
+            return { value: json === null ? null : JSON.parse(json), length: json?.length || 0 };
+        }
+        default:
+            // Module types without a generic read command
+            return { value: null, length: 0 };
+    }
 }
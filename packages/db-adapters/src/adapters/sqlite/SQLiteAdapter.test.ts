@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import { existsSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteAdapter } from './SQLiteAdapter';
+
+const SCHEMA = `
+    CREATE TABLE users (id INTEGER PRIMARY KEY, email VARCHAR(120) NOT NULL UNIQUE, balance DECIMAL(10, 2), note);
+    CREATE TABLE memberships (
+        team TEXT,
+        user_id INTEGER REFERENCES users ON DELETE CASCADE,
+        PRIMARY KEY (user_id, team)
+    );
+    CREATE INDEX memberships_team ON memberships (team);
+`;
+
+let adapter: SQLiteAdapter;
+let dir: string;
+
+beforeEach(async () => {
+    adapter = new SQLiteAdapter();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bosdb-sqlite-'));
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function open(database = ':memory:'): Promise<string> {
+    const result = await adapter.connect({ name: 'test', type: 'sqlite', host: '', port: 0, database, username: '', password: '' } as any);
+    expect(result.success).toBe(true);
+    return result.connectionId;
+}
+
+describe('SQLiteAdapter', () => {
+    it('describes columns, keys and indexes from the declared schema', async () => {
+        const connectionId = await open();
+        await adapter.executeQuery({ connectionId, query: SCHEMA });
+
+        const users = await adapter.describeTable(connectionId, 'main', 'users');
+        expect(users.columns.map(({ name, dataType, maxLength, precision, scale, nullable }) => ({ name, dataType, maxLength, precision, scale, nullable }))).toEqual([
+            { name: 'id', dataType: 'INTEGER', maxLength: undefined, precision: undefined, scale: undefined, nullable: false },
+            { name: 'email', dataType: 'VARCHAR', maxLength: 120, precision: undefined, scale: undefined, nullable: false },
+            { name: 'balance', dataType: 'DECIMAL', maxLength: undefined, precision: 10, scale: 2, nullable: true },
+            { name: 'note', dataType: 'ANY', maxLength: undefined, precision: undefined, scale: undefined, nullable: true },
+        ]);
+        expect(users.indexes).toEqual([{ name: 'sqlite_autoindex_users_1', columns: ['email'], unique: true, primary: false, type: undefined }]);
+
+        const memberships = await adapter.describeTable(connectionId, 'main', 'memberships');
+        expect(memberships.primaryKeys).toEqual(['user_id', 'team']);
+        expect(memberships.foreignKeys).toEqual([{
+            name: 'fk_memberships_0',
+            columns: ['user_id'],
+            referencedTable: 'users',
+            referencedColumns: ['id'],
+            onDelete: 'CASCADE',
+            onUpdate: 'NO ACTION',
+        }]);
+        expect(memberships.indexes.map((idx) => [idx.name, idx.primary])).toEqual([
+            ['memberships_team', false],
+            ['sqlite_autoindex_memberships_1', true],
+        ]);
+        await expect(adapter.describeTable(connectionId, 'main', 'missing')).rejects.toThrow('Table main.missing not found');
+    });
+
+    it('binds parameters the driver cannot take as they are and pages results', async () => {
+        const connectionId = await open();
+        await adapter.executeQuery({ connectionId, query: 'CREATE TABLE t (flag, at, doc)' });
+
+        const insert = await adapter.executeQuery({
+            connectionId,
+            query: 'INSERT INTO t VALUES ($1, $2, $3), ($1, NULL, NULL)',
+            params: [true, new Date('2024-03-01T00:00:00Z'), { a: 1 }],
+        });
+        expect(insert.rowCount).toBe(2);
+
+        const result = await adapter.executeQuery({ connectionId, query: 'SELECT * FROM t', maxRows: 1 });
+        expect(result).toMatchObject({ rows: [{ flag: 1, at: '2024-03-01T00:00:00.000Z', doc: '{"a":1}' }], rowCount: 2, hasMore: true });
+        expect(result.fields).toEqual([{ name: 'flag', dataType: 'ANY' }, { name: 'at', dataType: 'ANY' }, { name: 'doc', dataType: 'ANY' }]);
+    });
+
+    it('streams a SELECT through a cursor', async () => {
+        const connectionId = await open(path.join(dir, 'cursor.db'));
+        await adapter.executeQuery({ connectionId, query: 'CREATE TABLE n (i INTEGER); INSERT INTO n VALUES (1), (2), (3);' });
+
+        const first = await adapter.executeQuery({ connectionId, query: 'SELECT i FROM n ORDER BY i', streamResults: true, maxRows: 2 });
+        expect(first.rows).toEqual([{ i: 1 }, { i: 2 }]);
+        expect(first.cursor).toBeDefined();
+
+        const rest = await adapter.executeQuery({ connectionId, query: '', cursor: first.cursor, maxRows: 2 });
+        expect(rest.rows).toEqual([{ i: 3 }]);
+        expect(rest.cursor).toBeUndefined();
+    });
+
+    it('keeps a file database transaction on its own handle until it commits', async () => {
+        const connectionId = await open(path.join(dir, 'tx.db'));
+        await adapter.executeQuery({ connectionId, query: 'CREATE TABLE t (v TEXT)' });
+        const count = async () => (await adapter.executeQuery({ connectionId, query: 'SELECT COUNT(*) AS n FROM t' })).rows[0].n;
+
+        const rolledBack = await adapter.beginTransaction(connectionId);
+        await adapter.executeQuery({ connectionId, transactionId: rolledBack, query: "INSERT INTO t VALUES ('a')" });
+        await adapter.rollback(connectionId, rolledBack);
+        expect(await count()).toBe(0);
+
+        const committed = await adapter.beginTransaction(connectionId);
+        const columns = [{ name: 'v', dataType: 'TEXT', nullable: true, isPrimaryKey: false, isForeignKey: false }];
+        expect(await adapter.bulkInsert({ connectionId, schema: 'main', table: 't', columns, rows: [['b'], ['c']], transactionId: committed })).toBe(2);
+        expect(await count()).toBe(0);
+        await adapter.commit(connectionId, committed);
+        expect(await count()).toBe(2);
+    });
+
+    it('allows one transaction at a time on an in-memory database', async () => {
+        const connectionId = await open();
+        await adapter.beginTransaction(connectionId);
+
+        await expect(adapter.beginTransaction(connectionId)).rejects.toThrow('An in-memory SQLite database allows one transaction at a time');
+    });
+
+    it('tests a missing file without creating it', async () => {
+        const file = path.join(dir, 'new.db');
+        const config = { name: 'test', type: 'sqlite', host: '', port: 0, database: file, username: '', password: '' } as any;
+
+        expect(await adapter.testConnection(config)).toMatchObject({ success: true, message: 'SQLite database file will be created' });
+        expect(await adapter.testConnection({ ...config, readOnly: true })).toMatchObject({ success: false, error: `File not found: ${file}` });
+        expect(existsSync(file)).toBe(false);
+    });
+
+    it('renders the query plan as a tree', async () => {
+        const connectionId = await open();
+        await adapter.executeQuery({ connectionId, query: SCHEMA });
+
+        const { planText } = await adapter.explainQuery(connectionId, "SELECT * FROM users WHERE email = 'a' UNION SELECT * FROM users WHERE id = 1");
+
+        expect(planText!.split('\n')[0]).toBe('QUERY PLAN');
+        // The plan's wording depends on the SQLite version; its shape doesn't
+        const lines = planText!.split('\n').slice(1);
+        expect(lines[0]).toMatch(/^`--\S/);
+        expect(lines.slice(1).every((line) => /^ {3}(\| {2}| {3})*(\|--|`--)\S/.test(line))).toBe(true);
+        expect(lines[lines.length - 1]).toMatch(/`--SEARCH users USING INTEGER PRIMARY KEY/);
+    });
+});
@@ -0,0 +1,569 @@
+import { accessSync, constants, existsSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { BaseDBAdapter, CursorSource, TransactionSession } from '../../interfaces/IDBAdapter';
+import type {
+    ConnectionConfig,
+    ConnectionResult,
+    TestResult,
+    QueryRequest,
+    QueryResult,
+    QueryField,
+    BulkInsertRequest,
+    Schema,
+    Table,
+    TableMetadata,
+    Column,
+    Index,
+    ForeignKey,
+    DatabaseInfo,
+    ExplainResult,
+} from '@bosdb/core';
+import { bindParameters } from '@bosdb/core';
+import { Logger } from '@bosdb/utils';
+
+const logger = new Logger('SQLiteAdapter');
+
+const MEMORY = ':memory:';
+
+interface SQLiteDatabase {
+    db: Database.Database;
+    file: string;
+    readOnly: boolean;
+    timeout: number;
+}
+
+interface QueryPlanRow {
+    id: number;
+    parent: number;
+    detail: string;
+}
+
+/**
+ * SQLite Database Adapter
+ * Implements IDBAdapter for local SQLite files using better-sqlite3. The connection's database
+ * is the file path; an empty path or ':memory:' opens a private in-memory database.
+ * better-sqlite3 runs statements synchronously, so queries can't be cancelled once started.
+ */
+export class SQLiteAdapter extends BaseDBAdapter {
+    private databases: Map<string, SQLiteDatabase> = new Map();
+
+    async connect(config: ConnectionConfig): Promise<ConnectionResult> {
+        const connectionId = this.generateConnectionId('sqlite');
+
+        try {
+            const file = config.database || MEMORY;
+            const readOnly = Boolean(config.readOnly) && file !== MEMORY;
+            const timeout = config.connectionTimeout || 5000;
+            const db = openDatabase(file, readOnly, timeout);
+            const version = sqliteVersion(db);
+
+            this.databases.set(connectionId, { db, file, readOnly, timeout });
+
+            logger.info(`Opened SQLite database: ${file}`);
+
+            return {
+                connectionId,
+                success: true,
+                version,
+            };
+        } catch (error: any) {
+            logger.error(`SQLite connection failed: ${error.message}`, error);
+            return {
+                connectionId: '',
+                success: false,
+                error: error.message,
+            };
+        }
+    }
+
+    async disconnect(connectionId: string): Promise<void> {
+        const database = this.databases.get(connectionId);
+        if (database) {
+            await this.releaseSessions(connectionId);
+            database.db.close();
+            this.databases.delete(connectionId);
+            logger.info(`Closed SQLite database: ${connectionId}`);
+        }
+    }
+
+    async testConnection(config: ConnectionConfig): Promise<TestResult> {
+        const startTime = Date.now();
+        try {
+            const file = config.database || MEMORY;
+
+            // connect() creates a missing file; testing must not leave an empty one behind
+            if (file !== MEMORY && !existsSync(file)) {
+                if (config.readOnly) {
+                    throw new Error(`File not found: ${file}`);
+                }
+                accessSync(path.dirname(path.resolve(file)), constants.W_OK);
+                return {
+                    success: true,
+                    message: 'SQLite database file will be created',
+                    latency: Date.now() - startTime,
+                };
+            }
+
+            const db = new Database(file, { readonly: file !== MEMORY, fileMustExist: true });
+            try {
+                sqliteVersion(db);
+            } finally {
+                db.close();
+            }
+
+            return {
+                success: true,
+                message: 'SQLite database opened successfully',
+                latency: Date.now() - startTime,
+            };
+        } catch (error: any) {
+            logger.error(`SQLite test connection failed: ${error.message}`, error);
+            return {
+                success: false,
+                error: error.message,
+            };
+        }
+    }
+
+    async listSchemas(connectionId: string): Promise<Schema[]> {
+        const { db } = this.getDatabase(connectionId);
+
+        try {
+            // Attached databases show up as further schemas next to "main"
+            const rows = db.prepare('SELECT name FROM pragma_database_list WHERE name <> ? ORDER BY seq').all('temp') as { name: string }[];
+
+            return rows.map((row) => ({
+                name: row.name,
+                tableCount: (db.prepare(
+                    `SELECT COUNT(*) AS count FROM ${quote(row.name)}.sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\'`
+                ).get() as { count: number }).count,
+            }));
+        } catch (error: any) {
+            logger.error(`Failed to list SQLite schemas: ${error.message}`, error);
+            throw new Error(`Failed to list schemas: ${error.message}`);
+        }
+    }
+
+    async listTables(connectionId: string, schemaName?: string): Promise<Table[]> {
+        const { db } = this.getDatabase(connectionId);
+        const schema = schemaName || 'main';
+
+        try {
+            const rows = db.prepare(`
+                SELECT name, type
+                FROM ${quote(schema)}.sqlite_master
+                WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+                ORDER BY name
+            `).all() as { name: string; type: string }[];
+            const rowCounts = estimateRowCounts(db, schema);
+
+            return rows.map((row) => ({
+                schema,
+                name: row.name,
+                type: row.type === 'view' ? 'view' : 'table',
+                rowCount: rowCounts.get(row.name),
+            }));
+        } catch (error: any) {
+            logger.error(`Failed to list SQLite tables: ${error.message}`, error);
+            throw new Error(`Failed to list tables: ${error.message}`);
+        }
+    }
+
+    async describeTable(connectionId: string, schemaName: string, tableName: string): Promise<TableMetadata> {
+        const { db } = this.getDatabase(connectionId);
+
+        try {
+            // Get columns
+            const columnRows = db.prepare('SELECT * FROM pragma_table_info(?, ?) ORDER BY cid')
+                .all(tableName, schemaName) as { name: string; type: string; notnull: number; dflt_value: string | null; pk: number }[];
+            if (columnRows.length === 0) {
+                throw new Error(`Table ${schemaName}.${tableName} not found`);
+            }
+
+            // Get foreign keys; SQLite doesn't name them, so they are numbered per table
+            const fkRows = db.prepare('SELECT * FROM pragma_foreign_key_list(?, ?) ORDER BY id, seq')
+                .all(tableName, schemaName) as { id: number; table: string; from: string; to: string | null; on_update: string; on_delete: string }[];
+
+            const foreignKeysMap = new Map<number, ForeignKey>();
+            for (const row of fkRows) {
+                if (!foreignKeysMap.has(row.id)) {
+                    foreignKeysMap.set(row.id, {
+                        name: `fk_${tableName}_${row.id}`,
+                        columns: [],
+                        referencedTable: row.table,
+                        referencedColumns: [],
+                        onDelete: row.on_delete,
+                        onUpdate: row.on_update,
+                    });
+                }
+                const fk = foreignKeysMap.get(row.id)!;
+                fk.columns.push(row.from);
+                if (row.to) fk.referencedColumns.push(row.to);
+            }
+
+            // A reference without columns points at the parent's primary key
+            for (const fk of foreignKeysMap.values()) {
+                if (fk.referencedColumns.length === 0) {
+                    fk.referencedColumns = (db.prepare('SELECT name FROM pragma_table_info(?, ?) WHERE pk > 0 ORDER BY pk')
+                        .all(fk.referencedTable, schemaName) as { name: string }[]).map((row) => row.name);
+                }
+            }
+
+            const fkColumns = new Set(fkRows.map((row) => row.from));
+            const columns: Column[] = columnRows.map((row) => ({
+                name: row.name,
+                ...parseDeclaredType(row.type),
+                nullable: row.notnull === 0 && row.pk === 0,
+                defaultValue: row.dflt_value ?? undefined,
+                isPrimaryKey: row.pk > 0,
+                isForeignKey: fkColumns.has(row.name),
+            }));
+
+            // Get primary keys, in key order rather than column order
+            const primaryKeys = columnRows
+                .filter((row) => row.pk > 0)
+                .sort((a, b) => a.pk - b.pk)
+                .map((row) => row.name);
+
+            // Get indexes
+            const indexes = await this.getIndexes(connectionId, schemaName, tableName);
+
+            return {
+                schema: schemaName,
+                name: tableName,
+                columns,
+                primaryKeys,
+                foreignKeys: Array.from(foreignKeysMap.values()),
+                indexes,
+                rowCount: estimateRowCounts(db, schemaName).get(tableName),
+            };
+        } catch (error: any) {
+            logger.error(`Failed to describe SQLite table: ${error.message}`, error);
+            throw new Error(`Failed to describe table: ${error.message}`);
+        }
+    }
+
+    async getIndexes(connectionId: string, schemaName: string, tableName: string): Promise<Index[]> {
+        const { db } = this.getDatabase(connectionId);
+
+        try {
+            const rows = db.prepare('SELECT name, "unique", origin, partial FROM pragma_index_list(?, ?) ORDER BY name')
+                .all(tableName, schemaName) as { name: string; unique: number; origin: string; partial: number }[];
+            const indexColumns = db.prepare('SELECT name FROM pragma_index_info(?, ?) ORDER BY seqno');
+
+            return rows.map((row) => ({
+                name: row.name,
+                // Expression index columns have no name
+                columns: (indexColumns.all(row.name, schemaName) as { name: string | null }[]).map((col) => col.name ?? '<expression>'),
+                unique: row.unique === 1,
+                primary: row.origin === 'pk',
+                type: row.partial ? 'partial' : undefined,
+            }));
+        } catch (error: any) {
+            logger.error(`Failed to get SQLite indexes: ${error.message}`, error);
+            throw new Error(`Failed to get indexes: ${error.message}`);
+        }
+    }
+
+    async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) {
+            return this.continueCursor(request);
+        }
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
+        const database = this.getDatabase(request.connectionId);
+
+        if (request.streamResults && /^\s*(SELECT|WITH|VALUES)\b/i.test(request.query)) {
+            return this.openQueryCursor(database, request);
+        }
+
+        return runStatement(database.db, request);
+    }
+
+    /**
+     * Start a transaction on a handle of its own, so statements outside it aren't swept into it.
+     * An in-memory database exists only on its one handle, which then carries the transaction.
+     */
+    protected async openTransaction(connectionId: string): Promise<TransactionSession> {
+        const database = this.getDatabase(connectionId);
+        const shared = database.file === MEMORY;
+        if (shared && database.db.inTransaction) {
+            throw new Error('An in-memory SQLite database allows one transaction at a time');
+        }
+
+        const db = shared ? database.db : openDatabase(database.file, database.readOnly, database.timeout);
+        try {
+            db.exec('BEGIN');
+        } catch (error) {
+            if (!shared) db.close();
+            throw error;
+        }
+
+        const finish = async (statement: string) => {
+            try {
+                db.exec(statement);
+            } finally {
+                if (!shared) db.close();
+            }
+        };
+
+        return {
+            execute: async (request) => runStatement(db, request),
+            bulkInsert: async (request) => insertPrepared(db, request),
+            commit: () => finish('COMMIT'),
+            rollback: () => finish('ROLLBACK'),
+        };
+    }
+
+    protected async insertRows(request: BulkInsertRequest): Promise<number> {
+        const { db } = this.getDatabase(request.connectionId);
+        return db.transaction(() => insertPrepared(db, request))();
+    }
+
+    /**
+     * Step through a SELECT on a read-only handle of its own, since a handle with an open
+     * statement can't run anything else. Unless the file is in WAL mode, the open cursor holds
+     * a read lock, so writes wait for it to close. In-memory databases can't be shared between
+     * handles, so their results are read up front and paged from memory.
+     */
+    private async openQueryCursor(database: SQLiteDatabase, request: QueryRequest): Promise<QueryResult> {
+        const startTime = Date.now();
+        const bound = request.params
+            ? bindParameters(request.query, request.params, 'question')
+            : { query: request.query, values: [] };
+        const values = bound.values.map(toSQLiteValue);
+        const db = database.file === MEMORY ? database.db : openDatabase(database.file, true, database.timeout);
+        const release = () => {
+            if (db !== database.db) db.close();
+        };
+
+        let source: CursorSource;
+        try {
+            const stmt = db.prepare(bound.query);
+            if (!stmt.reader) {
+                release();
+                return runStatement(database.db, request);
+            }
+
+            const rows = db === database.db ? stmt.all(...values)[Symbol.iterator]() : stmt.iterate(...values);
+            source = {
+                fields: fieldsOf(stmt),
+                read: async (count) => {
+                    const batch: any[] = [];
+                    while (batch.length < count) {
+                        const next = rows.next();
+                        if (next.done) break;
+                        batch.push(next.value);
+                    }
+                    return batch;
+                },
+                close: async () => {
+                    rows.return?.();
+                    release();
+                },
+            };
+        } catch (error: any) {
+            release();
+            logger.error(`SQLite query execution failed: ${error.message}`, error);
+            throw new Error(`Query execution failed: ${error.message}`);
+        }
+
+        return this.openCursor(request.connectionId, source, request, startTime);
+    }
+
+    async explainQuery(connectionId: string, query: string): Promise<ExplainResult> {
+        const { db } = this.getDatabase(connectionId);
+
+        try {
+            const rows = db.prepare(`EXPLAIN QUERY PLAN ${query}`).all() as QueryPlanRow[];
+            return {
+                plan: rows,
+                planText: formatQueryPlan(rows),
+            };
+        } catch (error: any) {
+            logger.error(`SQLite EXPLAIN failed: ${error.message}`, error);
+            throw new Error(`EXPLAIN failed: ${error.message}`);
+        }
+    }
+
+    async getVersion(connectionId: string): Promise<string> {
+        const { db } = this.getDatabase(connectionId);
+
+        try {
+            return sqliteVersion(db);
+        } catch (error: any) {
+            logger.error(`Failed to get SQLite version: ${error.message}`, error);
+            throw new Error(`Failed to get version: ${error.message}`);
+        }
+    }
+
+    async getDatabaseInfo(connectionId: string): Promise<DatabaseInfo> {
+        const { db, file } = this.getDatabase(connectionId);
+
+        try {
+            const version = sqliteVersion(db);
+            const encoding = db.pragma('encoding', { simple: true }) as string;
+
+            return {
+                version,
+                serverVersion: `SQLite ${version}`,
+                currentDatabase: file,
+                encoding,
+            };
+        } catch (error: any) {
+            logger.error(`Failed to get SQLite database info: ${error.message}`, error);
+            throw new Error(`Failed to get database info: ${error.message}`);
+        }
+    }
+
+    private getDatabase(connectionId: string): SQLiteDatabase {
+        const database = this.databases.get(connectionId);
+        if (!database) {
+            throw new Error(`Connection ${connectionId} not found`);
+        }
+        return database;
+    }
+}
+
+function openDatabase(file: string, readOnly: boolean, timeout: number): Database.Database {
+    const db = new Database(file, { readonly: readOnly, fileMustExist: readOnly, timeout });
+    if (!readOnly) {
+        db.pragma('foreign_keys = ON');
+    }
+    return db;
+}
+
+function sqliteVersion(db: Database.Database): string {
+    return (db.prepare('SELECT sqlite_version() AS version').get() as { version: string }).version;
+}
+
+function runStatement(db: Database.Database, request: QueryRequest): QueryResult {
+    const startTime = Date.now();
+    const maxRows = request.maxRows || 1000;
+
+    try {
+        const bound = request.params
+            ? bindParameters(request.query, request.params, 'question')
+            : { query: request.query, values: [] };
+
+        let stmt: Database.Statement;
+        try {
+            stmt = db.prepare(bound.query);
+        } catch (error: any) {
+            // prepare() takes a single statement; scripts without parameters go through exec()
+            if (!request.params && /more than one statement/.test(error.message)) {
+                db.exec(bound.query);
+                return { rows: [], fields: [], rowCount: 0, executionTime: Date.now() - startTime };
+            }
+            throw error;
+        }
+
+        const values = bound.values.map(toSQLiteValue);
+        if (!stmt.reader) {
+            const info = stmt.run(...values);
+            return { rows: [], fields: [], rowCount: info.changes, executionTime: Date.now() - startTime };
+        }
+
+        const rows = stmt.all(...values);
+        return {
+            rows: rows.slice(0, maxRows),
+            fields: fieldsOf(stmt),
+            rowCount: rows.length,
+            executionTime: Date.now() - startTime,
+            hasMore: rows.length > maxRows,
+        };
+    } catch (error: any) {
+        logger.error(`SQLite query execution failed: ${error.message}`, error);
+        throw new Error(`Query execution failed: ${error.message}`);
+    }
+}
+
+/**
+ * One prepared INSERT run per row; the caller provides the surrounding transaction
+ */
+function insertPrepared(db: Database.Database, request: BulkInsertRequest): number {
+    const table = request.schema ? `${quote(request.schema)}.${quote(request.table)}` : quote(request.table);
+    const stmt = db.prepare(`INSERT INTO ${table} (${request.columns.map((col) => quote(col.name)).join(', ')}) ` +
+        `VALUES (${request.columns.map(() => '?').join(', ')})`);
+
+    try {
+        let inserted = 0;
+        for (const row of request.rows) {
+            inserted += stmt.run(...row.map(toSQLiteValue)).changes;
+        }
+        return inserted;
+    } catch (error: any) {
+        throw new Error(`Bulk insert failed: ${error.message}`);
+    }
+}
+
+function fieldsOf(stmt: Database.Statement): QueryField[] {
+    // Computed columns have no declared type
+    return stmt.columns().map((col) => ({ name: col.name, dataType: col.type || 'ANY' }));
+}
+
+// better-sqlite3 binds only numbers, bigints, strings, buffers and null
+function toSQLiteValue(value: unknown): unknown {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return value.toISOString();
+    if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) return JSON.stringify(value);
+    return value;
+}
+
+function quote(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Split a declared type such as VARCHAR(255) or DECIMAL(10,2) into its name and size.
+ * Columns declared without a type accept any value.
+ */
+function parseDeclaredType(declared: string): Pick<Column, 'dataType' | 'maxLength' | 'precision' | 'scale'> {
+    const match = /^\s*([^(]*?)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)\s*$/.exec(declared);
+    if (!match) {
+        return { dataType: declared || 'ANY' };
+    }
+
+    const [, dataType, size, scale] = match;
+    if (/char|clob|text/i.test(dataType) && scale === undefined) {
+        return { dataType, maxLength: Number(size) };
+    }
+    return { dataType, precision: Number(size), scale: scale === undefined ? undefined : Number(scale) };
+}
+
+/**
+ * Row counts recorded by ANALYZE, if it has been run; counting rows would mean a full scan
+ */
+function estimateRowCounts(db: Database.Database, schema: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    try {
+        const rows = db.prepare(`SELECT tbl, stat FROM ${quote(schema)}.sqlite_stat1`).all() as { tbl: string; stat: string }[];
+        for (const row of rows) {
+            if (!counts.has(row.tbl)) counts.set(row.tbl, parseInt(row.stat, 10));
+        }
+    } catch {
+        // sqlite_stat1 only exists after ANALYZE
+    }
+    return counts;
+}
+
+/**
+ * Render EXPLAIN QUERY PLAN rows as the tree the sqlite3 shell prints
+ */
+function formatQueryPlan(rows: QueryPlanRow[]): string {
+    const lines = ['QUERY PLAN'];
+    const render = (parent: number, prefix: string) => {
+        const children = rows.filter((row) => row.parent === parent);
+        children.forEach((row, i) => {
+            const last = i === children.length - 1;
+            lines.push(`${prefix}${last ? '`--' : '|--'}${row.detail}`);
+            render(row.id, prefix + (last ? '   ' : '|  '));
+        });
+    };
+    render(0, '');
+    return lines.join('\n');
+}
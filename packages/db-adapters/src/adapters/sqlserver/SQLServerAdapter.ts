@@ -4,14 +4,17 @@ import {
     TestResult,
     QueryRequest,
     QueryResult,
+    BulkInsertRequest,
+    Column,
     ExplainResult,
     Schema,
     Table,
     TableMetadata,
     Index,
-    DatabaseInfo
+    DatabaseInfo,
+    bindParameters
 } from '@bosdb/core';
-import { BaseDBAdapter } from '../../interfaces/IDBAdapter';
+import { BaseDBAdapter, TransactionSession } from '../../interfaces/IDBAdapter';
 
 /**
  * Microsoft SQL Server Database Adapter
@@ -53,6 +56,7 @@ export class SQLServerAdapter extends BaseDBAdapter {
 
     async disconnect(connectionId: string): Promise<void> {
         const pool = this.getConnection<any>(connectionId);
+        await this.releaseSessions(connectionId);
         await pool.close();
         this.connectionMap.delete(connectionId);
     }
@@ -221,10 +225,69 @@ export class SQLServerAdapter extends BaseDBAdapter {
     }
 
     async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.transactionId) {
+            return this.executeInTransaction(request);
+        }
+
         const pool = this.getConnection<any>(request.connectionId);
+        return this.runRequest(pool.request(), request);
+    }
+
+    protected async openTransaction(connectionId: string): Promise<TransactionSession> {
+        const pool = this.getConnection<any>(connectionId);
+        const transaction = pool.transaction();
+        await transaction.begin();
+
+        return {
+            execute: (request) => this.runRequest(transaction.request(), request),
+            bulkInsert: (request) => this.bulkLoad(transaction.request(), request),
+            commit: () => transaction.commit(),
+            rollback: () => transaction.rollback(),
+        };
+    }
+
+    protected async insertRows(request: BulkInsertRequest): Promise<number> {
+        const pool = this.getConnection<any>(request.connectionId);
+        return this.bulkLoad(pool.request(), request);
+    }
+
+    /**
+     * TDS bulk load through mssql's Table. Column types come from the described columns, since
+     * the bulk load stream declares them to the server.
+     */
+    private async bulkLoad(req: any, request: BulkInsertRequest): Promise<number> {
+        // @ts-ignore
+        const sql = await import('mssql');
+
+        const name = request.schema ? `[${request.schema}].[${request.table}]` : `[${request.table}]`;
+        const table = new sql.Table(name);
+        table.create = false;
+        for (const col of request.columns) {
+            table.columns.add(col.name, bulkType(sql, col), { nullable: col.nullable });
+        }
+        for (const row of request.rows) {
+            table.rows.add(...row);
+        }
+
+        try {
+            const result = await req.bulk(table);
+            return result.rowsAffected;
+        } catch (error: any) {
+            throw new Error(`Bulk insert failed: ${error.message}`);
+        }
+    }
+
+    private async runRequest(req: any, request: QueryRequest): Promise<QueryResult> {
         const start = Date.now();
+        let query = request.query;
+
+        if (request.params) {
+            const bound = bindParameters(request.query, request.params, 'at');
+            bound.values.forEach((value, i) => req.input(`p${i + 1}`, value));
+            query = bound.query;
+        }
 
-        const result = await pool.request().query(request.query);
+        const result = await this.trackQuery<any>(request, async () => req.cancel(), () => req.query(query));
 
         return {
             rows: result.recordset || [],
@@ -270,3 +333,35 @@ export class SQLServerAdapter extends BaseDBAdapter {
         };
     }
 }
+
+// mssql type for a column as information_schema describes it
+function bulkType(sql: any, col: Column): any {
+    const length = col.maxLength === -1 ? sql.MAX : col.maxLength || sql.MAX;
+    switch (col.dataType.toLowerCase()) {
+        case 'bit': return sql.Bit;
+        case 'tinyint': return sql.TinyInt;
+        case 'smallint': return sql.SmallInt;
+        case 'int': return sql.Int;
+        case 'bigint': return sql.BigInt;
+        case 'decimal':
+        case 'numeric': return sql.Decimal(col.precision ?? 18, col.scale ?? 0);
+        case 'money': return sql.Money;
+        case 'smallmoney': return sql.SmallMoney;
+        case 'float': return sql.Float;
+        case 'real': return sql.Real;
+        case 'date': return sql.Date;
+        case 'datetime': return sql.DateTime;
+        case 'smalldatetime': return sql.SmallDateTime;
+        case 'datetime2': return sql.DateTime2(7);
+        case 'datetimeoffset': return sql.DateTimeOffset(7);
+        case 'time': return sql.Time(7);
+        case 'uniqueidentifier': return sql.UniqueIdentifier;
+        case 'binary':
+        case 'varbinary':
+        case 'image': return sql.VarBinary(length);
+        case 'char':
+        case 'varchar':
+        case 'text': return sql.VarChar(length);
+        default: return sql.NVarChar(length);
+    }
+}
@@ -1,3 +1,5 @@
 export * from './interfaces/IDBAdapter';
 export * from './adapters/postgresql/PostgreSQLAdapter';
+export * from './adapters/redis/RedisAdapter';
+export * from './adapters/mongodb/mongo-shell';
 export * from './AdapterFactory';
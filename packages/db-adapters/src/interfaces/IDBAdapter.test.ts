@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { QueryRequest, QueryResult } from '@bosdb/core';
+import { CURSOR_IDLE_TIMEOUT } from '@bosdb/core';
+import { BaseDBAdapter, CursorSource } from './IDBAdapter';
+
+/**
+ * Adapter whose streamed queries read from an in-memory row source
+ */
+class TestAdapter extends BaseDBAdapter {
+    source: CursorSource | null = null;
+
+    async executeQuery(request: QueryRequest): Promise<QueryResult> {
+        if (request.cursor) return this.continueCursor(request);
+        return this.openCursor(request.connectionId, this.source!, request);
+    }
+
+    track<T>(request: QueryRequest, cancel: () => Promise<void>, execute: () => Promise<T>): Promise<T> {
+        return this.trackQuery(request, cancel, execute);
+    }
+
+    connect = notUsed;
+    disconnect = notUsed;
+    testConnection = notUsed;
+    listSchemas = notUsed;
+    listTables = notUsed;
+    describeTable = notUsed;
+    getIndexes = notUsed;
+    explainQuery = notUsed;
+    getVersion = notUsed;
+    getDatabaseInfo = notUsed;
+}
+
+async function notUsed(): Promise<never> {
+    throw new Error('not used in this test');
+}
+
+/**
+ * Rows 1..total, handed out in reads of at most `chunk` rows
+ */
+function rowSource(total: number, chunk: number = Infinity) {
+    let next = 1;
+    const source = {
+        reads: [] as number[],
+        closed: 0,
+        fields: [{ name: 'n', dataType: 'integer' }],
+        read: async (count: number) => {
+            source.reads.push(count);
+            const rows: any[] = [];
+            while (rows.length < Math.min(count, chunk) && next <= total) rows.push({ n: next++ });
+            return rows;
+        },
+        close: async () => {
+            source.closed++;
+        },
+    };
+    return source;
+}
+
+const request = (extra: Partial<QueryRequest> = {}): QueryRequest => ({ connectionId: 'conn-1', query: 'SELECT n FROM t', maxRows: 2, streamResults: true, ...extra });
+
+describe('BaseDBAdapter', () => {
+    describe('cursors', () => {
+        let adapter: TestAdapter;
+
+        beforeEach(() => {
+            adapter = new TestAdapter();
+        });
+
+        it('pages through a cursor with a continuation token and closes it after the last page', async () => {
+            const source = rowSource(5);
+            adapter.source = source;
+
+            const first = await adapter.executeQuery(request());
+            expect(first).toMatchObject({ rows: [{ n: 1 }, { n: 2 }], rowCount: 2, hasMore: true, fields: source.fields });
+            expect(first.cursor).toEqual(expect.any(String));
+
+            const second = await adapter.executeQuery(request({ cursor: first.cursor }));
+            expect(second).toMatchObject({ rows: [{ n: 3 }, { n: 4 }], hasMore: true, cursor: first.cursor });
+
+            const last = await adapter.executeQuery(request({ cursor: first.cursor }));
+            expect(last).toMatchObject({ rows: [{ n: 5 }], hasMore: false, cursor: undefined });
+            expect(source.closed).toBe(1);
+
+            await expect(adapter.executeQuery(request({ cursor: first.cursor }))).rejects.toThrow(`Cursor not found or expired: ${first.cursor}`);
+        });
+
+        it('reads one row ahead so an exact last page reports no more rows', async () => {
+            const source = rowSource(2);
+            adapter.source = source;
+
+            expect(await adapter.executeQuery(request())).toMatchObject({ rows: [{ n: 1 }, { n: 2 }], hasMore: false, cursor: undefined });
+            expect(source.closed).toBe(1);
+        });
+
+        it('keeps reading short batches until the page is full', async () => {
+            const source = rowSource(10, 1);
+            adapter.source = source;
+
+            const page = await adapter.executeQuery(request({ maxRows: 3 }));
+
+            expect(page.rows).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+            expect(source.reads).toEqual([4, 3, 2, 1]);
+        });
+
+        it('only lets the owning connection continue or close a cursor', async () => {
+            const source = rowSource(5);
+            adapter.source = source;
+            const { cursor } = await adapter.executeQuery(request());
+
+            await expect(adapter.executeQuery(request({ connectionId: 'conn-2', cursor }))).rejects.toThrow('Cursor not found or expired');
+            await adapter.closeCursor('conn-2', cursor!);
+            expect(source.closed).toBe(0);
+
+            await adapter.closeCursor('conn-1', cursor!);
+            expect(source.closed).toBe(1);
+        });
+
+        it('closes the cursor when a read fails', async () => {
+            const source = rowSource(5);
+            adapter.source = source;
+            const { cursor } = await adapter.executeQuery(request());
+            source.read = async () => {
+                throw new Error('connection lost');
+            };
+
+            await expect(adapter.executeQuery(request({ cursor }))).rejects.toThrow('connection lost');
+            expect(source.closed).toBe(1);
+        });
+
+        describe('when left unread', () => {
+            beforeEach(() => {
+                jest.useFakeTimers();
+            });
+
+            afterEach(() => {
+                jest.useRealTimers();
+            });
+
+            it('closes the cursor after the idle timeout', async () => {
+                const source = rowSource(5);
+                adapter.source = source;
+                await adapter.executeQuery(request());
+
+                jest.advanceTimersByTime(CURSOR_IDLE_TIMEOUT - 1);
+                expect(source.closed).toBe(0);
+                jest.advanceTimersByTime(1);
+                await Promise.resolve();
+                expect(source.closed).toBe(1);
+            });
+        });
+    });
+
+    describe('cancellation', () => {
+        let adapter: TestAdapter;
+
+        beforeEach(() => {
+            adapter = new TestAdapter();
+        });
+
+        it('cancels a statement through the callback it was tracked with, only for its connection', async () => {
+            let finish: () => void = () => undefined;
+            const cancel = jest.fn(async () => finish());
+            const running = adapter.track(request({ queryId: 'q1' }), cancel, () => new Promise<string>((resolve) => {
+                finish = () => resolve('cancelled');
+            }));
+
+            expect(await adapter.cancelQuery('conn-2', 'q1')).toBe(false);
+            expect(await adapter.cancelQuery('conn-1', 'q1')).toBe(true);
+            expect(cancel).toHaveBeenCalledTimes(1);
+            expect(await running).toBe('cancelled');
+        });
+
+        it('forgets a statement once it ends, also when it fails', async () => {
+            const cancel = jest.fn(async () => undefined);
+
+            await adapter.track(request({ queryId: 'q1' }), cancel, async () => 'done');
+            await expect(adapter.track(request({ queryId: 'q2' }), cancel, async () => {
+                throw new Error('syntax error');
+            })).rejects.toThrow('syntax error');
+
+            expect(await adapter.cancelQuery('conn-1', 'q1')).toBe(false);
+            expect(await adapter.cancelQuery('conn-1', 'q2')).toBe(false);
+            expect(cancel).not.toHaveBeenCalled();
+        });
+
+        it('does not track statements started without an ID', async () => {
+            expect(await adapter.track(request(), notUsed, async () => 'done')).toBe('done');
+        });
+    });
+});
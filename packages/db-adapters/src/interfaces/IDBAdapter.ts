@@ -4,6 +4,8 @@ import type {
     TestResult,
     QueryRequest,
     QueryResult,
+    QueryField,
+    BulkInsertRequest,
     ExplainResult,
     Schema,
     Table,
@@ -11,6 +13,47 @@ import type {
     Index,
     DatabaseInfo,
 } from '@bosdb/core';
+import { BosDBError, CURSOR_IDLE_TIMEOUT, DEFAULT_MAX_ROWS, TRANSACTION_IDLE_TIMEOUT } from '@bosdb/core';
+
+/**
+ * A server-side cursor an adapter keeps open between pages of a streamed query
+ */
+export interface CursorSource {
+    fields: QueryField[];
+    /** Read up to roughly `count` more rows; an empty array means the cursor is exhausted */
+    read(count: number): Promise<any[]>;
+    close(): Promise<void>;
+}
+
+/**
+ * A pinned session with an open transaction; every query sent with its ID runs on it
+ */
+export interface TransactionSession {
+    execute(request: QueryRequest): Promise<QueryResult>;
+    /** Native bulk insert on the session, for adapters that have one */
+    bulkInsert?(request: BulkInsertRequest): Promise<number>;
+    commit(): Promise<void>;
+    rollback(): Promise<void>;
+}
+
+interface OpenTransaction {
+    connectionId: string;
+    session: TransactionSession;
+    timer?: NodeJS.Timeout;
+}
+
+interface RunningQuery {
+    connectionId: string;
+    cancel: () => Promise<void>;
+}
+
+interface OpenCursor {
+    connectionId: string;
+    source: CursorSource;
+    buffer: any[];
+    exhausted: boolean;
+    timer?: NodeJS.Timeout;
+}
 
 /**
  * Core database adapter interface
@@ -77,6 +120,58 @@ export interface IDBAdapter {
      */
     executeQuery(request: QueryRequest): Promise<QueryResult>;
 
+    /**
+     * Release a cursor opened with streamResults before all of its pages were read
+     * @param connectionId Connection ID
+     * @param cursor Continuation token from QueryResult.cursor
+     */
+    closeCursor(connectionId: string, cursor: string): Promise<void>;
+
+    /**
+     * Interrupt a statement started with QueryRequest.queryId
+     * @param connectionId Connection ID
+     * @param queryId ID the query was started with
+     * @returns false if no such query is running (or the adapter can't cancel)
+     */
+    cancelQuery(connectionId: string, queryId: string): Promise<boolean>;
+
+    /**
+     * Start a transaction on a pinned session; pass the returned ID as QueryRequest.transactionId
+     * @param connectionId Connection ID
+     * @returns Transaction ID
+     */
+    beginTransaction(connectionId: string): Promise<string>;
+
+    /**
+     * Commit a transaction and release its session
+     * @param connectionId Connection ID
+     * @param transactionId ID returned by beginTransaction
+     */
+    commit(connectionId: string, transactionId: string): Promise<void>;
+
+    /**
+     * Roll back a transaction and release its session
+     * @param connectionId Connection ID
+     * @param transactionId ID returned by beginTransaction
+     */
+    rollback(connectionId: string, transactionId: string): Promise<void>;
+
+    /**
+     * Whether a transaction is still open, i.e. not committed, rolled back or expired after TRANSACTION_IDLE_TIMEOUT
+     * @param connectionId Connection ID
+     * @param transactionId ID returned by beginTransaction
+     */
+    hasTransaction(connectionId: string, transactionId: string): boolean;
+
+    /**
+     * Insert many rows through the database's native bulk path (COPY, LOAD DATA, TDS bulk load, insertMany)
+     * @param request Target table, its columns and the rows in column order
+     * @returns Number of rows inserted
+     * @throws BosDBError with code BULK_INSERT_UNSUPPORTED if the adapter has no bulk path. If rows were
+     * kept before a failure (e.g. MongoDB outside a transaction), the error's details.inserted counts them.
+     */
+    bulkInsert(request: BulkInsertRequest): Promise<number>;
+
     /**
      * Get query execution plan (for supported databases)
      * @param connectionId Connection ID
@@ -105,6 +200,9 @@ export interface IDBAdapter {
  */
 export abstract class BaseDBAdapter implements IDBAdapter {
     protected connectionMap: Map<string, any> = new Map();
+    private cursors: Map<string, OpenCursor> = new Map();
+    private runningQueries: Map<string, RunningQuery> = new Map();
+    private transactions: Map<string, OpenTransaction> = new Map();
 
     abstract connect(config: ConnectionConfig): Promise<ConnectionResult>;
     abstract disconnect(connectionId: string): Promise<void>;
@@ -146,4 +244,235 @@ export abstract class BaseDBAdapter implements IDBAdapter {
     protected hasConnection(connectionId: string): boolean {
         return this.connectionMap.has(connectionId);
     }
+
+    // ============ Cancellation ============
+
+    async cancelQuery(connectionId: string, queryId: string): Promise<boolean> {
+        const running = this.runningQueries.get(queryId);
+        if (!running || running.connectionId !== connectionId) return false;
+
+        await running.cancel();
+        return true;
+    }
+
+    /**
+     * Run `execute` registered under request.queryId, so cancelQuery() can reach it through `cancel`
+     */
+    protected async trackQuery<T>(request: QueryRequest, cancel: () => Promise<void>, execute: () => Promise<T>): Promise<T> {
+        const { queryId } = request;
+        if (!queryId) return execute();
+
+        this.runningQueries.set(queryId, { connectionId: request.connectionId, cancel });
+        try {
+            return await execute();
+        } finally {
+            this.runningQueries.delete(queryId);
+        }
+    }
+
+    // ============ Transactions ============
+
+    async beginTransaction(connectionId: string): Promise<string> {
+        const session = await this.openTransaction(connectionId);
+        const transactionId = this.generateConnectionId('tx');
+
+        this.transactions.set(transactionId, { connectionId, session });
+        this.armTransactionTimer(transactionId);
+        return transactionId;
+    }
+
+    async commit(connectionId: string, transactionId: string): Promise<void> {
+        const open = this.takeTransaction(connectionId, transactionId);
+        await open.session.commit();
+    }
+
+    async rollback(connectionId: string, transactionId: string): Promise<void> {
+        const open = this.takeTransaction(connectionId, transactionId);
+        await open.session.rollback();
+    }
+
+    hasTransaction(connectionId: string, transactionId: string): boolean {
+        return this.transactions.get(transactionId)?.connectionId === connectionId;
+    }
+
+    /**
+     * Pin a session and start a transaction on it. Adapters that support transactions override this;
+     * callers can fall back to autocommit on the TRANSACTIONS_UNSUPPORTED code.
+     */
+    protected async openTransaction(_connectionId: string): Promise<TransactionSession> {
+        throw new BosDBError('Transactions are not supported for this database', 'TRANSACTIONS_UNSUPPORTED');
+    }
+
+    /**
+     * Run a request on the session of its transaction
+     */
+    protected async executeInTransaction(request: QueryRequest): Promise<QueryResult> {
+        return this.withSession(request.connectionId, request.transactionId, session => session.execute(request));
+    }
+
+    /**
+     * Close cursors and roll back transactions of a connection, e.g. before its pool is shut down
+     */
+    protected async releaseSessions(connectionId: string): Promise<void> {
+        await this.closeCursors(connectionId);
+
+        const open = Array.from(this.transactions.entries())
+            .filter(([, transaction]) => transaction.connectionId === connectionId)
+            .map(([transactionId]) => transactionId);
+
+        await Promise.all(open.map(transactionId =>
+            this.rollback(connectionId, transactionId).catch(() => undefined)
+        ));
+    }
+
+    private async withSession<T>(
+        connectionId: string,
+        transactionId: string | undefined,
+        run: (session: TransactionSession) => Promise<T>
+    ): Promise<T> {
+        const open = transactionId ? this.transactions.get(transactionId) : undefined;
+        if (!open || open.connectionId !== connectionId) {
+            throw new Error(`Transaction not found or expired: ${transactionId}`);
+        }
+
+        clearTimeout(open.timer);
+        try {
+            return await run(open.session);
+        } finally {
+            this.armTransactionTimer(transactionId!);
+        }
+    }
+
+    private takeTransaction(connectionId: string, transactionId: string): OpenTransaction {
+        const open = this.transactions.get(transactionId);
+        if (!open || open.connectionId !== connectionId) {
+            throw new Error(`Transaction not found or expired: ${transactionId}`);
+        }
+
+        this.transactions.delete(transactionId);
+        clearTimeout(open.timer);
+        return open;
+    }
+
+    // Abandoned transactions hold locks, so they are rolled back after TRANSACTION_IDLE_TIMEOUT
+    private armTransactionTimer(transactionId: string): void {
+        const open = this.transactions.get(transactionId);
+        if (!open) return;
+
+        open.timer = setTimeout(() => {
+            this.rollback(open.connectionId, transactionId).catch(() => undefined);
+        }, TRANSACTION_IDLE_TIMEOUT);
+        open.timer.unref?.();
+    }
+
+    // ============ Bulk insert ============
+
+    async bulkInsert(request: BulkInsertRequest): Promise<number> {
+        if (!request.transactionId) {
+            return this.insertRows(request);
+        }
+        return this.withSession(request.connectionId, request.transactionId, session => {
+            if (!session.bulkInsert) {
+                throw new BosDBError('Bulk insert is not supported for this database', 'BULK_INSERT_UNSUPPORTED');
+            }
+            return session.bulkInsert(request);
+        });
+    }
+
+    /**
+     * Bulk insert outside a transaction. Adapters with a native bulk path override this (and
+     * TransactionSession.bulkInsert); callers can fall back to INSERTs on the BULK_INSERT_UNSUPPORTED code.
+     */
+    protected async insertRows(_request: BulkInsertRequest): Promise<number> {
+        throw new BosDBError('Bulk insert is not supported for this database', 'BULK_INSERT_UNSUPPORTED');
+    }
+
+    // ============ Cursors ============
+
+    async closeCursor(connectionId: string, cursor: string): Promise<void> {
+        const open = this.cursors.get(cursor);
+        if (!open || open.connectionId !== connectionId) return;
+
+        this.cursors.delete(cursor);
+        clearTimeout(open.timer);
+        try {
+            await open.source.close();
+        } catch {
+            // The server may already have dropped it
+        }
+    }
+
+    /**
+     * Register a cursor and return its first page. Cursors left unread for
+     * CURSOR_IDLE_TIMEOUT are closed so they don't pin server connections.
+     */
+    protected async openCursor(
+        connectionId: string,
+        source: CursorSource,
+        request: QueryRequest,
+        startTime: number = Date.now()
+    ): Promise<QueryResult> {
+        const token = this.generateConnectionId('cursor');
+        this.cursors.set(token, { connectionId, source, buffer: [], exhausted: false });
+        return this.readCursorPage(token, request.maxRows || DEFAULT_MAX_ROWS, startTime);
+    }
+
+    /**
+     * Next page of a cursor opened by an earlier streamed query
+     */
+    protected async continueCursor(request: QueryRequest): Promise<QueryResult> {
+        const open = request.cursor ? this.cursors.get(request.cursor) : undefined;
+        if (!open || open.connectionId !== request.connectionId) {
+            throw new Error(`Cursor not found or expired: ${request.cursor}`);
+        }
+        return this.readCursorPage(request.cursor!, request.maxRows || DEFAULT_MAX_ROWS, Date.now());
+    }
+
+    private async closeCursors(connectionId: string): Promise<void> {
+        const tokens = Array.from(this.cursors.entries())
+            .filter(([, open]) => open.connectionId === connectionId)
+            .map(([token]) => token);
+
+        await Promise.all(tokens.map(token => this.closeCursor(connectionId, token)));
+    }
+
+    private async readCursorPage(token: string, maxRows: number, startTime: number): Promise<QueryResult> {
+        const open = this.cursors.get(token)!;
+        clearTimeout(open.timer);
+
+        // Read one row past the page so hasMore is known without an empty trailing page
+        const rows = open.buffer;
+        try {
+            while (rows.length <= maxRows && !open.exhausted) {
+                const batch = await open.source.read(maxRows + 1 - rows.length);
+                if (batch.length === 0) {
+                    open.exhausted = true;
+                }
+                rows.push(...batch);
+            }
+        } catch (error) {
+            await this.closeCursor(open.connectionId, token);
+            throw error;
+        }
+
+        const page = rows.slice(0, maxRows);
+        open.buffer = rows.slice(maxRows);
+        const hasMore = open.buffer.length > 0;
+
+        if (hasMore) {
+            open.timer = setTimeout(() => this.closeCursor(open.connectionId, token), CURSOR_IDLE_TIMEOUT);
+            open.timer.unref?.();
+        } else {
+            await this.closeCursor(open.connectionId, token);
+        }
+
+        return {
+            rows: page,
+            fields: open.source.fields,
+            rowCount: page.length,
+            executionTime: Date.now() - startTime,
+            hasMore,
+            cursor: hasMore ? token : undefined,
+        };
+    }
 }
@@ -0,0 +1,37 @@
+import { describe, expect, it } from '@jest/globals';
+import { isReadOnlyQuery, validateQuery } from './sql-guard';
+
+describe('validateQuery', () => {
+    it('accepts single statements, including DDL', () => {
+        expect(validateQuery('SELECT * FROM users WHERE id = 1')).toEqual({ safe: true });
+        expect(validateQuery('DROP TABLE users')).toEqual({ safe: true });
+        expect(validateQuery('ALTER TABLE users ADD COLUMN age integer')).toEqual({ safe: true });
+    });
+
+    it('blocks command execution and file access', () => {
+        expect(validateQuery("EXEC xp_cmdshell 'dir'")).toMatchObject({ safe: false, severity: 'high' });
+        expect(validateQuery("SELECT * FROM t INTO OUTFILE '/tmp/x'")).toMatchObject({ safe: false, severity: 'high' });
+    });
+
+    it('blocks destructive statements appended to another one', () => {
+        const result = validateQuery("SELECT * FROM users WHERE name = 'a'; DROP TABLE users");
+        expect(result.safe).toBe(false);
+        expect(result.patterns).toContain('DROP in multi-statement');
+    });
+
+    it('ignores patterns inside comments', () => {
+        expect(validateQuery('SELECT 1 -- ; DROP TABLE users')).toEqual({ safe: true });
+    });
+});
+
+describe('isReadOnlyQuery', () => {
+    it.each(['SELECT 1', '  with t as (select 1) select * from t', 'EXPLAIN SELECT 1', 'SHOW TABLES', 'DESCRIBE users'])(
+        'allows %s',
+        (query) => expect(isReadOnlyQuery(query)).toBe(true)
+    );
+
+    it.each(['INSERT INTO t VALUES (1)', 'UPDATE t SET a = 1', 'DELETE FROM t', 'DROP TABLE t', 'CREATE TABLE t (a int)'])(
+        'refuses %s',
+        (query) => expect(isReadOnlyQuery(query)).toBe(false)
+    );
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BisectService } from './BisectService';
+import { FileStorage } from '../storage/FileStorage';
+import type { BisectSession, Result, SuccessResult } from './types';
+
+let dir: string;
+let storage: FileStorage;
+
+// c0 - c1 - ... - c8, one commit per minute
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bosdb-bisect-'));
+    storage = new FileStorage(dir);
+    await storage.initialize();
+
+    for (let i = 0; i <= 8; i++) {
+        const timestamp = new Date(Date.UTC(2024, 0, 1, 0, i));
+        await storage.saveCommit({
+            id: `c${i}`,
+            message: `c${i}`,
+            author: { name: 'Ada', email: 'ada@example.com', timestamp },
+            timestamp,
+            parentIds: i > 0 ? [`c${i - 1}`] : [],
+            treeId: `c${i}`,
+            changes: [],
+        });
+    }
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+const session = (result: Result<BisectSession>): BisectSession => {
+    expect(result.success).toBe(true);
+    return (result as SuccessResult<BisectSession>).data;
+};
+
+/**
+ * Run a bisect where every commit from `culprit` on is bad, returning the tested commits and the result
+ */
+async function bisect(service: BisectService, culprit: number, skip: string[] = []): Promise<{ tested: string[]; found: BisectSession }> {
+    let current = session(await service.start('c0', 'c8'));
+    const tested: string[] = [];
+
+    while (current.status === 'ACTIVE') {
+        tested.push(current.currentCommit);
+        const index = Number(current.currentCommit.slice(1));
+        current = session(skip.includes(current.currentCommit)
+            ? await service.skip()
+            : index >= culprit ? await service.markBad() : await service.markGood());
+    }
+
+    return { tested, found: current };
+}
+
+describe('BisectService', () => {
+    it.each([1, 4, 8])('finds c%i as the first bad commit in at most three steps', async (culprit) => {
+        const { tested, found } = await bisect(new BisectService(storage), culprit);
+
+        expect(found).toMatchObject({ status: 'FOUND', firstBadCommit: `c${culprit}` });
+        expect(tested.length).toBeLessThanOrEqual(3);
+    });
+
+    it('starts at the middle of the range and reports the steps left', async () => {
+        const service = new BisectService(storage);
+        const started = session(await service.start('c0', 'c8'));
+
+        expect(started.remainingCommits).toEqual(['c1', 'c2', 'c3', 'c4', 'c5', 'c6', 'c7', 'c8']);
+        expect(started.currentCommit).toBe('c4');
+        expect(service.getRemainingSteps()).toBe(3);
+    });
+
+    it('still finds the culprit around skipped commits', async () => {
+        const { tested, found } = await bisect(new BisectService(storage), 5, ['c4']);
+
+        expect(tested[0]).toBe('c4');
+        expect(found.firstBadCommit).toBe('c5');
+    });
+
+    it('is done immediately when bad directly follows good', async () => {
+        const found = session(await new BisectService(storage).start('c3', 'c4'));
+
+        expect(found).toMatchObject({ status: 'FOUND', firstBadCommit: 'c4' });
+    });
+
+    it('refuses a good commit that is not an ancestor of the bad one', async () => {
+        expect(await new BisectService(storage).start('c5', 'c2')).toEqual({ success: false, error: 'Commit c5 is not an ancestor of c2' });
+    });
+
+    it('allows one session at a time until it is reset', async () => {
+        const service = new BisectService(storage);
+        await service.start('c0', 'c8');
+
+        expect(await service.start('c0', 'c8')).toEqual({ success: false, error: 'Bisect session already active' });
+        await service.reset();
+        expect((await service.start('c0', 'c8')).success).toBe(true);
+    });
+});
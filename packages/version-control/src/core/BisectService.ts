@@ -26,25 +26,33 @@ export class BisectService {
                 return { success: false, error: 'Bisect session already active' };
             }
 
-            // Get all commits between good and bad
+            // Candidates are the commits after good up to and including bad, oldest first
             const commits = await this.getCommitRange(goodCommitId, badCommitId);
 
+            if (!commits) {
+                return { success: false, error: `Commit ${goodCommitId} is not an ancestor of ${badCommitId}` };
+            }
+
             if (commits.length === 0) {
                 return { success: false, error: 'No commits between good and bad' };
             }
 
-            // Start in the middle
-            const middleIndex = Math.floor(commits.length / 2);
-
-            this.currentSession = {
+            const session: BisectSession = {
                 id: this.generateBisectId(),
                 goodCommits: [goodCommitId],
                 badCommits: [badCommitId],
-                currentCommit: commits[middleIndex].id,
+                currentCommit: commits[this.midpoint(commits.length)].id,
                 remainingCommits: commits.map((c) => c.id),
                 status: 'ACTIVE',
             };
 
+            if (commits.length === 1) {
+                // Bad directly follows good
+                return { success: true, data: { ...session, status: 'FOUND', firstBadCommit: badCommitId } };
+            }
+
+            this.currentSession = session;
+
             return { success: true, data: this.currentSession };
         } catch (error) {
             return { success: false, error: `Bisect start failed: ${error}` };
@@ -142,38 +150,40 @@ export class BisectService {
             this.currentSession.badCommits
         );
 
-        if (remaining.length === 0) {
-            // Found the first bad commit
+        if (remaining.length <= 1) {
+            // Only the culprit is left (or every candidate was skipped)
             this.currentSession.status = 'FOUND';
-            this.currentSession.firstBadCommit = this.currentSession.badCommits[
+            this.currentSession.firstBadCommit = remaining[0] || this.currentSession.badCommits[
                 this.currentSession.badCommits.length - 1
             ];
-            const session = { ...this.currentSession };
-            this.currentSession = null;
-            return { success: true, data: session };
-        }
-
-        if (remaining.length === 1) {
-            // Only one commit left - this is the culprit
-            this.currentSession.status = 'FOUND';
-            this.currentSession.firstBadCommit = remaining[0];
+            this.currentSession.remainingCommits = remaining;
             const session = { ...this.currentSession };
             this.currentSession = null;
             return { success: true, data: session };
         }
 
         // Continue bisecting - choose middle commit
-        const middleIndex = Math.floor(remaining.length / 2);
-        this.currentSession.currentCommit = remaining[middleIndex];
+        this.currentSession.currentCommit = remaining[this.midpoint(remaining.length)];
         this.currentSession.remainingCommits = remaining;
 
         return { success: true, data: this.currentSession };
     }
 
+    /**
+     * Test point for a candidate list whose last entry is known bad
+     */
+    private midpoint(length: number): number {
+        return Math.floor((length - 1) / 2);
+    }
+
+    /**
+     * First-parent commits after `goodCommitId` up to `badCommitId`, oldest first.
+     * Null when good is not on bad's first-parent history.
+     */
     private async getCommitRange(
         goodCommitId: string,
         badCommitId: string
-    ): Promise<Commit[]> {
+    ): Promise<Commit[] | null> {
         const commits: Commit[] = [];
         let currentId = badCommitId;
 
@@ -184,18 +194,31 @@ export class BisectService {
             currentId = commit.parentIds[0] || '';
         }
 
+        if (currentId !== goodCommitId) {
+            return null;
+        }
+
         return commits.reverse();
     }
 
+    /**
+     * Narrow the ordered candidates to those after the newest good commit
+     * and up to the oldest bad commit
+     */
     private async filterCommits(
         allCommits: string[],
         goodCommits: string[],
         badCommits: string[]
     ): Promise<string[]> {
-        // Simplified filtering - in production would use commit graph analysis
-        return allCommits.filter(
-            (id) => !goodCommits.includes(id) && !badCommits.includes(id)
-        );
+        let start = 0;
+        let end = allCommits.length;
+
+        allCommits.forEach((id, index) => {
+            if (goodCommits.includes(id)) start = Math.max(start, index + 1);
+            if (badCommits.includes(id)) end = Math.min(end, index + 1);
+        });
+
+        return allCommits.slice(start, end);
     }
 
     private generateBisectId(): string {
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BlameService } from './BlameService';
+import { FileStorage } from '../storage/FileStorage';
+import type { ColumnDefinition, DatabaseSnapshot } from './types';
+
+let dir: string;
+let storage: FileStorage;
+
+const column = (name: string, type: string = 'integer'): ColumnDefinition => ({ name, type, nullable: false });
+
+const users = (...columns: ColumnDefinition[]): DatabaseSnapshot => ({
+    schema: { tables: { users: { name: 'users', columns, primaryKey: ['id'] } } },
+    data: { tables: {} },
+    timestamp: new Date(0),
+});
+
+async function commit(id: string, author: string, parent: string, snapshot: DatabaseSnapshot | null): Promise<void> {
+    const timestamp = new Date(Date.UTC(2024, 0, Number(id.slice(1))));
+    await storage.saveCommit({
+        id,
+        message: id,
+        author: { name: author, email: `${author.toLowerCase()}@example.com`, timestamp },
+        timestamp,
+        parentIds: parent ? [parent] : [],
+        treeId: id,
+        changes: [],
+    });
+    if (snapshot) await storage.saveSnapshot(id, snapshot);
+}
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bosdb-blame-'));
+    storage = new FileStorage(dir);
+    await storage.initialize();
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('BlameService.blameColumns', () => {
+    it('names the commit that last added or changed each column, in column order', async () => {
+        await commit('c1', 'Ada', '', users(column('id'), column('email', 'text')));
+        await commit('c2', 'Bob', 'c1', users(column('id'), column('email', 'text'), column('age')));
+        await commit('c3', 'Cy', 'c2', users(column('id'), column('email', 'varchar(255)'), column('age')));
+
+        const result = await new BlameService(storage).blameColumns('users', 'c3');
+
+        expect(result.success).toBe(true);
+        if (!result.success) return;
+        expect(result.data.map((b) => [b.column, b.operation, b.commit.id, b.author.name, b.definition.type])).toEqual([
+            ['id', 'ADD', 'c1', 'Ada', 'integer'],
+            ['email', 'MODIFY', 'c3', 'Cy', 'varchar(255)'],
+            ['age', 'ADD', 'c2', 'Bob', 'integer'],
+        ]);
+    });
+
+    it('leaves columns unblamed when the history before them has no snapshots', async () => {
+        await commit('c1', 'Ada', '', null);
+        await commit('c2', 'Bob', 'c1', users(column('id'), column('age')));
+
+        const result = await new BlameService(storage).blameColumns('users', 'c2');
+
+        expect(result.success && result.data).toEqual([]);
+    });
+
+    it('reports unknown commits and tables', async () => {
+        await commit('c1', 'Ada', '', users(column('id')));
+        const blame = new BlameService(storage);
+
+        expect(await blame.blameColumns('users', 'nope')).toEqual({ success: false, error: 'Commit nope not found' });
+        expect(await blame.blameColumns('orders', 'c1')).toEqual({ success: false, error: 'Table orders not found in commit c1' });
+    });
+});
@@ -1,18 +1,23 @@
 import {
     BlameInfo,
     BlameLine,
+    ColumnBlame,
+    ColumnChange,
     Commit,
     DatabaseSnapshot,
     VersionControlStorage,
     BlameOptions,
     Result,
 } from './types';
+import { DiffService } from './DiffService';
+import { MergeService } from './MergeService';
 
 /**
  * Blame Service - Track who changed each part of the database
  */
 export class BlameService {
     private storage: VersionControlStorage;
+    private diffService = new DiffService({ includeData: false });
 
     constructor(storage: VersionControlStorage) {
         this.storage = storage;
@@ -67,6 +72,59 @@ export class BlameService {
         }
     }
 
+    /**
+     * For every column of a table at `commitId`, the commit that last added or modified it.
+     * Column history comes from comparing each commit's snapshot with its parent's.
+     */
+    async blameColumns(tableName: string, commitId: string): Promise<Result<ColumnBlame[]>> {
+        try {
+            const head = await this.storage.getCommit(commitId);
+            if (!head) {
+                return { success: false, error: `Commit ${commitId} not found` };
+            }
+
+            const headSnapshot = await this.storage.getSnapshot(head.treeId);
+            const table = headSnapshot?.schema?.tables?.[tableName];
+            if (!table) {
+                return { success: false, error: `Table ${tableName} not found in commit ${commitId}` };
+            }
+
+            const pending = new Set(table.columns.map((c) => c.name));
+            const blamed = new Map<string, ColumnBlame>();
+            let currentId = commitId;
+
+            // Walk back from the commit; the first change seen for a column is its latest one
+            while (currentId && pending.size > 0) {
+                const commit = await this.storage.getCommit(currentId);
+                if (!commit) break;
+
+                for (const cc of await this.getSnapshotColumnChanges(commit, tableName)) {
+                    if (cc.operation === 'DROP' || !pending.has(cc.columnName)) continue;
+                    pending.delete(cc.columnName);
+                    blamed.set(cc.columnName, {
+                        column: cc.columnName,
+                        definition: cc.newDefinition!,
+                        operation: cc.operation,
+                        commit,
+                        author: commit.author,
+                        age: this.ageInDays(commit),
+                    });
+                }
+
+                currentId = commit.parentIds[0] || '';
+            }
+
+            // Keep the table's column order; columns older than the recorded history stay unblamed
+            const columns = table.columns
+                .map((c) => blamed.get(c.name))
+                .filter((b): b is ColumnBlame => !!b);
+
+            return { success: true, data: columns };
+        } catch (error) {
+            return { success: false, error: `Blame failed: ${error}` };
+        }
+    }
+
     private async getCommitsAffectingTable(
         tableName: string,
         commitId: string
@@ -108,7 +166,7 @@ export class BlameService {
             if (!commit) break;
 
             // Check if this commit affects the column
-            const affectsColumn = commit.changes.some((change) => {
+            let affectsColumn = commit.changes.some((change) => {
                 if (change.type === 'SCHEMA' && change.target === tableName) {
                     const schemaChange = change as any;
                     return schemaChange.columnChanges?.some(
@@ -118,6 +176,12 @@ export class BlameService {
                 return false;
             });
 
+            // Changes recorded as plain SQL carry no column details; fall back to the snapshots
+            if (!affectsColumn) {
+                const columnChanges = await this.getSnapshotColumnChanges(commit, tableName);
+                affectsColumn = columnChanges.some((cc) => cc.columnName === columnName);
+            }
+
             if (affectsColumn) {
                 commits.push(commit);
             }
@@ -136,9 +200,7 @@ export class BlameService {
 
         for (let i = 0; i < commits.length; i++) {
             const commit = commits[i];
-            const age = Math.floor(
-                (Date.now() - commit.timestamp.getTime()) / (1000 * 60 * 60 * 24)
-            );
+            const age = this.ageInDays(commit);
 
             const line: BlameLine = {
                 lineNumber: i + 1,
@@ -154,6 +216,29 @@ export class BlameService {
         return lines;
     }
 
+    /**
+     * Column changes a commit made to a table, from its snapshot versus its first parent's.
+     * Commits without a stored snapshot report nothing.
+     */
+    private async getSnapshotColumnChanges(commit: Commit, tableName: string): Promise<ColumnChange[]> {
+        const snapshot = await this.storage.getSnapshot(commit.treeId);
+        if (!snapshot) return [];
+
+        const parent = commit.parentIds[0] ? await this.storage.getCommit(commit.parentIds[0]) : null;
+        const parentSnapshot = parent ? await this.storage.getSnapshot(parent.treeId) : null;
+        if (parent && !parentSnapshot) return [];
+
+        const diff = this.diffService.compute(parentSnapshot || MergeService.emptySnapshot(), snapshot);
+
+        return diff.schemaChanges.find((c) => c.tableName === tableName)?.columnChanges || [];
+    }
+
+    private ageInDays(commit: Commit): number {
+        return Math.floor(
+            (Date.now() - new Date(commit.timestamp).getTime()) / (1000 * 60 * 60 * 24)
+        );
+    }
+
     /**
      * Get summary of who contributed to a table
      */
@@ -0,0 +1,172 @@
+import { describe, expect, it } from '@jest/globals';
+import { DiffService } from './DiffService';
+import type { ColumnDefinition, DatabaseSnapshot, LineDiffOp, SchemaDefinition, TableDefinition } from './types';
+
+const column = (name: string, type: string = 'integer', nullable: boolean = false): ColumnDefinition => ({ name, type, nullable });
+
+function snapshot(
+    tables: TableDefinition[],
+    rows: Record<string, Record<string, any>[]> = {},
+    extra: Partial<SchemaDefinition> = {}
+): DatabaseSnapshot {
+    return {
+        schema: { tables: Object.fromEntries(tables.map((t) => [t.name, t])), ...extra },
+        data: { tables: Object.fromEntries(Object.entries(rows).map(([name, r]) => [name, { rows: r }])) },
+        timestamp: new Date(0),
+    };
+}
+
+const users = (...extra: ColumnDefinition[]): TableDefinition => ({
+    name: 'users',
+    columns: [column('id'), column('email', 'text'), ...extra],
+    primaryKey: ['id'],
+});
+
+const render = (ops: LineDiffOp[]) => ops.map((op) => `${op.type === 'INSERT' ? '+' : op.type === 'DELETE' ? '-' : ' '}${op.line}`);
+
+describe('DiffService', () => {
+    describe('compute', () => {
+        it('reports created, dropped and altered tables with their column changes', () => {
+            const orders: TableDefinition = { name: 'orders', columns: [column('id')], primaryKey: ['id'] };
+            const audit: TableDefinition = { name: 'audit', columns: [column('id'), column('at', 'timestamp')] };
+            const from = snapshot([users(column('age')), orders]);
+            const to = snapshot([{ ...users(), columns: [column('id'), column('age', 'bigint'), column('name', 'text')] }, audit]);
+
+            const diff = new DiffService().compute(from, to, 'c1', 'c2');
+
+            expect(diff).toMatchObject({ fromCommitId: 'c1', toCommitId: 'c2' });
+            expect(diff.schemaChanges.map((c) => [c.tableName, c.operation, c.tableChange])).toEqual([
+                ['users', 'ALTER', undefined],
+                ['orders', 'DROP', 'DROP'],
+                ['audit', 'CREATE', 'CREATE'],
+            ]);
+            expect(diff.schemaChanges[0].columnChanges!.map((cc) => `${cc.operation} ${cc.columnName}`)).toEqual([
+                'MODIFY age',
+                'ADD name',
+                'DROP email',
+            ]);
+            expect(diff.schemaChanges[0].description).toBe('Alter table users: modify age, add name, drop email');
+        });
+
+        it('matches rows by primary key and reports only the columns that changed', () => {
+            const from = snapshot([users()], { users: [{ id: 1, email: 'a@x' }, { id: 2, email: 'b@x' }] });
+            const to = snapshot([users()], { users: [{ id: 2, email: 'b@y' }, { id: 3, email: 'c@x' }] });
+
+            const { dataChanges, summary } = new DiffService().compute(from, to);
+
+            expect(dataChanges.map((c) => [c.operation, c.rowId])).toEqual([
+                ['UPDATE', 'id=2'],
+                ['INSERT', 'id=3'],
+                ['DELETE', 'id=1'],
+            ]);
+            expect(dataChanges[0]).toMatchObject({
+                oldValues: { id: 2, email: 'b@x' },
+                newValues: { id: 2, email: 'b@y' },
+                description: 'Update email of row id=2 in users',
+            });
+            expect(summary).toEqual({ filesChanged: 1, insertions: 1, deletions: 1, modifications: 1 });
+        });
+
+        it('compares keyless rows as a multiset, so duplicates are counted', () => {
+            const log: TableDefinition = { name: 'log', columns: [column('msg', 'text')] };
+            const from = snapshot([log], { log: [{ msg: 'a' }, { msg: 'a' }, { msg: 'b' }] });
+            const to = snapshot([log], { log: [{ msg: 'b' }, { msg: 'a' }, { msg: 'c' }] });
+
+            const { dataChanges } = new DiffService().compute(from, to);
+
+            expect(dataChanges.map((c) => [c.operation, c.newValues ?? c.oldValues])).toEqual([
+                ['INSERT', { msg: 'c' }],
+                ['DELETE', { msg: 'a' }],
+            ]);
+        });
+
+        it('skips the row walk when both sides carry the same checksum', () => {
+            const from = snapshot([users()], { users: [{ id: 1, email: 'a@x' }] });
+            const to = snapshot([users()], { users: [{ id: 1, email: 'changed' }] });
+            from.data.tables.users.checksum = 'same';
+            to.data.tables.users.checksum = 'same';
+
+            expect(new DiffService().compute(from, to).dataChanges).toEqual([]);
+        });
+
+        it('leaves data out when includeData is off', () => {
+            const from = snapshot([users()], { users: [{ id: 1, email: 'a@x' }] });
+            const to = snapshot([users()], { users: [] });
+
+            expect(new DiffService({ includeData: false }).compute(from, to).dataChanges).toEqual([]);
+        });
+
+        it('diffs view definitions and ignores whitespace-only edits when asked to', () => {
+            const from = snapshot([], {}, { views: { v: { name: 'v', definition: 'SELECT id\nFROM users' } } });
+            const to = snapshot([], {}, { views: { v: { name: 'v', definition: 'SELECT  id\nFROM users\nWHERE active' } } });
+
+            const [change] = new DiffService().compute(from, to).viewChanges;
+            expect(change).toMatchObject({ operation: 'ALTER', viewName: 'v' });
+            expect(change.unifiedDiff).toBe([
+                '--- a/v',
+                '+++ b/v',
+                '@@ -1,2 +1,3 @@',
+                '-SELECT id',
+                '+SELECT  id',
+                ' FROM users',
+                '+WHERE active',
+            ].join('\n'));
+
+            const reformatted = snapshot([], {}, { views: { v: { name: 'v', definition: 'SELECT   id\n FROM users ' } } });
+            expect(new DiffService({ ignoreWhitespace: true }).compute(from, reformatted).viewChanges).toEqual([]);
+        });
+
+        it('reports index and primary key changes', () => {
+            const index = { name: 'users_email', table: 'users', columns: ['email'], unique: false };
+            const from = snapshot([users()], {}, { indexes: { users_email: index } });
+            const to = snapshot([{ ...users(), primaryKey: ['id', 'email'] }], {}, { indexes: { users_email: { ...index, unique: true } } });
+
+            const diff = new DiffService().compute(from, to);
+
+            expect(diff.indexChanges.map((c) => c.description)).toEqual(['Alter unique index users_email on users (email)']);
+            expect(diff.constraintChanges.map((c) => c.operation)).toEqual(['ALTER']);
+        });
+    });
+
+    describe('line diff', () => {
+        it('produces a minimal edit script with Myers', () => {
+            const ops = new DiffService().diffLines(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+
+            expect(ops.filter((op) => op.type !== 'EQUAL')).toHaveLength(5);
+            expect(ops.filter((op) => op.type !== 'INSERT').map((op) => op.line)).toEqual(['a', 'b', 'c', 'a', 'b', 'b', 'a']);
+            expect(ops.filter((op) => op.type !== 'DELETE').map((op) => op.line)).toEqual(['c', 'b', 'a', 'b', 'a', 'c']);
+        });
+
+        it('anchors patience diffs on lines unique to both sides', () => {
+            const a = ['fn one() {', '}', '', 'fn two() {', '}'];
+            const b = ['fn two() {', '}', '', 'fn one() {', '}'];
+
+            const myers = render(new DiffService().diffLines(a, b));
+            const patience = render(new DiffService({ algorithm: 'PATIENCE' }).diffLines(a, b));
+
+            expect(myers).not.toEqual(patience);
+            expect(patience).toEqual(['-fn one() {', '-}', '-', ' fn two() {', ' }', '+', '+fn one() {', '+}']);
+        });
+
+        it('handles empty inputs', () => {
+            const service = new DiffService();
+
+            expect(service.diffLines([], [])).toEqual([]);
+            expect(render(service.diffLines([], ['x']))).toEqual(['+x']);
+            expect(render(service.diffLines(['x'], []))).toEqual(['-x']);
+        });
+
+        it('splits distant edits into separate hunks', () => {
+            const oldText = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+            const newText = [...oldText];
+            newText[0] = 'first';
+            newText[11] = 'last';
+
+            const hunks = new DiffService({ contextLines: 2 }).unifiedDiff(oldText.join('\n'), newText.join('\n'), 'f')
+                .split('\n')
+                .filter((line) => line.startsWith('@@'));
+
+            expect(hunks).toEqual(['@@ -1,3 +1,3 @@', '@@ -10,3 +10,3 @@']);
+        });
+    });
+});
@@ -0,0 +1,607 @@
+import {
+    DatabaseSnapshot,
+    TableDefinition,
+    ColumnDefinition,
+    ForeignKeyDefinition,
+    Diff,
+    DiffOptions,
+    DiffSummary,
+    SchemaChange,
+    ColumnChange,
+    DataChange,
+    ViewChange,
+    IndexChange,
+    ConstraintChange,
+    LineDiffOp,
+} from './types';
+import { MergeService } from './MergeService';
+
+/**
+ * Diff Service - Structural comparison of two database snapshots
+ *
+ * Tables and columns are matched by name, rows by the table's primary key
+ * (or by full row value when the table has none).
+ */
+export class DiffService {
+    private options: DiffOptions;
+
+    constructor(options?: DiffOptions) {
+        this.options = {
+            contextLines: 3,
+            ignoreWhitespace: false,
+            algorithm: 'MYERS',
+            includeData: true,
+            ...options,
+        };
+    }
+
+    /**
+     * Compute the changes that turn `from` into `to`
+     */
+    compute(from: DatabaseSnapshot, to: DatabaseSnapshot, fromCommitId = '', toCommitId = ''): Diff {
+        const schemaChanges = this.diffTables(from, to);
+        const constraintChanges = this.diffKeys(from, to);
+        constraintChanges.push(...this.diffConstraints(from, to));
+
+        const diff: Diff = {
+            fromCommitId,
+            toCommitId,
+            schemaChanges,
+            dataChanges: this.options.includeData ? this.diffData(from, to) : [],
+            viewChanges: this.diffViews(from, to),
+            indexChanges: this.diffIndexes(from, to),
+            constraintChanges,
+            summary: { filesChanged: 0, insertions: 0, deletions: 0, modifications: 0 },
+        };
+
+        diff.summary = this.summarize(diff);
+        return diff;
+    }
+
+    // ============ Tables & Columns ============
+
+    private diffTables(from: DatabaseSnapshot, to: DatabaseSnapshot): SchemaChange[] {
+        const changes: SchemaChange[] = [];
+        const fromTables = from.schema?.tables || {};
+        const toTables = to.schema?.tables || {};
+
+        for (const name of this.unionKeys(fromTables, toTables)) {
+            const oldTable = fromTables[name];
+            const newTable = toTables[name];
+
+            if (!oldTable) {
+                changes.push({
+                    type: 'SCHEMA',
+                    operation: 'CREATE',
+                    target: name,
+                    tableName: name,
+                    tableChange: 'CREATE',
+                    description: `Create table ${name} (${newTable.columns.length} columns)`,
+                    columnChanges: newTable.columns.map((col) => ({
+                        operation: 'ADD',
+                        columnName: col.name,
+                        newDefinition: col,
+                    })),
+                });
+            } else if (!newTable) {
+                changes.push({
+                    type: 'SCHEMA',
+                    operation: 'DROP',
+                    target: name,
+                    tableName: name,
+                    tableChange: 'DROP',
+                    description: `Drop table ${name}`,
+                    columnChanges: oldTable.columns.map((col) => ({
+                        operation: 'DROP',
+                        columnName: col.name,
+                        oldDefinition: col,
+                    })),
+                });
+            } else {
+                const columnChanges = this.diffColumns(oldTable, newTable);
+                if (columnChanges.length > 0) {
+                    changes.push({
+                        type: 'SCHEMA',
+                        operation: 'ALTER',
+                        target: name,
+                        tableName: name,
+                        description: `Alter table ${name}: ${columnChanges.map((cc) => `${cc.operation.toLowerCase()} ${cc.columnName}`).join(', ')}`,
+                        columnChanges,
+                    });
+                }
+            }
+        }
+
+        return changes;
+    }
+
+    private diffColumns(oldTable: TableDefinition, newTable: TableDefinition): ColumnChange[] {
+        const changes: ColumnChange[] = [];
+        const oldColumns = new Map(oldTable.columns.map((c) => [c.name, c]));
+        const newColumns = new Map(newTable.columns.map((c) => [c.name, c]));
+
+        for (const col of newTable.columns) {
+            const oldCol = oldColumns.get(col.name);
+            if (!oldCol) {
+                changes.push({ operation: 'ADD', columnName: col.name, newDefinition: col });
+            } else if (!this.sameColumn(oldCol, col)) {
+                changes.push({ operation: 'MODIFY', columnName: col.name, oldDefinition: oldCol, newDefinition: col });
+            }
+        }
+
+        for (const col of oldTable.columns) {
+            if (!newColumns.has(col.name)) {
+                changes.push({ operation: 'DROP', columnName: col.name, oldDefinition: col });
+            }
+        }
+
+        return changes;
+    }
+
+    private sameColumn(a: ColumnDefinition, b: ColumnDefinition): boolean {
+        return this.sameText(a.type, b.type) &&
+            a.nullable === b.nullable &&
+            this.sameText(a.default, b.default) &&
+            !!a.autoIncrement === !!b.autoIncrement;
+    }
+
+    // ============ Keys & Constraints ============
+
+    /**
+     * Primary and foreign keys live on TableDefinition; report them as constraint changes
+     */
+    private diffKeys(from: DatabaseSnapshot, to: DatabaseSnapshot): ConstraintChange[] {
+        const changes: ConstraintChange[] = [];
+        const fromTables = from.schema?.tables || {};
+        const toTables = to.schema?.tables || {};
+
+        for (const name of this.unionKeys(fromTables, toTables)) {
+            const oldTable = fromTables[name];
+            const newTable = toTables[name];
+
+            const oldPk = oldTable?.primaryKey?.length ? `PRIMARY KEY (${oldTable.primaryKey.join(', ')})` : undefined;
+            const newPk = newTable?.primaryKey?.length ? `PRIMARY KEY (${newTable.primaryKey.join(', ')})` : undefined;
+            if (oldPk !== newPk) {
+                changes.push(this.constraintChange(`${name}_pkey`, name, oldPk, newPk));
+            }
+
+            const oldFks = new Map((oldTable?.foreignKeys || []).map((fk) => [fk.column, this.formatForeignKey(fk)]));
+            const newFks = new Map((newTable?.foreignKeys || []).map((fk) => [fk.column, this.formatForeignKey(fk)]));
+            for (const column of new Set([...oldFks.keys(), ...newFks.keys()])) {
+                const oldFk = oldFks.get(column);
+                const newFk = newFks.get(column);
+                if (oldFk !== newFk) {
+                    changes.push(this.constraintChange(`${name}_${column}_fkey`, name, oldFk, newFk));
+                }
+            }
+        }
+
+        return changes;
+    }
+
+    private diffConstraints(from: DatabaseSnapshot, to: DatabaseSnapshot): ConstraintChange[] {
+        const changes: ConstraintChange[] = [];
+        const fromConstraints = from.schema?.constraints || {};
+        const toConstraints = to.schema?.constraints || {};
+
+        for (const name of this.unionKeys(fromConstraints, toConstraints)) {
+            const oldDef = fromConstraints[name] ? `${fromConstraints[name].type} ${fromConstraints[name].definition}` : undefined;
+            const newDef = toConstraints[name] ? `${toConstraints[name].type} ${toConstraints[name].definition}` : undefined;
+            if (!this.sameText(oldDef, newDef)) {
+                changes.push(this.constraintChange(name, name, oldDef, newDef));
+            }
+        }
+
+        return changes;
+    }
+
+    private constraintChange(name: string, target: string, oldDefinition?: string, newDefinition?: string): ConstraintChange {
+        const operation = !oldDefinition ? 'CREATE' : !newDefinition ? 'DROP' : 'ALTER';
+        return {
+            type: 'CONSTRAINT',
+            operation,
+            target,
+            constraintName: name,
+            description: `${operation === 'CREATE' ? 'Add' : operation === 'DROP' ? 'Drop' : 'Change'} constraint ${name}: ${newDefinition || oldDefinition}`,
+            oldDefinition,
+            newDefinition,
+        };
+    }
+
+    private formatForeignKey(fk: ForeignKeyDefinition): string {
+        let text = `FOREIGN KEY (${fk.column}) REFERENCES ${fk.refTable}(${fk.refColumn})`;
+        if (fk.onDelete) text += ` ON DELETE ${fk.onDelete}`;
+        if (fk.onUpdate) text += ` ON UPDATE ${fk.onUpdate}`;
+        return text;
+    }
+
+    // ============ Views & Indexes ============
+
+    private diffViews(from: DatabaseSnapshot, to: DatabaseSnapshot): ViewChange[] {
+        const changes: ViewChange[] = [];
+        const fromViews = from.schema?.views || {};
+        const toViews = to.schema?.views || {};
+
+        for (const name of this.unionKeys(fromViews, toViews)) {
+            const oldDef = fromViews[name]?.definition;
+            const newDef = toViews[name]?.definition;
+            if (this.sameText(oldDef, newDef)) continue;
+
+            const operation = oldDef === undefined ? 'CREATE' : newDef === undefined ? 'DROP' : 'ALTER';
+            changes.push({
+                type: 'VIEW',
+                operation,
+                target: name,
+                viewName: name,
+                description: `${operation === 'CREATE' ? 'Create' : operation === 'DROP' ? 'Drop' : 'Alter'} view ${name}`,
+                oldDefinition: oldDef,
+                newDefinition: newDef,
+                unifiedDiff: this.unifiedDiff(oldDef || '', newDef || '', name),
+            });
+        }
+
+        return changes;
+    }
+
+    private diffIndexes(from: DatabaseSnapshot, to: DatabaseSnapshot): IndexChange[] {
+        const changes: IndexChange[] = [];
+        const fromIndexes = from.schema?.indexes || {};
+        const toIndexes = to.schema?.indexes || {};
+
+        for (const name of this.unionKeys(fromIndexes, toIndexes)) {
+            const oldIdx = fromIndexes[name];
+            const newIdx = toIndexes[name];
+            if (MergeService.isEqual(oldIdx, newIdx)) continue;
+
+            const idx = newIdx || oldIdx;
+            const operation = !oldIdx ? 'CREATE' : !newIdx ? 'DROP' : 'ALTER';
+            changes.push({
+                type: 'INDEX',
+                operation,
+                target: name,
+                indexName: name,
+                tableName: idx.table,
+                columns: idx.columns,
+                description: `${operation === 'CREATE' ? 'Create' : operation === 'DROP' ? 'Drop' : 'Alter'} ${idx.unique ? 'unique ' : ''}index ${name} on ${idx.table} (${idx.columns.join(', ')})`,
+            });
+        }
+
+        return changes;
+    }
+
+    // ============ Row Data ============
+
+    private diffData(from: DatabaseSnapshot, to: DatabaseSnapshot): DataChange[] {
+        const changes: DataChange[] = [];
+        const fromData = from.data?.tables || {};
+        const toData = to.data?.tables || {};
+
+        for (const name of this.unionKeys(fromData, toData)) {
+            // Identical checksums mean identical rows; skip the row walk
+            if (fromData[name]?.checksum && fromData[name]?.checksum === toData[name]?.checksum) continue;
+
+            const primaryKey = to.schema?.tables?.[name]?.primaryKey?.length
+                ? to.schema.tables[name].primaryKey!
+                : from.schema?.tables?.[name]?.primaryKey || [];
+
+            changes.push(...this.diffRows(name, primaryKey, fromData[name]?.rows || [], toData[name]?.rows || []));
+        }
+
+        return changes;
+    }
+
+    private diffRows(
+        table: string,
+        primaryKey: string[],
+        oldRows: Record<string, any>[],
+        newRows: Record<string, any>[]
+    ): DataChange[] {
+        const changes: DataChange[] = [];
+        const keyOf = (row: Record<string, any>) => primaryKey.length > 0
+            ? MergeService.stableStringify(primaryKey.map((col) => row[col]))
+            : MergeService.stableStringify(row);
+        const labelOf = (row: Record<string, any>) => primaryKey.map((col) => `${col}=${row[col]}`).join(',');
+
+        // Rows without a key are compared as a multiset
+        const oldByKey = new Map<string, Record<string, any>[]>();
+        for (const row of oldRows) {
+            const key = keyOf(row);
+            oldByKey.set(key, [...(oldByKey.get(key) || []), row]);
+        }
+
+        for (const row of newRows) {
+            const key = keyOf(row);
+            const matches = oldByKey.get(key);
+            const oldRow = matches?.shift();
+            if (matches && matches.length === 0) oldByKey.delete(key);
+
+            if (!oldRow) {
+                changes.push({
+                    type: 'DATA',
+                    operation: 'INSERT',
+                    target: table,
+                    tableName: table,
+                    rowId: primaryKey.length > 0 ? labelOf(row) : undefined,
+                    newValues: row,
+                    affectedRows: 1,
+                    description: `Insert row${primaryKey.length > 0 ? ` ${labelOf(row)}` : ''} into ${table}`,
+                });
+                continue;
+            }
+
+            const oldValues: Record<string, any> = {};
+            const newValues: Record<string, any> = {};
+            for (const column of new Set([...Object.keys(oldRow), ...Object.keys(row)])) {
+                if (!MergeService.isEqual(oldRow[column], row[column])) {
+                    oldValues[column] = oldRow[column];
+                    newValues[column] = row[column];
+                }
+            }
+
+            if (Object.keys(newValues).length > 0) {
+                for (const col of primaryKey) {
+                    oldValues[col] = oldRow[col];
+                    newValues[col] = row[col];
+                }
+                changes.push({
+                    type: 'DATA',
+                    operation: 'UPDATE',
+                    target: table,
+                    tableName: table,
+                    rowId: labelOf(row),
+                    oldValues,
+                    newValues,
+                    affectedRows: 1,
+                    description: `Update ${Object.keys(newValues).filter((c) => !primaryKey.includes(c)).join(', ')} of row ${labelOf(row)} in ${table}`,
+                });
+            }
+        }
+
+        for (const rows of oldByKey.values()) {
+            for (const row of rows) {
+                changes.push({
+                    type: 'DATA',
+                    operation: 'DELETE',
+                    target: table,
+                    tableName: table,
+                    rowId: primaryKey.length > 0 ? labelOf(row) : undefined,
+                    oldValues: row,
+                    affectedRows: 1,
+                    description: `Delete row${primaryKey.length > 0 ? ` ${labelOf(row)}` : ''} from ${table}`,
+                });
+            }
+        }
+
+        return changes;
+    }
+
+    // ============ Summary ============
+
+    private summarize(diff: Diff): DiffSummary {
+        const summary: DiffSummary = { filesChanged: 0, insertions: 0, deletions: 0, modifications: 0 };
+        const touched = new Set<string>();
+
+        const count = (operation: string) => {
+            if (operation === 'CREATE' || operation === 'INSERT' || operation === 'ADD') summary.insertions++;
+            else if (operation === 'DROP' || operation === 'DELETE') summary.deletions++;
+            else summary.modifications++;
+        };
+
+        for (const change of diff.schemaChanges) {
+            touched.add(change.tableName);
+            if (change.tableChange) {
+                count(change.operation);
+            } else {
+                change.columnChanges?.forEach((cc) => count(cc.operation));
+            }
+        }
+        for (const change of diff.dataChanges) {
+            touched.add(change.tableName);
+            count(change.operation);
+        }
+        for (const change of diff.viewChanges) {
+            touched.add(change.viewName);
+            count(change.operation);
+        }
+        for (const change of diff.indexChanges) {
+            touched.add(change.tableName || change.indexName);
+            count(change.operation);
+        }
+        for (const change of diff.constraintChanges) {
+            touched.add(change.target);
+            count(change.operation);
+        }
+
+        summary.filesChanged = touched.size;
+        return summary;
+    }
+
+    // ============ Text Diff ============
+
+    /**
+     * Render a unified diff of two text blocks (used for view definitions)
+     */
+    unifiedDiff(oldText: string, newText: string, label: string): string {
+        const ops = this.diffLines(oldText.split('\n'), newText.split('\n'));
+        const context = Math.max(0, this.options.contextLines ?? 3);
+        const lines: string[] = [`--- a/${label}`, `+++ b/${label}`];
+
+        // Group changed ops into hunks padded with context lines
+        let i = 0;
+        while (i < ops.length) {
+            if (ops[i].type === 'EQUAL') { i++; continue; }
+
+            const start = Math.max(0, i - context);
+            let end = i;
+            while (end < ops.length) {
+                if (ops[end].type !== 'EQUAL') { end++; continue; }
+                let run = end;
+                while (run < ops.length && ops[run].type === 'EQUAL') run++;
+                if (run === ops.length || run - end > context * 2) break;
+                end = run;
+            }
+            end = Math.min(ops.length, end + context);
+
+            const oldStart = ops.slice(0, start).filter((op) => op.type !== 'INSERT').length + 1;
+            const newStart = ops.slice(0, start).filter((op) => op.type !== 'DELETE').length + 1;
+            const hunk = ops.slice(start, end);
+            const oldCount = hunk.filter((op) => op.type !== 'INSERT').length;
+            const newCount = hunk.filter((op) => op.type !== 'DELETE').length;
+
+            lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+            for (const op of hunk) {
+                lines.push(`${op.type === 'INSERT' ? '+' : op.type === 'DELETE' ? '-' : ' '}${op.line}`);
+            }
+
+            i = end;
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Line diff using the configured algorithm. PATIENCE and HISTOGRAM anchor
+     * on lines that occur exactly once on both sides and fall back to Myers
+     * between anchors.
+     */
+    diffLines(a: string[], b: string[]): LineDiffOp[] {
+        if (this.options.algorithm === 'PATIENCE' || this.options.algorithm === 'HISTOGRAM') {
+            return this.patienceDiff(a, b);
+        }
+        return this.myersDiff(a, b);
+    }
+
+    private myersDiff(a: string[], b: string[]): LineDiffOp[] {
+        const n = a.length;
+        const m = b.length;
+        const max = n + m;
+        const v: number[] = new Array(2 * max + 2).fill(0);
+        const trace: number[][] = [];
+
+        outer:
+        for (let d = 0; d <= max; d++) {
+            trace.push([...v]);
+            for (let k = -d; k <= d; k += 2) {
+                let x = (k === -d || (k !== d && v[max + k - 1] < v[max + k + 1]))
+                    ? v[max + k + 1]
+                    : v[max + k - 1] + 1;
+                let y = x - k;
+                while (x < n && y < m && this.sameLine(a[x], b[y])) { x++; y++; }
+                v[max + k] = x;
+                if (x >= n && y >= m) break outer;
+            }
+        }
+
+        // Backtrack through the recorded frontiers
+        const ops: LineDiffOp[] = [];
+        let x = n;
+        let y = m;
+        for (let d = trace.length - 1; d >= 0; d--) {
+            const vd = trace[d];
+            const k = x - y;
+            const prevK = (k === -d || (k !== d && vd[max + k - 1] < vd[max + k + 1])) ? k + 1 : k - 1;
+            const prevX = vd[max + prevK];
+            const prevY = prevX - prevK;
+
+            while (x > prevX && y > prevY) {
+                ops.unshift({ type: 'EQUAL', line: b[y - 1] });
+                x--; y--;
+            }
+            if (d > 0) {
+                if (x === prevX) ops.unshift({ type: 'INSERT', line: b[y - 1] });
+                else ops.unshift({ type: 'DELETE', line: a[x - 1] });
+            }
+            x = prevX;
+            y = prevY;
+        }
+
+        return ops;
+    }
+
+    private patienceDiff(a: string[], b: string[]): LineDiffOp[] {
+        const countIn = (lines: string[]) => {
+            const counts = new Map<string, { count: number; index: number }>();
+            lines.forEach((line, index) => {
+                const key = this.normalize(line);
+                const entry = counts.get(key);
+                counts.set(key, { count: (entry?.count || 0) + 1, index });
+            });
+            return counts;
+        };
+
+        const aCounts = countIn(a);
+        const bCounts = countIn(b);
+        const candidates: { ai: number; bi: number }[] = [];
+        for (const [key, entry] of aCounts) {
+            const other = bCounts.get(key);
+            if (entry.count === 1 && other?.count === 1) {
+                candidates.push({ ai: entry.index, bi: other.index });
+            }
+        }
+        candidates.sort((p, q) => p.ai - q.ai);
+
+        // Longest increasing subsequence of b-indices gives the anchors
+        const anchors = this.longestIncreasing(candidates);
+        if (anchors.length === 0) return this.myersDiff(a, b);
+
+        const ops: LineDiffOp[] = [];
+        let ai = 0;
+        let bi = 0;
+        for (const anchor of anchors) {
+            ops.push(...this.myersDiff(a.slice(ai, anchor.ai), b.slice(bi, anchor.bi)));
+            ops.push({ type: 'EQUAL', line: b[anchor.bi] });
+            ai = anchor.ai + 1;
+            bi = anchor.bi + 1;
+        }
+        ops.push(...this.myersDiff(a.slice(ai), b.slice(bi)));
+        return ops;
+    }
+
+    private longestIncreasing(items: { ai: number; bi: number }[]): { ai: number; bi: number }[] {
+        const tails: number[] = [];
+        const prev: number[] = new Array(items.length).fill(-1);
+
+        items.forEach((item, i) => {
+            let lo = 0;
+            let hi = tails.length;
+            while (lo < hi) {
+                const mid = (lo + hi) >> 1;
+                if (items[tails[mid]].bi < item.bi) lo = mid + 1;
+                else hi = mid;
+            }
+            if (lo > 0) prev[i] = tails[lo - 1];
+            tails[lo] = i;
+        });
+
+        const result: { ai: number; bi: number }[] = [];
+        let i = tails.length > 0 ? tails[tails.length - 1] : -1;
+        while (i >= 0) {
+            result.unshift(items[i]);
+            i = prev[i];
+        }
+        return result;
+    }
+
+    // ============ Helpers ============
+
+    private sameLine(a: string, b: string): boolean {
+        return this.normalize(a) === this.normalize(b);
+    }
+
+    private sameText(a: any, b: any): boolean {
+        if (typeof a === 'string' && typeof b === 'string') {
+            return this.normalize(a) === this.normalize(b);
+        }
+        return MergeService.isEqual(a, b);
+    }
+
+    private normalize(text: string): string {
+        return this.options.ignoreWhitespace ? text.replace(/\s+/g, ' ').trim() : text;
+    }
+
+    private unionKeys(a: Record<string, any>, b: Record<string, any>): string[] {
+        return Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+    }
+}
+
+export default DiffService;
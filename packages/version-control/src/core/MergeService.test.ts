@@ -0,0 +1,153 @@
+import { describe, expect, it } from '@jest/globals';
+import { MergeService } from './MergeService';
+import type { ColumnDefinition, DatabaseSnapshot, TableDefinition } from './types';
+
+const column = (name: string, type: string = 'integer', nullable: boolean = false): ColumnDefinition => ({ name, type, nullable });
+
+function snapshot(tables: TableDefinition[], rows: Record<string, Record<string, any>[]> = {}): DatabaseSnapshot {
+    return {
+        schema: { tables: Object.fromEntries(tables.map((t) => [t.name, t])) },
+        data: { tables: Object.fromEntries(Object.entries(rows).map(([name, r]) => [name, { rows: r }])) },
+        timestamp: new Date(0),
+    };
+}
+
+const users = (...extra: ColumnDefinition[]): TableDefinition => ({
+    name: 'users',
+    columns: [column('id'), column('email', 'text'), ...extra],
+    primaryKey: ['id'],
+});
+
+describe('MergeService', () => {
+    describe('schema', () => {
+        it('combines columns added on different branches', () => {
+            const base = snapshot([users()]);
+            const current = snapshot([users(column('age'))]);
+            const incoming = snapshot([users(column('name', 'text'))]);
+
+            const { snapshot: merged, conflicts } = new MergeService().merge(base, current, incoming);
+
+            expect(conflicts).toEqual([]);
+            expect(merged.schema.tables.users.columns.map((c) => c.name)).toEqual(['id', 'email', 'age', 'name']);
+        });
+
+        it('merges different attributes of the same column', () => {
+            const base = snapshot([users(column('age'))]);
+            const current = snapshot([users(column('age', 'bigint'))]);
+            const incoming = snapshot([users(column('age', 'integer', true))]);
+
+            const { snapshot: merged, conflicts } = new MergeService().merge(base, current, incoming);
+
+            expect(conflicts).toEqual([]);
+            expect(merged.schema.tables.users.columns[2]).toEqual(column('age', 'bigint', true));
+        });
+
+        it('reports a column changed differently on both branches and keeps the current value', () => {
+            const base = snapshot([users(column('age'))]);
+            const current = snapshot([users(column('age', 'bigint'))]);
+            const incoming = snapshot([users(column('age', 'numeric'))]);
+
+            const { snapshot: merged, conflicts } = new MergeService().merge(base, current, incoming);
+
+            expect(conflicts).toHaveLength(1);
+            expect(conflicts[0]).toMatchObject({
+                type: 'SCHEMA',
+                target: 'users.age',
+                baseValue: 'integer',
+                currentValue: 'bigint',
+                incomingValue: 'numeric',
+                resolved: false,
+            });
+            expect(merged.schema.tables.users.columns[2].type).toBe('bigint');
+        });
+
+        it('resolves conflicts in favour of the incoming branch with THEIRS', () => {
+            const base = snapshot([users(column('age'))]);
+            const current = snapshot([users(column('age', 'bigint'))]);
+            const incoming = snapshot([users(column('age', 'numeric'))]);
+
+            const { snapshot: merged, conflicts } = new MergeService('THEIRS').merge(base, current, incoming);
+
+            expect(conflicts[0]).toMatchObject({ resolved: true, resolution: 'numeric' });
+            expect(merged.schema.tables.users.columns[2].type).toBe('numeric');
+        });
+
+        it('drops a table dropped on one branch and untouched on the other, with its data', () => {
+            const orders: TableDefinition = { name: 'orders', columns: [column('id')], primaryKey: ['id'] };
+            const base = snapshot([users(), orders], { orders: [{ id: 1 }] });
+            const current = snapshot([users()]);
+            const incoming = snapshot([users(), orders], { orders: [{ id: 1 }] });
+
+            const { snapshot: merged, conflicts } = new MergeService().merge(base, current, incoming);
+
+            expect(conflicts).toEqual([]);
+            expect(merged.schema.tables.orders).toBeUndefined();
+            expect(merged.data.tables.orders).toBeUndefined();
+        });
+
+        it('reports a table dropped on one branch and modified on the other', () => {
+            const base = snapshot([users()]);
+            const current = snapshot([]);
+            const incoming = snapshot([users(column('age'))]);
+
+            const { snapshot: merged, conflicts } = new MergeService().merge(base, current, incoming);
+
+            expect(conflicts).toHaveLength(1);
+            expect(conflicts[0]).toMatchObject({ type: 'SCHEMA', target: 'users', currentValue: undefined });
+            expect(conflicts[0].description).toContain('dropped in the current branch but modified in the incoming branch');
+            expect(merged.schema.tables.users).toBeUndefined();
+        });
+
+        it('treats a missing merge base as an empty database', () => {
+            const { snapshot: merged, conflicts } = new MergeService().merge(null, snapshot([users()]), snapshot([users()]));
+
+            expect(conflicts).toEqual([]);
+            expect(Object.keys(merged.schema.tables)).toEqual(['users']);
+        });
+    });
+
+    describe('data', () => {
+        const base = snapshot([users()], { users: [{ id: 1, email: 'a@x' }, { id: 2, email: 'b@x' }] });
+
+        it('keys rows by primary key and combines inserts, updates and deletes', () => {
+            const current = snapshot([users()], { users: [{ id: 1, email: 'a@y' }, { id: 2, email: 'b@x' }, { id: 3, email: 'c@x' }] });
+            const incoming = snapshot([users()], { users: [{ id: 1, email: 'a@x' }] });
+
+            const { snapshot: merged, conflicts } = new MergeService().merge(base, current, incoming);
+
+            expect(conflicts).toEqual([]);
+            expect(merged.data.tables.users.rows).toEqual([{ id: 1, email: 'a@y' }, { id: 3, email: 'c@x' }]);
+        });
+
+        it('reports a value changed differently on both branches', () => {
+            const current = snapshot([users()], { users: [{ id: 1, email: 'a@y' }, { id: 2, email: 'b@x' }] });
+            const incoming = snapshot([users()], { users: [{ id: 1, email: 'a@z' }, { id: 2, email: 'b@x' }] });
+
+            const { conflicts } = new MergeService().merge(base, current, incoming);
+
+            expect(conflicts).toHaveLength(1);
+            expect(conflicts[0]).toMatchObject({ type: 'DATA', target: 'users[id=1].email', currentValue: 'a@y', incomingValue: 'a@z' });
+        });
+
+        it('reports a row deleted on one branch and modified on the other', () => {
+            const current = snapshot([users()], { users: [{ id: 1, email: 'a@x' }, { id: 2, email: 'b@y' }] });
+            const incoming = snapshot([users()], { users: [{ id: 1, email: 'a@x' }] });
+
+            const { snapshot: merged, conflicts } = new MergeService().merge(base, current, incoming);
+
+            expect(conflicts).toHaveLength(1);
+            expect(conflicts[0]).toMatchObject({ type: 'DATA', target: 'users[id=2]', incomingValue: undefined });
+            expect(conflicts[0].description).toContain('deleted in the incoming branch but modified in the current branch');
+            expect(merged.data.tables.users.rows).toContainEqual({ id: 2, email: 'b@y' });
+        });
+
+        it('applies the deletion for a conflicting row with THEIRS', () => {
+            const current = snapshot([users()], { users: [{ id: 1, email: 'a@x' }, { id: 2, email: 'b@y' }] });
+            const incoming = snapshot([users()], { users: [{ id: 1, email: 'a@x' }] });
+
+            const { snapshot: merged } = new MergeService('THEIRS').merge(base, current, incoming);
+
+            expect(merged.data.tables.users.rows).toEqual([{ id: 1, email: 'a@x' }]);
+        });
+    });
+});
@@ -0,0 +1,425 @@
+import {
+    DatabaseSnapshot,
+    SchemaDefinition,
+    TableDefinition,
+    ColumnDefinition,
+    ForeignKeyDefinition,
+    DataSnapshot,
+    TableData,
+    MergeConflict,
+    MergeStrategy,
+    SnapshotMergeResult,
+} from './types';
+
+/**
+ * Merge Service - Three-way merge of database snapshots
+ *
+ * Compares the current and incoming snapshots against their merge base.
+ * A side that left a value untouched accepts the other side's edit; when
+ * both sides changed the same value differently a MergeConflict is recorded.
+ * With the OURS/THEIRS strategies conflicts are auto-resolved in favour of
+ * that side, otherwise the current value is kept and the conflict stays open.
+ */
+export class MergeService {
+    private strategy: MergeStrategy;
+    private conflicts: MergeConflict[] = [];
+
+    constructor(strategy: MergeStrategy = 'RECURSIVE') {
+        this.strategy = strategy;
+    }
+
+    /**
+     * Merge two snapshots that diverged from a common base
+     */
+    merge(
+        base: DatabaseSnapshot | null,
+        current: DatabaseSnapshot,
+        incoming: DatabaseSnapshot
+    ): SnapshotMergeResult {
+        this.conflicts = [];
+        const baseSnapshot = base || MergeService.emptySnapshot();
+
+        const schema = this.mergeSchema(baseSnapshot.schema, current.schema, incoming.schema);
+        const data = this.mergeData(schema, baseSnapshot, current, incoming);
+
+        return {
+            snapshot: { schema, data, timestamp: new Date() },
+            conflicts: this.conflicts,
+        };
+    }
+
+    /**
+     * Record a conflict and return the value the merged snapshot should hold
+     */
+    resolveConflict<T>(
+        type: 'SCHEMA' | 'DATA',
+        target: string,
+        description: string,
+        baseValue: T | undefined,
+        currentValue: T | undefined,
+        incomingValue: T | undefined
+    ): T | undefined {
+        const conflict: MergeConflict = {
+            type,
+            target,
+            description,
+            currentValue,
+            incomingValue,
+            baseValue,
+            resolved: false,
+        };
+
+        if (this.strategy === 'OURS' || this.strategy === 'THEIRS') {
+            conflict.resolved = true;
+            conflict.resolution = this.strategy === 'OURS' ? currentValue : incomingValue;
+        }
+
+        this.conflicts.push(conflict);
+
+        return this.strategy === 'THEIRS' ? incomingValue : currentValue;
+    }
+
+    static emptySnapshot(): DatabaseSnapshot {
+        return {
+            schema: { tables: {} },
+            data: { tables: {} },
+            timestamp: new Date(0),
+        };
+    }
+
+    /**
+     * Structural equality that ignores key order and undefined properties
+     */
+    static isEqual(a: any, b: any): boolean {
+        return MergeService.stableStringify(a) === MergeService.stableStringify(b);
+    }
+
+    static stableStringify(value: any): string {
+        if (value === undefined) return 'undefined';
+        if (value === null || typeof value !== 'object') return JSON.stringify(value);
+        if (value instanceof Date) return JSON.stringify(value.toISOString());
+        if (Array.isArray(value)) {
+            return `[${value.map((v) => MergeService.stableStringify(v)).join(',')}]`;
+        }
+        const keys = Object.keys(value).filter((k) => value[k] !== undefined).sort();
+        return `{${keys.map((k) => `${JSON.stringify(k)}:${MergeService.stableStringify(value[k])}`).join(',')}}`;
+    }
+
+    // ============ Generic Three-Way Helpers ============
+
+    /**
+     * Three-way merge of an atomic value
+     */
+    private mergeValue<T>(
+        type: 'SCHEMA' | 'DATA',
+        target: string,
+        description: string,
+        base: T | undefined,
+        current: T | undefined,
+        incoming: T | undefined
+    ): T | undefined {
+        if (MergeService.isEqual(current, incoming)) return current;
+        if (MergeService.isEqual(base, current)) return incoming;
+        if (MergeService.isEqual(base, incoming)) return current;
+        return this.resolveConflict(type, target, description, base, current, incoming);
+    }
+
+    /**
+     * Three-way merge of keyed entries. When both sides changed an entry that
+     * still exists on both sides, `mergeEntry` gets a chance to merge deeper.
+     * Result order follows the current side, with incoming-only keys appended.
+     */
+    private mergeKeyed<T>(
+        base: Map<string, T>,
+        current: Map<string, T>,
+        incoming: Map<string, T>,
+        onConflict: (key: string, b: T | undefined, c: T | undefined, i: T | undefined) => T | undefined,
+        mergeEntry?: (key: string, b: T | undefined, c: T, i: T) => T
+    ): Map<string, T> {
+        const result = new Map<string, T>();
+        const keys = new Set<string>([...current.keys(), ...incoming.keys(), ...base.keys()]);
+
+        for (const key of keys) {
+            const b = base.get(key);
+            const c = current.get(key);
+            const i = incoming.get(key);
+
+            let merged: T | undefined;
+            if (MergeService.isEqual(c, i)) {
+                merged = c;
+            } else if (MergeService.isEqual(b, c)) {
+                merged = i;
+            } else if (MergeService.isEqual(b, i)) {
+                merged = c;
+            } else if (c !== undefined && i !== undefined && mergeEntry) {
+                merged = mergeEntry(key, b, c, i);
+            } else {
+                merged = onConflict(key, b, c, i);
+            }
+
+            if (merged !== undefined) {
+                result.set(key, merged);
+            }
+        }
+
+        return result;
+    }
+
+    private toMap<T>(items: T[] | Record<string, T> | undefined, keyOf: (item: T) => string): Map<string, T> {
+        const map = new Map<string, T>();
+        if (!items) return map;
+        const values = Array.isArray(items) ? items : Object.values(items);
+        for (const item of values) {
+            map.set(keyOf(item), item);
+        }
+        return map;
+    }
+
+    private fromMap<T>(map: Map<string, T>): Record<string, T> {
+        const record: Record<string, T> = {};
+        for (const [key, value] of map) {
+            record[key] = value;
+        }
+        return record;
+    }
+
+    // ============ Schema Merge ============
+
+    private mergeSchema(
+        base: SchemaDefinition,
+        current: SchemaDefinition,
+        incoming: SchemaDefinition
+    ): SchemaDefinition {
+        const tables = this.mergeKeyed<TableDefinition>(
+            this.toMap(base.tables, (t) => t.name),
+            this.toMap(current.tables, (t) => t.name),
+            this.toMap(incoming.tables, (t) => t.name),
+            (name, b, c, i) => this.resolveConflict(
+                'SCHEMA',
+                name,
+                c ? `Table ${name} was dropped in the incoming branch but modified in the current branch`
+                    : `Table ${name} was dropped in the current branch but modified in the incoming branch`,
+                b, c, i
+            ),
+            (name, b, c, i) => this.mergeTable(name, b, c, i)
+        );
+
+        const schema: SchemaDefinition = { tables: this.fromMap(tables) };
+
+        if (base.views || current.views || incoming.views) {
+            schema.views = this.fromMap(this.mergeKeyed(
+                this.toMap(base.views, (v) => v.name),
+                this.toMap(current.views, (v) => v.name),
+                this.toMap(incoming.views, (v) => v.name),
+                (name, b, c, i) => this.resolveConflict('SCHEMA', name, `View ${name} has conflicting definitions`, b, c, i)
+            ));
+        }
+
+        if (base.indexes || current.indexes || incoming.indexes) {
+            schema.indexes = this.fromMap(this.mergeKeyed(
+                this.toMap(base.indexes, (idx) => idx.name),
+                this.toMap(current.indexes, (idx) => idx.name),
+                this.toMap(incoming.indexes, (idx) => idx.name),
+                (name, b, c, i) => this.resolveConflict('SCHEMA', name, `Index ${name} has conflicting definitions`, b, c, i)
+            ));
+        }
+
+        if (base.constraints || current.constraints || incoming.constraints) {
+            schema.constraints = this.fromMap(this.mergeKeyed(
+                this.toMap(base.constraints, (con) => con.name),
+                this.toMap(current.constraints, (con) => con.name),
+                this.toMap(incoming.constraints, (con) => con.name),
+                (name, b, c, i) => this.resolveConflict('SCHEMA', name, `Constraint ${name} has conflicting definitions`, b, c, i)
+            ));
+        }
+
+        return schema;
+    }
+
+    private mergeTable(
+        name: string,
+        base: TableDefinition | undefined,
+        current: TableDefinition,
+        incoming: TableDefinition
+    ): TableDefinition {
+        const columns = this.mergeKeyed<ColumnDefinition>(
+            this.toMap(base?.columns, (col) => col.name),
+            this.toMap(current.columns, (col) => col.name),
+            this.toMap(incoming.columns, (col) => col.name),
+            (column, b, c, i) => this.resolveConflict(
+                'SCHEMA',
+                `${name}.${column}`,
+                c ? `Column ${name}.${column} was dropped in the incoming branch but modified in the current branch`
+                    : `Column ${name}.${column} was dropped in the current branch but modified in the incoming branch`,
+                b, c, i
+            ),
+            (column, b, c, i) => this.mergeColumn(`${name}.${column}`, b, c, i)
+        );
+
+        const table: TableDefinition = {
+            name,
+            columns: Array.from(columns.values()),
+        };
+
+        const primaryKey = this.mergeValue(
+            'SCHEMA',
+            name,
+            `Primary key of ${name} was changed differently on both branches`,
+            base?.primaryKey,
+            current.primaryKey,
+            incoming.primaryKey
+        );
+        if (primaryKey) table.primaryKey = primaryKey;
+
+        if (base?.foreignKeys || current.foreignKeys || incoming.foreignKeys) {
+            const foreignKeys = this.mergeKeyed<ForeignKeyDefinition>(
+                this.toMap(base?.foreignKeys, (fk) => fk.column),
+                this.toMap(current.foreignKeys, (fk) => fk.column),
+                this.toMap(incoming.foreignKeys, (fk) => fk.column),
+                (column, b, c, i) => this.resolveConflict(
+                    'SCHEMA',
+                    `${name}.${column}`,
+                    `Foreign key on ${name}.${column} was changed differently on both branches`,
+                    b, c, i
+                )
+            );
+            table.foreignKeys = Array.from(foreignKeys.values());
+        }
+
+        return table;
+    }
+
+    /**
+     * Merge column attributes individually so that e.g. a type change on one
+     * branch and a nullability change on the other combine cleanly
+     */
+    private mergeColumn(
+        target: string,
+        base: ColumnDefinition | undefined,
+        current: ColumnDefinition,
+        incoming: ColumnDefinition
+    ): ColumnDefinition {
+        const merged: ColumnDefinition = { ...current };
+        const attributes: (keyof ColumnDefinition)[] = ['type', 'nullable', 'default', 'autoIncrement'];
+
+        for (const attribute of attributes) {
+            const value = this.mergeValue(
+                'SCHEMA',
+                target,
+                `Column ${target} has conflicting ${attribute} changes`,
+                base?.[attribute],
+                current[attribute],
+                incoming[attribute]
+            );
+            if (value === undefined) {
+                delete merged[attribute];
+            } else {
+                (merged as any)[attribute] = value;
+            }
+        }
+
+        return merged;
+    }
+
+    // ============ Data Merge ============
+
+    private mergeData(
+        schema: SchemaDefinition,
+        base: DatabaseSnapshot,
+        current: DatabaseSnapshot,
+        incoming: DatabaseSnapshot
+    ): DataSnapshot {
+        const tables: Record<string, TableData> = {};
+        const names = new Set<string>([
+            ...Object.keys(current.data?.tables || {}),
+            ...Object.keys(incoming.data?.tables || {}),
+            ...Object.keys(base.data?.tables || {}),
+        ]);
+
+        for (const name of names) {
+            // A table dropped by the merged schema takes its data with it
+            const definedSomewhere = current.schema.tables[name] || incoming.schema.tables[name] || base.schema.tables[name];
+            if (definedSomewhere && !schema.tables[name]) continue;
+
+            const primaryKey = schema.tables[name]?.primaryKey
+                || current.schema.tables[name]?.primaryKey
+                || incoming.schema.tables[name]?.primaryKey
+                || [];
+
+            tables[name] = {
+                rows: this.mergeRows(
+                    name,
+                    primaryKey,
+                    base.data?.tables[name]?.rows || [],
+                    current.data?.tables[name]?.rows || [],
+                    incoming.data?.tables[name]?.rows || []
+                ),
+            };
+        }
+
+        return { tables };
+    }
+
+    private mergeRows(
+        table: string,
+        primaryKey: string[],
+        base: Record<string, any>[],
+        current: Record<string, any>[],
+        incoming: Record<string, any>[]
+    ): Record<string, any>[] {
+        // Without a primary key rows are compared as whole values
+        const keyOf = (row: Record<string, any>) => primaryKey.length > 0
+            ? MergeService.stableStringify(primaryKey.map((col) => row[col]))
+            : MergeService.stableStringify(row);
+        const labelOf = (row: Record<string, any>) => primaryKey.length > 0
+            ? primaryKey.map((col) => `${col}=${row[col]}`).join(',')
+            : 'row';
+
+        const rows = this.mergeKeyed<Record<string, any>>(
+            this.toMap(base, keyOf),
+            this.toMap(current, keyOf),
+            this.toMap(incoming, keyOf),
+            (_key, b, c, i) => {
+                const label = labelOf((c || i || b)!);
+                return this.resolveConflict(
+                    'DATA',
+                    `${table}[${label}]`,
+                    c ? `Row ${label} in ${table} was deleted in the incoming branch but modified in the current branch`
+                        : `Row ${label} in ${table} was deleted in the current branch but modified in the incoming branch`,
+                    b, c, i
+                );
+            },
+            (_key, b, c, i) => this.mergeRow(`${table}[${labelOf(c)}]`, b, c, i)
+        );
+
+        return Array.from(rows.values());
+    }
+
+    private mergeRow(
+        target: string,
+        base: Record<string, any> | undefined,
+        current: Record<string, any>,
+        incoming: Record<string, any>
+    ): Record<string, any> {
+        const merged: Record<string, any> = {};
+        const columns = new Set<string>([...Object.keys(current), ...Object.keys(incoming)]);
+
+        for (const column of columns) {
+            const value = this.mergeValue(
+                'DATA',
+                `${target}.${column}`,
+                `Value of ${column} in ${target} was changed differently on both branches`,
+                base?.[column],
+                current[column],
+                incoming[column]
+            );
+            if (value !== undefined) {
+                merged[column] = value;
+            }
+        }
+
+        return merged;
+    }
+}
+
+export default MergeService;
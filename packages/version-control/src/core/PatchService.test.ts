@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PatchService } from './PatchService';
+import { FileStorage } from '../storage/FileStorage';
+import type { Change, ColumnDefinition, Commit, DatabaseSnapshot, Patch, PatchApplyResult, Result, SuccessResult, TableDefinition } from './types';
+
+let dir: string;
+let storage: FileStorage;
+
+const column = (name: string, type: string = 'integer'): ColumnDefinition => ({ name, type, nullable: false });
+
+const snapshot = (...tables: TableDefinition[]): DatabaseSnapshot => ({
+    schema: { tables: Object.fromEntries(tables.map((t) => [t.name, t])), indexes: {}, views: {} },
+    data: { tables: {} },
+    timestamp: new Date(0),
+});
+
+const table = (name: string, ...columns: string[]): TableDefinition => ({ name, columns: columns.map((c) => column(c)) });
+
+const change = (type: Change['type'], operation: string, target: string, extra: Record<string, any> = {}): Change => ({
+    type,
+    operation,
+    target,
+    description: `${operation} ${target}`,
+    ...(type === 'SCHEMA' ? { tableName: target } : {}),
+    ...extra,
+} as Change);
+
+async function commit(id: string, parent: string, changes: Change[], after?: DatabaseSnapshot): Promise<Commit> {
+    const timestamp = new Date(Date.UTC(2024, 0, Number(id.slice(1))));
+    const saved: Commit = {
+        id,
+        message: `commit ${id}`,
+        author: { name: 'Ada', email: 'ada@example.com', timestamp },
+        timestamp,
+        parentIds: parent ? [parent] : [],
+        treeId: id,
+        changes,
+    };
+    await storage.saveCommit(saved);
+    if (after) await storage.saveSnapshot(id, after);
+    return saved;
+}
+
+const data = <T>(result: Result<T>): T => {
+    expect(result.success).toBe(true);
+    return (result as SuccessResult<T>).data;
+};
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bosdb-patch-'));
+    storage = new FileStorage(dir);
+    await storage.initialize();
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('PatchService', () => {
+    let patch: Patch;
+
+    // c1 creates users; c2 adds users.age, creates orders and inserts into it
+    beforeEach(async () => {
+        await commit('c1', '', [change('SCHEMA', 'CREATE', 'users')], snapshot(table('users', 'id')));
+        await commit('c2', 'c1', [
+            change('SCHEMA', 'ALTER', 'users'),
+            change('SCHEMA', 'CREATE', 'orders'),
+            change('DATA', 'INSERT', 'orders'),
+        ], snapshot(table('users', 'id', 'age'), table('orders', 'id')));
+
+        patch = data(await new PatchService(storage).generatePatch('c2'));
+    });
+
+    it('exports a patch that imports back with its commits, diffs and dates', async () => {
+        const service = new PatchService(storage);
+        const imported = data(await service.importPatch(service.exportPatch(patch)));
+
+        expect(imported.commits.map((c) => c.id)).toEqual(['c2']);
+        expect(imported.commits[0].timestamp).toEqual(new Date(Date.UTC(2024, 0, 2)));
+        expect(imported.metadata).toMatchObject({ baseCommitId: 'c1', description: 'commit c2' });
+        expect(imported.diffs[0].schemaChanges.map((c) => c.tableName)).toEqual(['users', 'orders']);
+        expect(await service.importPatch('just some text')).toEqual({
+            success: false,
+            error: 'Import patch failed: Error: Patch does not contain change data',
+        });
+    });
+
+    it('accepts a patch whose changes fit the target, following earlier changes in the patch', async () => {
+        const result = data(await new PatchService(storage).applyPatch(patch, { check: true, target: snapshot(table('users', 'id')) }));
+
+        expect(result).toMatchObject({ success: true, appliedPatches: 1, failedPatches: 0, conflicts: [] });
+        expect(result.changes!.every((c) => c.success)).toBe(true);
+    });
+
+    it('reports every change that does not fit the target', async () => {
+        const target = snapshot(table('users', 'id', 'AGE'), table('orders', 'id'));
+
+        const result = data(await new PatchService(storage).applyPatch(patch, { check: true, target }));
+
+        expect(result).toMatchObject({ success: false, appliedPatches: 0, failedPatches: 1 });
+        expect(result.conflicts.map((c) => c.description)).toEqual([
+            'Column users.age already exists',
+            'Table orders already exists',
+        ]);
+        expect(result.changes!.map((c) => c.success)).toEqual([false, false, true]);
+    });
+
+    it('refuses changes to tables the target lacks', async () => {
+        const result = data(await new PatchService(storage).applyPatch(patch, { check: true, target: snapshot() }));
+
+        expect(result.conflicts.map((c) => c.description)).toEqual(['Table users does not exist']);
+    });
+
+    describe('with an executor', () => {
+        const run = async (options: { target?: DatabaseSnapshot; force?: boolean; failOn?: string }): Promise<{ result: PatchApplyResult; executed: string[] }> => {
+            const executed: string[] = [];
+            const executor = {
+                execute: async (c: Change) => {
+                    if (c.description === options.failOn) throw new Error(`cannot ${c.description}`);
+                    executed.push(c.description);
+                },
+            };
+            const result = data(await new PatchService(storage).applyPatch(patch, { executor, target: options.target, force: options.force }));
+            return { result, executed };
+        };
+
+        it('stops at the first failing change and marks the rest skipped', async () => {
+            const { result, executed } = await run({ failOn: 'CREATE orders' });
+
+            expect(executed).toEqual(['ALTER users']);
+            expect(result).toMatchObject({ success: false, appliedPatches: 0, failedPatches: 1 });
+            expect(result.changes!.map((c) => [c.success, c.skipped, c.error])).toEqual([
+                [true, undefined, undefined],
+                [false, undefined, 'cannot CREATE orders'],
+                [false, true, undefined],
+            ]);
+        });
+
+        it('runs nothing when validation fails unless forced', async () => {
+            const target = snapshot();
+
+            expect((await run({ target })).executed).toEqual([]);
+            expect((await run({ target, force: true })).executed).toEqual(['ALTER users', 'CREATE orders', 'INSERT orders']);
+        });
+    });
+});
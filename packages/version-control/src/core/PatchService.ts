@@ -1,19 +1,39 @@
 import {
     Patch,
     PatchApplyResult,
+    PatchChangeResult,
     Commit,
+    Change,
+    ColumnChange,
     Diff,
+    DatabaseSnapshot,
+    MergeConflict,
     VersionControlStorage,
     PatchOptions,
     PatchMetadata,
     Result,
 } from './types';
+import { DiffService } from './DiffService';
+
+// Separates the readable patch text from the embedded commits
+const PATCH_DATA_MARKER = '--- bosdb-patch-data ---';
+
+/**
+ * Target schema as seen while validating a patch, updated change by change.
+ * Names are lower-cased; a table's columns are null when not known.
+ */
+interface SchemaModel {
+    tables: Map<string, Set<string> | null>;
+    indexes: Set<string>;
+    views: Set<string>;
+}
 
 /**
  * Patch Service - Export and import changesets
  */
 export class PatchService {
     private storage: VersionControlStorage;
+    private diffService = new DiffService({ includeData: false });
 
     constructor(storage: VersionControlStorage) {
         this.storage = storage;
@@ -54,25 +74,32 @@ export class PatchService {
     }
 
     /**
-     * Apply a patch
+     * Apply a patch.
+     * With `target`, every change is first validated against that schema; `check` stops there.
+     * With `executor`, changes are applied one by one and the first failure skips the rest.
      */
     async applyPatch(
         patch: Patch,
         options?: PatchOptions
     ): Promise<Result<PatchApplyResult>> {
         try {
-            if (options?.check) {
-                // Dry run - just check if patch can be applied
-                const canApply = await this.checkPatch(patch);
-                return {
-                    success: true,
-                    data: {
-                        success: canApply,
-                        appliedPatches: canApply ? patch.commits.length : 0,
-                        failedPatches: canApply ? 0 : patch.commits.length,
-                        conflicts: [],
-                    },
-                };
+            if (options?.check || options?.target) {
+                const check = this.checkPatch(patch, options?.target);
+                const canApply = check.conflicts.length === 0;
+
+                if (options?.check || (!canApply && !options?.force)) {
+                    const failed = new Set(check.changes.filter((c) => !c.success).map((c) => c.commitId));
+                    return {
+                        success: true,
+                        data: {
+                            success: canApply,
+                            appliedPatches: options?.check ? patch.commits.length - failed.size : 0,
+                            failedPatches: failed.size,
+                            conflicts: check.conflicts,
+                            changes: check.changes,
+                        },
+                    };
+                }
             }
 
             const result = await this.applyPatchInternal(patch, options);
@@ -99,7 +126,7 @@ export class PatchService {
         for (const commit of patch.commits) {
             lines.push(`commit ${commit.id}`);
             lines.push(`Author: ${commit.author.name} <${commit.author.email}>`);
-            lines.push(`Date: ${commit.timestamp.toISOString()}`);
+            lines.push(`Date: ${new Date(commit.timestamp).toISOString()}`);
             lines.push('');
             lines.push(`    ${commit.message}`);
             lines.push('');
@@ -130,6 +157,16 @@ export class PatchService {
             lines.push('');
         }
 
+        // Machine-readable copy of the commits, read back by importPatch
+        lines.push(PATCH_DATA_MARKER);
+        lines.push(JSON.stringify({
+            id: patch.id,
+            format: patch.format,
+            metadata: patch.metadata,
+            commits: patch.commits,
+            diffs: patch.diffs,
+        }));
+
         return lines.join('\n');
     }
 
@@ -149,7 +186,7 @@ export class PatchService {
         const patch: Patch = {
             id: `patch-${commit.id}`,
             commits: [commit],
-            diffs: [],
+            diffs: await this.buildDiffs([commit]),
             format: 'UNIFIED',
             content: '',
             metadata: {
@@ -168,7 +205,7 @@ export class PatchService {
         const patch: Patch = {
             id: `patch-${Date.now()}`,
             commits,
-            diffs: [],
+            diffs: await this.buildDiffs(commits),
             format: 'UNIFIED',
             content: '',
             metadata: {
@@ -197,26 +234,248 @@ export class PatchService {
         return commits;
     }
 
-    private async checkPatch(_patch: Patch): Promise<boolean> {
-        // Simplified check - in production would verify all changes can be applied
-        return true;
+    /**
+     * Schema diff of each commit against its parent, when both snapshots are stored.
+     * These give column-level detail for changes recorded only as statements.
+     */
+    private async buildDiffs(commits: Commit[]): Promise<Diff[]> {
+        const diffs: Diff[] = [];
+
+        for (const commit of commits) {
+            const parent = commit.parentIds[0] ? await this.storage.getCommit(commit.parentIds[0]) : null;
+            const before = parent ? await this.storage.getSnapshot(parent.treeId) : null;
+            const after = await this.storage.getSnapshot(commit.treeId);
+            if (!before || !after) continue;
+
+            diffs.push(this.diffService.compute(before, after, parent!.id, commit.id));
+        }
+
+        return diffs;
+    }
+
+    /**
+     * Validate every change against the target schema, replaying the patch on a model of it
+     * so later changes see the effect of earlier ones. Objects the snapshot does not describe
+     * (triggers, sequences, routines) are not checked.
+     */
+    private checkPatch(patch: Patch, target?: DatabaseSnapshot): { changes: PatchChangeResult[]; conflicts: MergeConflict[] } {
+        const model = this.toSchemaModel(target);
+        const changes: PatchChangeResult[] = [];
+        const conflicts: MergeConflict[] = [];
+
+        for (const commit of patch.commits) {
+            const diff = patch.diffs.find((d) => d.toCommitId === commit.id);
+
+            commit.changes.forEach((change, changeIndex) => {
+                const conflict = target ? this.checkChange(change, diff, model) : null;
+                if (conflict) conflicts.push(conflict);
+
+                changes.push({
+                    commitId: commit.id,
+                    changeIndex,
+                    description: change.description,
+                    success: !conflict,
+                    error: conflict?.description,
+                });
+
+                this.applyToModel(change, diff, model);
+            });
+        }
+
+        return { changes, conflicts };
+    }
+
+    private checkChange(change: Change, diff: Diff | undefined, model: SchemaModel): MergeConflict | null {
+        const table = this.tableOf(change);
+        const name = this.normalizeName(change.target);
+
+        switch (change.type) {
+            case 'DATA':
+                return model.tables.has(table) ? null : this.conflict(change, table, `Table ${table} does not exist`);
+
+            case 'INDEX':
+                return this.checkObject(change, name, model.indexes, 'Index');
+
+            case 'VIEW':
+                return this.checkObject(change, name, model.views, 'View');
+
+            case 'SCHEMA': {
+                // Statements on triggers, sequences etc. carry no table name
+                if (!table) return null;
+
+                const exists = model.tables.has(table);
+                if (change.operation === 'CREATE') {
+                    return exists ? this.conflict(change, table, `Table ${table} already exists`) : null;
+                }
+                if (!exists) {
+                    return this.conflict(change, table, `Table ${table} does not exist`);
+                }
+
+                const columns = model.tables.get(table);
+                if (change.operation !== 'ALTER' || !columns) return null;
+
+                for (const cc of this.columnChangesFor(diff, table)) {
+                    const column = cc.columnName.toLowerCase();
+                    if (cc.operation === 'ADD' && columns.has(column)) {
+                        return this.conflict(change, table, `Column ${table}.${cc.columnName} already exists`);
+                    }
+                    if (cc.operation !== 'ADD' && !columns.has(column)) {
+                        return this.conflict(change, table, `Column ${table}.${cc.columnName} does not exist`);
+                    }
+                }
+                return null;
+            }
+
+            default:
+                return null;
+        }
+    }
+
+    private checkObject(change: Change, name: string, existing: Set<string>, kind: string): MergeConflict | null {
+        if (change.operation === 'CREATE' && existing.has(name)) {
+            return this.conflict(change, name, `${kind} ${name} already exists`);
+        }
+        if (change.operation === 'DROP' && !existing.has(name)) {
+            return this.conflict(change, name, `${kind} ${name} does not exist`);
+        }
+        return null;
+    }
+
+    private applyToModel(change: Change, diff: Diff | undefined, model: SchemaModel): void {
+        const table = this.tableOf(change);
+        const name = this.normalizeName(change.target);
+
+        if (change.type === 'INDEX' || change.type === 'VIEW') {
+            const set = change.type === 'INDEX' ? model.indexes : model.views;
+            if (change.operation === 'CREATE') set.add(name);
+            if (change.operation === 'DROP') set.delete(name);
+            return;
+        }
+
+        if (change.type !== 'SCHEMA' || !table) return;
+
+        const columnChanges = this.columnChangesFor(diff, table);
+
+        if (change.operation === 'DROP') {
+            model.tables.delete(table);
+        } else if (change.operation === 'CREATE') {
+            model.tables.set(table, columnChanges.length > 0
+                ? new Set(columnChanges.map((cc) => cc.columnName.toLowerCase()))
+                : null);
+        } else if (change.operation === 'ALTER') {
+            const columns = model.tables.get(table);
+            for (const cc of columnChanges) {
+                if (cc.operation === 'ADD') columns?.add(cc.columnName.toLowerCase());
+                if (cc.operation === 'DROP') columns?.delete(cc.columnName.toLowerCase());
+            }
+        }
+    }
+
+    private toSchemaModel(snapshot?: DatabaseSnapshot): SchemaModel {
+        const tables = new Map<string, Set<string> | null>();
+        for (const [name, table] of Object.entries(snapshot?.schema?.tables || {})) {
+            tables.set(name.toLowerCase(), new Set(table.columns.map((c) => c.name.toLowerCase())));
+        }
+
+        return {
+            tables,
+            indexes: new Set(Object.keys(snapshot?.schema?.indexes || {}).map((n) => n.toLowerCase())),
+            views: new Set(Object.keys(snapshot?.schema?.views || {}).map((n) => n.toLowerCase())),
+        };
+    }
+
+    private columnChangesFor(diff: Diff | undefined, table: string): ColumnChange[] {
+        const change = diff?.schemaChanges.find((c) => c.tableName.toLowerCase() === table);
+        return change?.columnChanges || [];
+    }
+
+    private tableOf(change: Change): string {
+        const tableName = (change as { tableName?: string }).tableName;
+        if (tableName) return this.normalizeName(tableName);
+        return change.type === 'DATA' ? this.normalizeName(change.target) : '';
+    }
+
+    /**
+     * Unquoted, lower-cased object name without its schema prefix
+     */
+    private normalizeName(name: string): string {
+        const last = (name || '').split('.').pop() || '';
+        return last.replace(/^["`[]|["`\]]$/g, '').toLowerCase();
+    }
+
+    private conflict(change: Change, target: string, description: string): MergeConflict {
+        return {
+            type: change.type === 'DATA' ? 'DATA' : 'SCHEMA',
+            target,
+            description,
+            currentValue: null,
+            incomingValue: `${change.operation} ${change.target}`,
+            resolved: false,
+        };
     }
 
     private async applyPatchInternal(
         patch: Patch,
-        _options?: PatchOptions
+        options?: PatchOptions
     ): Promise<PatchApplyResult> {
         let appliedPatches = 0;
         let failedPatches = 0;
         const conflicts: any[] = [];
+        const changes: PatchChangeResult[] = [];
+
+        if (!options?.executor) {
+            // No target to run against: import the commits into this repository
+            for (const commit of patch.commits) {
+                try {
+                    await this.storage.saveCommit(commit);
+                    appliedPatches++;
+                } catch (error) {
+                    failedPatches++;
+                }
+            }
+
+            return {
+                success: failedPatches === 0,
+                appliedPatches,
+                failedPatches,
+                conflicts,
+            };
+        }
 
+        let failed = false;
         for (const commit of patch.commits) {
-            try {
-                // Apply commit changes
-                await this.storage.saveCommit(commit);
-                appliedPatches++;
-            } catch (error) {
+            let commitFailed = false;
+
+            for (let i = 0; i < commit.changes.length; i++) {
+                const change = commit.changes[i];
+                const entry: PatchChangeResult = {
+                    commitId: commit.id,
+                    changeIndex: i,
+                    description: change.description,
+                    success: false,
+                };
+
+                if (failed) {
+                    // Later changes usually depend on the one that failed
+                    entry.skipped = true;
+                } else {
+                    try {
+                        await options.executor.execute(change, commit);
+                        entry.success = true;
+                    } catch (error) {
+                        entry.error = error instanceof Error ? error.message : String(error);
+                        failed = true;
+                    }
+                }
+
+                if (!entry.success) commitFailed = true;
+                changes.push(entry);
+            }
+
+            if (commitFailed) {
                 failedPatches++;
+            } else {
+                appliedPatches++;
             }
         }
 
@@ -225,19 +484,34 @@ export class PatchService {
             appliedPatches,
             failedPatches,
             conflicts,
+            changes,
         };
     }
 
     private async parsePatch(content: string): Promise<Patch> {
-        // Simplified parser - in production would parse Git patch format
-        const lines = content.split('\n');
+        const markerIndex = content.indexOf(PATCH_DATA_MARKER);
+        if (markerIndex === -1) {
+            throw new Error('Patch does not contain change data');
+        }
+
+        const data = JSON.parse(content.slice(markerIndex + PATCH_DATA_MARKER.length).trim());
+
+        // JSON turns dates into strings
+        const commits: Commit[] = (data.commits || []).map((commit: Commit) => ({
+            ...commit,
+            timestamp: new Date(commit.timestamp),
+            author: { ...commit.author, timestamp: new Date(commit.author.timestamp) },
+        }));
 
         const patch: Patch = {
-            id: `patch-${Date.now()}`,
-            commits: [],
-            diffs: [],
-            format: 'UNIFIED',
+            id: data.id || `patch-${Date.now()}`,
+            commits,
+            diffs: data.diffs || [],
+            format: data.format || 'UNIFIED',
             content,
+            metadata: data.metadata
+                ? { ...data.metadata, createdAt: new Date(data.metadata.createdAt) }
+                : undefined,
         };
 
         return patch;
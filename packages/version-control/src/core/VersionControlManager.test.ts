@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { VersionControlManager } from './VersionControlManager';
+import { FileStorage } from '../storage/FileStorage';
+import type { Commit } from './types';
+
+let dir: string;
+let storage: FileStorage;
+let vc: VersionControlManager;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bosdb-vc-'));
+    storage = new FileStorage(dir);
+    await storage.initialize();
+    vc = new VersionControlManager('test-db', storage);
+    await vc.initialize();
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+// Commits are timestamped in the order they are created
+let clock = 0;
+async function commit(id: string, ...parentIds: string[]): Promise<Commit> {
+    const timestamp = new Date(Date.UTC(2024, 0, 1, 0, 0, clock++));
+    const saved: Commit = {
+        id,
+        message: id,
+        author: { name: 'Ada', email: 'ada@example.com', timestamp },
+        timestamp,
+        parentIds,
+        treeId: id,
+        changes: [],
+    };
+    await storage.saveCommit(saved);
+    return saved;
+}
+
+const ids = (commits: Commit[]) => commits.map((c) => c.id);
+
+describe('VersionControlManager', () => {
+    describe('ref names', () => {
+        it.each(['a..b', 'has space', '.hidden', 'feature/.x', 'feature//x', 'x.lock', 'ends.', '@', 'a@{1}', 'what?', 'back\\slash', ''])(
+            'refuses the branch and tag name %p',
+            async (name) => {
+                expect(await vc.createBranch(name)).toEqual({ success: false, error: expect.stringMatching(/^Invalid branch name: /) });
+                expect(await vc.createTag(name, 'abc')).toEqual({ success: false, error: expect.stringMatching(/^Invalid tag name: /) });
+            }
+        );
+
+        it('stores names with a slash as a single file and lists them back', async () => {
+            expect((await vc.createBranch('feature/login')).success).toBe(true);
+            expect((await vc.createTag('release/1.0', 'abc')).success).toBe(true);
+
+            expect(await fs.readdir(path.join(dir, 'branches'))).toContain('feature%2Flogin.json');
+            expect((await storage.listBranches()).map((b) => b.name).sort()).toEqual(['feature/login', 'main']);
+            expect((await storage.listTags()).map((t) => t.name)).toEqual(['release/1.0']);
+
+            await storage.deleteBranch('feature/login');
+            expect(await storage.getBranch('feature/login')).toBeNull();
+        });
+    });
+
+    describe('migration planning', () => {
+        // c1 - c2 - c4          main
+        //        \
+        //         c3 - c5       feature
+        beforeEach(async () => {
+            await commit('c1');
+            await commit('c2', 'c1');
+            await commit('c3', 'c2');
+            await commit('c4', 'c2');
+            await commit('c5', 'c3');
+            await storage.saveBranch({ name: 'main', commitId: 'c4', protected: true });
+            await storage.saveBranch({ name: 'feature', commitId: 'c5', protected: false });
+        });
+
+        it('finds the nearest common ancestor', async () => {
+            expect(await vc.findMergeBase('c4', 'c5')).toBe('c2');
+            expect(await vc.findMergeBase('c5', 'c3')).toBe('c3');
+            expect(await vc.findMergeBase('c4', '')).toBe('');
+
+            await commit('other');
+            expect(await vc.findMergeBase('c4', 'other')).toBe('');
+        });
+
+        it('undoes back to the merge base newest first and replays the other side oldest first', async () => {
+            const plan = await vc.planMigration('c4', 'c5');
+
+            expect(plan.success).toBe(true);
+            if (!plan.success) return;
+            expect(plan.data.mergeBase).toBe('c2');
+            expect(ids(plan.data.undo)).toEqual(['c4']);
+            expect(ids(plan.data.redo)).toEqual(['c3', 'c5']);
+        });
+
+        it('plans from an empty database by replaying the whole history', async () => {
+            const plan = await vc.planMigration('', 'c5');
+
+            expect(plan.success && ids(plan.data.redo)).toEqual(['c1', 'c2', 'c3', 'c5']);
+            expect(plan.success && plan.data.undo).toEqual([]);
+        });
+
+        it('skips merge commits, whose changes are already on the path', async () => {
+            await commit('m', 'c4', 'c5');
+
+            const plan = await vc.planMigration('c2', 'm');
+
+            expect(plan.success && ids(plan.data.redo)).toEqual(['c3', 'c4', 'c5']);
+        });
+
+        it('refuses unknown commits', async () => {
+            expect(await vc.planMigration('c4', 'nope')).toEqual({ success: false, error: 'Commit nope not found' });
+        });
+
+        it('plans a checkout from HEAD to a branch without moving HEAD', async () => {
+            const plan = await vc.planCheckout('feature');
+
+            expect(plan.success && plan.data).toMatchObject({ branch: 'feature', fromCommitId: 'c4', toCommitId: 'c5', mergeBase: 'c2' });
+            expect(await vc.getCurrentBranch()).toBe('main');
+            expect(await vc.planCheckout('missing')).toEqual({ success: false, error: 'Branch missing not found' });
+        });
+    });
+});
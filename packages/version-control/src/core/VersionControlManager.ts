@@ -30,7 +30,27 @@ import {
     VersionControlConfig,
     Author,
     Result,
+    MergeStrategy,
+    MergeConflict,
+    CheckoutPlan,
+    MigrationPlan,
 } from './types';
+import { MergeService } from './MergeService';
+import { DiffService } from './DiffService';
+
+/**
+ * Why a branch or tag name is not a valid ref, following git's check-ref-format rules:
+ * no empty names or components, no '..', no component starting with '.', no backslash,
+ * control characters, spaces or any of ~^:?*[ and no trailing '.lock'
+ */
+function invalidRefName(name: string): string | null {
+    if (typeof name !== 'string' || !name.trim()) return 'name is required';
+    if (name.includes('..')) return "name must not contain '..'";
+    if (/[\x00-\x20\x7f~^:?*[\\]/.test(name)) return 'name must not contain spaces, control characters or any of ~^:?*[\\';
+    if (name.split('/').some((part) => !part || part.startsWith('.'))) return "name components must not be empty or start with '.'";
+    if (name.endsWith('.lock') || name.endsWith('.') || name === '@' || name.includes('@{')) return `${name} is not a valid ref name`;
+    return null;
+}
 
 /**
  * Main Version Control Manager
@@ -159,6 +179,11 @@ export class VersionControlManager {
 
     async createBranch(name: string, fromCommit?: string): Promise<Result<Branch>> {
         try {
+            const invalid = invalidRefName(name);
+            if (invalid) {
+                return { success: false, error: `Invalid branch name: ${invalid}` };
+            }
+
             const branches = await this.storage.listBranches();
             if (branches.find((b) => b.name === name)) {
                 return { success: false, error: `Branch ${name} already exists` };
@@ -210,6 +235,54 @@ export class VersionControlManager {
         }
     }
 
+    /**
+     * Commits that separate HEAD from a branch: what has to be undone to reach the
+     * merge base and what has to be replayed from there. HEAD is not moved.
+     */
+    async planCheckout(branchName: string): Promise<Result<CheckoutPlan>> {
+        try {
+            const target = await this.storage.getBranch(branchName);
+            if (!target) {
+                return { success: false, error: `Branch ${branchName} not found` };
+            }
+
+            const fromCommitId = (await this.storage.getBranch(this.currentBranch))?.commitId || '';
+            const plan = await this.buildMigrationPlan(fromCommitId, target.commitId);
+
+            return { success: true, data: { branch: branchName, ...plan } };
+        } catch (error) {
+            return { success: false, error: `Failed to plan checkout: ${error}` };
+        }
+    }
+
+    /**
+     * Same as planCheckout, between two arbitrary commits
+     */
+    async planMigration(fromCommitId: string, toCommitId: string): Promise<Result<MigrationPlan>> {
+        try {
+            for (const id of [fromCommitId, toCommitId]) {
+                if (id && !(await this.storage.getCommit(id))) {
+                    return { success: false, error: `Commit ${id} not found` };
+                }
+            }
+
+            return { success: true, data: await this.buildMigrationPlan(fromCommitId, toCommitId) };
+        } catch (error) {
+            return { success: false, error: `Failed to plan migration: ${error}` };
+        }
+    }
+
+    private async buildMigrationPlan(fromCommitId: string, toCommitId: string): Promise<MigrationPlan> {
+        const mergeBase = await this.findMergeBase(fromCommitId, toCommitId);
+
+        // Merge commits repeat the changes of the commits they merged, which are already on the path
+        const isSingleParent = (commit: Commit) => commit.parentIds.length <= 1;
+        const undo = fromCommitId ? (await this.getCommitsSince(mergeBase, fromCommitId)).filter(isSingleParent).reverse() : [];
+        const redo = toCommitId ? (await this.getCommitsSince(mergeBase, toCommitId)).filter(isSingleParent) : [];
+
+        return { fromCommitId, toCommitId, mergeBase, undo, redo };
+    }
+
     async deleteBranch(name: string, force: boolean = false): Promise<Result<void>> {
         try {
             if (name === this.currentBranch) {
@@ -245,6 +318,11 @@ export class VersionControlManager {
 
     async createTag(name: string, commitId: string, message?: string, tagger?: Author): Promise<Result<Tag>> {
         try {
+            const invalid = invalidRefName(name);
+            if (invalid) {
+                return { success: false, error: `Invalid tag name: ${invalid}` };
+            }
+
             const existingTag = await this.storage.getTag(name);
             if (existingTag) {
                 return { success: false, error: `Tag ${name} already exists` };
@@ -387,6 +465,24 @@ export class VersionControlManager {
                 return { success: false, error: 'Branch not found' };
             }
 
+            const config = await this.storage.getConfig();
+            const strategy: MergeStrategy = options?.strategy || config.config.merge?.defaultStrategy || 'RECURSIVE';
+
+            // Nothing to merge if the source is already part of our history
+            if (!source.commitId || source.commitId === target.commitId ||
+                await this.isAncestor(source.commitId, target.commitId)) {
+                return {
+                    success: true,
+                    data: {
+                        success: true,
+                        commitId: target.commitId,
+                        conflicts: [],
+                        strategy,
+                        message: 'Already up to date',
+                    },
+                };
+            }
+
             // Get commits
             const sourceCommit = await this.storage.getCommit(source.commitId);
             const targetCommit = target.commitId ? await this.storage.getCommit(target.commitId) : null;
@@ -396,12 +492,15 @@ export class VersionControlManager {
             }
 
             // Check for fast-forward
-            if (options?.noFastForward !== true) {
+            if (options?.noFastForward !== true && !options?.squash) {
                 const canFastForward = await this.canFastForward(target.commitId, source.commitId);
                 if (canFastForward) {
+                    const oldCommitId = target.commitId;
                     target.commitId = source.commitId;
                     await this.storage.saveBranch(target);
 
+                    await this.addReflogEntry('MERGE', this.currentBranch, oldCommitId, source.commitId, `merge ${sourceBranch}: Fast-forward`);
+
                     return {
                         success: true,
                         data: {
@@ -410,15 +509,31 @@ export class VersionControlManager {
                             conflicts: [],
                             strategy: 'FAST_FORWARD',
                             message: 'Fast-forward merge',
+                            mergeBase: oldCommitId,
                         },
                     };
                 }
             }
 
+            if (strategy === 'FAST_FORWARD') {
+                return {
+                    success: true,
+                    data: {
+                        success: false,
+                        conflicts: [],
+                        strategy,
+                        message: 'Not possible to fast-forward, aborting',
+                    },
+                };
+            }
+
             // Perform 3-way merge
-            const mergeResult = await this.performMerge(targetCommit, sourceCommit, options);
+            const mergeBase = await this.findMergeBase(target.commitId, source.commitId);
+            const mergeResult = await this.performMerge(target, targetCommit, sourceCommit, sourceBranch, mergeBase, strategy, options);
 
-            await this.addReflogEntry('MERGE', this.currentBranch, target.commitId, mergeResult.commitId || '', `merge ${sourceBranch}: ${mergeResult.message}`);
+            if (mergeResult.commitId) {
+                await this.addReflogEntry('MERGE', this.currentBranch, target.commitId, mergeResult.commitId, `merge ${sourceBranch}: ${mergeResult.message}`);
+            }
 
             return { success: true, data: mergeResult };
         } catch (error) {
@@ -427,55 +542,222 @@ export class VersionControlManager {
     }
 
     private async performMerge(
+        target: Branch,
         targetCommit: Commit | null,
         sourceCommit: Commit,
+        sourceBranch: string,
+        mergeBase: string,
+        strategy: MergeStrategy,
         options?: MergeOptions
     ): Promise<MergeResult> {
-        // Simplified merge implementation
-        // In production, would implement proper 3-way merge algorithm
+        const baseCommit = mergeBase ? await this.storage.getCommit(mergeBase) : null;
+        const baseSnapshot = baseCommit ? await this.storage.getSnapshot(baseCommit.treeId) : null;
+        const currentSnapshot = targetCommit ? await this.storage.getSnapshot(targetCommit.treeId) : MergeService.emptySnapshot();
+        const incomingSnapshot = await this.storage.getSnapshot(sourceCommit.treeId);
+
+        let conflicts: MergeConflict[];
+        let mergedSnapshot: DatabaseSnapshot;
+
+        if (currentSnapshot && incomingSnapshot && (this.hasState(currentSnapshot) || this.hasState(incomingSnapshot))) {
+            const snapshotMerge = new MergeService(strategy).merge(baseSnapshot, currentSnapshot, incomingSnapshot);
+            conflicts = snapshotMerge.conflicts;
+            mergedSnapshot = snapshotMerge.snapshot;
+        } else {
+            // No captured state on either side: fall back to comparing the recorded changes
+            conflicts = await this.detectConflicts(mergeBase, targetCommit, sourceCommit, strategy);
+            mergedSnapshot = currentSnapshot || incomingSnapshot || MergeService.emptySnapshot();
+        }
 
-        const conflicts = await this.detectConflicts(targetCommit, sourceCommit);
+        const unresolved = conflicts.filter((c) => !c.resolved);
 
-        if (conflicts.length > 0 && !options?.allowConflicts) {
+        // Octopus merges never stop for manual resolution
+        if (unresolved.length > 0 && (strategy === 'OCTOPUS' || !options?.allowConflicts)) {
             return {
                 success: false,
                 conflicts,
-                strategy: options?.strategy || 'RECURSIVE',
-                message: 'Merge conflicts detected',
+                strategy,
+                message: `Merge conflicts detected (${unresolved.length})`,
+                mergeBase,
             };
         }
 
+        const incomingCommits = await this.getCommitsSince(mergeBase, sourceCommit.id);
+        const config = await this.storage.getConfig();
+        const author: Author = config.config.user
+            ? { ...config.config.user, timestamp: new Date() }
+            : sourceCommit.author;
+
         // Create merge commit
+        const mergeCommitId = this.generateCommitId();
         const mergeCommit: Commit = {
-            id: this.generateCommitId(),
-            message: options?.message || `Merge branch '${sourceCommit.id}'`,
-            author: sourceCommit.author,
+            id: mergeCommitId,
+            message: options?.message || `Merge branch '${sourceBranch}' into ${this.currentBranch}`,
+            author,
             timestamp: new Date(),
-            parentIds: [targetCommit?.id || '', sourceCommit.id],
-            treeId: sourceCommit.treeId,
-            changes: sourceCommit.changes,
+            parentIds: options?.squash
+                ? [targetCommit?.id].filter(Boolean) as string[]
+                : [targetCommit?.id, sourceCommit.id].filter(Boolean) as string[],
+            treeId: mergeCommitId,
+            changes: incomingCommits.flatMap((c) => c.changes),
+            branchName: this.currentBranch,
+            metadata: {
+                mergeBase,
+                mergedBranch: sourceBranch,
+                strategy,
+                ...(conflicts.length > 0 ? { conflicts } : {}),
+            },
         };
 
         await this.storage.saveCommit(mergeCommit);
+        await this.storage.saveSnapshot(mergeCommitId, { ...mergedSnapshot, timestamp: new Date() });
+
+        target.commitId = mergeCommitId;
+        await this.storage.saveBranch(target);
 
         return {
             success: true,
             commitId: mergeCommit.id,
-            conflicts: [],
-            strategy: options?.strategy || 'RECURSIVE',
-            message: 'Merge successful',
+            conflicts,
+            strategy,
+            message: unresolved.length > 0
+                ? `Merged with ${unresolved.length} unresolved conflict(s)`
+                : 'Merge successful',
+            mergeBase,
         };
     }
 
-    private async detectConflicts(_commit1: Commit | null, _commit2: Commit): Promise<any[]> {
-        // Simplified conflict detection
-        return [];
+    /**
+     * Change-level conflict detection for commits recorded without snapshots.
+     * Two branches conflict when both touched the same target differently.
+     */
+    private async detectConflicts(
+        mergeBase: string,
+        targetCommit: Commit | null,
+        sourceCommit: Commit,
+        strategy: MergeStrategy
+    ): Promise<MergeConflict[]> {
+        if (!targetCommit) return [];
+
+        const ours = this.groupChangesByTarget(await this.getCommitsSince(mergeBase, targetCommit.id));
+        const theirs = this.groupChangesByTarget(await this.getCommitsSince(mergeBase, sourceCommit.id));
+        const conflicts: MergeConflict[] = [];
+
+        for (const [target, incomingChanges] of theirs) {
+            const currentChanges = ours.get(target);
+            if (!currentChanges || MergeService.isEqual(currentChanges, incomingChanges)) continue;
+
+            const autoResolved = strategy === 'OURS' || strategy === 'THEIRS';
+            conflicts.push({
+                type: incomingChanges.some((c) => c.type === 'DATA') ? 'DATA' : 'SCHEMA',
+                target,
+                description: `${target} was changed on both branches`,
+                currentValue: currentChanges,
+                incomingValue: incomingChanges,
+                resolved: autoResolved,
+                resolution: autoResolved
+                    ? (strategy === 'OURS' ? currentChanges : incomingChanges)
+                    : undefined,
+            });
+        }
+
+        return conflicts;
+    }
+
+    private groupChangesByTarget(commits: Commit[]): Map<string, Change[]> {
+        const groups = new Map<string, Change[]>();
+        for (const commit of commits) {
+            for (const change of commit.changes) {
+                const key = (change as any).tableName || change.target;
+                groups.set(key, [...(groups.get(key) || []), change]);
+            }
+        }
+        return groups;
+    }
+
+    private hasState(snapshot: DatabaseSnapshot): boolean {
+        return Object.keys(snapshot.schema?.tables || {}).length > 0 ||
+            Object.keys(snapshot.data?.tables || {}).length > 0;
     }
 
-    private async canFastForward(baseCommitId: string, _targetCommitId: string): Promise<boolean> {
+    private async canFastForward(baseCommitId: string, targetCommitId: string): Promise<boolean> {
         if (!baseCommitId) return true;
-        // Simplified: in production, would check if target is descendant of base
-        return false;
+        return this.isAncestor(baseCommitId, targetCommitId);
+    }
+
+    /**
+     * Whether `ancestorId` is reachable from `commitId` through parent links
+     */
+    private async isAncestor(ancestorId: string, commitId: string): Promise<boolean> {
+        if (!ancestorId || !commitId) return false;
+        const ancestors = await this.collectAncestors(commitId);
+        return ancestors.has(ancestorId);
+    }
+
+    /**
+     * Find the best common ancestor of two commits: the first commit reachable
+     * from `b` (breadth-first, so the nearest one) that is also an ancestor of `a`
+     */
+    async findMergeBase(a: string, b: string): Promise<string> {
+        if (!a || !b) return '';
+
+        const ancestorsOfA = await this.collectAncestors(a);
+        const queue = [b];
+        const visited = new Set<string>();
+
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            if (visited.has(id)) continue;
+            visited.add(id);
+
+            if (ancestorsOfA.has(id)) return id;
+
+            const commit = await this.storage.getCommit(id);
+            if (commit) queue.push(...commit.parentIds.filter(Boolean));
+        }
+
+        return '';
+    }
+
+    /**
+     * All commits reachable from `commitId`, including itself
+     */
+    private async collectAncestors(commitId: string): Promise<Set<string>> {
+        const ancestors = new Set<string>();
+        const stack = [commitId];
+
+        while (stack.length > 0) {
+            const id = stack.pop()!;
+            if (!id || ancestors.has(id)) continue;
+            ancestors.add(id);
+
+            const commit = await this.storage.getCommit(id);
+            if (commit) stack.push(...commit.parentIds);
+        }
+
+        return ancestors;
+    }
+
+    /**
+     * Commits reachable from `headCommitId` but not from `baseCommitId`, oldest first
+     */
+    private async getCommitsSince(baseCommitId: string, headCommitId: string): Promise<Commit[]> {
+        const excluded = baseCommitId ? await this.collectAncestors(baseCommitId) : new Set<string>();
+        const commits: Commit[] = [];
+        const visited = new Set<string>();
+        const stack = [headCommitId];
+
+        while (stack.length > 0) {
+            const id = stack.pop()!;
+            if (!id || visited.has(id) || excluded.has(id)) continue;
+            visited.add(id);
+
+            const commit = await this.storage.getCommit(id);
+            if (!commit) continue;
+            commits.push(commit);
+            stack.push(...commit.parentIds);
+        }
+
+        return commits.sort((x, y) => new Date(x.timestamp).getTime() - new Date(y.timestamp).getTime());
     }
 
     // ============ Cherry-Pick Operation ============
@@ -498,19 +780,21 @@ export class VersionControlManager {
                 message: commit.message,
                 author: commit.author,
                 timestamp: new Date(),
-                parentIds: [currentBranch.commitId],
+                parentIds: currentBranch.commitId ? [currentBranch.commitId] : [],
                 treeId: commit.treeId,
                 changes: commit.changes,
+                branchName: this.currentBranch,
             };
 
             await this.storage.saveCommit(newCommit);
 
+            const previousHead = currentBranch.commitId;
             if (!options?.noCommit) {
                 currentBranch.commitId = newCommit.id;
                 await this.storage.saveBranch(currentBranch);
             }
 
-            await this.addReflogEntry('CHERRY_PICK', this.currentBranch, currentBranch.commitId, newCommit.id, `cherry-pick: ${commit.message}`);
+            await this.addReflogEntry('CHERRY_PICK', this.currentBranch, previousHead, newCommit.id, `cherry-pick: ${commit.message}`);
 
             return {
                 success: true,
@@ -585,7 +869,7 @@ export class VersionControlManager {
 
     // ============ Diff Operation ============
 
-    async diff(fromCommit: string, toCommit: string, _options?: DiffOptions): Promise<Result<Diff>> {
+    async diff(fromCommit: string, toCommit: string, options?: DiffOptions): Promise<Result<Diff>> {
         try {
             const from = await this.storage.getCommit(fromCommit);
             const to = await this.storage.getCommit(toCommit);
@@ -601,7 +885,9 @@ export class VersionControlManager {
                 return { success: false, error: 'Snapshot not found' };
             }
 
-            const diff = this.computeDiff(fromSnapshot, toSnapshot);
+            const diff = this.computeDiff(fromSnapshot, toSnapshot, options);
+            diff.fromCommitId = from.id;
+            diff.toCommitId = to.id;
 
             return { success: true, data: diff };
         } catch (error) {
@@ -609,27 +895,8 @@ export class VersionControlManager {
         }
     }
 
-    private computeDiff(_from: DatabaseSnapshot, _to: DatabaseSnapshot): Diff {
-        const schemaChanges: any[] = [];
-        const dataChanges: any[] = [];
-
-        // Simplified diff computation
-        // In production would compare schemas and data in detail
-
-        return {
-            fromCommitId: '',
-            toCommitId: '',
-            schemaChanges,
-            dataChanges,
-            viewChanges: [],
-            indexChanges: [],
-            summary: {
-                filesChanged: 0,
-                insertions: 0,
-                deletions: 0,
-                modifications: 0,
-            },
-        };
+    private computeDiff(from: DatabaseSnapshot, to: DatabaseSnapshot, options?: DiffOptions): Diff {
+        return new DiffService(options).compute(from, to);
     }
 
     // ============ Reflog Operations ============
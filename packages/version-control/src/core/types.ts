@@ -66,6 +66,7 @@ export interface DataSnapshot {
 export interface TableData {
     rows: Record<string, any>[];
     checksum?: string;
+    truncated?: boolean;  // Rows are a bounded sample, not the full table
 }
 
 // ============ Commit & Change Types ============
@@ -139,6 +140,7 @@ export interface ViewChange extends BaseChange {
     viewName: string;
     oldDefinition?: string;
     newDefinition?: string;
+    unifiedDiff?: string;
 }
 
 export interface IndexChange extends BaseChange {
@@ -215,6 +217,7 @@ export interface MergeResult {
     conflicts: MergeConflict[];
     strategy: MergeStrategy;
     message: string;
+    mergeBase?: string;
 }
 
 export type MergeStrategy =
@@ -243,6 +246,25 @@ export interface MergeOptions {
     allowConflicts?: boolean;
 }
 
+export interface SnapshotMergeResult {
+    snapshot: DatabaseSnapshot;
+    conflicts: MergeConflict[];
+}
+
+// ============ Checkout Types ============
+
+export interface MigrationPlan {
+    fromCommitId: string;
+    toCommitId: string;
+    mergeBase: string;
+    undo: Commit[];  // From-commit back to the merge base, newest first
+    redo: Commit[];  // Merge base forward to the to-commit, oldest first
+}
+
+export interface CheckoutPlan extends MigrationPlan {
+    branch: string;
+}
+
 // ============ Cherry-Pick Types ============
 
 export interface CherryPickResult {
@@ -290,6 +312,7 @@ export interface Diff {
     dataChanges: DataChange[];
     viewChanges: ViewChange[];
     indexChanges: IndexChange[];
+    constraintChanges: ConstraintChange[];
     summary: DiffSummary;
 }
 
@@ -304,6 +327,12 @@ export interface DiffOptions {
     contextLines?: number;
     ignoreWhitespace?: boolean;
     algorithm?: 'MYERS' | 'PATIENCE' | 'HISTOGRAM';
+    includeData?: boolean;
+}
+
+export interface LineDiffOp {
+    type: 'EQUAL' | 'INSERT' | 'DELETE';
+    line: string;
 }
 
 // ============ Blame Types ============
@@ -322,6 +351,15 @@ export interface BlameLine {
     age: number; // Days since commit
 }
 
+export interface ColumnBlame {
+    column: string;
+    definition: ColumnDefinition;
+    operation: 'ADD' | 'MODIFY'; // How the commit last touched the column
+    commit: Commit;
+    author: Author;
+    age: number; // Days since commit
+}
+
 export interface BlameOptions {
     followRenames?: boolean;
     ignoreRevsFile?: string;
@@ -398,12 +436,29 @@ export interface PatchApplyResult {
     failedPatches: number;
     conflicts: MergeConflict[];
     rejectedHunks?: string[];
+    changes?: PatchChangeResult[];
+}
+
+export interface PatchChangeResult {
+    commitId: string;
+    changeIndex: number; // Position within the commit's changes
+    description: string;
+    success: boolean;
+    skipped?: boolean; // Not attempted because an earlier change failed
+    error?: string;
 }
 
 export interface PatchOptions {
     check?: boolean;
     reverse?: boolean;
     directory?: string;
+    target?: DatabaseSnapshot; // Live schema of the target, validated before anything is applied
+    executor?: PatchExecutor; // Applies changes to the target; without one, commits are imported into storage
+    force?: boolean; // Apply even when validation reports conflicts
+}
+
+export interface PatchExecutor {
+    execute(change: Change, commit: Commit): Promise<void>;
 }
 
 // ============ Log & History Types ============
@@ -15,6 +15,8 @@ export { VersionControlManager } from './core/VersionControlManager';
 export { BlameService } from './core/BlameService';
 export { BisectService } from './core/BisectService';
 export { PatchService } from './core/PatchService';
+export { MergeService } from './core/MergeService';
+export { DiffService } from './core/DiffService';
 
 // Export storage implementations
 export { FileStorage } from './storage/FileStorage';
@@ -90,13 +90,13 @@ export class FileStorage implements VersionControlStorage {
 
     // Branch operations
     async saveBranch(branch: Branch): Promise<void> {
-        const filePath = path.join(this.branchesDir, `${branch.name}.json`);
+        const filePath = this.branchFile(branch.name);
         await fs.writeFile(filePath, JSON.stringify(branch, null, 2));
     }
 
     async getBranch(name: string): Promise<Branch | null> {
         try {
-            const filePath = path.join(this.branchesDir, `${name}.json`);
+            const filePath = this.branchFile(name);
             const content = await fs.readFile(filePath, 'utf-8');
             return JSON.parse(content);
         } catch {
@@ -110,7 +110,7 @@ export class FileStorage implements VersionControlStorage {
             const branches: Branch[] = [];
             for (const file of files) {
                 if (file.endsWith('.json')) {
-                    const name = file.replace('.json', '');
+                    const name = decodeURIComponent(file.replace(/\.json$/, ''));
                     const branch = await this.getBranch(name);
                     if (branch) branches.push(branch);
                 }
@@ -122,19 +122,19 @@ export class FileStorage implements VersionControlStorage {
     }
 
     async deleteBranch(name: string): Promise<void> {
-        const filePath = path.join(this.branchesDir, `${name}.json`);
+        const filePath = this.branchFile(name);
         await fs.unlink(filePath);
     }
 
     // Tag operations
     async saveTag(tag: Tag): Promise<void> {
-        const filePath = path.join(this.tagsDir, `${tag.name}.json`);
+        const filePath = this.tagFile(tag.name);
         await fs.writeFile(filePath, JSON.stringify(tag, null, 2));
     }
 
     async getTag(name: string): Promise<Tag | null> {
         try {
-            const filePath = path.join(this.tagsDir, `${name}.json`);
+            const filePath = this.tagFile(name);
             const content = await fs.readFile(filePath, 'utf-8');
             const tag = JSON.parse(content);
             tag.createdAt = new Date(tag.createdAt);
@@ -151,7 +151,7 @@ export class FileStorage implements VersionControlStorage {
             const tags: Tag[] = [];
             for (const file of files) {
                 if (file.endsWith('.json')) {
-                    const name = file.replace('.json', '');
+                    const name = decodeURIComponent(file.replace(/\.json$/, ''));
                     const tag = await this.getTag(name);
                     if (tag && this.matchesTagFilter(tag, filter)) {
                         tags.push(tag);
@@ -165,10 +165,19 @@ export class FileStorage implements VersionControlStorage {
     }
 
     async deleteTag(name: string): Promise<void> {
-        const filePath = path.join(this.tagsDir, `${name}.json`);
+        const filePath = this.tagFile(name);
         await fs.unlink(filePath);
     }
 
+    // Names are encoded so a '/' (feature/login) stays inside the directory instead of making a path
+    private branchFile(name: string): string {
+        return path.join(this.branchesDir, `${encodeURIComponent(name)}.json`);
+    }
+
+    private tagFile(name: string): string {
+        return path.join(this.tagsDir, `${encodeURIComponent(name)}.json`);
+    }
+
     private matchesTagFilter(tag: Tag, filter?: TagFilter): boolean {
         if (!filter) return true;
 